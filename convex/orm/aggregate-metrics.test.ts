@@ -2,10 +2,12 @@ import {
   aggregateIndex,
   convexTable,
   createOrm,
+  decimal,
   defineRelations,
   defineSchema,
   integer,
   text,
+  timestamp,
 } from 'kitcn/orm';
 import { describe, expect, it, vi } from 'vitest';
 import * as aggregateRuntime from '../../packages/kitcn/src/orm/aggregate-index/runtime';
@@ -96,6 +98,37 @@ const buildMissingCountMetricFixtures = () => {
   };
 };
 
+const buildTimeSeriesFixtures = () => {
+  const metricEvents = convexTable(
+    'metricEvents',
+    {
+      orgId: text().notNull(),
+      amount: integer(),
+      occurredAt: timestamp().notNull(),
+    },
+    (t) => [
+      aggregateIndex('by_org_day')
+        .on(t.orgId)
+        .bucket(t.occurredAt, 'day')
+        .sum(t.amount)
+        .avg(t.amount),
+    ]
+  );
+
+  const schema = defineSchema({
+    metricEvents,
+  });
+  const relations = defineRelations({
+    metricEvents,
+  });
+
+  return {
+    metricEvents,
+    schema,
+    relations,
+  };
+};
+
 const runBackfillToReady = async (api: any, ctx: { db: any }) => {
   await (api as any).aggregateBackfill.handler(
     { db: ctx.db, scheduler: schedulerStub },
@@ -1038,6 +1071,47 @@ describe('ORM aggregate()', () => {
     });
   });
 
+  it('sums decimal columns exactly past 2^53 scaled units', async () => {
+    const ledger = convexTable(
+      'metricLedger',
+      {
+        amount: decimal({ scale: 2 }),
+      },
+      (t) => [aggregateIndex('all_amounts').all().sum(t.amount)]
+    );
+    const tables = { metricLedger: ledger };
+    const t = convexTest(defineSchema(tables));
+
+    await t.run(async (baseCtx) => {
+      const ormClient = createOrm({
+        schema: defineRelations(tables),
+        ormFunctions: {
+          scheduledDelete: {} as any,
+          scheduledMutationBatch: {} as any,
+        },
+        internalMutation: passthroughInternalMutation,
+      });
+      const ctx = ormClient.with({
+        db: baseCtx.db,
+        scheduler: schedulerStub as any,
+      });
+      const api = ormClient.api();
+
+      await ctx.db.insert('metricLedger', { amount: 9_007_199_254_740_993n });
+      await ctx.db.insert('metricLedger', { amount: 1n });
+
+      await runBackfillToReady(api as any, baseCtx as any);
+
+      await expect(
+        ctx.orm.query.metricLedger.aggregate({
+          _sum: { amount: true },
+        })
+      ).resolves.toEqual({
+        _sum: { amount: '90071992547409.94' },
+      });
+    });
+  });
+
   it('throws deterministic errors for unsupported args/filters/index coverage', async () => {
     const { schema, relations } = buildMetricFixtures();
     const t = convexTest(schema);
@@ -1658,3 +1732,147 @@ describe('ORM count({ select })', () => {
     });
   });
 });
+
+describe('ORM groupBy() time series', () => {
+  const day = (date: number) => new Date(Date.UTC(2024, 0, date));
+
+  it('returns a dense bucket series with zero-filled gaps', async () => {
+    const { metricEvents, schema, relations } = buildTimeSeriesFixtures();
+    const t = convexTest(schema);
+
+    await t.run(async (baseCtx) => {
+      const ormClient = createOrm({
+        schema: relations,
+        ormFunctions: {
+          scheduledDelete: {} as any,
+          scheduledMutationBatch: {} as any,
+        },
+        internalMutation: passthroughInternalMutation,
+      });
+      const ctx = ormClient.with({
+        db: baseCtx.db,
+        scheduler: schedulerStub as any,
+      });
+      const api = ormClient.api();
+
+      await ctx.orm.insert(metricEvents).values([
+        {
+          orgId: 'org-1',
+          amount: 5,
+          occurredAt: new Date(Date.UTC(2024, 0, 1, 9)),
+        },
+        {
+          orgId: 'org-2',
+          amount: 7,
+          occurredAt: new Date(Date.UTC(2024, 0, 2, 9)),
+        },
+      ]);
+
+      await runBackfillToReady(api as any, baseCtx as any);
+
+      // Rows written after backfill are maintained by the mutation hooks.
+      await ctx.orm.insert(metricEvents).values([
+        {
+          orgId: 'org-1',
+          amount: 3,
+          occurredAt: new Date(Date.UTC(2024, 0, 1, 18)),
+        },
+        {
+          orgId: 'org-1',
+          amount: 4,
+          occurredAt: new Date(Date.UTC(2024, 0, 3, 12)),
+        },
+      ]);
+
+      const series = await ctx.orm.query.metricEvents.groupBy({
+        by: { occurredAt: 'day' },
+        where: {
+          orgId: 'org-1',
+          occurredAt: { gte: day(1), lt: day(4) },
+        },
+        _count: true,
+        _sum: { amount: true },
+        _avg: { amount: true },
+      });
+
+      expect(series).toEqual([
+        {
+          occurredAt: day(1),
+          _count: 2,
+          _sum: { amount: 8 },
+          _avg: { amount: 4 },
+        },
+        {
+          occurredAt: day(2),
+          _count: 0,
+          _sum: { amount: 0 },
+          _avg: { amount: null },
+        },
+        {
+          occurredAt: day(3),
+          _count: 1,
+          _sum: { amount: 4 },
+          _avg: { amount: 4 },
+        },
+      ]);
+
+      const descending = await ctx.orm.query.metricEvents.groupBy({
+        by: { occurredAt: 'day' },
+        where: {
+          orgId: 'org-1',
+          occurredAt: { gte: day(1), lte: day(2) },
+        },
+        orderBy: { occurredAt: 'desc' },
+        _count: true,
+      });
+      expect(descending).toEqual([
+        { occurredAt: day(2), _count: 0 },
+        { occurredAt: day(1), _count: 2 },
+      ]);
+    });
+  });
+
+  it('requires bounded ranges and a matching bucketed index', async () => {
+    const { schema, relations } = buildTimeSeriesFixtures();
+    const t = convexTest(schema);
+
+    await t.run(async (baseCtx) => {
+      const ormClient = createOrm({
+        schema: relations,
+        ormFunctions: {
+          scheduledDelete: {} as any,
+          scheduledMutationBatch: {} as any,
+        },
+        internalMutation: passthroughInternalMutation,
+      });
+      const ctx = ormClient.with({
+        db: baseCtx.db,
+        scheduler: schedulerStub as any,
+      });
+      const api = ormClient.api();
+
+      await runBackfillToReady(api as any, baseCtx as any);
+
+      await expect(
+        ctx.orm.query.metricEvents.groupBy({
+          by: { occurredAt: 'day' },
+          where: { orgId: 'org-1', occurredAt: { gte: day(1) } },
+          _count: true,
+        })
+      ).rejects.toThrow(/AGGREGATE_FILTER_UNSUPPORTED/);
+      await expect(
+        ctx.orm.query.metricEvents.groupBy({
+          by: { occurredAt: 'week' },
+          where: {
+            orgId: 'org-1',
+            occurredAt: { gte: day(1), lt: day(4) },
+          },
+          _count: true,
+        })
+      ).rejects.toThrow(/AGGREGATE_NOT_INDEXED/);
+      await expect(
+        ctx.orm.query.metricEvents.count({ where: { orgId: 'org-1' } })
+      ).rejects.toThrow(/COUNT_NOT_INDEXED/);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import {
+  columnPolicy,
+  convexTable,
+  defineRelations,
+  defineSchema,
+  eq,
+  id,
+  text,
+} from 'kitcn/orm';
+import { it as baseIt, describe, expect } from 'vitest';
+import { convexTest, withOrm } from '../setup.testing';
+
+const users = convexTable(
+  'cp_users',
+  {
+    name: text().notNull(),
+    email: text().notNull(),
+    phone: text(),
+    role: text().notNull().default('member'),
+  },
+  (t) => [
+    columnPolicy('contact_owner', {
+      columns: [t.email, t.phone],
+      for: 'select',
+      using: (ctx) => eq(t.id, ctx.viewerId),
+    }),
+    columnPolicy('contact_admin', {
+      columns: [t.email, t.phone],
+      for: 'select',
+      to: 'admin',
+    }),
+    columnPolicy('role_admin', {
+      columns: [t.role],
+      for: 'update',
+      using: (ctx) => ctx.roles?.includes('admin') === true,
+    }),
+  ]
+);
+
+const notes = convexTable(
+  'cp_notes',
+  {
+    body: text().notNull(),
+    authorId: id('cp_users').notNull(),
+    internal: text(),
+  },
+  (t) => [
+    columnPolicy('internal_admin', {
+      columns: [t.internal],
+      to: 'admin',
+      mask: 'null',
+    }),
+  ]
+);
+
+const tables = { cp_users: users, cp_notes: notes };
+const schema = defineSchema(tables, { defaults: { defaultLimit: 100 } });
+const relations = defineRelations(tables, (r) => ({
+  cp_notes: {
+    author: r.one.cp_users({ from: r.cp_notes.authorId, to: r.cp_users.id }),
+  },
+}));
+
+const it = baseIt.extend<{ ctx: any }>({
+  ctx: async ({}, use) => {
+    const t = convexTest(schema);
+    await t.run(async (baseCtx) => {
+      const ctx: any = withOrm(baseCtx, relations, {
+        rls: {
+          roleResolver: (ctx) => (ctx as { roles?: string[] }).roles ?? [],
+        },
+      });
+      ctx.roles = [];
+      await use(ctx);
+    });
+  },
+});
+
+const seedUsers = async (ctx: any) => ({
+  viewerId: await ctx.db.insert('cp_users', {
+    name: 'Viewer',
+    email: 'viewer@example.com',
+    phone: '555-0100',
+    role: 'member',
+  }),
+  otherId: await ctx.db.insert('cp_users', {
+    name: 'Other',
+    email: 'other@example.com',
+    role: 'member',
+  }),
+});
+
+describe('columnPolicy()', () => {
+  it('strips protected columns unless a policy passes', async ({ ctx }) => {
+    const { viewerId, otherId } = await seedUsers(ctx);
+    ctx.viewerId = viewerId;
+
+    const own = await ctx.orm.query.cp_users.findFirst({
+      where: { id: viewerId },
+    });
+    expect(own).toMatchObject({
+      email: 'viewer@example.com',
+      phone: '555-0100',
+    });
+
+    const other = await ctx.orm.query.cp_users.findFirst({
+      where: { id: otherId },
+    });
+    expect(other).toMatchObject({ name: 'Other', role: 'member' });
+    expect('email' in other).toBe(false);
+    expect('phone' in other).toBe(false);
+
+    ctx.roles = ['admin'];
+    const asAdmin = await ctx.orm.query.cp_users.findFirst({
+      where: { id: otherId },
+    });
+    expect(asAdmin.email).toBe('other@example.com');
+  });
+
+  it('masks relations loaded with with and returning() rows', async ({
+    ctx,
+  }) => {
+    const { viewerId, otherId } = await seedUsers(ctx);
+    ctx.viewerId = viewerId;
+    await ctx.db.insert('cp_notes', {
+      body: 'Hello',
+      authorId: otherId,
+      internal: 'flagged',
+    });
+
+    const [note] = await ctx.orm.query.cp_notes.findMany({
+      with: { author: true },
+    });
+    expect(note.internal).toBeNull();
+    expect(note.author.name).toBe('Other');
+    expect('email' in note.author).toBe(false);
+
+    const [renamed] = await ctx.orm
+      .update(users)
+      .set({ name: 'Renamed' })
+      .where(eq(users.id, otherId))
+      .returning();
+    expect(renamed.name).toBe('Renamed');
+    expect('email' in renamed).toBe(false);
+
+    const [edited] = await ctx.orm
+      .update(notes)
+      .set({ body: 'Edited' })
+      .where(eq(notes.id, note.id))
+      .returning();
+    expect(edited).toMatchObject({ body: 'Edited', internal: null });
+  });
+
+  it('rejects writes to protected columns', async ({ ctx }) => {
+    const { viewerId } = await seedUsers(ctx);
+    ctx.viewerId = viewerId;
+
+    await expect(
+      ctx.orm.update(users).set({ role: 'admin' }).where(eq(users.id, viewerId))
+    ).rejects.toThrow(
+      `Column policy 'role_admin' denies update of "role" on table "cp_users"`
+    );
+    await expect(
+      ctx.orm
+        .insert(notes)
+        .values({ body: 'x', authorId: viewerId, internal: 'x' })
+    ).rejects.toThrow(
+      `Column policy 'internal_admin' denies insert of "internal" on table "cp_notes"`
+    );
+    await ctx.orm.insert(notes).values({ body: 'x', authorId: viewerId });
+
+    ctx.roles = ['admin'];
+    await ctx.orm
+      .update(users)
+      .set({ role: 'admin' })
+      .where(eq(users.id, viewerId));
+    expect((await ctx.db.get(viewerId)).role).toBe('admin');
+  });
+
+  it('is bypassed by skipRules', async ({ ctx }) => {
+    const { viewerId, otherId } = await seedUsers(ctx);
+    ctx.viewerId = viewerId;
+
+    const other = await ctx.orm.skipRules.query.cp_users.findFirst({
+      where: { id: otherId },
+    });
+    expect(other.email).toBe('other@example.com');
+
+    await ctx.orm.skipRules
+      .update(users)
+      .set({ role: 'owner' })
+      .where(eq(users.id, otherId));
+    expect((await ctx.db.get(otherId)).role).toBe('owner');
+  });
+
+  it('rejects columns from other tables', () => {
+    expect(() =>
+      convexTable('cp_bad', { value: text() }, () => [
+        columnPolicy('bad', { columns: [users.email] }),
+      ])
+    ).toThrow(
+      "Column policy 'bad' references column from 'cp_users', but belongs to 'cp_bad'."
+    );
+  });
+});
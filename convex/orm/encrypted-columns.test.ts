@@ -0,0 +1,319 @@
+import type { SchedulableFunctionReference } from 'convex/server';
+import {
+  convexTable,
+  defineRelations,
+  defineSchema,
+  eq,
+  extractRelationsConfig,
+  index,
+  scheduledMutationBatchFactory,
+  searchIndex,
+  text,
+  uniqueIndex,
+} from 'kitcn/orm';
+import { describe, expect, it, vi } from 'vitest';
+import { convexTest, withOrm, withOrmCtx } from '../setup.testing';
+
+const KEY_1 = `k1:${btoa('0123456789abcdef0123456789abcdef')}`;
+const KEY_2 = `k2:${btoa('fedcba9876543210fedcba9876543210')}`;
+
+const patients = convexTable(
+  'enc_patients',
+  {
+    name: text().notNull(),
+    email: text().notNull().encrypted({ mode: 'deterministic' }),
+    ssn: text().encrypted(),
+  },
+  (t) => [index('by_email').on(t.email)]
+);
+
+const accounts = convexTable(
+  'enc_accounts',
+  {
+    email: text().notNull().encrypted({ mode: 'deterministic' }),
+  },
+  (t) => [uniqueIndex('by_email').on(t.email)]
+);
+
+const tables = { enc_patients: patients, enc_accounts: accounts };
+const schema = defineSchema(tables, { defaults: { defaultLimit: 100 } });
+const relations = defineRelations(tables);
+
+const encryption = { keys: KEY_1 };
+
+describe('encrypted()', () => {
+  it('stores ciphertext and returns plaintext', async () =>
+    withOrmCtx(
+      schema,
+      relations,
+      async (ctx) => {
+        const [patient] = await ctx.orm
+          .insert(patients)
+          .values({ name: 'Ada', email: 'ada@example.com', ssn: '123-45-6789' })
+          .returning();
+        expect(patient).toMatchObject({
+          email: 'ada@example.com',
+          ssn: '123-45-6789',
+        });
+
+        const stored = await ctx.db.get(patient.id as any);
+        expect(stored.name).toBe('Ada');
+        expect(stored.email).toMatch(/^enc:k1:/);
+        expect(stored.ssn).toMatch(/^enc:k1:/);
+
+        const [updated] = await ctx.orm
+          .update(patients)
+          .set({ ssn: '987-65-4321' })
+          .where(eq(patients.id, patient.id))
+          .returning();
+        expect(updated.ssn).toBe('987-65-4321');
+
+        const found = await ctx.orm.query.enc_patients.findFirst({
+          where: { id: patient.id },
+        });
+        expect(found).toMatchObject({
+          email: 'ada@example.com',
+          ssn: '987-65-4321',
+        });
+      },
+      { encryption }
+    ));
+
+  it('filters deterministic columns by equality', async () =>
+    withOrmCtx(
+      schema,
+      relations,
+      async (ctx) => {
+        await ctx.orm.insert(patients).values([
+          { name: 'Ada', email: 'ada@example.com' },
+          { name: 'Grace', email: 'grace@example.com' },
+          { name: 'Alan', email: 'alan@example.com' },
+        ]);
+
+        const ada = await ctx.orm.query.enc_patients.findFirst({
+          where: { email: 'ada@example.com' },
+        });
+        expect(ada?.name).toBe('Ada');
+
+        const rows = await ctx.orm.query.enc_patients.findMany({
+          where: { email: { in: ['grace@example.com', 'alan@example.com'] } },
+        });
+        expect(rows.map((row) => row.name).sort()).toEqual(['Alan', 'Grace']);
+
+        await expect(
+          ctx.orm.query.enc_patients.findMany({
+            where: { ssn: '123-45-6789' } as any,
+          })
+        ).rejects.toThrow(
+          "Cannot filter on encrypted column 'ssn' of 'enc_patients'. Use encrypted({ mode: 'deterministic' }) to allow equality filters."
+        );
+        await expect(
+          ctx.orm.query.enc_patients.findMany({
+            where: { email: { like: 'ada%' } } as any,
+          })
+        ).rejects.toThrow(
+          "Encrypted column 'email' of 'enc_patients' only supports eq, ne, in, notIn, isNull, and isNotNull filters."
+        );
+      },
+      { encryption }
+    ));
+
+  it('seals deterministic values in filter expressions', async () => {
+    const t = convexTest(schema);
+    await t.run(async (baseCtx) => {
+      const before = withOrm(baseCtx, relations, { encryption });
+      await before.orm.insert(patients).values([
+        { name: 'Ada', email: 'ada@example.com' },
+        { name: 'Grace', email: 'grace@example.com' },
+      ]);
+
+      const ctx = withOrm(baseCtx, relations, {
+        encryption: { keys: `${KEY_2},${KEY_1}` },
+      });
+      await ctx.orm
+        .insert(patients)
+        .values({ name: 'Alan', email: 'alan@example.com' });
+
+      const rows = await ctx.orm.query.enc_patients.findMany({
+        where: (t, { inArray }) =>
+          inArray(t.email, ['ada@example.com', 'alan@example.com']),
+      });
+      expect(rows.map((row) => row.name).sort()).toEqual(['Ada', 'Alan']);
+
+      const [updated] = await ctx.orm
+        .update(patients)
+        .set({ name: 'Ada L.' })
+        .where(eq(patients.email, 'ada@example.com'))
+        .returning();
+      expect(updated).toMatchObject({
+        name: 'Ada L.',
+        email: 'ada@example.com',
+      });
+
+      await ctx.orm
+        .delete(patients)
+        .where(eq(patients.email, 'grace@example.com'));
+      const remaining = await ctx.orm.query.enc_patients.findMany();
+      expect(remaining.map((row) => row.name).sort()).toEqual([
+        'Ada L.',
+        'Alan',
+      ]);
+
+      await expect(
+        ctx.orm
+          .update(patients)
+          .set({ name: 'x' })
+          .where(eq(patients.ssn as any, '123-45-6789'))
+      ).rejects.toThrow(
+        "Cannot filter on encrypted column 'ssn' of 'enc_patients'. Use encrypted({ mode: 'deterministic' }) to allow equality filters."
+      );
+    });
+  });
+
+  it('reads rows sealed with a retired key', async () => {
+    const t = convexTest(schema);
+    await t.run(async (baseCtx) => {
+      const before = withOrm(baseCtx, relations, { encryption });
+      const [patient] = await before.orm
+        .insert(patients)
+        .values({ name: 'Ada', email: 'ada@example.com', ssn: 'x' })
+        .returning();
+
+      const rotated = withOrm(baseCtx, relations, {
+        encryption: { keys: `${KEY_2},${KEY_1}` },
+      });
+      const found = await rotated.orm.query.enc_patients.findFirst({
+        where: { id: patient.id },
+      });
+      expect(found?.ssn).toBe('x');
+
+      await rotated.orm
+        .update(patients)
+        .set({ ssn: 'y' })
+        .where(eq(patients.id, patient.id));
+      expect((await baseCtx.db.get(patient.id as any))?.ssn).toMatch(
+        /^enc:k2:/
+      );
+
+      const retired = withOrm(baseCtx, relations, {
+        encryption: { keys: KEY_2 },
+      });
+      await expect(
+        retired.orm.query.enc_patients.findFirst({ where: { id: patient.id } })
+      ).rejects.toThrow(
+        "Unknown encryption key 'k1'. Keep retired keys in encryption.keys until rows are re-encrypted."
+      );
+    });
+  });
+
+  it('matches deterministic values sealed with an older key', async () => {
+    const t = convexTest(schema);
+    await t.run(async (baseCtx) => {
+      const before = withOrm(baseCtx, relations, { encryption });
+      await before.orm
+        .insert(patients)
+        .values({ name: 'Ada', email: 'ada@example.com' });
+      await before.orm.insert(accounts).values({ email: 'ada@example.com' });
+
+      const rotated = withOrm(baseCtx, relations, {
+        encryption: { keys: `${KEY_2},${KEY_1}` },
+      });
+      await rotated.orm
+        .insert(patients)
+        .values({ name: 'Ada (new)', email: 'ada@example.com' });
+
+      const rows = await rotated.orm.query.enc_patients.findMany({
+        where: { email: 'ada@example.com' },
+      });
+      expect(rows.map((row) => row.name).sort()).toEqual(['Ada', 'Ada (new)']);
+      const others = await rotated.orm.query.enc_patients.findMany({
+        where: { email: { ne: 'ada@example.com' } },
+      });
+      expect(others).toEqual([]);
+
+      await expect(
+        rotated.orm.insert(accounts).values({ email: 'ada@example.com' })
+      ).rejects.toThrow("Unique index 'by_email' violation on 'enc_accounts'.");
+      const skipped = await rotated.orm
+        .insert(accounts)
+        .values({ email: 'ada@example.com' })
+        .onConflictDoNothing({ target: accounts.email })
+        .returning();
+      expect(skipped).toEqual([]);
+    });
+  });
+
+  it('seals async update batches and their scheduled arguments', async () => {
+    const scheduledMutationBatch = {} as SchedulableFunctionReference;
+    const scheduler = { runAfter: vi.fn(async () => 'job-id') };
+    const worker = scheduledMutationBatchFactory(
+      relations,
+      extractRelationsConfig(relations),
+      scheduledMutationBatch,
+      { encryption }
+    );
+
+    await withOrmCtx(
+      schema,
+      relations,
+      async (ctx) => {
+        await ctx.orm.insert(patients).values([
+          { name: 'Ada', email: 'ada@example.com' },
+          { name: 'Ada', email: 'ada2@example.com' },
+          { name: 'Ada', email: 'ada3@example.com' },
+        ]);
+
+        await ctx.orm
+          .update(patients)
+          .set({ ssn: '123-45-6789' })
+          .where(eq(patients.name, 'Ada'))
+          .allowFullScan()
+          .executeAsync({ batchSize: 2 });
+
+        const scheduledArgs = (scheduler.runAfter as any).mock.calls[0]?.[2];
+        expect(scheduledArgs.update.ssn).toMatch(/^enc:k1:/);
+
+        await worker(
+          { db: ctx.db, scheduler: scheduler as any },
+          scheduledArgs
+        );
+
+        const rows = await ctx.orm.query.enc_patients.findMany();
+        expect(rows.map((row) => row.ssn)).toEqual([
+          '123-45-6789',
+          '123-45-6789',
+          '123-45-6789',
+        ]);
+      },
+      { encryption, scheduler: scheduler as any, scheduledMutationBatch }
+    );
+  });
+
+  it('requires encryption keys', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      await expect(
+        ctx.orm.insert(patients).values({ name: 'Ada', email: 'a@b.co' })
+      ).rejects.toThrow(
+        "Table 'enc_patients' has encrypted() columns. Pass { encryption: { keys } } to createOrm()."
+      );
+    }));
+
+  it('rejects randomized columns in indexes', () => {
+    expect(() =>
+      convexTable('enc_bad', { ssn: text().encrypted() }, (t) => [
+        index('by_ssn').on(t.ssn),
+      ])
+    ).toThrow(
+      "Index 'by_ssn' cannot use randomized encrypted column 'ssn'. Use encrypted({ mode: 'deterministic' }) to index it."
+    );
+    expect(() =>
+      convexTable(
+        'enc_bad_search',
+        { email: text().encrypted({ mode: 'deterministic' }) },
+        (t) => [searchIndex('search_email').on(t.email)]
+      )
+    ).toThrow(
+      "Search index 'search_email' cannot use encrypted column 'email'."
+    );
+  });
+});
@@ -0,0 +1,193 @@
+import {
+  convexTable,
+  defineRelations,
+  defineSchema,
+  formatQueryPlan,
+  id,
+  index,
+  integer,
+  text,
+} from 'kitcn/orm';
+import { describe, expect, it } from 'vitest';
+import { withOrmCtx } from '../setup.testing';
+
+const authors = convexTable('explain_authors', {
+  name: text().notNull(),
+});
+
+const posts = convexTable(
+  'explain_posts',
+  {
+    title: text().notNull(),
+    status: text().notNull(),
+    views: integer().notNull(),
+    authorId: id('explain_authors').notNull(),
+  },
+  (t) => [
+    index('by_status_views').on(t.status, t.views),
+    index('by_author').on(t.authorId),
+  ]
+);
+
+const tables = { explain_authors: authors, explain_posts: posts };
+const schema = defineSchema(tables, { defaults: { defaultLimit: 100 } });
+const relations = defineRelations(tables, (r) => ({
+  explain_authors: {
+    posts: r.many.explain_posts({
+      from: r.explain_authors.id,
+      to: r.explain_posts.authorId,
+    }),
+  },
+  explain_posts: {
+    author: r.one.explain_authors({
+      from: r.explain_posts.authorId,
+      to: r.explain_authors.id,
+    }),
+  },
+}));
+
+const seed = async (ctx: any) => {
+  const [ada, grace] = await ctx.orm
+    .insert(authors)
+    .values([{ name: 'Ada' }, { name: 'Grace' }])
+    .returning();
+  await ctx.orm.insert(posts).values([
+    { title: 'a1', status: 'published', views: 10, authorId: ada.id },
+    { title: 'a2', status: 'published', views: 50, authorId: ada.id },
+    { title: 'a3', status: 'draft', views: 5, authorId: ada.id },
+    { title: 'g1', status: 'published', views: 70, authorId: grace.id },
+    { title: 'g2', status: 'draft', views: 0, authorId: grace.id },
+  ]);
+  return { ada, grace };
+};
+
+describe('explain()', () => {
+  it('reports the chosen index range and post-filters', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      const plan = await ctx.orm.query.explain_posts
+        .findMany({
+          where: { status: 'published', views: { gte: 20 }, title: 'g1' },
+          orderBy: { views: 'desc' },
+        })
+        .explain();
+
+      expect(plan).toMatchObject({
+        table: 'explain_posts',
+        strategy: 'index',
+        index: 'by_status_views',
+        range: [
+          { field: 'status', op: 'eq', value: 'published' },
+          { field: 'views', op: 'gte', value: 20 },
+        ],
+        postFilters: ['eq(title, "g1")'],
+        order: [{ field: 'views', direction: 'desc', source: 'index' }],
+        fullScan: false,
+        limit: 100,
+      });
+      expect(plan.rows).toBeUndefined();
+    }));
+
+  it('flags full scans, in-memory sorts, and multi-probe unions', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      const scan = await ctx.orm.query.explain_posts.explain({
+        where: { title: 'a1' },
+        orderBy: { title: 'asc' },
+        allowFullScan: true,
+      });
+      expect(scan).toMatchObject({
+        strategy: 'fullScan',
+        index: null,
+        fullScan: true,
+        postFilters: ['eq(title, "a1")'],
+        order: [{ field: 'title', direction: 'asc', source: 'sort' }],
+      });
+
+      const probes = await ctx.orm.query.explain_posts.explain({
+        where: { status: { in: ['draft', 'published'] } },
+      });
+      expect(probes.strategy).toBe('multiProbe');
+      expect(probes.index).toBe('by_status_views');
+      expect(probes.probes).toEqual([
+        [{ field: 'status', op: 'eq', value: 'draft' }],
+        [{ field: 'status', op: 'eq', value: 'published' }],
+      ]);
+    }));
+
+  it('analyze counts scanned vs returned rows and relation fan-out', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      await seed(ctx);
+
+      const plan = await ctx.orm.query.explain_posts
+        .findMany({
+          where: { status: 'published', title: { startsWith: 'g' } },
+          with: { author: { with: { posts: true } } },
+        })
+        .explain({ analyze: true });
+
+      expect(plan.rows).toEqual({ scanned: 3, returned: 1 });
+      expect(plan.relations).toEqual([
+        {
+          name: 'author',
+          table: 'explain_authors',
+          cardinality: 'one',
+          lookup: 'get',
+          index: null,
+          fanOut: { parents: 1, rows: 1 },
+          relations: [
+            {
+              name: 'posts',
+              table: 'explain_posts',
+              cardinality: 'many',
+              lookup: 'index',
+              index: 'by_author',
+              fanOut: { parents: 1, rows: 2 },
+              relations: [],
+            },
+          ],
+        },
+      ]);
+
+      const scan = await ctx.orm.query.explain_posts.explain(
+        { where: { title: 'a3' }, limit: 1, allowFullScan: true },
+        { analyze: true }
+      );
+      expect(scan.rows).toEqual({ scanned: 3, returned: 1 });
+
+      const byId = await ctx.orm.query.explain_posts
+        .findFirst({ where: { id: 'missing' } } as any)
+        .explain({ analyze: true });
+      expect(byId.strategy).toBe('idLookup');
+      expect(byId.rows).toEqual({ scanned: 0, returned: 0 });
+    }));
+
+  it('formats plans for logs', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      await seed(ctx);
+      const plan = await ctx.orm.query.explain_posts.explain(
+        {
+          where: { status: 'draft' },
+          with: { author: true },
+        },
+        { analyze: true }
+      );
+
+      expect(formatQueryPlan(plan)).toBe(
+        [
+          'findMany explain_posts: index',
+          '  index: by_status_views [status eq "draft"]',
+          '  limit: 100',
+          '  rows: 2 scanned -> 2 returned',
+          '  with author -> explain_authors (one, get): 2 parents -> 2 rows',
+        ].join('\n')
+      );
+    }));
+
+  it('rejects count() plans', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      await expect(
+        (ctx.orm.query.explain_posts.count() as any).explain()
+      ).rejects.toThrow(
+        'explain() supports findMany(), findFirst(), and findFirstOrThrow().'
+      );
+    }));
+});
@@ -0,0 +1,127 @@
+import {
+  convexTable,
+  defineRelations,
+  defineSchema,
+  eq,
+  index,
+  integer,
+  searchIndex,
+  text,
+  uniqueIndex,
+} from 'kitcn/orm';
+import { describe, expect, it } from 'vitest';
+import { withOrmCtx } from '../setup.testing';
+
+const people = convexTable(
+  'gen_people',
+  {
+    email: text().notNull(),
+    first: text().notNull(),
+    last: text().notNull(),
+    fullName: text()
+      .notNull()
+      .generatedAlwaysAs((row) => `${row.first} ${row.last}`),
+    initials: text().generatedAlwaysAs(
+      (row) => `${row.fullName[0]}${row.last[0]}`
+    ),
+    visits: integer().notNull().default(0),
+  },
+  (t) => [
+    uniqueIndex('by_email').on(t.email),
+    index('by_full_name').on(t.fullName),
+    searchIndex('search_full_name').on(t.fullName),
+  ]
+);
+
+const tables = { gen_people: people };
+const schema = defineSchema(tables);
+const relations = defineRelations(tables);
+
+describe('generatedAlwaysAs()', () => {
+  it('computes generated columns on insert', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      const [person] = await ctx.orm
+        .insert(people)
+        .values({ email: 'ada@example.com', first: 'Ada', last: 'Lovelace' })
+        .returning();
+
+      expect(person).toMatchObject({
+        fullName: 'Ada Lovelace',
+        initials: 'AL',
+      });
+    }));
+
+  it('recomputes generated columns on update and upsert', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      const [person] = await ctx.orm
+        .insert(people)
+        .values({ email: 'ada@example.com', first: 'Ada', last: 'Lovelace' })
+        .returning();
+
+      const [renamed] = await ctx.orm
+        .update(people)
+        .set({ last: 'Byron' })
+        .where(eq(people.id, person.id))
+        .returning();
+      expect(renamed).toMatchObject({ fullName: 'Ada Byron', initials: 'AB' });
+
+      const [upserted] = await ctx.orm
+        .insert(people)
+        .values({ email: 'ada@example.com', first: 'Ada', last: 'King' })
+        .onConflictDoUpdate({
+          target: people.email,
+          set: { first: 'Augusta' },
+        })
+        .returning();
+      expect(upserted).toMatchObject({
+        fullName: 'Augusta Byron',
+        initials: 'AB',
+      });
+    }));
+
+  it('rejects explicit writes to generated columns', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      await expect(
+        ctx.orm.insert(people).values({
+          email: 'ada@example.com',
+          first: 'Ada',
+          last: 'Lovelace',
+          fullName: 'Someone Else',
+        } as any)
+      ).rejects.toThrow(
+        "Cannot set generated column 'fullName' on 'gen_people'. It is computed by generatedAlwaysAs()."
+      );
+
+      const [person] = await ctx.orm
+        .insert(people)
+        .values({ email: 'ada@example.com', first: 'Ada', last: 'Lovelace' })
+        .returning();
+      await expect(
+        ctx.orm
+          .update(people)
+          .set({ initials: 'XX' } as any)
+          .where(eq(people.id, person.id))
+      ).rejects.toThrow(
+        "Cannot set generated column 'initials' on 'gen_people'. It is computed by generatedAlwaysAs()."
+      );
+    }));
+
+  it('serves index and search lookups on generated columns', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      await ctx.orm.insert(people).values([
+        { email: 'ada@example.com', first: 'Ada', last: 'Lovelace' },
+        { email: 'alan@example.com', first: 'Alan', last: 'Turing' },
+      ]);
+
+      const byIndex = await ctx.orm.query.gen_people.findFirst({
+        where: { fullName: 'Alan Turing' },
+      });
+      expect(byIndex?.email).toBe('alan@example.com');
+
+      const bySearch = await ctx.orm.query.gen_people.findMany({
+        search: { index: 'search_full_name', query: 'Lovelace' },
+        limit: 10,
+      });
+      expect(bySearch.map((row) => row.email)).toEqual(['ada@example.com']);
+    }));
+});
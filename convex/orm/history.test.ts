@@ -0,0 +1,229 @@
+import {
+  convexTable,
+  createOrm,
+  defineRelations,
+  defineSchema,
+  eq,
+  history,
+  historyPruneFactory,
+  text,
+} from 'kitcn/orm';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { convexTest, withOrmCtx } from '../setup.testing';
+
+const posts = convexTable(
+  'hist_posts',
+  {
+    title: text().notNull(),
+  },
+  () => [history({ retain: '1d' })]
+);
+const notes = convexTable(
+  'hist_notes',
+  {
+    body: text().notNull(),
+  },
+  () => [history({ actor: (ctx) => ctx.viewer?.id })]
+);
+const drafts = convexTable('hist_drafts', {
+  title: text().notNull(),
+});
+
+const tables = { hist_posts: posts, hist_notes: notes, hist_drafts: drafts };
+const schema = defineSchema(tables);
+const relations = defineRelations(tables);
+
+const withOrmAt = (t: ReturnType<typeof convexTest>, time: number) => {
+  vi.setSystemTime(time);
+  return <T>(fn: (ctx: any) => Promise<T>) =>
+    t.run(async (baseCtx) => {
+      const orm = createOrm({ schema: relations });
+      return fn(orm.with({ ...baseCtx, userId: 'user_1' } as any));
+    });
+};
+
+describe('history()', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('injects a companion history table', () => {
+    expect(Object.keys((schema as any).tables)).toContain('hist_posts_history');
+    expect(Object.keys((schema as any).tables)).toContain('hist_notes_history');
+    expect(Object.keys((schema as any).tables)).not.toContain(
+      'hist_drafts_history'
+    );
+  });
+
+  it('records insert, update and delete with old and new values', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      const [post] = await ctx.orm
+        .insert(posts)
+        .values({ title: 'Draft' })
+        .returning();
+      await ctx.orm
+        .update(posts)
+        .set({ title: 'Published' })
+        .where(eq(posts.id, post.id));
+      await ctx.orm.delete(posts).where(eq(posts.id, post.id));
+
+      const entries = await ctx.orm.query.hist_posts.history(post.id);
+      expect(
+        entries.map(({ operation, oldDoc, newDoc }) => ({
+          operation,
+          oldTitle: oldDoc?.title ?? null,
+          newTitle: newDoc?.title ?? null,
+        }))
+      ).toEqual([
+        { operation: 'insert', oldTitle: null, newTitle: 'Draft' },
+        { operation: 'update', oldTitle: 'Draft', newTitle: 'Published' },
+        { operation: 'delete', oldTitle: 'Published', newTitle: null },
+      ]);
+      expect(entries[0]).toMatchObject({
+        recordId: post.id,
+        newDoc: { id: post.id, title: 'Draft' },
+      });
+
+      const limited = await ctx.orm.query.hist_posts.history(post.id, {
+        limit: 1,
+      });
+      expect(limited).toHaveLength(1);
+    }));
+
+  it('reads a row as of a point in time', async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema);
+
+    const id = await withOrmAt(
+      t,
+      1000
+    )(async (ctx) => {
+      const [post] = await ctx.orm
+        .insert(posts)
+        .values({ title: 'v1' })
+        .returning();
+      return post.id as string;
+    });
+    await withOrmAt(
+      t,
+      2000
+    )(async (ctx) => {
+      await ctx.orm.update(posts).set({ title: 'v2' }).where(eq(posts.id, id));
+    });
+    await withOrmAt(
+      t,
+      3000
+    )(async (ctx) => {
+      await ctx.orm.delete(posts).where(eq(posts.id, id));
+    });
+
+    await withOrmAt(
+      t,
+      4000
+    )(async (ctx) => {
+      const asOf = (time: number | Date) =>
+        ctx.orm.query.hist_posts.asOf(id, time);
+      expect(await asOf(500)).toBeNull();
+      expect(await asOf(1000)).toMatchObject({ title: 'v1' });
+      expect(await asOf(new Date(2500))).toMatchObject({ title: 'v2' });
+      expect(await asOf(3000)).toBeNull();
+
+      const entries = await ctx.orm.query.hist_posts.history(id);
+      expect(entries.map((entry: any) => entry.changedAt)).toEqual([
+        1000, 2000, 3000,
+      ]);
+      expect(entries.every((entry: any) => entry.actor === 'user_1')).toBe(
+        true
+      );
+    });
+  });
+
+  it('resolves the actor from the RLS request context', async () =>
+    withOrmCtx(
+      schema,
+      relations,
+      async (ctx) => {
+        const [note] = await ctx.orm
+          .insert(notes)
+          .values({ body: 'Hello' })
+          .returning();
+        const [entry] = await ctx.orm.query.hist_notes.history(note.id);
+        expect(entry.actor).toBe('viewer_1');
+      },
+      { rls: { ctx: { viewer: { id: 'viewer_1' } } } }
+    ));
+
+  it('skips history when triggers are bypassed', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      const [post] = await ctx.orm
+        .insert(posts)
+        .values({ title: 'Draft' })
+        .returning();
+      await ctx.orm.withoutTriggers(async (db: typeof ctx.orm) => {
+        await db
+          .update(posts)
+          .set({ title: 'Silent' })
+          .where(eq(posts.id, post.id));
+      });
+
+      const entries = await ctx.orm.query.hist_posts.history(post.id);
+      expect(entries.map((entry) => entry.operation)).toEqual(['insert']);
+    }));
+
+  it('throws for tables without history()', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      await expect(
+        ctx.orm.query.hist_drafts.history('missing')
+      ).rejects.toThrow(
+        "Table 'hist_drafts' does not record history. Add history() to its convexTable extra config."
+      );
+    }));
+
+  it('prunes entries older than the retention window', async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema);
+    const day = 86_400_000;
+
+    const id = await withOrmAt(
+      t,
+      day
+    )(async (ctx) => {
+      const [post] = await ctx.orm
+        .insert(posts)
+        .values({ title: 'Old' })
+        .returning();
+      await ctx.orm.insert(notes).values({ body: 'Kept forever' });
+      return post.id as string;
+    });
+    await withOrmAt(
+      t,
+      2 * day + 10
+    )(async (ctx) => {
+      await ctx.orm.update(posts).set({ title: 'New' }).where(eq(posts.id, id));
+    });
+
+    vi.setSystemTime(3 * day);
+    const scheduler = { runAfter: vi.fn(async () => undefined) };
+    const prune = historyPruneFactory(relations, {} as any);
+    await t.run(async (ctx) => {
+      const result = await prune(
+        { db: ctx.db, scheduler: scheduler as any },
+        { batchSize: 10 }
+      );
+      expect(result).toEqual({ deleted: 1, hasMore: false });
+      expect(scheduler.runAfter).not.toHaveBeenCalled();
+
+      const remaining = await ctx.db.query('hist_posts_history').collect();
+      expect(remaining.map((row) => row.operation)).toEqual(['update']);
+      expect(await ctx.db.query('hist_notes_history').collect()).toHaveLength(
+        1
+      );
+    });
+  });
+
+  it('rejects duplicate history() configs', () => {
+    expect(() =>
+      convexTable('hist_dupes', { title: text() }, () => [history(), history()])
+    ).toThrow("Only one history(...) config can be defined for 'hist_dupes'.");
+  });
+});
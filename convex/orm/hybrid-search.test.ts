@@ -0,0 +1,146 @@
+import {
+  createOrm,
+  requireSchemaRelations,
+  type VectorSearchProvider,
+} from 'kitcn/orm';
+import { expect, test } from 'vitest';
+import schema from '../schema';
+import { convexTest } from '../setup.testing';
+
+const relations = requireSchemaRelations(schema);
+const orm = createOrm({ schema: relations });
+
+const seedPosts = async (t: ReturnType<typeof convexTest>) =>
+  t.run(async (baseCtx) => {
+    const authorId = await baseCtx.db.insert('users', {
+      name: 'Hybrid Author',
+      email: 'hybrid-author@example.com',
+    });
+    const insertPost = (text: string, type: string) =>
+      baseCtx.db.insert('posts', {
+        text,
+        type,
+        authorId,
+        numLikes: 0,
+        embedding: [0.1, 0.2, 0.3],
+      });
+
+    return {
+      authorId,
+      textOnly: await insertPost('galaxy keyword match', 'news'),
+      both: await insertPost('galaxy semantic match', 'news'),
+      vectorOnly: await insertPost('nebula semantic neighbor', 'blog'),
+    };
+  });
+
+test('hybrid search fuses text and vector rankings', async () => {
+  const t = convexTest(schema);
+  const ids = await seedPosts(t);
+
+  await t.run(async (baseCtx) => {
+    const vectorSearch: VectorSearchProvider = async () => [
+      { _id: ids.vectorOnly, _score: 0.95 },
+      { _id: ids.both, _score: 0.9 },
+    ];
+    const db = orm.db(baseCtx.db, { vectorSearch });
+
+    const rows = await db.query.posts.findMany({
+      hybridSearch: {
+        search: { index: 'text_search', query: 'galaxy' },
+        vector: {
+          index: 'embedding_vec',
+          vector: [0.1, 0.2, 0.3],
+          limit: 10,
+        },
+        limit: 10,
+      },
+      columns: { text: true },
+      with: { author: true },
+    });
+
+    expect(rows[0]).toMatchObject({
+      text: 'galaxy semantic match',
+      _ranks: { search: expect.any(Number), vector: 2 },
+      author: { id: ids.authorId },
+    });
+    expect(rows.map((row) => row.text).sort()).toEqual([
+      'galaxy keyword match',
+      'galaxy semantic match',
+      'nebula semantic neighbor',
+    ]);
+    expect(rows.find((row) => row.text.startsWith('nebula'))?._ranks).toEqual({
+      search: null,
+      vector: 1,
+    });
+    expect(rows[0]!._score).toBeGreaterThan(rows[1]!._score);
+  });
+});
+
+test('hybrid search applies weights and truncates to limit', async () => {
+  const t = convexTest(schema);
+  const ids = await seedPosts(t);
+
+  await t.run(async (baseCtx) => {
+    const calls: unknown[] = [];
+    const vectorSearch: VectorSearchProvider = async (table, index, query) => {
+      calls.push({ table, index, limit: query.limit });
+      return [{ _id: ids.vectorOnly, _score: 0.95 }];
+    };
+    const db = orm.db(baseCtx.db, { vectorSearch });
+
+    const rows = await db.query.posts.findMany({
+      hybridSearch: {
+        search: {
+          index: 'text_search',
+          query: 'galaxy',
+          filters: { type: 'news' },
+        },
+        vector: {
+          index: 'embedding_vec',
+          vector: [0.1, 0.2, 0.3],
+          limit: 5,
+        },
+        fusion: { weights: { vector: 10 } },
+        limit: 1,
+      },
+    });
+
+    expect(rows.map((row) => row.id)).toEqual([ids.vectorOnly]);
+    expect(calls).toEqual([
+      { table: 'posts', index: 'embedding_vec', limit: 5 },
+    ]);
+  });
+});
+
+test('hybrid search rejects conflicting options and missing provider', async () => {
+  const t = convexTest(schema);
+
+  await t.run(async (baseCtx) => {
+    const hybridSearch = {
+      search: { index: 'text_search' as const, query: 'galaxy' },
+      vector: { index: 'embedding_vec' as const, vector: [0.1], limit: 5 },
+      limit: 5,
+    };
+
+    await expect(
+      orm.db(baseCtx.db).query.posts.findMany({ hybridSearch })
+    ).rejects.toThrow(
+      'hybridSearch is not configured. Pass { vectorSearch: ctx.vectorSearch } to orm.db(ctx, ...).'
+    );
+
+    const db = orm.db(baseCtx.db, { vectorSearch: async () => [] });
+    await expect(
+      db.query.posts.findMany({
+        hybridSearch,
+        orderBy: { numLikes: 'desc' },
+      } as any)
+    ).rejects.toThrow('hybridSearch cannot be combined with orderBy.');
+    await expect(
+      db.query.posts.findMany({
+        hybridSearch: { ...hybridSearch, limit: 0 },
+      })
+    ).rejects.toThrow(
+      'hybridSearch.limit must be an integer between 1 and 256.'
+    );
+  });
+});
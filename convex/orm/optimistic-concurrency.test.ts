@@ -0,0 +1,164 @@
+import {
+  and,
+  convexTable,
+  createOrm,
+  defineRelations,
+  defineSchema,
+  eq,
+  index,
+  integer,
+  OrmConcurrentModificationError,
+  text,
+} from 'kitcn/orm';
+import { describe, expect, it, vi } from 'vitest';
+import { convexTest, withOrmCtx } from '../setup.testing';
+
+const documents = convexTable(
+  'occ_documents',
+  {
+    title: text().notNull(),
+    version: integer().$version(),
+  },
+  (t) => [index('by_title').on(t.title)]
+);
+
+const tables = { occ_documents: documents };
+const schema = defineSchema(tables);
+const relations = defineRelations(tables);
+
+describe('version columns', () => {
+  it('starts at 0 and increments on every update', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      const [doc] = await ctx.orm
+        .insert(documents)
+        .values({ title: 'Draft' })
+        .returning();
+      expect(doc.version).toBe(0);
+
+      await ctx.orm
+        .update(documents)
+        .set({ title: 'First' })
+        .where(eq(documents.id, doc.id));
+      const [updated] = await ctx.orm
+        .update(documents)
+        .set({ title: 'Second' })
+        .where(eq(documents.id, doc.id))
+        .returning();
+      expect(updated).toMatchObject({ title: 'Second', version: 2 });
+    }));
+
+  it('checks the expected version from where()', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      const [doc] = await ctx.orm
+        .insert(documents)
+        .values({ title: 'Draft' })
+        .returning();
+
+      const [saved] = await ctx.orm
+        .update(documents)
+        .set({ title: 'Client A' })
+        .where(and(eq(documents.id, doc.id), eq(documents.version, 0))!)
+        .returning();
+      expect(saved.version).toBe(1);
+
+      const stale = ctx.orm
+        .update(documents)
+        .set({ title: 'Client B' })
+        .where(and(eq(documents.id, doc.id), eq(documents.version, 0))!);
+      await expect(stale).rejects.toBeInstanceOf(
+        OrmConcurrentModificationError
+      );
+      await expect(stale).rejects.toMatchObject({
+        table: 'occ_documents',
+        expectedVersion: 0,
+        actualVersion: 1,
+      });
+
+      const row = await ctx.db.get(doc.id as any);
+      expect(row).toMatchObject({ title: 'Client A', version: 1 });
+    }));
+
+  it('checks the expected version outside id lookups', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      const [doc] = await ctx.orm
+        .insert(documents)
+        .values({ title: 'Draft' })
+        .returning();
+
+      await ctx.orm
+        .update(documents)
+        .set({ title: 'Bumped' })
+        .where(eq(documents.title, 'Draft'));
+      await expect(
+        ctx.orm
+          .update(documents)
+          .set({ title: 'Stale' })
+          .where(and(eq(documents.title, 'Bumped'), eq(documents.version, 0))!)
+      ).rejects.toMatchObject({
+        table: 'occ_documents',
+        expectedVersion: 0,
+        actualVersion: 1,
+      });
+
+      const row = await ctx.db.get(doc.id as any);
+      expect(row).toMatchObject({ title: 'Bumped', version: 1 });
+    }));
+
+  it('rejects a version check without a row filter', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      await expect(
+        ctx.orm
+          .update(documents)
+          .set({ title: 'Any' })
+          .where(eq(documents.version, 0))
+      ).rejects.toThrow(
+        "Version check on 'occ_documents' needs a row filter next to eq(version, ...)"
+      );
+    }));
+
+  it('checks versions when updates run in async mode', async () => {
+    const t = convexTest(schema);
+    const scheduler = { runAfter: vi.fn(async () => undefined) };
+
+    await t.run(async (baseCtx) => {
+      const orm = createOrm({
+        schema: relations,
+        ormFunctions: {
+          scheduledDelete: {} as any,
+          scheduledMutationBatch: {} as any,
+        },
+        internalMutation: ((definition: unknown) => definition) as never,
+      });
+      const ctx = orm.with({ db: baseCtx.db, scheduler: scheduler as any });
+      const id = await ctx.db.insert('occ_documents', {
+        title: 'Draft',
+        version: 3,
+      });
+
+      await expect(
+        ctx.orm
+          .update(documents)
+          .set({ title: 'Stale' })
+          .where(and(eq(documents.id, id), eq(documents.version, 2))!)
+      ).rejects.toBeInstanceOf(OrmConcurrentModificationError);
+      expect(scheduler.runAfter).not.toHaveBeenCalled();
+    });
+  });
+
+  it('rejects setting the version column directly', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      const [doc] = await ctx.orm
+        .insert(documents)
+        .values({ title: 'Draft' })
+        .returning();
+
+      await expect(
+        ctx.orm
+          .update(documents)
+          .set({ version: 5 })
+          .where(eq(documents.id, doc.id))
+      ).rejects.toThrow(
+        "Cannot set version column 'version' on 'occ_documents'. update() increments it."
+      );
+    }));
+});
@@ -229,6 +229,67 @@ test('select flatMap includeParent=false returns child rows', async () => {
   });
 });
 
+test('select flatMap and relation filters follow through() relations', async () => {
+  const t = convexTest(schema);
+
+  await t.run(async (baseCtx) => {
+    const alice = await baseCtx.db.insert('users', {
+      name: 'Alice',
+      email: 'alice-books@example.com',
+    });
+    const bob = await baseCtx.db.insert('users', {
+      name: 'Bob',
+      email: 'bob-books@example.com',
+    });
+    const carol = await baseCtx.db.insert('users', {
+      name: 'Carol',
+      email: 'carol-books@example.com',
+    });
+    const dune = await baseCtx.db.insert('books', { name: 'Dune' });
+    const emma = await baseCtx.db.insert('books', { name: 'Emma' });
+
+    await baseCtx.db.insert('bookAuthors', {
+      bookId: dune,
+      authorId: alice,
+      role: 'author',
+    });
+    await baseCtx.db.insert('bookAuthors', {
+      bookId: dune,
+      authorId: bob,
+      role: 'editor',
+    });
+    await baseCtx.db.insert('bookAuthors', {
+      bookId: emma,
+      authorId: carol,
+      role: 'author',
+    });
+  });
+
+  await t.run(async (baseCtx) => {
+    const ctx = await runCtx(baseCtx);
+    const result = await ctx.orm.query.books
+      .select()
+      .where({ name: 'Dune' })
+      .flatMap('authors', { includeParent: true })
+      .paginate({ cursor: null, limit: 10 });
+
+    expect(result.page.map((row) => row.parent.name)).toEqual(['Dune', 'Dune']);
+    expect(result.page.map((row) => row.child.name)).toEqual(['Alice', 'Bob']);
+
+    const authors = await ctx.orm.query.books
+      .select()
+      .flatMap('authors', { includeParent: false, limit: 1 })
+      .paginate({ cursor: null, limit: 10 });
+    expect(authors.page.map((row) => row.name)).toEqual(['Alice', 'Carol']);
+
+    const filtered = await ctx.orm.query.books.findMany({
+      where: { authors: { name: 'Carol' } },
+      limit: 10,
+    });
+    expect(filtered.map((book) => book.name)).toEqual(['Emma']);
+  });
+});
+
 test('select paginate supports endCursor boundary pinning', async () => {
   const t = convexTest(schema);
 
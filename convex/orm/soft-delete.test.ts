@@ -0,0 +1,384 @@
+import {
+  aggregateIndex,
+  convexTable,
+  createOrm,
+  defineRelations,
+  defineSchema,
+  deletion,
+  eq,
+  foreignKey,
+  id,
+  index,
+  integer,
+  text,
+} from 'kitcn/orm';
+import { describe, expect, it, vi } from 'vitest';
+import { convexTest, withOrmCtx } from '../setup.testing';
+
+const authors = convexTable(
+  'soft_scope_authors',
+  {
+    name: text().notNull(),
+    deletionTime: integer(),
+  },
+  (t) => [index('by_name').on(t.name), deletion('soft')]
+);
+
+const posts = convexTable(
+  'soft_scope_posts',
+  {
+    title: text().notNull(),
+    authorId: id('soft_scope_authors').notNull(),
+    deletionTime: integer(),
+  },
+  (t) => [
+    index('by_author').on(t.authorId),
+    foreignKey({
+      columns: [t.authorId],
+      foreignColumns: [authors.id],
+    }).onDelete('cascade'),
+    deletion('soft'),
+  ]
+);
+
+const tables = { soft_scope_authors: authors, soft_scope_posts: posts };
+const schema = defineSchema(tables);
+const relations = defineRelations(tables, (r) => ({
+  soft_scope_authors: {
+    posts: r.many.soft_scope_posts({
+      from: r.soft_scope_authors.id,
+      to: r.soft_scope_posts.authorId,
+    }),
+  },
+  soft_scope_posts: {
+    author: r.one.soft_scope_authors({
+      from: r.soft_scope_posts.authorId,
+      to: r.soft_scope_authors.id,
+    }),
+  },
+}));
+
+describe('soft-delete query scoping', () => {
+  it('hides soft-deleted rows unless withDeleted or onlyDeleted is set', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      const adaId = await ctx.db.insert('soft_scope_authors', { name: 'Ada' });
+      await ctx.db.insert('soft_scope_authors', { name: 'Grace' });
+      await ctx.orm.delete(authors).where(eq(authors.id, adaId));
+
+      const live = await ctx.orm.query.soft_scope_authors.findMany({
+        limit: 10,
+      });
+      expect(live.map((row) => row.name)).toEqual(['Grace']);
+
+      const all = await ctx.orm.query.soft_scope_authors.findMany({
+        limit: 10,
+        withDeleted: true,
+      });
+      expect(all.map((row) => row.name).sort()).toEqual(['Ada', 'Grace']);
+
+      const deleted = await ctx.orm.query.soft_scope_authors.findMany({
+        limit: 10,
+        onlyDeleted: true,
+      });
+      expect(deleted.map((row) => row.name)).toEqual(['Ada']);
+
+      expect(
+        await ctx.orm.query.soft_scope_authors.findFirst({
+          where: { id: adaId },
+        })
+      ).toBeNull();
+      expect(
+        await ctx.orm.query.soft_scope_authors.findFirst({
+          where: { name: 'Ada' },
+          withDeleted: true,
+        })
+      ).toMatchObject({ name: 'Ada' });
+    }));
+
+  it('applies the scope before limits and cursor pages', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      const ids: string[] = [];
+      for (const name of ['a', 'b', 'c', 'd']) {
+        ids.push(await ctx.db.insert('soft_scope_authors', { name }));
+      }
+      await ctx.orm
+        .delete(authors)
+        .where(eq(authors.id, ids[3] as any))
+        .execute();
+
+      const limited = await ctx.orm.query.soft_scope_authors.findMany({
+        limit: 2,
+        orderBy: { createdAt: 'desc' },
+      });
+      expect(limited.map((row) => row.name)).toEqual(['c', 'b']);
+
+      const page = await ctx.orm.query.soft_scope_authors.findMany({
+        cursor: null,
+        limit: 2,
+      });
+      expect(page.page.map((row) => row.name)).toEqual(['c', 'b']);
+    }));
+
+  it('scopes relation loading', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      const adaId = await ctx.db.insert('soft_scope_authors', { name: 'Ada' });
+      await ctx.db.insert('soft_scope_posts', {
+        title: 'Live',
+        authorId: adaId,
+      });
+      const draftId = await ctx.db.insert('soft_scope_posts', {
+        title: 'Removed',
+        authorId: adaId,
+      });
+      await ctx.orm.delete(posts).where(eq(posts.id, draftId));
+
+      const author = await ctx.orm.query.soft_scope_authors.findFirst({
+        where: { id: adaId },
+        with: {
+          posts: { limit: 10 },
+        },
+      });
+      expect(author?.posts.map((post) => post.title)).toEqual(['Live']);
+
+      const withDeletedPosts = await ctx.orm.query.soft_scope_authors.findFirst(
+        {
+          where: { id: adaId },
+          with: {
+            posts: { limit: 10, withDeleted: true },
+          },
+        }
+      );
+      expect(withDeletedPosts?.posts).toHaveLength(2);
+
+      await ctx.orm.delete(authors).where(eq(authors.id, adaId)).cascade({
+        mode: 'hard',
+      });
+      await ctx.db.insert('soft_scope_authors', { name: 'Grace' });
+      const orphan = await ctx.db.insert('soft_scope_posts', {
+        title: 'Orphan',
+        authorId: adaId,
+      });
+      const loaded = await ctx.orm.query.soft_scope_posts.findFirst({
+        where: { id: orphan },
+        with: { author: true },
+      });
+      expect(loaded?.author).toBeNull();
+    }));
+
+  it('rejects withDeleted combined with onlyDeleted', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      await expect(
+        ctx.orm.query.soft_scope_authors.findMany({
+          limit: 1,
+          withDeleted: true,
+          onlyDeleted: true,
+        })
+      ).rejects.toThrow('withDeleted cannot be combined with onlyDeleted.');
+    }));
+});
+
+describe('db.restore()', () => {
+  it('restores rows and reverses soft cascades', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      const adaId = await ctx.db.insert('soft_scope_authors', { name: 'Ada' });
+      const keptId = await ctx.db.insert('soft_scope_posts', {
+        title: 'Kept',
+        authorId: adaId,
+      });
+      const removedId = await ctx.db.insert('soft_scope_posts', {
+        title: 'Removed earlier',
+        authorId: adaId,
+      });
+      // Convex freezes Date.now() per mutation, so backdate the earlier delete.
+      await ctx.db.patch('soft_scope_posts', removedId, { deletionTime: 1 });
+      const removedEarlier = await ctx.db.get(removedId);
+
+      await ctx.orm.delete(authors).where(eq(authors.id, adaId));
+      expect((await ctx.db.get(keptId))?.deletionTime).toBe(
+        (await ctx.db.get(adaId))?.deletionTime
+      );
+      expect((await ctx.db.get(removedId))?.deletionTime).toBe(
+        removedEarlier?.deletionTime
+      );
+
+      const restored = await ctx.orm
+        .restore(authors)
+        .where(eq(authors.id, adaId))
+        .returning({ name: authors.name });
+      expect(restored).toEqual([{ name: 'Ada' }]);
+
+      expect((await ctx.db.get(adaId))?.deletionTime).toBeUndefined();
+      expect((await ctx.db.get(keptId))?.deletionTime).toBeUndefined();
+      expect((await ctx.db.get(removedId))?.deletionTime).toBe(
+        removedEarlier?.deletionTime
+      );
+    }));
+
+  it('skips live rows and requires where or allowFullScan', async () =>
+    withOrmCtx(schema, relations, async (ctx) => {
+      await ctx.db.insert('soft_scope_authors', { name: 'Ada' });
+
+      const restored = await ctx.orm
+        .restore(authors)
+        .where(eq(authors.name, 'Ada'))
+        .returning();
+      expect(restored).toEqual([]);
+
+      await expect((ctx.orm.restore(authors) as any).execute()).rejects.toThrow(
+        'restore without where() requires allowFullScan: true.'
+      );
+    }));
+});
+
+describe('soft-delete count scoping', () => {
+  const schedulerStub = {
+    runAfter: vi.fn(async () => undefined),
+  };
+
+  const countAuthors = convexTable(
+    'soft_scope_count_authors',
+    {
+      name: text().notNull(),
+      deletionTime: integer(),
+    },
+    (t) => [aggregateIndex('by_deletion').on(t.deletionTime), deletion('soft')]
+  );
+  const plainCountAuthors = convexTable(
+    'soft_scope_plain_count_authors',
+    {
+      name: text().notNull(),
+      deletionTime: integer(),
+    },
+    (t) => [aggregateIndex('by_name').on(t.name), deletion('soft')]
+  );
+  const countTables = {
+    soft_scope_count_authors: countAuthors,
+    soft_scope_plain_count_authors: plainCountAuthors,
+  };
+  const countSchema = defineSchema(countTables);
+  const countRelations = defineRelations(countTables);
+
+  it('counts live rows by default', async () => {
+    const t = convexTest(countSchema);
+
+    await t.run(async (baseCtx) => {
+      const ormClient = createOrm({
+        schema: countRelations,
+        ormFunctions: {
+          scheduledDelete: {} as any,
+          scheduledMutationBatch: {} as any,
+        },
+        internalMutation: ((definition: unknown) => definition) as never,
+      });
+      const ctx = ormClient.with({
+        db: baseCtx.db,
+        scheduler: schedulerStub as any,
+      });
+      const api = ormClient.api();
+
+      await ctx.db.insert('soft_scope_count_authors', { name: 'Ada' });
+      await ctx.db.insert('soft_scope_count_authors', {
+        name: 'Grace',
+        deletionTime: 1,
+      });
+      await ctx.db.insert('soft_scope_count_authors', { name: 'Linus' });
+
+      await (api as any).aggregateBackfill.handler(
+        { db: baseCtx.db, scheduler: schedulerStub },
+        {}
+      );
+      for (let i = 0; i < 10; i += 1) {
+        const status = await (api as any).aggregateBackfillStatus.handler(
+          { db: baseCtx.db, scheduler: schedulerStub },
+          {}
+        );
+        if (status.every((entry: any) => entry.status === 'READY')) {
+          break;
+        }
+        await (api as any).aggregateBackfillChunk.handler(
+          { db: baseCtx.db, scheduler: schedulerStub },
+          {}
+        );
+      }
+
+      expect(await ctx.orm.query.soft_scope_count_authors.count()).toBe(2);
+      expect(
+        await ctx.orm.query.soft_scope_count_authors.count({
+          withDeleted: true,
+        })
+      ).toBe(3);
+      expect(
+        await ctx.orm.query.soft_scope_count_authors.count({
+          onlyDeleted: true,
+        })
+      ).toBe(1);
+      expect(
+        await ctx.orm.query.soft_scope_count_authors.aggregate({
+          _count: true,
+        })
+      ).toEqual({ _count: 2 });
+    });
+  });
+
+  it('counts every row without a deletionTime aggregateIndex', async () => {
+    const t = convexTest(countSchema);
+
+    await t.run(async (baseCtx) => {
+      const ormClient = createOrm({
+        schema: countRelations,
+        ormFunctions: {
+          scheduledDelete: {} as any,
+          scheduledMutationBatch: {} as any,
+        },
+        internalMutation: ((definition: unknown) => definition) as never,
+      });
+      const ctx = ormClient.with({
+        db: baseCtx.db,
+        scheduler: schedulerStub as any,
+      });
+      const api = ormClient.api();
+
+      await ctx.db.insert('soft_scope_plain_count_authors', { name: 'Ada' });
+      await ctx.db.insert('soft_scope_plain_count_authors', {
+        name: 'Ada',
+        deletionTime: 1,
+      });
+
+      await (api as any).aggregateBackfill.handler(
+        { db: baseCtx.db, scheduler: schedulerStub },
+        {}
+      );
+      for (let i = 0; i < 10; i += 1) {
+        const status = await (api as any).aggregateBackfillStatus.handler(
+          { db: baseCtx.db, scheduler: schedulerStub },
+          {}
+        );
+        if (status.every((entry: any) => entry.status === 'READY')) {
+          break;
+        }
+        await (api as any).aggregateBackfillChunk.handler(
+          { db: baseCtx.db, scheduler: schedulerStub },
+          {}
+        );
+      }
+
+      expect(
+        await ctx.orm.query.soft_scope_plain_count_authors.count({
+          where: { name: 'Ada' },
+        })
+      ).toBe(2);
+      expect(
+        await ctx.orm.query.soft_scope_plain_count_authors.aggregate({
+          where: { name: 'Ada' },
+          _count: true,
+        })
+      ).toEqual({ _count: 2 });
+      await expect(
+        ctx.orm.query.soft_scope_plain_count_authors.count({
+          where: { name: 'Ada' },
+          onlyDeleted: true,
+        })
+      ).rejects.toThrow(/needs an aggregateIndex that includes deletionTime/);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import {
+  aggregateIndex,
+  convexTable,
+  defineRelations,
+  defineSchema,
+  eq,
+  index,
+  tenancy,
+  text,
+} from 'kitcn/orm';
+import { describe, expect, it } from 'vitest';
+import { withOrmCtx } from '../setup.testing';
+
+const orgs = convexTable('ten_orgs', {
+  name: text().notNull(),
+});
+
+const projects = convexTable(
+  'ten_projects',
+  {
+    name: text().notNull(),
+    status: text().notNull(),
+    organizationId: text().notNull(),
+  },
+  (t) => [
+    index('by_org_status').on(t.organizationId, t.status),
+    index('by_name').on(t.name),
+    aggregateIndex('by_org_count').on(t.organizationId),
+    aggregateIndex('by_org_status_count').on(t.organizationId, t.status),
+  ]
+);
+
+const tasks = convexTable(
+  'ten_tasks',
+  {
+    title: text().notNull(),
+    projectName: text().notNull(),
+    organizationId: text().notNull(),
+  },
+  (t) => [index('by_org').on(t.organizationId)]
+);
+
+const plans = convexTable(
+  'ten_plans',
+  {
+    name: text().notNull(),
+    organizationId: text(),
+  },
+  () => [tenancy('shared')]
+);
+
+const tables = {
+  ten_orgs: orgs,
+  ten_projects: projects,
+  ten_tasks: tasks,
+  ten_plans: plans,
+};
+const schema = defineSchema(tables, { defaults: { defaultLimit: 100 } });
+const relations = defineRelations(tables, (r) => ({
+  ten_tasks: {
+    project: r.one.ten_projects({
+      from: r.ten_tasks.projectName,
+      to: r.ten_projects.name,
+    }),
+  },
+}));
+
+const tenancyOptions = {
+  tenancy: {
+    column: 'organizationId',
+    resolve: (ctx: { orgId?: string }) => ctx.orgId,
+  },
+};
+
+const withTenantCtx = <T>(fn: (ctx: any) => Promise<T>) =>
+  withOrmCtx(schema, relations, fn as any, tenancyOptions);
+
+describe('createOrm({ tenancy })', () => {
+  it('stamps inserts and scopes reads to the current tenant', async () =>
+    withTenantCtx(async (ctx) => {
+      ctx.orgId = 'org_a';
+      const [alpha] = await ctx.orm
+        .insert(projects)
+        .values({ name: 'Alpha', status: 'active' })
+        .returning();
+      expect(alpha.organizationId).toBe('org_a');
+
+      ctx.orgId = 'org_b';
+      await ctx.orm.insert(projects).values({ name: 'Beta', status: 'active' });
+
+      const rows = await ctx.orm.query.ten_projects.findMany({
+        where: { status: 'active' },
+      });
+      expect(rows.map((row: any) => row.name)).toEqual(['Beta']);
+      expect(
+        await ctx.orm.query.ten_projects.findFirst({ where: { id: alpha.id } })
+      ).toBeNull();
+      // count() plans against the tenant-prefixed aggregate index.
+      await expect(ctx.orm.query.ten_projects.count()).rejects.toThrow(
+        "aggregateIndex 'ten_projects.by_org_count' is BUILDING"
+      );
+    }));
+
+  it('scopes update and delete, and rejects cross-tenant writes', async () =>
+    withTenantCtx(async (ctx) => {
+      ctx.orgId = 'org_a';
+      const [alpha] = await ctx.orm
+        .insert(projects)
+        .values({ name: 'Alpha', status: 'active' })
+        .returning();
+
+      ctx.orgId = 'org_b';
+      await expect(
+        ctx.orm
+          .insert(projects)
+          .values({ name: 'Sneaky', status: 'active', organizationId: 'org_a' })
+      ).rejects.toThrow(
+        "Cannot write organizationId 'org_a' to 'ten_projects' outside the current tenant."
+      );
+
+      const updated = await ctx.orm
+        .update(projects)
+        .set({ status: 'archived' })
+        .where(eq(projects.id, alpha.id))
+        .returning();
+      expect(updated).toEqual([]);
+      await ctx.orm
+        .delete(projects)
+        .where(eq(projects.status, 'active'))
+        .execute();
+      expect((await ctx.db.get(alpha.id))?.status).toBe('active');
+
+      ctx.orgId = 'org_a';
+      await expect(
+        ctx.orm
+          .update(projects)
+          .set({ organizationId: 'org_b' })
+          .where(eq(projects.id, alpha.id))
+      ).rejects.toThrow(
+        "Cannot write organizationId 'org_b' to 'ten_projects' outside the current tenant."
+      );
+      await ctx.orm
+        .update(projects)
+        .set({ status: 'archived' })
+        .where(eq(projects.id, alpha.id));
+      expect((await ctx.db.get(alpha.id))?.status).toBe('archived');
+    }));
+
+  it('drops related rows from other tenants', async () =>
+    withTenantCtx(async (ctx) => {
+      await ctx.db.insert('ten_projects', {
+        name: 'Shared Name',
+        status: 'active',
+        organizationId: 'org_b',
+      });
+      await ctx.db.insert('ten_tasks', {
+        title: 'Leaky',
+        projectName: 'Shared Name',
+        organizationId: 'org_a',
+      });
+
+      ctx.orgId = 'org_a';
+      const [task] = await ctx.orm.query.ten_tasks.findMany({
+        with: { project: true },
+      });
+      expect(task.title).toBe('Leaky');
+      expect(task.project).toBeNull();
+    }));
+
+  it('fails closed without a tenant and is bypassed by skipRules', async () =>
+    withTenantCtx(async (ctx) => {
+      await ctx.db.insert('ten_projects', {
+        name: 'Alpha',
+        status: 'active',
+        organizationId: 'org_a',
+      });
+
+      await expect(ctx.orm.query.ten_projects.findMany()).rejects.toThrow(
+        "No tenant resolved for 'ten_projects'. tenancy.resolve(ctx) must return the current tenant; use skipRules for cross-tenant access."
+      );
+      await expect(
+        ctx.orm.insert(projects).values({ name: 'x', status: 'active' })
+      ).rejects.toThrow("No tenant resolved for 'ten_projects'.");
+
+      const all = await ctx.orm.skipRules.query.ten_projects.findMany({
+        allowFullScan: true,
+      });
+      expect(all).toHaveLength(1);
+
+      await ctx.orm.insert(orgs).values({ name: 'Unscoped' });
+      await ctx.orm.insert(plans).values({ name: 'Pro', organizationId: null });
+      expect(await ctx.orm.query.ten_plans.findMany()).toHaveLength(1);
+    }));
+
+  it("rejects tenancy('scoped') tables without the tenant column", async () => {
+    const { createOrm } = await import('kitcn/orm');
+    const bad = convexTable('ten_bad', { name: text() }, () => [
+      tenancy('scoped'),
+    ]);
+    expect(() =>
+      createOrm({
+        schema: defineRelations({ ten_bad: bad }),
+        tenancy: tenancyOptions.tenancy,
+      })
+    ).toThrow(
+      "Table 'ten_bad' uses tenancy('scoped') but has no 'organizationId' column."
+    );
+  });
+});
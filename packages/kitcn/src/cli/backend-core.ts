@@ -20,6 +20,18 @@ import {
 import { parse as parseDotEnv } from 'dotenv';
 import { execa } from 'execa';
 import { getTableConfig } from '../orm/introspection.js';
+import {
+  computeMigrationSchemaChecksum,
+  createMigrationSchemaSnapshot,
+  diffMigrationSchemaSnapshots,
+  type MigrationSchemaChange,
+  type MigrationSchemaSnapshot,
+} from '../orm/migrations/snapshot.js';
+import {
+  type MigrationVerifyChunkResult,
+  type MigrationVerifyViolation,
+  mergeMigrationVerifyViolations,
+} from '../orm/migrations/verify.js';
 import { getSchemaRelations } from '../orm/schema.js';
 import { runAnalyze } from './analyze.js';
 import { generateMeta, getConvexConfig } from './codegen.js';
@@ -35,6 +47,7 @@ import {
   normalizeConvexCommandResult,
   writeConvexCommandOutput,
 } from './convex-command.js';
+import { loadDrizzleSchema } from './drizzle-import.js';
 import { pullEnv, resolveAuthEnvState, syncEnv } from './env.js';
 import {
   detectPackageManager,
@@ -801,6 +814,9 @@ export function resolveRunDeps(deps: Partial<RunDeps> = {}): RunDeps {
     pullEnv,
     syncEnv,
     loadCliConfig,
+    loadMigrationSchemaSnapshot,
+    loadProjectSchema,
+    loadDrizzleSchema,
     ensureConvexGitignoreEntry,
     promptAdapter: createPromptAdapter(),
     enableDevSchemaWatch: true,
@@ -4139,6 +4155,7 @@ function buildAggregateFingerprintPayload(tables: unknown[]): Array<{
     avgFields: string[];
     minFields: string[];
     maxFields: string[];
+    bucket?: { field: string; unit: string; tz: string };
   }>;
 }> {
   return tables
@@ -4154,6 +4171,7 @@ function buildAggregateFingerprintPayload(tables: unknown[]): Array<{
           avgFields: normalizeStringList(index.avgFields),
           minFields: normalizeStringList(index.minFields),
           maxFields: normalizeStringList(index.maxFields),
+          ...(index.bucket ? { bucket: index.bucket } : {}),
         }))
         .sort((a, b) => a.name.localeCompare(b.name)),
     }))
@@ -4349,6 +4367,9 @@ export type RunDeps = {
   pullEnv: typeof pullEnv;
   syncEnv: typeof syncEnv;
   loadCliConfig: typeof loadCliConfig;
+  loadMigrationSchemaSnapshot: typeof loadMigrationSchemaSnapshot;
+  loadProjectSchema: typeof loadProjectSchema;
+  loadDrizzleSchema: typeof loadDrizzleSchema;
   ensureConvexGitignoreEntry: typeof ensureConvexGitignoreEntry;
   promptAdapter: PromptAdapter;
   enableDevSchemaWatch: boolean;
@@ -6018,12 +6039,92 @@ export function extractMigrationDownOptions(args: string[]): {
   };
 }
 
-function renderMigrationManifest(ids: string[]): string {
+export function extractMigrationVerifyOptions(args: string[]): {
+  remainingArgs: string[];
+  tables: string[];
+  batchSize?: number;
+  sampleSize: number;
+  fix: boolean;
+  fixName?: string;
+} {
+  const remainingArgs: string[] = [];
+  const tables: string[] = [];
+  let batchSize: number | undefined;
+  let sampleSize = DEFAULT_MIGRATION_VERIFY_SAMPLE_SIZE;
+  let fix = false;
+  let fixName: string | undefined;
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    if (arg === '--batch-size' || arg === '--samples') {
+      const { value, nextIndex } = readFlagValue(args, i, arg);
+      if (arg === '--batch-size') {
+        batchSize = parsePositiveIntegerArg(arg, value);
+      } else {
+        sampleSize = parsePositiveIntegerArg(arg, value);
+      }
+      i = nextIndex;
+      continue;
+    }
+    if (arg.startsWith('--batch-size=')) {
+      batchSize = parsePositiveIntegerArg(
+        '--batch-size',
+        arg.slice('--batch-size='.length)
+      );
+      continue;
+    }
+    if (arg.startsWith('--samples=')) {
+      sampleSize = parsePositiveIntegerArg(
+        '--samples',
+        arg.slice('--samples='.length)
+      );
+      continue;
+    }
+    if (arg === '--fix' || arg.startsWith('--fix=')) {
+      fix = true;
+      fixName = arg.slice('--fix='.length) || undefined;
+      continue;
+    }
+    if (arg.startsWith('-')) {
+      // Target flags (--prod, --url <url>, ...) go to the backend run.
+      remainingArgs.push(arg);
+      const next = args[i + 1];
+      if (
+        arg !== '--prod' &&
+        !arg.includes('=') &&
+        next &&
+        !next.startsWith('-')
+      ) {
+        remainingArgs.push(next);
+        i += 1;
+      }
+      continue;
+    }
+    tables.push(arg);
+  }
+
+  return {
+    remainingArgs,
+    tables,
+    batchSize,
+    sampleSize,
+    fix,
+    fixName,
+  };
+}
+
+function renderMigrationManifest(
+  ids: string[],
+  schemaChecksum?: string
+): string {
   const sorted = [...new Set(ids)].sort((a, b) => a.localeCompare(b));
   const importLines = sorted.map(
     (id, index) => `import { migration as migration_${index} } from './${id}';`
   );
   const entryLines = sorted.map((_, index) => `  migration_${index},`);
+  const optionsArg = schemaChecksum
+    ? `, {\n  schemaChecksum: '${schemaChecksum}',\n}`
+    : '';
 
   return `// biome-ignore-all format: generated
 // This file is auto-generated by kitcn migrate create.
@@ -6034,10 +6135,29 @@ ${importLines.join('\n')}
 
 export const migrations = defineMigrationSet([
 ${entryLines.join('\n')}
-]);
+]${optionsArg});
 `;
 }
 
+function writeMigrationManifest(migrationsDir: string): string {
+  const manifestFile = join(migrationsDir, 'manifest.ts');
+  const existingMigrationIds = fs
+    .readdirSync(migrationsDir)
+    .filter((file) => file.endsWith('.ts'))
+    .map((file) => file.replace(TS_EXTENSION_RE, ''))
+    .filter((id) => id !== 'manifest')
+    .sort((a, b) => a.localeCompare(b));
+  const snapshot = readMigrationSchemaSnapshot(migrationsDir);
+  fs.writeFileSync(
+    manifestFile,
+    renderMigrationManifest(
+      existingMigrationIds,
+      snapshot ? computeMigrationSchemaChecksum(snapshot) : undefined
+    )
+  );
+  return manifestFile;
+}
+
 export async function runMigrationCreate(params: {
   migrationName: string;
   functionsDir: string;
@@ -6054,7 +6174,6 @@ export async function runMigrationCreate(params: {
   const migrationId = `${timestamp}_${normalizedName}`;
   const migrationsDir = join(functionsDir, 'migrations');
   const migrationFile = join(migrationsDir, `${migrationId}.ts`);
-  const manifestFile = join(migrationsDir, 'manifest.ts');
 
   fs.mkdirSync(migrationsDir, { recursive: true });
   if (fs.existsSync(migrationFile)) {
@@ -6083,20 +6202,525 @@ export const migration = defineMigration({
 });
 `;
   fs.writeFileSync(migrationFile, migrationSource);
-
-  const existingMigrationIds = fs
-    .readdirSync(migrationsDir)
-    .filter((file) => file.endsWith('.ts'))
-    .map((file) => file.replace(TS_EXTENSION_RE, ''))
-    .filter((id) => id !== 'manifest')
-    .sort((a, b) => a.localeCompare(b));
-  fs.writeFileSync(manifestFile, renderMigrationManifest(existingMigrationIds));
+  const manifestFile = writeMigrationManifest(migrationsDir);
 
   logger.info(`created migration ${migrationId}`);
   logger.info(`file: ${migrationFile}`);
   logger.info(`manifest: ${manifestFile}`);
 }
 
+const MIGRATION_SCHEMA_SNAPSHOT_FILE = 'snapshot.json';
+const DEFAULT_MIGRATION_VERIFY_SAMPLE_SIZE = 5;
+const TS_IDENTIFIER_RE = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function readMigrationSchemaSnapshot(
+  migrationsDir: string
+): MigrationSchemaSnapshot | null {
+  const snapshotFile = join(migrationsDir, MIGRATION_SCHEMA_SNAPSHOT_FILE);
+  if (!fs.existsSync(snapshotFile)) {
+    return null;
+  }
+  try {
+    return JSON.parse(
+      fs.readFileSync(snapshotFile, 'utf8')
+    ) as MigrationSchemaSnapshot;
+  } catch (error) {
+    throw new Error(
+      `Failed to read schema snapshot ${snapshotFile}: ${(error as Error).message}`
+    );
+  }
+}
+
+/** Import the project's schema.ts default export through project jiti. */
+export async function loadProjectSchema(
+  functionsDir: string
+): Promise<Record<string, unknown>> {
+  const schemaPath = getSchemaFilePath(functionsDir);
+  if (!fs.existsSync(schemaPath)) {
+    throw new Error(`Schema file not found: ${schemaPath}`);
+  }
+  const jiti = createProjectJiti();
+  const schemaModule = await jiti.import(schemaPath);
+  const schemaValue =
+    schemaModule && typeof schemaModule === 'object'
+      ? resolveSchemaDefaultExport(schemaModule as Record<string, unknown>)
+      : null;
+  if (!schemaValue) {
+    throw new Error(`Schema file ${schemaPath} has no default export.`);
+  }
+  return schemaValue;
+}
+
+export async function loadMigrationSchemaSnapshot(
+  functionsDir: string
+): Promise<MigrationSchemaSnapshot> {
+  return createMigrationSchemaSnapshot(await loadProjectSchema(functionsDir));
+}
+
+function toTsLiteral(
+  value: string | number | boolean | null | undefined
+): string {
+  if (typeof value === 'string') {
+    return `'${value.replaceAll('\\', '\\\\').replaceAll("'", "\\'")}'`;
+  }
+  return String(value);
+}
+
+function toTsAccess(target: string, key: string): string {
+  return TS_IDENTIFIER_RE.test(key)
+    ? `${target}.${key}`
+    : `${target}[${toTsLiteral(key)}]`;
+}
+
+function describeMigrationSchemaChange(change: MigrationSchemaChange): string {
+  switch (change.kind) {
+    case 'column_required':
+      return `require ${change.table}.${change.column}`;
+    case 'column_renamed':
+      return `rename ${change.table}.${change.from} to ${change.to}`;
+    case 'enum_narrowed':
+      return `narrow ${change.table}.${change.column} (drop ${change.removed.join(', ')})`;
+    case 'index_swapped':
+      return change.from.name === change.to.name
+        ? `change ${change.table} index ${change.to.name} fields`
+        : `swap ${change.table} index ${change.from.name} for ${change.to.name}`;
+    case 'generated_changed':
+      return `recompute ${change.table}.${change.column}`;
+    case 'encryption_changed':
+      return `encrypt ${change.table}.${change.column}`;
+  }
+}
+
+function renderMigrationSchemaChangeBody(
+  change: MigrationSchemaChange,
+  renamedColumns: Set<string>
+): string[] {
+  switch (change.kind) {
+    case 'column_renamed': {
+      const from = toTsAccess('doc', change.from);
+      return [
+        `// '${change.from}' was renamed to '${change.to}'.`,
+        `if (${from} !== undefined) {`,
+        `  ${toTsAccess('patch', change.to)} = ${from};`,
+        `  ${toTsAccess('patch', change.from)} = undefined;`,
+        '}',
+      ];
+    }
+    case 'column_required': {
+      const value = toTsAccess('doc', change.column);
+      const guard = renamedColumns.has(change.column)
+        ? `${toTsAccess('patch', change.column)} === undefined && (${value} === undefined || ${value} === null)`
+        : `${value} === undefined || ${value} === null`;
+      return [
+        `// '${change.column}' is now required.`,
+        `if (${guard}) {`,
+        'default' in change
+          ? `  ${toTsAccess('patch', change.column)} = ${toTsLiteral(change.default)};`
+          : `  // TODO: backfill '${change.column}'; it has no static default.`,
+        '}',
+      ];
+    }
+    case 'enum_narrowed': {
+      const value = toTsAccess('doc', change.column);
+      const replacement =
+        'default' in change &&
+        typeof change.default === 'string' &&
+        change.values.includes(change.default)
+          ? change.default
+          : change.values[0];
+      return [
+        `// '${change.column}' no longer accepts ${change.removed.map((item) => `'${item}'`).join(', ')}.`,
+        `if (${change.removed.map((item) => `${value} === ${toTsLiteral(item)}`).join(' || ')}) {`,
+        '  // TODO: confirm the replacement value.',
+        `  ${toTsAccess('patch', change.column)} = ${toTsLiteral(replacement)};`,
+        '}',
+      ];
+    }
+    case 'index_swapped':
+      return [
+        `// Index '${change.from.name}' (${change.from.fields.join(', ')}) was replaced by '${change.to.name}' (${change.to.fields.join(', ')}).`,
+        '// TODO: backfill fields the new index relies on, or remove this note.',
+      ];
+    case 'generated_changed':
+      return [
+        `// '${change.column}' has a new generatedAlwaysAs() expression.`,
+      ];
+    case 'encryption_changed':
+      return [`// '${change.column}' is now sealed with encrypted().`];
+  }
+}
+
+function renderMigrateOne(
+  lines: string[],
+  options: { recomputeGenerated?: boolean; reencrypt?: boolean } = {}
+): string {
+  const { recomputeGenerated = false, reencrypt = false } = options;
+  return `async (${recomputeGenerated || reencrypt ? 'ctx' : '_ctx'}, doc) => {
+      const patch: Record<string, unknown> = {};
+${lines.map((line) => `      ${line}`).join('\n')}${
+  recomputeGenerated
+    ? `
+      Object.assign(patch, ctx.generated({ ...doc, ...patch }));`
+    : ''
+}${
+  reencrypt
+    ? `
+      Object.assign(patch, await ctx.reencrypt({ ...doc, ...patch }));`
+    : ''
+}
+      if (Object.keys(patch).length > 0) {
+        return patch;
+      }
+    }`;
+}
+
+function renderGeneratedMigration(params: {
+  migrationId: string;
+  table: string;
+  changes: MigrationSchemaChange[];
+}): string {
+  const { migrationId, table, changes } = params;
+  const renamedColumns = new Set(
+    changes.flatMap((change) =>
+      change.kind === 'column_renamed' ? [change.to] : []
+    )
+  );
+  const upLines = changes.flatMap((change) =>
+    renderMigrationSchemaChangeBody(change, renamedColumns)
+  );
+  const recomputeGenerated = changes.some(
+    (change) => change.kind === 'generated_changed'
+  );
+  const reencrypt = changes.some(
+    (change) => change.kind === 'encryption_changed'
+  );
+  const description = changes.map(describeMigrationSchemaChange).join('; ');
+  const renames = changes.filter((change) => change.kind === 'column_renamed');
+  const downLines =
+    renames.length === changes.length
+      ? renames.flatMap((change) =>
+          renderMigrationSchemaChangeBody(
+            { ...change, from: change.to, to: change.from },
+            new Set()
+          )
+        )
+      : null;
+
+  return `import { defineMigration } from '../generated/migrations.gen';
+
+// Generated by kitcn migrate generate. Review every step before running it.
+export const migration = defineMigration({
+  id: '${migrationId}',
+  description: ${toTsLiteral(description)},
+  up: {
+    table: ${toTsLiteral(table)},
+    migrateOne: ${renderMigrateOne(upLines, { recomputeGenerated, reencrypt })},
+  },${
+    downLines
+      ? `
+  down: {
+    table: ${toTsLiteral(table)},
+    migrateOne: ${renderMigrateOne(downLines)},
+  },`
+      : ''
+  }
+});
+`;
+}
+
+export async function runMigrationGenerate(params: {
+  migrationName?: string;
+  functionsDir: string;
+  loadSchemaSnapshot?: typeof loadMigrationSchemaSnapshot;
+}): Promise<{ migrationIds: string[]; changes: MigrationSchemaChange[] }> {
+  const {
+    migrationName,
+    functionsDir,
+    loadSchemaSnapshot = loadMigrationSchemaSnapshot,
+  } = params;
+  const normalizedName = slugifyMigrationName(migrationName ?? 'schema');
+  if (!normalizedName) {
+    throw new Error(
+      'Migration name must include at least one letter or digit.'
+    );
+  }
+
+  const migrationsDir = join(functionsDir, 'migrations');
+  const snapshotFile = join(migrationsDir, MIGRATION_SCHEMA_SNAPSHOT_FILE);
+  const previous = readMigrationSchemaSnapshot(migrationsDir);
+  const current = await loadSchemaSnapshot(functionsDir);
+  const changes = previous
+    ? diffMigrationSchemaSnapshots(previous, current)
+    : [];
+
+  fs.mkdirSync(migrationsDir, { recursive: true });
+
+  const changesByTable = new Map<string, MigrationSchemaChange[]>();
+  for (const change of changes) {
+    const tableChanges = changesByTable.get(change.table) ?? [];
+    tableChanges.push(change);
+    changesByTable.set(change.table, tableChanges);
+  }
+
+  const timestamp = createMigrationTimestamp();
+  const migrationIds: string[] = [];
+  for (const [table, tableChanges] of [...changesByTable.entries()].sort(
+    ([a], [b]) => a.localeCompare(b)
+  )) {
+    const migrationId = `${timestamp}_${normalizedName}_${slugifyMigrationName(table)}`;
+    const migrationFile = join(migrationsDir, `${migrationId}.ts`);
+    if (fs.existsSync(migrationFile)) {
+      throw new Error(
+        `Migration file already exists for '${migrationId}'. Wait one second and retry.`
+      );
+    }
+    fs.writeFileSync(
+      migrationFile,
+      renderGeneratedMigration({ migrationId, table, changes: tableChanges })
+    );
+    migrationIds.push(migrationId);
+  }
+
+  fs.writeFileSync(snapshotFile, `${JSON.stringify(current, null, 2)}\n`);
+  const manifestFile = writeMigrationManifest(migrationsDir);
+
+  if (!previous) {
+    logger.info('created schema snapshot baseline');
+  } else if (changes.length === 0) {
+    logger.info('no schema changes require a data migration');
+  }
+  for (const change of changes) {
+    logger.info(`- ${describeMigrationSchemaChange(change)}`);
+  }
+  for (const migrationId of migrationIds) {
+    logger.info(`created migration ${migrationId}`);
+  }
+  logger.info(`snapshot: ${snapshotFile}`);
+  logger.info(`manifest: ${manifestFile}`);
+
+  return { migrationIds, changes };
+}
+
+function renderMigrationVerifyViolationBody(
+  violation: MigrationVerifyViolation
+): string[] {
+  const rows = `${violation.count} ${violation.count === 1 ? 'row' : 'rows'}`;
+  const samples = `(e.g. ${violation.sampleIds.join(', ')})`;
+  switch (violation.rule) {
+    case 'not_null': {
+      const value = toTsAccess('doc', violation.name);
+      return [
+        `// '${violation.name}' is empty in ${rows} ${samples}.`,
+        `if (${value} === undefined || ${value} === null) {`,
+        `  // TODO: backfill '${violation.name}'.`,
+        '}',
+      ];
+    }
+    case 'type':
+      return [
+        `// '${violation.name}' holds a value it no longer accepts in ${rows} ${samples}.`,
+        `// TODO: convert ${toTsAccess('doc', violation.name)} to a valid value.`,
+      ];
+    case 'check':
+      return [
+        `// Check '${violation.name}' fails for ${rows} ${samples}.`,
+        '// TODO: patch the columns this check reads.',
+      ];
+    case 'foreign_key':
+      return [
+        `// ${violation.columns.join(', ')} references a missing '${violation.foreignTable}' row in ${rows} ${samples}.`,
+        '// TODO: point the reference at an existing row, or clear it.',
+      ];
+  }
+}
+
+function renderMigrationVerifyFix(params: {
+  migrationId: string;
+  table: string;
+  violations: MigrationVerifyViolation[];
+}): string {
+  const { migrationId, table, violations } = params;
+  const description = `fix ${violations
+    .map((violation) => `${violation.rule} ${violation.name}`)
+    .join('; ')}`;
+
+  return `import { defineMigration } from '../generated/migrations.gen';
+
+// Generated by kitcn migrate verify --fix. Resolve every TODO before running it.
+export const migration = defineMigration({
+  id: '${migrationId}',
+  description: ${toTsLiteral(description)},
+  up: {
+    table: ${toTsLiteral(table)},
+    migrateOne: ${renderMigrateOne(
+      violations.flatMap(renderMigrationVerifyViolationBody)
+    )},
+  },
+});
+`;
+}
+
+async function writeMigrationVerifyFix(params: {
+  migrationName?: string;
+  functionsDir: string;
+  tables: { table: string; violations: MigrationVerifyViolation[] }[];
+}): Promise<{ migrationIds: string[] }> {
+  const { migrationName, functionsDir, tables } = params;
+  const normalizedName = slugifyMigrationName(migrationName ?? 'fix_data');
+  if (!normalizedName) {
+    throw new Error(
+      'Migration name must include at least one letter or digit.'
+    );
+  }
+
+  const migrationsDir = join(functionsDir, 'migrations');
+  fs.mkdirSync(migrationsDir, { recursive: true });
+
+  const timestamp = createMigrationTimestamp();
+  const migrationIds: string[] = [];
+  for (const { table, violations } of tables) {
+    if (violations.length === 0) {
+      continue;
+    }
+    const migrationId = `${timestamp}_${normalizedName}_${slugifyMigrationName(table)}`;
+    const migrationFile = join(migrationsDir, `${migrationId}.ts`);
+    if (fs.existsSync(migrationFile)) {
+      throw new Error(
+        `Migration file already exists for '${migrationId}'. Wait one second and retry.`
+      );
+    }
+    fs.writeFileSync(
+      migrationFile,
+      renderMigrationVerifyFix({ migrationId, table, violations })
+    );
+    migrationIds.push(migrationId);
+  }
+
+  if (migrationIds.length === 0) {
+    return { migrationIds };
+  }
+  const manifestFile = writeMigrationManifest(migrationsDir);
+  for (const migrationId of migrationIds) {
+    logger.info(`created migration ${migrationId}`);
+  }
+  logger.info(`manifest: ${manifestFile}`);
+
+  return { migrationIds };
+}
+
+function formatMigrationVerifyViolation(
+  violation: MigrationVerifyViolation
+): string {
+  const rows = `${violation.count} ${violation.count === 1 ? 'row' : 'rows'}`;
+  const target =
+    violation.rule === 'foreign_key'
+      ? `${violation.name} (-> ${violation.foreignTable})`
+      : violation.name;
+  return `  ${violation.rule} ${target}: ${rows} (e.g. ${violation.sampleIds.join(', ')})`;
+}
+
+export async function runMigrationVerify(params: {
+  execaFn: typeof execa;
+  backendAdapter: BackendAdapter;
+  targetArgs: string[];
+  env?: Record<string, string | undefined>;
+  tables: string[];
+  batchSize?: number;
+  sampleSize: number;
+  fix?: { migrationName?: string; functionsDir: string };
+}): Promise<number> {
+  const {
+    execaFn,
+    backendAdapter,
+    targetArgs,
+    env,
+    tables,
+    batchSize,
+    sampleSize,
+    fix,
+  } = params;
+  const report: {
+    table: string;
+    scanned: number;
+    violations: MigrationVerifyViolation[];
+  }[] = [];
+  let table: string | undefined;
+  let cursor: string | null = null;
+
+  while (true) {
+    const result = await runBackendFunction(
+      execaFn,
+      backendAdapter,
+      'generated/server:migrationVerifyChunk',
+      {
+        tables: tables.length > 0 ? tables : undefined,
+        table,
+        cursor,
+        batchSize,
+        sampleSize,
+      },
+      targetArgs,
+      {
+        echoOutput: false,
+        env,
+      }
+    );
+    if (result.exitCode !== 0) {
+      logger.error(result.stderr.trim() || result.stdout.trim());
+      return result.exitCode;
+    }
+    const chunk = parseBackendRunJson<MigrationVerifyChunkResult>(
+      result.stdout
+    );
+    if (chunk.table) {
+      let entry = report.find((item) => item.table === chunk.table);
+      if (!entry) {
+        entry = { table: chunk.table, scanned: 0, violations: [] };
+        report.push(entry);
+      }
+      entry.scanned += chunk.scanned;
+      mergeMigrationVerifyViolations(
+        entry.violations,
+        chunk.violations,
+        sampleSize
+      );
+    }
+    if (!chunk.nextTable) {
+      break;
+    }
+    table = chunk.nextTable;
+    cursor = chunk.isDone ? null : chunk.cursor;
+  }
+
+  const failing = report.filter((entry) => entry.violations.length > 0);
+  for (const entry of report) {
+    if (entry.violations.length === 0) {
+      logger.info(`${entry.table}: ${entry.scanned} rows ok`);
+      continue;
+    }
+    logger.warn(`${entry.table}: ${entry.scanned} rows scanned`);
+    for (const violation of entry.violations) {
+      logger.write(formatMigrationVerifyViolation(violation));
+    }
+  }
+  if (failing.length === 0) {
+    logger.success('migration verify found no violations');
+    return 0;
+  }
+  logger.error(
+    `migration verify found violations in ${failing.length} ${failing.length === 1 ? 'table' : 'tables'}`
+  );
+
+  if (fix) {
+    await writeMigrationVerifyFix({
+      migrationName: fix.migrationName,
+      functionsDir: fix.functionsDir,
+      tables: failing,
+    });
+  }
+  return 1;
+}
+
 export async function runMigrationFlow(params: {
   execaFn: typeof execa;
   backendAdapter: BackendAdapter;
@@ -6386,6 +7010,7 @@ export async function run(
     pullEnv: pullEnvFn,
     syncEnv: syncEnvFn,
     loadCliConfig: loadCliConfigFn,
+    loadMigrationSchemaSnapshot: loadMigrationSchemaSnapshotFn,
     ensureConvexGitignoreEntry: ensureConvexGitignoreEntryFn,
     promptAdapter,
     enableDevSchemaWatch,
@@ -6399,6 +7024,7 @@ export async function run(
     pullEnv,
     syncEnv,
     loadCliConfig,
+    loadMigrationSchemaSnapshot,
     ensureConvexGitignoreEntry,
     promptAdapter: createPromptAdapter(),
     enableDevSchemaWatch: !deps,
@@ -7568,13 +8194,15 @@ export async function run(
     const subcommand = restArgs[0];
     if (
       subcommand !== 'create' &&
+      subcommand !== 'generate' &&
       subcommand !== 'up' &&
       subcommand !== 'down' &&
       subcommand !== 'status' &&
-      subcommand !== 'cancel'
+      subcommand !== 'cancel' &&
+      subcommand !== 'verify'
     ) {
       throw new Error(
-        'Unknown migrate command. Use: `kitcn migrate create|up|down|status|cancel`.'
+        'Unknown migrate command. Use: `kitcn migrate create|generate|up|down|status|cancel|verify`.'
       );
     }
 
@@ -7598,6 +8226,18 @@ export async function run(
       return 0;
     }
 
+    if (subcommand === 'generate') {
+      const rawName = restArgs.slice(1).join(' ').trim();
+      const sharedDir = cliSharedDir ?? config.paths.shared;
+      const { functionsDir } = getConvexConfigFn(sharedDir);
+      await runMigrationGenerate({
+        migrationName: rawName || undefined,
+        functionsDir,
+        loadSchemaSnapshot: loadMigrationSchemaSnapshotFn,
+      });
+      return 0;
+    }
+
     const {
       remainingArgs: migrationCommandArgs,
       overrides: migrationOverrides,
@@ -7639,6 +8279,29 @@ export async function run(
       });
     }
 
+    if (subcommand === 'verify') {
+      const { remainingArgs, tables, batchSize, sampleSize, fix, fixName } =
+        extractMigrationVerifyOptions(migrationCommandArgs);
+      const sharedDir = cliSharedDir ?? config.paths.shared;
+      return runMigrationVerify({
+        execaFn,
+        backendAdapter,
+        targetArgs: extractBackendRunTargetArgs(backend, [
+          ...config.deploy.args,
+          ...remainingArgs,
+        ]),
+        tables,
+        batchSize,
+        sampleSize,
+        fix: fix
+          ? {
+              migrationName: fixName,
+              functionsDir: getConvexConfigFn(sharedDir).functionsDir,
+            }
+          : undefined,
+      });
+    }
+
     if (subcommand === 'status') {
       const statusResult = await runBackendFunction(
         execaFn,
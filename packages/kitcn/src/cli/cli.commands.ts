@@ -6532,6 +6532,29 @@ describe('cli/cli', () => {
     ]);
   });
 
+  test('run(import <snapshot>) passes through to convex import', async () => {
+    const calls: { cmd: string; args: string[] }[] = [];
+    const execaStub = mock(async (cmd: string, args: string[]) => {
+      calls.push({ cmd, args });
+      return { exitCode: 0 } as any;
+    });
+    const loadConfigStub = mock(() => createDefaultConfig());
+
+    const exitCode = await run(['import', 'snapshot.zip', '--replace'], {
+      realConvex: '/fake/convex/main.js',
+      execa: execaStub as any,
+      loadCliConfig: loadConfigStub as any,
+    });
+
+    expect(exitCode).toBe(0);
+    expect(calls).toEqual([
+      {
+        cmd: 'node',
+        args: ['/fake/convex/main.js', 'import', 'snapshot.zip', '--replace'],
+      },
+    ]);
+  });
+
   test('run(deployment create --select) passes through to convex', async () => {
     const calls: { cmd: string; args: string[] }[] = [];
     const execaStub = mock(async (cmd: string, args: string[]) => {
@@ -16,6 +16,7 @@ import { handleAggregateCommand } from './commands/aggregate.js';
 import { handleAnalyzeCommand } from './commands/analyze.js';
 import { AUTH_HELP_TEXT, handleAuthCommand } from './commands/auth.js';
 import { CODEGEN_HELP_TEXT, handleCodegenCommand } from './commands/codegen.js';
+import { DATA_HELP_TEXT, handleDataCommand } from './commands/data.js';
 import { handleDeployCommand } from './commands/deploy.js';
 import {
   DEV_HELP_TEXT,
@@ -24,10 +25,13 @@ import {
 } from './commands/dev.js';
 import { DOCS_HELP_TEXT, handleDocsCommand } from './commands/docs.js';
 import { ENV_HELP_TEXT, handleEnvCommand } from './commands/env.js';
+import { handleImportCommand, IMPORT_HELP_TEXT } from './commands/import.js';
 import { handleInfoCommand, INFO_HELP_TEXT } from './commands/info.js';
 import { handleInitCommand, INIT_HELP_TEXT } from './commands/init.js';
 import { handleMigrateCommand, MIGRATE_HELP_TEXT } from './commands/migrate.js';
 import { handleResetCommand } from './commands/reset.js';
+import { handleSchemaCommand, SCHEMA_HELP_TEXT } from './commands/schema.js';
+import { handleSeedCommand, SEED_HELP_TEXT } from './commands/seed.js';
 import { handleVerifyCommand, VERIFY_HELP_TEXT } from './commands/verify.js';
 import { handleViewCommand, VIEW_HELP_TEXT } from './commands/view.js';
 import type { CliBackend } from './config.js';
@@ -84,6 +88,10 @@ const COMMAND_HELP: Record<string, string> = {
   codegen: CODEGEN_HELP_TEXT,
   env: ENV_HELP_TEXT,
   migrate: MIGRATE_HELP_TEXT,
+  seed: SEED_HELP_TEXT,
+  schema: SCHEMA_HELP_TEXT,
+  import: IMPORT_HELP_TEXT,
+  data: DATA_HELP_TEXT,
 };
 
 const COMMAND_HANDLERS = {
@@ -100,6 +108,18 @@ const COMMAND_HANDLERS = {
   migrate: handleMigrateCommand,
   aggregate: handleAggregateCommand,
   reset: handleResetCommand,
+  seed: handleSeedCommand,
+  schema: handleSchemaCommand,
+  import: (argv: string[], deps?: Partial<RunDeps>) =>
+    // `convex import` (data) stays a passthrough.
+    parseArgs(argv).restArgs[0] === 'drizzle'
+      ? handleImportCommand(argv, deps)
+      : handlePassthroughCommand(argv, deps),
+  data: (argv: string[], deps?: Partial<RunDeps>) =>
+    // `convex data <table>` (browse) stays a passthrough.
+    ['export', 'import'].includes(parseArgs(argv).restArgs[0] ?? '')
+      ? handleDataCommand(argv, deps)
+      : handlePassthroughCommand(argv, deps),
   dev: handleDevCommand,
   analyze: handleAnalyzeCommand,
 } as const;
@@ -143,6 +163,7 @@ Commands:
   codegen                      Generate kitcn outputs
   add [plugin]                 Add a plugin scaffold + schema registration
   view [plugin]                Inspect a plugin install plan without writing
+  view rebuild [view]          Recompute defineView() tables from their sources
   info                         Inspect project + installed plugin state
   docs <topic...>              Show docs links for CLI and plugins
   auth                         Auth runtime helpers
@@ -152,6 +173,10 @@ Commands:
   aggregate                    Aggregate backfill/rebuild/prune commands
   analyze                      Analyze runtime bundle
   reset                        Destructive database reset (requires --yes)
+  seed                         Seed the local database from convex/seed.ts
+  schema diagram               Print an ER diagram of the schema
+  import drizzle <schema.ts>   Convert a Drizzle schema into convexTable files
+  data export|import           Export or import table rows as JSONL or CSV
 ${backendPassThrough}
 
 Run "kitcn <command> --help" for command options.`;
@@ -869,6 +869,9 @@ describe('cli/codegen', () => {
       expect(serverRuntimeGenerated).toContain(
         'createGeneratedFunctionReference<"action", "internal", typeof generatedInternal["generated"]["server"]["reset"]>("generated/server:reset")'
       );
+      expect(serverRuntimeGenerated).toContain(
+        'createGeneratedFunctionReference<"action", "internal", typeof generatedInternal["generated"]["server"]["seedRun"]>("generated/server:seedRun")'
+      );
       expect(nestedRuntimeGenerated).toContain(
         "import type { ActionCtx, MutationCtx, QueryCtx } from '../server';"
       );
@@ -882,8 +885,16 @@ describe('cli/codegen', () => {
       expect(serverGenerated).toContain('migrationRunChunk');
       expect(serverGenerated).toContain('migrationStatus');
       expect(serverGenerated).toContain('migrationCancel');
+      expect(serverGenerated).toContain('migrationVerifyChunk');
       expect(serverGenerated).toContain('resetChunk');
       expect(serverGenerated).toContain('reset');
+      expect(serverGenerated).toContain('seedRunChunk');
+      expect(serverGenerated).toContain('viewRebuildChunk');
+      expect(serverGenerated).toContain('deferredTriggerRun');
+      expect(serverGenerated).toContain('deferredTriggerRetry');
+      expect(serverGenerated).toContain('dataExportPage');
+      expect(serverGenerated).toContain('dataImportChunk');
+      expect(serverGenerated).not.toContain('import { seed }');
       expect(migrationsGenerated).toContain("import schema from '../schema';");
       expect(migrationsGenerated).not.toContain('const relations =');
       expect(migrationsGenerated).toContain(
@@ -2017,6 +2028,36 @@ describe('cli/codegen', () => {
     }
   });
 
+  test('generateMeta wires the seed export into generated server when present', async () => {
+    const dir = mkTempDir();
+    const oldCwd = process.cwd();
+
+    process.chdir(dir);
+    try {
+      writeScopedFixture(dir);
+      writeFile(
+        path.join(dir, 'convex', 'seed.ts'),
+        `
+        export const seed = { schema: {}, steps: () => [] };
+        `.trim()
+      );
+
+      await generateMeta(undefined, { silent: true });
+
+      const serverGenerated = fs.readFileSync(
+        path.join(dir, 'convex', 'generated', 'server.ts'),
+        'utf-8'
+      );
+
+      expect(serverGenerated).toContain("import { seed } from '../seed';");
+      expect(serverGenerated).toContain('  seed,\n  internalMutation,');
+      expect(serverGenerated).toContain('"generated/server:seedRunChunk"');
+      expect(serverGenerated).toContain('seedRun,');
+    } finally {
+      process.chdir(oldCwd);
+    }
+  });
+
   test('generateMeta rejects named triggers export', async () => {
     const dir = mkTempDir();
     const oldCwd = process.cwd();
@@ -143,8 +143,23 @@ const GENERATED_ORM_RUNTIME_PROCEDURES: readonly Omit<
   { exportName: 'migrationRunChunk', internal: true, type: 'mutation' },
   { exportName: 'migrationStatus', internal: true, type: 'mutation' },
   { exportName: 'migrationCancel', internal: true, type: 'mutation' },
+  { exportName: 'migrationVerifyChunk', internal: true, type: 'mutation' },
   { exportName: 'resetChunk', internal: true, type: 'mutation' },
   { exportName: 'reset', internal: true, type: 'action' },
+  { exportName: 'seedRunChunk', internal: true, type: 'mutation' },
+  { exportName: 'seedRun', internal: true, type: 'action' },
+  { exportName: 'viewRebuildChunk', internal: true, type: 'mutation' },
+  { exportName: 'viewRebuild', internal: true, type: 'action' },
+  { exportName: 'deferredTriggerRun', internal: true, type: 'action' },
+  {
+    exportName: 'deferredTriggerExecute',
+    internal: true,
+    type: 'mutation',
+  },
+  { exportName: 'deferredTriggerSettle', internal: true, type: 'mutation' },
+  { exportName: 'deferredTriggerRetry', internal: true, type: 'mutation' },
+  { exportName: 'dataExportPage', internal: true, type: 'mutation' },
+  { exportName: 'dataImportChunk', internal: true, type: 'mutation' },
 ];
 
 function listFilesRecursive(cwd: string, relDir = ''): string[] {
@@ -848,6 +863,7 @@ function emitGeneratedServerFile(
   functionsDir: string,
   hasOrmSchema: boolean,
   hasMigrationsManifest: boolean,
+  hasSeedExport: boolean,
   procedureNameLookup: ProcedureNameLookup
 ): string {
   const asSingleQuotedImport = (importPath: string) =>
@@ -863,6 +879,7 @@ function emitGeneratedServerFile(
     functionsDir,
     'migrations/manifest'
   );
+  const seedImportPath = getModuleImportPath(outputFile, functionsDir, 'seed');
   const serverTypesImportLiteral = asSingleQuotedImport(serverTypesImportPath);
   const dataModelImportLiteral = asSingleQuotedImport(dataModelImportPath);
   const schemaImportLiteral = asSingleQuotedImport(schemaImportPath);
@@ -873,6 +890,10 @@ function emitGeneratedServerFile(
     ? `import { migrations } from ${migrationsManifestImportLiteral};\n`
     : '';
   const migrationsConfigLine = hasMigrationsManifest ? '  migrations,\n' : '';
+  const seedImportLine = hasSeedExport
+    ? `import { seed } from ${asSingleQuotedImport(seedImportPath)};\n`
+    : '';
+  const seedConfigLine = hasSeedExport ? '  seed,\n' : '';
   const functionsDirHint =
     normalizeImportPath(path.relative(process.cwd(), functionsDir)) || 'convex';
   const procedureNameLookupLiteral =
@@ -936,6 +957,21 @@ export { httpAction, internalMutation };
   resetChunk: createGeneratedFunctionReference<"mutation", "internal", unknown>(${JSON.stringify(
     `${moduleNamespace}:resetChunk`
   )}),
+  seedRunChunk: createGeneratedFunctionReference<"mutation", "internal", unknown>(${JSON.stringify(
+    `${moduleNamespace}:seedRunChunk`
+  )}),
+  viewRebuildChunk: createGeneratedFunctionReference<"mutation", "internal", unknown>(${JSON.stringify(
+    `${moduleNamespace}:viewRebuildChunk`
+  )}),
+  deferredTriggerRun: createGeneratedFunctionReference<"action", "internal", unknown>(${JSON.stringify(
+    `${moduleNamespace}:deferredTriggerRun`
+  )}),
+  deferredTriggerExecute: createGeneratedFunctionReference<"mutation", "internal", unknown>(${JSON.stringify(
+    `${moduleNamespace}:deferredTriggerExecute`
+  )}),
+  deferredTriggerSettle: createGeneratedFunctionReference<"mutation", "internal", unknown>(${JSON.stringify(
+    `${moduleNamespace}:deferredTriggerSettle`
+  )}),
 };`;
   const ormSchemaDeclaration = 'const ormSchema = schema;';
 
@@ -961,7 +997,7 @@ import type {
 } from ${serverTypesImportLiteral};
 import { httpAction, internalMutation } from ${serverTypesImportLiteral};
 import schema from ${schemaImportLiteral};
-${migrationsImportLine}
+${migrationsImportLine}${seedImportLine}
 
 ${ormFunctionsDeclaration}
 ${ormSchemaDeclaration}
@@ -974,7 +1010,7 @@ registerProcedureNameLookup(
 export const orm = createOrm({
   schema: ormSchema,
   ormFunctions,
-${migrationsConfigLine}  internalMutation,
+${migrationsConfigLine}${seedConfigLine}  internalMutation,
 });
 
 export type OrmCtx<Ctx extends ServerQueryCtx | ServerMutationCtx = ServerQueryCtx> = GenericOrmCtx<Ctx, typeof ormSchema>;
@@ -1004,8 +1040,19 @@ export const {
   migrationRunChunk,
   migrationStatus,
   migrationCancel,
+  migrationVerifyChunk,
   resetChunk,
   reset,
+  seedRunChunk,
+  seedRun,
+  viewRebuildChunk,
+  viewRebuild,
+  deferredTriggerRun,
+  deferredTriggerExecute,
+  deferredTriggerSettle,
+  deferredTriggerRetry,
+  dataExportPage,
+  dataImportChunk,
 } = orm.api();
 `;
 }
@@ -1915,6 +1962,10 @@ export async function generateMeta(
   const hasMigrationsManifest = fs.existsSync(
     path.join(functionsDir, 'migrations', 'manifest.ts')
   );
+  const hasSeedExport = hasNamedExport(
+    path.join(functionsDir, 'seed.ts'),
+    'seed'
+  );
   if (hasRelationsExport) {
     throw new Error(
       'Codegen error: do not export `relations` from schema.ts. Chain relations on the default schema export with `defineSchema(...).relations(...)`.'
@@ -2187,6 +2238,7 @@ ${optionalTypeExports}
     functionsDir,
     hasOrmSchema,
     hasMigrationsManifest,
+    hasSeedExport,
     procedureNameLookup
   );
 
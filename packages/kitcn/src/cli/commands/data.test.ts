@@ -0,0 +1,190 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createDefaultConfig } from '../test-utils';
+import {
+  formatCsvRow,
+  handleDataCommand,
+  parseCsv,
+  parseDataCommandArgs,
+  parseDataFile,
+} from './data';
+
+describe('cli/commands/data', () => {
+  let dir: string;
+  let cwd: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kitcn-data-'));
+    cwd = process.cwd();
+    process.chdir(dir);
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('parseDataCommandArgs parses tables, flags and target args', () => {
+    expect(
+      parseDataCommandArgs([
+        'export',
+        'users',
+        'posts',
+        '--format=csv',
+        '--url',
+        'http://x',
+      ])
+    ).toMatchObject({
+      subcommand: 'export',
+      tables: ['users', 'posts'],
+      format: 'csv',
+      batchSize: 100,
+      remainingArgs: ['--url', 'http://x'],
+    });
+    expect(
+      parseDataCommandArgs([
+        'import',
+        'posts',
+        'posts.jsonl',
+        '--id-map',
+        'ids.json',
+        '--raw',
+        '--prod',
+      ])
+    ).toMatchObject({
+      tables: ['posts'],
+      file: 'posts.jsonl',
+      idMap: 'ids.json',
+      raw: true,
+      remainingArgs: ['--prod'],
+    });
+    expect(() => parseDataCommandArgs(['export', '--format', 'xml'])).toThrow(
+      "Invalid --format value 'xml'. Use jsonl, csv."
+    );
+    expect(() => parseDataCommandArgs(['export', '--batch-size', '0'])).toThrow(
+      "Invalid --batch-size value '0'. Use a positive integer."
+    );
+  });
+
+  test('CSV rows round-trip quoted cells and nested JSON', () => {
+    const csv = [
+      formatCsvRow(['id', 'title', 'meta']),
+      formatCsvRow(['p1', 'a, "b"\nc', { tags: ['x'] }]),
+      formatCsvRow(['p2', null, null]),
+    ].join('\n');
+
+    expect(parseCsv(csv)).toEqual([
+      ['id', 'title', 'meta'],
+      ['p1', 'a, "b"\nc', '{"tags":["x"]}'],
+      ['p2', '', ''],
+    ]);
+    expect(parseDataFile(`${csv}\n`, 'csv')[0]).toEqual({
+      id: 'p1',
+      title: 'a, "b"\nc',
+      meta: '{"tags":["x"]}',
+    });
+    expect(() => parseDataFile('{"id":1}\nnope', 'jsonl')).toThrow(
+      'Line 2 is not valid JSON.'
+    );
+  });
+
+  test('handleDataCommand(export) pages through dataExportPage', async () => {
+    const calls: string[][] = [];
+    const pages = [
+      { rows: [{ id: 'u1', name: 'Ada' }], cursor: 'c1', isDone: false },
+      { rows: [{ id: 'u2', name: 'Bo, Jr' }], cursor: null, isDone: true },
+    ];
+    const execaStub = mock(async (_cmd: string, args: string[]) => {
+      calls.push(args);
+      const page = {
+        table: 'users',
+        columns: ['id', 'name'],
+        ...pages[calls.length - 1],
+      };
+      return { exitCode: 0, stdout: JSON.stringify(page), stderr: '' } as any;
+    });
+
+    const exitCode = await handleDataCommand(
+      ['data', 'export', 'users', '--format', 'csv', '--batch-size', '1'],
+      {
+        realConvex: '/fake/convex/main.js',
+        execa: execaStub as any,
+        loadCliConfig: mock(() => createDefaultConfig()) as any,
+      }
+    );
+
+    expect(exitCode).toBe(0);
+    expect(calls.map((args) => args.slice(-2))).toEqual([
+      [
+        'generated/server:dataExportPage',
+        '{"table":"users","cursor":null,"limit":1}',
+      ],
+      [
+        'generated/server:dataExportPage',
+        '{"table":"users","cursor":"c1","limit":1}',
+      ],
+    ]);
+    expect(fs.readFileSync(path.join(dir, 'users.csv'), 'utf8')).toBe(
+      'id,name\nu1,Ada\nu2,"Bo, Jr"\n'
+    );
+  });
+
+  test('handleDataCommand(import) remaps ids and writes the id map back', async () => {
+    fs.writeFileSync(
+      path.join(dir, 'posts.jsonl'),
+      '{"id":"p1","authorId":"u1"}\n{"id":"p2","authorId":"u9"}\n'
+    );
+    fs.writeFileSync(path.join(dir, 'ids.json'), '{"u1":"n1"}');
+    const calls: string[][] = [];
+    const execaStub = mock(async (_cmd: string, args: string[]) => {
+      calls.push(args);
+      const result = {
+        inserted: 1,
+        ids: { [`p${calls.length}`]: `m${calls.length}` },
+      };
+      return { exitCode: 0, stdout: JSON.stringify(result), stderr: '' } as any;
+    });
+
+    const exitCode = await handleDataCommand(
+      [
+        'data',
+        'import',
+        'posts',
+        'posts.jsonl',
+        '--id-map',
+        'ids.json',
+        '--batch-size',
+        '1',
+      ],
+      {
+        realConvex: '/fake/convex/main.js',
+        execa: execaStub as any,
+        loadCliConfig: mock(() => createDefaultConfig()) as any,
+      }
+    );
+
+    expect(exitCode).toBe(0);
+    expect(calls.map((args) => JSON.parse(args.at(-1)!))).toEqual([
+      {
+        table: 'posts',
+        rows: [{ id: 'p1', authorId: 'u1' }],
+        idMap: { u1: 'n1' },
+        strings: false,
+        raw: false,
+        offset: 0,
+      },
+      {
+        table: 'posts',
+        rows: [{ id: 'p2', authorId: 'u9' }],
+        idMap: {},
+        strings: false,
+        raw: false,
+        offset: 1,
+      },
+    ]);
+    expect(
+      JSON.parse(fs.readFileSync(path.join(dir, 'ids.json'), 'utf8'))
+    ).toEqual({ u1: 'n1', p1: 'm1', p2: 'm2' });
+  });
+});
@@ -0,0 +1,408 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+  DATA_FORMATS,
+  type DataExportPage,
+  type DataFormat,
+  type DataImportChunkResult,
+  type DataRecord,
+} from '../../orm/data-transfer.js';
+import {
+  createBackendAdapter,
+  extractBackendRunTargetArgs,
+  parseArgs,
+  parseBackendRunJson,
+  type RunDeps,
+  resolveConfiguredBackend,
+  resolveRunDeps,
+  runBackendFunction,
+} from '../backend-core.js';
+import { logger } from '../utils/logger.js';
+
+const HELP_FLAGS = new Set(['--help', '-h']);
+const POSITIVE_INTEGER_RE = /^[1-9]\d*$/;
+const CSV_QUOTE_RE = /[",\r\n]/;
+const DEFAULT_BATCH_SIZE = 100;
+
+export const DATA_HELP_TEXT = `Usage: kitcn data <command> [options]
+
+Commands:
+  export <table...>        Write each table to <out>/<table>.<format>
+  import <table> <file>    Insert rows from a .jsonl or .csv export
+
+Options:
+  --format <f>             jsonl | csv (export default: jsonl; import: by extension)
+  --out <dir>              Export directory (default: current directory)
+  --batch-size <n>         Rows per export page / import mutation (default: 100)
+  --id-map <file>          JSON map of exported id -> imported id. Import reads
+                           it to remap id() columns and writes new ids back
+  --raw                    Insert with ctx.db: skip defaults, checks and triggers`;
+
+type DataCommandArgs = {
+  subcommand: string | undefined;
+  tables: string[];
+  file: string | undefined;
+  format: DataFormat | undefined;
+  out: string | undefined;
+  batchSize: number;
+  idMap: string | undefined;
+  raw: boolean;
+  remainingArgs: string[];
+};
+
+type BackendRunResult<T> = {
+  exitCode: number;
+  value: T | undefined;
+};
+
+const parseFormat = (value: string): DataFormat => {
+  if (!DATA_FORMATS.includes(value as DataFormat)) {
+    throw new Error(
+      `Invalid --format value '${value}'. Use ${DATA_FORMATS.join(', ')}.`
+    );
+  }
+  return value as DataFormat;
+};
+
+const parseBatchSize = (value: string) => {
+  if (!POSITIVE_INTEGER_RE.test(value)) {
+    throw new Error(
+      `Invalid --batch-size value '${value}'. Use a positive integer.`
+    );
+  }
+  return Number(value);
+};
+
+const VALUE_FLAGS = ['--format', '--out', '--batch-size', '--id-map'] as const;
+type ValueFlag = (typeof VALUE_FLAGS)[number];
+
+export const parseDataCommandArgs = (args: string[]): DataCommandArgs => {
+  const values: Partial<Record<ValueFlag, string>> = {};
+  let raw = false;
+  const positional: string[] = [];
+  const remainingArgs: string[] = [];
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i]!;
+    const flag = VALUE_FLAGS.find(
+      (name) => arg === name || arg.startsWith(`${name}=`)
+    );
+    if (flag) {
+      const value = arg === flag ? args[i + 1] : arg.slice(flag.length + 1);
+      if (!value) {
+        throw new Error(`Missing value for ${flag}.`);
+      }
+      values[flag] = value;
+      if (arg === flag) {
+        i += 1;
+      }
+      continue;
+    }
+    if (arg === '--raw') {
+      raw = true;
+      continue;
+    }
+    if (arg.startsWith('-')) {
+      // Target flags (--prod, --url <url>, ...) go to the backend run.
+      remainingArgs.push(arg);
+      const next = args[i + 1];
+      if (
+        arg !== '--prod' &&
+        !arg.includes('=') &&
+        next &&
+        !next.startsWith('-')
+      ) {
+        remainingArgs.push(next);
+        i += 1;
+      }
+      continue;
+    }
+    positional.push(arg);
+  }
+
+  const [subcommand, ...rest] = positional;
+  return {
+    subcommand,
+    tables: subcommand === 'import' ? rest.slice(0, 1) : rest,
+    file: subcommand === 'import' ? rest[1] : undefined,
+    format: values['--format'] ? parseFormat(values['--format']) : undefined,
+    out: values['--out'],
+    batchSize: values['--batch-size']
+      ? parseBatchSize(values['--batch-size'])
+      : DEFAULT_BATCH_SIZE,
+    idMap: values['--id-map'],
+    raw,
+    remainingArgs,
+  };
+};
+
+const toCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text =
+    typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return CSV_QUOTE_RE.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+};
+
+export const formatCsvRow = (values: unknown[]) =>
+  values.map((value) => toCsvCell(value)).join(',');
+
+/** Parse RFC 4180 CSV: quoted cells may hold commas, quotes and newlines. */
+export const parseCsv = (input: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i]!;
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i += 1;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new Error('Unterminated quoted CSV cell.');
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((value) => value !== ''));
+};
+
+export const parseDataFile = (
+  content: string,
+  format: DataFormat
+): DataRecord[] => {
+  if (format === 'jsonl') {
+    return content
+      .split('\n')
+      .map((line, index) => ({ line: line.trim(), index }))
+      .filter(({ line }) => line.length > 0)
+      .map(({ line, index }) => {
+        try {
+          return JSON.parse(line) as DataRecord;
+        } catch {
+          throw new Error(`Line ${index + 1} is not valid JSON.`);
+        }
+      });
+  }
+
+  const [header, ...rows] = parseCsv(content);
+  if (!header) {
+    return [];
+  }
+  return rows.map((cells) =>
+    Object.fromEntries(header.map((column, i) => [column, cells[i] ?? '']))
+  );
+};
+
+const inferFormat = (file: string): DataFormat =>
+  path.extname(file).toLowerCase() === '.csv' ? 'csv' : 'jsonl';
+
+/** Only send the id-map entries a chunk actually references. */
+const pickIdMap = (rows: DataRecord[], idMap: Record<string, string>) => {
+  const picked: Record<string, string> = {};
+  for (const row of rows) {
+    for (const value of Object.values(row)) {
+      if (typeof value === 'string' && idMap[value] !== undefined) {
+        picked[value] = idMap[value]!;
+      }
+    }
+  }
+  return picked;
+};
+
+const readIdMap = (filePath: string): Record<string, string> => {
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch {
+    throw new Error(`Invalid --id-map file: ${filePath} is not valid JSON.`);
+  }
+};
+
+export const handleDataCommand = async (
+  argv: string[],
+  deps: Partial<RunDeps> = {}
+) => {
+  const parsed = parseArgs(argv);
+  if (HELP_FLAGS.has(parsed.restArgs[0] ?? '')) {
+    logger.write(DATA_HELP_TEXT);
+    return 0;
+  }
+
+  const dataArgs = parseDataCommandArgs(parsed.restArgs);
+  if (dataArgs.subcommand !== 'export' && dataArgs.subcommand !== 'import') {
+    throw new Error(
+      'Unknown data command. Use: `kitcn data export <table...>` or `kitcn data import <table> <file>`.'
+    );
+  }
+  if (dataArgs.tables.length === 0) {
+    const usage =
+      dataArgs.subcommand === 'export'
+        ? 'export <table...>'
+        : 'import <table> <file>';
+    throw new Error(`Missing table. Usage: \`kitcn data ${usage}\`.`);
+  }
+
+  const {
+    execa: execaFn,
+    loadCliConfig: loadCliConfigFn,
+    realConvex: realConvexPath,
+    realConcave: realConcavePath,
+  } = resolveRunDeps(deps);
+  const config = loadCliConfigFn(parsed.configPath);
+  const backend = resolveConfiguredBackend({
+    backendArg: parsed.backend,
+    config,
+  });
+  const backendAdapter = createBackendAdapter({
+    backend,
+    realConvexPath,
+    realConcavePath,
+  });
+  const targetArgs = extractBackendRunTargetArgs(
+    backend,
+    dataArgs.remainingArgs
+  );
+
+  const run = async <T>(
+    functionName: string,
+    args: Record<string, unknown>
+  ): Promise<BackendRunResult<T>> => {
+    const result = await runBackendFunction(
+      execaFn,
+      backendAdapter,
+      functionName,
+      args,
+      targetArgs,
+      { echoOutput: false }
+    );
+    if (result.exitCode !== 0) {
+      logger.error(result.stderr.trim() || result.stdout.trim());
+      return { exitCode: result.exitCode, value: undefined };
+    }
+    return { exitCode: 0, value: parseBackendRunJson<T>(result.stdout) };
+  };
+
+  if (dataArgs.subcommand === 'export') {
+    const format = dataArgs.format ?? 'jsonl';
+    const outDir = path.resolve(process.cwd(), dataArgs.out ?? '.');
+    fs.mkdirSync(outDir, { recursive: true });
+
+    for (const table of dataArgs.tables) {
+      const lines: string[] = [];
+      let cursor: string | null = null;
+      let count = 0;
+      while (true) {
+        const { exitCode, value: page }: BackendRunResult<DataExportPage> =
+          await run<DataExportPage>('generated/server:dataExportPage', {
+            table,
+            cursor,
+            limit: dataArgs.batchSize,
+          });
+        if (!page) {
+          return exitCode;
+        }
+        if (format === 'csv' && lines.length === 0) {
+          lines.push(formatCsvRow(page.columns));
+        }
+        for (const row of page.rows) {
+          lines.push(
+            format === 'csv'
+              ? formatCsvRow(page.columns.map((column) => row[column]))
+              : JSON.stringify(row)
+          );
+        }
+        count += page.rows.length;
+        cursor = page.cursor;
+        if (page.isDone) {
+          break;
+        }
+      }
+      const filePath = path.join(outDir, `${table}.${format}`);
+      fs.writeFileSync(
+        filePath,
+        lines.length > 0 ? `${lines.join('\n')}\n` : ''
+      );
+      logger.success(
+        `Exported ${count} rows from ${table} to ${path.relative(process.cwd(), filePath)}`
+      );
+    }
+    return 0;
+  }
+
+  const [table] = dataArgs.tables as [string];
+  if (!dataArgs.file) {
+    throw new Error('Missing file. Usage: `kitcn data import <table> <file>`.');
+  }
+  const filePath = path.resolve(process.cwd(), dataArgs.file);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Data file not found: ${dataArgs.file}`);
+  }
+  const format = dataArgs.format ?? inferFormat(filePath);
+  const records = parseDataFile(fs.readFileSync(filePath, 'utf8'), format);
+  const idMapPath = dataArgs.idMap
+    ? path.resolve(process.cwd(), dataArgs.idMap)
+    : undefined;
+  const idMap = idMapPath ? readIdMap(idMapPath) : {};
+
+  let inserted = 0;
+  for (let offset = 0; offset < records.length; offset += dataArgs.batchSize) {
+    const rows = records.slice(offset, offset + dataArgs.batchSize);
+    const { exitCode, value: result } = await run<DataImportChunkResult>(
+      'generated/server:dataImportChunk',
+      {
+        table,
+        rows,
+        idMap: pickIdMap(rows, idMap),
+        strings: format === 'csv',
+        raw: dataArgs.raw,
+        offset,
+      }
+    );
+    if (!result) {
+      if (inserted > 0) {
+        logger.warn(`Stopped after ${inserted} rows were inserted.`);
+      }
+      return exitCode;
+    }
+    inserted += result.inserted;
+    Object.assign(idMap, result.ids);
+    if (idMapPath) {
+      // Persist per chunk so a failed import still maps the rows it wrote.
+      fs.writeFileSync(idMapPath, `${JSON.stringify(idMap, null, 2)}\n`);
+    }
+  }
+
+  logger.success(`Imported ${inserted} rows into ${table}`);
+  return 0;
+};
@@ -0,0 +1,116 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { DrizzleImportSchema } from '../drizzle-import';
+import { createDefaultConfig } from '../test-utils';
+import { handleImportCommand, parseImportCommandArgs } from './import';
+
+describe('cli/commands/import', () => {
+  const schema: DrizzleImportSchema = {
+    tables: [
+      {
+        key: 'users',
+        name: 'users',
+        columns: [
+          {
+            key: 'id',
+            columnType: 'PgSerial',
+            dataType: 'number',
+            notNull: true,
+            primary: true,
+            unique: false,
+          },
+          {
+            key: 'name',
+            columnType: 'PgText',
+            dataType: 'string',
+            notNull: true,
+            primary: false,
+            unique: false,
+          },
+        ],
+        primaryKeys: [],
+        indexes: [],
+        uniques: [],
+        foreignKeys: [],
+        checks: ['name_length'],
+      },
+    ],
+    relations: [],
+    skipped: [],
+  };
+
+  const setup = () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kitcn-import-'));
+    const schemaPath = path.join(dir, 'drizzle-schema.ts');
+    fs.writeFileSync(schemaPath, 'export {};\n');
+    const deps = {
+      loadCliConfig: mock(() => createDefaultConfig()) as any,
+      getConvexConfig: mock(() => ({
+        functionsDir: path.join(dir, 'convex'),
+      })) as any,
+      loadDrizzleSchema: mock(async () => schema),
+    };
+    return { dir, schemaPath, deps };
+  };
+
+  test('parseImportCommandArgs parses drizzle options', () => {
+    expect(
+      parseImportCommandArgs(['drizzle', 'db/schema.ts', '--out=x', '--force'])
+    ).toEqual({
+      source: 'drizzle',
+      schemaPath: 'db/schema.ts',
+      out: 'x',
+      force: true,
+    });
+    expect(() => parseImportCommandArgs(['drizzle', '--dry'])).toThrow(
+      'Unknown import flag "--dry".'
+    );
+  });
+
+  test('handleImportCommand writes convexTable files and the report', async () => {
+    const { dir, schemaPath, deps } = setup();
+    const lines: string[] = [];
+    const originalInfo = console.info;
+    const originalWarn = console.warn;
+    console.info = console.warn = (...args: unknown[]) => {
+      lines.push(args.map(String).join(' '));
+    };
+
+    try {
+      const exitCode = await handleImportCommand(
+        ['import', 'drizzle', schemaPath],
+        deps
+      );
+      expect(exitCode).toBe(0);
+    } finally {
+      console.info = originalInfo;
+      console.warn = originalWarn;
+    }
+
+    expect(deps.loadDrizzleSchema).toHaveBeenCalledWith(schemaPath);
+    const outDir = path.join(dir, 'convex', 'imported');
+    expect(fs.readdirSync(outDir).sort()).toEqual(['schema.ts', 'users.ts']);
+    expect(fs.readFileSync(path.join(outDir, 'users.ts'), 'utf8')).toContain(
+      '    name: text().notNull(),'
+    );
+    expect(lines.join('\n')).toContain(
+      "  - users: check constraint 'name_length' is SQL and is not imported; rewrite it with check()."
+    );
+
+    await expect(
+      handleImportCommand(['import', 'drizzle', schemaPath], deps)
+    ).rejects.toThrow('already exists. Pass --force to overwrite.');
+  });
+
+  test('handleImportCommand rejects a missing schema file', async () => {
+    const { dir, deps } = setup();
+
+    await expect(
+      handleImportCommand(
+        ['import', 'drizzle', path.join(dir, 'missing.ts')],
+        deps
+      )
+    ).rejects.toThrow('Drizzle schema not found:');
+  });
+});
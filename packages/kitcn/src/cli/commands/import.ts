@@ -0,0 +1,131 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs, type RunDeps, resolveRunDeps } from '../backend-core.js';
+import { convertDrizzleSchema } from '../drizzle-import.js';
+import { logger } from '../utils/logger.js';
+
+const HELP_FLAGS = new Set(['--help', '-h']);
+
+export const IMPORT_HELP_TEXT = `Usage: kitcn import drizzle <schema.ts> [options]
+
+Convert a Drizzle pgTable/mysqlTable schema into convexTable files.
+Other \`kitcn import\` arguments are forwarded to \`convex import\`.
+
+Options:
+  --out <dir>       Output directory (default: <functions dir>/imported)
+  --force           Overwrite existing files`;
+
+export const parseImportCommandArgs = (args: string[]) => {
+  let out: string | undefined;
+  let force = false;
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i]!;
+    if (arg === '--out') {
+      const value = args[i + 1];
+      if (!value) {
+        throw new Error('Missing value for --out.');
+      }
+      out = value;
+      i += 1;
+      continue;
+    }
+    if (arg.startsWith('--out=')) {
+      out = arg.slice('--out='.length);
+      continue;
+    }
+    if (arg === '--force') {
+      force = true;
+      continue;
+    }
+    if (arg.startsWith('-')) {
+      throw new Error(`Unknown import flag "${arg}".`);
+    }
+    positional.push(arg);
+  }
+
+  const [source, schemaPath] = positional;
+  return { source, schemaPath, out, force };
+};
+
+export const handleImportCommand = async (
+  argv: string[],
+  deps: Partial<RunDeps> = {}
+) => {
+  const parsed = parseArgs(argv);
+  if (HELP_FLAGS.has(parsed.restArgs[0] ?? '')) {
+    logger.write(IMPORT_HELP_TEXT);
+    return 0;
+  }
+
+  const importArgs = parseImportCommandArgs(parsed.restArgs);
+  if (importArgs.source !== 'drizzle') {
+    throw new Error(
+      'Unknown import source. Use: `kitcn import drizzle <schema.ts>`.'
+    );
+  }
+  if (!importArgs.schemaPath) {
+    throw new Error(
+      'Missing schema path. Usage: `kitcn import drizzle <schema.ts>`.'
+    );
+  }
+  const schemaPath = path.resolve(process.cwd(), importArgs.schemaPath);
+  if (!fs.existsSync(schemaPath)) {
+    throw new Error(`Drizzle schema not found: ${importArgs.schemaPath}`);
+  }
+
+  const {
+    getConvexConfig: getConvexConfigFn,
+    loadCliConfig: loadCliConfigFn,
+    loadDrizzleSchema: loadDrizzleSchemaFn,
+  } = resolveRunDeps(deps);
+  const config = loadCliConfigFn(parsed.configPath);
+  const sharedDir = parsed.sharedDir ?? config.paths.shared;
+  const { functionsDir } = getConvexConfigFn(sharedDir);
+  const outDir = path.resolve(
+    process.cwd(),
+    importArgs.out ?? path.join(functionsDir, 'imported')
+  );
+
+  const schema = await loadDrizzleSchemaFn(schemaPath);
+  if (schema.tables.length === 0) {
+    throw new Error(
+      `No pgTable or mysqlTable exports found in ${importArgs.schemaPath}.`
+    );
+  }
+  const { files, report } = convertDrizzleSchema(schema);
+
+  const displayPath = (filePath: string) =>
+    path.relative(process.cwd(), filePath) || '.';
+  if (!importArgs.force) {
+    for (const file of files) {
+      const filePath = path.join(outDir, file.path);
+      if (fs.existsSync(filePath)) {
+        throw new Error(
+          `${displayPath(filePath)} already exists. Pass --force to overwrite.`
+        );
+      }
+    }
+  }
+  fs.mkdirSync(outDir, { recursive: true });
+  for (const file of files) {
+    fs.writeFileSync(path.join(outDir, file.path), file.content);
+  }
+  logger.success(
+    `Imported ${schema.tables.length} tables into ${displayPath(outDir)}`
+  );
+
+  if (report.length > 0) {
+    logger.warn(`${report.length} constructs need manual attention:`);
+    logger.write(
+      report
+        .map(
+          (item) =>
+            `  - ${item.column ? `${item.table}.${item.column}` : item.table}: ${item.message}`
+        )
+        .join('\n')
+    );
+  }
+  return 0;
+};
@@ -1,6 +1,14 @@
 import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
+import {
+  convexTable,
+  createMigrationSchemaSnapshot,
+  defineSchema,
+  text,
+  textEnum,
+} from '../../orm';
+import { extractMigrationVerifyOptions } from '../backend-core';
 import {
   createDefaultConfig,
   writeMinimalSchema,
@@ -103,6 +111,202 @@ describe('cli/commands/migrate', () => {
     }
   });
 
+  test('handleMigrateCommand(generate) diffs the schema snapshot and scaffolds data migrations', async () => {
+    const tmpDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'kitcn-migrate-command-generate-')
+    );
+    writePackageJson(tmpDir);
+    let priority = textEnum(['low', 'medium', 'high']);
+    const loadSnapshotStub = mock(async () =>
+      createMigrationSchemaSnapshot(
+        defineSchema({
+          todos: convexTable('todos', { title: text().notNull(), priority }),
+        })
+      )
+    );
+
+    const loadConfigStub = mock(() => createDefaultConfig());
+    const getConvexConfigStub = mock(() => ({
+      functionsDir: path.join(tmpDir, 'convex'),
+      sharedDir: path.join(tmpDir, 'convex', 'shared'),
+    }));
+    const deps = {
+      realConvex: '/fake/convex/main.js',
+      execa: mock(async () => ({ exitCode: 0 }) as any) as any,
+      loadCliConfig: loadConfigStub as any,
+      getConvexConfig: getConvexConfigStub as any,
+      loadMigrationSchemaSnapshot: loadSnapshotStub as any,
+    };
+    const migrationsDir = path.join(tmpDir, 'convex', 'migrations');
+    const listMigrationFiles = () =>
+      fs
+        .readdirSync(migrationsDir)
+        .filter((file) => file.endsWith('.ts') && file !== 'manifest.ts');
+
+    expect(await handleMigrateCommand(['migrate', 'generate'], deps)).toBe(0);
+    expect(fs.existsSync(path.join(migrationsDir, 'snapshot.json'))).toBe(true);
+    expect(listMigrationFiles()).toEqual([]);
+    expect(
+      fs.readFileSync(path.join(migrationsDir, 'manifest.ts'), 'utf8')
+    ).toContain('schemaChecksum:');
+
+    priority = textEnum(['low', 'medium', 'high'])
+      .notNull()
+      .default('medium') as any;
+    expect(
+      await handleMigrateCommand(
+        ['migrate', 'generate', 'harden priority'],
+        deps
+      )
+    ).toBe(0);
+
+    const [migrationFile] = listMigrationFiles();
+    expect(migrationFile.endsWith('_harden_priority_todos.ts')).toBe(true);
+    const source = fs.readFileSync(
+      path.join(migrationsDir, migrationFile),
+      'utf8'
+    );
+    expect(source).toContain("table: 'todos'");
+    expect(source).toContain("patch.priority = 'medium';");
+    expect(source).not.toContain('down:');
+    expect(
+      fs.readFileSync(path.join(migrationsDir, 'manifest.ts'), 'utf8')
+    ).toContain(migrationFile.replace('.ts', ''));
+  });
+
+  test('extractMigrationVerifyOptions splits tables, verify flags and target flags', () => {
+    expect(
+      extractMigrationVerifyOptions([
+        'users',
+        '--prod',
+        'posts',
+        '--samples=2',
+        '--batch-size',
+        '50',
+        '--fix=repair',
+        '--deployment-name',
+        'demo',
+      ])
+    ).toEqual({
+      tables: ['users', 'posts'],
+      batchSize: 50,
+      sampleSize: 2,
+      fix: true,
+      fixName: 'repair',
+      remainingArgs: ['--prod', '--deployment-name', 'demo'],
+    });
+    expect(() => extractMigrationVerifyOptions(['--samples', '0'])).toThrow(
+      '--samples expects a positive integer.'
+    );
+  });
+
+  test('handleMigrateCommand(verify) pages every table and writes fix-up stubs', async () => {
+    const tmpDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'kitcn-migrate-command-verify-')
+    );
+    const calls: string[][] = [];
+    const chunks = [
+      {
+        table: 'posts',
+        scanned: 2,
+        violations: [
+          {
+            rule: 'foreign_key',
+            name: 'authorId -> users',
+            columns: ['authorId'],
+            foreignTable: 'users',
+            count: 1,
+            sampleIds: ['p1'],
+          },
+        ],
+        cursor: 'c1',
+        isDone: false,
+        nextTable: 'posts',
+      },
+      {
+        table: 'posts',
+        scanned: 1,
+        violations: [
+          {
+            rule: 'not_null',
+            name: 'title',
+            columns: ['title'],
+            count: 1,
+            sampleIds: ['p3'],
+          },
+        ],
+        cursor: null,
+        isDone: true,
+        nextTable: 'users',
+      },
+      {
+        table: 'users',
+        scanned: 4,
+        violations: [],
+        cursor: null,
+        isDone: true,
+        nextTable: null,
+      },
+    ];
+    const execaStub = mock(async (_cmd: string, args: string[]) => {
+      calls.push(args);
+      return {
+        exitCode: 0,
+        stdout: JSON.stringify(chunks[calls.length - 1]),
+        stderr: '',
+      } as any;
+    });
+
+    const exitCode = await handleMigrateCommand(
+      ['migrate', 'verify', '--batch-size', '2', '--fix'],
+      {
+        realConvex: '/fake/convex/main.js',
+        execa: execaStub as any,
+        loadCliConfig: mock(() => createDefaultConfig()) as any,
+        getConvexConfig: mock(() => ({
+          functionsDir: path.join(tmpDir, 'convex'),
+          sharedDir: path.join(tmpDir, 'convex', 'shared'),
+        })) as any,
+      }
+    );
+
+    expect(exitCode).toBe(1);
+    expect(calls.map((args) => args.slice(-2))).toEqual([
+      [
+        'generated/server:migrationVerifyChunk',
+        '{"cursor":null,"batchSize":2,"sampleSize":5}',
+      ],
+      [
+        'generated/server:migrationVerifyChunk',
+        '{"table":"posts","cursor":"c1","batchSize":2,"sampleSize":5}',
+      ],
+      [
+        'generated/server:migrationVerifyChunk',
+        '{"table":"users","cursor":null,"batchSize":2,"sampleSize":5}',
+      ],
+    ]);
+
+    const migrationsDir = path.join(tmpDir, 'convex', 'migrations');
+    const [migrationFile] = fs
+      .readdirSync(migrationsDir)
+      .filter((file) => file !== 'manifest.ts');
+    expect(migrationFile.endsWith('_fix_data_posts.ts')).toBe(true);
+    const source = fs.readFileSync(
+      path.join(migrationsDir, migrationFile),
+      'utf8'
+    );
+    expect(source).toContain("table: 'posts'");
+    expect(source).toContain(
+      "// authorId references a missing 'users' row in 1 row (e.g. p1)."
+    );
+    expect(source).toContain(
+      'if (doc.title === undefined || doc.title === null) {'
+    );
+    expect(
+      fs.readFileSync(path.join(migrationsDir, 'manifest.ts'), 'utf8')
+    ).toContain(migrationFile.replace('.ts', ''));
+  });
+
   test('handleMigrateCommand(up) uses concave run when backend is concave', async () => {
     const concaveCliPath = path.join(
       fs.mkdtempSync(path.join(os.tmpdir(), 'kitcn-concave-cli-')),
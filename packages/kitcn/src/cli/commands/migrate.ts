@@ -3,6 +3,7 @@ import {
   extractBackendRunTargetArgs,
   extractMigrationCliOptions,
   extractMigrationDownOptions,
+  extractMigrationVerifyOptions,
   getConvexDeploymentCommandEnv,
   parseArgs,
   type RunDeps,
@@ -12,24 +13,41 @@ import {
   runBackendFunction,
   runMigrationCreate,
   runMigrationFlow,
+  runMigrationGenerate,
+  runMigrationVerify,
 } from '../backend-core.js';
 import { logger } from '../utils/logger.js';
 
 const HELP_FLAGS = new Set(['--help', '-h']);
-const VALID_SUBCOMMANDS = new Set(['create', 'up', 'down', 'status', 'cancel']);
+const VALID_SUBCOMMANDS = new Set([
+  'create',
+  'generate',
+  'up',
+  'down',
+  'status',
+  'cancel',
+  'verify',
+]);
 
 export const MIGRATE_HELP_TEXT = `Usage: kitcn migrate <command> [options]
 
 Commands:
   create <name>     Create a migration file + manifest entry
+  generate [name]   Diff the schema snapshot and scaffold data migrations
   up                Apply pending migrations
   down              Roll back migrations
   status            Print runtime migration status
   cancel            Cancel an active migration run
+  verify [table...] Check stored rows against columns, checks and foreign keys
 
 Options:
   --list            List migrate subcommands
-  --yes, -y         Reserved for non-interactive parity`;
+  --yes, -y         Reserved for non-interactive parity
+
+Verify options:
+  --batch-size <n>  Rows per verify page (default: 128)
+  --samples <n>     Sample ids kept per violation (default: 5)
+  --fix[=<name>]    Write a fix-up migration stub per table with violations`;
 
 export const parseMigrateCommandArgs = (args: string[]) => {
   let list = false;
@@ -62,10 +80,12 @@ const printMigrationList = () => {
     [
       'Available migrate commands:',
       '  - create: scaffold a migration file and manifest entry',
+      '  - generate: scaffold data migrations from schema snapshot changes',
       '  - up: apply pending migrations',
       '  - down: roll back applied migrations',
       '  - status: print runtime status',
       '  - cancel: cancel an active run',
+      '  - verify: check stored rows against the current schema',
     ].join('\n')
   );
 };
@@ -90,7 +110,7 @@ export const handleMigrateCommand = async (
   }
   if (!VALID_SUBCOMMANDS.has(migrateArgs.subcommand)) {
     throw new Error(
-      'Unknown migrate command. Use: `kitcn migrate create|up|down|status|cancel`.'
+      'Unknown migrate command. Use: `kitcn migrate create|generate|up|down|status|cancel|verify`.'
     );
   }
 
@@ -98,6 +118,7 @@ export const handleMigrateCommand = async (
     execa: execaFn,
     getConvexConfig: getConvexConfigFn,
     loadCliConfig: loadCliConfigFn,
+    loadMigrationSchemaSnapshot: loadMigrationSchemaSnapshotFn,
     realConvex: realConvexPath,
     realConcave: realConcavePath,
   } = resolveRunDeps(deps);
@@ -130,6 +151,18 @@ export const handleMigrateCommand = async (
     return 0;
   }
 
+  if (migrateArgs.subcommand === 'generate') {
+    const rawName = migrateArgs.restArgs.join(' ').trim();
+    const sharedDir = parsed.sharedDir ?? config.paths.shared;
+    const { functionsDir } = getConvexConfigFn(sharedDir);
+    await runMigrationGenerate({
+      migrationName: rawName || undefined,
+      functionsDir,
+      loadSchemaSnapshot: loadMigrationSchemaSnapshotFn,
+    });
+    return 0;
+  }
+
   const { remainingArgs: migrationCommandArgs, overrides: migrationOverrides } =
     extractMigrationCliOptions(migrateArgs.restArgs);
   const migrationConfig = {
@@ -168,6 +201,30 @@ export const handleMigrateCommand = async (
     });
   }
 
+  if (migrateArgs.subcommand === 'verify') {
+    const { remainingArgs, tables, batchSize, sampleSize, fix, fixName } =
+      extractMigrationVerifyOptions(migrationCommandArgs);
+    const sharedDir = parsed.sharedDir ?? config.paths.shared;
+    return runMigrationVerify({
+      execaFn,
+      backendAdapter,
+      targetArgs: extractBackendRunTargetArgs(backend, [
+        ...config.deploy.args,
+        ...remainingArgs,
+      ]),
+      env: commandEnv,
+      tables,
+      batchSize,
+      sampleSize,
+      fix: fix
+        ? {
+            migrationName: fixName,
+            functionsDir: getConvexConfigFn(sharedDir).functionsDir,
+          }
+        : undefined,
+    });
+  }
+
   if (migrateArgs.subcommand === 'status') {
     const statusResult = await runBackendFunction(
       execaFn,
@@ -0,0 +1,79 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { convexTable, defineSchema, id, text } from '../../orm';
+import { createDefaultConfig } from '../test-utils';
+import { handleSchemaCommand, parseSchemaCommandArgs } from './schema';
+
+describe('cli/commands/schema', () => {
+  const users = convexTable('users', { name: text().notNull() });
+  const posts = convexTable('posts', {
+    authorId: id('users').references(() => users.id, { onDelete: 'cascade' }),
+  });
+  const schema = defineSchema({ users, posts });
+
+  const createDeps = () => ({
+    loadCliConfig: mock(() => createDefaultConfig()) as any,
+    getConvexConfig: mock(() => ({ functionsDir: '/fake/convex' })) as any,
+    loadProjectSchema: mock(async () => schema as any),
+  });
+
+  test('parseSchemaCommandArgs parses diagram options', () => {
+    expect(parseSchemaCommandArgs(['diagram'])).toEqual({
+      subcommand: 'diagram',
+      format: 'mermaid',
+      out: undefined,
+    });
+    expect(
+      parseSchemaCommandArgs(['diagram', '--format=dbml', '--out', 'x.dbml'])
+    ).toEqual({ subcommand: 'diagram', format: 'dbml', out: 'x.dbml' });
+    expect(() =>
+      parseSchemaCommandArgs(['diagram', '--format', 'svg'])
+    ).toThrow("Invalid --format value 'svg'. Use mermaid, dbml, json.");
+  });
+
+  test('handleSchemaCommand prints the diagram for the project schema', async () => {
+    const deps = createDeps();
+    const lines: string[] = [];
+    const originalInfo = console.info;
+    console.info = (...args: unknown[]) => {
+      lines.push(args.map(String).join(' '));
+    };
+
+    try {
+      const exitCode = await handleSchemaCommand(
+        ['schema', 'diagram', '--format', 'json'],
+        deps
+      );
+      expect(exitCode).toBe(0);
+    } finally {
+      console.info = originalInfo;
+    }
+
+    expect(deps.loadProjectSchema).toHaveBeenCalledWith('/fake/convex');
+    const diagram = JSON.parse(lines.join('\n'));
+    expect(diagram.tables.map((table: any) => table.name)).toEqual([
+      'posts',
+      'users',
+    ]);
+    expect(diagram.tables[0].foreignKeys[0].onDelete).toBe('cascade');
+  });
+
+  test('handleSchemaCommand(--out) writes the diagram file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kitcn-schema-'));
+    const outPath = path.join(dir, 'docs', 'schema.mmd');
+
+    const exitCode = await handleSchemaCommand(
+      ['schema', 'diagram', '--out', outPath],
+      createDeps()
+    );
+
+    expect(exitCode).toBe(0);
+    expect(fs.readFileSync(outPath, 'utf8')).toContain(
+      'posts }o--o| users : "authorId (on delete cascade)"'
+    );
+    await expect(
+      handleSchemaCommand(['schema', 'erd'], createDeps())
+    ).rejects.toThrow('Unknown schema command.');
+  });
+});
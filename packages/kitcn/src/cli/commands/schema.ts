@@ -0,0 +1,106 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+  renderSchemaDiagram,
+  SCHEMA_DIAGRAM_FORMATS,
+  type SchemaDiagramFormat,
+} from '../../orm/diagram.js';
+import { parseArgs, type RunDeps, resolveRunDeps } from '../backend-core.js';
+import { logger } from '../utils/logger.js';
+
+const HELP_FLAGS = new Set(['--help', '-h']);
+
+export const SCHEMA_HELP_TEXT = `Usage: kitcn schema <command> [options]
+
+Commands:
+  diagram           Print an ER diagram of convex/schema.ts
+
+Options:
+  --format <f>      mermaid | dbml | json (default: mermaid)
+  --out <file>      Write the diagram to a file instead of stdout`;
+
+const parseFormat = (value: string): SchemaDiagramFormat => {
+  if (!SCHEMA_DIAGRAM_FORMATS.includes(value as SchemaDiagramFormat)) {
+    throw new Error(
+      `Invalid --format value '${value}'. Use ${SCHEMA_DIAGRAM_FORMATS.join(', ')}.`
+    );
+  }
+  return value as SchemaDiagramFormat;
+};
+
+export const parseSchemaCommandArgs = (args: string[]) => {
+  let format: SchemaDiagramFormat = 'mermaid';
+  let out: string | undefined;
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i]!;
+    if (arg === '--format' || arg === '--out') {
+      const value = args[i + 1];
+      if (!value) {
+        throw new Error(`Missing value for ${arg}.`);
+      }
+      if (arg === '--format') {
+        format = parseFormat(value);
+      } else {
+        out = value;
+      }
+      i += 1;
+      continue;
+    }
+    if (arg.startsWith('--format=')) {
+      format = parseFormat(arg.slice('--format='.length));
+      continue;
+    }
+    if (arg.startsWith('--out=')) {
+      out = arg.slice('--out='.length);
+      continue;
+    }
+    if (arg.startsWith('-')) {
+      throw new Error(`Unknown schema flag "${arg}".`);
+    }
+    positional.push(arg);
+  }
+
+  const [subcommand] = positional;
+  return { subcommand, format, out };
+};
+
+export const handleSchemaCommand = async (
+  argv: string[],
+  deps: Partial<RunDeps> = {}
+) => {
+  const parsed = parseArgs(argv);
+  if (HELP_FLAGS.has(parsed.restArgs[0] ?? '')) {
+    logger.write(SCHEMA_HELP_TEXT);
+    return 0;
+  }
+
+  const schemaArgs = parseSchemaCommandArgs(parsed.restArgs);
+  if (schemaArgs.subcommand !== 'diagram') {
+    throw new Error(
+      'Unknown schema command. Use: `kitcn schema diagram [--format mermaid|dbml|json]`.'
+    );
+  }
+
+  const {
+    getConvexConfig: getConvexConfigFn,
+    loadCliConfig: loadCliConfigFn,
+    loadProjectSchema: loadProjectSchemaFn,
+  } = resolveRunDeps(deps);
+  const config = loadCliConfigFn(parsed.configPath);
+  const sharedDir = parsed.sharedDir ?? config.paths.shared;
+  const { functionsDir } = getConvexConfigFn(sharedDir);
+  const schema = await loadProjectSchemaFn(functionsDir);
+  const output = renderSchemaDiagram(schema, schemaArgs.format);
+
+  if (!schemaArgs.out) {
+    logger.write(output.trimEnd());
+    return 0;
+  }
+  const outPath = path.resolve(process.cwd(), schemaArgs.out);
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, output);
+  logger.success(`Wrote ${schemaArgs.format} diagram to ${schemaArgs.out}`);
+  return 0;
+};
@@ -0,0 +1,64 @@
+import { createDefaultConfig } from '../test-utils';
+import { handleSeedCommand, parseSeedCommandArgs } from './seed';
+
+describe('cli/commands/seed', () => {
+  const createRunStub = (calls: string[][]) =>
+    mock(async (_cmd: string, args: string[]) => {
+      calls.push(args);
+      if (args.includes('generated/server:aggregateBackfillStatus')) {
+        return { exitCode: 0, stdout: '[]\n', stderr: '' } as any;
+      }
+      return { exitCode: 0, stdout: '{"status":"ok"}\n', stderr: '' } as any;
+    });
+
+  test('parseSeedCommandArgs parses --reset and --seed', () => {
+    expect(parseSeedCommandArgs(['--reset', '--seed', '42'])).toEqual({
+      reset: true,
+      seed: 42,
+      remainingArgs: [],
+    });
+    expect(parseSeedCommandArgs(['--seed=7', '--url', 'x'])).toEqual({
+      reset: false,
+      seed: 7,
+      remainingArgs: ['--url', 'x'],
+    });
+    expect(() => parseSeedCommandArgs(['--seed', 'abc'])).toThrow(
+      "Invalid --seed value 'abc'. Use an integer."
+    );
+    expect(() => parseSeedCommandArgs(['--prod'])).toThrow(
+      '`kitcn seed` only targets the local deployment. Remove --prod.'
+    );
+  });
+
+  test('handleSeedCommand runs seedRun with the seed number', async () => {
+    const calls: string[][] = [];
+    const exitCode = await handleSeedCommand(['seed', '--seed', '3'], {
+      realConvex: '/fake/convex/main.js',
+      execa: createRunStub(calls) as any,
+      loadCliConfig: mock(() => createDefaultConfig()) as any,
+    });
+
+    expect(exitCode).toBe(0);
+    expect(calls.map((args) => args.slice(-2))).toEqual([
+      ['generated/server:seedRun', '{"seed":3}'],
+    ]);
+  });
+
+  test('handleSeedCommand(--reset) resets, seeds, then resumes backfill', async () => {
+    const calls: string[][] = [];
+    const exitCode = await handleSeedCommand(['seed', '--reset'], {
+      realConvex: '/fake/convex/main.js',
+      execa: createRunStub(calls) as any,
+      loadCliConfig: mock(() => createDefaultConfig()) as any,
+    });
+
+    expect(exitCode).toBe(0);
+    expect(calls.map((args) => args.at(-2))).toEqual([
+      'generated/server:reset',
+      'generated/server:seedRun',
+      'generated/server:aggregateBackfill',
+      'generated/server:aggregateBackfillStatus',
+    ]);
+    expect(calls[1]?.at(-1)).toBe('{}');
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  createBackendAdapter,
+  extractBackendRunTargetArgs,
+  parseArgs,
+  type RunDeps,
+  resolveConfiguredBackend,
+  resolveRunDeps,
+  runAggregateBackfillFlow,
+  runBackendFunction,
+} from '../backend-core.js';
+import { logger } from '../utils/logger.js';
+
+const HELP_FLAGS = new Set(['--help', '-h']);
+const SEED_NUMBER_RE = /^-?\d+$/;
+
+export const SEED_HELP_TEXT = `Usage: kitcn seed [options]
+
+Run the defineSeed() export from convex/seed.ts against the local deployment.
+
+Options:
+  --reset           Wipe every table (kitcn reset) before seeding
+  --seed <n>        Seed number for deterministic values (default: 1)`;
+
+const parseSeedNumber = (value: string) => {
+  if (!SEED_NUMBER_RE.test(value)) {
+    throw new Error(`Invalid --seed value '${value}'. Use an integer.`);
+  }
+  return Number(value);
+};
+
+export const parseSeedCommandArgs = (args: string[]) => {
+  let reset = false;
+  let seed: number | undefined;
+  const remainingArgs: string[] = [];
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i]!;
+    if (arg === '--reset') {
+      reset = true;
+      continue;
+    }
+    if (arg === '--seed') {
+      const value = args[i + 1];
+      if (!value) {
+        throw new Error('Missing value for --seed.');
+      }
+      seed = parseSeedNumber(value);
+      i += 1;
+      continue;
+    }
+    if (arg.startsWith('--seed=')) {
+      seed = parseSeedNumber(arg.slice('--seed='.length));
+      continue;
+    }
+    if (arg === '--prod') {
+      throw new Error(
+        '`kitcn seed` only targets the local deployment. Remove --prod.'
+      );
+    }
+    remainingArgs.push(arg);
+  }
+
+  return { reset, seed, remainingArgs };
+};
+
+export const handleSeedCommand = async (
+  argv: string[],
+  deps: Partial<RunDeps> = {}
+) => {
+  const parsed = parseArgs(argv);
+  if (HELP_FLAGS.has(parsed.restArgs[0] ?? '')) {
+    logger.write(SEED_HELP_TEXT);
+    return 0;
+  }
+
+  const seedArgs = parseSeedCommandArgs(parsed.restArgs);
+  const {
+    execa: execaFn,
+    loadCliConfig: loadCliConfigFn,
+    realConvex: realConvexPath,
+    realConcave: realConcavePath,
+  } = resolveRunDeps(deps);
+  const config = loadCliConfigFn(parsed.configPath);
+  const backend = resolveConfiguredBackend({
+    backendArg: parsed.backend,
+    config,
+  });
+  const backendAdapter = createBackendAdapter({
+    backend,
+    realConvexPath,
+    realConcavePath,
+  });
+  const targetArgs = extractBackendRunTargetArgs(
+    backend,
+    seedArgs.remainingArgs
+  );
+
+  if (seedArgs.reset) {
+    const resetResult = await runBackendFunction(
+      execaFn,
+      backendAdapter,
+      'generated/server:reset',
+      {},
+      targetArgs
+    );
+    if (resetResult.exitCode !== 0) {
+      return resetResult.exitCode;
+    }
+  }
+
+  const seedResult = await runBackendFunction(
+    execaFn,
+    backendAdapter,
+    'generated/server:seedRun',
+    seedArgs.seed === undefined ? {} : { seed: seedArgs.seed },
+    targetArgs
+  );
+  if (seedResult.exitCode !== 0 || !seedArgs.reset) {
+    return seedResult.exitCode;
+  }
+
+  // reset clears aggregate index state; rebuild it over the seeded rows.
+  return runAggregateBackfillFlow({
+    execaFn,
+    backendAdapter,
+    backfillConfig: {
+      enabled: 'on',
+      wait: true,
+      batchSize: 1000,
+      pollIntervalMs: 1000,
+      timeoutMs: 900_000,
+      strict: false,
+    },
+    mode: 'resume',
+    targetArgs,
+    context: 'aggregate',
+  });
+};
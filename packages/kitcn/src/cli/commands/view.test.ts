@@ -9,6 +9,7 @@ import {
 import {
   handleViewCommand,
   parseViewCommandArgs,
+  parseViewRebuildArgs,
   VIEW_HELP_TEXT,
 } from './view';
 
@@ -84,4 +85,38 @@ describe('cli/commands/view', () => {
       console.info = originalInfo;
     }
   });
+
+  test('parseViewRebuildArgs parses the view name and --batch-size', () => {
+    expect(parseViewRebuildArgs(['feedItems', '--batch-size', '50'])).toEqual({
+      view: 'feedItems',
+      batchSize: 50,
+      remainingArgs: [],
+    });
+    expect(parseViewRebuildArgs(['--prod', '--batch-size=10'])).toEqual({
+      view: undefined,
+      batchSize: 10,
+      remainingArgs: ['--prod'],
+    });
+    expect(() => parseViewRebuildArgs(['--batch-size', '0'])).toThrow(
+      "Invalid --batch-size value '0'. Use a positive integer."
+    );
+  });
+
+  test('handleViewCommand(rebuild) runs viewRebuild', async () => {
+    const calls: string[][] = [];
+    const execaStub = mock(async (_cmd: string, args: string[]) => {
+      calls.push(args);
+      return { exitCode: 0, stdout: '{"status":"ok"}\n', stderr: '' } as any;
+    });
+    const exitCode = await handleViewCommand(['view', 'rebuild', 'feedItems'], {
+      realConvex: '/fake/convex/main.js',
+      execa: execaStub as any,
+      loadCliConfig: mock(() => createDefaultConfig()) as any,
+    });
+
+    expect(exitCode).toBe(0);
+    expect(calls.map((args) => args.slice(-2))).toEqual([
+      ['generated/server:viewRebuild', '{"view":"feedItems"}'],
+    ]);
+  });
 });
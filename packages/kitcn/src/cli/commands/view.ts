@@ -1,4 +1,12 @@
-import { parseArgs, type RunDeps, resolveRunDeps } from '../backend-core.js';
+import {
+  createBackendAdapter,
+  extractBackendRunTargetArgs,
+  parseArgs,
+  type RunDeps,
+  resolveConfiguredBackend,
+  resolveRunDeps,
+  runBackendFunction,
+} from '../backend-core.js';
 import {
   getPluginCatalogEntry,
   getSupportedPluginKeys,
@@ -27,12 +35,97 @@ import { logger } from '../utils/logger.js';
 import { createSpinner } from '../utils/spinner.js';
 
 const HELP_FLAGS = new Set(['--help', '-h']);
+const BATCH_SIZE_RE = /^\d+$/;
 
 export const VIEW_HELP_TEXT = `Usage: kitcn view [plugin] [options]
+       kitcn view rebuild [view] [options]
 
 Options:
   --json            Machine-readable command output
-  --preset, -p      Plugin preset override`;
+  --preset, -p      Plugin preset override
+
+Rebuild options:
+  --batch-size <n>  Source rows per viewRebuildChunk mutation (default: 100)`;
+
+const parseBatchSize = (value: string) => {
+  if (!BATCH_SIZE_RE.test(value) || Number(value) < 1) {
+    throw new Error(
+      `Invalid --batch-size value '${value}'. Use a positive integer.`
+    );
+  }
+  return Number(value);
+};
+
+export const parseViewRebuildArgs = (args: string[]) => {
+  let view: string | undefined;
+  let batchSize: number | undefined;
+  const remainingArgs: string[] = [];
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i]!;
+    if (arg === '--batch-size') {
+      const value = args[i + 1];
+      if (!value) {
+        throw new Error('Missing value for --batch-size.');
+      }
+      batchSize = parseBatchSize(value);
+      i += 1;
+      continue;
+    }
+    if (arg.startsWith('--batch-size=')) {
+      batchSize = parseBatchSize(arg.slice('--batch-size='.length));
+      continue;
+    }
+    if (i === 0 && !arg.startsWith('-')) {
+      view = arg;
+      continue;
+    }
+    remainingArgs.push(arg);
+  }
+
+  return { view, batchSize, remainingArgs };
+};
+
+const handleViewRebuildCommand = async (
+  parsed: ReturnType<typeof parseArgs>,
+  deps: Partial<RunDeps>
+) => {
+  const rebuildArgs = parseViewRebuildArgs(parsed.restArgs.slice(1));
+  const {
+    execa: execaFn,
+    loadCliConfig: loadCliConfigFn,
+    realConvex: realConvexPath,
+    realConcave: realConcavePath,
+  } = resolveRunDeps(deps);
+  const config = loadCliConfigFn(parsed.configPath);
+  const backend = resolveConfiguredBackend({
+    backendArg: parsed.backend,
+    config,
+  });
+  const backendAdapter = createBackendAdapter({
+    backend,
+    realConvexPath,
+    realConcavePath,
+  });
+  const targetArgs = extractBackendRunTargetArgs(
+    backend,
+    rebuildArgs.remainingArgs
+  );
+
+  const result = await runBackendFunction(
+    execaFn,
+    backendAdapter,
+    'generated/server:viewRebuild',
+    {
+      ...(rebuildArgs.view === undefined ? {} : { view: rebuildArgs.view }),
+      ...(rebuildArgs.batchSize === undefined
+        ? {}
+        : { batchSize: rebuildArgs.batchSize }),
+    },
+    targetArgs
+  );
+  return result.exitCode;
+};
 
 export const parseViewCommandArgs = (args: string[]) => {
   const first = args[0];
@@ -95,6 +188,9 @@ export const handleViewCommand = async (
     logger.write(VIEW_HELP_TEXT);
     return 0;
   }
+  if (parsed.restArgs[0] === 'rebuild') {
+    return handleViewRebuildCommand(parsed, deps);
+  }
 
   const viewArgs = parseViewCommandArgs(parsed.restArgs);
   const {
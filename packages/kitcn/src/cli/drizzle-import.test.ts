@@ -0,0 +1,232 @@
+import {
+  convertDrizzleSchema,
+  type DrizzleImportColumn,
+  type DrizzleImportSchema,
+  type DrizzleImportTable,
+} from './drizzle-import';
+
+const column = (
+  key: string,
+  columnType: string,
+  overrides: Partial<DrizzleImportColumn> = {}
+): DrizzleImportColumn => ({
+  key,
+  columnType,
+  dataType: 'string',
+  notNull: false,
+  primary: false,
+  unique: false,
+  ...overrides,
+});
+
+const table = (
+  key: string,
+  columns: DrizzleImportColumn[],
+  overrides: Partial<DrizzleImportTable> = {}
+): DrizzleImportTable => ({
+  key,
+  name: key,
+  columns,
+  primaryKeys: [],
+  indexes: [],
+  uniques: [],
+  foreignKeys: [],
+  checks: [],
+  ...overrides,
+});
+
+const schema: DrizzleImportSchema = {
+  tables: [
+    table('users', [
+      column('id', 'PgSerial', { dataType: 'number', primary: true }),
+      column('name', 'PgVarchar', { notNull: true }),
+      column('email', 'PgText', { notNull: true, unique: true }),
+      column('role', 'PgEnumColumn', {
+        notNull: true,
+        enumValues: ['admin', 'member'],
+        default: { kind: 'value', value: 'member' },
+      }),
+      column('joinedAt', 'PgTimestamp', {
+        dataType: 'date',
+        default: { kind: 'sql', sql: 'now()' },
+      }),
+    ]),
+    table(
+      'posts',
+      [
+        column('id', 'PgSerial', { dataType: 'number', primary: true }),
+        column('authorId', 'PgInteger', { dataType: 'number', notNull: true }),
+        column('price', 'PgNumeric', { scale: 2 }),
+        column('meta', 'PgJsonb', { dataType: 'json' }),
+        column('tags', 'PgArray', {
+          dataType: 'array',
+          baseColumn: column('tags', 'PgText'),
+        }),
+        column('slug', 'PgText', {
+          default: { kind: 'sql', sql: 'gen_random_uuid()' },
+        }),
+      ],
+      {
+        name: 'blog_posts',
+        indexes: [
+          { name: 'posts_slug_idx', columns: ['slug'], unique: true },
+          { name: 'posts_lower_slug_idx', columns: [null], unique: false },
+        ],
+        foreignKeys: [
+          {
+            columns: ['authorId'],
+            foreignTable: 'users',
+            foreignColumns: ['id'],
+            onDelete: 'cascade',
+          },
+        ],
+        checks: ['price_positive'],
+      }
+    ),
+    table(
+      'comments',
+      [
+        column('id', 'PgUUID', { primary: true }),
+        column('parentId', 'PgUUID'),
+        column('postSlug', 'PgText', { notNull: true }),
+      ],
+      {
+        foreignKeys: [
+          {
+            columns: ['parentId'],
+            foreignTable: 'comments',
+            foreignColumns: ['id'],
+          },
+          {
+            columns: ['postSlug'],
+            foreignTable: 'posts',
+            foreignColumns: ['slug'],
+            onDelete: 'set null',
+          },
+        ],
+      }
+    ),
+  ],
+  relations: [
+    {
+      table: 'users',
+      name: 'posts',
+      kind: 'many',
+      target: 'posts',
+      fields: [],
+      references: [],
+    },
+    {
+      table: 'posts',
+      name: 'author',
+      kind: 'one',
+      target: 'users',
+      fields: ['authorId'],
+      references: ['id'],
+    },
+  ],
+  skipped: [{ key: 'activeUsers', reason: 'views are not imported.' }],
+};
+
+describe('convertDrizzleSchema', () => {
+  const result = convertDrizzleSchema(schema);
+  const file = (name: string) =>
+    result.files.find((candidate) => candidate.path === name)?.content;
+
+  test('emits one convexTable file per table', () => {
+    expect(result.files.map((candidate) => candidate.path)).toEqual([
+      'comments.ts',
+      'posts.ts',
+      'users.ts',
+      'schema.ts',
+    ]);
+    expect(
+      file('users.ts')
+    ).toBe(`import { convexTable, text, textEnum, timestamp } from 'kitcn/orm';
+
+export const users = convexTable(
+  'users',
+  {
+    name: text().notNull(),
+    email: text().notNull().unique(),
+    role: textEnum(['admin', 'member']).notNull().default('member'),
+    joinedAt: timestamp().defaultNow(),
+  }
+);
+`);
+    expect(
+      file('posts.ts')
+    ).toBe(`import { arrayOf, convexTable, decimal, id, index, json, text, uniqueIndex } from 'kitcn/orm';
+import { users } from './users';
+
+export const posts = convexTable(
+  'blog_posts',
+  {
+    authorId: id('users').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    price: decimal({ scale: 2 }),
+    meta: json(),
+    tags: arrayOf(text().notNull()),
+    slug: text(),
+  },
+  (t) => [
+    uniqueIndex('posts_slug_idx').on(t.slug),
+    index('blog_posts_authorId_idx').on(t.authorId),
+  ]
+);
+`);
+  });
+
+  test('maps foreign keys to ids, references, and foreignKey()', () => {
+    expect(
+      file('comments.ts')
+    ).toBe(`import { type AnyColumn, convexTable, foreignKey, id, index, text } from 'kitcn/orm';
+import { posts } from './posts';
+
+export const comments = convexTable(
+  'comments',
+  {
+    parentId: id('comments').references((): AnyColumn => comments.id),
+    postSlug: text().notNull(),
+  },
+  (t) => [
+    foreignKey({ columns: [t.postSlug], foreignColumns: [posts.slug] }).onDelete('set null'),
+    index('comments_parentId_idx').on(t.parentId),
+    index('comments_postSlug_idx').on(t.postSlug),
+  ]
+);
+`);
+  });
+
+  test('translates relations() into defineRelations', () => {
+    expect(file('schema.ts')).toBe(`import { defineSchema } from 'kitcn/orm';
+import { comments } from './comments';
+import { posts } from './posts';
+import { users } from './users';
+
+export const tables = { comments, posts, users };
+
+export default defineSchema(tables).relations((r) => ({
+  posts: {
+    author: r.one.users({ from: r.posts.authorId, to: r.users.id }),
+  },
+  users: {
+    posts: r.many.posts(),
+  },
+}));
+`);
+  });
+
+  test('reports constructs that need manual attention', () => {
+    expect(
+      result.report.map(({ table, column, message }) =>
+        column ? `${table}.${column}: ${message}` : `${table}: ${message}`
+      )
+    ).toEqual([
+      'activeUsers: views are not imported.',
+      'comments.id: PgUUID primary key replaced by the Convex document id; keep the old value in another column if other systems reference it.',
+      'posts.slug: SQL default `gen_random_uuid()` is not imported.',
+      "posts: index 'posts_lower_slug_idx' uses SQL expressions and is not imported.",
+      "posts: check constraint 'price_positive' is SQL and is not imported; rewrite it with check().",
+    ]);
+  });
+});
@@ -0,0 +1,886 @@
+/**
+ * `kitcn import drizzle` - Drizzle pgTable/mysqlTable schemas to convexTable files.
+ *
+ * loadDrizzleSchema() reads a Drizzle schema module with the project's own
+ * drizzle-orm and normalizes it to plain data. convertDrizzleSchema() turns
+ * that data into one convexTable file per table plus a schema.ts with
+ * defineRelations, and reports what it could not translate.
+ */
+
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { createProjectJiti } from './utils/project-jiti.js';
+
+export type DrizzleImportDefault =
+  | { kind: 'value'; value: unknown }
+  | { kind: 'sql'; sql: string }
+  | { kind: 'fn' };
+
+export type DrizzleImportColumn = {
+  key: string;
+  /** Drizzle column class, e.g. `PgVarchar`, `MySqlInt` */
+  columnType: string;
+  /** Drizzle data type, e.g. `string`, `number`, `json` */
+  dataType: string;
+  notNull: boolean;
+  primary: boolean;
+  unique: boolean;
+  default?: DrizzleImportDefault;
+  onUpdate?: boolean;
+  enumValues?: string[];
+  scale?: number;
+  dimensions?: number;
+  /** Element column of array columns */
+  baseColumn?: DrizzleImportColumn;
+};
+
+export type DrizzleImportIndex = {
+  name: string;
+  /** Column keys; `null` for SQL expressions */
+  columns: (string | null)[];
+  unique: boolean;
+  where?: boolean;
+  using?: string;
+};
+
+export type DrizzleImportForeignKey = {
+  name?: string;
+  columns: string[];
+  foreignTable: string;
+  foreignColumns: string[];
+  onDelete?: string;
+  onUpdate?: string;
+};
+
+export type DrizzleImportTable = {
+  /** Export name */
+  key: string;
+  /** SQL table name */
+  name: string;
+  columns: DrizzleImportColumn[];
+  primaryKeys: string[][];
+  indexes: DrizzleImportIndex[];
+  uniques: { name?: string; columns: string[] }[];
+  foreignKeys: DrizzleImportForeignKey[];
+  checks: string[];
+};
+
+export type DrizzleImportRelation = {
+  table: string;
+  name: string;
+  kind: 'one' | 'many';
+  target: string;
+  fields: string[];
+  references: string[];
+  relationName?: string;
+};
+
+export type DrizzleImportSchema = {
+  tables: DrizzleImportTable[];
+  relations: DrizzleImportRelation[];
+  skipped: { key: string; reason: string }[];
+};
+
+export type DrizzleImportReportItem = {
+  table: string;
+  column?: string;
+  message: string;
+};
+
+export type DrizzleImportResult = {
+  files: { path: string; content: string }[];
+  report: DrizzleImportReportItem[];
+};
+
+const TS_IDENTIFIER_RE = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+const BUILDER_CALL_RE = /(?<![.\w])([a-zA-Z]+)\(/g;
+const TYPE_IMPORT_RE = /^type /;
+const SQL_NOW_RE = /^\(?\s*(now\(\)|current_timestamp|current_date)\s*\)?$/i;
+const SQL_RANDOM_UUID_RE =
+  /^\(?\s*(gen_random_uuid|uuid_generate_v4)\(\)\s*\)?$/i;
+const MAX_DECIMAL_SCALE = 18;
+const SERIAL_COLUMN_TYPES = new Set([
+  'PgSerial',
+  'PgSmallSerial',
+  'PgBigSerial53',
+  'PgBigSerial64',
+  'MySqlSerial',
+]);
+const NUMBER_COLUMN_TYPES = new Set([
+  'PgInteger',
+  'PgSmallInt',
+  'PgBigInt53',
+  'PgReal',
+  'PgDoublePrecision',
+  'MySqlInt',
+  'MySqlTinyInt',
+  'MySqlSmallInt',
+  'MySqlMediumInt',
+  'MySqlBigInt53',
+  'MySqlFloat',
+  'MySqlDouble',
+  'MySqlReal',
+  'MySqlYear',
+]);
+const TEXT_COLUMN_TYPES = new Set([
+  'PgText',
+  'PgVarchar',
+  'PgChar',
+  'PgCidr',
+  'PgInet',
+  'PgMacaddr',
+  'PgMacaddr8',
+  'PgInterval',
+  'PgTime',
+  'MySqlText',
+  'MySqlVarChar',
+  'MySqlChar',
+  'MySqlTime',
+]);
+const DATA_TYPE_BUILDERS: Record<string, string> = {
+  string: 'text()',
+  number: 'integer()',
+  bigint: 'bigint()',
+  boolean: 'boolean()',
+  date: 'timestamp()',
+  json: 'json()',
+  buffer: 'bytes()',
+};
+
+const tsKey = (key: string) => (TS_IDENTIFIER_RE.test(key) ? key : `'${key}'`);
+
+const tsAccess = (target: string, key: string) =>
+  TS_IDENTIFIER_RE.test(key) ? `${target}.${key}` : `${target}['${key}']`;
+
+const tsString = (value: string) =>
+  `'${value.replaceAll('\\', '\\\\').replaceAll("'", "\\'")}'`;
+
+function tsLiteral(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return tsString(value);
+  }
+  if (typeof value === 'bigint') {
+    return `${value}n`;
+  }
+  if (
+    value === null ||
+    typeof value === 'boolean' ||
+    (typeof value === 'number' && Number.isFinite(value))
+  ) {
+    return String(value);
+  }
+  if (
+    Array.isArray(value) ||
+    (value && Object.getPrototypeOf(value) === Object.prototype)
+  ) {
+    return JSON.stringify(value);
+  }
+  return;
+}
+
+const tsColumns = (target: string, keys: readonly string[]) =>
+  keys.map((key) => tsAccess(target, key)).join(', ');
+
+type TableContext = {
+  table: DrizzleImportTable;
+  /** Single-column primary key, replaced by the Convex document id */
+  primaryKey?: string;
+  /** Column key -> referenced table key, for columns that hold document ids */
+  idColumns: Map<string, string>;
+};
+
+/**
+ * Translate a normalized Drizzle schema into convexTable source files.
+ *
+ * Single-column primary keys become the built-in `id`, and columns that
+ * reference them become `id('<table>')`. Foreign key columns get an index
+ * when the Drizzle table has none, since kitcn resolves cascades and `many()`
+ * relations through indexes.
+ */
+export function convertDrizzleSchema(
+  schema: DrizzleImportSchema
+): DrizzleImportResult {
+  const report: DrizzleImportReportItem[] = schema.skipped.map((skipped) => ({
+    table: skipped.key,
+    message: skipped.reason,
+  }));
+  const tables = [...schema.tables].sort((a, b) => a.key.localeCompare(b.key));
+  const contexts = new Map<string, TableContext>();
+
+  for (const table of tables) {
+    const primaryColumns = table.columns.filter((column) => column.primary);
+    const singlePrimaryKey =
+      primaryColumns.length === 1
+        ? primaryColumns[0]!.key
+        : table.primaryKeys.length === 1 && table.primaryKeys[0]!.length === 1
+          ? table.primaryKeys[0]![0]
+          : undefined;
+    contexts.set(table.key, {
+      table,
+      primaryKey: singlePrimaryKey,
+      idColumns: new Map(),
+    });
+  }
+
+  const toField = (tableKey: string, key: string) =>
+    contexts.get(tableKey)?.primaryKey === key ? 'id' : key;
+  const pointsAtPrimaryKey = (target: string, columns: readonly string[]) =>
+    columns.length === 1 && contexts.get(target)?.primaryKey === columns[0];
+
+  for (const context of contexts.values()) {
+    for (const foreignKey of context.table.foreignKeys) {
+      if (
+        foreignKey.columns.length === 1 &&
+        pointsAtPrimaryKey(foreignKey.foreignTable, foreignKey.foreignColumns)
+      ) {
+        context.idColumns.set(foreignKey.columns[0]!, foreignKey.foreignTable);
+      }
+    }
+  }
+  for (const relation of schema.relations) {
+    const context = contexts.get(relation.table);
+    if (
+      context &&
+      relation.kind === 'one' &&
+      relation.fields.length === 1 &&
+      pointsAtPrimaryKey(relation.target, relation.references)
+    ) {
+      context.idColumns.set(relation.fields[0]!, relation.target);
+    }
+  }
+
+  const files = tables.map((table) => ({
+    path: `${table.key}.ts`,
+    content: renderTableFile(
+      contexts.get(table.key)!,
+      contexts,
+      toField,
+      report
+    ),
+  }));
+  files.push({
+    path: 'schema.ts',
+    content: renderSchemaFile(
+      tables,
+      schema.relations,
+      contexts,
+      toField,
+      report
+    ),
+  });
+
+  return { files, report };
+}
+
+function mapColumnBuilder(
+  column: DrizzleImportColumn,
+  tableKey: string,
+  report: DrizzleImportReportItem[]
+): string {
+  const note = (message: string) =>
+    report.push({ table: tableKey, column: column.key, message });
+  const { columnType } = column;
+
+  if (column.enumValues && column.enumValues.length > 0) {
+    return `textEnum([${column.enumValues.map(tsString).join(', ')}])`;
+  }
+  if (SERIAL_COLUMN_TYPES.has(columnType)) {
+    note(
+      'serial columns have no sequence in Convex; imported as integer(), assign values in app code.'
+    );
+    return 'integer()';
+  }
+  if (NUMBER_COLUMN_TYPES.has(columnType)) {
+    return 'integer()';
+  }
+  if (TEXT_COLUMN_TYPES.has(columnType)) {
+    return 'text()';
+  }
+  switch (columnType) {
+    case 'PgBigInt64':
+    case 'MySqlBigInt64':
+      return 'bigint()';
+    case 'PgNumeric':
+    case 'MySqlDecimal':
+      if (column.scale && column.scale > MAX_DECIMAL_SCALE) {
+        note(
+          `numeric with scale ${column.scale} imported as bigint(); store values scaled by 10^${column.scale}.`
+        );
+        return 'bigint()';
+      }
+      return column.scale ? `decimal({ scale: ${column.scale} })` : 'bigint()';
+    case 'PgUUID':
+      return 'uuid()';
+    case 'PgBoolean':
+    case 'MySqlBoolean':
+      return 'boolean()';
+    case 'PgTimestamp':
+    case 'MySqlTimestamp':
+    case 'MySqlDateTime':
+      return 'timestamp()';
+    case 'PgTimestampString':
+    case 'MySqlTimestampString':
+    case 'MySqlDateTimeString':
+      return "timestamp({ mode: 'string' })";
+    case 'PgDate':
+    case 'MySqlDate':
+      return "date({ mode: 'date' })";
+    case 'PgDateString':
+    case 'MySqlDateString':
+      return 'date()';
+    case 'PgJson':
+    case 'PgJsonb':
+    case 'MySqlJson':
+      return 'json()';
+    case 'PgVector':
+      return `vector(${column.dimensions ?? 0})`;
+    case 'MySqlBinary':
+    case 'MySqlVarBinary':
+      return 'bytes()';
+    case 'PgArray':
+      if (column.baseColumn) {
+        return `arrayOf(${mapColumnBuilder(column.baseColumn, tableKey, report)}.notNull())`;
+      }
+      break;
+    default:
+      break;
+  }
+
+  const fallback = DATA_TYPE_BUILDERS[column.dataType] ?? 'json()';
+  note(`${columnType} has no kitcn builder; imported as ${fallback}.`);
+  return fallback;
+}
+
+function renderDefault(
+  column: DrizzleImportColumn,
+  builder: string,
+  tableKey: string,
+  report: DrizzleImportReportItem[]
+): string {
+  const note = (message: string) =>
+    report.push({ table: tableKey, column: column.key, message });
+  const chain: string[] = [];
+
+  if (column.default?.kind === 'value') {
+    const literal = tsLiteral(column.default.value);
+    if (literal === undefined) {
+      note('default value is not a literal; port it by hand.');
+    } else {
+      chain.push(`.default(${literal})`);
+    }
+  }
+  if (column.default?.kind === 'sql') {
+    const isTime =
+      builder.startsWith('timestamp(') || builder.startsWith('date(');
+    if (isTime && SQL_NOW_RE.test(column.default.sql.trim())) {
+      chain.push('.defaultNow()');
+    } else if (
+      builder === 'uuid()' &&
+      SQL_RANDOM_UUID_RE.test(column.default.sql.trim())
+    ) {
+      chain.push('.defaultRandom()');
+    } else {
+      note(`SQL default \`${column.default.sql}\` is not imported.`);
+    }
+  }
+  if (column.default?.kind === 'fn') {
+    note('$defaultFn() is not imported; port it to .$defaultFn().');
+  }
+  if (column.onUpdate) {
+    note('$onUpdate() is not imported; port it to .$onUpdate().');
+  }
+  return chain.join('');
+}
+
+function renderTableFile(
+  context: TableContext,
+  contexts: Map<string, TableContext>,
+  toField: (tableKey: string, key: string) => string,
+  report: DrizzleImportReportItem[]
+): string {
+  const { table, primaryKey, idColumns } = context;
+  const imports = new Set<string>(['convexTable']);
+  const tableImports = new Set<string>();
+  const note = (message: string, column?: string) =>
+    report.push({ table: table.key, ...(column ? { column } : {}), message });
+  const importBuilder = (expr: string) => {
+    for (const match of expr.matchAll(BUILDER_CALL_RE)) {
+      imports.add(match[1]!);
+    }
+  };
+  const tableRef = (key: string) => {
+    if (key !== table.key) {
+      tableImports.add(key);
+    }
+    return key;
+  };
+
+  const columnLines: string[] = [];
+  for (const column of table.columns) {
+    if (column.key === primaryKey) {
+      if (!SERIAL_COLUMN_TYPES.has(column.columnType)) {
+        note(
+          `${column.columnType} primary key replaced by the Convex document id; keep the old value in another column if other systems reference it.`,
+          column.key
+        );
+      }
+      continue;
+    }
+    if (column.key === 'id' || column.key === 'createdAt') {
+      note(
+        `'${column.key}' is a kitcn system field; rename this column.`,
+        column.key
+      );
+    }
+
+    const idTarget = idColumns.get(column.key);
+    const builder = idTarget
+      ? `id(${tsString(contexts.get(idTarget)!.table.name)})`
+      : mapColumnBuilder(column, table.key, report);
+    let expr = builder;
+    if (column.notNull) {
+      expr += '.notNull()';
+    }
+    if (column.unique) {
+      expr += '.unique()';
+    }
+    expr += renderDefault(column, builder, table.key, report);
+
+    const inlineForeignKey = idTarget
+      ? table.foreignKeys.find(
+          (foreignKey) =>
+            foreignKey.columns.length === 1 &&
+            foreignKey.columns[0] === column.key &&
+            foreignKey.foreignTable === idTarget
+        )
+      : undefined;
+    if (inlineForeignKey) {
+      const actions = [
+        inlineForeignKey.onDelete
+          ? `onDelete: ${tsString(inlineForeignKey.onDelete)}`
+          : undefined,
+        inlineForeignKey.onUpdate
+          ? `onUpdate: ${tsString(inlineForeignKey.onUpdate)}`
+          : undefined,
+      ].filter(Boolean);
+      const selfReference = idTarget === table.key;
+      if (selfReference) {
+        imports.add('type AnyColumn');
+      }
+      expr += `.references(${selfReference ? '(): AnyColumn' : '()'} => ${tableRef(idTarget!)}.id${actions.length > 0 ? `, { ${actions.join(', ')} }` : ''})`;
+    }
+    importBuilder(builder);
+    columnLines.push(`    ${tsKey(column.key)}: ${expr},`);
+  }
+
+  const extraLines: string[] = [];
+  const indexed: string[][] = [];
+  const field = (key: string) => toField(table.key, key);
+  for (const column of table.columns) {
+    if (column.unique && column.key !== primaryKey) {
+      indexed.push([column.key]);
+    }
+  }
+
+  for (const index of table.indexes) {
+    if (index.columns.some((column) => column === null)) {
+      note(`index '${index.name}' uses SQL expressions and is not imported.`);
+      continue;
+    }
+    const columns = (index.columns as string[]).map(field);
+    if (columns.includes('id')) {
+      note(
+        `index '${index.name}' covers the primary key, which kitcn indexes implicitly; not imported.`
+      );
+      continue;
+    }
+    if (index.where) {
+      note(`partial index '${index.name}' imported without its WHERE clause.`);
+    }
+    if (index.using) {
+      note(
+        `index '${index.name}' used \`${index.using}\`; imported as a regular index. Consider searchIndex() or vectorIndex().`
+      );
+    }
+    const helper = index.unique ? 'uniqueIndex' : 'index';
+    imports.add(helper);
+    indexed.push(columns);
+    extraLines.push(
+      `${helper}(${tsString(index.name)}).on(${tsColumns('t', columns)})`
+    );
+  }
+
+  for (const unique of table.uniques) {
+    const columns = unique.columns.map(field);
+    imports.add('unique');
+    indexed.push(columns);
+    extraLines.push(
+      `unique(${unique.name ? tsString(unique.name) : ''}).on(${tsColumns('t', columns)})`
+    );
+  }
+
+  for (const primaryKeyColumns of table.primaryKeys) {
+    if (primaryKeyColumns.length < 2) {
+      continue;
+    }
+    imports.add('unique');
+    indexed.push(primaryKeyColumns);
+    extraLines.push(
+      `unique(${tsString(`${table.name}_pk`)}).on(${tsColumns('t', primaryKeyColumns)})`
+    );
+    note(
+      `composite primary key (${primaryKeyColumns.join(', ')}) imported as a unique constraint.`
+    );
+  }
+
+  const referencingColumns: string[][] = [];
+  for (const foreignKey of table.foreignKeys) {
+    const inline =
+      foreignKey.columns.length === 1 &&
+      idColumns.get(foreignKey.columns[0]!) === foreignKey.foreignTable;
+    referencingColumns.push(foreignKey.columns);
+    if (inline) {
+      continue;
+    }
+    const target = tableRef(foreignKey.foreignTable);
+    const config = [
+      foreignKey.name ? `name: ${tsString(foreignKey.name)}` : undefined,
+      `columns: [${tsColumns('t', foreignKey.columns.map(field))}]`,
+      `foreignColumns: [${tsColumns(
+        target,
+        foreignKey.foreignColumns.map((key) =>
+          toField(foreignKey.foreignTable, key)
+        )
+      )}]`,
+    ].filter(Boolean);
+    imports.add('foreignKey');
+    extraLines.push(
+      `foreignKey({ ${config.join(', ')} })${foreignKey.onDelete ? `.onDelete(${tsString(foreignKey.onDelete)})` : ''}${foreignKey.onUpdate ? `.onUpdate(${tsString(foreignKey.onUpdate)})` : ''}`
+    );
+  }
+  for (const [columnKey] of idColumns) {
+    referencingColumns.push([columnKey]);
+  }
+
+  for (const columns of referencingColumns) {
+    const covered = indexed.some((fields) =>
+      columns.every((column, position) => fields[position] === column)
+    );
+    if (covered) {
+      continue;
+    }
+    imports.add('index');
+    indexed.push(columns);
+    extraLines.push(
+      `index(${tsString(`${table.name}_${columns.join('_')}_idx`)}).on(${tsColumns('t', columns)})`
+    );
+  }
+
+  for (const checkName of table.checks) {
+    note(
+      `check constraint '${checkName}' is SQL and is not imported; rewrite it with check().`
+    );
+  }
+
+  const lines = [
+    `import { ${[...imports].sort(compareImportNames).join(', ')} } from 'kitcn/orm';`,
+    ...[...tableImports]
+      .sort()
+      .map((key) => `import { ${key} } from './${key}';`),
+    '',
+    `export const ${table.key} = convexTable(`,
+    `  ${tsString(table.name)},`,
+    '  {',
+    ...columnLines,
+    extraLines.length > 0 ? '  },' : '  }',
+  ];
+  if (extraLines.length > 0) {
+    lines.push(
+      '  (t) => [',
+      ...extraLines.map((line) => `    ${line},`),
+      '  ]'
+    );
+  }
+  lines.push(');');
+  return `${lines.join('\n')}\n`;
+}
+
+const compareImportNames = (a: string, b: string) =>
+  a.replace(TYPE_IMPORT_RE, '').localeCompare(b.replace(TYPE_IMPORT_RE, ''));
+
+function renderSchemaFile(
+  tables: DrizzleImportTable[],
+  relations: DrizzleImportRelation[],
+  contexts: Map<string, TableContext>,
+  toField: (tableKey: string, key: string) => string,
+  report: DrizzleImportReportItem[]
+): string {
+  const lines = [
+    "import { defineSchema } from 'kitcn/orm';",
+    ...tables.map((table) => `import { ${table.key} } from './${table.key}';`),
+    '',
+    `export const tables = { ${tables.map((table) => table.key).join(', ')} };`,
+    '',
+  ];
+
+  const relationLines: string[] = [];
+  for (const table of tables) {
+    const entries: string[] = [];
+    for (const relation of relations.filter(
+      (candidate) => candidate.table === table.key
+    )) {
+      if (!contexts.has(relation.target)) {
+        report.push({
+          table: table.key,
+          message: `relation '${relation.name}' targets '${relation.target}', which was not imported.`,
+        });
+        continue;
+      }
+      const config: string[] = [];
+      if (relation.fields.length > 0) {
+        const columns = (tableKey: string, keys: readonly string[]) => {
+          const refs = keys.map((key) =>
+            tsAccess(`r.${tableKey}`, toField(tableKey, key))
+          );
+          return refs.length === 1 ? refs[0] : `[${refs.join(', ')}]`;
+        };
+        config.push(
+          `from: ${columns(relation.table, relation.fields)}`,
+          `to: ${columns(relation.target, relation.references)}`
+        );
+      }
+      if (relation.relationName) {
+        config.push(`alias: ${tsString(relation.relationName)}`);
+      }
+      entries.push(
+        `    ${tsKey(relation.name)}: r.${relation.kind}.${relation.target}(${config.length > 0 ? `{ ${config.join(', ')} }` : ''}),`
+      );
+    }
+    if (entries.length > 0) {
+      relationLines.push(`  ${table.key}: {`, ...entries, '  },');
+    }
+  }
+
+  if (relationLines.length === 0) {
+    lines.push('export default defineSchema(tables);');
+  } else {
+    lines.push(
+      'export default defineSchema(tables).relations((r) => ({',
+      ...relationLines,
+      '}));'
+    );
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+type DrizzleModule = Record<string, any>;
+
+function sqlText(value: any): string {
+  const chunks: unknown[] = Array.isArray(value?.queryChunks)
+    ? value.queryChunks
+    : [];
+  return chunks
+    .map((chunk: any) =>
+      Array.isArray(chunk?.value)
+        ? chunk.value.join('')
+        : typeof chunk === 'string'
+          ? chunk
+          : '?'
+    )
+    .join('');
+}
+
+function normalizeColumn(
+  drizzle: DrizzleModule,
+  key: string,
+  column: any
+): DrizzleImportColumn {
+  let defaultValue: DrizzleImportDefault | undefined;
+  if (column.defaultFn) {
+    defaultValue = { kind: 'fn' };
+  } else if (column.hasDefault && column.default !== undefined) {
+    defaultValue = drizzle.is(column.default, drizzle.SQL)
+      ? { kind: 'sql', sql: sqlText(column.default) }
+      : { kind: 'value', value: column.default };
+  }
+
+  return {
+    key,
+    columnType: String(column.columnType),
+    dataType: String(column.dataType),
+    notNull: column.notNull === true,
+    primary: column.primary === true,
+    unique: column.isUnique === true,
+    ...(defaultValue ? { default: defaultValue } : {}),
+    ...(column.onUpdateFn ? { onUpdate: true } : {}),
+    ...(Array.isArray(column.enumValues) && column.enumValues.length > 0
+      ? { enumValues: column.enumValues.map(String) }
+      : {}),
+    ...(typeof column.scale === 'number' ? { scale: column.scale } : {}),
+    ...(typeof column.dimensions === 'number'
+      ? { dimensions: column.dimensions }
+      : {}),
+    ...(column.baseColumn
+      ? { baseColumn: normalizeColumn(drizzle, key, column.baseColumn) }
+      : {}),
+  };
+}
+
+/**
+ * Load a Drizzle schema module and normalize its tables and `relations()`.
+ *
+ * drizzle-orm is resolved from `cwd`, so the project being migrated must
+ * still have it installed.
+ */
+export async function loadDrizzleSchema(
+  schemaPath: string,
+  cwd = process.cwd()
+): Promise<DrizzleImportSchema> {
+  const jiti = createProjectJiti(cwd);
+  const projectRequire = createRequire(path.join(cwd, 'package.json'));
+  const loadDrizzle = async (specifier: string) => {
+    let resolved: string;
+    try {
+      resolved = projectRequire.resolve(specifier);
+    } catch {
+      throw new Error(
+        `Could not resolve ${specifier} from ${cwd}. Install drizzle-orm in the project you import from.`
+      );
+    }
+    return (await jiti.import(resolved)) as DrizzleModule;
+  };
+  const drizzle = await loadDrizzle('drizzle-orm');
+  const dialects = [
+    { core: await loadDrizzle('drizzle-orm/pg-core'), tableClass: 'PgTable' },
+    {
+      core: await loadDrizzle('drizzle-orm/mysql-core'),
+      tableClass: 'MySqlTable',
+    },
+  ];
+  const schemaModule = (await jiti.import(
+    path.resolve(cwd, schemaPath)
+  )) as DrizzleModule;
+
+  const skipped: DrizzleImportSchema['skipped'] = [];
+  const tableKeys = new Map<unknown, string>();
+  const tableDialects = new Map<unknown, DrizzleModule>();
+  const relationExports: any[] = [];
+  for (const [key, value] of Object.entries(schemaModule)) {
+    if (!value || (typeof value !== 'object' && typeof value !== 'function')) {
+      continue;
+    }
+    if (drizzle.is(value, drizzle.Relations)) {
+      relationExports.push(value);
+      continue;
+    }
+    if (drizzle.is(value, drizzle.View)) {
+      skipped.push({ key, reason: 'views are not imported.' });
+      continue;
+    }
+    if (!drizzle.is(value, drizzle.Table)) {
+      continue;
+    }
+    const dialect = dialects.find(({ core, tableClass }) =>
+      drizzle.is(value, core[tableClass])
+    );
+    if (!dialect) {
+      skipped.push({
+        key,
+        reason: 'only pgTable and mysqlTable tables are imported.',
+      });
+      continue;
+    }
+    tableKeys.set(value, key);
+    tableDialects.set(value, dialect.core);
+  }
+
+  const columnKey = (table: unknown, column: unknown) => {
+    for (const [key, candidate] of Object.entries(
+      drizzle.getTableColumns(table)
+    )) {
+      if (candidate === column) {
+        return key;
+      }
+    }
+    return (column as { name: string }).name;
+  };
+  const tableKey = (table: unknown) =>
+    tableKeys.get(table) ?? String(drizzle.getTableName(table));
+
+  const tables: DrizzleImportTable[] = [];
+  for (const [table, key] of tableKeys) {
+    const config = tableDialects.get(table)!.getTableConfig(table);
+    tables.push({
+      key,
+      name: config.name,
+      columns: Object.entries(drizzle.getTableColumns(table)).map(
+        ([columnName, column]) => normalizeColumn(drizzle, columnName, column)
+      ),
+      primaryKeys: config.primaryKeys.map((primaryKey: any) =>
+        primaryKey.columns.map((column: unknown) => columnKey(table, column))
+      ),
+      indexes: config.indexes.map((index: any) => {
+        const using = index.config.method ?? index.config.using;
+        return {
+          name: index.config.name,
+          columns: index.config.columns.map((column: unknown) =>
+            drizzle.is(column, drizzle.Column) ? columnKey(table, column) : null
+          ),
+          unique: index.config.unique === true,
+          ...(index.config.where ? { where: true } : {}),
+          ...(using && using !== 'btree' ? { using: String(using) } : {}),
+        };
+      }),
+      uniques: config.uniqueConstraints.map((unique: any) => ({
+        ...(unique.name ? { name: unique.name } : {}),
+        columns: unique.columns.map((column: unknown) =>
+          columnKey(table, column)
+        ),
+      })),
+      foreignKeys: config.foreignKeys.map((foreignKey: any) => {
+        const reference = foreignKey.reference();
+        return {
+          ...(reference.name ? { name: reference.name } : {}),
+          columns: reference.columns.map((column: unknown) =>
+            columnKey(table, column)
+          ),
+          foreignTable: tableKey(reference.foreignTable),
+          foreignColumns: reference.foreignColumns.map((column: unknown) =>
+            columnKey(reference.foreignTable, column)
+          ),
+          ...(foreignKey.onDelete ? { onDelete: foreignKey.onDelete } : {}),
+          ...(foreignKey.onUpdate ? { onUpdate: foreignKey.onUpdate } : {}),
+        };
+      }),
+      checks: config.checks.map((check: any) => String(check.name)),
+    });
+  }
+
+  const relations: DrizzleImportRelation[] = [];
+  for (const relationExport of relationExports) {
+    const source = relationExport.table;
+    const config = relationExport.config(
+      drizzle.createTableRelationsHelpers(source)
+    ) as Record<string, any>;
+    for (const [name, relation] of Object.entries(config)) {
+      const target = relation.referencedTable;
+      relations.push({
+        table: tableKey(source),
+        name,
+        kind: drizzle.is(relation, drizzle.One) ? 'one' : 'many',
+        target: tableKey(target),
+        fields: (relation.config?.fields ?? []).map((column: unknown) =>
+          columnKey(source, column)
+        ),
+        references: (relation.config?.references ?? []).map((column: unknown) =>
+          columnKey(target, column)
+        ),
+        ...(relation.relationName
+          ? { relationName: relation.relationName }
+          : {}),
+      });
+    }
+  }
+
+  return { tables, relations, skipped };
+}
@@ -89,7 +89,25 @@ describe('cli/registry', () => {
     expect(descriptor.packageInstallSpec).toBe('@kitcn/resend');
   });
 
+  test('maps webhooks registry item onto the kitcn package', () => {
+    const descriptor = getPluginCatalogEntry('webhooks');
+
+    expect(descriptor.packageName).toBe('kitcn');
+    expect(descriptor.schemaRegistration.importName).toBe('webhooksExtension');
+    expect(descriptor.templates.map((template) => template.id)).toEqual([
+      'webhooks-schema',
+      'webhooks-functions',
+      'webhooks-plugin',
+      'webhooks-crons',
+    ]);
+  });
+
   test('keeps supported plugin keys in registry order', () => {
-    expect(getSupportedPluginKeys()).toEqual(['auth', 'resend', 'ratelimit']);
+    expect(getSupportedPluginKeys()).toEqual([
+      'auth',
+      'resend',
+      'ratelimit',
+      'webhooks',
+    ]);
   });
 });
@@ -2,6 +2,7 @@ import { getPackageNameFromInstallSpec } from '../supported-dependencies.js';
 import { authRegistryItem } from './items/auth/auth-item.js';
 import { ratelimitRegistryItem } from './items/ratelimit/ratelimit-item.js';
 import { resendRegistryItem } from './items/resend/resend-item.js';
+import { webhooksRegistryItem } from './items/webhooks/webhooks-item.js';
 import {
   type InternalPluginRegistry,
   type InternalPluginRegistryFile,
@@ -17,7 +18,12 @@ import {
 const INTERNAL_PLUGIN_REGISTRY = {
   name: 'kitcn',
   homepage: 'https://kitcn.vercel.app',
-  items: [authRegistryItem, resendRegistryItem, ratelimitRegistryItem],
+  items: [
+    authRegistryItem,
+    resendRegistryItem,
+    ratelimitRegistryItem,
+    webhooksRegistryItem,
+  ],
 } as const satisfies InternalPluginRegistry;
 
 function toPluginScaffoldTemplate(
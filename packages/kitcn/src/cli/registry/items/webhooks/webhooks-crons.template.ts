@@ -0,0 +1,16 @@
+const FUNCTIONS_DIR_IMPORT_PLACEHOLDER = '__KITCN_FUNCTIONS_DIR__';
+
+export const WEBHOOKS_CRONS_TEMPLATE = `import { cronJobs } from "convex/server";
+import { internal } from "${FUNCTIONS_DIR_IMPORT_PLACEHOLDER}/_generated/api";
+
+const crons = cronJobs();
+
+crons.interval(
+  "cleanup webhook plugin deliveries",
+  { hours: 1 },
+  internal.plugins.webhooks.cleanupOldDeliveries,
+  {},
+);
+
+export default crons;
+`;
@@ -0,0 +1,284 @@
+const FUNCTIONS_DIR_IMPORT_PLACEHOLDER = '__KITCN_FUNCTIONS_DIR__';
+const PROJECT_CRPC_IMPORT_PLACEHOLDER = '__KITCN_PROJECT_CRPC_IMPORT__';
+const PLUGIN_CONFIG_IMPORT_PLACEHOLDER = '__KITCN_PLUGIN_CONFIG_IMPORT__';
+const PLUGIN_SCHEMA_IMPORT_PLACEHOLDER = '__KITCN_PLUGIN_SCHEMA_IMPORT__';
+
+export const WEBHOOKS_FUNCTIONS_TEMPLATE = `import { eq, inArray } from 'kitcn/orm';
+import {
+  createWebhookSecret,
+  recordWebhookAttempt,
+  replayWebhookDelivery,
+  sendWebhook,
+  startWebhookDelivery,
+} from 'kitcn/webhooks';
+import { z } from 'zod';
+import { privateAction, privateMutation, privateQuery } from '${PROJECT_CRPC_IMPORT_PLACEHOLDER}';
+import { webhooks } from '${PLUGIN_CONFIG_IMPORT_PLACEHOLDER}';
+import {
+  webhookDeliveryAttemptTable,
+  webhookDeliveryTable,
+  webhookEndpointTable,
+  webhookSubscriptionTable,
+} from '${PLUGIN_SCHEMA_IMPORT_PLACEHOLDER}';
+import { createWebhooksCaller } from '${FUNCTIONS_DIR_IMPORT_PLACEHOLDER}/generated/plugins/webhooks.runtime';
+
+const BATCH_SIZE = 100;
+const FINISHED_DELIVERY_RETENTION_MS = 1000 * 60 * 60 * 24 * 30;
+
+const attemptResultSchema = z.object({
+  ok: z.boolean(),
+  statusCode: z.number().nullable(),
+  error: z.string().nullable(),
+  responseBody: z.string().nullable(),
+  durationMs: z.number(),
+});
+
+export const createEndpoint = privateMutation
+  .use(webhooks.middleware())
+  .input(
+    z.object({
+      url: z.string().url(),
+      // Use '*' to receive every event.
+      eventTypes: z.array(z.string()).min(1),
+      description: z.string().optional(),
+    })
+  )
+  .mutation(async ({ ctx, input }) => {
+    const secret = createWebhookSecret();
+    const [endpoint] = await ctx.orm
+      .insert(webhookEndpointTable)
+      .values({
+        url: input.url,
+        secret,
+        description: input.description,
+        status: 'enabled',
+        failureCount: 0,
+      })
+      .returning();
+
+    for (const eventType of new Set(input.eventTypes)) {
+      await ctx.orm
+        .insert(webhookSubscriptionTable)
+        .values({ endpointId: endpoint.id, eventType });
+    }
+
+    // Show the secret to the endpoint owner once; receivers verify with it.
+    return { id: endpoint.id, secret };
+  });
+
+export const setEndpointEventTypes = privateMutation
+  .use(webhooks.middleware())
+  .input(
+    z.object({
+      endpointId: z.string(),
+      eventTypes: z.array(z.string()).min(1),
+    })
+  )
+  .mutation(async ({ ctx, input }) => {
+    await ctx.orm
+      .delete(webhookSubscriptionTable)
+      .where(eq(webhookSubscriptionTable.endpointId, input.endpointId));
+
+    for (const eventType of new Set(input.eventTypes)) {
+      await ctx.orm
+        .insert(webhookSubscriptionTable)
+        .values({ endpointId: input.endpointId, eventType });
+    }
+
+    return null;
+  });
+
+export const setEndpointStatus = privateMutation
+  .use(webhooks.middleware())
+  .input(
+    z.object({
+      endpointId: z.string(),
+      status: z.enum(['enabled', 'disabled']),
+    })
+  )
+  .mutation(async ({ ctx, input }) => {
+    await ctx.orm
+      .update(webhookEndpointTable)
+      .set(
+        input.status === 'enabled'
+          ? {
+              status: 'enabled',
+              failureCount: 0,
+              disabledAt: null,
+              disabledReason: null,
+            }
+          : {
+              status: 'disabled',
+              disabledAt: Date.now(),
+              disabledReason: 'Disabled manually.',
+            }
+      )
+      .where(eq(webhookEndpointTable.id, input.endpointId));
+
+    return null;
+  });
+
+export const deleteEndpoint = privateMutation
+  .use(webhooks.middleware())
+  .input(z.object({ endpointId: z.string() }))
+  .mutation(async ({ ctx, input }) => {
+    await ctx.orm
+      .delete(webhookSubscriptionTable)
+      .where(eq(webhookSubscriptionTable.endpointId, input.endpointId));
+    await ctx.orm
+      .delete(webhookEndpointTable)
+      .where(eq(webhookEndpointTable.id, input.endpointId));
+
+    // Deliveries and their attempts are removed in batches.
+    const caller = createWebhooksCaller(ctx);
+    await caller.schedule.now.deleteEndpointDeliveries({
+      endpointId: input.endpointId,
+    });
+
+    return null;
+  });
+
+export const deleteEndpointDeliveries = privateMutation
+  .use(webhooks.middleware())
+  .input(z.object({ endpointId: z.string() }))
+  .mutation(async ({ ctx, input }) => {
+    const batch = await ctx.orm.query.webhookDelivery.findMany({
+      where: { endpointId: input.endpointId },
+      limit: BATCH_SIZE,
+      columns: { id: true },
+    });
+    const deliveryIds = batch.map((delivery) => delivery.id);
+
+    if (deliveryIds.length > 0) {
+      await ctx.orm
+        .delete(webhookDeliveryAttemptTable)
+        .where(inArray(webhookDeliveryAttemptTable.deliveryId, deliveryIds));
+      await ctx.orm
+        .delete(webhookDeliveryTable)
+        .where(inArray(webhookDeliveryTable.id, deliveryIds));
+    }
+
+    if (deliveryIds.length === BATCH_SIZE) {
+      const caller = createWebhooksCaller(ctx);
+      await caller.schedule.now.deleteEndpointDeliveries(input);
+    }
+
+    return null;
+  });
+
+export const listDeliveries = privateQuery
+  .use(webhooks.middleware())
+  .input(
+    z.object({
+      endpointId: z.string(),
+      limit: z.number().optional(),
+    })
+  )
+  .query(async ({ ctx, input }) => {
+    return await ctx.orm.query.webhookDelivery.findMany({
+      where: { endpointId: input.endpointId },
+      orderBy: { createdAt: 'desc' },
+      limit: input.limit ?? 50,
+    });
+  });
+
+export const listDeliveryAttempts = privateQuery
+  .use(webhooks.middleware())
+  .input(
+    z.object({
+      deliveryId: z.string(),
+      limit: z.number().optional(),
+    })
+  )
+  .query(async ({ ctx, input }) => {
+    return await ctx.orm.query.webhookDeliveryAttempt.findMany({
+      where: { deliveryId: input.deliveryId },
+      orderBy: { attempt: 'desc' },
+      limit: input.limit ?? 50,
+    });
+  });
+
+export const replayDelivery = privateMutation
+  .use(webhooks.middleware())
+  .input(z.object({ deliveryId: z.string() }))
+  .mutation(async ({ ctx, input }) => {
+    await replayWebhookDelivery(ctx, ctx.api.webhooks, input.deliveryId);
+    return null;
+  });
+
+export const startDelivery = privateMutation
+  .use(webhooks.middleware())
+  .input(z.object({ deliveryId: z.string() }))
+  .mutation(async ({ ctx, input }) => {
+    return await startWebhookDelivery(ctx, input.deliveryId);
+  });
+
+export const recordAttempt = privateMutation
+  .use(webhooks.middleware())
+  .input(
+    z.object({
+      deliveryId: z.string(),
+      attempt: z.number(),
+      result: attemptResultSchema,
+    })
+  )
+  .mutation(async ({ ctx, input }) => {
+    return await recordWebhookAttempt(ctx, ctx.api.webhooks, input);
+  });
+
+export const deliver = privateAction
+  .use(webhooks.middleware())
+  .input(z.object({ deliveryId: z.string() }))
+  .action(async ({ ctx, input }) => {
+    const caller = createWebhooksCaller(ctx);
+    const target = await caller.startDelivery({
+      deliveryId: input.deliveryId,
+    });
+    if (!target) {
+      return null;
+    }
+
+    const result = await sendWebhook(target, {
+      timeoutMs: ctx.api.webhooks.timeoutMs,
+    });
+    await caller.recordAttempt({
+      deliveryId: target.deliveryId,
+      attempt: target.attempt,
+      result,
+    });
+
+    return null;
+  });
+
+export const cleanupOldDeliveries = privateMutation
+  .use(webhooks.middleware())
+  .input(z.object({ olderThan: z.number().optional() }))
+  .mutation(async ({ ctx, input }) => {
+    const olderThan = input.olderThan ?? FINISHED_DELIVERY_RETENTION_MS;
+    const batch = await ctx.orm.query.webhookDelivery.findMany({
+      where: {
+        status: { in: ['succeeded', 'failed'] },
+        createdAt: { lt: Date.now() - olderThan },
+      },
+      limit: BATCH_SIZE,
+      columns: { id: true },
+    });
+    const deliveryIds = batch.map((delivery) => delivery.id);
+
+    if (deliveryIds.length > 0) {
+      await ctx.orm
+        .delete(webhookDeliveryAttemptTable)
+        .where(inArray(webhookDeliveryAttemptTable.deliveryId, deliveryIds));
+      await ctx.orm
+        .delete(webhookDeliveryTable)
+        .where(inArray(webhookDeliveryTable.id, deliveryIds));
+    }
+
+    if (deliveryIds.length === BATCH_SIZE) {
+      const caller = createWebhooksCaller(ctx);
+      await caller.schedule.now.cleanupOldDeliveries({ olderThan });
+    }
+
+    return null;
+  });
+`;
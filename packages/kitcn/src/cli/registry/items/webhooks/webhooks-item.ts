@@ -0,0 +1,66 @@
+import { defineInternalRegistryItem } from '../../define-item.js';
+import { createRegistryFile } from '../../files.js';
+import { WEBHOOKS_CRONS_TEMPLATE } from './webhooks-crons.template.js';
+import { WEBHOOKS_FUNCTIONS_TEMPLATE } from './webhooks-functions.template.js';
+import { WEBHOOKS_PLUGIN_TEMPLATE } from './webhooks-plugin.template.js';
+import { WEBHOOKS_SCHEMA_TEMPLATE } from './webhooks-schema.template.js';
+
+const WEBHOOKS_FILES = [
+  createRegistryFile({
+    id: 'webhooks-schema',
+    path: 'schema.ts',
+    target: 'lib',
+    content: WEBHOOKS_SCHEMA_TEMPLATE,
+  }),
+  createRegistryFile({
+    id: 'webhooks-functions',
+    path: 'webhooks.ts',
+    target: 'functions',
+    content: WEBHOOKS_FUNCTIONS_TEMPLATE,
+    requires: ['webhooks-schema'],
+  }),
+  createRegistryFile({
+    id: 'webhooks-plugin',
+    path: 'plugin.ts',
+    target: 'lib',
+    content: WEBHOOKS_PLUGIN_TEMPLATE,
+    requires: ['webhooks-functions'],
+  }),
+  createRegistryFile({
+    id: 'webhooks-crons',
+    path: 'crons.ts',
+    target: 'lib',
+    content: WEBHOOKS_CRONS_TEMPLATE,
+    requires: ['webhooks-functions'],
+  }),
+] as const;
+
+export const webhooksRegistryItem = defineInternalRegistryItem({
+  item: {
+    name: 'webhooks',
+    type: 'registry:item',
+    title: 'Webhooks',
+    description:
+      'Outgoing webhooks plugin with signed delivery, retries, endpoint disabling, and replay.',
+    categories: ['webhook', 'webhooks', 'events'],
+    docs: 'https://kitcn.vercel.app/docs/plugins/webhooks',
+    dependencies: ['kitcn'],
+    files: WEBHOOKS_FILES,
+  },
+  internal: {
+    localDocsPath: 'www/content/docs/plugins/webhooks.mdx',
+    schemaRegistration: {
+      importName: 'webhooksExtension',
+      path: 'schema.ts',
+      target: 'lib',
+    },
+    defaultPreset: 'default',
+    presets: [
+      {
+        name: 'default',
+        description: 'Scaffold webhooks plugin functions + lib helpers.',
+        registryDependencies: WEBHOOKS_FILES.map((file) => file.meta.id),
+      },
+    ],
+  },
+});
@@ -0,0 +1,14 @@
+export const WEBHOOKS_PLUGIN_TEMPLATE = `import { makeFunctionReference } from "convex/server";
+import { WebhooksPlugin } from "kitcn/webhooks";
+
+export const webhooks = WebhooksPlugin.configure({
+  // Referenced by path to keep the plugin config out of the generated api types.
+  deliver: makeFunctionReference<"action">("plugins/webhooks:deliver"),
+  maxAttempts: 8,
+  initialBackoffMs: 30_000,
+  maxBackoffMs: 6 * 60 * 60 * 1000,
+  // Endpoints are disabled after this many failed attempts in a row.
+  disableAfterFailures: 20,
+  timeoutMs: 10_000,
+});
+`;
@@ -0,0 +1,78 @@
+export const WEBHOOKS_SCHEMA_TEMPLATE = `import {
+  convexTable,
+  defineSchemaExtension,
+  index,
+  integer,
+  json,
+  text,
+  textEnum,
+} from "kitcn/orm";
+
+export const webhookEndpointTable = convexTable("webhookEndpoint", {
+  url: text().notNull(),
+  secret: text().notNull(),
+  description: text(),
+  status: textEnum(["enabled", "disabled"]).notNull(),
+  failureCount: integer().notNull(),
+  disabledAt: integer(),
+  disabledReason: text(),
+});
+
+export const webhookSubscriptionTable = convexTable(
+  "webhookSubscription",
+  {
+    endpointId: text().notNull(),
+    eventType: text().notNull(),
+  },
+  (t) => [
+    index("by_event_type").on(t.eventType),
+    index("by_endpoint").on(t.endpointId),
+  ],
+);
+
+export const webhookDeliveryTable = convexTable(
+  "webhookDelivery",
+  {
+    endpointId: text().notNull(),
+    eventId: text().notNull(),
+    eventType: text().notNull(),
+    payload: json<Record<string, unknown>>().notNull(),
+    status: textEnum(["pending", "succeeded", "failed"]).notNull(),
+    attempts: integer().notNull(),
+    attemptsBeforeReplay: integer(),
+    lastStatusCode: integer(),
+    lastError: text(),
+    nextAttemptAt: integer().notNull(),
+    deliveredAt: integer(),
+  },
+  (t) => [
+    index("by_endpoint").on(t.endpointId),
+    index("by_status").on(t.status),
+    index("by_event").on(t.eventId),
+  ],
+);
+
+export const webhookDeliveryAttemptTable = convexTable(
+  "webhookDeliveryAttempt",
+  {
+    deliveryId: text().notNull(),
+    endpointId: text().notNull(),
+    attempt: integer().notNull(),
+    statusCode: integer(),
+    error: text(),
+    responseBody: text(),
+    durationMs: integer().notNull(),
+    attemptedAt: integer().notNull(),
+  },
+  (t) => [index("by_delivery").on(t.deliveryId)],
+);
+
+export function webhooksExtension() {
+  return defineSchemaExtension("webhooks", {
+    webhookEndpoint: webhookEndpointTable,
+    webhookSubscription: webhookSubscriptionTable,
+    webhookDelivery: webhookDeliveryTable,
+    webhookDeliveryAttempt: webhookDeliveryAttemptTable,
+  });
+}
+`;
@@ -9,7 +9,12 @@ import type {
   ScaffoldTemplate,
 } from '../types.js';
 
-export const SUPPORTED_PLUGIN_KEYS = ['auth', 'resend', 'ratelimit'] as const;
+export const SUPPORTED_PLUGIN_KEYS = [
+  'auth',
+  'resend',
+  'ratelimit',
+  'webhooks',
+] as const;
 export type SupportedPluginKey = (typeof SUPPORTED_PLUGIN_KEYS)[number];
 
 export type PluginScaffoldTarget = 'functions' | 'lib' | 'app' | 'client-lib';
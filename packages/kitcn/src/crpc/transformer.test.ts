@@ -1,6 +1,8 @@
 import {
+  createDecimalWireCodec,
   createTaggedTransformer,
   DATE_CODEC_TAG,
+  DECIMAL_CODEC_TAG,
   decodeWire,
   encodeWire,
   getTransformer,
@@ -172,6 +174,26 @@ describe('crpc transformer', () => {
     walk(encoded);
   });
 
+  test('createDecimalWireCodec round-trips Decimal-like instances', () => {
+    class Money {
+      constructor(readonly value: string) {}
+      toString() {
+        return this.value;
+      }
+    }
+    const transformer = createTaggedTransformer([
+      createDecimalWireCodec(Money),
+    ]);
+
+    const encoded = transformer.serialize({ total: new Money('12.30') });
+    expect(encoded).toEqual({
+      total: { __crpc: 1, t: DECIMAL_CODEC_TAG, v: '12.30' },
+    });
+    const decoded = transformer.deserialize(encoded) as any;
+    expect(decoded.total).toBeInstanceOf(Money);
+    expect(decoded.total.value).toBe('12.30');
+  });
+
   test('throws on duplicate codec tags', () => {
     expect(() =>
       createTaggedTransformer([
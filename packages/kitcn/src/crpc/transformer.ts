@@ -83,6 +83,32 @@ export const dateWireCodec: WireCodec = {
   },
 };
 
+/**
+ * Decimal wire tag.
+ */
+export const DECIMAL_CODEC_TAG = '$decimal';
+
+/**
+ * Decimal codec for a Decimal-like class (decimal.js, big.js). Instances are
+ * sent as exact strings, which decimal() columns accept on write.
+ *
+ * @example
+ * transformer: createTaggedTransformer([createDecimalWireCodec(Decimal)])
+ */
+export const createDecimalWireCodec = <TDecimal extends object>(
+  DecimalClass: new (value: string) => TDecimal
+): WireCodec => ({
+  tag: DECIMAL_CODEC_TAG,
+  isType: (value): value is TDecimal => value instanceof DecimalClass,
+  encode: (value) => String(value),
+  decode: (value) => {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    return new DecimalClass(value);
+  },
+});
+
 /**
  * Build a recursive tagged transformer from codecs.
  */
@@ -16,8 +16,8 @@ import {
   COUNT_STATUS_BUILDING,
   COUNT_STATUS_READY,
   clearCountIndexData,
+  computeAggregateKeyParts,
   computeAggregateMetricValues,
-  computeCountKeyParts,
   getCountState,
   listSchemaAggregateIndexes,
   reconcileAggregateMembership,
@@ -30,6 +30,7 @@ import {
   AGGREGATE_MEMBER_TABLE,
   AGGREGATE_STATE_TABLE,
 } from './schema';
+import type { AggregateBucketDefinition } from './time-bucket';
 
 export type CountBackfillMode = 'resume' | 'rebuild' | 'prune';
 
@@ -63,6 +64,7 @@ type CountBackfillTarget = {
   maxFields?: string[];
   orderFields?: Array<{ field: string; direction: 'asc' | 'desc' }>;
   rankSumField?: string;
+  bucket?: AggregateBucketDefinition;
 };
 
 type CountBackfillContext = {
@@ -142,6 +144,7 @@ const getTargets = (
     avgFields: entry.avgFields,
     minFields: entry.minFields,
     maxFields: entry.maxFields,
+    bucket: entry.bucket,
   }));
 
   const rankTargets: CountBackfillTarget[] = [];
@@ -181,6 +184,7 @@ const computeKeyDefinitionHash = (target: CountBackfillTarget): string =>
     kind: target.kind,
     fields: target.fields,
     orderFields: target.orderFields ?? [],
+    ...(target.bucket ? { bucket: target.bucket } : {}),
   });
 
 const computeMetricDefinitionHash = (target: CountBackfillTarget): string =>
@@ -609,7 +613,7 @@ export function createCountBackfillHandlers(
               tableName: target.tableName,
               indexName: target.indexName,
               docId: String((doc as any)._id),
-              keyParts: computeCountKeyParts(doc, target.fields),
+              keyParts: computeAggregateKeyParts(doc, target),
               metricValues: computeAggregateMetricValues(doc, {
                 name: target.indexName,
                 fields: target.fields,
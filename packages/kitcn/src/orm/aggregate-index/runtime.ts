@@ -17,8 +17,16 @@ import {
   AGGREGATE_MEMBER_TABLE,
   AGGREGATE_STATE_TABLE,
 } from './schema';
+import {
+  type AggregateBucketDefinition,
+  type AggregateBucketUnit,
+  bucketSeries,
+  bucketStart,
+  nextBucketStart,
+} from './time-bucket';
 
 const UNDEFINED_SENTINEL = '__kitcnUndefined';
+const BIGINT_SENTINEL = '__kitcnBigInt';
 const FLOAT64_SIGN_BIT = 1n << 63n;
 const FLOAT64_MASK = (1n << 64n) - 1n;
 const DEFAULT_AGGREGATE_CARTESIAN_MAX_KEYS = 4096;
@@ -81,8 +89,14 @@ type AggregateMetricRequest =
       field: string;
     };
 
+/**
+ * Per-field sums. bigint columns (decimal() included) sum as bigint so
+ * totals stay exact past 2^53; number columns sum as numbers.
+ */
+export type AggregateSumValues = Record<string, number | bigint>;
+
 type AggregateMetricValues = {
-  sumValues: Record<string, number>;
+  sumValues: AggregateSumValues;
   extremaValues: Record<string, unknown>;
   nonNullCountValues: Record<string, number>;
 };
@@ -127,7 +141,7 @@ type CountMemberRow = {
   docId: string;
   keyHash: string;
   keyParts: unknown[];
-  sumValues: Record<string, number>;
+  sumValues: AggregateSumValues;
   nonNullCountValues: Record<string, number>;
   extremaValues: Record<string, unknown>;
   rankNamespace?: unknown;
@@ -142,7 +156,7 @@ type CountBucketRow = {
   keyHash: string;
   keyParts: unknown[];
   count: number;
-  sumValues: Record<string, number>;
+  sumValues: AggregateSumValues;
   nonNullCountValues: Record<string, number>;
 };
 
@@ -171,6 +185,7 @@ export type AggregateIndexDefinition = {
   avgFields: string[];
   minFields: string[];
   maxFields: string[];
+  bucket?: AggregateBucketDefinition;
 };
 
 export type CountQueryPlan = {
@@ -202,6 +217,22 @@ export type AggregateQueryPlan = {
   metric: AggregateMetricRequest;
 };
 
+/**
+ * Dense time series over a bucketed aggregate index. `plan` reads every
+ * bucket in `series` range; its last index field is the bucket start.
+ */
+export type TimeSeriesQueryPlan = {
+  plan: AggregateQueryPlan;
+  bucket: AggregateBucketDefinition;
+  series: number[];
+};
+
+export type TimeSeriesBucketTotals = {
+  count: number;
+  sumValues: AggregateSumValues;
+  nonNullCountValues: Record<string, number>;
+};
+
 export type PlanBucketReadCache = Map<string, Promise<unknown[]>>;
 
 const isPlainObject = (value: unknown): value is Record<string, unknown> =>
@@ -228,7 +259,9 @@ const normalizeUndefined = (value: unknown): unknown => {
 };
 
 const serializeStable = (value: unknown): string =>
-  JSON.stringify(normalizeUndefined(value));
+  JSON.stringify(normalizeUndefined(value), (_key, entry) =>
+    typeof entry === 'bigint' ? { [BIGINT_SENTINEL]: entry.toString() } : entry
+  );
 
 const toConstraintSet = (values: unknown[]): Map<string, unknown> => {
   const set = new Map<string, unknown>();
@@ -433,7 +466,12 @@ const parseFieldFilter = (
   codes: ErrorCodes,
   methodName: string
 ): void => {
-  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+  if (
+    value === null ||
+    typeof value !== 'object' ||
+    Array.isArray(value) ||
+    value instanceof Date
+  ) {
     pushConstraint(target, fieldName, [
       normalizeAggregateComparableValue(tableConfig, fieldName, value),
     ]);
@@ -521,10 +559,11 @@ const parseFieldFilter = (
       continue;
     }
     hasRecognizedOperator = true;
+    // Timestamp bounds may be Dates; the column normalizer maps them.
     if (
       boundValue === null ||
       Array.isArray(boundValue) ||
-      isPlainObject(boundValue)
+      (isPlainObject(boundValue) && !(boundValue instanceof Date))
     ) {
       throw createFilterError(
         codes,
@@ -949,16 +988,19 @@ export const getAggregateIndexDefinitions = (
     avgFields: entry.avgFields ?? [],
     minFields: entry.minFields ?? [],
     maxFields: entry.maxFields ?? [],
+    ...(entry.bucket ? { bucket: entry.bucket } : {}),
   }));
 };
 
 export const getCountIndexDefinitions = (
   tableConfig: TableRelationalConfig
 ): CountIndexDefinition[] =>
-  getAggregateIndexDefinitions(tableConfig).map((entry) => ({
-    name: entry.name,
-    fields: entry.fields,
-  }));
+  getAggregateIndexDefinitions(tableConfig)
+    .filter((entry) => !entry.bucket)
+    .map((entry) => ({
+      name: entry.name,
+      fields: entry.fields,
+    }));
 
 const supportsMetric = (
   index: AggregateIndexDefinition,
@@ -1552,7 +1594,10 @@ const compileAggregatePlan = (
     );
   }
 
-  const aggregateIndexes = getAggregateIndexDefinitions(tableConfig);
+  // Bucketed indexes only answer groupBy time series.
+  const aggregateIndexes = getAggregateIndexDefinitions(tableConfig).filter(
+    (definition) => !definition.bucket
+  );
   const throwNotIndexed = (fieldList: string): never => {
     if (metric.kind === 'count') {
       throw createError(
@@ -1785,21 +1830,178 @@ export const compileAggregateQueryPlan = (
     })()
   );
 
+export const compileTimeSeriesQueryPlan = (
+  tableConfig: TableRelationalConfig,
+  where: unknown,
+  request: {
+    field: string;
+    unit: AggregateBucketUnit;
+    metrics: AggregateMetricRequest[];
+  }
+): TimeSeriesQueryPlan => {
+  const codes = AGGREGATE_ERROR;
+  const methodName = `groupBy({ by: { ${request.field}: '${request.unit}' } })`;
+  const normalizedWhere = where ?? {};
+  if (!isPlainObject(normalizedWhere)) {
+    throw createFilterError(
+      codes,
+      methodName,
+      'where must be an object filter.'
+    );
+  }
+
+  const constraints = new Map<string, FieldConstraint>();
+  parseWhereObject(
+    normalizedWhere,
+    tableConfig,
+    constraints,
+    codes,
+    methodName
+  );
+  normalizeConstraints(constraints, codes, methodName);
+
+  const bucketField = normalizeFilterFieldName(tableConfig, request.field);
+  const comparisons = constraints.get(bucketField)?.rangeComparisons ?? [];
+  const lowerBounds = comparisons.filter(
+    (comparison) =>
+      comparison.operator === 'gt' || comparison.operator === 'gte'
+  );
+  const upperBounds = comparisons.filter(
+    (comparison) =>
+      comparison.operator === 'lt' || comparison.operator === 'lte'
+  );
+  if (
+    lowerBounds.length === 0 ||
+    upperBounds.length === 0 ||
+    comparisons.some((comparison) => typeof comparison.value !== 'number')
+  ) {
+    throw createFilterError(
+      codes,
+      methodName,
+      `requires where.${request.field} with gt/gte and lt/lte bounds to build a dense series.`
+    );
+  }
+
+  const definition = getAggregateIndexDefinitions(tableConfig).find(
+    (candidate) =>
+      candidate.bucket?.field === bucketField &&
+      candidate.bucket.unit === request.unit &&
+      candidate.fields.every((field) => constraints.get(field)?.values) &&
+      [...constraints.keys()].every(
+        (field) => field === bucketField || candidate.fields.includes(field)
+      ) &&
+      request.metrics.every((metric) => supportsMetric(candidate, metric))
+  );
+  if (!definition?.bucket) {
+    throw createError(
+      codes.NOT_INDEXED,
+      `No matching aggregateIndex found for ${methodName} on '${tableConfig.name}'. Declare aggregateIndex(...).on(...).bucket(t.${request.field}, '${request.unit}') with equality filters on every on() field and run aggregateBackfill.`
+    );
+  }
+  const bucket = definition.bucket;
+
+  // Bounds widen to whole buckets: a bucket is in range if it overlaps it.
+  const from = Math.max(
+    ...lowerBounds.map((comparison) => comparison.value as number)
+  );
+  const to = Math.min(
+    ...upperBounds.map((comparison) => {
+      const value = comparison.value as number;
+      if (comparison.operator === 'lt') {
+        return value;
+      }
+      return nextBucketStart(
+        bucketStart(value, bucket.unit, bucket.tz),
+        bucket.unit,
+        bucket.tz
+      );
+    })
+  );
+  const maxBuckets = getAggregateCartesianMaxKeys(tableConfig);
+  const series = bucketSeries(from, to, bucket.unit, bucket.tz, maxBuckets);
+  if (!series) {
+    throw createFilterError(
+      codes,
+      methodName,
+      `range spans more than ${maxBuckets} '${bucket.unit}' buckets, exceeding aggregateCartesianMaxKeys (${maxBuckets}). Narrow the range, use a coarser bucket, or increase defineSchema(..., { defaults: { aggregateCartesianMaxKeys } }).`
+    );
+  }
+
+  const fieldValues = Object.fromEntries(
+    definition.fields.map((field) => [
+      field,
+      [...(constraints.get(field)?.values?.values() ?? [])],
+    ])
+  ) as Record<string, unknown[]>;
+  enforceCartesianExpansionGuards({
+    tableConfig,
+    codes,
+    methodName,
+    indexName: definition.name,
+    fields: definition.fields,
+    fieldValues,
+    workUnitsPerCombination: RANGE_PREFIX_WORK_UNIT_BASE,
+    workLabel: 'range-prefix work',
+  });
+
+  return {
+    plan: {
+      tableName: tableConfig.name,
+      indexName: definition.name,
+      indexFields: [...definition.fields, bucketField],
+      fieldValues,
+      rangeConstraint: {
+        fieldName: bucketField,
+        comparisons: [
+          { operator: 'gte', value: series[0] ?? from },
+          { operator: 'lt', value: to },
+        ],
+        prefixFields: definition.fields,
+      },
+      postFieldValues: {},
+      metric: { kind: 'count' },
+    },
+    bucket,
+    series,
+  };
+};
+
 const deepEquals = (left: unknown, right: unknown): boolean =>
   serializeStable(left) === serializeStable(right);
 
-const normalizeSumValues = (
-  values: Record<string, number>
-): Record<string, number> => {
-  const output: Record<string, number> = {};
+const normalizeSumValues = (values: AggregateSumValues): AggregateSumValues => {
+  const output: AggregateSumValues = {};
   for (const [field, value] of Object.entries(values)) {
-    if (typeof value === 'number' && Number.isFinite(value)) {
+    if (
+      typeof value === 'bigint' ||
+      (typeof value === 'number' && Number.isFinite(value))
+    ) {
       output[field] = value;
     }
   }
   return output;
 };
 
+const addSumValue = (
+  current: number | bigint | undefined,
+  delta: number | bigint
+): number | bigint => {
+  if (current === undefined) {
+    return delta;
+  }
+  if (typeof current === 'number' && typeof delta === 'number') {
+    return current + delta;
+  }
+  // Buckets written before bigint sums hold integral numbers; lift them.
+  if (
+    (typeof current === 'bigint' || Number.isInteger(current)) &&
+    (typeof delta === 'bigint' || Number.isInteger(delta))
+  ) {
+    return BigInt(current) + BigInt(delta);
+  }
+  return Number(current) + Number(delta);
+};
+
 const normalizeNonNullCountValues = (
   values: Record<string, number>
 ): Record<string, number> => {
@@ -1817,16 +2019,15 @@ const normalizeExtremaValues = (
 ): Record<string, unknown> => ({ ...values });
 
 const mergeSumValues = (
-  baseValues: Record<string, number>,
-  deltaValues: Record<string, number>
-): Record<string, number> => {
-  const merged: Record<string, number> = {
+  baseValues: AggregateSumValues,
+  deltaValues: AggregateSumValues
+): AggregateSumValues => {
+  const merged: AggregateSumValues = {
     ...baseValues,
   };
   for (const [field, delta] of Object.entries(deltaValues)) {
-    const current = merged[field] ?? 0;
-    const next = current + delta;
-    if (next === 0) {
+    const next = addSumValue(merged[field], delta);
+    if (next === 0 || next === 0n) {
       delete merged[field];
       continue;
     }
@@ -1854,9 +2055,7 @@ const mergeCountValues = (
   return merged;
 };
 
-const negateSumValues = (
-  values: Record<string, number>
-): Record<string, number> =>
+const negateSumValues = (values: AggregateSumValues): AggregateSumValues =>
   Object.fromEntries(
     Object.entries(values).map(([field, value]) => [field, -value])
   );
@@ -1983,7 +2182,7 @@ const applyBucketDelta = async (
   indexName: string,
   keyParts: unknown[],
   deltaCount: number,
-  deltaSums: Record<string, number>,
+  deltaSums: AggregateSumValues,
   deltaNonNullCounts: Record<string, number>
 ): Promise<void> => {
   if (
@@ -2340,19 +2539,19 @@ export const readSumFromBuckets = async (
   db: GenericDatabaseReader<any> | GenericDatabaseWriter<any>,
   plan: AggregateQueryPlan,
   bucketCache?: PlanBucketReadCache
-): Promise<number | null> => {
+): Promise<number | bigint | null> => {
   if (plan.metric.kind !== 'sum') {
     throw new Error('readSumFromBuckets() requires a sum aggregate plan.');
   }
 
-  let total = 0;
+  let total: number | bigint = 0;
   let totalNonNull = 0;
 
   const buckets = await readPlanBucketsWithCache(db, plan, bucketCache);
   for (const bucket of buckets) {
     const sumValues = normalizeSumValues(bucket.sumValues);
     const countValues = normalizeNonNullCountValues(bucket.nonNullCountValues);
-    total += sumValues[plan.metric.field] ?? 0;
+    total = addSumValue(total, sumValues[plan.metric.field] ?? 0);
     totalNonNull += countValues[plan.metric.field] ?? 0;
   }
 
@@ -2394,21 +2593,50 @@ export const readAverageFromBuckets = async (
     throw new Error('readAverageFromBuckets() requires an avg aggregate plan.');
   }
 
-  let totalSum = 0;
+  let totalSum: number | bigint = 0;
   let totalNonNull = 0;
 
   const buckets = await readPlanBucketsWithCache(db, plan, bucketCache);
   for (const bucket of buckets) {
     const sumValues = normalizeSumValues(bucket.sumValues);
     const countValues = normalizeNonNullCountValues(bucket.nonNullCountValues);
-    totalSum += sumValues[plan.metric.field] ?? 0;
+    totalSum = addSumValue(totalSum, sumValues[plan.metric.field] ?? 0);
     totalNonNull += countValues[plan.metric.field] ?? 0;
   }
 
   if (totalNonNull === 0) {
     return null;
   }
-  return totalSum / totalNonNull;
+  return Number(totalSum) / totalNonNull;
+};
+
+/** Bucket totals keyed by bucket start; buckets without rows are absent. */
+export const readTimeSeriesFromBuckets = async (
+  db: GenericDatabaseReader<any> | GenericDatabaseWriter<any>,
+  timeSeries: TimeSeriesQueryPlan
+): Promise<Map<number, TimeSeriesBucketTotals>> => {
+  const bucketFieldIndex = timeSeries.plan.indexFields.length - 1;
+  const totals = new Map<number, TimeSeriesBucketTotals>();
+  for (const bucket of await readPlanBuckets(db, timeSeries.plan)) {
+    const start = bucket.keyParts[bucketFieldIndex] as number;
+    const current = totals.get(start) ?? {
+      count: 0,
+      sumValues: {},
+      nonNullCountValues: {},
+    };
+    totals.set(start, {
+      count: current.count + bucket.count,
+      sumValues: mergeSumValues(
+        current.sumValues,
+        normalizeSumValues(bucket.sumValues)
+      ),
+      nonNullCountValues: mergeCountValues(
+        current.nonNullCountValues,
+        normalizeNonNullCountValues(bucket.nonNullCountValues)
+      ),
+    });
+  }
+  return totals;
 };
 
 const readKeyExtrema = async (
@@ -2513,12 +2741,17 @@ export const computeAggregateMetricValues = (
   doc: Record<string, unknown>,
   definition: AggregateIndexDefinition
 ): AggregateMetricValues => {
-  const sumValues: Record<string, number> = {};
+  const sumValues: AggregateSumValues = {};
   for (const field of [...definition.sumFields, ...definition.avgFields]) {
     const value = doc[field];
     if (value === null || value === undefined) {
       continue;
     }
+    if (typeof value === 'bigint') {
+      // decimal() columns store scaled int64; buckets sum the scaled units.
+      sumValues[field] = value;
+      continue;
+    }
     if (typeof value !== 'number' || !Number.isFinite(value)) {
       throw createError(
         AGGREGATE_ERROR.FILTER_UNSUPPORTED,
@@ -2713,6 +2946,27 @@ export const computeCountKeyParts = (
   fields: string[]
 ): unknown[] => fields.map((field) => normalizeUndefined(doc[field]));
 
+/**
+ * Key parts for an aggregate index: the `on(...)` values, then the bucket
+ * start for bucketed indexes (null when the time field is unset).
+ */
+export const computeAggregateKeyParts = (
+  doc: Record<string, unknown>,
+  definition: { fields: string[]; bucket?: AggregateBucketDefinition }
+): unknown[] => {
+  const keyParts = computeCountKeyParts(doc, definition.fields);
+  if (!definition.bucket) {
+    return keyParts;
+  }
+  const time = doc[definition.bucket.field];
+  return [
+    ...keyParts,
+    typeof time === 'number' && Number.isFinite(time)
+      ? bucketStart(time, definition.bucket.unit, definition.bucket.tz)
+      : null,
+  ];
+};
+
 export const applyAggregateIndexesForChange = async (
   db: GenericDatabaseWriter<any>,
   tableName: string,
@@ -2738,7 +2992,7 @@ export const applyAggregateIndexesForChange = async (
     const keyParts =
       change.operation === 'delete'
         ? null
-        : computeCountKeyParts(change.newDoc, aggregateIndex.fields);
+        : computeAggregateKeyParts(change.newDoc, aggregateIndex);
     const metricValues =
       change.operation === 'delete'
         ? null
@@ -3014,6 +3268,7 @@ export const listSchemaAggregateIndexes = (
   avgFields: string[];
   minFields: string[];
   maxFields: string[];
+  bucket?: AggregateBucketDefinition;
 }> => {
   const entries: Array<{
     tableName: string;
@@ -3024,6 +3279,7 @@ export const listSchemaAggregateIndexes = (
     avgFields: string[];
     minFields: string[];
     maxFields: string[];
+    bucket?: AggregateBucketDefinition;
   }> = [];
 
   for (const tableConfig of Object.values(schema)) {
@@ -3038,6 +3294,7 @@ export const listSchemaAggregateIndexes = (
         avgFields: aggregateIndex.avgFields,
         minFields: aggregateIndex.minFields,
         maxFields: aggregateIndex.maxFields,
+        ...(aggregateIndex.bucket ? { bucket: aggregateIndex.bucket } : {}),
       });
     }
   }
@@ -1,4 +1,13 @@
-import { arrayOf, id, integer, json, objectOf, text } from '../builders';
+import {
+  arrayOf,
+  bigint,
+  id,
+  integer,
+  json,
+  objectOf,
+  text,
+  unionOf,
+} from '../builders';
 import { defineSchemaExtension, type SchemaExtension } from '../extensions';
 import { index } from '../indexes';
 import { convexTable } from '../table';
@@ -18,7 +27,9 @@ export const countBucketTable = convexTable(
     keyHash: text().notNull(),
     keyParts: arrayOf(json()).notNull(),
     count: integer().notNull(),
-    sumValues: objectOf(integer().notNull()).notNull(),
+    sumValues: objectOf(
+      unionOf(integer().notNull(), bigint().notNull())
+    ).notNull(),
     nonNullCountValues: objectOf(integer().notNull()).notNull(),
     updatedAt: integer().notNull(),
   },
@@ -37,7 +48,9 @@ export const countMemberTable = convexTable(
     docId: text().notNull(),
     keyHash: text().notNull(),
     keyParts: arrayOf(json()).notNull(),
-    sumValues: objectOf(integer().notNull()).notNull(),
+    sumValues: objectOf(
+      unionOf(integer().notNull(), bigint().notNull())
+    ).notNull(),
     nonNullCountValues: objectOf(integer().notNull()).notNull(),
     extremaValues: objectOf(json()).notNull(),
     rankNamespace: json(),
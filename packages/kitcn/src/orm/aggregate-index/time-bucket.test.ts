@@ -0,0 +1,55 @@
+import { bucketSeries, bucketStart, nextBucketStart } from './time-bucket';
+
+const iso = (time: number) => new Date(time).toISOString();
+
+describe('bucketStart', () => {
+  test('floors to UTC calendar units', () => {
+    const time = Date.UTC(2024, 2, 13, 15, 30, 12);
+
+    expect(iso(bucketStart(time, 'hour'))).toBe('2024-03-13T15:00:00.000Z');
+    expect(iso(bucketStart(time, 'day'))).toBe('2024-03-13T00:00:00.000Z');
+    expect(iso(bucketStart(time, 'week'))).toBe('2024-03-11T00:00:00.000Z');
+    expect(iso(bucketStart(time, 'month'))).toBe('2024-03-01T00:00:00.000Z');
+  });
+
+  test('follows local midnight in the index time zone', () => {
+    const time = Date.UTC(2024, 0, 15, 3);
+
+    expect(iso(bucketStart(time, 'day', 'America/New_York'))).toBe(
+      '2024-01-14T05:00:00.000Z'
+    );
+    expect(iso(bucketStart(time, 'hour', 'Asia/Kolkata'))).toBe(
+      '2024-01-15T02:30:00.000Z'
+    );
+  });
+});
+
+describe('bucketSeries', () => {
+  test('steps across DST changes', () => {
+    const days = bucketSeries(
+      Date.UTC(2024, 2, 9, 12),
+      Date.UTC(2024, 2, 11, 12),
+      'day',
+      'America/New_York'
+    );
+
+    expect(days?.map(iso)).toEqual([
+      '2024-03-09T05:00:00.000Z',
+      '2024-03-10T05:00:00.000Z',
+      '2024-03-11T04:00:00.000Z',
+    ]);
+
+    const start = Date.UTC(2024, 10, 3, 5);
+    expect(nextBucketStart(start, 'hour', 'America/New_York')).toBe(
+      start + 60 * 60 * 1000
+    );
+  });
+
+  test('returns null past the bucket limit', () => {
+    const from = Date.UTC(2024, 0, 1);
+    const to = Date.UTC(2024, 11, 31);
+
+    expect(bucketSeries(from, to, 'month')).toHaveLength(12);
+    expect(bucketSeries(from, to, 'day', 'UTC', 100)).toBeNull();
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Calendar bucketing for time-bucketed aggregate indexes.
+ *
+ * A bucket is identified by its start instant (epoch ms). Buckets follow
+ * wall-clock boundaries in the index time zone, so a `day` bucket in
+ * `America/New_York` starts at local midnight and may span 23 or 25 hours
+ * around DST changes. Weeks start on Monday (ISO 8601).
+ */
+
+export const AGGREGATE_BUCKET_UNITS = ['hour', 'day', 'week', 'month'] as const;
+
+export type AggregateBucketUnit = (typeof AGGREGATE_BUCKET_UNITS)[number];
+
+export type AggregateBucketDefinition = {
+  field: string;
+  unit: AggregateBucketUnit;
+  tz: string;
+};
+
+export const DEFAULT_BUCKET_TIME_ZONE = 'UTC';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type LocalParts = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isAggregateBucketUnit = (
+  value: unknown
+): value is AggregateBucketUnit =>
+  typeof value === 'string' &&
+  (AGGREGATE_BUCKET_UNITS as readonly string[]).includes(value);
+
+/** Throws when `timeZone` is not an IANA zone the runtime knows. */
+export function assertBucketTimeZone(timeZone: string): void {
+  try {
+    getFormatter(timeZone);
+  } catch {
+    throw new Error(`Invalid bucket time zone '${timeZone}'.`);
+  }
+}
+
+/** Offset of `timeZone` from UTC at `time`, in ms (local - utc). */
+const zoneOffset = (time: number, timeZone: string): number => {
+  if (timeZone === DEFAULT_BUCKET_TIME_ZONE) {
+    return 0;
+  }
+  const values: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(time)) {
+    if (part.type !== 'literal') {
+      values[part.type] = Number(part.value);
+    }
+  }
+  const local = Date.UTC(
+    values.year,
+    values.month - 1,
+    values.day,
+    values.hour,
+    values.minute,
+    values.second
+  );
+  const wholeSeconds = time - (((time % 1000) + 1000) % 1000);
+  return local - wholeSeconds;
+};
+
+const toLocalParts = (time: number, timeZone: string): LocalParts => {
+  const local = new Date(time + zoneOffset(time, timeZone));
+  return {
+    year: local.getUTCFullYear(),
+    month: local.getUTCMonth(),
+    day: local.getUTCDate(),
+    hour: local.getUTCHours(),
+  };
+};
+
+/** Instant of a local wall-clock time; second pass settles DST edges. */
+const fromLocalTime = (local: number, timeZone: string): number => {
+  const guess = local - zoneOffset(local, timeZone);
+  return local - zoneOffset(guess, timeZone);
+};
+
+const startOfLocalBucket = (
+  parts: LocalParts,
+  unit: AggregateBucketUnit
+): number => {
+  switch (unit) {
+    case 'hour':
+      return Date.UTC(parts.year, parts.month, parts.day, parts.hour);
+    case 'day':
+      return Date.UTC(parts.year, parts.month, parts.day);
+    case 'week': {
+      const weekday = new Date(
+        Date.UTC(parts.year, parts.month, parts.day)
+      ).getUTCDay();
+      const monday = parts.day - ((weekday + 6) % 7);
+      return Date.UTC(parts.year, parts.month, monday);
+    }
+    case 'month':
+      return Date.UTC(parts.year, parts.month, 1);
+  }
+};
+
+/** Start instant of the bucket that contains `time`. */
+export function bucketStart(
+  time: number,
+  unit: AggregateBucketUnit,
+  timeZone: string = DEFAULT_BUCKET_TIME_ZONE
+): number {
+  if (unit === 'hour' && timeZone === DEFAULT_BUCKET_TIME_ZONE) {
+    return Math.floor(time / HOUR_MS) * HOUR_MS;
+  }
+  return fromLocalTime(
+    startOfLocalBucket(toLocalParts(time, timeZone), unit),
+    timeZone
+  );
+}
+
+/** Start instant of the bucket after the one starting at `start`. */
+export function nextBucketStart(
+  start: number,
+  unit: AggregateBucketUnit,
+  timeZone: string = DEFAULT_BUCKET_TIME_ZONE
+): number {
+  if (unit === 'hour') {
+    // A repeated wall-clock hour (DST fall back) maps back to `start`.
+    const next = bucketStart(start + HOUR_MS, unit, timeZone);
+    return next > start ? next : start + HOUR_MS;
+  }
+  const parts = toLocalParts(start, timeZone);
+  const days = unit === 'week' ? 7 : 1;
+  const local =
+    unit === 'month'
+      ? Date.UTC(parts.year, parts.month + 1, 1)
+      : Date.UTC(parts.year, parts.month, parts.day + days);
+  return fromLocalTime(local, timeZone);
+}
+
+/**
+ * Bucket starts covering `[from, to)`, oldest first. Returns null when the
+ * range needs more than `maxBuckets` buckets.
+ */
+export function bucketSeries(
+  from: number,
+  to: number,
+  unit: AggregateBucketUnit,
+  timeZone: string = DEFAULT_BUCKET_TIME_ZONE,
+  maxBuckets: number = Number.POSITIVE_INFINITY
+): number[] | null {
+  const series: number[] = [];
+  for (
+    let start = bucketStart(from, unit, timeZone);
+    start < to;
+    start = nextBucketStart(start, unit, timeZone)
+  ) {
+    if (series.length >= maxBuckets) {
+      return null;
+    }
+    series.push(start);
+  }
+  return series;
+}
@@ -35,6 +35,12 @@ export type ForeignKeyAction =
   | 'set null'
   | 'set default';
 
+/**
+ * How encrypted() sealing picks its IV: randomized hides equal values,
+ * deterministic keeps them equal so they stay filterable.
+ */
+export type EncryptionMode = 'randomized' | 'deterministic';
+
 export interface ColumnReferenceConfig {
   name?: string;
   onDelete?: ForeignKeyAction;
@@ -67,10 +73,12 @@ export interface ColumnBuilderRuntimeConfig<TData> {
   dataType: string;
   default: TData | undefined;
   defaultFn?: (() => unknown) | undefined;
+  encrypted?: EncryptionMode | undefined;
   foreignKeyConfigs: {
     ref: () => ColumnBuilderBase;
     config: ColumnReferenceConfig;
   }[];
+  generated?: ((row: Record<string, any>) => unknown) | undefined;
   hasDefault: boolean;
   isUnique: boolean;
   name: string;
@@ -82,6 +90,7 @@ export interface ColumnBuilderRuntimeConfig<TData> {
   tableName?: string;
   uniqueName?: string;
   uniqueNulls?: 'distinct' | 'not distinct';
+  version?: boolean;
 }
 
 /**
@@ -250,6 +259,19 @@ export abstract class ColumnBuilder<
     return this.$onUpdateFn(fn);
   }
 
+  /**
+   * Compute the column from the rest of the row on every insert and update.
+   * The value is stored, so it can back index(), searchIndex(), filters, and
+   * orderBy. Writing it explicitly throws.
+   * Mirrors Drizzle's generatedAlwaysAs() for stored generated columns.
+   */
+  generatedAlwaysAs(
+    fn: (row: Record<string, any>) => ColumnData<this>
+  ): IsGenerated<this> {
+    this.config.generated = fn as any;
+    return this as IsGenerated<this>;
+  }
+
   /**
    * Mark column as primary key
    * Implies NOT NULL
@@ -339,6 +361,65 @@ export type HasDefault<T extends ColumnBuilderBase> = T & {
   };
 };
 
+/**
+ * Brand a builder as generated (generatedAlwaysAs)
+ * Removes field from insert and update values
+ */
+export type IsGenerated<T extends ColumnBuilderBase> = T & {
+  _: {
+    generated: true;
+    hasDefault: true;
+  };
+};
+
+/**
+ * Brand a builder as the row version ($version())
+ * Removes field from insert and update values
+ */
+export type IsVersion<T extends ColumnBuilderBase> = T & {
+  _: {
+    version: true;
+  };
+};
+
+/**
+ * Brand a builder as encrypted (text().encrypted())
+ * Restricts filter operators; the inferred type stays plaintext
+ */
+export type IsEncrypted<
+  T extends ColumnBuilderBase,
+  TMode extends EncryptionMode,
+> = T & {
+  _: {
+    encrypted: TMode;
+  };
+};
+
+/**
+ * Value type accepted by column filter operators: never for encrypted()
+ * columns, whose stored ciphertext cannot be compared to plaintext.
+ */
+export type UnencryptedFilterValue<TBuilder, TValue> = TBuilder extends {
+  _: { encrypted: infer TMode };
+}
+  ? TMode extends EncryptionMode
+    ? never
+    : TValue
+  : TValue;
+
+/**
+ * Value type accepted by equality operators (eq, ne, inArray, notInArray):
+ * deterministic encrypted() columns take plaintext, sealed before the query
+ * runs; randomized ones take never.
+ */
+export type EqualityFilterValue<TBuilder, TValue> = TBuilder extends {
+  _: { encrypted: infer TMode };
+}
+  ? TMode extends 'randomized'
+    ? never
+    : TValue
+  : TValue;
+
 type ColumnData<TBuilder extends ColumnBuilderBase> = TBuilder['_'] extends {
   $type: infer TType;
 }
@@ -0,0 +1,83 @@
+import { convexTable, decimal, generateUlid, ulid, uuid } from '../index';
+import { formatScaledDecimal, toScaledDecimal } from './decimal';
+
+describe('decimal() builder', () => {
+  test('stores scale and mode in column config', () => {
+    const invoices = convexTable('invoices_decimal_builder_test', {
+      total: decimal({ scale: 2 }).notNull(),
+      rate: decimal({ scale: 4, mode: 'number' }),
+    });
+
+    const total = ((invoices as any).total as any).config;
+    expect(total.columnType).toBe('ConvexDecimal');
+    expect(total.scale).toBe(2);
+    expect(total.mode).toBe('string');
+    expect(((invoices as any).rate as any).config.mode).toBe('number');
+  });
+
+  test('rejects scales outside 0-18', () => {
+    expect(() => decimal({ scale: 19 })).toThrow(
+      'decimal() scale must be an integer from 0 to 18.'
+    );
+    expect(() => decimal({ scale: 1.5 })).toThrow();
+  });
+
+  test('toScaledDecimal converts strings, numbers and Decimal-like values', () => {
+    expect(toScaledDecimal('12.34', 2)).toBe(1234n);
+    expect(toScaledDecimal('-0.5', 2)).toBe(-50n);
+    expect(toScaledDecimal('7', 2)).toBe(700n);
+    expect(toScaledDecimal('1.2300', 2)).toBe(123n);
+    expect(toScaledDecimal(0.1 + 0.2, 2)).toBe(30n);
+    expect(toScaledDecimal({ toFixed: () => '9.99' }, 2)).toBe(999n);
+    expect(toScaledDecimal(42n, 2)).toBe(42n);
+    expect(() => toScaledDecimal('1.234', 2)).toThrow(
+      "Decimal value '1.234' has more than 2 fraction digits."
+    );
+    expect(() => toScaledDecimal('1e3', 2)).toThrow(
+      "Invalid decimal value '1e3'."
+    );
+  });
+
+  test('toScaledDecimal rejects values outside the int64 range', () => {
+    expect(toScaledDecimal('92233720368547758.07', 2)).toBe(
+      9_223_372_036_854_775_807n
+    );
+    expect(() => toScaledDecimal('92233720368547758.08', 2)).toThrow(
+      "Decimal value '92233720368547758.08' is outside the int64 range for decimal({ scale: 2 })."
+    );
+    expect(() => toScaledDecimal(1e21, 0)).toThrow(
+      "Decimal value '1e+21' is outside the int64 range for decimal({ scale: 0 })."
+    );
+  });
+
+  test('formatScaledDecimal keeps order-preserving exact strings', () => {
+    expect(formatScaledDecimal(1234n, 2)).toBe('12.34');
+    expect(formatScaledDecimal(-5n, 2)).toBe('-0.05');
+    expect(formatScaledDecimal(7n, 0)).toBe('7');
+  });
+});
+
+describe('uuid() / ulid() builders', () => {
+  test('defaultRandom generates formatted ids', () => {
+    const users = convexTable('users_uuid_ulid_builder_test', {
+      publicId: uuid().notNull().defaultRandom(),
+      eventId: ulid().notNull().defaultRandom(),
+    });
+
+    const publicId = ((users as any).publicId as any).config;
+    const eventId = ((users as any).eventId as any).config;
+    expect(publicId.format).toBe('uuid');
+    expect(publicId.defaultFn?.()).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+    );
+    expect(eventId.format).toBe('ulid');
+    expect(eventId.defaultFn?.()).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+  });
+
+  test('generateUlid sorts by time', () => {
+    const earlier = generateUlid(Date.UTC(2024, 0, 1));
+    const later = generateUlid(Date.UTC(2024, 0, 2));
+    expect(earlier < later).toBe(true);
+    expect(generateUlid(0, () => 0)).toBe('0'.repeat(26));
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Decimal Column Builder
+ *
+ * Creates exact fixed-point columns in Convex tables.
+ * Values are stored as v.int64() scaled by 10^scale, so `12.34` in a
+ * `decimal({ scale: 2 })` column is stored as `1234n`. Storage order matches
+ * numeric order, so index() ranges and orderBy work on decimals.
+ *
+ * Reads return decimal strings (`mode: 'string'`, the default) or numbers
+ * (`mode: 'number'`). Writes and filters accept decimal strings, numbers
+ * (rounded to the scale), and Decimal-like objects with `toFixed()`
+ * (decimal.js, big.js); bigint values are taken as already scaled.
+ *
+ * @example
+ * decimal({ scale: 2 }).notNull() → v.int64()
+ * decimal({ scale: 4, mode: 'number' }) → v.optional(v.int64())
+ */
+
+import type { Validator } from 'convex/values';
+import { v } from 'convex/values';
+import {
+  type ColumnBuilderBaseConfig,
+  ConvexColumnBuilder,
+  entityKind,
+} from './convex-column-builder';
+
+export type ConvexDecimalMode = 'string' | 'number';
+
+const DECIMAL_STRING_RE = /^([+-])?(\d+)(?:\.(\d+))?$/;
+const NON_ZERO_DIGIT_RE = /[1-9]/;
+const MAX_DECIMAL_SCALE = 18;
+const MIN_INT64 = -(2n ** 63n);
+const MAX_INT64 = 2n ** 63n - 1n;
+
+type ConvexDecimalBuilderConfig<
+  TName extends string,
+  TMode extends ConvexDecimalMode,
+> = {
+  name: TName;
+  dataType: 'bigint';
+  columnType: 'ConvexDecimal';
+  data: TMode extends 'number' ? number : string;
+  driverParam: bigint;
+  enumValues: undefined;
+};
+
+export type ConvexDecimalBuilderInitial<
+  TName extends string,
+  TMode extends ConvexDecimalMode = 'string',
+> = ConvexDecimalBuilder<ConvexDecimalBuilderConfig<TName, TMode>, TMode>;
+
+type ConvexDecimalRuntimeConfig<TMode extends ConvexDecimalMode> = {
+  mode: TMode;
+  scale: number;
+};
+
+type ConvexDecimalBuilderArg<TMode extends ConvexDecimalMode> = {
+  scale: number;
+  mode?: TMode;
+};
+
+export class ConvexDecimalBuilder<
+  T extends ColumnBuilderBaseConfig<'bigint', 'ConvexDecimal'>,
+  TMode extends ConvexDecimalMode = ConvexDecimalMode,
+> extends ConvexColumnBuilder<T, ConvexDecimalRuntimeConfig<TMode>> {
+  static override readonly [entityKind]: string = 'ConvexDecimalBuilder';
+
+  constructor(name: T['name'], scale: number, mode: TMode) {
+    super(name, 'bigint', 'ConvexDecimal');
+    this.config.scale = scale;
+    this.config.mode = mode;
+  }
+
+  get convexValidator(): Validator<any, any, any> {
+    if (this.config.notNull) {
+      return v.int64();
+    }
+    return v.optional(v.union(v.null(), v.int64()));
+  }
+
+  override build(): Validator<any, any, any> {
+    return this.convexValidator;
+  }
+}
+
+/**
+ * Convert a decimal write/filter value to its stored scaled bigint.
+ * Strings with more fraction digits than the scale throw instead of rounding,
+ * and values whose scaled form does not fit in int64 throw.
+ * Values of any other type are returned unchanged for the validator to reject.
+ */
+export const toScaledDecimal = (value: unknown, scale: number): unknown => {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  let text: string;
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      return value;
+    }
+    // toFixed() switches to exponent notation from 1e21, past int64 anyway.
+    if (Math.abs(value) >= 1e21) {
+      throw outOfRange(String(value), scale);
+    }
+    text = value.toFixed(scale);
+  } else if (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof (value as { toFixed?: unknown }).toFixed === 'function'
+  ) {
+    const decimalLike = value as { toFixed: (digits: number) => unknown };
+    text = String(decimalLike.toFixed(scale));
+  } else if (typeof value === 'string') {
+    text = value.trim();
+  } else {
+    return value;
+  }
+
+  const match = DECIMAL_STRING_RE.exec(text);
+  if (!match) {
+    throw new Error(`Invalid decimal value '${text}'.`);
+  }
+  const [, sign, whole, fraction = ''] = match;
+  const extra = fraction.slice(scale);
+  if (NON_ZERO_DIGIT_RE.test(extra)) {
+    throw new Error(
+      `Decimal value '${text}' has more than ${scale} fraction digits.`
+    );
+  }
+  const digits = `${whole}${fraction.slice(0, scale).padEnd(scale, '0')}`;
+  const scaled = sign === '-' ? -BigInt(digits) : BigInt(digits);
+  if (scaled < MIN_INT64 || scaled > MAX_INT64) {
+    throw outOfRange(text, scale);
+  }
+  return scaled;
+};
+
+const outOfRange = (text: string, scale: number): Error =>
+  new Error(
+    `Decimal value '${text}' is outside the int64 range for decimal({ scale: ${scale} }).`
+  );
+
+/** Format a stored scaled bigint as a decimal string with `scale` digits. */
+export const formatScaledDecimal = (value: bigint, scale: number): string => {
+  const negative = value < 0n;
+  const digits = (negative ? -value : value)
+    .toString()
+    .padStart(scale + 1, '0');
+  const whole = digits.slice(0, digits.length - scale);
+  const fraction = digits.slice(digits.length - scale);
+  return `${negative ? '-' : ''}${whole}${scale > 0 ? `.${fraction}` : ''}`;
+};
+
+const normalizeDecimalFactoryArgs = (
+  nameOrConfig: string | ConvexDecimalBuilderArg<ConvexDecimalMode>,
+  maybeConfig?: ConvexDecimalBuilderArg<ConvexDecimalMode>
+): { name: string; scale: number; mode: ConvexDecimalMode } => {
+  const name = typeof nameOrConfig === 'string' ? nameOrConfig : '';
+  const config = typeof nameOrConfig === 'string' ? maybeConfig : nameOrConfig;
+  const scale = config?.scale;
+  if (
+    typeof scale !== 'number' ||
+    !Number.isInteger(scale) ||
+    scale < 0 ||
+    scale > MAX_DECIMAL_SCALE
+  ) {
+    throw new Error(
+      `decimal() scale must be an integer from 0 to ${MAX_DECIMAL_SCALE}.`
+    );
+  }
+  return {
+    name,
+    scale,
+    mode: config?.mode ?? 'string',
+  };
+};
+
+/**
+ * decimal() factory function
+ *
+ * @example
+ * decimal({ scale: 2 }) → unnamed column, string values
+ * decimal('price', { scale: 2, mode: 'number' }) → named column, numbers
+ */
+export function decimal<TMode extends ConvexDecimalMode = 'string'>(
+  config: ConvexDecimalBuilderArg<TMode>
+): ConvexDecimalBuilderInitial<'', TMode>;
+export function decimal<
+  TName extends string,
+  TMode extends ConvexDecimalMode = 'string',
+>(
+  name: TName,
+  config: ConvexDecimalBuilderArg<TMode>
+): ConvexDecimalBuilderInitial<TName, TMode>;
+export function decimal(
+  nameOrConfig: string | ConvexDecimalBuilderArg<ConvexDecimalMode>,
+  maybeConfig?: ConvexDecimalBuilderArg<ConvexDecimalMode>
+) {
+  const { name, scale, mode } = normalizeDecimalFactoryArgs(
+    nameOrConfig,
+    maybeConfig
+  );
+  return new ConvexDecimalBuilder(name, scale, mode);
+}
@@ -33,10 +33,14 @@ export {
   type ColumnBuilderWithTableName,
   type ColumnDataType,
   type DrizzleEntity,
+  type EncryptionMode,
   entityKind,
   type HasDefault,
+  type IsEncrypted,
+  type IsGenerated,
   type IsPrimaryKey,
   type IsUnique,
+  type IsVersion,
   type NotNull,
 } from './column-builder';
 export { ConvexColumnBuilder } from './convex-column-builder';
@@ -57,6 +61,15 @@ export {
   type ConvexDateMode,
   date,
 } from './date';
+// Decimal builder (scaled int64)
+export {
+  ConvexDecimalBuilder,
+  type ConvexDecimalBuilderInitial,
+  type ConvexDecimalMode,
+  decimal,
+  formatScaledDecimal,
+  toScaledDecimal,
+} from './decimal';
 // ID builder (Convex-specific)
 export {
   ConvexIdBuilder,
@@ -69,6 +82,12 @@ export {
   type ConvexNumberBuilderInitial,
   integer,
 } from './number';
+// Point builder (geospatial)
+export {
+  ConvexPointBuilder,
+  type ConvexPointBuilderInitial,
+  point,
+} from './point';
 // System fields
 export {
   ConvexSystemCreatedAtBuilder,
@@ -96,6 +115,18 @@ export {
   type ConvexTimestampMode,
   timestamp,
 } from './timestamp';
+// ULID / UUID builders
+export {
+  ConvexUlidBuilder,
+  type ConvexUlidBuilderInitial,
+  generateUlid,
+  ulid,
+} from './ulid';
+export {
+  ConvexUuidBuilder,
+  type ConvexUuidBuilderInitial,
+  uuid,
+} from './uuid';
 // Vector builder (Convex vector search)
 export {
   ConvexVectorBuilder,
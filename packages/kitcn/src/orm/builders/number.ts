@@ -10,10 +10,12 @@
  * @example
  * integer() → v.optional(v.number())
  * integer().default(0) → v.optional(v.number()) with default
+ * integer().$version() → v.number() row version, starts at 0
  */
 
 import type { Validator } from 'convex/values';
 import { v } from 'convex/values';
+import type { HasDefault, IsVersion, NotNull } from './column-builder';
 import {
   type ColumnBuilderBaseConfig,
   ConvexColumnBuilder,
@@ -56,6 +58,20 @@ export class ConvexNumberBuilder<
     return v.optional(v.union(v.null(), v.number()));
   }
 
+  /**
+   * Mark column as the row version for optimistic concurrency.
+   * Starts at 0 on insert. update() increments it on every write and, when
+   * where() includes eq(version, expected), throws
+   * OrmConcurrentModificationError if the stored version has moved on.
+   */
+  $version(): IsVersion<HasDefault<NotNull<this>>> {
+    this.config.version = true;
+    this.config.notNull = true;
+    this.config.default = 0 as T['data'];
+    this.config.hasDefault = true;
+    return this as IsVersion<HasDefault<NotNull<this>>>;
+  }
+
   /**
    * Compile to Convex validator
    * .notNull() → v.number()
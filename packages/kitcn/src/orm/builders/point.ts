@@ -0,0 +1,71 @@
+/**
+ * Point Column Builder
+ *
+ * Creates geographic point columns in Convex tables.
+ * Values are `{ lat, lng }` in degrees. Writes also store a `geohash`
+ * sub-field that geoIndex() indexes for near/within filters; reads drop it.
+ *
+ * @example
+ * point().notNull() → v.object({ lat, lng, geohash })
+ * point('location') → v.optional(v.object({ lat, lng, geohash }))
+ */
+
+import type { Validator } from 'convex/values';
+import { v } from 'convex/values';
+import type { GeoPoint } from '../geo';
+import {
+  type ColumnBuilderBaseConfig,
+  ConvexColumnBuilder,
+  entityKind,
+} from './convex-column-builder';
+
+export type ConvexPointBuilderInitial<TName extends string> =
+  ConvexPointBuilder<{
+    name: TName;
+    dataType: 'any';
+    columnType: 'ConvexPoint';
+    data: GeoPoint;
+    driverParam: GeoPoint;
+    enumValues: undefined;
+  }>;
+
+export class ConvexPointBuilder<
+  T extends ColumnBuilderBaseConfig<'any', 'ConvexPoint'>,
+> extends ConvexColumnBuilder<T> {
+  static override readonly [entityKind]: string = 'ConvexPointBuilder';
+
+  constructor(name: T['name']) {
+    super(name, 'any', 'ConvexPoint');
+  }
+
+  get convexValidator(): Validator<any, any, any> {
+    const validator = v.object({
+      lat: v.float64(),
+      lng: v.float64(),
+      geohash: v.string(),
+    });
+    if (this.config.notNull) {
+      return validator;
+    }
+    return v.optional(v.union(v.null(), validator));
+  }
+
+  override build(): Validator<any, any, any> {
+    return this.convexValidator;
+  }
+}
+
+/**
+ * point() factory function
+ *
+ * @example
+ * point() → unnamed column
+ * point('location') → named column
+ */
+export function point(): ConvexPointBuilderInitial<''>;
+export function point<TName extends string>(
+  name: TName
+): ConvexPointBuilderInitial<TName>;
+export function point(name?: string) {
+  return new ConvexPointBuilder(name ?? '');
+}
@@ -12,6 +12,7 @@
 
 import type { Validator } from 'convex/values';
 import { v } from 'convex/values';
+import type { EncryptionMode, IsEncrypted } from './column-builder';
 import {
   type ColumnBuilderBaseConfig,
   ConvexColumnBuilder,
@@ -45,6 +46,31 @@ export class ConvexTextBuilder<
     super(name, 'string', 'ConvexText');
   }
 
+  /**
+   * Store the column encrypted with AES-GCM. The ORM seals values on insert
+   * and update and opens them on read, so row types stay plaintext. Keys come
+   * from createOrm({ encryption }).
+   *
+   * Randomized columns (the default) cannot be filtered or indexed.
+   * `mode: 'deterministic'` keeps equal values equal so eq/ne/in/notIn
+   * filters and index() work, at the cost of revealing which rows share a
+   * value.
+   */
+  encrypted(): IsEncrypted<this, 'randomized'>;
+  encrypted<TMode extends EncryptionMode>(config: {
+    mode: TMode;
+  }): IsEncrypted<this, TMode>;
+  encrypted(config?: { mode: EncryptionMode }): this {
+    const mode = config?.mode ?? 'randomized';
+    if (mode !== 'randomized' && mode !== 'deterministic') {
+      throw new Error(
+        "encrypted() mode must be 'randomized' or 'deterministic'."
+      );
+    }
+    this.config.encrypted = mode;
+    return this;
+  }
+
   /**
    * Expose Convex validator for schema integration
    */
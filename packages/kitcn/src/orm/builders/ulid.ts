@@ -0,0 +1,101 @@
+/**
+ * ULID Column Builder
+ *
+ * Creates string columns for ULIDs: 26-character Crockford base32 ids whose
+ * first 10 characters encode the creation time, so they sort by insertion
+ * order. Maps to Convex v.string() like text().
+ *
+ * @example
+ * ulid().notNull().defaultRandom().unique() → v.string() with a new ULID
+ * ulid() → v.optional(v.string())
+ */
+
+import type { Validator } from 'convex/values';
+import { v } from 'convex/values';
+import type { HasDefault } from './column-builder';
+import {
+  type ColumnBuilderBaseConfig,
+  ConvexColumnBuilder,
+  entityKind,
+} from './convex-column-builder';
+
+const CROCKFORD_BASE32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const ULID_TIME_LENGTH = 10;
+const ULID_RANDOM_LENGTH = 16;
+
+/**
+ * Generate a ULID for `time` (ms since epoch, default now). `random` replaces
+ * crypto randomness for reproducible ids (seeding, tests).
+ */
+export const generateUlid = (
+  time: number = Date.now(),
+  random?: () => number
+): string => {
+  let timePart = '';
+  let remaining = Math.floor(time);
+  for (let i = 0; i < ULID_TIME_LENGTH; i += 1) {
+    timePart = CROCKFORD_BASE32[remaining % 32] + timePart;
+    remaining = Math.floor(remaining / 32);
+  }
+  const values = random
+    ? Array.from({ length: ULID_RANDOM_LENGTH }, () =>
+        Math.floor(random() * 32)
+      )
+    : crypto.getRandomValues(new Uint8Array(ULID_RANDOM_LENGTH));
+  let randomPart = '';
+  for (const value of values) {
+    randomPart += CROCKFORD_BASE32[value % 32];
+  }
+  return timePart + randomPart;
+};
+
+export type ConvexUlidBuilderInitial<TName extends string> = ConvexUlidBuilder<{
+  name: TName;
+  dataType: 'string';
+  columnType: 'ConvexText';
+  data: string;
+  driverParam: string;
+  enumValues: undefined;
+}>;
+
+export class ConvexUlidBuilder<
+  T extends ColumnBuilderBaseConfig<'string', 'ConvexText'>,
+> extends ConvexColumnBuilder<T, { format: 'ulid' }> {
+  static override readonly [entityKind]: string = 'ConvexUlidBuilder';
+
+  constructor(name: T['name']) {
+    super(name, 'string', 'ConvexText');
+    this.config.format = 'ulid';
+  }
+
+  /** Default to a new ULID (current time + random) on insert. */
+  defaultRandom(): HasDefault<this> {
+    return this.$defaultFn(() => generateUlid() as any);
+  }
+
+  get convexValidator(): Validator<any, any, any> {
+    if (this.config.notNull) {
+      return v.string();
+    }
+    return v.optional(v.union(v.null(), v.string()));
+  }
+
+  override build(): Validator<any, any, any> {
+    return this.convexValidator;
+  }
+}
+
+/**
+ * ulid() factory function
+ *
+ * @example
+ * ulid() → unnamed column
+ * ulid('public_id') → named column
+ */
+export function ulid(): ConvexUlidBuilderInitial<''>;
+export function ulid<TName extends string>(
+  name: TName
+): ConvexUlidBuilderInitial<TName>;
+export function ulid(name?: string) {
+  return new ConvexUlidBuilder(name ?? '');
+}
@@ -0,0 +1,71 @@
+/**
+ * UUID Column Builder
+ *
+ * Creates string columns for UUIDs, typically public identifiers that should
+ * not leak Convex document ids. Maps to Convex v.string() like text(), so
+ * filters, index() and orderBy behave the same.
+ *
+ * @example
+ * uuid().notNull().defaultRandom().unique() → v.string() with a random v4 UUID
+ * uuid() → v.optional(v.string())
+ */
+
+import type { Validator } from 'convex/values';
+import { v } from 'convex/values';
+import type { HasDefault } from './column-builder';
+import {
+  type ColumnBuilderBaseConfig,
+  ConvexColumnBuilder,
+  entityKind,
+} from './convex-column-builder';
+
+export type ConvexUuidBuilderInitial<TName extends string> = ConvexUuidBuilder<{
+  name: TName;
+  dataType: 'string';
+  columnType: 'ConvexText';
+  data: string;
+  driverParam: string;
+  enumValues: undefined;
+}>;
+
+export class ConvexUuidBuilder<
+  T extends ColumnBuilderBaseConfig<'string', 'ConvexText'>,
+> extends ConvexColumnBuilder<T, { format: 'uuid' }> {
+  static override readonly [entityKind]: string = 'ConvexUuidBuilder';
+
+  constructor(name: T['name']) {
+    super(name, 'string', 'ConvexText');
+    this.config.format = 'uuid';
+  }
+
+  /** Default to a random v4 UUID (crypto.randomUUID()) on insert. */
+  defaultRandom(): HasDefault<this> {
+    return this.$defaultFn(() => crypto.randomUUID() as any);
+  }
+
+  get convexValidator(): Validator<any, any, any> {
+    if (this.config.notNull) {
+      return v.string();
+    }
+    return v.optional(v.union(v.null(), v.string()));
+  }
+
+  override build(): Validator<any, any, any> {
+    return this.convexValidator;
+  }
+}
+
+/**
+ * uuid() factory function
+ *
+ * @example
+ * uuid() → unnamed column
+ * uuid('public_id') → named column
+ */
+export function uuid(): ConvexUuidBuilderInitial<''>;
+export function uuid<TName extends string>(
+  name: TName
+): ConvexUuidBuilderInitial<TName>;
+export function uuid(name?: string) {
+  return new ConvexUuidBuilder(name ?? '');
+}
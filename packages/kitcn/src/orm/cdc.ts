@@ -0,0 +1,372 @@
+/**
+ * Change data capture - `defineSchema(tables).extend(cdcExtension())`
+ *
+ * Every insert, update, and delete made through the ORM on a captured table
+ * appends one row to `cdc_log`. Rows are numbered from a single counter in
+ * `cdc_state`, so `seq` is gap-free and follows commit order: two mutations
+ * that both capture a change conflict on the counter and Convex retries one
+ * of them. The price is that writes to captured tables are serialized;
+ * narrow `tables` when that matters.
+ *
+ * Consumers read pages with `cdcFeedFactory` and store the returned cursor.
+ */
+
+import type {
+  GenericDatabaseReader,
+  GenericDatabaseWriter,
+  SchedulableFunctionReference,
+  Scheduler,
+} from 'convex/server';
+import { type Duration, toMs } from '../ratelimit/duration';
+import { integer, json, text } from './builders';
+import { defineSchemaExtension, type SchemaExtension } from './extensions';
+import { index } from './indexes';
+import { normalizePublicSystemFields } from './mutation-utils';
+import type {
+  TableRelationalConfig,
+  TablesRelationalConfig,
+} from './relations';
+import { OrmSchemaExtensionTables, TableCdcConfig } from './symbols';
+import { type ConvexTable, convexTable } from './table';
+import { usesSystemCreatedAtAlias } from './timestamp-mode';
+import type { OrmTriggerChange } from './triggers';
+
+export const CDC_LOG_TABLE = 'cdc_log';
+export const CDC_STATE_TABLE = 'cdc_state';
+const DEFAULT_CDC_FEED_LIMIT = 100;
+const MAX_CDC_FEED_LIMIT = 1000;
+const DEFAULT_CDC_PRUNE_BATCH_SIZE = 256;
+const CDC_CURSOR_RE = /^\d+$/;
+
+type AnyRecord = Record<string, unknown>;
+
+export type CdcOptions = {
+  /** Tables to capture, by database name. Defaults to every table. */
+  tables?: readonly string[];
+  /** Tables to leave out, by database name. */
+  exclude?: readonly string[];
+  /**
+   * How long log rows are kept once the prune worker runs: a number of ms
+   * or a duration like `'7d'`. Omit to keep rows forever.
+   */
+  retain?: Duration;
+};
+
+type OrmCdcConfig = {
+  tables?: readonly string[];
+  exclude: readonly string[];
+  retainMs?: number;
+};
+
+export type OrmCdcChange = {
+  seq: number;
+  table: string;
+  id: string;
+  changedAt: number;
+} & (
+  | { operation: 'insert'; oldDoc: null; newDoc: AnyRecord }
+  | { operation: 'update'; oldDoc: AnyRecord; newDoc: AnyRecord }
+  | { operation: 'delete'; oldDoc: AnyRecord; newDoc: null }
+);
+
+export type CdcFeedArgs = {
+  /** Cursor returned by the previous page. Omit to start from the beginning. */
+  cursor?: string | null;
+  /** Only return changes to these tables, by database name. */
+  tables?: string[];
+  limit?: number;
+};
+
+export type CdcFeedPage = {
+  changes: OrmCdcChange[];
+  /** Pass back as `cursor` to read the next page. */
+  cursor: string;
+  hasMore: boolean;
+};
+
+export type CdcPruneArgs = {
+  batchSize?: number;
+};
+
+/**
+ * Builds the `cdc_log` and `cdc_state` tables.
+ *
+ * @example
+ * export default defineSchema(tables).extend(
+ *   cdcExtension({ exclude: ['sessions'], retain: '7d' })
+ * );
+ */
+export function cdcExtension(options: CdcOptions = {}) {
+  const log = convexTable(
+    CDC_LOG_TABLE,
+    {
+      seq: integer().notNull(),
+      sourceTable: text().notNull(),
+      operation: text().notNull(),
+      recordId: text().notNull(),
+      oldDoc: json(),
+      newDoc: json(),
+      changedAt: integer().notNull(),
+    },
+    (t) => [
+      index('by_seq').on(t.seq),
+      index('by_table_seq').on(t.sourceTable, t.seq),
+      index('by_changed_at').on(t.changedAt),
+    ]
+  );
+  (log as any)[TableCdcConfig] = {
+    tables: options.tables,
+    exclude: options.exclude ?? [],
+    retainMs: options.retain === undefined ? undefined : toMs(options.retain),
+  } satisfies OrmCdcConfig;
+
+  const state = convexTable(CDC_STATE_TABLE, {
+    seq: integer().notNull(),
+  });
+
+  return defineSchemaExtension('cdc', {
+    [CDC_LOG_TABLE]: log,
+    [CDC_STATE_TABLE]: state,
+  }) as SchemaExtension<{
+    [CDC_LOG_TABLE]: typeof log;
+    [CDC_STATE_TABLE]: typeof state;
+  }>;
+}
+
+const getCdcConfig = (
+  schema: TablesRelationalConfig
+): OrmCdcConfig | undefined => {
+  for (const tableConfig of Object.values(schema)) {
+    const config = (
+      tableConfig?.table as { [TableCdcConfig]?: OrmCdcConfig } | undefined
+    )?.[TableCdcConfig];
+    if (config) {
+      return config;
+    }
+  }
+  return;
+};
+
+const requireCdcConfig = (schema: TablesRelationalConfig): OrmCdcConfig => {
+  const config = getCdcConfig(schema);
+  if (!config) {
+    throw new Error(
+      'Schema does not capture changes. Add .extend(cdcExtension()) to defineSchema.'
+    );
+  }
+  return config;
+};
+
+/** Tables whose changes are logged, by database name. */
+const getCapturedTables = (
+  schema: TablesRelationalConfig,
+  config: OrmCdcConfig
+): TableRelationalConfig[] => {
+  const extensionTableNames =
+    (schema as { [OrmSchemaExtensionTables]?: readonly string[] })[
+      OrmSchemaExtensionTables
+    ] ?? [];
+  const userTables = Object.values(schema).filter(
+    (tableConfig) =>
+      tableConfig?.table &&
+      tableConfig.name &&
+      !extensionTableNames.includes(tableConfig.name)
+  );
+
+  for (const tableName of [...(config.tables ?? []), ...config.exclude]) {
+    if (!userTables.some((tableConfig) => tableConfig.name === tableName)) {
+      throw new Error(
+        `cdcExtension() table '${tableName}' is not defined in the schema.`
+      );
+    }
+  }
+  return userTables.filter(
+    (tableConfig) =>
+      (!config.tables || config.tables.includes(tableConfig.name)) &&
+      !config.exclude.includes(tableConfig.name)
+  );
+};
+
+const toCdcDoc = (
+  table: ConvexTable<any>,
+  doc: AnyRecord | null
+): AnyRecord | null =>
+  doc
+    ? normalizePublicSystemFields(doc, {
+        useSystemCreatedAtAlias: usesSystemCreatedAtAlias(table),
+      })
+    : null;
+
+type CdcChangeHook = (
+  change: OrmTriggerChange<AnyRecord>,
+  ctx: AnyRecord
+) => Promise<void>;
+
+/**
+ * Change hooks that append to `cdc_log`, keyed by the database name of every
+ * captured table. Empty when the schema does not use `cdcExtension()`.
+ */
+export function createCdcChangeHooks(
+  schema: TablesRelationalConfig
+): Map<string, CdcChangeHook> {
+  const hooks = new Map<string, CdcChangeHook>();
+  const config = getCdcConfig(schema);
+  if (!config) {
+    return hooks;
+  }
+
+  for (const tableConfig of getCapturedTables(schema, config)) {
+    const table = tableConfig.table as ConvexTable<any>;
+    hooks.set(tableConfig.name, async (change, ctx) => {
+      const db = ctx.db as GenericDatabaseWriter<any>;
+      const state = (await db.query(CDC_STATE_TABLE as any).first()) as {
+        _id: string;
+        seq: number;
+      } | null;
+      const seq = (state?.seq ?? 0) + 1;
+      if (state) {
+        await db.patch(CDC_STATE_TABLE as any, state._id as any, { seq });
+      } else {
+        await db.insert(CDC_STATE_TABLE as any, { seq } as any);
+      }
+
+      await db.insert(
+        CDC_LOG_TABLE as any,
+        {
+          seq,
+          sourceTable: tableConfig.name,
+          operation: change.operation,
+          recordId: String(change.id),
+          oldDoc: toCdcDoc(table, change.oldDoc),
+          newDoc: toCdcDoc(table, change.newDoc),
+          changedAt: Date.now(),
+        } as any
+      );
+    });
+  }
+  return hooks;
+}
+
+const parseCdcCursor = (cursor: string | null | undefined): number => {
+  if (cursor === undefined || cursor === null || cursor === '') {
+    return 0;
+  }
+  if (!CDC_CURSOR_RE.test(cursor)) {
+    throw new Error(`Invalid cdcFeed cursor '${cursor}'.`);
+  }
+  return Number(cursor);
+};
+
+const toCdcChange = (row: AnyRecord): OrmCdcChange =>
+  ({
+    seq: row.seq as number,
+    table: row.sourceTable as string,
+    operation: row.operation,
+    id: row.recordId as string,
+    oldDoc: (row.oldDoc as AnyRecord | undefined) ?? null,
+    newDoc: (row.newDoc as AnyRecord | undefined) ?? null,
+    changedAt: row.changedAt as number,
+  }) as OrmCdcChange;
+
+/**
+ * Reads `cdc_log` in `seq` order, starting after `cursor`. Documents are
+ * returned as stored: public `id` / `createdAt` fields and plain values, so
+ * pages can cross function and HTTP boundaries unchanged.
+ */
+export function cdcFeedFactory<TSchema extends TablesRelationalConfig>(
+  schema: TSchema
+) {
+  const config = requireCdcConfig(schema);
+  const capturedTableNames = getCapturedTables(schema, config).map(
+    (tableConfig) => tableConfig.name
+  );
+
+  return async function cdcFeed(
+    ctx: { db: GenericDatabaseReader<any> },
+    args: CdcFeedArgs = {}
+  ): Promise<CdcFeedPage> {
+    const limit = args.limit ?? DEFAULT_CDC_FEED_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_CDC_FEED_LIMIT) {
+      throw new Error(
+        `cdcFeed limit must be an integer between 1 and ${MAX_CDC_FEED_LIMIT}.`
+      );
+    }
+    const after = parseCdcCursor(args.cursor);
+    for (const tableName of args.tables ?? []) {
+      if (!capturedTableNames.includes(tableName)) {
+        throw new Error(
+          `cdcFeed table '${tableName}' is not captured. Captured tables: ${capturedTableNames.join(', ')}.`
+        );
+      }
+    }
+
+    const logQuery = () => ctx.db.query(CDC_LOG_TABLE as any) as any;
+    let rows: AnyRecord[];
+    if (args.tables && args.tables.length > 0) {
+      // Each table's index yields its smallest seqs first, so merging the
+      // first limit + 1 rows of every table gives the first page overall.
+      rows = [];
+      for (const tableName of new Set(args.tables)) {
+        rows.push(
+          ...((await logQuery()
+            .withIndex('by_table_seq', (q: any) =>
+              q.eq('sourceTable', tableName).gt('seq', after)
+            )
+            .take(limit + 1)) as AnyRecord[])
+        );
+      }
+      rows.sort((a, b) => (a.seq as number) - (b.seq as number));
+    } else {
+      rows = (await logQuery()
+        .withIndex('by_seq', (q: any) => q.gt('seq', after))
+        .take(limit + 1)) as AnyRecord[];
+    }
+
+    const changes = rows.slice(0, limit).map(toCdcChange);
+    return {
+      changes,
+      cursor: String(changes.at(-1)?.seq ?? after),
+      hasMore: rows.length > limit,
+    };
+  };
+}
+
+/**
+ * Deletes `cdc_log` rows older than `retain` in batches, rescheduling itself
+ * through `cdcPrune` while more remain. A no-op when `retain` is not set.
+ */
+export function cdcPruneFactory<TSchema extends TablesRelationalConfig>(
+  schema: TSchema,
+  cdcPrune?: SchedulableFunctionReference
+) {
+  const { retainMs } = requireCdcConfig(schema);
+
+  return async function cdcPruneWorker(
+    ctx: { db: GenericDatabaseWriter<any>; scheduler?: Scheduler },
+    args: CdcPruneArgs = {}
+  ): Promise<{ deleted: number; hasMore: boolean }> {
+    const batchSize = args.batchSize ?? DEFAULT_CDC_PRUNE_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error('cdcPrune batchSize must be a positive integer.');
+    }
+    if (retainMs === undefined) {
+      return { deleted: 0, hasMore: false };
+    }
+
+    const expired = await ctx.db
+      .query(CDC_LOG_TABLE as any)
+      .withIndex('by_changed_at', (q: any) =>
+        q.lt('changedAt', Date.now() - retainMs)
+      )
+      .take(batchSize);
+    for (const row of expired) {
+      await ctx.db.delete(CDC_LOG_TABLE as any, row._id);
+    }
+
+    const hasMore = expired.length === batchSize;
+    if (hasMore && cdcPrune && ctx.scheduler) {
+      await ctx.scheduler.runAfter(0, cdcPrune, { batchSize });
+    }
+    return { deleted: expired.length, hasMore };
+  };
+}
@@ -0,0 +1,154 @@
+import { describe, expect, test } from 'vitest';
+import { convexTest } from '../../../../convex/setup.testing';
+import { text } from './builders/text';
+import {
+  CDC_LOG_TABLE,
+  cdcExtension,
+  cdcFeedFactory,
+  cdcPruneFactory,
+} from './cdc';
+import { createOrm } from './create-orm';
+import { eq } from './filter-expression';
+import { defineSchema, requireSchemaRelations } from './schema';
+import { convexTable } from './table';
+
+const posts = convexTable('cdc_posts', {
+  title: text().notNull(),
+});
+const sessions = convexTable('cdc_sessions', {
+  token: text().notNull(),
+});
+
+const tables = { cdc_posts: posts, cdc_sessions: sessions };
+
+const setup = (options?: Parameters<typeof cdcExtension>[0]) => {
+  const schema = defineSchema(tables)
+    .extend(cdcExtension(options))
+    .relations(() => ({}));
+  const relations = requireSchemaRelations(schema);
+  const ormClient = createOrm({
+    schema,
+    ormFunctions: {
+      scheduledMutationBatch: {} as any,
+      scheduledDelete: {} as any,
+    },
+  });
+  return { schema, relations, ormClient };
+};
+
+describe('orm/cdc', () => {
+  test('logs inserts, updates, and deletes in sequence', async () => {
+    const { schema, relations, ormClient } = setup();
+    const feed = cdcFeedFactory(relations);
+    const t = convexTest(schema);
+
+    await t.run(async (baseCtx) => {
+      const ctx = ormClient.with(baseCtx as any) as any;
+      const [post] = await ctx.orm
+        .insert(posts)
+        .values({ title: 'Draft' })
+        .returning();
+      await ctx.orm.insert(sessions).values({ token: 'abc' });
+      await ctx.orm
+        .update(posts)
+        .set({ title: 'Final' })
+        .where(eq(posts.id, post.id));
+      await ctx.orm.delete(posts).where(eq(posts.id, post.id));
+
+      const page = await feed(baseCtx as any);
+      expect(
+        page.changes.map(({ seq, table, operation }) => [seq, table, operation])
+      ).toEqual([
+        [1, 'cdc_posts', 'insert'],
+        [2, 'cdc_sessions', 'insert'],
+        [3, 'cdc_posts', 'update'],
+        [4, 'cdc_posts', 'delete'],
+      ]);
+      expect(page.changes[2]).toMatchObject({
+        id: post.id,
+        oldDoc: { id: post.id, title: 'Draft' },
+        newDoc: { id: post.id, title: 'Final' },
+      });
+      expect(page.changes[3]).toMatchObject({
+        oldDoc: { title: 'Final' },
+        newDoc: null,
+      });
+      expect(page).toMatchObject({ cursor: '4', hasMore: false });
+    });
+  });
+
+  test('pages by cursor and filters by table', async () => {
+    const { schema, relations, ormClient } = setup();
+    const feed = cdcFeedFactory(relations);
+    const t = convexTest(schema);
+
+    await t.run(async (baseCtx) => {
+      const ctx = ormClient.with(baseCtx as any) as any;
+      for (const title of ['a', 'b', 'c']) {
+        await ctx.orm.insert(posts).values({ title });
+        await ctx.orm.insert(sessions).values({ token: title });
+      }
+
+      const first = await feed(baseCtx as any, {
+        tables: ['cdc_posts'],
+        limit: 2,
+      });
+      expect(first.changes.map((change) => change.seq)).toEqual([1, 3]);
+      expect(first).toMatchObject({ cursor: '3', hasMore: true });
+
+      const second = await feed(baseCtx as any, {
+        cursor: first.cursor,
+        tables: ['cdc_posts'],
+        limit: 2,
+      });
+      expect(second.changes.map((change) => change.seq)).toEqual([5]);
+      expect(second).toMatchObject({ cursor: '5', hasMore: false });
+
+      const rest = await feed(baseCtx as any, { cursor: second.cursor });
+      expect(rest.changes.map((change) => change.seq)).toEqual([6]);
+
+      await expect(
+        feed(baseCtx as any, { tables: ['cdc_log'] })
+      ).rejects.toThrow("cdcFeed table 'cdc_log' is not captured.");
+      await expect(feed(baseCtx as any, { cursor: 'abc' })).rejects.toThrow(
+        "Invalid cdcFeed cursor 'abc'."
+      );
+    });
+  });
+
+  test('skips excluded tables and prunes expired rows', async () => {
+    const { schema, relations, ormClient } = setup({
+      exclude: ['cdc_sessions'],
+      retain: 1000,
+    });
+    const prune = cdcPruneFactory(relations);
+    const t = convexTest(schema);
+
+    await t.run(async (baseCtx) => {
+      const ctx = ormClient.with(baseCtx as any) as any;
+      await ctx.orm.insert(posts).values({ title: 'Old' });
+      await ctx.orm.insert(sessions).values({ token: 'abc' });
+
+      const [entry] = await baseCtx.db.query(CDC_LOG_TABLE as any).collect();
+      expect(entry).toMatchObject({ seq: 1, sourceTable: 'cdc_posts' });
+      await baseCtx.db.patch(entry._id, { changedAt: Date.now() - 5000 });
+      await ctx.orm.insert(posts).values({ title: 'New' });
+
+      expect(await prune(baseCtx as any)).toEqual({
+        deleted: 1,
+        hasMore: false,
+      });
+      expect(
+        (await baseCtx.db.query(CDC_LOG_TABLE as any).collect()).map(
+          (row: any) => row.seq
+        )
+      ).toEqual([2]);
+    });
+  });
+
+  test('rejects unknown tables in options', () => {
+    expect(() => setup({ tables: ['missing'] })).toThrow(
+      "cdcExtension() table 'missing' is not defined in the schema."
+    );
+  });
+});
@@ -87,6 +87,7 @@ describe('createOrm type adapters', () => {
     expect(api).toHaveProperty('migrationRunChunk');
     expect(api).toHaveProperty('migrationStatus');
     expect(api).toHaveProperty('migrationCancel');
+    expect(api).toHaveProperty('migrationVerifyChunk');
   });
 
   test('getResetTableNames includes migration and aggregate internal tables by default', () => {
@@ -96,6 +97,7 @@ describe('createOrm type adapters', () => {
     expect(tableNames).toContain('migration_state');
     expect(tableNames).toContain('migration_run');
     expect(tableNames).toContain('aggregate_state');
+    expect(tableNames).toContain('trigger_queue');
     expect(tableNames).not.toContain('ratelimitState');
     expect(tableNames).not.toContain('ratelimitDynamicLimit');
     expect(tableNames).not.toContain('ratelimitProtectionHit');
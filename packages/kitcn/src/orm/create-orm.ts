@@ -8,12 +8,18 @@ import {
 } from 'convex/server';
 import { v } from 'convex/values';
 import { createCountBackfillHandlers } from './aggregate-index/backfill';
+import {
+  createDataTransferHandlers,
+  type DataExportPageArgs,
+} from './data-transfer';
 import {
   type CreateDatabaseOptions,
   createDatabase,
   type OrmReader,
   type OrmWriter,
 } from './database';
+import { createDeferredTriggerHandlers } from './deferred-triggers';
+import type { OrmEncryptionOptions } from './encryption';
 import { extractRelationsConfig } from './extractRelationsConfig';
 import { createOrmDbLifecycle, type OrmDbLifecycle } from './lifecycle';
 import { createMigrationHandlers, type MigrationSet } from './migrations';
@@ -26,9 +32,12 @@ import { defineRelations } from './relations';
 import { scheduledDeleteFactory } from './scheduled-delete';
 import { scheduledMutationBatchFactory } from './scheduled-mutation-batch';
 import { getSchemaRelations, getSchemaTriggers } from './schema';
+import { createSeedHandlers, type SeedDefinition } from './seed';
 import { OrmSchemaExtensionTables, OrmSchemaRelations } from './symbols';
+import { assertTenancyColumns, type OrmTenancyOptions } from './tenancy';
 import type { OrmTriggers } from './triggers';
 import type { VectorSearchProvider } from './types';
+import { createViewHandlers } from './views';
 
 export type OrmFunctions = {
   scheduledMutationBatch: SchedulableFunctionReference;
@@ -36,6 +45,11 @@ export type OrmFunctions = {
   aggregateBackfillChunk?: SchedulableFunctionReference;
   migrationRunChunk?: SchedulableFunctionReference;
   resetChunk?: SchedulableFunctionReference;
+  seedRunChunk?: SchedulableFunctionReference;
+  viewRebuildChunk?: SchedulableFunctionReference;
+  deferredTriggerRun?: SchedulableFunctionReference;
+  deferredTriggerExecute?: SchedulableFunctionReference;
+  deferredTriggerSettle?: SchedulableFunctionReference;
 };
 
 export type CreateOrmOptions = CreateDatabaseOptions;
@@ -97,7 +111,13 @@ type GenericOrmCtx<
 type CreateOrmConfigBase<TSchema extends OrmSchemaInput> = {
   schema: TSchema;
   migrations?: MigrationSet<any>;
+  /** defineSeed() steps run by `kitcn seed`. */
+  seed?: SeedDefinition<any>;
   internalMutation?: typeof internalMutationGeneric;
+  /** Keys for text().encrypted() columns, shared by every orm.db(ctx). */
+  encryption?: OrmEncryptionOptions;
+  /** Scope tables with this column to the tenant resolved per request. */
+  tenancy?: OrmTenancyOptions;
 };
 
 type CreateOrmConfigWithFunctions<TSchema extends OrmSchemaInput> =
@@ -127,8 +147,19 @@ type OrmApiResult = {
   migrationRunChunk: ReturnType<typeof internalMutationGeneric>;
   migrationStatus: ReturnType<typeof internalMutationGeneric>;
   migrationCancel: ReturnType<typeof internalMutationGeneric>;
+  migrationVerifyChunk: ReturnType<typeof internalMutationGeneric>;
   resetChunk: ReturnType<typeof internalMutationGeneric>;
   reset: ReturnType<typeof internalActionGeneric>;
+  seedRunChunk: ReturnType<typeof internalMutationGeneric>;
+  seedRun: ReturnType<typeof internalActionGeneric>;
+  viewRebuildChunk: ReturnType<typeof internalMutationGeneric>;
+  viewRebuild: ReturnType<typeof internalActionGeneric>;
+  deferredTriggerRun: ReturnType<typeof internalActionGeneric>;
+  deferredTriggerExecute: ReturnType<typeof internalMutationGeneric>;
+  deferredTriggerSettle: ReturnType<typeof internalMutationGeneric>;
+  deferredTriggerRetry: ReturnType<typeof internalMutationGeneric>;
+  dataExportPage: ReturnType<typeof internalMutationGeneric>;
+  dataImportChunk: ReturnType<typeof internalMutationGeneric>;
 };
 
 type OrmClientBase<TSchema extends TablesRelationalConfig> = {
@@ -212,10 +243,24 @@ function resolveOrmSchemaConfig<TSchema extends OrmSchemaInput>(
   };
 }
 
+// Tenancy resolves from rls.ctx when given, otherwise from the ctx the ORM
+// was created with.
+const bindTenancyCtx = (
+  tenancy: OrmTenancyOptions | undefined,
+  ctx: unknown
+): OrmTenancyOptions | undefined =>
+  tenancy && ctx
+    ? {
+        column: tenancy.column,
+        resolve: (rlsCtx) => tenancy.resolve(rlsCtx ?? ctx),
+      }
+    : tenancy;
+
 function createDbFactory<TSchema extends TablesRelationalConfig>(
   schema: TSchema,
   dbLifecycle: OrmDbLifecycle,
-  ormFunctions?: OrmFunctions
+  ormFunctions?: OrmFunctions,
+  shared?: Pick<CreateOrmOptions, 'encryption' | 'tenancy'>
 ): OrmFactory<TSchema> {
   const edgeMetadata = extractRelationsConfig(schema as TablesRelationalConfig);
   return (<TSource extends OrmSource>(
@@ -243,6 +288,8 @@ function createDbFactory<TSchema extends TablesRelationalConfig>(
       vectorSearch,
       scheduledDelete,
       scheduledMutationBatch,
+      encryption: options?.encryption ?? shared?.encryption,
+      tenancy: bindTenancyCtx(options?.tenancy ?? shared?.tenancy, ctxSource),
     }) as OrmResult<TSource, TSchema>;
 
     // Make orm available in trigger context for both orm.with(ctx) and orm.db(writer) paths.
@@ -269,11 +316,26 @@ export function createOrm<TSchema extends OrmSchemaInput>(
   const { schema: resolvedSchema, triggers } = resolveOrmSchemaConfig(
     config.schema
   );
-  const dbLifecycle = createOrmDbLifecycle(resolvedSchema, triggers);
+  let deferredTriggerRunRef: SchedulableFunctionReference | undefined =
+    config.ormFunctions?.deferredTriggerRun;
+  const dbLifecycle = createOrmDbLifecycle(resolvedSchema, triggers, {
+    getDeferredTriggerRunRef: () => deferredTriggerRunRef,
+  });
   const edgeMetadata = extractRelationsConfig(
     resolvedSchema as TablesRelationalConfig
   );
-  const db = createDbFactory(resolvedSchema, dbLifecycle, config.ormFunctions);
+  if (config.tenancy) {
+    assertTenancyColumns(
+      Object.values(resolvedSchema as TablesRelationalConfig).map(
+        (tableConfig) => tableConfig.table as any
+      ),
+      config.tenancy.column
+    );
+  }
+  const db = createDbFactory(resolvedSchema, dbLifecycle, config.ormFunctions, {
+    encryption: config.encryption,
+    tenancy: config.tenancy,
+  });
   const withContext = <TContext extends OrmReaderCtx | OrmWriterCtx>(
     ctx: TContext,
     options?: CreateOrmOptions
@@ -306,6 +368,14 @@ export function createOrm<TSchema extends OrmSchemaInput>(
         config.ormFunctions.migrationRunChunk;
       let resetChunkRef: SchedulableFunctionReference | undefined =
         config.ormFunctions.resetChunk;
+      let seedRunChunkRef: SchedulableFunctionReference | undefined =
+        config.ormFunctions.seedRunChunk;
+      let viewRebuildChunkRef: SchedulableFunctionReference | undefined =
+        config.ormFunctions.viewRebuildChunk;
+      let deferredTriggerExecuteRef: SchedulableFunctionReference | undefined =
+        config.ormFunctions.deferredTriggerExecute;
+      let deferredTriggerSettleRef: SchedulableFunctionReference | undefined =
+        config.ormFunctions.deferredTriggerSettle;
       const countBackfillHandlers = createCountBackfillHandlers(
         resolvedSchema,
         () => aggregateBackfillChunkRef
@@ -316,6 +386,29 @@ export function createOrm<TSchema extends OrmSchemaInput>(
         getOrm: (ctx) => db(ctx as any) as OrmWriter<ResolveOrmSchema<TSchema>>,
         getChunkRef: () => migrationRunChunkRef,
       });
+      const seedHandlers = createSeedHandlers({
+        schema: resolvedSchema,
+        seed: config.seed,
+        getOrm: (ctx) => db(ctx as any) as OrmWriter<ResolveOrmSchema<TSchema>>,
+        getChunkRef: () => seedRunChunkRef,
+      });
+      const viewHandlers = createViewHandlers({
+        schema: resolvedSchema,
+        getOrm: (ctx) => db(ctx as any) as OrmWriter<ResolveOrmSchema<TSchema>>,
+        getChunkRef: () => viewRebuildChunkRef,
+      });
+      const deferredTriggerHandlers = createDeferredTriggerHandlers({
+        schema: resolvedSchema,
+        triggers,
+        getOrmCtx: (ctx) => withContext(ctx),
+        getRunRef: () => deferredTriggerRunRef,
+        getExecuteRef: () => deferredTriggerExecuteRef,
+        getSettleRef: () => deferredTriggerSettleRef,
+      });
+      const dataTransferHandlers = createDataTransferHandlers({
+        schema: resolvedSchema,
+        getOrm: (ctx) => db(ctx as any) as OrmWriter<ResolveOrmSchema<TSchema>>,
+      });
       const aggregateBackfillChunk = mutationBuilder({
         args: v.any(),
         handler: countBackfillHandlers.chunk as any,
@@ -369,6 +462,56 @@ export function createOrm<TSchema extends OrmSchemaInput>(
       if (!resetChunkRef) {
         resetChunkRef = resetChunk as unknown as SchedulableFunctionReference;
       }
+      const seedRunChunk = mutationBuilder({
+        args: v.object({
+          seed: v.number(),
+          step: v.number(),
+          offset: v.number(),
+          count: v.number(),
+        }),
+        handler: seedHandlers.chunk as any,
+      });
+      if (!seedRunChunkRef) {
+        seedRunChunkRef =
+          seedRunChunk as unknown as SchedulableFunctionReference;
+      }
+      const viewRebuildChunk = mutationBuilder({
+        args: v.object({
+          view: v.string(),
+          phase: v.union(v.literal('refresh'), v.literal('prune')),
+          cursor: v.union(v.string(), v.null()),
+          batchSize: v.number(),
+        }),
+        handler: viewHandlers.chunk as any,
+      });
+      if (!viewRebuildChunkRef) {
+        viewRebuildChunkRef =
+          viewRebuildChunk as unknown as SchedulableFunctionReference;
+      }
+      const deferredTriggerExecute = mutationBuilder({
+        args: v.object({ id: v.string() }),
+        handler: deferredTriggerHandlers.execute as any,
+      });
+      if (!deferredTriggerExecuteRef) {
+        deferredTriggerExecuteRef =
+          deferredTriggerExecute as unknown as SchedulableFunctionReference;
+      }
+      const deferredTriggerSettle = mutationBuilder({
+        args: v.object({ id: v.string(), error: v.string() }),
+        handler: deferredTriggerHandlers.settle as any,
+      });
+      if (!deferredTriggerSettleRef) {
+        deferredTriggerSettleRef =
+          deferredTriggerSettle as unknown as SchedulableFunctionReference;
+      }
+      const deferredTriggerRun = internalActionGeneric({
+        args: v.object({ id: v.string() }),
+        handler: deferredTriggerHandlers.run as any,
+      });
+      if (!deferredTriggerRunRef) {
+        deferredTriggerRunRef =
+          deferredTriggerRun as unknown as SchedulableFunctionReference;
+      }
 
       return {
         scheduledMutationBatch: mutationBuilder({
@@ -376,7 +519,8 @@ export function createOrm<TSchema extends OrmSchemaInput>(
           handler: scheduledMutationBatchFactory(
             resolvedSchema,
             edgeMetadata,
-            config.ormFunctions.scheduledMutationBatch
+            config.ormFunctions.scheduledMutationBatch,
+            { encryption: config.encryption }
           ) as any,
         }),
         scheduledDelete: mutationBuilder({
@@ -384,7 +528,8 @@ export function createOrm<TSchema extends OrmSchemaInput>(
           handler: scheduledDeleteFactory(
             resolvedSchema,
             edgeMetadata,
-            config.ormFunctions.scheduledMutationBatch
+            config.ormFunctions.scheduledMutationBatch,
+            { encryption: config.encryption }
           ) as any,
         }),
         aggregateBackfill: mutationBuilder({
@@ -409,6 +554,10 @@ export function createOrm<TSchema extends OrmSchemaInput>(
           args: v.any(),
           handler: migrationHandlers.cancel as any,
         }),
+        migrationVerifyChunk: mutationBuilder({
+          args: v.any(),
+          handler: migrationHandlers.verify as any,
+        }),
         resetChunk,
         reset: internalActionGeneric({
           args: v.any(),
@@ -442,6 +591,46 @@ export function createOrm<TSchema extends OrmSchemaInput>(
             };
           },
         }),
+        seedRunChunk,
+        seedRun: internalActionGeneric({
+          args: v.any(),
+          handler: seedHandlers.run as any,
+        }),
+        viewRebuildChunk,
+        viewRebuild: internalActionGeneric({
+          args: v.any(),
+          handler: viewHandlers.run as any,
+        }),
+        deferredTriggerRun,
+        deferredTriggerExecute,
+        deferredTriggerSettle,
+        deferredTriggerRetry: mutationBuilder({
+          args: v.object({
+            id: v.optional(v.string()),
+            batchSize: v.optional(v.number()),
+          }),
+          handler: deferredTriggerHandlers.retry as any,
+        }),
+        dataExportPage: mutationBuilder({
+          args: v.object({
+            table: v.string(),
+            cursor: v.union(v.string(), v.null()),
+            limit: v.optional(v.number()),
+          }),
+          handler: (ctx: any, args: DataExportPageArgs) =>
+            dataTransferHandlers.exportPage(ctx, args),
+        }),
+        dataImportChunk: mutationBuilder({
+          args: v.object({
+            table: v.string(),
+            rows: v.array(v.any()),
+            idMap: v.optional(v.record(v.string(), v.string())),
+            strings: v.optional(v.boolean()),
+            raw: v.optional(v.boolean()),
+            offset: v.optional(v.number()),
+          }),
+          handler: dataTransferHandlers.importChunk as any,
+        }),
       };
     },
   };
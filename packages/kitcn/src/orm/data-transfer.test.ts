@@ -0,0 +1,113 @@
+import { bigint } from './builders/bigint';
+import { bytes } from './builders/bytes';
+import { arrayOf, objectOf } from './builders/custom';
+import { date } from './builders/date';
+import { id } from './builders/id';
+import { integer } from './builders/number';
+import { text } from './builders/text';
+import { timestamp } from './builders/timestamp';
+import {
+  decodeDataRow,
+  decodeDataValue,
+  encodeDataRow,
+  getDataColumns,
+} from './data-transfer';
+import { convexTable } from './table';
+
+const events = convexTable('events', {
+  title: text().notNull(),
+  note: text(),
+  ownerId: id('users'),
+  startsAt: timestamp({ mode: 'string' }),
+  day: date(),
+  total: bigint(),
+  payload: bytes(),
+  meta: objectOf({ count: bigint().notNull(), labels: arrayOf(text()) }),
+});
+
+describe('orm/data-transfer', () => {
+  test('encodes ORM rows with portable values in column order', () => {
+    const record = encodeDataRow(events, {
+      id: 'e1',
+      createdAt: 1_700_000_000_000,
+      title: 'Launch',
+      note: null,
+      startsAt: new Date(Date.UTC(2024, 0, 2, 3, 4, 5)),
+      total: 12n,
+      payload: new Uint8Array([255, 0]).buffer,
+      meta: { count: 3n, labels: ['a'] },
+    });
+
+    expect(Object.keys(record)).toEqual(getDataColumns(events));
+    expect(record).toEqual({
+      id: 'e1',
+      createdAt: 1_700_000_000_000,
+      title: 'Launch',
+      note: null,
+      ownerId: null,
+      startsAt: '2024-01-02T03:04:05.000Z',
+      day: null,
+      total: '12',
+      payload: '/wA=',
+      meta: { count: '3', labels: ['a'] },
+    });
+  });
+
+  test('decodes records, remaps ids, and drops system fields and nulls', () => {
+    const { sourceId, values } = decodeDataRow(
+      events,
+      {
+        id: 'e1',
+        createdAt: 1,
+        title: 'Launch',
+        note: null,
+        ownerId: 'old-user',
+        startsAt: 1_704_164_645_000,
+        day: '2024-01-02T10:00:00.000Z',
+        total: '12',
+        payload: '/wA=',
+        meta: { count: '3', labels: ['a'] },
+      },
+      { idMap: { 'old-user': 'new-user' } }
+    );
+
+    expect(sourceId).toBe('e1');
+    expect(values).toEqual({
+      title: 'Launch',
+      ownerId: 'new-user',
+      startsAt: '2024-01-02T03:04:05.000Z',
+      day: '2024-01-02',
+      total: 12n,
+      payload: new Uint8Array([255, 0]).buffer,
+      meta: { count: 3n, labels: ['a'] },
+    });
+  });
+
+  test('coerces CSV cells from strings', () => {
+    const count = integer().notNull();
+    expect(decodeDataValue(count, '42', 'count', { strings: true })).toBe(42);
+    expect(
+      decodeDataValue(text().notNull(), '', 'title', { strings: true })
+    ).toBe('');
+    expect(decodeDataValue(text(), '', 'note', { strings: true })).toBeNull();
+
+    const { values } = decodeDataRow(
+      events,
+      { title: 'Launch', meta: '{"count":"3","labels":[]}', total: '' },
+      { strings: true }
+    );
+    expect(values).toEqual({
+      title: 'Launch',
+      meta: { count: 3n, labels: [] },
+    });
+  });
+
+  test('rejects unknown columns and invalid values with the row path', () => {
+    expect(() =>
+      decodeDataRow(events, { title: 'x', extra: 1 }, { path: 'row 3' })
+    ).toThrow("row 3: unknown column 'extra' in 'events'.");
+    expect(() =>
+      decodeDataRow(events, { title: 'x', total: '1.5' }, { path: 'row 4' })
+    ).toThrow('row 4.total: expected an integer string, got "1.5".');
+  });
+});
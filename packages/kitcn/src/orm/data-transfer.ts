@@ -0,0 +1,519 @@
+/**
+ * Data transfer - `kitcn data export` and `kitcn data import`
+ *
+ * Rows cross the CLI as portable JSON records keyed by column name. Column
+ * builders drive the encoding: timestamp() and date() values become ISO
+ * strings, bigint() and nested int64 values become decimal strings, and
+ * bytes() values become base64. Imports decode those records back through
+ * the same builders (CSV cells arrive as strings and are coerced), remap id()
+ * references through an old-id -> new-id map, and insert through the ORM so
+ * defaults, check() constraints and triggers apply. `raw` writes straight to
+ * ctx.db instead.
+ */
+
+import type { GenericDatabaseWriter } from 'convex/server';
+import type { ColumnBuilder } from './builders/column-builder';
+import type { OrmWriter } from './database';
+import { base64ToBytes, bytesToBase64 } from './encryption';
+import { isGeoPoint } from './geo';
+import {
+  getTableColumns,
+  getTableName,
+  normalizeDateFieldsForWrite,
+} from './mutation-utils';
+import type { TablesRelationalConfig } from './relations';
+import type { ConvexTable } from './table';
+import { hasUserCreatedAtColumn } from './timestamp-mode';
+
+export const DATA_FORMATS = ['jsonl', 'csv'] as const;
+export type DataFormat = (typeof DATA_FORMATS)[number];
+
+export const DEFAULT_DATA_PAGE_SIZE = 100;
+
+const DATE_ONLY_RE = /^\d{4}-\d{2}-\d{2}$/;
+const INTEGER_STRING_RE = /^-?\d+$/;
+
+/** One row as it appears in an export file. */
+export type DataRecord = Record<string, unknown>;
+
+export type DataExportPageArgs = {
+  table: string;
+  cursor: string | null;
+  limit?: number;
+};
+
+export type DataExportPage = {
+  table: string;
+  columns: string[];
+  rows: DataRecord[];
+  cursor: string | null;
+  isDone: boolean;
+};
+
+export type DataImportChunkArgs = {
+  table: string;
+  rows: DataRecord[];
+  /** Old id -> new id for id() columns. Unmapped ids are written as-is. */
+  idMap?: Record<string, string>;
+  /** Values came from CSV cells and need coercing from strings. */
+  strings?: boolean;
+  /** Insert with ctx.db directly: no defaults, checks or triggers. */
+  raw?: boolean;
+  /** Index of the first row in the source file, for error messages. */
+  offset?: number;
+};
+
+export type DataImportChunkResult = {
+  inserted: number;
+  /** Source `id` -> inserted id, for rows that carried an `id`. */
+  ids: Record<string, string>;
+};
+
+type AnyValidator = {
+  kind: string;
+  fields?: Record<string, AnyValidator>;
+  element?: AnyValidator;
+  value?: AnyValidator;
+  members?: AnyValidator[];
+};
+
+type RuntimeCtx = {
+  db: GenericDatabaseWriter<any>;
+};
+
+type CreateDataTransferHandlersParams<TSchema extends TablesRelationalConfig> =
+  {
+    schema: TSchema;
+    getOrm: (ctx: RuntimeCtx) => OrmWriter<TSchema>;
+  };
+
+const getColumnConfig = (builder: ColumnBuilder<any, any, any>) =>
+  (builder as any).config as Record<string, any>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  !(value instanceof ArrayBuffer) &&
+  !(value instanceof Date);
+
+/** Encode a value read through the ORM into JSON-safe data. */
+export function encodeDataValue(value: unknown): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof ArrayBuffer) {
+    return bytesToBase64(new Uint8Array(value));
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => encodeDataValue(item));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, encodeDataValue(item)])
+    );
+  }
+  return value;
+}
+
+/** Columns in export order: `id`, the `createdAt` alias, then the table's. */
+export function getDataColumns(table: ConvexTable<any>): string[] {
+  const columns = Object.keys(getTableColumns(table));
+  return hasUserCreatedAtColumn(table)
+    ? ['id', ...columns]
+    : ['id', 'createdAt', ...columns];
+}
+
+export function encodeDataRow(
+  table: ConvexTable<any>,
+  row: Record<string, unknown>
+): DataRecord {
+  const record: DataRecord = {};
+  for (const column of getDataColumns(table)) {
+    record[column] = encodeDataValue(row[column]);
+  }
+  return record;
+}
+
+const fail = (path: string, expected: string, value: unknown): never => {
+  throw new Error(
+    `${path}: expected ${expected}, got ${JSON.stringify(value)}.`
+  );
+};
+
+const decodeNumber = (path: string, value: unknown): number => {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    if (!Number.isNaN(parsed)) {
+      return parsed;
+    }
+  }
+  return fail(path, 'a number', value);
+};
+
+const decodeBigInt = (path: string, value: unknown): bigint => {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return BigInt(value);
+  }
+  if (typeof value === 'string' && INTEGER_STRING_RE.test(value.trim())) {
+    return BigInt(value.trim());
+  }
+  return fail(path, 'an integer string', value);
+};
+
+const decodeBytes = (path: string, value: unknown): ArrayBuffer => {
+  if (value instanceof ArrayBuffer) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    try {
+      return base64ToBytes(value).buffer as ArrayBuffer;
+    } catch {}
+  }
+  return fail(path, 'base64 bytes', value);
+};
+
+const decodeBoolean = (path: string, value: unknown): boolean => {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  return fail(path, 'true or false', value);
+};
+
+const decodeInstant = (path: string, value: unknown): Date => {
+  const date =
+    typeof value === 'number' || typeof value === 'string'
+      ? new Date(
+          typeof value === 'string' && INTEGER_STRING_RE.test(value)
+            ? Number(value)
+            : value
+        )
+      : undefined;
+  if (!date || Number.isNaN(date.getTime())) {
+    return fail(path, 'an ISO timestamp or epoch milliseconds', value);
+  }
+  return date;
+};
+
+/** Decode nested data against the Convex validator of a custom column. */
+export function decodeNestedValue(
+  validator: AnyValidator,
+  value: unknown,
+  path: string
+): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+  switch (validator.kind) {
+    case 'int64':
+      return decodeBigInt(path, value);
+    case 'bytes':
+      return decodeBytes(path, value);
+    case 'float64':
+      return decodeNumber(path, value);
+    case 'boolean':
+      return decodeBoolean(path, value);
+    case 'array':
+      if (!Array.isArray(value)) {
+        return fail(path, 'an array', value);
+      }
+      return value.map((item, index) =>
+        decodeNestedValue(validator.element!, item, `${path}[${index}]`)
+      );
+    case 'object': {
+      if (!isPlainObject(value)) {
+        return fail(path, 'an object', value);
+      }
+      const fields = validator.fields ?? {};
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          fields[key]
+            ? decodeNestedValue(fields[key], item, `${path}.${key}`)
+            : item,
+        ])
+      );
+    }
+    case 'record':
+      if (!isPlainObject(value)) {
+        return fail(path, 'an object', value);
+      }
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          decodeNestedValue(validator.value!, item, `${path}.${key}`),
+        ])
+      );
+    case 'union': {
+      // Only unambiguous unions are decoded; others pass through unchanged.
+      const members = (validator.members ?? []).filter(
+        (member) => member.kind !== 'null'
+      );
+      return members.length === 1
+        ? decodeNestedValue(members[0]!, value, path)
+        : value;
+    }
+    default:
+      return value;
+  }
+}
+
+const isStringValidator = (validator: AnyValidator | undefined) =>
+  validator?.kind === 'string' ||
+  validator?.kind === 'id' ||
+  (validator?.kind === 'literal' &&
+    typeof (validator as { value?: unknown }).value === 'string');
+
+const parseJsonCell = (path: string, value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fail(path, 'a JSON value', value);
+  }
+};
+
+/** Decode one column value from an export record into an ORM write value. */
+export function decodeDataValue(
+  builder: ColumnBuilder<any, any, any>,
+  value: unknown,
+  path: string,
+  options: { strings?: boolean } = {}
+): unknown {
+  const config = getColumnConfig(builder);
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (options.strings && value === '') {
+    // Empty CSV cells are null, except in required text columns.
+    return config.columnType === 'ConvexText' && config.notNull ? '' : null;
+  }
+
+  switch (config.columnType) {
+    case 'ConvexNumber':
+      return decodeNumber(path, value);
+    case 'ConvexBigInt':
+      return decodeBigInt(path, value);
+    case 'ConvexDecimal':
+      if (config.mode === 'number') {
+        return decodeNumber(path, value);
+      }
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        return fail(path, 'a decimal string', value);
+      }
+      return String(value);
+    case 'ConvexBoolean':
+      return decodeBoolean(path, value);
+    case 'ConvexBytes':
+      return decodeBytes(path, value);
+    case 'ConvexTimestamp': {
+      const date = decodeInstant(path, value);
+      return config.mode === 'string' ? date.toISOString() : date;
+    }
+    case 'ConvexDate': {
+      if (typeof value !== 'string') {
+        return fail(path, 'a YYYY-MM-DD date', value);
+      }
+      const day = DATE_ONLY_RE.test(value)
+        ? value
+        : decodeInstant(path, value).toISOString().slice(0, 10);
+      return config.mode === 'date' ? new Date(`${day}T00:00:00.000Z`) : day;
+    }
+    case 'ConvexVector': {
+      const vector =
+        options.strings && typeof value === 'string'
+          ? parseJsonCell(path, value)
+          : value;
+      if (!Array.isArray(vector)) {
+        return fail(path, 'an array of numbers', value);
+      }
+      return vector.map((item, index) =>
+        decodeNumber(`${path}[${index}]`, item)
+      );
+    }
+    case 'ConvexPoint': {
+      const point =
+        options.strings && typeof value === 'string'
+          ? parseJsonCell(path, value)
+          : value;
+      if (!isGeoPoint(point)) {
+        return fail(path, 'a { lat, lng } point', value);
+      }
+      return { lat: point.lat, lng: point.lng };
+    }
+    case 'ConvexCustom': {
+      const validator = config.validator as AnyValidator;
+      const nested =
+        options.strings &&
+        typeof value === 'string' &&
+        !isStringValidator(validator)
+          ? parseJsonCell(path, value)
+          : value;
+      return decodeNestedValue(validator, nested, path);
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Decode an export record into insert values. Returns the record's source
+ * `id` separately; `createdAt` is dropped unless the table defines it, and
+ * null values are left out.
+ */
+export function decodeDataRow(
+  table: ConvexTable<any>,
+  record: DataRecord,
+  options: {
+    idMap?: Record<string, string>;
+    strings?: boolean;
+    path?: string;
+  } = {}
+): { sourceId: string | undefined; values: Record<string, unknown> } {
+  const columns = getTableColumns(table);
+  const tableName = getTableName(table);
+  const hasCreatedAtColumn = hasUserCreatedAtColumn(table);
+  const values: Record<string, unknown> = {};
+  let sourceId: string | undefined;
+
+  for (const [key, value] of Object.entries(record)) {
+    if (key === 'id' || key === '_id') {
+      sourceId =
+        value === null || value === undefined || value === ''
+          ? undefined
+          : String(value);
+      continue;
+    }
+    if (
+      (key === 'createdAt' && !hasCreatedAtColumn) ||
+      key === '_creationTime'
+    ) {
+      continue;
+    }
+    const builder = columns[key];
+    if (!builder) {
+      throw new Error(
+        `${options.path ?? tableName}: unknown column '${key}' in '${tableName}'.`
+      );
+    }
+    const path = `${options.path ?? tableName}.${key}`;
+    let decoded = decodeDataValue(builder, value, path, options);
+    if (decoded === null) {
+      // Leave nulls unset so column defaults still apply.
+      continue;
+    }
+    if (
+      getColumnConfig(builder).columnType === 'ConvexId' &&
+      typeof decoded === 'string'
+    ) {
+      decoded = options.idMap?.[decoded] ?? decoded;
+    }
+    values[key] = decoded;
+  }
+
+  return { sourceId, values };
+}
+
+export function resolveDataTable(
+  schema: TablesRelationalConfig,
+  name: string
+): { key: string; table: ConvexTable<any> } {
+  for (const [key, tableConfig] of Object.entries(schema)) {
+    if (tableConfig.name === name || key === name) {
+      return { key, table: tableConfig.table as ConvexTable<any> };
+    }
+  }
+  throw new Error(`Unknown table '${name}'.`);
+}
+
+export function createDataTransferHandlers<
+  TSchema extends TablesRelationalConfig,
+>(
+  params: CreateDataTransferHandlersParams<TSchema>
+): {
+  exportPage: (
+    ctx: RuntimeCtx,
+    args: DataExportPageArgs
+  ) => Promise<DataExportPage>;
+  importChunk: (
+    ctx: RuntimeCtx,
+    args: DataImportChunkArgs
+  ) => Promise<DataImportChunkResult>;
+} {
+  const { schema, getOrm } = params;
+
+  return {
+    exportPage: async (ctx, args) => {
+      const { key, table } = resolveDataTable(schema, args.table);
+      const orm = getOrm(ctx);
+      const result = await (orm.skipRules as any).query[key].findMany({
+        cursor: args.cursor,
+        limit: args.limit ?? DEFAULT_DATA_PAGE_SIZE,
+      });
+      return {
+        table: getTableName(table),
+        columns: getDataColumns(table),
+        rows: (result.page as Record<string, unknown>[]).map((row) =>
+          encodeDataRow(table, row)
+        ),
+        cursor: result.continueCursor ?? null,
+        isDone: result.isDone,
+      };
+    },
+    importChunk: async (ctx, args) => {
+      const { table } = resolveDataTable(schema, args.table);
+      const tableName = getTableName(table);
+      const offset = args.offset ?? 0;
+      const decoded = args.rows.map((record, index) =>
+        decodeDataRow(table, record, {
+          idMap: args.idMap,
+          strings: args.strings,
+          path: `row ${offset + index + 1}`,
+        })
+      );
+
+      let insertedIds: string[];
+      if (args.raw) {
+        insertedIds = [];
+        for (const { values } of decoded) {
+          insertedIds.push(
+            await ctx.db.insert(
+              tableName,
+              normalizeDateFieldsForWrite(table, values) as any
+            )
+          );
+        }
+      } else if (decoded.length > 0) {
+        const rows = (await (getOrm(ctx).skipRules as any)
+          .insert(table)
+          .values(decoded.map(({ values }) => values))
+          .returning()) as { id: string }[];
+        insertedIds = rows.map((row) => row.id);
+      } else {
+        insertedIds = [];
+      }
+
+      const ids: Record<string, string> = {};
+      decoded.forEach(({ sourceId }, index) => {
+        if (sourceId !== undefined && insertedIds[index] !== undefined) {
+          ids[sourceId] = insertedIds[index]!;
+        }
+      });
+      return { inserted: insertedIds.length, ids };
+    },
+  };
+}
@@ -0,0 +1,231 @@
+import { describe, expect, test } from 'vitest';
+import { convexTest } from '../../../../convex/setup.testing';
+import { bigint } from './builders/bigint';
+import { boolean } from './builders/boolean';
+import { bytes } from './builders/bytes';
+import { arrayOf, objectOf } from './builders/custom';
+import { date } from './builders/date';
+import { id } from './builders/id';
+import { integer } from './builders/number';
+import { text } from './builders/text';
+import { timestamp } from './builders/timestamp';
+import { check } from './constraints';
+import { createOrm } from './create-orm';
+import { createDataTransferHandlers } from './data-transfer';
+import { gt } from './filter-expression';
+import { defineRelations } from './relations';
+import { defineSchema } from './schema';
+import { convexTable } from './table';
+
+const authors = convexTable('data_authors', {
+  name: text().notNull(),
+  joinedOn: date({ mode: 'date' }),
+  balance: bigint(),
+  avatar: bytes(),
+  active: boolean().notNull().default(true),
+});
+const books = convexTable(
+  'data_books',
+  {
+    title: text().notNull(),
+    authorId: id('data_authors').notNull(),
+    pages: integer().notNull(),
+    publishedAt: timestamp(),
+    meta: objectOf({
+      isbn: text().notNull(),
+      printRun: bigint().notNull(),
+    }),
+    tags: arrayOf(text().notNull()),
+  },
+  (t) => [check('pages_positive', gt(t.pages, 0))]
+);
+
+const tables = { data_authors: authors, data_books: books };
+const schema = defineSchema(tables);
+const relations = defineRelations(tables);
+
+const createHandlers = () => {
+  const ormClient = createOrm({ schema: relations });
+  return createDataTransferHandlers({
+    schema: relations,
+    getOrm: (ctx) => ormClient.db(ctx as any) as any,
+  });
+};
+
+describe('orm/data-transfer', () => {
+  test('exports rows as portable records and imports them with remapped ids', async () => {
+    const handlers = createHandlers();
+    const source = convexTest(schema);
+    const exported = await source.run(async (ctx) => {
+      const authorId = await ctx.db.insert('data_authors', {
+        name: 'Ada',
+        joinedOn: '2024-03-01',
+        balance: 9_007_199_254_740_993n,
+        avatar: new Uint8Array([1, 2, 3]).buffer,
+        active: true,
+      });
+      await ctx.db.insert('data_books', {
+        title: 'Notes',
+        authorId,
+        pages: 120,
+        publishedAt: Date.UTC(2024, 4, 2),
+        meta: { isbn: '978-0', printRun: 5000n },
+        tags: ['math'],
+      });
+      return {
+        authorId,
+        authors: await handlers.exportPage(ctx as any, {
+          table: 'data_authors',
+          cursor: null,
+        }),
+        books: await handlers.exportPage(ctx as any, {
+          table: 'data_books',
+          cursor: null,
+        }),
+      };
+    });
+
+    expect(exported.authors.columns).toEqual([
+      'id',
+      'createdAt',
+      'name',
+      'joinedOn',
+      'balance',
+      'avatar',
+      'active',
+    ]);
+    expect(exported.authors.isDone).toBe(true);
+    expect(exported.authors.rows[0]).toMatchObject({
+      id: exported.authorId,
+      name: 'Ada',
+      joinedOn: '2024-03-01T00:00:00.000Z',
+      balance: '9007199254740993',
+      avatar: 'AQID',
+      active: true,
+    });
+    expect(exported.books.rows[0]).toMatchObject({
+      authorId: exported.authorId,
+      publishedAt: '2024-05-02T00:00:00.000Z',
+      meta: { isbn: '978-0', printRun: '5000' },
+      tags: ['math'],
+    });
+
+    const target = convexTest(schema);
+    const imported = await target.run(async (ctx) => {
+      const authorResult = await handlers.importChunk(ctx as any, {
+        table: 'data_authors',
+        rows: exported.authors.rows,
+      });
+      const bookResult = await handlers.importChunk(ctx as any, {
+        table: 'data_books',
+        rows: exported.books.rows,
+        idMap: authorResult.ids,
+      });
+      return {
+        authorResult,
+        bookResult,
+        authors: await ctx.db.query('data_authors').collect(),
+        books: await ctx.db.query('data_books').collect(),
+      };
+    });
+
+    const [author] = imported.authors as any[];
+    const [book] = imported.books as any[];
+    expect(imported.authorResult).toEqual({
+      inserted: 1,
+      ids: { [exported.authorId]: author._id },
+    });
+    expect(author.joinedOn).toBe('2024-03-01');
+    expect(author.balance).toBe(9_007_199_254_740_993n);
+    expect([...new Uint8Array(author.avatar)]).toEqual([1, 2, 3]);
+    expect(book.authorId).toBe(author._id);
+    expect(book.publishedAt).toBe(Date.UTC(2024, 4, 2));
+    expect(book.meta).toEqual({ isbn: '978-0', printRun: 5000n });
+  });
+
+  test('coerces CSV strings and applies defaults and checks', async () => {
+    const handlers = createHandlers();
+    const t = convexTest(schema);
+    await t.run(async (ctx) => {
+      const { ids } = await handlers.importChunk(ctx as any, {
+        table: 'data_authors',
+        rows: [
+          {
+            id: 'old-author',
+            name: 'Grace',
+            joinedOn: '2023-12-09',
+            balance: '42',
+            avatar: '',
+            active: '',
+          },
+        ],
+        strings: true,
+      });
+      const [author] = (await ctx.db.query('data_authors').collect()) as any[];
+      expect(author).toMatchObject({
+        name: 'Grace',
+        joinedOn: '2023-12-09',
+        balance: 42n,
+        active: true,
+      });
+
+      await handlers.importChunk(ctx as any, {
+        table: 'data_books',
+        rows: [
+          {
+            title: 'Compilers',
+            authorId: 'old-author',
+            pages: '300',
+            publishedAt: '2024-01-01T00:00:00.000Z',
+            meta: '{"isbn":"1","printRun":"7"}',
+            tags: '["cs"]',
+          },
+        ],
+        idMap: ids,
+        strings: true,
+      });
+      const [book] = (await ctx.db.query('data_books').collect()) as any[];
+      expect(book).toMatchObject({
+        authorId: author._id,
+        pages: 300,
+        meta: { isbn: '1', printRun: 7n },
+        tags: ['cs'],
+      });
+
+      await expect(
+        handlers.importChunk(ctx as any, {
+          table: 'data_books',
+          rows: [{ title: 'Empty', authorId: author._id, pages: 0 }],
+        })
+      ).rejects.toThrow('pages_positive');
+    });
+  });
+
+  test('raw imports skip ORM defaults and checks', async () => {
+    const handlers = createHandlers();
+    const t = convexTest(schema);
+    await t.run(async (ctx) => {
+      const { ids } = await handlers.importChunk(ctx as any, {
+        table: 'data_authors',
+        rows: [{ id: 'a1', name: 'Raw', active: false }],
+        raw: true,
+      });
+      const authorId = ids.a1!;
+      await handlers.importChunk(ctx as any, {
+        table: 'data_books',
+        rows: [
+          {
+            title: 'Zero',
+            authorId,
+            pages: 0,
+            publishedAt: '2024-01-01T00:00:00.000Z',
+          },
+        ],
+        raw: true,
+      });
+      const [book] = (await ctx.db.query('data_books').collect()) as any[];
+      expect(book.pages).toBe(0);
+      expect(book.publishedAt).toBe(Date.UTC(2024, 0, 1));
+    });
+  });
+});
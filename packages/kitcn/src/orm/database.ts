@@ -5,7 +5,7 @@
  *
  * Public surface area is intentionally narrow:
  * - ORM query builders via `db.query.*.findMany/findFirst`
- * - ORM mutations via `db.insert/update/delete(table)` builder APIs
+ * - ORM mutations via `db.insert/update/delete/restore(table)` builder APIs
  * - Raw system-table access via `db.system` only
  *
  * We do NOT expose raw Convex writes (patch/replace/insert/delete) on `db`
@@ -19,6 +19,11 @@ import type {
   Scheduler,
 } from 'convex/server';
 import { ConvexDeleteBuilder } from './delete';
+import {
+  createOrmKeyring,
+  type OrmEncryptionOptions,
+  type OrmKeyring,
+} from './encryption';
 import type { EdgeMetadata } from './extractRelationsConfig';
 import { ConvexInsertBuilder } from './insert';
 import { getOrmLifecycleInnerDb } from './lifecycle';
@@ -29,6 +34,7 @@ import {
 } from './mutation-utils';
 import { RelationalQueryBuilder } from './query-builder';
 import type { TablesRelationalConfig } from './relations';
+import { ConvexRestoreBuilder } from './restore';
 import type { RlsContext } from './rls/types';
 import {
   Brand,
@@ -37,6 +43,7 @@ import {
   OrmSchemaOptions,
 } from './symbols';
 import type { ConvexTable } from './table';
+import { createOrmTenancy, type OrmTenancyOptions } from './tenancy';
 import type { VectorSearchProvider } from './types';
 import { ConvexUpdateBuilder } from './update';
 
@@ -80,6 +87,9 @@ export type DatabaseWithMutations<TSchema extends TablesRelationalConfig> =
     delete<TTable extends ConvexTable<any>>(
       table: TTable
     ): ConvexDeleteBuilder<TTable>;
+    restore<TTable extends ConvexTable<any>>(
+      table: TTable
+    ): ConvexRestoreBuilder<TTable>;
   };
 
 export type OrmReader<TSchema extends TablesRelationalConfig> =
@@ -99,6 +109,28 @@ export type CreateDatabaseOptions = {
   relationLoading?: {
     concurrency?: number;
   };
+  /** Keys for text().encrypted() columns. */
+  encryption?: OrmEncryptionOptions;
+  /** Scope tables by a tenant column resolved from the request context. */
+  tenancy?: OrmTenancyOptions;
+};
+
+// One keyring per encryption config, so imported keys survive across
+// orm.db(ctx) calls.
+const keyrings = new WeakMap<OrmEncryptionOptions, OrmKeyring>();
+
+const resolveKeyring = (
+  encryption: OrmEncryptionOptions | undefined
+): OrmKeyring | undefined => {
+  if (!encryption) {
+    return;
+  }
+  let keyring = keyrings.get(encryption);
+  if (!keyring) {
+    keyring = createOrmKeyring(encryption);
+    keyrings.set(encryption, keyring);
+  }
+  return keyring;
 };
 
 /**
@@ -152,6 +184,7 @@ export function createDatabase<TSchema extends TablesRelationalConfig>(
   ];
   const strict = schemaOptions?.strict ?? true;
   const defaults = schemaOptions?.defaults;
+  const encryption = resolveKeyring(options?.encryption);
   const buildDatabase = (rls: RlsContext | undefined) => {
     const resolvedDefaults = resolveOrmRuntimeDefaults(defaults, {
       scheduler: options?.scheduler,
@@ -169,6 +202,10 @@ export function createDatabase<TSchema extends TablesRelationalConfig>(
       strict,
       defaults,
       resolvedDefaults,
+      encryption,
+      tenancy: options?.tenancy
+        ? createOrmTenancy(options.tenancy, () => rls?.ctx)
+        : undefined,
     };
 
     // Preserve the original `ctx.db` behavior without mutating it.
@@ -249,6 +286,20 @@ export function createDatabase<TSchema extends TablesRelationalConfig>(
       return new ConvexDeleteBuilder(baseDb, table);
     };
 
+    const restore = <TTable extends ConvexTable<any>>(table: TTable) => {
+      if (!isWriter) {
+        throw new Error(
+          'db.restore() is not available on a reader context (use it in mutations).'
+        );
+      }
+      if (!isConvexTable(table)) {
+        throw new Error(
+          'db.restore(table) requires a ConvexTable from convexTable(...).'
+        );
+      }
+      return new ConvexRestoreBuilder(baseDb, table);
+    };
+
     let currentDb:
       | DatabaseWithQuery<TSchema>
       | DatabaseWithMutations<TSchema>
@@ -290,6 +341,7 @@ export function createDatabase<TSchema extends TablesRelationalConfig>(
           insert,
           update,
           delete: deleteBuilder,
+          restore,
         } as DatabaseWithMutations<TSchema>)
       : base;
 
@@ -0,0 +1,353 @@
+/**
+ * Deferred triggers - `defineTriggers(relations, { posts: { deferred } })`
+ *
+ * A deferred trigger does not run in the mutation that made the change. The
+ * change is written to the `trigger_queue` table and `deferredTriggerRun` is
+ * scheduled; it runs the handler in its own mutation once the write has
+ * committed. Failed runs are retried with exponential backoff and end up
+ * with status `dead` after `maxAttempts`. Handlers only run while their queue
+ * entry is pending and the entry is deleted in the same mutation, so a
+ * change is handled at most once even if the run is scheduled twice.
+ */
+
+import type {
+  GenericDatabaseWriter,
+  SchedulableFunctionReference,
+  Scheduler,
+} from 'convex/server';
+import { integer, json, text } from './builders';
+import { defineSchemaExtension, type SchemaExtension } from './extensions';
+import { index } from './indexes';
+import {
+  hydrateDateFieldsForRead,
+  normalizePublicSystemFields,
+} from './mutation-utils';
+import type {
+  TableRelationalConfig,
+  TablesRelationalConfig,
+} from './relations';
+import { type ConvexTable, convexTable } from './table';
+import { usesSystemCreatedAtAlias } from './timestamp-mode';
+import {
+  type NormalizedOrmDeferredTrigger,
+  normalizeOrmTriggers,
+  type OrmTriggerChange,
+  type OrmTriggers,
+} from './triggers';
+
+export const TRIGGER_QUEUE_TABLE = 'trigger_queue';
+const DEFAULT_DEFERRED_RETRY_BATCH_SIZE = 100;
+
+type AnyRecord = Record<string, unknown>;
+
+export const triggerQueueTable = convexTable(
+  TRIGGER_QUEUE_TABLE,
+  {
+    sourceTable: text().notNull(),
+    operation: text().notNull(),
+    recordId: text().notNull(),
+    oldDoc: json(),
+    newDoc: json(),
+    status: text().notNull(),
+    attempts: integer().notNull(),
+    lastError: text(),
+    updatedAt: integer().notNull(),
+  },
+  (t) => [index('by_status').on(t.status, t.updatedAt)]
+);
+
+export const triggerQueueStorageTables = {
+  [TRIGGER_QUEUE_TABLE]: triggerQueueTable,
+} as const;
+
+export function triggerQueueExtension(): SchemaExtension<
+  typeof triggerQueueStorageTables
+> {
+  return defineSchemaExtension('triggerQueue', triggerQueueStorageTables);
+}
+
+export type DeferredTriggerStatus = 'pending' | 'dead';
+
+export type DeferredTriggerRunArgs = {
+  id: string;
+};
+
+export type DeferredTriggerSettleArgs = {
+  id: string;
+  error: string;
+};
+
+export type DeferredTriggerRetryArgs = {
+  /** Requeue a single dead entry. Defaults to every dead entry. */
+  id?: string;
+  batchSize?: number;
+};
+
+export type DeferredTriggerRunResult =
+  | { status: 'done' | 'skipped' }
+  | { status: 'retrying'; attempt: number; retryInMs: number }
+  | { status: 'dead'; attempt: number };
+
+type TriggerQueueEntry = {
+  _id: string;
+  sourceTable: string;
+  operation: OrmTriggerChange<AnyRecord>['operation'];
+  recordId: string;
+  oldDoc: AnyRecord | null;
+  newDoc: AnyRecord | null;
+  status: DeferredTriggerStatus;
+  attempts: number;
+  lastError?: string | null;
+  updatedAt: number;
+};
+
+const findTableConfig = (
+  schema: TablesRelationalConfig,
+  tableName: string
+): TableRelationalConfig | undefined =>
+  Object.values(schema).find((tableConfig) => tableConfig.name === tableName);
+
+const toQueueDoc = (
+  table: ConvexTable<any>,
+  doc: AnyRecord | null
+): AnyRecord | null =>
+  doc
+    ? normalizePublicSystemFields(doc, {
+        useSystemCreatedAtAlias: usesSystemCreatedAtAlias(table),
+      })
+    : null;
+
+const fromQueueDoc = (
+  table: ConvexTable<any>,
+  doc: unknown
+): AnyRecord | null =>
+  doc ? hydrateDateFieldsForRead(table, doc as AnyRecord) : null;
+
+const requireScheduler = (ctx: AnyRecord, tableName: string): Scheduler => {
+  const scheduler = ctx.scheduler as Scheduler | undefined;
+  if (!scheduler) {
+    throw new Error(
+      `Deferred trigger on '${tableName}' requires ctx.scheduler. Run the write from a mutation.`
+    );
+  }
+  return scheduler;
+};
+
+const requireRef = (
+  ref: SchedulableFunctionReference | undefined,
+  name: string
+): SchedulableFunctionReference => {
+  if (!ref) {
+    throw new Error(`${name} is not registered.`);
+  }
+  return ref;
+};
+
+/** Delay before retry `attempt + 1`, doubling from `backoffMs`. */
+export const getDeferredRetryDelay = (
+  config: NormalizedOrmDeferredTrigger,
+  attempt: number
+): number =>
+  Math.min(config.maxBackoffMs, config.backoffMs * 2 ** (attempt - 1));
+
+/**
+ * Change hook that queues the change for the table's deferred trigger and
+ * schedules `deferredTriggerRun` for it.
+ */
+export function createDeferredEnqueueHook(
+  tableConfig: TableRelationalConfig,
+  getRunRef: () => SchedulableFunctionReference | undefined
+) {
+  const table = tableConfig.table as ConvexTable<any>;
+
+  return async (
+    change: OrmTriggerChange<AnyRecord>,
+    ctx: AnyRecord
+  ): Promise<void> => {
+    const scheduler = requireScheduler(ctx, tableConfig.name);
+    const runRef = requireRef(getRunRef(), 'deferredTriggerRun');
+    const id = await (ctx.db as GenericDatabaseWriter<any>).insert(
+      TRIGGER_QUEUE_TABLE as any,
+      {
+        sourceTable: tableConfig.name,
+        operation: change.operation,
+        recordId: String(change.id),
+        oldDoc: toQueueDoc(table, change.oldDoc),
+        newDoc: toQueueDoc(table, change.newDoc),
+        status: 'pending',
+        attempts: 0,
+        updatedAt: Date.now(),
+      } as any
+    );
+    await scheduler.runAfter(0, runRef, { id });
+  };
+}
+
+type DeferredTriggerMutationCtx = {
+  db: GenericDatabaseWriter<any>;
+  scheduler: Scheduler;
+};
+
+type CreateDeferredTriggerHandlersParams<
+  TSchema extends TablesRelationalConfig,
+> = {
+  schema: TSchema;
+  triggers?: OrmTriggers<TSchema, any>;
+  /** Wraps the mutation ctx the way `createOrm().with()` does. */
+  getOrmCtx: (ctx: DeferredTriggerMutationCtx) => object;
+  getRunRef: () => SchedulableFunctionReference | undefined;
+  getExecuteRef: () => SchedulableFunctionReference | undefined;
+  getSettleRef: () => SchedulableFunctionReference | undefined;
+};
+
+export function createDeferredTriggerHandlers<
+  TSchema extends TablesRelationalConfig,
+>(
+  params: CreateDeferredTriggerHandlersParams<TSchema>
+): {
+  run: (
+    ctx: { runMutation: (ref: any, args: any) => Promise<any> },
+    args: DeferredTriggerRunArgs
+  ) => Promise<DeferredTriggerRunResult>;
+  execute: (
+    ctx: DeferredTriggerMutationCtx,
+    args: DeferredTriggerRunArgs
+  ) => Promise<DeferredTriggerRunResult>;
+  settle: (
+    ctx: DeferredTriggerMutationCtx,
+    args: DeferredTriggerSettleArgs
+  ) => Promise<DeferredTriggerRunResult>;
+  retry: (
+    ctx: DeferredTriggerMutationCtx,
+    args?: DeferredTriggerRetryArgs
+  ) => Promise<{ requeued: number }>;
+} {
+  const { schema, getOrmCtx, getRunRef, getExecuteRef, getSettleRef } = params;
+  const deferredByTable = new Map<string, NormalizedOrmDeferredTrigger>();
+  for (const [key, hooks] of normalizeOrmTriggers(params.triggers)) {
+    if (hooks.deferred) {
+      deferredByTable.set(schema[key]?.name ?? key, hooks.deferred);
+    }
+  }
+
+  const loadPending = async (
+    db: GenericDatabaseWriter<any>,
+    id: string
+  ): Promise<TriggerQueueEntry | null> => {
+    const entryId = db.normalizeId(TRIGGER_QUEUE_TABLE as any, id);
+    if (!entryId) {
+      return null;
+    }
+    const entry = (await db.get(entryId)) as TriggerQueueEntry | null;
+    return entry?.status === 'pending' ? entry : null;
+  };
+
+  return {
+    run: async (ctx, args) => {
+      const executeRef = requireRef(getExecuteRef(), 'deferredTriggerExecute');
+      const settleRef = requireRef(getSettleRef(), 'deferredTriggerSettle');
+      try {
+        return (await ctx.runMutation(executeRef, {
+          id: args.id,
+        })) as DeferredTriggerRunResult;
+      } catch (error) {
+        return (await ctx.runMutation(settleRef, {
+          id: args.id,
+          error: error instanceof Error ? error.message : String(error),
+        })) as DeferredTriggerRunResult;
+      }
+    },
+    execute: async (ctx, args) => {
+      const entry = await loadPending(ctx.db, args.id);
+      if (!entry) {
+        return { status: 'skipped' };
+      }
+      const config = deferredByTable.get(entry.sourceTable);
+      const tableConfig = findTableConfig(schema, entry.sourceTable);
+      if (!config || !tableConfig) {
+        throw new Error(
+          `No deferred trigger is defined for '${entry.sourceTable}'.`
+        );
+      }
+
+      const table = tableConfig.table as ConvexTable<any>;
+      const change = {
+        operation: entry.operation,
+        id: entry.recordId,
+        oldDoc: fromQueueDoc(table, entry.oldDoc),
+        newDoc: fromQueueDoc(table, entry.newDoc),
+      } as OrmTriggerChange<AnyRecord>;
+      await config.handler(change, {
+        ...getOrmCtx(ctx),
+        changeId: entry._id,
+        attempt: entry.attempts + 1,
+      });
+      await ctx.db.delete(entry._id as any);
+      return { status: 'done' };
+    },
+    settle: async (ctx, args) => {
+      const entry = await loadPending(ctx.db, args.id);
+      if (!entry) {
+        return { status: 'skipped' };
+      }
+      const attempt = entry.attempts + 1;
+      const config = deferredByTable.get(entry.sourceTable);
+      const updatedAt = Date.now();
+
+      if (!config || attempt >= config.maxAttempts) {
+        await ctx.db.patch(entry._id as any, {
+          status: 'dead',
+          attempts: attempt,
+          lastError: args.error,
+          updatedAt,
+        });
+        return { status: 'dead', attempt };
+      }
+
+      const retryInMs = getDeferredRetryDelay(config, attempt);
+      await ctx.db.patch(entry._id as any, {
+        attempts: attempt,
+        lastError: args.error,
+        updatedAt,
+      });
+      await ctx.scheduler.runAfter(
+        retryInMs,
+        requireRef(getRunRef(), 'deferredTriggerRun'),
+        { id: entry._id }
+      );
+      return { status: 'retrying', attempt, retryInMs };
+    },
+    retry: async (ctx, args = {}) => {
+      const batchSize = args.batchSize ?? DEFAULT_DEFERRED_RETRY_BATCH_SIZE;
+      if (!Number.isInteger(batchSize) || batchSize < 1) {
+        throw new Error(
+          'deferredTriggerRetry batchSize must be a positive integer.'
+        );
+      }
+      const runRef = requireRef(getRunRef(), 'deferredTriggerRun');
+
+      let entries: TriggerQueueEntry[];
+      if (args.id) {
+        const entryId = ctx.db.normalizeId(TRIGGER_QUEUE_TABLE as any, args.id);
+        const entry = entryId
+          ? ((await ctx.db.get(entryId)) as TriggerQueueEntry | null)
+          : null;
+        entries = entry?.status === 'dead' ? [entry] : [];
+      } else {
+        entries = (await (ctx.db.query(TRIGGER_QUEUE_TABLE as any) as any)
+          .withIndex('by_status', (q: any) => q.eq('status', 'dead'))
+          .take(batchSize)) as TriggerQueueEntry[];
+      }
+
+      for (const entry of entries) {
+        await ctx.db.patch(entry._id as any, {
+          status: 'pending',
+          attempts: 0,
+          updatedAt: Date.now(),
+        });
+        await ctx.scheduler.runAfter(0, runRef, { id: entry._id });
+      }
+      return { requeued: entries.length };
+    },
+  };
+}
@@ -0,0 +1,188 @@
+import { describe, expect, test } from 'vitest';
+import { convexTest } from '../../../../convex/setup.testing';
+import { text } from './builders/text';
+import { createOrm } from './create-orm';
+import {
+  createDeferredTriggerHandlers,
+  TRIGGER_QUEUE_TABLE,
+} from './deferred-triggers';
+import { defineRelations } from './relations';
+import { defineSchema } from './schema';
+import { convexTable } from './table';
+
+const posts = convexTable('deferred_posts', {
+  title: text().notNull(),
+});
+const audits = convexTable('deferred_audits', {
+  message: text().notNull(),
+});
+
+const tables = { deferred_posts: posts, deferred_audits: audits };
+const relations = defineRelations(tables);
+
+const RUN_REF = 'deferredTriggerRun' as any;
+const EXECUTE_REF = 'deferredTriggerExecute' as any;
+const SETTLE_REF = 'deferredTriggerSettle' as any;
+
+const setup = (deferred: Record<string, unknown>, attempts: number[] = []) => {
+  const triggers = {
+    deferred_posts: {
+      deferred: {
+        ...deferred,
+        handler: async (change: any, ctx: any) => {
+          attempts.push(ctx.attempt);
+          await (deferred.handler as any)(change, ctx);
+        },
+      },
+    },
+  };
+  const schema = defineSchema(tables).triggers(triggers as any);
+  const ormClient = createOrm({
+    schema,
+    ormFunctions: {
+      scheduledMutationBatch: {} as any,
+      scheduledDelete: {} as any,
+      deferredTriggerRun: RUN_REF,
+    },
+  });
+  const handlers = createDeferredTriggerHandlers({
+    schema: relations,
+    triggers: triggers as any,
+    getOrmCtx: (ctx) => ormClient.with(ctx as any),
+    getRunRef: () => RUN_REF,
+    getExecuteRef: () => EXECUTE_REF,
+    getSettleRef: () => SETTLE_REF,
+  });
+  return { schema, ormClient, handlers };
+};
+
+const createScheduler = () => {
+  const calls: Array<{ delayMs: number; ref: unknown; args: any }> = [];
+  return {
+    calls,
+    scheduler: {
+      runAfter: async (delayMs: number, ref: unknown, args: any) => {
+        calls.push({ delayMs, ref, args });
+      },
+    } as any,
+  };
+};
+
+describe('orm/deferred-triggers', () => {
+  test('queues changes and runs the handler once after commit', async () => {
+    const { schema, ormClient, handlers } = setup({
+      handler: async (change: any, ctx: any) => {
+        await ctx.orm.insert(audits).values({
+          message: `${change.operation}:${change.newDoc.title}`,
+        });
+      },
+    });
+    const t = convexTest(schema);
+
+    await t.run(async (baseCtx) => {
+      const { calls, scheduler } = createScheduler();
+      const ctx = ormClient.with({ ...baseCtx, scheduler } as any) as any;
+      const [post] = await ctx.orm
+        .insert(posts)
+        .values({ title: 'Hello' })
+        .returning();
+
+      expect(await baseCtx.db.query('deferred_audits').collect()).toEqual([]);
+      const [entry] = await baseCtx.db
+        .query(TRIGGER_QUEUE_TABLE as any)
+        .collect();
+      expect(entry).toMatchObject({
+        sourceTable: 'deferred_posts',
+        operation: 'insert',
+        recordId: post.id,
+        status: 'pending',
+        attempts: 0,
+      });
+      expect(calls).toEqual([
+        { delayMs: 0, ref: RUN_REF, args: { id: entry._id } },
+      ]);
+
+      const mutationCtx = { db: baseCtx.db as any, scheduler };
+      const runMutation = (ref: unknown, args: any) =>
+        ref === EXECUTE_REF
+          ? handlers.execute(mutationCtx, args)
+          : handlers.settle(mutationCtx, args);
+
+      expect(await handlers.run({ runMutation }, { id: entry._id })).toEqual({
+        status: 'done',
+      });
+      expect(await handlers.run({ runMutation }, { id: entry._id })).toEqual({
+        status: 'skipped',
+      });
+      expect(
+        (await baseCtx.db.query('deferred_audits').collect()).map(
+          (row) => row.message
+        )
+      ).toEqual(['insert:Hello']);
+      expect(
+        await baseCtx.db.query(TRIGGER_QUEUE_TABLE as any).collect()
+      ).toEqual([]);
+    });
+  });
+
+  test('retries with backoff, dead-letters, and requeues', async () => {
+    const attempts: number[] = [];
+    const { schema, ormClient, handlers } = setup(
+      {
+        maxAttempts: 2,
+        backoffMs: 500,
+        handler: async () => {
+          throw new Error('webhook down');
+        },
+      },
+      attempts
+    );
+    const t = convexTest(schema);
+
+    await t.run(async (baseCtx) => {
+      const { calls, scheduler } = createScheduler();
+      const ctx = ormClient.with({ ...baseCtx, scheduler } as any) as any;
+      await ctx.orm.insert(posts).values({ title: 'Flaky' });
+      const id = calls[0].args.id as string;
+
+      const mutationCtx = { db: baseCtx.db as any, scheduler };
+      const runMutation = (ref: unknown, args: any) =>
+        ref === EXECUTE_REF
+          ? handlers.execute(mutationCtx, args)
+          : handlers.settle(mutationCtx, args);
+
+      expect(await handlers.run({ runMutation }, { id })).toEqual({
+        status: 'retrying',
+        attempt: 1,
+        retryInMs: 500,
+      });
+      expect(calls[1]).toEqual({ delayMs: 500, ref: RUN_REF, args: { id } });
+      expect(await handlers.run({ runMutation }, { id })).toEqual({
+        status: 'dead',
+        attempt: 2,
+      });
+      expect(attempts).toEqual([1, 2]);
+      expect(await baseCtx.db.get(id as any)).toMatchObject({
+        status: 'dead',
+        attempts: 2,
+        lastError: 'webhook down',
+      });
+      expect(await handlers.run({ runMutation }, { id })).toEqual({
+        status: 'skipped',
+      });
+
+      expect(await handlers.retry(mutationCtx)).toEqual({ requeued: 1 });
+      expect(await baseCtx.db.get(id as any)).toMatchObject({
+        status: 'pending',
+        attempts: 0,
+      });
+      expect(calls.at(-1)).toEqual({ delayMs: 0, ref: RUN_REF, args: { id } });
+    });
+  });
+
+  test('rejects invalid deferred options', () => {
+    expect(() => setup({ maxAttempts: 0, handler: async () => {} })).toThrow(
+      "Invalid 'deferred.maxAttempts' for 'deferred_posts'. Expected an integer >= 1."
+    );
+  });
+});
@@ -1,6 +1,7 @@
 import type { GenericDatabaseWriter } from 'convex/server';
+import { decryptColumnsForRead, sealEncryptedFilter } from './encryption';
 import type { FilterExpression } from './filter-expression';
-import { isFieldReference } from './filter-expression';
+import { and, isFieldReference } from './filter-expression';
 import { getIndexes } from './index-utils';
 import {
   applyIncomingForeignKeyActionsOnDelete,
@@ -27,8 +28,9 @@ import {
 } from './mutation-utils';
 import { GelRelationalQuery } from './query';
 import { QueryPromise } from './query-promise';
-import { canDeleteRow } from './rls/evaluator';
+import { canDeleteRow, maskSelectColumns } from './rls/evaluator';
 import type { ConvexTable } from './table';
+import { resolveTenantScope } from './tenancy';
 import type {
   MutationExecuteConfig,
   MutationExecuteResult,
@@ -323,6 +325,13 @@ export class ConvexDeleteBuilder<
     let resolvedMode = getMutationExecutionMode(ormContext, modeOverride);
     const delayMs = getMutationAsyncDelayMs(ormContext, config?.delayMs);
     const { deleteMode, scheduledDelayMs } = this.resolveDeleteModeAndDelay();
+    const tenantScope = await resolveTenantScope(this.table, ormContext);
+    // Deterministic encrypted() columns match on ciphertext.
+    const sealedWhere = await sealEncryptedFilter(
+      this.table,
+      this.whereExpression,
+      ormContext?.encryption
+    );
     if (
       !requestedModeIsExplicit &&
       resolvedMode === 'async' &&
@@ -380,7 +389,9 @@ export class ConvexDeleteBuilder<
               mode: 'async',
               operation: 'delete',
               table: getTableName(this.table),
-              where: serializeFilterExpression(this.whereExpression),
+              where: serializeFilterExpression(
+                and(sealedWhere, tenantScope?.filter)
+              ),
               allowFullScan: this.allowFullScanFlag,
               deleteMode,
               cascadeMode: this.cascadeMode,
@@ -402,7 +413,7 @@ export class ConvexDeleteBuilder<
       }
     }
 
-    if (!this.whereExpression) {
+    if (!sealedWhere) {
       if (!allowFullScan) {
         throw new Error(
           'update/delete without where() requires allowFullScan: true.'
@@ -415,11 +426,14 @@ export class ConvexDeleteBuilder<
       }
     }
 
+    // Id lookups stay on db.get(); other shapes plan with the tenant filter.
+    const scopedWhere = and(sealedWhere, tenantScope?.filter);
+
     let rows: Record<string, unknown>[];
     let continueCursor: string | null = null;
     let isDone = true;
     const primaryIdLookup = canUsePrimaryIdLookupCursor(pagination?.cursor)
-      ? extractPrimaryIdLookup(this.whereExpression)
+      ? extractPrimaryIdLookup(sealedWhere)
       : null;
     if (primaryIdLookup) {
       const primaryIdRows = await collectPrimaryIdLookupRows(
@@ -436,7 +450,7 @@ export class ConvexDeleteBuilder<
       continueCursor = primaryIdRows.continueCursor;
       isDone = primaryIdRows.isDone;
       rows = primaryIdRows.rows;
-    } else if (this.whereExpression) {
+    } else if (scopedWhere) {
       const compiler = new WhereClauseCompiler(
         tableName,
         getIndexes(this.table).map((index) => ({
@@ -444,7 +458,7 @@ export class ConvexDeleteBuilder<
           indexFields: index.fields,
         }))
       );
-      const compiled = compiler.compile(this.whereExpression);
+      const compiled = compiler.compile(scopedWhere);
       const hasIndex =
         !!compiled.selectedIndex &&
         (compiled.indexFilters.length > 0 || compiled.probeFilters.length > 0);
@@ -461,7 +475,7 @@ export class ConvexDeleteBuilder<
         );
       }
 
-      const filterFn = toConvexFilter(this.whereExpression);
+      const filterFn = toConvexFilter(scopedWhere);
 
       if (isPaginated) {
         if (hasIndex && compiled.probeFilters.length > 0) {
@@ -576,9 +590,9 @@ export class ConvexDeleteBuilder<
       });
     }
 
-    if (this.whereExpression) {
+    if (scopedWhere) {
       rows = rows.filter((row) =>
-        evaluateFilter(row as any, this.whereExpression as any)
+        evaluateFilter(row as any, scopedWhere as any)
       );
     }
 
@@ -617,13 +631,22 @@ export class ConvexDeleteBuilder<
 
       visited.add(`${tableName}:${(row as any)._id}`);
       if (this.returningFields) {
+        const [returnedRow] = await maskSelectColumns({
+          table: this.table,
+          rows: await decryptColumnsForRead(
+            this.table,
+            [row as Record<string, unknown>],
+            ormContext?.encryption
+          ),
+          rls,
+        });
         if (this.returningFields === true) {
-          results.push(hydrateDateFieldsForRead(this.table, row as any));
+          results.push(hydrateDateFieldsForRead(this.table, returnedRow));
         } else {
           const nextRow = returningSelection?.columnSelection
             ? selectReturningRowWithHydration(
                 this.table,
-                row as any,
+                returnedRow,
                 returningSelection.columnSelection
               )
             : {};
@@ -638,6 +661,8 @@ export class ConvexDeleteBuilder<
         }
       }
 
+      // Soft cascades share the root's deletionTime so restore can find them.
+      const deletionTime = Date.now();
       await applyIncomingForeignKeyActionsOnDelete(
         this.db,
         this.table,
@@ -658,6 +683,7 @@ export class ConvexDeleteBuilder<
           scheduledMutationBatch: ormContext?.scheduledMutationBatch,
           scheduleState,
           delayMs,
+          deletionTime,
         }
       );
 
@@ -665,17 +691,19 @@ export class ConvexDeleteBuilder<
         await softDeleteRow(
           this.db,
           this.table,
-          row as Record<string, unknown>
+          row as Record<string, unknown>,
+          deletionTime
         );
         numAffected++;
         continue;
       }
 
       if (deleteMode === 'scheduled') {
-        const deletionTime = await softDeleteRow(
+        await softDeleteRow(
           this.db,
           this.table,
-          row as Record<string, unknown>
+          row as Record<string, unknown>,
+          deletionTime
         );
         if (!ormContext?.scheduler || !ormContext.scheduledDelete) {
           throw new Error(
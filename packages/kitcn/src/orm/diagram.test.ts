@@ -0,0 +1,177 @@
+import { id } from './builders/id';
+import { integer } from './builders/number';
+import { text } from './builders/text';
+import { textEnum } from './builders/text-enum';
+import { vector } from './builders/vector';
+import { createSchemaDiagram, renderSchemaDiagram } from './diagram';
+import {
+  aggregateIndex,
+  index,
+  rankIndex,
+  searchIndex,
+  vectorIndex,
+} from './indexes';
+import { defineRelations } from './relations';
+import { defineSchema } from './schema';
+import { convexTable } from './table';
+
+const users = convexTable(
+  'diagram_users',
+  {
+    name: text().notNull(),
+    email: text().unique(),
+    role: textEnum(['admin', 'member']).notNull().default('member'),
+  },
+  (t) => [
+    index('by_name').on(t.name),
+    searchIndex('search_name').on(t.name).filter(t.role),
+  ]
+);
+const posts = convexTable(
+  'diagram_posts',
+  {
+    title: text().notNull(),
+    authorId: id('diagram_users').references(() => users.id, {
+      onDelete: 'cascade',
+    }),
+    embedding: vector(3),
+    score: integer(),
+  },
+  (t) => [
+    index('by_author').on(t.authorId),
+    vectorIndex('by_embedding').on(t.embedding).dimensions(3),
+    aggregateIndex('by_author_stats').on(t.authorId).count(t.title),
+    rankIndex('by_score').partitionBy(t.authorId).orderBy(t.score),
+  ]
+);
+const tables = { users, posts };
+const relations = defineRelations(tables, (r) => ({
+  posts: {
+    author: r.one.users({ from: r.posts.authorId, to: r.users.id }),
+  },
+  users: {
+    posts: r.many.posts(),
+  },
+}));
+
+describe('createSchemaDiagram', () => {
+  test('collects columns, indexes, foreign keys, and relations', () => {
+    const diagram = createSchemaDiagram(relations);
+    const [postsTable, usersTable] = diagram.tables;
+
+    expect(diagram.tables.map((table) => table.name)).toEqual([
+      'diagram_posts',
+      'diagram_users',
+    ]);
+    expect(usersTable!.columns).toEqual([
+      { name: 'id', type: 'id', notNull: true, primaryKey: true },
+      { name: 'name', type: 'text', notNull: true },
+      { name: 'email', type: 'text', notNull: false, unique: true },
+      {
+        name: 'role',
+        type: 'enum',
+        notNull: true,
+        default: 'member',
+        values: ['admin', 'member'],
+      },
+    ]);
+    expect(
+      usersTable!.indexes.map((index) => [index.kind, index.name])
+    ).toEqual([
+      ['unique', 'diagram_users_email_unique'],
+      ['index', 'by_name'],
+      ['search', 'search_name'],
+    ]);
+    expect(postsTable!.indexes.slice(1)).toEqual([
+      {
+        name: 'by_embedding',
+        kind: 'vector',
+        fields: ['embedding'],
+        filterFields: [],
+        dimensions: 3,
+      },
+      {
+        name: 'by_author_stats',
+        kind: 'aggregate',
+        fields: ['authorId'],
+        metrics: ['count(title)'],
+      },
+      {
+        name: 'by_score',
+        kind: 'rank',
+        fields: ['authorId'],
+        orderBy: ['score asc'],
+        metrics: [],
+      },
+    ]);
+    expect(postsTable!.foreignKeys).toEqual([
+      {
+        columns: ['authorId'],
+        foreignTable: 'diagram_users',
+        foreignColumns: ['id'],
+        onDelete: 'cascade',
+      },
+    ]);
+    expect(postsTable!.relations).toEqual([
+      {
+        name: 'author',
+        cardinality: 'one',
+        target: 'diagram_users',
+        fields: ['authorId'],
+        targetFields: ['id'],
+        optional: true,
+        inverse: 'posts',
+      },
+    ]);
+  });
+
+  test('falls back to foreign keys when the schema has no relations', () => {
+    const diagram = createSchemaDiagram(defineSchema(tables));
+
+    expect(diagram.tables.flatMap((table) => table.relations)).toEqual([]);
+    expect(renderSchemaDiagram(defineSchema(tables), 'mermaid')).toContain(
+      '  diagram_posts }o--o| diagram_users : "authorId (on delete cascade)"'
+    );
+  });
+});
+
+describe('renderSchemaDiagram', () => {
+  test('renders a Mermaid erDiagram', () => {
+    const output = renderSchemaDiagram(relations, 'mermaid');
+
+    expect(output.startsWith('erDiagram\n  diagram_posts {\n')).toBe(true);
+    expect(output).toContain('    id authorId FK "references diagram_users"');
+    expect(output).toContain(
+      '    enum role "not null; admin | member; default member"'
+    );
+    expect(output).toContain(
+      '  diagram_posts }o--o| diagram_users : "author / posts (on delete cascade)"'
+    );
+    expect(output).toContain(
+      '  %% diagram_posts rank by_score (authorId); order by score asc'
+    );
+  });
+
+  test('renders DBML tables, enums, and refs', () => {
+    const output = renderSchemaDiagram(relations, 'dbml');
+
+    expect(output).toContain(
+      "  role diagram_users_role [not null, default: 'member']"
+    );
+    expect(output).toContain(
+      "    email [name: 'diagram_users_email_unique', unique]"
+    );
+    expect(output).toContain(
+      'Enum diagram_users_role {\n  "admin"\n  "member"\n}'
+    );
+    expect(output).toContain(
+      'Ref: diagram_posts.authorId > diagram_users.id [delete: cascade] // author / posts'
+    );
+  });
+
+  test('renders the JSON model', () => {
+    expect(JSON.parse(renderSchemaDiagram(relations, 'json'))).toEqual(
+      createSchemaDiagram(relations)
+    );
+  });
+});
@@ -0,0 +1,678 @@
+/**
+ * Schema diagrams - createSchemaDiagram(schema) and `kitcn schema diagram`
+ *
+ * Walks getTableConfig() and extractRelationsConfig() into a plain JSON model
+ * (tables, columns, indexes, foreign keys, relations), then renders that model
+ * as a Mermaid erDiagram or DBML. System fields are shown under their ORM
+ * names (`id`, `createdAt`).
+ */
+
+import type {
+  ColumnBuilder,
+  ForeignKeyAction,
+} from './builders/column-builder';
+import {
+  type EdgeMetadata,
+  extractRelationsConfig,
+} from './extractRelationsConfig';
+import { getSearchIndexes, getVectorIndexes } from './index-utils';
+import { getTableConfig } from './introspection';
+import { getTableName } from './mutation-utils';
+import type { TableRelationalConfig } from './relations';
+import { getSchemaRelations } from './schema';
+import { Columns, OrmSchemaExtensionTables } from './symbols';
+import type { ConvexTable } from './table';
+
+export type SchemaDiagramFormat = 'mermaid' | 'dbml' | 'json';
+
+export const SCHEMA_DIAGRAM_FORMATS: readonly SchemaDiagramFormat[] = [
+  'mermaid',
+  'dbml',
+  'json',
+];
+
+export type SchemaDiagramValue = string | number | boolean | null;
+
+export type SchemaDiagramColumn = {
+  name: string;
+  type: string;
+  notNull: boolean;
+  primaryKey?: true;
+  unique?: true;
+  default?: SchemaDiagramValue;
+  values?: string[];
+  references?: string;
+};
+
+export type SchemaDiagramIndexKind =
+  | 'index'
+  | 'unique'
+  | 'search'
+  | 'vector'
+  | 'aggregate'
+  | 'rank';
+
+export type SchemaDiagramIndex = {
+  name: string;
+  kind: SchemaDiagramIndexKind;
+  fields: string[];
+  /** search/vector filter fields */
+  filterFields?: string[];
+  /** vector dimensions */
+  dimensions?: number;
+  /** rank order, e.g. `score desc` */
+  orderBy?: string[];
+  /** aggregate/rank metrics, e.g. `count(title)` */
+  metrics?: string[];
+};
+
+export type SchemaDiagramForeignKey = {
+  name?: string;
+  columns: string[];
+  foreignTable: string;
+  foreignColumns: string[];
+  onDelete?: ForeignKeyAction;
+  onUpdate?: ForeignKeyAction;
+};
+
+export type SchemaDiagramRelation = {
+  name: string;
+  cardinality: 'one' | 'many';
+  target: string;
+  fields: string[];
+  targetFields: string[];
+  optional: boolean;
+  inverse?: string;
+  through?: {
+    table: string;
+    fields: string[];
+    targetFields: string[];
+  };
+};
+
+export type SchemaDiagramTable = {
+  name: string;
+  columns: SchemaDiagramColumn[];
+  indexes: SchemaDiagramIndex[];
+  foreignKeys: SchemaDiagramForeignKey[];
+  relations: SchemaDiagramRelation[];
+};
+
+export type SchemaDiagram = {
+  tables: SchemaDiagramTable[];
+};
+
+type AnyColumns = Record<string, ColumnBuilder<any, any, any>>;
+
+const CONVEX_PREFIX_RE = /^Convex/;
+const MERMAID_EXACTLY_ONE_RE = /\|\|$/;
+
+const SYSTEM_FIELD_NAMES: Record<string, string> = {
+  _id: 'id',
+  _creationTime: 'createdAt',
+};
+
+const toFieldName = (field: string) => SYSTEM_FIELD_NAMES[field] ?? field;
+
+const toFieldNames = (fields: readonly string[]) => fields.map(toFieldName);
+
+function resolveRelations(
+  schema: object
+): Record<string, TableRelationalConfig> | undefined {
+  const attached = getSchemaRelations(schema);
+  if (attached) {
+    return attached as Record<string, TableRelationalConfig>;
+  }
+  const values = Object.values(schema);
+  if (
+    values.length > 0 &&
+    values.every(
+      (value) =>
+        value &&
+        typeof value === 'object' &&
+        'table' in value &&
+        'relations' in value
+    )
+  ) {
+    return schema as Record<string, TableRelationalConfig>;
+  }
+  return;
+}
+
+function collectTables(
+  schema: object,
+  relations: Record<string, TableRelationalConfig> | undefined
+): ConvexTable<any>[] {
+  const candidates = [
+    ...(relations
+      ? Object.values(relations).map((config) => config.table)
+      : []),
+    ...Object.values(
+      ((schema as { tables?: unknown }).tables ?? {}) as Record<string, unknown>
+    ),
+  ];
+  return candidates.filter(
+    (candidate): candidate is ConvexTable<any> =>
+      !!candidate &&
+      typeof candidate === 'object' &&
+      !!(candidate as any)[Columns]
+  );
+}
+
+function isDiagramValue(value: unknown): value is SchemaDiagramValue {
+  return (
+    value === null ||
+    typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    (typeof value === 'number' && Number.isFinite(value))
+  );
+}
+
+function describeColumnType(config: Record<string, any>): string {
+  switch (config.columnType) {
+    case 'ConvexText':
+      return Array.isArray(config.values) ? 'enum' : (config.format ?? 'text');
+    case 'ConvexNumber':
+      return 'number';
+    case 'ConvexBigInt':
+      return 'bigint';
+    case 'ConvexDecimal':
+      return `decimal(${config.scale})`;
+    case 'ConvexBoolean':
+      return 'boolean';
+    case 'ConvexId':
+      return 'id';
+    case 'ConvexTimestamp':
+      return 'timestamp';
+    case 'ConvexDate':
+      return 'date';
+    case 'ConvexBytes':
+      return 'bytes';
+    case 'ConvexVector':
+      return 'vector';
+    case 'ConvexPoint':
+      return 'point';
+    case 'ConvexCustom':
+      return String(config.validator?.kind ?? 'custom');
+    default:
+      return String(config.columnType ?? 'unknown')
+        .replace(CONVEX_PREFIX_RE, '')
+        .toLowerCase();
+  }
+}
+
+function diagramColumn(
+  name: string,
+  builder: ColumnBuilder<any, any, any>
+): SchemaDiagramColumn {
+  const config = (builder as any).config as Record<string, any>;
+  const column: SchemaDiagramColumn = {
+    name,
+    type: describeColumnType(config),
+    notNull: config.notNull === true,
+  };
+  if (config.isUnique === true) {
+    column.unique = true;
+  }
+  if (isDiagramValue(config.default)) {
+    column.default = config.default;
+  }
+  if (Array.isArray(config.values)) {
+    column.values = config.values.map(String);
+  }
+  if (typeof config.referenceTable === 'string') {
+    column.references = config.referenceTable;
+  }
+  return column;
+}
+
+function diagramIndexes(table: ConvexTable<any>): SchemaDiagramIndex[] {
+  const config = getTableConfig(table);
+  const uniqueNames = new Set(config.uniqueIndexes.map((index) => index.name));
+  const metrics = (kind: string, fields: readonly string[]) =>
+    fields.map((field) => `${kind}(${toFieldName(field)})`);
+
+  return [
+    ...config.indexes.map(
+      (index): SchemaDiagramIndex => ({
+        name: index.name,
+        kind: uniqueNames.has(index.name) ? 'unique' : 'index',
+        fields: toFieldNames(index.fields),
+      })
+    ),
+    ...getSearchIndexes(table).map(
+      (index): SchemaDiagramIndex => ({
+        name: index.name,
+        kind: 'search',
+        fields: [toFieldName(index.searchField)],
+        filterFields: toFieldNames(index.filterFields),
+      })
+    ),
+    ...getVectorIndexes(table).map(
+      (index): SchemaDiagramIndex => ({
+        name: index.name,
+        kind: 'vector',
+        fields: [toFieldName(index.vectorField)],
+        filterFields: toFieldNames(index.filterFields),
+        dimensions: index.dimensions,
+      })
+    ),
+    ...config.aggregateIndexes.map(
+      (index): SchemaDiagramIndex => ({
+        name: index.name,
+        kind: 'aggregate',
+        fields: toFieldNames(index.fields),
+        metrics: [
+          ...metrics('count', index.countFields),
+          ...metrics('sum', index.sumFields),
+          ...metrics('avg', index.avgFields),
+          ...metrics('min', index.minFields),
+          ...metrics('max', index.maxFields),
+        ],
+      })
+    ),
+    ...config.rankIndexes.map(
+      (index): SchemaDiagramIndex => ({
+        name: index.name,
+        kind: 'rank',
+        fields: toFieldNames(index.partitionFields),
+        orderBy: index.orderFields.map(
+          (order) => `${toFieldName(order.field)} ${order.direction}`
+        ),
+        metrics: index.sumField ? metrics('sum', [index.sumField]) : [],
+      })
+    ),
+  ];
+}
+
+function diagramRelation(
+  edge: EdgeMetadata,
+  tableNameByKey: Map<string, string>
+): SchemaDiagramRelation {
+  const tableName = (key: string) => tableNameByKey.get(key) ?? key;
+  return {
+    name: edge.edgeName,
+    cardinality: edge.cardinality,
+    target: tableName(edge.targetTable),
+    fields: toFieldNames(edge.sourceFields),
+    targetFields: toFieldNames(edge.targetFields),
+    optional: edge.optional,
+    ...(edge.inverseEdge ? { inverse: edge.inverseEdge.edgeName } : {}),
+    ...(edge.through
+      ? {
+          through: {
+            table: edge.through.table,
+            fields: toFieldNames(edge.through.sourceFields),
+            targetFields: toFieldNames(edge.through.targetFields),
+          },
+        }
+      : {}),
+  };
+}
+
+/**
+ * Build the JSON diagram model for a schema.
+ *
+ * Accepts the `defineSchema` result or its relations config. Tables owned by
+ * schema extensions are skipped, like in migration snapshots.
+ */
+export function createSchemaDiagram(schema: object): SchemaDiagram {
+  const relations = resolveRelations(schema);
+  const extensionTables = new Set<string>(
+    (schema as { [OrmSchemaExtensionTables]?: readonly string[] })[
+      OrmSchemaExtensionTables
+    ] ?? []
+  );
+
+  const tableNameByKey = new Map<string, string>(
+    Object.entries(relations ?? {}).map(([key, config]) => [
+      key,
+      getTableName(config.table as ConvexTable<any>),
+    ])
+  );
+  const edgesByTable = new Map<string, EdgeMetadata[]>();
+  for (const edge of relations ? extractRelationsConfig(relations) : []) {
+    const tableName = tableNameByKey.get(edge.sourceTable) ?? edge.sourceTable;
+    edgesByTable.set(tableName, [...(edgesByTable.get(tableName) ?? []), edge]);
+  }
+
+  const tables = new Map<string, SchemaDiagramTable>();
+  for (const table of collectTables(schema, relations)) {
+    const config = getTableConfig(table);
+    if (extensionTables.has(config.name) || tables.has(config.name)) {
+      continue;
+    }
+    const columns = ((table as any)[Columns] ?? {}) as AnyColumns;
+    tables.set(config.name, {
+      name: config.name,
+      columns: [
+        { name: 'id', type: 'id', notNull: true, primaryKey: true },
+        ...Object.entries(columns).map(([name, builder]) =>
+          diagramColumn(name, builder)
+        ),
+      ],
+      indexes: diagramIndexes(table),
+      foreignKeys: config.foreignKeys.map((foreignKey) => ({
+        ...(foreignKey.name ? { name: foreignKey.name } : {}),
+        columns: toFieldNames(foreignKey.columns),
+        foreignTable: foreignKey.foreignTableName,
+        foreignColumns: toFieldNames(foreignKey.foreignColumns),
+        ...(foreignKey.onDelete ? { onDelete: foreignKey.onDelete } : {}),
+        ...(foreignKey.onUpdate ? { onUpdate: foreignKey.onUpdate } : {}),
+      })),
+      relations: (edgesByTable.get(config.name) ?? []).map((edge) =>
+        diagramRelation(edge, tableNameByKey)
+      ),
+    });
+  }
+
+  return {
+    tables: [...tables.keys()].sort().map((name) => tables.get(name)!),
+  };
+}
+
+/** A line between two tables, shared by the Mermaid and DBML renderers. */
+type DiagramLink = {
+  kind: 'many-to-one' | 'one-to-one' | 'many-to-many';
+  from: string;
+  fromFields: string[];
+  to: string;
+  toFields: string[];
+  label: string;
+  optional: boolean;
+  onDelete?: ForeignKeyAction;
+  onUpdate?: ForeignKeyAction;
+};
+
+const sameFields = (a: readonly string[], b: readonly string[]) =>
+  a.length === b.length && a.every((field, index) => b[index] === field);
+
+/**
+ * One link per relation pair (inverse relations collapse into the side that
+ * holds the fields), plus one per foreign key that no relation covers.
+ */
+function collectDiagramLinks(diagram: SchemaDiagram): DiagramLink[] {
+  const links: DiagramLink[] = [];
+  const seen = new Set<string>();
+  const tableByName = new Map(
+    diagram.tables.map((table) => [table.name, table])
+  );
+  const isNullable = (tableName: string, fields: readonly string[]) => {
+    const columns = tableByName.get(tableName)?.columns ?? [];
+    return fields.some(
+      (field) =>
+        columns.find((column) => column.name === field)?.notNull !== true
+    );
+  };
+
+  for (const table of diagram.tables) {
+    for (const relation of table.relations) {
+      const key = `${table.name}.${relation.name}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      const inverse = relation.inverse
+        ? tableByName
+            .get(relation.target)
+            ?.relations.find((candidate) => candidate.name === relation.inverse)
+        : undefined;
+      // Emit one/many pairs from the `one` side, which holds the fields.
+      if (relation.cardinality === 'many' && inverse?.cardinality === 'one') {
+        continue;
+      }
+      seen.add(key);
+      if (inverse) {
+        seen.add(`${relation.target}.${inverse.name}`);
+      }
+
+      const label = inverse
+        ? `${relation.name} / ${inverse.name}`
+        : relation.name;
+      if (relation.cardinality === 'one') {
+        const foreignKey = table.foreignKeys.find(
+          (candidate) =>
+            candidate.foreignTable === relation.target &&
+            sameFields(candidate.columns, relation.fields)
+        );
+        links.push({
+          kind: inverse?.cardinality === 'one' ? 'one-to-one' : 'many-to-one',
+          from: table.name,
+          fromFields: relation.fields,
+          to: relation.target,
+          toFields: relation.targetFields,
+          label,
+          optional: isNullable(table.name, relation.fields),
+          onDelete: foreignKey?.onDelete,
+          onUpdate: foreignKey?.onUpdate,
+        });
+        continue;
+      }
+      // A `many` without a `one` inverse: the target holds the fields.
+      links.push({
+        kind: relation.through ? 'many-to-many' : 'many-to-one',
+        from: relation.through ? table.name : relation.target,
+        fromFields: relation.through ? relation.fields : relation.targetFields,
+        to: relation.through ? relation.target : table.name,
+        toFields: relation.through ? relation.targetFields : relation.fields,
+        label,
+        optional: relation.through
+          ? true
+          : isNullable(relation.target, relation.targetFields),
+      });
+    }
+  }
+
+  for (const table of diagram.tables) {
+    for (const foreignKey of table.foreignKeys) {
+      const covered = links.some(
+        (link) =>
+          link.from === table.name &&
+          link.to === foreignKey.foreignTable &&
+          sameFields(link.fromFields, foreignKey.columns)
+      );
+      if (covered) {
+        continue;
+      }
+      links.push({
+        kind: 'many-to-one',
+        from: table.name,
+        fromFields: foreignKey.columns,
+        to: foreignKey.foreignTable,
+        toFields: foreignKey.foreignColumns,
+        label: foreignKey.name ?? foreignKey.columns.join(', '),
+        optional: isNullable(table.name, foreignKey.columns),
+        onDelete: foreignKey.onDelete,
+        onUpdate: foreignKey.onUpdate,
+      });
+    }
+  }
+
+  return links;
+}
+
+function describeIndex(index: SchemaDiagramIndex): string {
+  const parts = [`${index.kind} ${index.name} (${index.fields.join(', ')})`];
+  if (index.orderBy?.length) {
+    parts.push(`order by ${index.orderBy.join(', ')}`);
+  }
+  if (index.metrics?.length) {
+    parts.push(index.metrics.join(', '));
+  }
+  if (index.filterFields?.length) {
+    parts.push(`filter ${index.filterFields.join(', ')}`);
+  }
+  if (index.dimensions !== undefined) {
+    parts.push(`${index.dimensions} dimensions`);
+  }
+  return parts.join('; ');
+}
+
+const formatDefault = (value: SchemaDiagramValue) =>
+  typeof value === 'string'
+    ? `'${value.replaceAll("'", "\\'")}'`
+    : String(value);
+
+function renderMermaid(diagram: SchemaDiagram): string {
+  const lines = ['erDiagram'];
+  for (const table of diagram.tables) {
+    const foreignKeyColumns = new Set(
+      table.foreignKeys.flatMap((foreignKey) => foreignKey.columns)
+    );
+    lines.push(`  ${table.name} {`);
+    for (const column of table.columns) {
+      const keys = [
+        column.primaryKey ? 'PK' : undefined,
+        foreignKeyColumns.has(column.name) ? 'FK' : undefined,
+        column.unique ? 'UK' : undefined,
+      ].filter(Boolean);
+      const notes = [
+        column.notNull && !column.primaryKey ? 'not null' : undefined,
+        column.values ? column.values.join(' | ') : undefined,
+        column.references ? `references ${column.references}` : undefined,
+        column.default !== undefined
+          ? `default ${String(column.default)}`
+          : undefined,
+      ].filter(Boolean);
+      lines.push(
+        `    ${[
+          column.type,
+          column.name,
+          keys.join(', '),
+          notes.length > 0
+            ? `"${notes.join('; ').replaceAll('"', "'")}"`
+            : undefined,
+        ]
+          .filter(Boolean)
+          .join(' ')}`
+      );
+    }
+    lines.push('  }');
+  }
+
+  const cardinality: Record<DiagramLink['kind'], string> = {
+    'many-to-one': '}o--||',
+    'one-to-one': '|o--||',
+    'many-to-many': '}o--o{',
+  };
+  for (const link of collectDiagramLinks(diagram)) {
+    const relationship =
+      link.optional && link.kind !== 'many-to-many'
+        ? cardinality[link.kind].replace(MERMAID_EXACTLY_ONE_RE, 'o|')
+        : cardinality[link.kind];
+    const action = link.onDelete ? ` (on delete ${link.onDelete})` : '';
+    lines.push(
+      `  ${link.from} ${relationship} ${link.to} : "${link.label}${action}"`
+    );
+  }
+
+  for (const table of diagram.tables) {
+    for (const index of table.indexes) {
+      lines.push(`  %% ${table.name} ${describeIndex(index)}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+const dbmlEnumName = (table: string, column: string) => `${table}_${column}`;
+
+const dbmlFields = (table: string, fields: readonly string[]) =>
+  fields.length === 1
+    ? `${table}.${fields[0]}`
+    : `${table}.(${fields.join(', ')})`;
+
+function renderDbml(diagram: SchemaDiagram): string {
+  const blocks: string[] = [];
+  for (const table of diagram.tables) {
+    const lines = [`Table ${table.name} {`];
+    for (const column of table.columns) {
+      const settings = [
+        column.primaryKey ? 'pk' : undefined,
+        column.notNull && !column.primaryKey ? 'not null' : undefined,
+        column.unique ? 'unique' : undefined,
+        column.default !== undefined
+          ? `default: ${formatDefault(column.default)}`
+          : undefined,
+        column.references
+          ? `note: 'references ${column.references}'`
+          : undefined,
+      ].filter(Boolean);
+      const type = column.values
+        ? dbmlEnumName(table.name, column.name)
+        : column.type;
+      lines.push(
+        `  ${column.name} ${type}${settings.length > 0 ? ` [${settings.join(', ')}]` : ''}`
+      );
+    }
+    if (table.indexes.length > 0) {
+      lines.push('', '  Indexes {');
+      for (const index of table.indexes) {
+        const fields =
+          index.fields.length === 1
+            ? index.fields[0]
+            : `(${index.fields.join(', ')})`;
+        const settings = [
+          `name: '${index.name}'`,
+          index.kind === 'unique' ? 'unique' : undefined,
+          index.kind === 'index' || index.kind === 'unique'
+            ? undefined
+            : `note: '${describeIndex(index)}'`,
+        ].filter(Boolean);
+        lines.push(`    ${fields} [${settings.join(', ')}]`);
+      }
+      lines.push('  }');
+    }
+    lines.push('}');
+    blocks.push(lines.join('\n'));
+
+    for (const column of table.columns) {
+      if (column.values) {
+        blocks.push(
+          [
+            `Enum ${dbmlEnumName(table.name, column.name)} {`,
+            ...column.values.map((value) => `  "${value}"`),
+            '}',
+          ].join('\n')
+        );
+      }
+    }
+  }
+
+  const operator: Record<DiagramLink['kind'], string> = {
+    'many-to-one': '>',
+    'one-to-one': '-',
+    'many-to-many': '<>',
+  };
+  const refs = collectDiagramLinks(diagram).map((link) => {
+    const settings = [
+      link.onDelete ? `delete: ${link.onDelete}` : undefined,
+      link.onUpdate ? `update: ${link.onUpdate}` : undefined,
+    ].filter(Boolean);
+    return `Ref: ${dbmlFields(link.from, link.fromFields)} ${operator[link.kind]} ${dbmlFields(link.to, link.toFields)}${settings.length > 0 ? ` [${settings.join(', ')}]` : ''} // ${link.label}`;
+  });
+  if (refs.length > 0) {
+    blocks.push(refs.join('\n'));
+  }
+
+  return `${blocks.join('\n\n')}\n`;
+}
+
+/** Render a schema diagram as Mermaid, DBML, or pretty-printed JSON. */
+export function renderSchemaDiagram(
+  schema: object,
+  format: SchemaDiagramFormat = 'mermaid'
+): string {
+  const diagram = createSchemaDiagram(schema);
+  switch (format) {
+    case 'mermaid':
+      return renderMermaid(diagram);
+    case 'dbml':
+      return renderDbml(diagram);
+    case 'json':
+      return `${JSON.stringify(diagram, null, 2)}\n`;
+    default:
+      throw new Error(
+        `Unknown diagram format '${String(format)}'. Use ${SCHEMA_DIAGRAM_FORMATS.join(', ')}.`
+      );
+  }
+}
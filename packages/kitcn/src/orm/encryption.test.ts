@@ -0,0 +1,162 @@
+import { text } from './builders/text';
+import {
+  createOrmKeyring,
+  decryptColumnsForRead,
+  encryptColumnsForWrite,
+  getCiphertextKeyId,
+  reencryptColumns,
+  sealEncryptedFilter,
+} from './encryption';
+import { and, eq, gt, ne } from './filter-expression';
+import { convexTable } from './table';
+
+const KEY_1 = `k1:${btoa('0123456789abcdef0123456789abcdef')}`;
+const KEY_2 = `k2:${btoa('fedcba9876543210fedcba9876543210')}`;
+
+const accounts = convexTable('enc_unit_accounts', {
+  ssn: text().encrypted(),
+  email: text().encrypted({ mode: 'deterministic' }),
+  name: text(),
+});
+
+describe('createOrmKeyring', () => {
+  test('round-trips values and tags them with the active key', async () => {
+    const keyring = createOrmKeyring({ keys: KEY_1 });
+    const sealed = await keyring.encrypt('secret', 'randomized');
+
+    expect(sealed.startsWith('enc:k1:')).toBe(true);
+    expect(getCiphertextKeyId(sealed)).toBe('k1');
+    expect(await keyring.decrypt(sealed)).toBe('secret');
+    expect(await keyring.decrypt('legacy plaintext')).toBe('legacy plaintext');
+  });
+
+  test('seals deterministic values to stable ciphertext', async () => {
+    const keyring = createOrmKeyring({ keys: KEY_1 });
+
+    expect(await keyring.encrypt('a@b.co', 'deterministic')).toBe(
+      await keyring.encrypt('a@b.co', 'deterministic')
+    );
+    expect(await keyring.encrypt('a@b.co', 'randomized')).not.toBe(
+      await keyring.encrypt('a@b.co', 'randomized')
+    );
+  });
+
+  test('seals lookup values under every key, active key first', async () => {
+    const old = createOrmKeyring({ keys: KEY_1 });
+    const rotated = createOrmKeyring({ keys: `${KEY_2},${KEY_1}` });
+
+    expect(await rotated.encryptForLookup('a@b.co')).toEqual([
+      await rotated.encrypt('a@b.co', 'deterministic'),
+      await old.encrypt('a@b.co', 'deterministic'),
+    ]);
+  });
+
+  test('decrypts with retired keys and rejects unknown ones', async () => {
+    const sealed = await createOrmKeyring({ keys: KEY_1 }).encrypt(
+      'secret',
+      'randomized'
+    );
+
+    const rotated = createOrmKeyring({ keys: `${KEY_2},${KEY_1}` });
+    expect(await rotated.activeKeyId()).toBe('k2');
+    expect(await rotated.decrypt(sealed)).toBe('secret');
+
+    await expect(
+      createOrmKeyring({ keys: KEY_2 }).decrypt(sealed)
+    ).rejects.toThrow(
+      "Unknown encryption key 'k1'. Keep retired keys in encryption.keys until rows are re-encrypted."
+    );
+  });
+
+  test('rejects malformed key rings', async () => {
+    await expect(
+      createOrmKeyring({ keys: '' }).encrypt('x', 'randomized')
+    ).rejects.toThrow('encryption.keys is empty.');
+    await expect(
+      createOrmKeyring({ keys: `k1:${btoa('short')}` }).encrypt(
+        'x',
+        'randomized'
+      )
+    ).rejects.toThrow(
+      "encryption key 'k1' must be 16, 24, or 32 bytes (got 5)."
+    );
+    await expect(
+      createOrmKeyring({ keys: `${KEY_1},${KEY_1}` }).encrypt('x', 'randomized')
+    ).rejects.toThrow("encryption.keys lists key 'k1' twice.");
+  });
+});
+
+describe('encrypted column helpers', () => {
+  test('seal and open only encrypted() columns', async () => {
+    const keyring = createOrmKeyring({ keys: KEY_1 });
+    const stored = await encryptColumnsForWrite(
+      accounts,
+      { ssn: '123-45-6789', email: 'a@b.co', name: 'Ada' },
+      keyring
+    );
+
+    expect(stored.name).toBe('Ada');
+    expect(getCiphertextKeyId(stored.ssn)).toBe('k1');
+    expect(getCiphertextKeyId(stored.email)).toBe('k1');
+    expect(await decryptColumnsForRead(accounts, [stored], keyring)).toEqual([
+      { ssn: '123-45-6789', email: 'a@b.co', name: 'Ada' },
+    ]);
+  });
+
+  test('reencryptColumns patches values off the active key', async () => {
+    const stored = await encryptColumnsForWrite(
+      accounts,
+      { ssn: '123-45-6789', email: 'a@b.co' },
+      createOrmKeyring({ keys: KEY_1 })
+    );
+    const rotated = createOrmKeyring({ keys: `${KEY_2},${KEY_1}` });
+
+    const patch = await reencryptColumns(
+      accounts,
+      { ...stored, name: 'plaintext name' },
+      rotated
+    );
+    expect(Object.keys(patch).sort()).toEqual(['email', 'ssn']);
+    expect(getCiphertextKeyId(patch.ssn as string)).toBe('k2');
+    expect(await rotated.decrypt(patch.ssn as string)).toBe('123-45-6789');
+    expect(
+      await reencryptColumns(accounts, { ...stored, ...patch }, rotated)
+    ).toEqual({});
+  });
+
+  test('sealEncryptedFilter matches equality operands under every key', async () => {
+    const rotated = createOrmKeyring({ keys: `${KEY_2},${KEY_1}` });
+    const lookup = await rotated.encryptForLookup('a@b.co');
+
+    const sealed = await sealEncryptedFilter(
+      accounts,
+      and(eq(accounts.email, 'a@b.co'), ne(accounts.name, 'Ada')),
+      rotated
+    );
+    expect(sealed?.operands[0]).toMatchObject({
+      operator: 'inArray',
+      operands: [{ fieldName: 'email' }, lookup],
+    });
+    expect(sealed?.operands[1]).toMatchObject({
+      operator: 'ne',
+      operands: [{ fieldName: 'name' }, 'Ada'],
+    });
+    expect(
+      (await sealEncryptedFilter(accounts, sealed, rotated))?.operands[0]
+    ).toMatchObject({ operands: [{ fieldName: 'email' }, lookup] });
+
+    await expect(
+      sealEncryptedFilter(accounts, gt(accounts.email as any, 'a'), rotated)
+    ).rejects.toThrow(
+      "Encrypted column 'email' of 'enc_unit_accounts' only supports eq, ne, inArray, notInArray, isNull, and isNotNull filters."
+    );
+  });
+
+  test('requires a keyring for tables with encrypted() columns', async () => {
+    await expect(
+      encryptColumnsForWrite(accounts, { ssn: 'x' }, undefined)
+    ).rejects.toThrow(
+      "Table 'enc_unit_accounts' has encrypted() columns. Pass { encryption: { keys } } to createOrm()."
+    );
+  });
+});
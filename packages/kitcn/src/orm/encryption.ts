@@ -0,0 +1,522 @@
+/**
+ * Field-level encryption for text().encrypted() columns
+ *
+ * Values are sealed with AES-GCM through WebCrypto and stored as
+ * `enc:<keyId>:<base64 iv + ciphertext>`. Writes use the first key in the
+ * ring; reads pick the key named by the prefix, so retired keys keep
+ * decrypting until rows are re-encrypted. Deterministic columns derive the IV
+ * from an HMAC of the plaintext: equal values seal to equal ciphertext, which
+ * is what lets them back eq/in filters and indexes. Each key seals to its own
+ * ciphertext, so lookups match the value sealed under every key in the ring.
+ */
+
+import type { EncryptionMode } from './builders/column-builder';
+import {
+  and,
+  type BinaryExpression,
+  eq,
+  type FilterExpression,
+  inArray,
+  isFieldReference,
+  ne,
+  not,
+  notInArray,
+  or,
+} from './filter-expression';
+import { getTableColumns, getTableName } from './mutation-utils';
+import type { ConvexTable } from './table';
+
+export type { EncryptionMode } from './builders/column-builder';
+
+export type OrmEncryptionOptions = {
+  /**
+   * Key ring as `<keyId>:<base64 key>` entries separated by commas, newest
+   * first. Pass a function to read it from createEnv() at call time.
+   *
+   * @example
+   * keys: () => getEnv().ORM_ENCRYPTION_KEYS // 'k2:...,k1:...'
+   */
+  keys: string | (() => string);
+};
+
+export type OrmKeyring = {
+  activeKeyId: () => Promise<string>;
+  encrypt: (plaintext: string, mode: EncryptionMode) => Promise<string>;
+  /** Deterministic ciphertext under every key, active key first. */
+  encryptForLookup: (plaintext: string) => Promise<string[]>;
+  decrypt: (value: string) => Promise<string>;
+};
+
+const CIPHERTEXT_PREFIX = 'enc:';
+const IV_LENGTH = 12;
+const KEY_ID_RE = /^[A-Za-z0-9_-]+$/;
+const AES_KEY_LENGTHS = new Set([16, 24, 32]);
+
+type ImportedKey = { encryptKey: CryptoKey; ivKey: CryptoKey };
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const parseKeyring = (raw: string): [string, Uint8Array][] => {
+  const entries = raw
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (entries.length === 0) {
+    throw new Error(
+      'encryption.keys is empty. Expected "<keyId>:<base64 key>" entries.'
+    );
+  }
+
+  const seen = new Set<string>();
+  return entries.map((entry) => {
+    const separator = entry.indexOf(':');
+    const keyId = separator === -1 ? '' : entry.slice(0, separator);
+    if (!KEY_ID_RE.test(keyId)) {
+      throw new Error(
+        'encryption.keys entries must look like "<keyId>:<base64 key>" with keyId matching [A-Za-z0-9_-]+.'
+      );
+    }
+    if (seen.has(keyId)) {
+      throw new Error(`encryption.keys lists key '${keyId}' twice.`);
+    }
+    seen.add(keyId);
+
+    let key: Uint8Array;
+    try {
+      key = base64ToBytes(entry.slice(separator + 1));
+    } catch {
+      throw new Error(`encryption key '${keyId}' is not valid base64.`);
+    }
+    if (!AES_KEY_LENGTHS.has(key.length)) {
+      throw new Error(
+        `encryption key '${keyId}' must be 16, 24, or 32 bytes (got ${key.length}).`
+      );
+    }
+    return [keyId, key];
+  });
+};
+
+// Separate subkeys for sealing and IV derivation, so the same secret is
+// never used by two algorithms.
+const importKey = async (secret: Uint8Array): Promise<ImportedKey> => {
+  const master = await crypto.subtle.importKey(
+    'raw',
+    secret as BufferSource,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const derive = async (label: string) =>
+    new Uint8Array(
+      await crypto.subtle.sign('HMAC', master, textEncoder.encode(label))
+    ).slice(0, secret.length);
+
+  return {
+    encryptKey: await crypto.subtle.importKey(
+      'raw',
+      (await derive('kitcn:orm:encrypt')) as BufferSource,
+      'AES-GCM',
+      false,
+      ['encrypt', 'decrypt']
+    ),
+    ivKey: await crypto.subtle.importKey(
+      'raw',
+      (await derive('kitcn:orm:iv')) as BufferSource,
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    ),
+  };
+};
+
+/**
+ * Build a keyring from createOrm({ encryption }). Keys are resolved lazily
+ * and re-imported only when the configured key string changes.
+ */
+export function createOrmKeyring(options: OrmEncryptionOptions): OrmKeyring {
+  let loaded:
+    | {
+        raw: string;
+        activeKeyId: string;
+        keys: Map<string, Promise<ImportedKey>>;
+      }
+    | undefined;
+
+  const load = () => {
+    const raw =
+      typeof options.keys === 'function' ? options.keys() : options.keys;
+    if (typeof raw !== 'string') {
+      throw new Error('encryption.keys must resolve to a string.');
+    }
+    if (loaded?.raw !== raw) {
+      const entries = parseKeyring(raw);
+      loaded = {
+        raw,
+        activeKeyId: entries[0][0],
+        keys: new Map(
+          entries.map(([keyId, secret]) => [keyId, importKey(secret)])
+        ),
+      };
+    }
+    return loaded;
+  };
+
+  const seal = async (
+    keyId: string,
+    key: Promise<ImportedKey>,
+    plaintext: string,
+    mode: EncryptionMode
+  ) => {
+    const { encryptKey, ivKey } = await key;
+    const data = textEncoder.encode(plaintext);
+    const iv =
+      mode === 'deterministic'
+        ? new Uint8Array(await crypto.subtle.sign('HMAC', ivKey, data)).slice(
+            0,
+            IV_LENGTH
+          )
+        : crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const sealed = new Uint8Array(
+      await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, encryptKey, data)
+    );
+    const payload = new Uint8Array(iv.length + sealed.length);
+    payload.set(iv);
+    payload.set(sealed, iv.length);
+    return `${CIPHERTEXT_PREFIX}${keyId}:${bytesToBase64(payload)}`;
+  };
+
+  return {
+    activeKeyId: async () => load().activeKeyId,
+
+    async encrypt(plaintext, mode) {
+      const { activeKeyId, keys } = load();
+      return await seal(activeKeyId, keys.get(activeKeyId)!, plaintext, mode);
+    },
+
+    async encryptForLookup(plaintext) {
+      return await Promise.all(
+        [...load().keys].map(([keyId, key]) =>
+          seal(keyId, key, plaintext, 'deterministic')
+        )
+      );
+    },
+
+    async decrypt(value) {
+      const keyId = getCiphertextKeyId(value);
+      if (keyId === undefined) {
+        return value;
+      }
+      const key = load().keys.get(keyId);
+      if (!key) {
+        throw new Error(
+          `Unknown encryption key '${keyId}'. Keep retired keys in encryption.keys until rows are re-encrypted.`
+        );
+      }
+      const payload = base64ToBytes(
+        value.slice(CIPHERTEXT_PREFIX.length + keyId.length + 1)
+      );
+      try {
+        const plaintext = await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: payload.slice(0, IV_LENGTH) },
+          (await key).encryptKey,
+          payload.slice(IV_LENGTH)
+        );
+        return textDecoder.decode(plaintext);
+      } catch {
+        throw new Error(`Could not decrypt value sealed with key '${keyId}'.`);
+      }
+    },
+  };
+}
+
+/**
+ * Key id of a stored ciphertext, or undefined for values written before the
+ * column was encrypted.
+ */
+export function getCiphertextKeyId(value: string): string | undefined {
+  if (!value.startsWith(CIPHERTEXT_PREFIX)) {
+    return;
+  }
+  const end = value.indexOf(':', CIPHERTEXT_PREFIX.length);
+  return end === -1 ? undefined : value.slice(CIPHERTEXT_PREFIX.length, end);
+}
+
+export function getEncryptedColumns(
+  table: ConvexTable<any>
+): [string, EncryptionMode][] {
+  const encrypted: [string, EncryptionMode][] = [];
+  for (const [columnName, builder] of Object.entries(getTableColumns(table))) {
+    const mode = (builder as any).config?.encrypted as
+      | EncryptionMode
+      | undefined;
+    if (mode) {
+      encrypted.push([columnName, mode]);
+    }
+  }
+  return encrypted;
+}
+
+const requireKeyring = (
+  table: ConvexTable<any>,
+  keyring: OrmKeyring | undefined
+): OrmKeyring => {
+  if (!keyring) {
+    throw new Error(
+      `Table '${getTableName(table)}' has encrypted() columns. Pass { encryption: { keys } } to createOrm().`
+    );
+  }
+  return keyring;
+};
+
+/** Seal the encrypted() columns present in a write payload. */
+export async function encryptColumnsForWrite<T extends Record<string, unknown>>(
+  table: ConvexTable<any>,
+  row: T,
+  keyring: OrmKeyring | undefined
+): Promise<T> {
+  let sealed: Record<string, unknown> | undefined;
+  for (const [columnName, mode] of getEncryptedColumns(table)) {
+    const value = row[columnName];
+    if (typeof value !== 'string') {
+      continue;
+    }
+    sealed ??= { ...row };
+    sealed[columnName] = await requireKeyring(table, keyring).encrypt(
+      value,
+      mode
+    );
+  }
+  return (sealed ?? row) as T;
+}
+
+/** Open the encrypted() columns of stored rows. */
+export async function decryptColumnsForRead<T extends Record<string, unknown>>(
+  table: ConvexTable<any>,
+  rows: T[],
+  keyring: OrmKeyring | undefined
+): Promise<T[]> {
+  const encrypted = getEncryptedColumns(table);
+  if (encrypted.length === 0) {
+    return rows;
+  }
+  return await Promise.all(
+    rows.map(async (row) => {
+      let opened: Record<string, unknown> | undefined;
+      for (const [columnName] of encrypted) {
+        const value = row[columnName];
+        if (
+          typeof value !== 'string' ||
+          getCiphertextKeyId(value) === undefined
+        ) {
+          continue;
+        }
+        opened ??= { ...row };
+        opened[columnName] = await requireKeyring(table, keyring).decrypt(
+          value
+        );
+      }
+      return (opened ?? row) as T;
+    })
+  );
+}
+
+/**
+ * Patch that re-seals a stored row's encrypted() columns with the active key.
+ * Plaintext left from before a column was encrypted is sealed too; values
+ * already on the active key are skipped.
+ */
+export async function reencryptColumns(
+  table: ConvexTable<any>,
+  doc: Record<string, unknown>,
+  keyring: OrmKeyring | undefined
+): Promise<Record<string, unknown>> {
+  const patch: Record<string, unknown> = {};
+  const encrypted = getEncryptedColumns(table);
+  if (encrypted.length === 0) {
+    return patch;
+  }
+  const resolved = requireKeyring(table, keyring);
+  const activeKeyId = await resolved.activeKeyId();
+  for (const [columnName, mode] of encrypted) {
+    const value = doc[columnName];
+    if (
+      typeof value !== 'string' ||
+      getCiphertextKeyId(value) === activeKeyId
+    ) {
+      continue;
+    }
+    patch[columnName] = await resolved.encrypt(
+      await resolved.decrypt(value),
+      mode
+    );
+  }
+  return patch;
+}
+
+/** Ciphertexts per plaintext equality value, keyed by column name. */
+export type SealedFilterValues = Map<string, Map<unknown, string[]>>;
+
+const isSealedValue = (value: unknown): boolean =>
+  typeof value === 'string' && getCiphertextKeyId(value) !== undefined;
+
+const ENCRYPTED_FILTER_OPERATORS = new Set([
+  'eq',
+  'ne',
+  'inArray',
+  'notInArray',
+]);
+
+/**
+ * Plaintext operands that eq/ne/inArray/notInArray compare against
+ * deterministic encrypted() columns, keyed by column name. Operands that are
+ * already ciphertext are skipped. Any other filter on an encrypted column
+ * throws.
+ */
+export function getEncryptedFilterValues(
+  table: ConvexTable<any>,
+  expression: FilterExpression<boolean> | undefined
+): Map<string, Set<string>> {
+  const values = new Map<string, Set<string>>();
+  const encrypted = new Map(getEncryptedColumns(table));
+  if (!expression || encrypted.size === 0) {
+    return values;
+  }
+  const tableName = getTableName(table);
+
+  const visit = (node: FilterExpression<boolean>) => {
+    if (node.type !== 'binary') {
+      for (const operand of node.operands) {
+        if (!isFieldReference(operand)) {
+          visit(operand as FilterExpression<boolean>);
+        }
+      }
+      return;
+    }
+    const [field, value] = (node as BinaryExpression).operands;
+    const mode = encrypted.get(field.fieldName);
+    if (!mode) {
+      return;
+    }
+    if (mode === 'randomized') {
+      throw new Error(
+        `Cannot filter on encrypted column '${field.fieldName}' of '${tableName}'. Use encrypted({ mode: 'deterministic' }) to allow equality filters.`
+      );
+    }
+    if (!ENCRYPTED_FILTER_OPERATORS.has(node.operator)) {
+      throw new Error(
+        `Encrypted column '${field.fieldName}' of '${tableName}' only supports eq, ne, inArray, notInArray, isNull, and isNotNull filters.`
+      );
+    }
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (typeof item === 'string' && !isSealedValue(item)) {
+        let columnValues = values.get(field.fieldName);
+        if (!columnValues) {
+          columnValues = new Set();
+          values.set(field.fieldName, columnValues);
+        }
+        columnValues.add(item);
+      }
+    }
+  };
+
+  visit(expression);
+  return values;
+}
+
+/**
+ * Swap plaintext equality operands for their ciphertexts. A value sealed
+ * under several keys matches any of them, so eq/ne become
+ * inArray/notInArray.
+ */
+export function applySealedFilterValues(
+  expression: FilterExpression<boolean>,
+  sealed: SealedFilterValues
+): FilterExpression<boolean> {
+  if (expression.type === 'logical') {
+    const operands = expression.operands.map((operand) =>
+      applySealedFilterValues(operand, sealed)
+    );
+    return (expression.operator === 'and' ? and : or)(...operands)!;
+  }
+  if (expression.type === 'unary') {
+    const [operand] = expression.operands;
+    return expression.operator === 'not' && !isFieldReference(operand)
+      ? not(applySealedFilterValues(operand, sealed))
+      : expression;
+  }
+
+  const [field, value] = (expression as BinaryExpression).operands;
+  const columnValues = sealed.get(field.fieldName);
+  if (!columnValues) {
+    return expression;
+  }
+  const lookup = (item: unknown) => columnValues.get(item) ?? [item];
+  switch (expression.operator) {
+    case 'eq':
+    case 'ne': {
+      const ciphertexts = lookup(value);
+      if (ciphertexts.length === 1) {
+        return (expression.operator === 'eq' ? eq : ne)(
+          field as any,
+          ciphertexts[0] as any
+        );
+      }
+      return (expression.operator === 'eq' ? inArray : notInArray)(
+        field as any,
+        ciphertexts as any
+      );
+    }
+    case 'inArray':
+      return inArray(field as any, (value as unknown[]).flatMap(lookup) as any);
+    case 'notInArray':
+      return notInArray(
+        field as any,
+        (value as unknown[]).flatMap(lookup) as any
+      );
+    default:
+      return expression;
+  }
+}
+
+/**
+ * Seal a filter expression's equality operands on deterministic encrypted()
+ * columns under every key in the ring, so stored ciphertext matches.
+ */
+export async function sealEncryptedFilter(
+  table: ConvexTable<any>,
+  expression: FilterExpression<boolean> | undefined,
+  keyring: OrmKeyring | undefined
+): Promise<FilterExpression<boolean> | undefined> {
+  const values = getEncryptedFilterValues(table, expression);
+  if (!expression || values.size === 0) {
+    return expression;
+  }
+  const resolved = requireKeyring(table, keyring);
+  const sealed: SealedFilterValues = new Map();
+  for (const [columnName, columnValues] of values) {
+    const ciphertexts = new Map<unknown, string[]>();
+    for (const value of columnValues) {
+      ciphertexts.set(value, await resolved.encryptForLookup(value));
+    }
+    sealed.set(columnName, ciphertexts);
+  }
+  return applySealedFilterValues(expression, sealed);
+}
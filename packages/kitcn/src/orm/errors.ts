@@ -7,3 +7,16 @@ export class OrmNotFoundError extends Error {
     this.name = 'OrmNotFoundError';
   }
 }
+
+export class OrmConcurrentModificationError extends Error {
+  constructor(
+    message: string,
+    readonly table: string,
+    readonly id: string,
+    readonly expectedVersion: number,
+    readonly actualVersion: number | undefined
+  ) {
+    super(message);
+    this.name = 'OrmConcurrentModificationError';
+  }
+}
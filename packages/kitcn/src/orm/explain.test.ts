@@ -0,0 +1,68 @@
+import { text } from './builders/text';
+import { formatFilterExpression, formatQueryPlan } from './explain';
+import { and, inArray, isNull, like, not, or } from './filter-expression';
+import { convexTable } from './table';
+
+const posts = convexTable('explain_unit_posts', {
+  title: text(),
+  status: text(),
+});
+
+describe('formatFilterExpression', () => {
+  test('renders nested expressions as operator calls', () => {
+    expect(
+      formatFilterExpression(
+        and(
+          like(posts.title, 'a%'),
+          or(inArray(posts.status, ['draft', 'live']), not(isNull(posts.title)))
+        )!
+      )
+    ).toBe(
+      'and(like(title, "a%"), or(inArray(status, ["draft","live"]), not(isNull(title))))'
+    );
+  });
+});
+
+describe('formatQueryPlan', () => {
+  test('renders probes, unions, and nested relations', () => {
+    expect(
+      formatQueryPlan({
+        table: 'posts',
+        mode: 'first',
+        strategy: 'multiProbe',
+        index: 'by_status',
+        range: [],
+        probes: [
+          [{ field: 'status', op: 'eq', value: 'draft' }],
+          [{ field: 'status', op: 'eq', value: 'live' }],
+        ],
+        postFilters: [],
+        order: [{ field: 'title', direction: 'asc', source: 'sort' }],
+        fullScan: false,
+        union: null,
+        limit: 1,
+        relations: [
+          {
+            name: 'tags',
+            table: 'tags',
+            cardinality: 'many',
+            lookup: 'get',
+            index: null,
+            through: { table: 'postTags', index: null },
+            relations: [],
+          },
+        ],
+      })
+    ).toBe(
+      [
+        'findFirst posts: multiProbe',
+        '  index: by_status',
+        '  probe: [status eq "draft"]',
+        '  probe: [status eq "live"]',
+        '  order: title asc (sort)',
+        '  limit: 1',
+        '  with tags -> tags (many, get) through postTags (scan)',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Query plans - findMany(...).explain() and db.query.<table>.explain(config)
+ *
+ * The plan mirrors what GelRelationalQuery.execute() would do: which read
+ * strategy and index it picks, the index range, what is left as post-filters,
+ * which order terms need an in-memory sort, and how `with` relations are
+ * loaded. explain({ analyze: true }) also runs the query and fills in row
+ * counts.
+ */
+
+import type {
+  BinaryExpression,
+  FilterExpression,
+  LogicalExpression,
+  UnaryExpression,
+} from './filter-expression';
+import { isFieldReference } from './filter-expression';
+
+export type OrmQueryPlanStrategy =
+  /** `where: { id }` / `{ id: { in } }` read by primary key */
+  | 'idLookup'
+  /** where compiled to an index range */
+  | 'index'
+  /** OR / inArray compiled to one index range per probe */
+  | 'multiProbe'
+  /** explicit .withIndex(name, range?) */
+  | 'withIndex'
+  /** no usable where index; index picked for orderBy only */
+  | 'orderIndex'
+  /** by_creation_time walk with no range */
+  | 'fullScan'
+  | 'search'
+  | 'vectorSearch'
+  | 'hybridSearch'
+  | 'pageByKey'
+  /** select() pipelines and endCursor pagination */
+  | 'stream';
+
+export type OrmQueryPlanBound = {
+  field: string;
+  op: 'eq' | 'gt' | 'gte' | 'lt' | 'lte';
+  value: unknown;
+};
+
+export type OrmQueryPlanOrder = {
+  field: string;
+  direction: 'asc' | 'desc';
+  /** 'index' when the read order serves it, 'sort' for an in-memory sort. */
+  source: 'index' | 'sort';
+};
+
+export type OrmQueryPlanRelation = {
+  name: string;
+  table: string;
+  cardinality: 'one' | 'many';
+  /** 'get' reads by id, 'index' uses `index`, 'scan' filters the table. */
+  lookup: 'get' | 'index' | 'scan';
+  index: string | null;
+  through?: { table: string; index: string | null };
+  /** One lookup per distinct parent key; filled by explain({ analyze }). */
+  fanOut?: { parents: number; rows: number };
+  relations: OrmQueryPlanRelation[];
+};
+
+export type OrmQueryPlan = {
+  table: string;
+  mode: 'many' | 'first' | 'firstOrThrow';
+  strategy: OrmQueryPlanStrategy;
+  index: string | null;
+  range: OrmQueryPlanBound[];
+  /** One range per probe for 'multiProbe'. */
+  probes: OrmQueryPlanBound[][];
+  /** Filters checked per row after the index read. */
+  postFilters: string[];
+  order: OrmQueryPlanOrder[];
+  /** True when the read walks an index without a range. */
+  fullScan: boolean;
+  /** Streams merged into one result (select().union(), hybridSearch). */
+  union: { sources: string[]; interleaveBy: string[] } | null;
+  limit: number | null;
+  relations: OrmQueryPlanRelation[];
+  /** Filled by explain({ analyze: true }). */
+  rows?: { scanned: number; returned: number };
+};
+
+export type OrmQueryExplainOptions = {
+  /** Run the query and report scanned/returned rows and relation fan-out. */
+  analyze?: boolean;
+};
+
+/** Row counters threaded through execute() by explain({ analyze }). */
+export type OrmQueryExplainStats = {
+  scanned: number;
+  relations: Map<string, { parents: number; rows: number }>;
+};
+
+export const relationStatsKey = (
+  depth: number,
+  tableName: string,
+  relationName: string
+) => `${depth}:${tableName}.${relationName}`;
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return 'undefined';
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+/** Render a filter expression as `op(field, value)` text. */
+export function formatFilterExpression(
+  expression: FilterExpression<boolean>
+): string {
+  if (expression.type === 'logical') {
+    const logical = expression as LogicalExpression;
+    return `${logical.operator}(${logical.operands
+      .map((operand) => formatFilterExpression(operand))
+      .join(', ')})`;
+  }
+  if (expression.type === 'unary') {
+    const [operand] = (expression as UnaryExpression).operands;
+    return `${expression.operator}(${
+      isFieldReference(operand)
+        ? operand.fieldName
+        : formatFilterExpression(operand as FilterExpression<boolean>)
+    })`;
+  }
+  const [field, value] = (expression as BinaryExpression).operands;
+  return `${expression.operator}(${
+    isFieldReference(field) ? field.fieldName : formatValue(field)
+  }, ${formatValue(value)})`;
+}
+
+const formatBounds = (bounds: OrmQueryPlanBound[]) =>
+  bounds
+    .map((bound) => `${bound.field} ${bound.op} ${formatValue(bound.value)}`)
+    .join(', ');
+
+const MODE_LABELS: Record<OrmQueryPlan['mode'], string> = {
+  many: 'findMany',
+  first: 'findFirst',
+  firstOrThrow: 'findFirstOrThrow',
+};
+
+const formatRelation = (
+  relation: OrmQueryPlanRelation,
+  indent: string,
+  lines: string[]
+) => {
+  const via =
+    relation.lookup === 'index'
+      ? `index ${relation.index}`
+      : relation.lookup === 'get'
+        ? 'get'
+        : 'scan';
+  const through = relation.through
+    ? ` through ${relation.through.table} (${
+        relation.through.index ? `index ${relation.through.index}` : 'scan'
+      })`
+    : '';
+  const fanOut = relation.fanOut
+    ? `: ${relation.fanOut.parents} parents -> ${relation.fanOut.rows} rows`
+    : '';
+  lines.push(
+    `${indent}with ${relation.name} -> ${relation.table} (${relation.cardinality}, ${via})${through}${fanOut}`
+  );
+  for (const nested of relation.relations) {
+    formatRelation(nested, `${indent}  `, lines);
+  }
+};
+
+/** Multi-line, log-friendly rendering of a query plan. */
+export function formatQueryPlan(plan: OrmQueryPlan): string {
+  const lines = [
+    `${MODE_LABELS[plan.mode]} ${plan.table}: ${plan.strategy}${
+      plan.fullScan ? ' (full scan)' : ''
+    }`,
+  ];
+  if (plan.index) {
+    lines.push(
+      `  index: ${plan.index}${
+        plan.range.length > 0 ? ` [${formatBounds(plan.range)}]` : ''
+      }`
+    );
+  }
+  for (const probe of plan.probes) {
+    lines.push(`  probe: [${formatBounds(probe)}]`);
+  }
+  if (plan.union) {
+    lines.push(
+      `  union: ${plan.union.sources.join(', ')}${
+        plan.union.interleaveBy.length > 0
+          ? ` by ${plan.union.interleaveBy.join(', ')}`
+          : ''
+      }`
+    );
+  }
+  for (const filter of plan.postFilters) {
+    lines.push(`  post-filter: ${filter}`);
+  }
+  if (plan.order.length > 0) {
+    lines.push(
+      `  order: ${plan.order
+        .map((order) => `${order.field} ${order.direction} (${order.source})`)
+        .join(', ')}`
+    );
+  }
+  if (plan.limit !== null) {
+    lines.push(`  limit: ${plan.limit}`);
+  }
+  if (plan.rows) {
+    lines.push(
+      `  rows: ${plan.rows.scanned} scanned -> ${plan.rows.returned} returned`
+    );
+  }
+  for (const relation of plan.relations) {
+    formatRelation(relation, '  ', lines);
+  }
+  return lines.join('\n');
+}
@@ -10,7 +10,16 @@
  * - Immutable tree structure: Expressions are read-only after construction
  */
 
-import type { ColumnBuilder } from './builders/column-builder';
+import type {
+  ColumnBuilder,
+  EqualityFilterValue,
+  UnencryptedFilterValue,
+} from './builders/column-builder';
+import {
+  assertGeoFilterValue,
+  type GeoNearFilter,
+  type GeoWithinFilter,
+} from './geo';
 
 /**
  * Extract TypeScript type from a column builder
@@ -21,6 +30,19 @@ type ColumnToType<TBuilder extends ColumnBuilder<any, any, any>> =
     ? TBuilder['_']['data']
     : TBuilder['_']['data'] | null;
 
+/**
+ * Comparable value for a column filter; never for encrypted() columns.
+ */
+type FilterValue<TBuilder extends ColumnBuilder<any, any, any>> =
+  UnencryptedFilterValue<TBuilder, ColumnToType<TBuilder>>;
+
+/**
+ * Value for eq/ne/inArray/notInArray; plaintext for deterministic
+ * encrypted() columns.
+ */
+type EqualityValue<TBuilder extends ColumnBuilder<any, any, any>> =
+  EqualityFilterValue<TBuilder, ColumnToType<TBuilder>>;
+
 // ============================================================================
 // Branded Type Symbol
 // ============================================================================
@@ -82,7 +104,9 @@ export interface BinaryExpression<TField = any>
     | 'notIlike'
     | 'startsWith'
     | 'endsWith'
-    | 'contains';
+    | 'contains'
+    | 'near'
+    | 'within';
   readonly type: 'binary';
 }
 
@@ -288,7 +312,7 @@ class UnaryExpressionImpl implements UnaryExpression {
  */
 export function eq<TBuilder extends ColumnBuilder<any, any, any>>(
   col: ColumnArgument<TBuilder>,
-  value: ColumnToType<TBuilder>
+  value: EqualityValue<TBuilder>
 ): BinaryExpression<ColumnToType<TBuilder>> {
   const resolved = resolveColumn(col);
   return new BinaryExpressionImpl('eq', [fieldRef(resolved.columnName), value]);
@@ -299,7 +323,7 @@ export function eq<TBuilder extends ColumnBuilder<any, any, any>>(
  */
 export function ne<TBuilder extends ColumnBuilder<any, any, any>>(
   col: ColumnArgument<TBuilder>,
-  value: ColumnToType<TBuilder>
+  value: EqualityValue<TBuilder>
 ): BinaryExpression<ColumnToType<TBuilder>> {
   const resolved = resolveColumn(col);
   return new BinaryExpressionImpl('ne', [fieldRef(resolved.columnName), value]);
@@ -310,7 +334,7 @@ export function ne<TBuilder extends ColumnBuilder<any, any, any>>(
  */
 export function gt<TBuilder extends ColumnBuilder<any, any, any>>(
   col: ColumnArgument<TBuilder>,
-  value: ColumnToType<TBuilder>
+  value: FilterValue<TBuilder>
 ): BinaryExpression<ColumnToType<TBuilder>> {
   const resolved = resolveColumn(col);
   return new BinaryExpressionImpl('gt', [fieldRef(resolved.columnName), value]);
@@ -321,7 +345,7 @@ export function gt<TBuilder extends ColumnBuilder<any, any, any>>(
  */
 export function gte<TBuilder extends ColumnBuilder<any, any, any>>(
   col: ColumnArgument<TBuilder>,
-  value: ColumnToType<TBuilder>
+  value: FilterValue<TBuilder>
 ): BinaryExpression<ColumnToType<TBuilder>> {
   const resolved = resolveColumn(col);
   return new BinaryExpressionImpl('gte', [
@@ -335,7 +359,7 @@ export function gte<TBuilder extends ColumnBuilder<any, any, any>>(
  */
 export function lt<TBuilder extends ColumnBuilder<any, any, any>>(
   col: ColumnArgument<TBuilder>,
-  value: ColumnToType<TBuilder>
+  value: FilterValue<TBuilder>
 ): BinaryExpression<ColumnToType<TBuilder>> {
   const resolved = resolveColumn(col);
   return new BinaryExpressionImpl('lt', [fieldRef(resolved.columnName), value]);
@@ -346,7 +370,7 @@ export function lt<TBuilder extends ColumnBuilder<any, any, any>>(
  */
 export function lte<TBuilder extends ColumnBuilder<any, any, any>>(
   col: ColumnArgument<TBuilder>,
-  value: ColumnToType<TBuilder>
+  value: FilterValue<TBuilder>
 ): BinaryExpression<ColumnToType<TBuilder>> {
   const resolved = resolveColumn(col);
   return new BinaryExpressionImpl('lte', [
@@ -362,8 +386,8 @@ export function lte<TBuilder extends ColumnBuilder<any, any, any>>(
  */
 export function between<TBuilder extends ColumnBuilder<any, any, any>>(
   col: ColumnArgument<TBuilder>,
-  min: ColumnToType<TBuilder>,
-  max: ColumnToType<TBuilder>
+  min: FilterValue<TBuilder>,
+  max: FilterValue<TBuilder>
 ): FilterExpression<boolean> {
   return and(gte(col, min), lte(col, max))!;
 }
@@ -375,8 +399,8 @@ export function between<TBuilder extends ColumnBuilder<any, any, any>>(
  */
 export function notBetween<TBuilder extends ColumnBuilder<any, any, any>>(
   col: ColumnArgument<TBuilder>,
-  min: ColumnToType<TBuilder>,
-  max: ColumnToType<TBuilder>
+  min: FilterValue<TBuilder>,
+  max: FilterValue<TBuilder>
 ): FilterExpression<boolean> {
   return or(lt(col, min), gt(col, max))!;
 }
@@ -396,7 +420,7 @@ export function notBetween<TBuilder extends ColumnBuilder<any, any, any>>(
  */
 export function like<TBuilder extends ColumnBuilder<any, any, any>>(
   col: ColumnArgument<TBuilder>,
-  pattern: string
+  pattern: UnencryptedFilterValue<TBuilder, string>
 ): BinaryExpression<string> {
   const resolved = resolveColumn(col);
   return new BinaryExpressionImpl('like', [
@@ -416,7 +440,7 @@ export function like<TBuilder extends ColumnBuilder<any, any, any>>(
  */
 export function ilike<TBuilder extends ColumnBuilder<any, any, any>>(
   col: ColumnArgument<TBuilder>,
-  pattern: string
+  pattern: UnencryptedFilterValue<TBuilder, string>
 ): BinaryExpression<string> {
   const resolved = resolveColumn(col);
   return new BinaryExpressionImpl('ilike', [
@@ -430,7 +454,7 @@ export function ilike<TBuilder extends ColumnBuilder<any, any, any>>(
  */
 export function notLike<TBuilder extends ColumnBuilder<any, any, any>>(
   col: ColumnArgument<TBuilder>,
-  pattern: string
+  pattern: UnencryptedFilterValue<TBuilder, string>
 ): BinaryExpression<string> {
   const resolved = resolveColumn(col);
   return new BinaryExpressionImpl('notLike', [
@@ -444,7 +468,7 @@ export function notLike<TBuilder extends ColumnBuilder<any, any, any>>(
  */
 export function notIlike<TBuilder extends ColumnBuilder<any, any, any>>(
   col: ColumnArgument<TBuilder>,
-  pattern: string
+  pattern: UnencryptedFilterValue<TBuilder, string>
 ): BinaryExpression<string> {
   const resolved = resolveColumn(col);
   return new BinaryExpressionImpl('notIlike', [
@@ -464,7 +488,7 @@ export function notIlike<TBuilder extends ColumnBuilder<any, any, any>>(
  */
 export function startsWith<TBuilder extends ColumnBuilder<any, any, any>>(
   col: ColumnArgument<TBuilder>,
-  prefix: string
+  prefix: UnencryptedFilterValue<TBuilder, string>
 ): BinaryExpression<string> {
   const resolved = resolveColumn(col);
   return new BinaryExpressionImpl('startsWith', [
@@ -483,7 +507,7 @@ export function startsWith<TBuilder extends ColumnBuilder<any, any, any>>(
  */
 export function endsWith<TBuilder extends ColumnBuilder<any, any, any>>(
   col: ColumnArgument<TBuilder>,
-  suffix: string
+  suffix: UnencryptedFilterValue<TBuilder, string>
 ): BinaryExpression<string> {
   const resolved = resolveColumn(col);
   return new BinaryExpressionImpl('endsWith', [
@@ -503,7 +527,7 @@ export function endsWith<TBuilder extends ColumnBuilder<any, any, any>>(
  */
 export function contains<TBuilder extends ColumnBuilder<any, any, any>>(
   col: ColumnArgument<TBuilder>,
-  substring: string
+  substring: UnencryptedFilterValue<TBuilder, string>
 ): BinaryExpression<string> {
   const resolved = resolveColumn(col);
   return new BinaryExpressionImpl('contains', [
@@ -512,6 +536,52 @@ export function contains<TBuilder extends ColumnBuilder<any, any, any>>(
   ]);
 }
 
+// ============================================================================
+// Factory Functions - Geo Operators
+// ============================================================================
+
+/**
+ * near operator: point() within `radiusMeters` of `point`
+ * Uses a geoIndex() on the column when available
+ *
+ * @example
+ * const shops = await db.query.shops.findMany({
+ *   where: near(shops.location, { point: { lat: 52.52, lng: 13.4 }, radiusMeters: 500 }),
+ * });
+ */
+export function near<TBuilder extends ColumnBuilder<any, any, any>>(
+  col: ColumnArgument<TBuilder>,
+  value: GeoNearFilter
+): BinaryExpression {
+  assertGeoFilterValue('near', value);
+  const resolved = resolveColumn(col);
+  return new BinaryExpressionImpl('near', [
+    fieldRef(resolved.columnName),
+    value,
+  ]);
+}
+
+/**
+ * within operator: point() inside a bounding box
+ * Uses a geoIndex() on the column when available
+ *
+ * @example
+ * const shops = await db.query.shops.findMany({
+ *   where: within(shops.location, { bbox: { minLat: 52, minLng: 13, maxLat: 53, maxLng: 14 } }),
+ * });
+ */
+export function within<TBuilder extends ColumnBuilder<any, any, any>>(
+  col: ColumnArgument<TBuilder>,
+  value: GeoWithinFilter
+): BinaryExpression {
+  assertGeoFilterValue('within', value);
+  const resolved = resolveColumn(col);
+  return new BinaryExpressionImpl('within', [
+    fieldRef(resolved.columnName),
+    value,
+  ]);
+}
+
 // ============================================================================
 // Factory Functions - Logical Operators
 // ============================================================================
@@ -600,7 +670,7 @@ export function not(expression: FilterExpression<boolean>): UnaryExpression {
  */
 export function inArray<TBuilder extends ColumnBuilder<any, any, any>>(
   col: ColumnArgument<TBuilder>,
-  values: readonly ColumnToType<TBuilder>[]
+  values: readonly EqualityValue<TBuilder>[]
 ): BinaryExpression<ColumnToType<TBuilder>> {
   const resolved = resolveColumn(col);
   return new BinaryExpressionImpl('inArray', [
@@ -618,7 +688,7 @@ export function inArray<TBuilder extends ColumnBuilder<any, any, any>>(
  */
 export function notInArray<TBuilder extends ColumnBuilder<any, any, any>>(
   col: ColumnArgument<TBuilder>,
-  values: readonly ColumnToType<TBuilder>[]
+  values: readonly EqualityValue<TBuilder>[]
 ): BinaryExpression<ColumnToType<TBuilder>> {
   // Validation: Array must be non-empty
   if (!Array.isArray(values) || values.length === 0) {
@@ -636,7 +706,7 @@ export function notInArray<TBuilder extends ColumnBuilder<any, any, any>>(
  */
 export function arrayContains<TBuilder extends ColumnBuilder<any, any, any>>(
   col: ColumnArgument<TBuilder>,
-  values: readonly ColumnToType<TBuilder>[]
+  values: readonly FilterValue<TBuilder>[]
 ): BinaryExpression<ColumnToType<TBuilder>> {
   const resolved = resolveColumn(col);
   return new BinaryExpressionImpl('arrayContains', [
@@ -650,7 +720,7 @@ export function arrayContains<TBuilder extends ColumnBuilder<any, any, any>>(
  */
 export function arrayContained<TBuilder extends ColumnBuilder<any, any, any>>(
   col: ColumnArgument<TBuilder>,
-  values: readonly ColumnToType<TBuilder>[]
+  values: readonly FilterValue<TBuilder>[]
 ): BinaryExpression<ColumnToType<TBuilder>> {
   const resolved = resolveColumn(col);
   return new BinaryExpressionImpl('arrayContained', [
@@ -664,7 +734,7 @@ export function arrayContained<TBuilder extends ColumnBuilder<any, any, any>>(
  */
 export function arrayOverlaps<TBuilder extends ColumnBuilder<any, any, any>>(
   col: ColumnArgument<TBuilder>,
-  values: readonly ColumnToType<TBuilder>[]
+  values: readonly FilterValue<TBuilder>[]
 ): BinaryExpression<ColumnToType<TBuilder>> {
   const resolved = resolveColumn(col);
   return new BinaryExpressionImpl('arrayOverlaps', [
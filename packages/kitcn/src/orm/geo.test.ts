@@ -0,0 +1,103 @@
+import {
+  assertGeoFilterValue,
+  bboxAroundPoint,
+  distanceMeters,
+  encodeGeohash,
+  geohashCoverCells,
+  isPointInBBox,
+  matchesGeoFilter,
+} from './geo';
+
+const berlin = { lat: 52.52, lng: 13.405 };
+
+describe('encodeGeohash', () => {
+  test('matches reference geohashes', () => {
+    const point = { lat: 57.64911, lng: 10.40744 };
+
+    expect(encodeGeohash(point)).toBe('u4pruydqqv');
+    expect(encodeGeohash(point, 5)).toBe('u4pru');
+    expect(encodeGeohash({ lat: 0, lng: 0 }, 1)).toBe('s');
+  });
+});
+
+describe('distanceMeters', () => {
+  test('measures great-circle distance', () => {
+    const paris = { lat: 48.8566, lng: 2.3522 };
+
+    expect(distanceMeters(berlin, berlin)).toBe(0);
+    expect(distanceMeters(berlin, paris)).toBeGreaterThan(870_000);
+    expect(distanceMeters(berlin, paris)).toBeLessThan(885_000);
+  });
+});
+
+describe('geohashCoverCells', () => {
+  test('covers every point inside the box', () => {
+    const bbox = bboxAroundPoint(berlin, 2000);
+    const cells = geohashCoverCells(bbox);
+
+    expect(cells.length).toBeGreaterThanOrEqual(1);
+    expect(cells.length).toBeLessThanOrEqual(16);
+    for (const point of [
+      berlin,
+      { lat: bbox.minLat, lng: bbox.minLng },
+      { lat: bbox.maxLat, lng: bbox.maxLng },
+    ]) {
+      const hash = encodeGeohash(point);
+      expect(cells.some((cell) => hash.startsWith(cell))).toBe(true);
+    }
+  });
+
+  test('splits boxes that cross the antimeridian', () => {
+    const bbox = { minLat: -1, minLng: 179, maxLat: 1, maxLng: -179 };
+    const cells = geohashCoverCells(bbox);
+
+    for (const point of [
+      { lat: 0, lng: 179.5 },
+      { lat: 0, lng: -179.5 },
+    ]) {
+      expect(isPointInBBox(point, bbox)).toBe(true);
+      const hash = encodeGeohash(point);
+      expect(cells.some((cell) => hash.startsWith(cell))).toBe(true);
+    }
+    expect(isPointInBBox({ lat: 0, lng: 0 }, bbox)).toBe(false);
+  });
+});
+
+describe('geo filters', () => {
+  test('matches stored points by exact distance and bounds', () => {
+    const stored = { ...berlin, geohash: encodeGeohash(berlin) };
+    const nearby = { lat: 52.521, lng: 13.405 };
+
+    expect(
+      matchesGeoFilter('near', stored, { point: nearby, radiusMeters: 200 })
+    ).toBe(true);
+    expect(
+      matchesGeoFilter('near', stored, { point: nearby, radiusMeters: 50 })
+    ).toBe(false);
+    expect(
+      matchesGeoFilter('within', stored, {
+        bbox: { minLat: 52, minLng: 13, maxLat: 53, maxLng: 14 },
+      })
+    ).toBe(true);
+    expect(
+      matchesGeoFilter('near', null, { point: nearby, radiusMeters: 1 })
+    ).toBe(false);
+  });
+
+  test('rejects invalid operands', () => {
+    expect(() =>
+      assertGeoFilterValue('near', {
+        point: { lat: 91, lng: 0 },
+        radiusMeters: 1,
+      })
+    ).toThrow(/near\.point/);
+    expect(() =>
+      assertGeoFilterValue('near', { point: berlin, radiusMeters: -1 })
+    ).toThrow(/radiusMeters/);
+    expect(() =>
+      assertGeoFilterValue('within', {
+        bbox: { minLat: 10, minLng: 0, maxLat: 0, maxLng: 1 },
+      })
+    ).toThrow(/within\.bbox/);
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Geospatial helpers for point() columns, geoIndex(), and the near/within
+ * filter operators.
+ *
+ * Points are stored as `{ lat, lng, geohash }`. geoIndex() indexes the
+ * geohash, so a near/within filter reads a few geohash prefix ranges (one
+ * probe per covering cell) instead of the whole table, then keeps rows by
+ * exact distance or bounds.
+ */
+
+export type GeoPoint = {
+  lat: number;
+  lng: number;
+};
+
+/**
+ * Bounding box in degrees. `minLng > maxLng` crosses the antimeridian.
+ */
+export type GeoBBox = {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+};
+
+export type GeoNearFilter = {
+  point: GeoPoint;
+  radiusMeters: number;
+};
+
+export type GeoWithinFilter = {
+  bbox: GeoBBox;
+};
+
+/** Stored geohash length (~1.2m x 0.6m cells). */
+export const GEOHASH_PRECISION = 10;
+/** Stored sub-field that geoIndex() indexes. */
+export const GEOHASH_FIELD = 'geohash';
+
+const GEOHASH_BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+const EARTH_RADIUS_METERS = 6_371_008.8;
+const METERS_PER_DEGREE_LAT = (Math.PI * EARTH_RADIUS_METERS) / 180;
+/** Upper bound on index probes for one near/within filter. */
+const MAX_GEO_COVER_CELLS = 16;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+export const isGeoPoint = (value: unknown): value is GeoPoint =>
+  value !== null &&
+  typeof value === 'object' &&
+  isFiniteNumber((value as GeoPoint).lat) &&
+  isFiniteNumber((value as GeoPoint).lng);
+
+export const assertGeoPoint = (value: unknown, label: string): GeoPoint => {
+  if (
+    !isGeoPoint(value) ||
+    Math.abs(value.lat) > 90 ||
+    Math.abs(value.lng) > 180
+  ) {
+    throw new Error(
+      `${label} expected { lat, lng } with lat in [-90, 90] and lng in [-180, 180], got ${JSON.stringify(value)}.`
+    );
+  }
+  return value;
+};
+
+/** Index field for a point column, e.g. `location.geohash`. */
+export const geoIndexField = (columnName: string) =>
+  `${columnName}.${GEOHASH_FIELD}`;
+
+/** Encode a point as a geohash of `precision` characters. */
+export function encodeGeohash(
+  point: GeoPoint,
+  precision: number = GEOHASH_PRECISION
+): string {
+  let minLat = -90;
+  let maxLat = 90;
+  let minLng = -180;
+  let maxLng = 180;
+  let hash = '';
+  let bits = 0;
+  let charIndex = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (minLng + maxLng) / 2;
+      if (point.lng >= mid) {
+        charIndex = charIndex * 2 + 1;
+        minLng = mid;
+      } else {
+        charIndex *= 2;
+        maxLng = mid;
+      }
+    } else {
+      const mid = (minLat + maxLat) / 2;
+      if (point.lat >= mid) {
+        charIndex = charIndex * 2 + 1;
+        minLat = mid;
+      } else {
+        charIndex *= 2;
+        maxLat = mid;
+      }
+    }
+    evenBit = !evenBit;
+    bits += 1;
+    if (bits === 5) {
+      hash += GEOHASH_BASE32[charIndex];
+      bits = 0;
+      charIndex = 0;
+    }
+  }
+  return hash;
+}
+
+/** Great-circle (haversine) distance between two points in meters. */
+export function distanceMeters(a: GeoPoint, b: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) *
+      Math.cos(toRadians(b.lat)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Smallest bounding box that contains every point within `radiusMeters`. */
+export function bboxAroundPoint(
+  point: GeoPoint,
+  radiusMeters: number
+): GeoBBox {
+  const dLat = radiusMeters / METERS_PER_DEGREE_LAT;
+  const minLat = Math.max(-90, point.lat - dLat);
+  const maxLat = Math.min(90, point.lat + dLat);
+  const widestLat = Math.max(Math.abs(minLat), Math.abs(maxLat));
+  const cosLat = Math.cos((widestLat * Math.PI) / 180);
+  const dLng =
+    cosLat > 0 ? radiusMeters / (METERS_PER_DEGREE_LAT * cosLat) : 180;
+  if (dLng >= 180 || maxLat === 90 || minLat === -90) {
+    return { minLat, minLng: -180, maxLat, maxLng: 180 };
+  }
+  const wrap = (lng: number) =>
+    lng < -180 ? lng + 360 : lng > 180 ? lng - 360 : lng;
+  return {
+    minLat,
+    minLng: wrap(point.lng - dLng),
+    maxLat,
+    maxLng: wrap(point.lng + dLng),
+  };
+}
+
+export function isPointInBBox(point: GeoPoint, bbox: GeoBBox): boolean {
+  if (point.lat < bbox.minLat || point.lat > bbox.maxLat) {
+    return false;
+  }
+  return bbox.minLng <= bbox.maxLng
+    ? point.lng >= bbox.minLng && point.lng <= bbox.maxLng
+    : point.lng >= bbox.minLng || point.lng <= bbox.maxLng;
+}
+
+const cellSizes = (precision: number) => {
+  const bits = precision * 5;
+  return {
+    lat: 180 / 2 ** Math.floor(bits / 2),
+    lng: 360 / 2 ** Math.ceil(bits / 2),
+  };
+};
+
+const cellSpan = (min: number, max: number, origin: number, size: number) => {
+  const first = Math.floor((min - origin) / size);
+  const last = Math.floor((Math.min(max, -origin - 1e-9) - origin) / size);
+  return { first, count: last - first + 1 };
+};
+
+const splitAtAntimeridian = (bbox: GeoBBox): GeoBBox[] =>
+  bbox.minLng <= bbox.maxLng
+    ? [bbox]
+    : [
+        { ...bbox, maxLng: 180 },
+        { ...bbox, minLng: -180 },
+      ];
+
+/**
+ * Geohash cells covering `bbox`: the longest prefix length whose cover stays
+ * within the probe budget. Every point inside the box has a geohash that
+ * starts with one of the returned cells.
+ */
+export function geohashCoverCells(bbox: GeoBBox): string[] {
+  const parts = splitAtAntimeridian(bbox);
+  const countAt = (precision: number) => {
+    const size = cellSizes(precision);
+    return parts.reduce(
+      (total, part) =>
+        total +
+        cellSpan(part.minLat, part.maxLat, -90, size.lat).count *
+          cellSpan(part.minLng, part.maxLng, -180, size.lng).count,
+      0
+    );
+  };
+
+  let precision = 1;
+  while (
+    precision < GEOHASH_PRECISION &&
+    countAt(precision + 1) <= MAX_GEO_COVER_CELLS
+  ) {
+    precision += 1;
+  }
+
+  const size = cellSizes(precision);
+  const cells = new Set<string>();
+  for (const part of parts) {
+    const lat = cellSpan(part.minLat, part.maxLat, -90, size.lat);
+    const lng = cellSpan(part.minLng, part.maxLng, -180, size.lng);
+    for (let i = 0; i < lat.count; i += 1) {
+      for (let j = 0; j < lng.count; j += 1) {
+        cells.add(
+          encodeGeohash(
+            {
+              lat: -90 + (lat.first + i + 0.5) * size.lat,
+              lng: -180 + (lng.first + j + 0.5) * size.lng,
+            },
+            precision
+          )
+        );
+      }
+    }
+  }
+  return [...cells].sort();
+}
+
+/** Cells to probe for a near/within filter value. */
+export function geoFilterCoverCells(
+  operator: 'near' | 'within',
+  value: unknown
+): string[] {
+  if (operator === 'near') {
+    const { point, radiusMeters } = value as GeoNearFilter;
+    return geohashCoverCells(bboxAroundPoint(point, radiusMeters));
+  }
+  return geohashCoverCells((value as GeoWithinFilter).bbox);
+}
+
+/** Exact check of a stored point against a near/within filter value. */
+export function matchesGeoFilter(
+  operator: 'near' | 'within',
+  fieldValue: unknown,
+  value: unknown
+): boolean {
+  if (!isGeoPoint(fieldValue)) {
+    return false;
+  }
+  if (operator === 'near') {
+    const { point, radiusMeters } = value as GeoNearFilter;
+    return distanceMeters(fieldValue, point) <= radiusMeters;
+  }
+  return isPointInBBox(fieldValue, (value as GeoWithinFilter).bbox);
+}
+
+/** Validate a near/within operand before it reaches the planner. */
+export function assertGeoFilterValue(
+  operator: 'near' | 'within',
+  value: unknown
+): void {
+  if (operator === 'near') {
+    const near = value as Partial<GeoNearFilter> | null;
+    assertGeoPoint(near?.point, 'near.point');
+    if (!isFiniteNumber(near?.radiusMeters) || near.radiusMeters < 0) {
+      throw new Error('near.radiusMeters must be a non-negative number.');
+    }
+    return;
+  }
+  const bbox = (value as Partial<GeoWithinFilter> | null)?.bbox;
+  if (
+    !bbox ||
+    !isFiniteNumber(bbox.minLat) ||
+    !isFiniteNumber(bbox.maxLat) ||
+    !isFiniteNumber(bbox.minLng) ||
+    !isFiniteNumber(bbox.maxLng) ||
+    bbox.minLat > bbox.maxLat
+  ) {
+    throw new Error(
+      'within.bbox expected { minLat, minLng, maxLat, maxLng } with minLat <= maxLat.'
+    );
+  }
+}
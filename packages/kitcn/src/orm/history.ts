@@ -0,0 +1,294 @@
+import type {
+  GenericDatabaseReader,
+  GenericDatabaseWriter,
+  SchedulableFunctionReference,
+  Scheduler,
+} from 'convex/server';
+import { integer, json, text } from './builders';
+import { defineSchemaExtension, type SchemaExtension } from './extensions';
+import { index } from './indexes';
+import {
+  getOrmContext,
+  hydrateDateFieldsForRead,
+  normalizePublicSystemFields,
+} from './mutation-utils';
+import type {
+  TableRelationalConfig,
+  TablesRelationalConfig,
+} from './relations';
+import { type OrmTableHistoryConfig, TableHistoryConfig } from './symbols';
+import { type ConvexTable, convexTable } from './table';
+import { usesSystemCreatedAtAlias } from './timestamp-mode';
+import type { OrmTriggerChange } from './triggers';
+
+export const HISTORY_TABLE_SUFFIX = '_history';
+const DEFAULT_HISTORY_PRUNE_BATCH_SIZE = 256;
+
+type AnyRecord = Record<string, unknown>;
+
+export type OrmHistoryEntry<TDoc = AnyRecord> = {
+  id: string;
+  recordId: string;
+  changedAt: number;
+  actor: string | null;
+} & (
+  | {
+      operation: 'insert';
+      oldDoc: null;
+      newDoc: TDoc;
+    }
+  | {
+      operation: 'update';
+      oldDoc: TDoc;
+      newDoc: TDoc;
+    }
+  | {
+      operation: 'delete';
+      oldDoc: TDoc;
+      newDoc: null;
+    }
+);
+
+export type HistoryPruneArgs = {
+  batchSize?: number;
+};
+
+export const getHistoryTableName = (tableName: string): string =>
+  `${tableName}${HISTORY_TABLE_SUFFIX}`;
+
+export const getTableHistoryConfig = (
+  table: ConvexTable<any>
+): OrmTableHistoryConfig | undefined =>
+  (table as { [TableHistoryConfig]?: OrmTableHistoryConfig })[
+    TableHistoryConfig
+  ];
+
+export function createHistoryTable(tableName: string) {
+  return convexTable(
+    getHistoryTableName(tableName),
+    {
+      recordId: text().notNull(),
+      operation: text().notNull(),
+      oldDoc: json(),
+      newDoc: json(),
+      changedAt: integer().notNull(),
+      actor: text(),
+    },
+    (t) => [
+      index('by_record').on(t.recordId, t.changedAt),
+      index('by_changed_at').on(t.changedAt),
+    ]
+  );
+}
+
+/**
+ * Builds the companion `<table>_history` tables for every table declared
+ * with `history()`. Returns undefined when no table opts in.
+ */
+export function historyExtension(
+  tables: Record<string, unknown>
+): SchemaExtension<Record<string, ConvexTable<any>>> | undefined {
+  const historyTables: Record<string, ConvexTable<any>> = {};
+
+  for (const table of Object.values(tables)) {
+    if (!table || typeof table !== 'object') {
+      continue;
+    }
+    if (!getTableHistoryConfig(table as ConvexTable<any>)) {
+      continue;
+    }
+    const tableName = (table as ConvexTable<any>).tableName;
+    historyTables[getHistoryTableName(tableName)] =
+      createHistoryTable(tableName);
+  }
+
+  if (Object.keys(historyTables).length === 0) {
+    return;
+  }
+  return defineSchemaExtension('history', historyTables);
+}
+
+const toHistoryDoc = (
+  table: ConvexTable<any>,
+  doc: AnyRecord | null
+): AnyRecord | null =>
+  doc
+    ? normalizePublicSystemFields(doc, {
+        useSystemCreatedAtAlias: usesSystemCreatedAtAlias(table),
+      })
+    : null;
+
+const fromHistoryDoc = (
+  table: ConvexTable<any>,
+  doc: unknown
+): AnyRecord | null =>
+  doc ? hydrateDateFieldsForRead(table, doc as AnyRecord) : null;
+
+const resolveHistoryActor = (
+  config: OrmTableHistoryConfig,
+  hookCtx: AnyRecord
+): string | undefined => {
+  const orm = hookCtx.orm as GenericDatabaseReader<any> | undefined;
+  const requestCtx =
+    (orm ? getOrmContext(orm)?.rls?.ctx : undefined) ?? hookCtx;
+  if (config.actor) {
+    return config.actor(requestCtx) ?? undefined;
+  }
+  const userId = (requestCtx as { userId?: unknown }).userId;
+  return typeof userId === 'string' ? userId : undefined;
+};
+
+export function createHistoryChangeHook(
+  tableConfig: TableRelationalConfig,
+  config: OrmTableHistoryConfig
+) {
+  const table = tableConfig.table as ConvexTable<any>;
+  const historyTableName = getHistoryTableName(tableConfig.name);
+
+  return async (
+    change: OrmTriggerChange<AnyRecord>,
+    ctx: AnyRecord
+  ): Promise<void> => {
+    await (ctx.db as GenericDatabaseWriter<any>).insert(
+      historyTableName as any,
+      {
+        recordId: String(change.id),
+        operation: change.operation,
+        oldDoc: toHistoryDoc(table, change.oldDoc),
+        newDoc: toHistoryDoc(table, change.newDoc),
+        changedAt: Date.now(),
+        actor: resolveHistoryActor(config, ctx),
+      } as any
+    );
+  };
+}
+
+const requireHistoryTableName = (
+  tableConfig: TableRelationalConfig
+): string => {
+  if (!getTableHistoryConfig(tableConfig.table as ConvexTable<any>)) {
+    throw new Error(
+      `Table '${tableConfig.name}' does not record history. Add history() to its convexTable extra config.`
+    );
+  }
+  return getHistoryTableName(tableConfig.name);
+};
+
+const toHistoryEntry = (
+  table: ConvexTable<any>,
+  row: AnyRecord
+): OrmHistoryEntry =>
+  ({
+    id: row._id as string,
+    recordId: row.recordId as string,
+    operation: row.operation,
+    oldDoc: fromHistoryDoc(table, row.oldDoc),
+    newDoc: fromHistoryDoc(table, row.newDoc),
+    changedAt: row.changedAt as number,
+    actor: (row.actor as string | undefined) ?? null,
+  }) as OrmHistoryEntry;
+
+export async function queryRecordHistory(
+  db: GenericDatabaseReader<any>,
+  tableConfig: TableRelationalConfig,
+  id: string,
+  options?: { limit?: number }
+): Promise<OrmHistoryEntry[]> {
+  const historyTableName = requireHistoryTableName(tableConfig);
+  const limit = options?.limit;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    throw new Error('history() limit must be a positive integer.');
+  }
+
+  const query = db
+    .query(historyTableName as any)
+    .withIndex('by_record', (q: any) => q.eq('recordId', id))
+    .order('asc');
+  const rows =
+    limit === undefined ? await query.collect() : await query.take(limit);
+  return rows.map((row) =>
+    toHistoryEntry(tableConfig.table as ConvexTable<any>, row as AnyRecord)
+  );
+}
+
+export async function queryRecordAsOf(
+  db: GenericDatabaseReader<any>,
+  tableConfig: TableRelationalConfig,
+  id: string,
+  timestamp: number | Date
+): Promise<AnyRecord | null> {
+  const historyTableName = requireHistoryTableName(tableConfig);
+  const at = timestamp instanceof Date ? timestamp.getTime() : timestamp;
+  if (!Number.isFinite(at)) {
+    throw new Error('asOf() timestamp must be a finite number or Date.');
+  }
+
+  const row = await db
+    .query(historyTableName as any)
+    .withIndex('by_record', (q: any) =>
+      q.eq('recordId', id).lte('changedAt', at)
+    )
+    .order('desc')
+    .first();
+  if (!row) {
+    return null;
+  }
+  return fromHistoryDoc(
+    tableConfig.table as ConvexTable<any>,
+    (row as AnyRecord).newDoc
+  );
+}
+
+export function historyPruneFactory<TSchema extends TablesRelationalConfig>(
+  schema: TSchema,
+  historyPrune?: SchedulableFunctionReference
+) {
+  const targets: { historyTableName: string; retainMs: number }[] = [];
+  for (const tableConfig of Object.values(schema)) {
+    if (!tableConfig?.name || !tableConfig.table) {
+      continue;
+    }
+    const config = getTableHistoryConfig(tableConfig.table as ConvexTable<any>);
+    if (config?.retainMs === undefined) {
+      continue;
+    }
+    targets.push({
+      historyTableName: getHistoryTableName(tableConfig.name),
+      retainMs: config.retainMs,
+    });
+  }
+
+  return async function historyPruneWorker(
+    ctx: { db: GenericDatabaseWriter<any>; scheduler?: Scheduler },
+    args: HistoryPruneArgs = {}
+  ): Promise<{ deleted: number; hasMore: boolean }> {
+    const batchSize = args.batchSize ?? DEFAULT_HISTORY_PRUNE_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error('historyPrune batchSize must be a positive integer.');
+    }
+
+    const now = Date.now();
+    let remaining = batchSize;
+    for (const { historyTableName, retainMs } of targets) {
+      const expired = await ctx.db
+        .query(historyTableName as any)
+        .withIndex('by_changed_at', (q: any) =>
+          q.lt('changedAt', now - retainMs)
+        )
+        .take(remaining);
+      for (const row of expired) {
+        await ctx.db.delete(historyTableName as any, row._id);
+      }
+      remaining -= expired.length;
+      if (remaining === 0) {
+        break;
+      }
+    }
+
+    const hasMore = remaining === 0;
+    if (hasMore && historyPrune && ctx.scheduler) {
+      await ctx.scheduler.runAfter(0, historyPrune, { batchSize });
+    }
+    return { deleted: batchSize - remaining, hasMore };
+  };
+}
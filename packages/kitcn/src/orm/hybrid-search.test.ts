@@ -0,0 +1,58 @@
+import { DEFAULT_RRF_K, fuseHybridRankings } from './hybrid-search';
+
+describe('fuseHybridRankings', () => {
+  test('scores rows by reciprocal rank across sources', () => {
+    const fused = fuseHybridRankings({
+      search: ['a', 'b', 'c'],
+      vector: ['c', 'a', 'd'],
+    });
+
+    expect(fused.map((hit) => hit.id)).toEqual(['a', 'c', 'b', 'd']);
+    expect(fused[0]).toEqual({
+      id: 'a',
+      score: 1 / (DEFAULT_RRF_K + 1) + 1 / (DEFAULT_RRF_K + 2),
+      ranks: { search: 1, vector: 2 },
+    });
+    expect(fused[3]).toEqual({
+      id: 'd',
+      score: 1 / (DEFAULT_RRF_K + 3),
+      ranks: { search: null, vector: 3 },
+    });
+  });
+
+  test('applies per-source weights and k', () => {
+    const fused = fuseHybridRankings(
+      { search: ['a', 'b'], vector: ['b', 'a'] },
+      { weights: { vector: 3 }, k: 0 }
+    );
+
+    expect(fused.map((hit) => [hit.id, hit.score])).toEqual([
+      ['b', 1 / 2 + 3],
+      ['a', 1 + 3 / 2],
+    ]);
+  });
+
+  test('keeps the best rank when a source repeats an id', () => {
+    const [hit] = fuseHybridRankings({ search: ['a', 'a'], vector: [] });
+
+    expect(hit).toEqual({
+      id: 'a',
+      score: 1 / (DEFAULT_RRF_K + 1),
+      ranks: { search: 1, vector: null },
+    });
+  });
+
+  test('rejects invalid fusion options', () => {
+    expect(() =>
+      fuseHybridRankings(
+        { search: [], vector: [] },
+        { weights: { search: -1 } }
+      )
+    ).toThrow(
+      'hybridSearch.fusion.weights.search must be a non-negative number.'
+    );
+    expect(() =>
+      fuseHybridRankings({ search: [], vector: [] }, 'max' as any)
+    ).toThrow("hybridSearch.fusion must be 'rrf' or { weights, k }.");
+  });
+});
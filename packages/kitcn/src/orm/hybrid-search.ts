@@ -0,0 +1,81 @@
+/**
+ * Hybrid search - reciprocal rank fusion for findMany({ hybridSearch })
+ *
+ * Text and vector search rank the same table with incomparable scores, so
+ * fusion only looks at each row's rank per source:
+ * score = Σ weight / (k + rank).
+ */
+
+export const DEFAULT_RRF_K = 60;
+
+export type HybridSearchSource = 'search' | 'vector';
+
+export type HybridSearchFusion =
+  | 'rrf'
+  | {
+      weights?: Partial<Record<HybridSearchSource, number>> | undefined;
+      /** Rank offset. Larger values flatten the gap between top ranks. */
+      k?: number | undefined;
+    };
+
+export type HybridSearchRanks = Record<HybridSearchSource, number | null>;
+
+export type FusedHybridHit = {
+  id: string;
+  score: number;
+  ranks: HybridSearchRanks;
+};
+
+const resolveFusion = (fusion: HybridSearchFusion | undefined) => {
+  if (fusion === undefined || fusion === 'rrf') {
+    return { k: DEFAULT_RRF_K, weights: { search: 1, vector: 1 } };
+  }
+  if (typeof fusion !== 'object' || fusion === null) {
+    throw new Error("hybridSearch.fusion must be 'rrf' or { weights, k }.");
+  }
+
+  const k = fusion.k ?? DEFAULT_RRF_K;
+  if (!Number.isFinite(k) || k < 0) {
+    throw new Error('hybridSearch.fusion.k must be a non-negative number.');
+  }
+  const weights = { search: 1, vector: 1, ...fusion.weights };
+  for (const [source, weight] of Object.entries(weights)) {
+    if (!Number.isFinite(weight) || weight < 0) {
+      throw new Error(
+        `hybridSearch.fusion.weights.${source} must be a non-negative number.`
+      );
+    }
+  }
+  return { k, weights };
+};
+
+/**
+ * Fuse per-source rankings (best first) into one list ordered by descending
+ * score. Ids are deduped; ranks are 1-based and null when a source missed the
+ * row. Ties keep the order rows were first seen, search before vector.
+ */
+export function fuseHybridRankings(
+  rankings: Record<HybridSearchSource, readonly string[]>,
+  fusion?: HybridSearchFusion
+): FusedHybridHit[] {
+  const { k, weights } = resolveFusion(fusion);
+  const hits = new Map<string, FusedHybridHit>();
+
+  for (const source of ['search', 'vector'] as const) {
+    rankings[source].forEach((id, index) => {
+      let hit = hits.get(id);
+      if (!hit) {
+        hit = { id, score: 0, ranks: { search: null, vector: null } };
+        hits.set(id, hit);
+      }
+      if (hit.ranks[source] !== null) {
+        return;
+      }
+      const rank = index + 1;
+      hit.ranks[source] = rank;
+      hit.score += weights[source] / (k + rank);
+    });
+  }
+
+  return Array.from(hits.values()).sort((a, b) => b.score - a.score);
+}
@@ -1,3 +1,4 @@
+import type { AggregateBucketDefinition } from './aggregate-index/time-bucket';
 import type { ConvexTable } from './table';
 
 export type TableIndex = { name: string; fields: string[] };
@@ -9,6 +10,7 @@ export type TableAggregateIndex = {
   avgFields: string[];
   minFields: string[];
   maxFields: string[];
+  bucket?: AggregateBucketDefinition;
 };
 export type TableRankIndex = {
   name: string;
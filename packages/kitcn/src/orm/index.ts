@@ -76,6 +76,7 @@ export type {
   CountBackfillKickoffArgs,
   CountBackfillStatusArgs,
 } from './aggregate-index/backfill';
+export type { AggregateBucketUnit } from './aggregate-index/time-bucket';
 // M6: Column Builders (Drizzle-style)
 export type {
   AnyColumn,
@@ -96,10 +97,15 @@ export type {
   ConvexDateBuilder,
   ConvexDateBuilderInitial,
   ConvexDateMode,
+  ConvexDecimalBuilder,
+  ConvexDecimalBuilderInitial,
+  ConvexDecimalMode,
   ConvexIdBuilder,
   ConvexIdBuilderInitial,
   ConvexNumberBuilder,
   ConvexNumberBuilderInitial,
+  ConvexPointBuilder,
+  ConvexPointBuilderInitial,
   ConvexTextBuilder,
   ConvexTextBuilderInitial,
   ConvexTextEnumBuilder,
@@ -107,12 +113,20 @@ export type {
   ConvexTimestampBuilder,
   ConvexTimestampBuilderInitial,
   ConvexTimestampMode,
+  ConvexUlidBuilder,
+  ConvexUlidBuilderInitial,
+  ConvexUuidBuilder,
+  ConvexUuidBuilderInitial,
   ConvexVectorBuilder,
   ConvexVectorBuilderInitial,
   DrizzleEntity,
+  EncryptionMode,
   HasDefault,
+  IsEncrypted,
+  IsGenerated,
   IsPrimaryKey,
   IsUnique,
+  IsVersion,
   NotNull,
   SystemFields,
 } from './builders';
@@ -123,16 +137,33 @@ export {
   bytes,
   custom,
   date,
+  decimal,
+  generateUlid,
   id,
   integer,
   json,
   objectOf,
+  point,
   text,
   textEnum,
   timestamp,
+  ulid,
   unionOf,
+  uuid,
   vector,
 } from './builders';
+export {
+  CDC_LOG_TABLE,
+  CDC_STATE_TABLE,
+  type CdcFeedArgs,
+  type CdcFeedPage,
+  type CdcOptions,
+  type CdcPruneArgs,
+  cdcExtension,
+  cdcFeedFactory,
+  cdcPruneFactory,
+  type OrmCdcChange,
+} from './cdc';
 export {
   type ConvexCheckBuilder,
   type ConvexCheckConfig,
@@ -154,7 +185,35 @@ export type {
   ResolveOrmSchema,
 } from './create-orm';
 export { createOrm } from './create-orm';
+export {
+  DATA_FORMATS,
+  type DataExportPage,
+  type DataFormat,
+  type DataImportChunkResult,
+  type DataRecord,
+  decodeDataRow,
+  encodeDataRow,
+} from './data-transfer';
 export type { DatabaseWithMutations, DatabaseWithQuery } from './database';
+export {
+  type DeferredTriggerRetryArgs,
+  type DeferredTriggerRunResult,
+  TRIGGER_QUEUE_TABLE,
+} from './deferred-triggers';
+export {
+  createSchemaDiagram,
+  renderSchemaDiagram,
+  SCHEMA_DIAGRAM_FORMATS,
+  type SchemaDiagram,
+  type SchemaDiagramColumn,
+  type SchemaDiagramForeignKey,
+  type SchemaDiagramFormat,
+  type SchemaDiagramIndex,
+  type SchemaDiagramIndexKind,
+  type SchemaDiagramRelation,
+  type SchemaDiagramTable,
+  type SchemaDiagramValue,
+} from './diagram';
 
 type OrmCtxBase = {
   db: GenericDatabaseReader<any> | GenericDatabaseWriter<any>;
@@ -183,7 +242,17 @@ export type OrmClientBase<TSchema extends object> = OrmClientBaseInternal<
 export type OrmClientWithApi<TSchema extends object> = OrmClientWithApiInternal<
   ResolveOrmSchema<TSchema> & TablesRelationalConfig
 >;
-export { OrmNotFoundError } from './errors';
+export type { OrmEncryptionOptions } from './encryption';
+export { OrmConcurrentModificationError, OrmNotFoundError } from './errors';
+export {
+  formatQueryPlan,
+  type OrmQueryExplainOptions,
+  type OrmQueryPlan,
+  type OrmQueryPlanBound,
+  type OrmQueryPlanOrder,
+  type OrmQueryPlanRelation,
+  type OrmQueryPlanStrategy,
+} from './explain';
 export type { SchemaExtension } from './extensions';
 export type { EdgeMetadata } from './extractRelationsConfig';
 // M2: Schema Extraction
@@ -216,17 +285,38 @@ export {
   lt,
   lte,
   ne,
+  near,
   not,
   notBetween,
   notInArray,
   or,
   startsWith,
+  within,
 } from './filter-expression';
+export {
+  distanceMeters,
+  encodeGeohash,
+  type GeoBBox,
+  type GeoNearFilter,
+  type GeoPoint,
+  type GeoWithinFilter,
+} from './geo';
+export {
+  type HistoryPruneArgs,
+  historyPruneFactory,
+  type OrmHistoryEntry,
+} from './history';
+export type {
+  HybridSearchFusion,
+  HybridSearchRanks,
+} from './hybrid-search';
 // M1: Index Builders (Drizzle-style)
 export {
   aggregateIndex,
   type ConvexAggregateIndexBuilder,
   type ConvexAggregateIndexBuilderOn,
+  type ConvexGeoIndexBuilder,
+  type ConvexGeoIndexBuilderOn,
   type ConvexIndexBuilder,
   type ConvexIndexBuilderOn,
   type ConvexRankIndexBuilder,
@@ -237,6 +327,7 @@ export {
   type ConvexVectorIndexBuilder,
   type ConvexVectorIndexBuilderOn,
   type ConvexVectorIndexConfig,
+  geoIndex,
   index,
   rankIndex,
   searchIndex,
@@ -262,7 +353,10 @@ export type {
   MigrationRunArgs,
   MigrationRunChunkArgs,
   MigrationRunStatus,
+  MigrationSchemaChange,
+  MigrationSchemaSnapshot,
   MigrationSet,
+  MigrationSetOptions,
   MigrationStateMap,
   MigrationStatusArgs,
   MigrationStep,
@@ -271,9 +365,12 @@ export type {
 } from './migrations';
 export {
   buildMigrationPlan,
+  computeMigrationSchemaChecksum,
+  createMigrationSchemaSnapshot,
   defineMigration,
   defineMigrationSet,
   detectMigrationDrift,
+  diffMigrationSchemaSnapshots,
 } from './migrations';
 // M5: OrderBy
 export { asc, desc } from './order-by';
@@ -303,10 +400,16 @@ export {
 } from './relations';
 // RLS (Row-Level Security)
 export type {
+  ColumnPolicyConfig,
   RlsPolicyConfig,
   RlsPolicyToOption,
 } from './rls/policies';
-export { RlsPolicy, rlsPolicy } from './rls/policies';
+export {
+  ColumnPolicy,
+  columnPolicy,
+  RlsPolicy,
+  rlsPolicy,
+} from './rls/policies';
 export type { RlsRoleConfig } from './rls/roles';
 export { RlsRole, rlsRole } from './rls/roles';
 export type { RlsContext, RlsMode } from './rls/types';
@@ -325,6 +428,14 @@ export {
   getSchemaTriggers,
   requireSchemaRelations,
 } from './schema';
+export {
+  defineSeed,
+  type SeedDefinition,
+  type SeedFactory,
+  type SeedFieldContext,
+  type SeedOverrides,
+  type SeedStep,
+} from './seed';
 // M1: Schema Foundation
 export {
   Brand,
@@ -333,21 +444,31 @@ export {
   OrmSchemaExtensionTables,
   OrmSchemaRelations,
   OrmSchemaTriggers,
+  type OrmTenancyMode,
   TableName,
 } from './symbols';
 export type { ConvexTable, ConvexTableWithColumns, TableConfig } from './table';
 export {
   type ConvexDeletionBuilder,
   type ConvexDeletionConfig,
+  type ConvexHistoryBuilder,
+  type ConvexHistoryConfig,
+  type ConvexTenancyBuilder,
   convexTable,
   type DiscriminatorBuilderConfig,
   deletion,
   discriminator,
+  history,
   type OrmLifecycleChange,
   type OrmLifecycleOperation,
+  tenancy,
 } from './table';
+export type { OrmTenancyOptions } from './tenancy';
 export type {
   OrmBeforeResult,
+  OrmDeferredTriggerConfig,
+  OrmDeferredTriggerContext,
+  OrmTableTriggerHandler,
   OrmTableTriggers,
   OrmTriggerChange,
   OrmTriggerContext,
@@ -366,6 +487,7 @@ export type {
   DBQueryConfig,
   FilterOperators,
   GetColumnData,
+  HybridSearchQueryConfig,
   InferInsertModel,
   InferModelFromColumns,
   InferSelectModel,
@@ -390,5 +512,22 @@ export type {
   VectorSearchProvider,
 } from './types';
 export { unsetToken } from './unset-token';
+export {
+  type ConvexViewTable,
+  defineView,
+  type ViewConfig,
+  type ViewRebuildArgs,
+  type ViewRelationConfig,
+} from './views';
 // M4: Where Clause Compiler
 export type { WhereClauseResult } from './where-clause-compiler';
+// Zod schemas (drizzle-zod parity)
+export {
+  type CreateSchemaRefine,
+  createInsertSchema,
+  createSelectSchema,
+  createUpdateSchema,
+  type InsertSchema,
+  type SelectSchema,
+  type UpdateSchema,
+} from './zod';
@@ -2,11 +2,13 @@
 import {
   aggregateIndex,
   convexTable,
+  decimal,
   defineSchema,
   index,
   integer,
   searchIndex,
   text,
+  timestamp,
   vector,
   vectorIndex,
 } from './index';
@@ -321,7 +323,9 @@ test('aggregateIndex sum() validates numeric columns', () => {
       { orgId: text().notNull(), status: text() },
       (t) => [aggregateIndex('by_org').on(t.orgId).sum(t.status)]
     )
-  ).toThrow(/sum\(\) supports integer\(\)\/timestamp\(\) columns only/i);
+  ).toThrow(
+    /sum\(\) supports integer\(\)\/timestamp\(\)\/decimal\(\) columns only/i
+  );
 });
 
 test('aggregateIndex avg() validates numeric columns', () => {
@@ -331,5 +335,77 @@ test('aggregateIndex avg() validates numeric columns', () => {
       { orgId: text().notNull(), status: text() },
       (t) => [aggregateIndex('by_org').on(t.orgId).avg(t.status)]
     )
-  ).toThrow(/avg\(\) supports integer\(\)\/timestamp\(\) columns only/i);
+  ).toThrow(
+    /avg\(\) supports integer\(\)\/timestamp\(\)\/decimal\(\) columns only/i
+  );
+});
+
+test('aggregateIndex sum()/avg() accept decimal columns', () => {
+  const invoices = convexTable(
+    'aggregate_index_decimal',
+    { orgId: text().notNull(), total: decimal({ scale: 2 }) },
+    (t) => [aggregateIndex('by_org').on(t.orgId).sum(t.total).avg(t.total)]
+  );
+
+  expect((invoices as any).getAggregateIndexes?.()).toMatchObject([
+    { name: 'by_org', sumFields: ['total'], avgFields: ['total'] },
+  ]);
+});
+
+test('aggregateIndex bucket() stores bucket metadata', () => {
+  const events = convexTable(
+    'aggregate_index_bucketed',
+    { orgId: text().notNull(), amount: integer() },
+    (t) => [
+      aggregateIndex('by_day')
+        .on(t.orgId)
+        .bucket(t.createdAt, 'day', { tz: 'Europe/Berlin' })
+        .sum(t.amount),
+    ]
+  );
+
+  expect((events as any).getAggregateIndexes?.()).toEqual([
+    {
+      name: 'by_day',
+      fields: ['orgId'],
+      countFields: [],
+      sumFields: ['amount'],
+      avgFields: [],
+      minFields: [],
+      maxFields: [],
+      bucket: { field: '_creationTime', unit: 'day', tz: 'Europe/Berlin' },
+    },
+  ]);
+});
+
+test('aggregateIndex bucket() validates column, unit, and time zone', () => {
+  expect(() =>
+    convexTable(
+      'aggregate_index_bucket_text',
+      { orgId: text().notNull(), status: text() },
+      (t) => [aggregateIndex('by_day').on(t.orgId).bucket(t.status, 'day')]
+    )
+  ).toThrow(/bucket\(\) supports timestamp\(\)\/integer\(\)\/createdAt/);
+  expect(() =>
+    convexTable(
+      'aggregate_index_bucket_unit',
+      { orgId: text().notNull(), at: timestamp() },
+      (t) => [
+        aggregateIndex('by_day')
+          .on(t.orgId)
+          .bucket(t.at, 'year' as any),
+      ]
+    )
+  ).toThrow(/unit must be one of hour, day, week, month/);
+  expect(() =>
+    convexTable(
+      'aggregate_index_bucket_tz',
+      { orgId: text().notNull(), at: timestamp() },
+      (t) => [
+        aggregateIndex('by_day')
+          .on(t.orgId)
+          .bucket(t.at, 'day', { tz: 'Mars/Olympus' }),
+      ]
+    )
+  ).toThrow(/Invalid bucket time zone 'Mars\/Olympus'/);
 });
@@ -1,3 +1,4 @@
+import type { AggregateBucketUnit } from './aggregate-index/time-bucket';
 import { type ColumnBuilderBase, entityKind } from './builders/column-builder';
 
 export type ConvexIndexColumn = ColumnBuilderBase;
@@ -36,11 +37,26 @@ export interface ConvexVectorIndexConfig<
   vectorField: TVectorField;
 }
 
+export interface ConvexGeoIndexConfig<
+  TName extends string = string,
+  TPointField extends ConvexIndexColumn = ConvexIndexColumn,
+> {
+  name: TName;
+  pointField: TPointField;
+}
+
+export interface ConvexAggregateIndexBucketConfig {
+  column: ConvexIndexColumn;
+  tz: string;
+  unit: AggregateBucketUnit;
+}
+
 export interface ConvexAggregateIndexConfig<
   TName extends string = string,
   TColumns extends readonly ConvexIndexColumn[] = ConvexIndexColumn[],
 > {
   avgFields: readonly ConvexIndexColumn[];
+  bucket?: ConvexAggregateIndexBucketConfig;
   columns: TColumns;
   countFields: readonly ConvexIndexColumn[];
   maxFields: readonly ConvexIndexColumn[];
@@ -213,6 +229,46 @@ export class ConvexVectorIndexBuilderOn<TName extends string = string> {
   }
 }
 
+export class ConvexGeoIndexBuilderOn<TName extends string = string> {
+  static readonly [entityKind] = 'ConvexGeoIndexBuilderOn';
+  readonly [entityKind] = 'ConvexGeoIndexBuilderOn';
+
+  constructor(private name: TName) {}
+
+  on<TPointField extends ConvexIndexColumn>(
+    pointField: TPointField
+  ): ConvexGeoIndexBuilder<TName, TPointField> {
+    return new ConvexGeoIndexBuilder(this.name, pointField);
+  }
+}
+
+/**
+ * Geohash index over a point() column. Compiles to a regular Convex index on
+ * the stored `<column>.geohash` sub-field; near/within filters probe it.
+ */
+export class ConvexGeoIndexBuilder<
+  TName extends string = string,
+  TPointField extends ConvexIndexColumn = ConvexIndexColumn,
+> {
+  static readonly [entityKind] = 'ConvexGeoIndexBuilder';
+  readonly [entityKind] = 'ConvexGeoIndexBuilder';
+
+  declare _: {
+    brand: 'ConvexGeoIndexBuilder';
+    name: TName;
+    pointField: TPointField;
+  };
+
+  config: ConvexGeoIndexConfig<TName, TPointField>;
+
+  constructor(name: TName, pointField: TPointField) {
+    this.config = {
+      name,
+      pointField,
+    };
+  }
+}
+
 export class ConvexAggregateIndexBuilderOn<TName extends string = string> {
   static readonly [entityKind] = 'ConvexAggregateIndexBuilderOn';
   readonly [entityKind] = 'ConvexAggregateIndexBuilderOn';
@@ -233,6 +289,7 @@ export class ConvexAggregateIndexBuilderOn<TName extends string = string> {
 export class ConvexAggregateIndexBuilder<
   TName extends string = string,
   TColumns extends readonly ConvexIndexColumn[] = ConvexIndexColumn[],
+  TBucketColumn extends ConvexIndexColumn = never,
 > {
   static readonly [entityKind] = 'ConvexAggregateIndexBuilder';
   readonly [entityKind] = 'ConvexAggregateIndexBuilder';
@@ -241,6 +298,7 @@ export class ConvexAggregateIndexBuilder<
     brand: 'ConvexAggregateIndexBuilder';
     name: TName;
     columns: TColumns;
+    bucketColumn: TBucketColumn;
   };
 
   config: ConvexAggregateIndexConfig<TName, TColumns>;
@@ -281,6 +339,28 @@ export class ConvexAggregateIndexBuilder<
     this.config.maxFields = [...this.config.maxFields, ...fields];
     return this;
   }
+
+  /**
+   * Keep one bucket per calendar `unit` of a timestamp column, after the
+   * `on(...)` fields. Query with `groupBy({ by: { <column>: unit } })`.
+   *
+   * @example
+   * aggregateIndex('byDay')
+   *   .on(t.orgId)
+   *   .bucket(t.createdAt, 'day', { tz: 'Europe/Berlin' })
+   */
+  bucket<TColumn extends ConvexIndexColumn>(
+    column: TColumn,
+    unit: AggregateBucketUnit,
+    options?: { tz?: string }
+  ): ConvexAggregateIndexBuilder<TName, TColumns, TColumn> {
+    this.config.bucket = { column, unit, tz: options?.tz ?? 'UTC' };
+    return this as unknown as ConvexAggregateIndexBuilder<
+      TName,
+      TColumns,
+      TColumn
+    >;
+  }
 }
 
 export class ConvexRankIndexBuilderOn<TName extends string = string> {
@@ -462,6 +542,12 @@ export function vectorIndex<TName extends string>(
   return new ConvexVectorIndexBuilderOn(name);
 }
 
+export function geoIndex<TName extends string>(
+  name: TName
+): ConvexGeoIndexBuilderOn<TName> {
+  return new ConvexGeoIndexBuilderOn(name);
+}
+
 export function aggregateIndex<TName extends string>(
   name: TName
 ): ConvexAggregateIndexBuilderOn<TName> {
@@ -1,15 +1,19 @@
 import type { GenericDatabaseWriter } from 'convex/server';
 import type { ColumnBuilder } from './builders/column-builder';
+import { decryptColumnsForRead, encryptColumnsForWrite } from './encryption';
 import type { FilterExpression } from './filter-expression';
 import { findIndexForColumns, getIndexes } from './index-utils';
 import {
   applyDefaults,
+  assertNoGeneratedColumnWrites,
+  computeGeneratedColumns,
   enforceCheckConstraints,
   enforceForeignKeys,
   enforcePolymorphicWrite,
   enforceUniqueIndexes,
   evaluateFilter,
   getColumnName,
+  getEqualityProbes,
   getOrmContext,
   getTableColumns,
   getTableName,
@@ -21,8 +25,18 @@ import {
 } from './mutation-utils';
 import { GelRelationalQuery } from './query';
 import { QueryPromise } from './query-promise';
-import { canInsertRow, evaluateUpdateDecision } from './rls/evaluator';
+import {
+  assertColumnWritesAllowed,
+  canInsertRow,
+  evaluateUpdateDecision,
+  maskSelectColumns,
+} from './rls/evaluator';
 import type { ConvexTable } from './table';
+import {
+  applyTenantToWrite,
+  resolveTenantScope,
+  type TenantScope,
+} from './tenancy';
 import type {
   InsertValue,
   MutationResult,
@@ -192,12 +206,23 @@ export class ConvexInsertBuilder<
             this.returningFields as Record<string, unknown>
           )
         : undefined;
+    const tenantScope = await resolveTenantScope(this.table, ormContext);
     const results: Record<string, unknown>[] = [];
     for (const value of this.valuesList) {
-      const preparedValue = normalizeDateFieldsForWrite(
+      assertNoGeneratedColumnWrites(this.table, value as any);
+      const normalizedValue = normalizeDateFieldsForWrite(
         this.table,
-        applyDefaults(this.table, value as any)
+        applyDefaults(
+          this.table,
+          applyTenantToWrite(this.table, tenantScope, value as any, {
+            stamp: true,
+          })
+        )
       );
+      const preparedValue = {
+        ...normalizedValue,
+        ...computeGeneratedColumns(this.table, normalizedValue),
+      };
       enforcePolymorphicWrite(this.table, preparedValue as any);
       const rls = ormContext?.rls;
       const tableName = getTableName(this.table);
@@ -213,8 +238,25 @@ export class ConvexInsertBuilder<
           `RLS policy violation for insert on table "${tableName}"`
         );
       }
+      await assertColumnWritesAllowed({
+        table: this.table,
+        operation: 'insert',
+        row: preparedValue as any,
+        columns: Object.keys(value as any).filter(
+          (key) => (value as any)[key] !== undefined
+        ),
+        rls,
+      });
 
-      const conflictResult = await this.handleConflict(preparedValue);
+      const storedValue = await encryptColumnsForWrite(
+        this.table,
+        preparedValue,
+        ormContext?.encryption
+      );
+      const conflictResult = await this.handleConflict(
+        storedValue,
+        tenantScope
+      );
 
       if (conflictResult?.status === 'skip') {
         continue;
@@ -234,13 +276,14 @@ export class ConvexInsertBuilder<
       }
 
       enforceCheckConstraints(this.table, preparedValue as any);
-      await enforceForeignKeys(this.db, this.table, preparedValue as any, {
-        changedFields: new Set(Object.keys(preparedValue as any)),
+      await enforceForeignKeys(this.db, this.table, storedValue as any, {
+        changedFields: new Set(Object.keys(storedValue as any)),
       });
-      await enforceUniqueIndexes(this.db, this.table, preparedValue as any, {
-        changedFields: new Set(Object.keys(preparedValue as any)),
+      await enforceUniqueIndexes(this.db, this.table, storedValue as any, {
+        changedFields: new Set(Object.keys(storedValue as any)),
+        encryption: ormContext?.encryption,
       });
-      const id = await this.db.insert(tableName, preparedValue as any);
+      const id = await this.db.insert(tableName, storedValue as any);
 
       if (!this.returningFields) {
         continue;
@@ -266,10 +309,19 @@ export class ConvexInsertBuilder<
   }
 
   private async resolveReturningRow(
-    row: Record<string, unknown>,
+    rawRow: Record<string, unknown>,
     returningSelection: ReturnType<typeof splitReturningSelection> | undefined,
     ormContext: ReturnType<typeof getOrmContext>
   ) {
+    const [row] = await maskSelectColumns({
+      table: this.table,
+      rows: await decryptColumnsForRead(
+        this.table,
+        [rawRow],
+        ormContext?.encryption
+      ),
+      rls: ormContext?.rls,
+    });
     if (this.returningFields === true) {
       return hydrateDateFieldsForRead(this.table, row);
     }
@@ -290,7 +342,10 @@ export class ConvexInsertBuilder<
     return selected;
   }
 
-  private async handleConflict(value: InsertValue<TTable>): Promise<
+  private async handleConflict(
+    value: InsertValue<TTable>,
+    tenantScope: TenantScope | undefined
+  ): Promise<
     | {
         status: 'skip';
       }
@@ -311,15 +366,29 @@ export class ConvexInsertBuilder<
         ? [config.target]
         : [];
 
-    const existing =
+    const storedExisting =
       targetColumns.length > 0
         ? await this.findConflictRow(value, targetColumns)
         : action === 'nothing'
           ? await this.findAnyUniqueConflictRow(value)
           : null;
-    if (!existing) {
+    if (!storedExisting) {
       return;
     }
+    if (
+      tenantScope &&
+      storedExisting[tenantScope.column] !== tenantScope.tenant
+    ) {
+      throw new Error(
+        `Conflicting row in '${getTableName(this.table)}' belongs to another tenant.`
+      );
+    }
+    const ormContext = getOrmContext(this.db);
+    const [existing] = await decryptColumnsForRead(
+      this.table,
+      [storedExisting],
+      ormContext?.encryption
+    );
 
     if (action === 'nothing') {
       if (config.where && !evaluateFilter(existing, config.where)) {
@@ -345,7 +414,6 @@ export class ConvexInsertBuilder<
     }
 
     const tableName = getTableName(this.table);
-    const ormContext = getOrmContext(this.db);
     const rls = ormContext?.rls;
 
     // Normalize set(): ignore `undefined` (noop), translate unsetToken -> `undefined` (unset).
@@ -374,6 +442,10 @@ export class ConvexInsertBuilder<
     if (Object.keys(normalizedSet).length === 0) {
       return { status: 'updated', row: null };
     }
+    assertNoGeneratedColumnWrites(this.table, normalizedSet);
+    applyTenantToWrite(this.table, tenantScope, normalizedSet, {
+      stamp: false,
+    });
 
     const onUpdateSet: Record<string, unknown> = {};
     for (const [columnName, builder] of Object.entries(
@@ -392,7 +464,17 @@ export class ConvexInsertBuilder<
       ...onUpdateSet,
       ...normalizedSet,
     };
-    const writeSet = normalizeDateFieldsForWrite(this.table, effectiveSet);
+    const normalizedWriteSet = normalizeDateFieldsForWrite(
+      this.table,
+      effectiveSet
+    );
+    const writeSet = {
+      ...normalizedWriteSet,
+      ...computeGeneratedColumns(this.table, {
+        ...(existing as any),
+        ...normalizedWriteSet,
+      }),
+    };
 
     const updateDecision = await evaluateUpdateDecision({
       table: this.table,
@@ -409,6 +491,13 @@ export class ConvexInsertBuilder<
       }
       return { status: 'updated', row: null };
     }
+    await assertColumnWritesAllowed({
+      table: this.table,
+      operation: 'update',
+      row: existing as any,
+      columns: Object.keys(normalizedSet),
+      rls,
+    });
 
     await enforceForeignKeys(
       this.db,
@@ -422,16 +511,26 @@ export class ConvexInsertBuilder<
         changedFields: new Set(Object.keys(writeSet as any)),
       }
     );
+    const storedWriteSet = await encryptColumnsForWrite(
+      this.table,
+      writeSet,
+      ormContext?.encryption
+    );
     await enforceUniqueIndexes(
       this.db,
       this.table,
-      { ...(existing as any), ...(writeSet as any) },
+      { ...(storedExisting as any), ...(storedWriteSet as any) },
       {
         currentId: (existing as any)._id,
         changedFields: new Set(Object.keys(writeSet as any)),
+        encryption: ormContext?.encryption,
       }
     );
-    await this.db.patch(tableName, (existing as any)._id, writeSet as any);
+    await this.db.patch(
+      tableName,
+      (existing as any)._id,
+      storedWriteSet as any
+    );
     const updated = this.returningFields
       ? await this.db.get((existing as any)._id)
       : null;
@@ -467,18 +566,7 @@ export class ConvexInsertBuilder<
       filterValuePairs.map(([field]) => field)
     );
 
-    let query: any = this.db.query(tableName);
-
-    if (indexName) {
-      query = query.withIndex(indexName, (q: any) => {
-        let builder = q.eq(filterValuePairs[0][0], filterValuePairs[0][1]);
-        for (let i = 1; i < filterValuePairs.length; i++) {
-          const [field, fieldValue] = filterValuePairs[i];
-          builder = builder.eq(field, fieldValue);
-        }
-        return builder;
-      });
-    } else {
+    if (!indexName) {
       if (!allowFullScan) {
         throw new Error(
           'onConflict requires allowFullScan: true when no index is available.'
@@ -487,21 +575,40 @@ export class ConvexInsertBuilder<
       if (strict) {
         console.warn('onConflict running without index (allowFullScan: true).');
       }
-      query = query.filter((q: any) => {
-        let expr = q.eq(
-          q.field(filterValuePairs[0][0]),
-          filterValuePairs[0][1]
-        );
-        for (let i = 1; i < filterValuePairs.length; i++) {
-          const [field, fieldValue] = filterValuePairs[i];
-          expr = q.and(expr, q.eq(q.field(field), fieldValue));
-        }
-        return expr;
-      });
     }
 
-    const row = await query.first();
-    return row ? (row as any) : null;
+    for (const probe of await getEqualityProbes(
+      this.table,
+      filterValuePairs,
+      ormContext?.encryption
+    )) {
+      let query: any = this.db.query(tableName);
+      if (indexName) {
+        query = query.withIndex(indexName, (q: any) => {
+          let builder = q.eq(probe[0][0], probe[0][1]);
+          for (let i = 1; i < probe.length; i++) {
+            const [field, fieldValue] = probe[i];
+            builder = builder.eq(field, fieldValue);
+          }
+          return builder;
+        });
+      } else {
+        query = query.filter((q: any) => {
+          let expr = q.eq(q.field(probe[0][0]), probe[0][1]);
+          for (let i = 1; i < probe.length; i++) {
+            const [field, fieldValue] = probe[i];
+            expr = q.and(expr, q.eq(q.field(field), fieldValue));
+          }
+          return expr;
+        });
+      }
+
+      const row = await query.first();
+      if (row) {
+        return row as any;
+      }
+    }
+    return null;
   }
 
   private async findAnyUniqueConflictRow(
@@ -513,6 +620,7 @@ export class ConvexInsertBuilder<
     }
 
     const tableName = getTableName(this.table);
+    const keyring = getOrmContext(this.db)?.encryption;
 
     for (const index of uniqueIndexes) {
       const entries = index.fields.map(
@@ -525,19 +633,25 @@ export class ConvexInsertBuilder<
         continue;
       }
 
-      const existing = await this.db
-        .query(tableName)
-        .withIndex(index.name, (q: any) => {
-          let builder = q.eq(entries[0][0], entries[0][1]);
-          for (let i = 1; i < entries.length; i++) {
-            builder = builder.eq(entries[i][0], entries[i][1]);
-          }
-          return builder;
-        })
-        .unique();
-
-      if (existing !== null) {
-        return existing as any;
+      for (const probe of await getEqualityProbes(
+        this.table,
+        entries,
+        keyring
+      )) {
+        const existing = await this.db
+          .query(tableName)
+          .withIndex(index.name, (q: any) => {
+            let builder = q.eq(probe[0][0], probe[0][1]);
+            for (let i = 1; i < probe.length; i++) {
+              builder = builder.eq(probe[i][0], probe[i][1]);
+            }
+            return builder;
+          })
+          .unique();
+
+        if (existing !== null) {
+          return existing as any;
+        }
       }
     }
 
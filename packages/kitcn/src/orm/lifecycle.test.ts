@@ -771,4 +771,81 @@ describe('orm lifecycle hooks', () => {
       'change:update',
     ]);
   });
+
+  test('named handlers run by priority and skip non-matching changes', async () => {
+    const events: string[] = [];
+
+    const { schema } = createUsersSchema(
+      'users_lifecycle_handlers_test',
+      {
+        name: text().notNull(),
+        status: text().notNull(),
+      },
+      {
+        change: async (change: any) => {
+          events.push(`default:${change.operation}`);
+        },
+        handlers: {
+          statusAudit: {
+            columns: ['status'],
+            change: async (change: any) => {
+              events.push(`status:${change.newDoc?.status ?? 'deleted'}`);
+            },
+          },
+          doneNotifier: {
+            priority: 10,
+            when: (change: any) => change.newDoc?.status === 'done',
+            update: {
+              after: async (doc: { name: string }) => {
+                events.push(`done:${doc.name}`);
+              },
+            },
+          },
+        },
+      }
+    );
+
+    const orm = createOrm({ schema });
+    const { writer } = createWriter();
+    const ctx = orm.with({ db: writer } as any);
+    const table = 'users_lifecycle_handlers_test';
+
+    const id = await ctx.db.insert(table, {
+      name: 'Ada',
+      status: 'open',
+    } as any);
+    await ctx.db.patch(table, id as any, { name: 'Ada L.' } as any);
+    await ctx.db.patch(table, id as any, { status: 'done' } as any);
+    await ctx.db.delete(table, id as any);
+
+    expect(events).toEqual([
+      'default:insert',
+      'status:open',
+      'default:update',
+      'done:Ada L.',
+      'default:update',
+      'status:done',
+      'default:delete',
+      'status:deleted',
+    ]);
+  });
+
+  test('rejects filters on before hooks', () => {
+    const { schema } = createUsersSchema(
+      'users_lifecycle_filter_before_test',
+      { name: text().notNull() },
+      {
+        handlers: {
+          trim: {
+            columns: ['name'],
+            update: { before: async () => {} },
+          },
+        },
+      }
+    );
+
+    expect(() => createOrm({ schema })).toThrow(
+      "Invalid triggers entry for 'users.handlers.trim'. 'columns' and 'when' do not apply to before hooks; move them to a handler without filters."
+    );
+  });
 });
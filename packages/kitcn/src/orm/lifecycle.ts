@@ -1,6 +1,7 @@
 import type {
   GenericDatabaseReader,
   GenericDatabaseWriter,
+  SchedulableFunctionReference,
 } from 'convex/server';
 import {
   applyRankIndexesForChange,
@@ -10,6 +11,9 @@ import {
   applyAggregateIndexesForChange,
   getAggregateIndexDefinitions,
 } from './aggregate-index/runtime';
+import { createCdcChangeHooks } from './cdc';
+import { createDeferredEnqueueHook } from './deferred-triggers';
+import { createHistoryChangeHook, getTableHistoryConfig } from './history';
 import type { TablesRelationalConfig } from './relations';
 import {
   type NormalizedOrmTableTriggers,
@@ -19,6 +23,7 @@ import {
   type OrmTriggers,
   TriggerCancelledError,
 } from './triggers';
+import { createViewChangeHooks } from './views';
 
 const ORMLIFECYCLE_WRAPPED_DB = Symbol.for('kitcn:OrmLifecycleWrappedDB');
 const ORMLIFECYCLE_INNER_DB = Symbol.for('kitcn:OrmLifecycleInnerDB');
@@ -302,7 +307,7 @@ function writerWithHooks(
         const queuedHooks: QueuedHook[] = [];
         if (tableHooks.update?.after) {
           queuedHooks.push(async () => {
-            await tableHooks.update?.after?.(newDocWithId, hookCtx);
+            await tableHooks.update?.after?.(newDocWithId, hookCtx, change);
           });
         }
         if (tableHooks.change) {
@@ -383,7 +388,7 @@ function writerWithHooks(
         const queuedHooks: QueuedHook[] = [];
         if (tableHooks.update?.after) {
           queuedHooks.push(async () => {
-            await tableHooks.update?.after?.(newDocWithId, hookCtx);
+            await tableHooks.update?.after?.(newDocWithId, hookCtx, change);
           });
         }
         if (tableHooks.change) {
@@ -451,7 +456,7 @@ function writerWithHooks(
         const queuedHooks: QueuedHook[] = [];
         if (tableHooks.delete?.after) {
           queuedHooks.push(async () => {
-            await tableHooks.delete?.after?.(oldDocWithId, hookCtx);
+            await tableHooks.delete?.after?.(oldDocWithId, hookCtx, change);
           });
         }
         if (tableHooks.change) {
@@ -509,7 +514,7 @@ function writerWithHooks(
           const queuedHooks: QueuedHook[] = [];
           if (tableHooks.create?.after) {
             queuedHooks.push(async () => {
-              await tableHooks.create?.after?.(newDocWithId, hookCtx);
+              await tableHooks.create?.after?.(newDocWithId, hookCtx, change);
             });
           }
           if (tableHooks.change) {
@@ -553,7 +558,10 @@ const createNoopLifecycle = (): OrmDbLifecycle => ({
 
 export function createOrmDbLifecycle<TSchema extends TablesRelationalConfig>(
   schema: TSchema,
-  triggerDefinitions?: OrmTriggers<TSchema, any>
+  triggerDefinitions?: OrmTriggers<TSchema, any>,
+  options?: {
+    getDeferredTriggerRunRef?: () => SchedulableFunctionReference | undefined;
+  }
 ): OrmDbLifecycle {
   const tableNameBySchemaKey = new Map<string, string>();
   const tableNames = new Set<string>();
@@ -587,6 +595,31 @@ export function createOrmDbLifecycle<TSchema extends TablesRelationalConfig>(
     tableHooks.set(tableName, hooks);
   }
 
+  for (const tableConfig of Object.values(schema)) {
+    const existing = tableConfig?.name
+      ? tableHooks.get(tableConfig.name)
+      : undefined;
+    if (!existing?.deferred) {
+      continue;
+    }
+
+    const existingChange = existing.change;
+    const matches = existing.deferred.matches;
+    const enqueue = createDeferredEnqueueHook(tableConfig, () =>
+      options?.getDeferredTriggerRunRef?.()
+    );
+
+    tableHooks.set(tableConfig.name, {
+      ...existing,
+      change: async (change, ctx) => {
+        await existingChange?.(change, ctx);
+        if (!matches || matches(change)) {
+          await enqueue(change, ctx);
+        }
+      },
+    });
+  }
+
   for (const tableConfig of Object.values(schema)) {
     if (!tableConfig?.table || !tableConfig?.name) {
       continue;
@@ -658,6 +691,56 @@ export function createOrmDbLifecycle<TSchema extends TablesRelationalConfig>(
     });
   }
 
+  for (const tableConfig of Object.values(schema)) {
+    if (!tableConfig?.table || !tableConfig?.name) {
+      continue;
+    }
+    const historyConfig = getTableHistoryConfig(tableConfig.table as any);
+    if (!historyConfig) {
+      continue;
+    }
+
+    const existing = tableHooks.get(tableConfig.name) ?? {};
+    const existingChange = existing.change;
+    const recordHistory = createHistoryChangeHook(tableConfig, historyConfig);
+
+    tableHooks.set(tableConfig.name, {
+      ...existing,
+      change: async (change, ctx) => {
+        await recordHistory(change, ctx);
+        await existingChange?.(change, ctx);
+      },
+    });
+  }
+
+  for (const [tableName, viewHooks] of createViewChangeHooks(schema)) {
+    const existing = tableHooks.get(tableName) ?? {};
+    const existingChange = existing.change;
+
+    tableHooks.set(tableName, {
+      ...existing,
+      change: async (change, ctx) => {
+        for (const refreshViews of viewHooks) {
+          await refreshViews(change, ctx);
+        }
+        await existingChange?.(change, ctx);
+      },
+    });
+  }
+
+  for (const [tableName, recordChange] of createCdcChangeHooks(schema)) {
+    const existing = tableHooks.get(tableName) ?? {};
+    const existingChange = existing.change;
+
+    tableHooks.set(tableName, {
+      ...existing,
+      change: async (change, ctx) => {
+        await recordChange(change, ctx);
+        await existingChange?.(change, ctx);
+      },
+    });
+  }
+
   if (tableHooks.size === 0) {
     return createNoopLifecycle();
   }
@@ -176,6 +176,31 @@ describe('orm/migrations definitions', () => {
     );
   });
 
+  test('detectMigrationDrift flags schema changes since the last snapshot', () => {
+    const set = defineMigrationSet([], { schemaChecksum: 'm_snapshot' });
+
+    expect(
+      detectMigrationDrift({
+        migrationSet: set,
+        appliedState: {},
+        schemaChecksum: 'm_snapshot',
+      })
+    ).toEqual([]);
+    expect(
+      detectMigrationDrift({
+        migrationSet: set,
+        appliedState: {},
+        schemaChecksum: 'm_changed',
+      })
+    ).toEqual([
+      expect.objectContaining({
+        kind: 'schema_snapshot_mismatch',
+        expectedChecksum: 'm_snapshot',
+        actualChecksum: 'm_changed',
+      }),
+    ]);
+  });
+
   test('buildMigrationPlan(down --to) rolls back newer applied migrations only', () => {
     const set = defineMigrationSet([
       defineMigration({
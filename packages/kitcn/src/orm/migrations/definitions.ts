@@ -85,6 +85,13 @@ export type MigrationDocContext<
   direction: MigrationDirection;
   dryRun: boolean;
   writeMode: MigrationWriteMode;
+  /** Recomputes the step table's generatedAlwaysAs() columns for a doc. */
+  generated: (doc: Record<string, unknown>) => Record<string, unknown>;
+  /**
+   * Patch that re-seals the step table's encrypted() columns with the active
+   * key. Run after rotating keys or encrypting an existing column.
+   */
+  reencrypt: (doc: Record<string, unknown>) => Promise<Record<string, unknown>>;
 };
 
 export type MigrationMigrateOne<
@@ -137,6 +144,12 @@ export type MigrationSet<
   migrations: readonly MigrationManifestEntry<TSchema>[];
   ids: readonly string[];
   byId: Readonly<Record<string, MigrationManifestEntry<TSchema>>>;
+  schemaChecksum?: string;
+};
+
+export type MigrationSetOptions = {
+  /** Checksum of the schema snapshot written by `kitcn migrate generate`. */
+  schemaChecksum?: string;
 };
 
 export type MigrationAppliedState = {
@@ -160,6 +173,12 @@ export type MigrationDriftIssue =
       message: string;
       expectedChecksum: string;
       actualChecksum: string;
+    }
+  | {
+      kind: 'schema_snapshot_mismatch';
+      message: string;
+      expectedChecksum: string;
+      actualChecksum: string;
     };
 
 export type MigrationPlan<
@@ -182,7 +201,10 @@ export function defineMigration<
 
 export function defineMigrationSet<
   TSchema extends MigrationSchemaInput = TablesRelationalConfig,
->(migrations: readonly MigrationDefinition<TSchema>[]): MigrationSet<TSchema> {
+>(
+  migrations: readonly MigrationDefinition<TSchema>[],
+  options: MigrationSetOptions = {}
+): MigrationSet<TSchema> {
   const normalized = [...migrations].map((migration) => {
     const defined = defineMigration(migration);
     return {
@@ -207,6 +229,9 @@ export function defineMigrationSet<
     migrations: normalized,
     ids: normalized.map((migration) => migration.id),
     byId,
+    ...(options.schemaChecksum
+      ? { schemaChecksum: options.schemaChecksum }
+      : {}),
   };
 }
 
@@ -215,10 +240,25 @@ export function detectMigrationDrift<
 >(params: {
   migrationSet: MigrationSet<TSchema>;
   appliedState: MigrationStateMap;
+  schemaChecksum?: string;
 }): MigrationDriftIssue[] {
-  const { migrationSet, appliedState } = params;
+  const { migrationSet, appliedState, schemaChecksum } = params;
   const issues: MigrationDriftIssue[] = [];
 
+  if (
+    migrationSet.schemaChecksum &&
+    schemaChecksum &&
+    schemaChecksum !== migrationSet.schemaChecksum
+  ) {
+    issues.push({
+      kind: 'schema_snapshot_mismatch',
+      expectedChecksum: migrationSet.schemaChecksum,
+      actualChecksum: schemaChecksum,
+      message:
+        'Schema changed since the last `kitcn migrate generate`. Run it to scaffold pending data migrations.',
+    });
+  }
+
   for (const [migrationId, state] of Object.entries(appliedState)) {
     if (!state.applied) {
       continue;
@@ -381,7 +421,7 @@ function serializeStep<TSchema extends MigrationSchemaInput>(
   };
 }
 
-function normalizeFunctionSource(fn: Function): string {
+export function normalizeFunctionSource(fn: Function): string {
   return fn
     .toString()
     .replace(FUNCTION_SOURCE_WHITESPACE_RE, ' ')
@@ -389,7 +429,7 @@ function normalizeFunctionSource(fn: Function): string {
     .trim();
 }
 
-function simpleStableHash(value: string): string {
+export function simpleStableHash(value: string): string {
   let hashA = 0x81_1c_9d_c5;
   let hashB = 0x01_00_01_93;
   for (let i = 0; i < value.length; i += 1) {
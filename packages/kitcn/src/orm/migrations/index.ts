@@ -10,6 +10,7 @@ export type {
   MigrationPlan,
   MigrationRunStatus,
   MigrationSet,
+  MigrationSetOptions,
   MigrationStateMap,
   MigrationStep,
   MigrationTableName,
@@ -36,3 +37,27 @@ export {
   MIGRATION_STORAGE_TABLE_NAMES,
   migrationStorageTables,
 } from './schema';
+export type {
+  MigrationColumnSnapshot,
+  MigrationIndexSnapshot,
+  MigrationRelationSnapshot,
+  MigrationSchemaChange,
+  MigrationSchemaSnapshot,
+  MigrationTableSnapshot,
+} from './snapshot';
+export {
+  computeMigrationSchemaChecksum,
+  createMigrationSchemaSnapshot,
+  diffMigrationSchemaSnapshots,
+} from './snapshot';
+export type {
+  MigrationVerifyChunkArgs,
+  MigrationVerifyChunkResult,
+  MigrationVerifyRule,
+  MigrationVerifyViolation,
+} from './verify';
+export {
+  createMigrationVerifyHandler,
+  mergeMigrationVerifyViolations,
+  verifyMigrationDocs,
+} from './verify';
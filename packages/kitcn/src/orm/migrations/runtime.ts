@@ -4,6 +4,8 @@ import type {
   Scheduler,
 } from 'convex/server';
 import type { OrmWriter } from '../database';
+import { reencryptColumns } from '../encryption';
+import { computeGeneratedColumns, getOrmContext } from '../mutation-utils';
 import type { TablesRelationalConfig } from '../relations';
 import {
   buildMigrationPlan,
@@ -18,7 +20,17 @@ import {
   type MigrationStateMap,
   type MigrationWriteMode,
 } from './definitions';
+import type { ConvexTable } from '../table';
 import { MIGRATION_RUN_TABLE, MIGRATION_STATE_TABLE } from './schema';
+import {
+  computeMigrationSchemaChecksum,
+  createMigrationSchemaSnapshot,
+} from './snapshot';
+import {
+  createMigrationVerifyHandler,
+  type MigrationVerifyChunkArgs,
+  type MigrationVerifyChunkResult,
+} from './verify';
 
 const DEFAULT_BATCH_SIZE = 128;
 
@@ -110,11 +122,31 @@ export function createMigrationHandlers<TSchema extends TablesRelationalConfig>(
     ctx: RuntimeCtx,
     args?: MigrationCancelArgs
   ) => Promise<Record<string, unknown>>;
+  verify: (
+    ctx: RuntimeCtx,
+    args?: MigrationVerifyChunkArgs
+  ) => Promise<MigrationVerifyChunkResult>;
 } {
   const { schema, migrations, getOrm, getChunkRef } = params;
   const knownTables = new Set(
     Object.values(schema).map((tableConfig) => tableConfig.name)
   );
+  const tablesByName = new Map(
+    Object.values(schema).map((tableConfig) => [
+      tableConfig.name,
+      tableConfig.table as ConvexTable<any>,
+    ])
+  );
+  let schemaChecksum: string | undefined;
+  const getSchemaChecksum = () => {
+    if (!migrations?.schemaChecksum) {
+      return;
+    }
+    schemaChecksum ??= computeMigrationSchemaChecksum(
+      createMigrationSchemaSnapshot(schema)
+    );
+    return schemaChecksum;
+  };
 
   const run = async (ctx: RuntimeCtx, args: MigrationRunArgs = {}) => {
     if (!migrations || migrations.migrations.length === 0) {
@@ -137,6 +169,7 @@ export function createMigrationHandlers<TSchema extends TablesRelationalConfig>(
     const drift = detectMigrationDrift({
       migrationSet: migrations,
       appliedState,
+      schemaChecksum: getSchemaChecksum(),
     });
     if (drift.length > 0 && !allowDrift) {
       return {
@@ -354,6 +387,14 @@ export function createMigrationHandlers<TSchema extends TablesRelationalConfig>(
           direction,
           dryRun: false,
           writeMode,
+          generated: (target) =>
+            computeGeneratedColumns(tablesByName.get(step.table)!, target),
+          reencrypt: (target) =>
+            reencryptColumns(
+              tablesByName.get(step.table)!,
+              target,
+              getOrmContext(orm as any)?.encryption
+            ),
         };
         const result = await runWithWriteMode(orm, writeMode, (resolvedOrm) =>
           step.migrateOne(
@@ -512,6 +553,7 @@ export function createMigrationHandlers<TSchema extends TablesRelationalConfig>(
     const drift = detectMigrationDrift({
       migrationSet: migrations,
       appliedState,
+      schemaChecksum: getSchemaChecksum(),
     });
     const pendingUp = buildMigrationPlan({
       direction: 'up',
@@ -599,6 +641,7 @@ export function createMigrationHandlers<TSchema extends TablesRelationalConfig>(
     chunk,
     status,
     cancel,
+    verify: createMigrationVerifyHandler(schema),
   };
 }
 
@@ -0,0 +1,210 @@
+import { describe, expect, test } from 'vitest';
+import { integer, text, textEnum } from '../builders';
+import { index, uniqueIndex } from '../indexes';
+import { defineRelations } from '../relations';
+import { defineSchema } from '../schema';
+import { convexTable } from '../table';
+import {
+  computeMigrationSchemaChecksum,
+  createMigrationSchemaSnapshot,
+  diffMigrationSchemaSnapshots,
+} from './snapshot';
+
+const createPostsSchema = (
+  posts: ReturnType<typeof convexTable<'posts', any>>
+) => {
+  const users = convexTable('users', {
+    name: text().notNull(),
+  });
+  return defineSchema({ posts, users });
+};
+
+describe('orm/migrations snapshot', () => {
+  test('captures columns, indexes and relations without extension tables', () => {
+    const users = convexTable('users', {
+      email: text().notNull(),
+      role: textEnum(['admin', 'member']).notNull().default('member'),
+    }, (t) => [uniqueIndex('by_email').on(t.email)]);
+    const posts = convexTable('posts', {
+      authorId: text().notNull(),
+      views: integer(),
+    }, (t) => [index('by_author').on(t.authorId)]);
+    const relations = defineRelations({ users, posts }, (r) => ({
+      users: {
+        posts: r.many.posts({ from: r.users.email, to: r.posts.authorId }),
+      },
+    }));
+
+    const snapshot = createMigrationSchemaSnapshot(relations);
+
+    expect(Object.keys(snapshot.tables)).toEqual(['posts', 'users']);
+    expect(snapshot.tables.users).toEqual({
+      columns: {
+        email: { type: 'ConvexText', notNull: true, hasDefault: false },
+        role: {
+          type: 'ConvexText',
+          notNull: true,
+          hasDefault: true,
+          default: 'member',
+          values: ['admin', 'member'],
+        },
+      },
+      indexes: [{ name: 'by_email', fields: ['email'], unique: true }],
+      relations: [{ name: 'posts', type: 'many', table: 'posts' }],
+    });
+    expect(
+      computeMigrationSchemaChecksum(createMigrationSchemaSnapshot(relations))
+    ).toBe(computeMigrationSchemaChecksum(snapshot));
+  });
+
+  test('skips schema extension tables', () => {
+    const schema = createPostsSchema(
+      convexTable('posts', { title: text().notNull() })
+    );
+
+    expect(Object.keys(createMigrationSchemaSnapshot(schema).tables)).toEqual(
+      ['posts', 'users']
+    );
+  });
+
+  test('diff reports required columns, renames, enum narrowing and index swaps', () => {
+    const previous = createMigrationSchemaSnapshot(
+      createPostsSchema(
+        convexTable(
+          'posts',
+          {
+            title: text().notNull(),
+            status: textEnum(['draft', 'published', 'archived']),
+            priority: text(),
+            authorId: text().notNull(),
+          },
+          (t) => [index('by_author').on(t.authorId)]
+        )
+      )
+    );
+    const next = createMigrationSchemaSnapshot(
+      createPostsSchema(
+        convexTable(
+          'posts',
+          {
+            headline: text().notNull(),
+            status: textEnum(['draft', 'published']).notNull().default('draft'),
+            priority: text().notNull(),
+            authorId: text().notNull(),
+          },
+          (t) => [index('by_author_status').on(t.authorId, t.status)]
+        )
+      )
+    );
+
+    expect(diffMigrationSchemaSnapshots(previous, next)).toEqual([
+      { kind: 'column_renamed', table: 'posts', from: 'title', to: 'headline' },
+      { kind: 'column_required', table: 'posts', column: 'priority' },
+      {
+        kind: 'column_required',
+        table: 'posts',
+        column: 'status',
+        default: 'draft',
+      },
+      {
+        kind: 'enum_narrowed',
+        table: 'posts',
+        column: 'status',
+        removed: ['archived'],
+        values: ['draft', 'published'],
+        default: 'draft',
+      },
+      {
+        kind: 'index_swapped',
+        table: 'posts',
+        from: { name: 'by_author', fields: ['authorId'], unique: false },
+        to: {
+          name: 'by_author_status',
+          fields: ['authorId', 'status'],
+          unique: false,
+        },
+      },
+    ]);
+  });
+
+  test('diff ignores backward-compatible changes', () => {
+    const previous = createMigrationSchemaSnapshot(
+      createPostsSchema(convexTable('posts', { title: text().notNull() }))
+    );
+    const next = createMigrationSchemaSnapshot(
+      createPostsSchema(
+        convexTable(
+          'posts',
+          { title: text().notNull(), subtitle: text() },
+          (t) => [index('by_title').on(t.title)]
+        )
+      )
+    );
+
+    expect(diffMigrationSchemaSnapshots(previous, next)).toEqual([]);
+  });
+
+  test('diff reports new and changed generated expressions', () => {
+    const createSchema = (
+      fullName: (row: Record<string, any>) => string,
+      slug?: (row: Record<string, any>) => string
+    ) =>
+      createMigrationSchemaSnapshot(
+        createPostsSchema(
+          convexTable('posts', {
+            first: text().notNull(),
+            last: text().notNull(),
+            fullName: text().notNull().generatedAlwaysAs(fullName),
+            ...(slug ? { slug: text().generatedAlwaysAs(slug) } : {}),
+          })
+        )
+      );
+
+    const previous = createSchema((row) => `${row.first} ${row.last}`);
+
+    expect(previous.tables.posts.columns.fullName.generated).toEqual(
+      expect.any(String)
+    );
+    expect(
+      diffMigrationSchemaSnapshots(
+        previous,
+        createSchema((row) => `${row.first} ${row.last}`)
+      )
+    ).toEqual([]);
+    expect(
+      diffMigrationSchemaSnapshots(
+        previous,
+        createSchema(
+          (row) => `${row.last}, ${row.first}`,
+          (row) => row.first.toLowerCase()
+        )
+      )
+    ).toEqual([
+      { kind: 'generated_changed', table: 'posts', column: 'fullName' },
+      { kind: 'generated_changed', table: 'posts', column: 'slug' },
+    ]);
+  });
+
+  test('diff reports columns that become encrypted or switch mode', () => {
+    const createSchema = (
+      token: ReturnType<typeof text>,
+      secret: ReturnType<typeof text>
+    ) =>
+      createMigrationSchemaSnapshot(
+        createPostsSchema(convexTable('posts', { token, secret }))
+      );
+
+    const previous = createSchema(text(), text().encrypted());
+    const next = createSchema(
+      text().encrypted(),
+      text().encrypted({ mode: 'deterministic' })
+    );
+
+    expect(next.tables.posts.columns.secret.encrypted).toBe('deterministic');
+    expect(diffMigrationSchemaSnapshots(previous, next)).toEqual([
+      { kind: 'encryption_changed', table: 'posts', column: 'secret' },
+      { kind: 'encryption_changed', table: 'posts', column: 'token' },
+    ]);
+    expect(diffMigrationSchemaSnapshots(next, next)).toEqual([]);
+  });
+});
@@ -0,0 +1,438 @@
+import type {
+  ColumnBuilder,
+  EncryptionMode,
+} from '../builders/column-builder';
+import { getIndexes } from '../index-utils';
+import { getTableName, getUniqueIndexes } from '../mutation-utils';
+import type { TableRelationalConfig } from '../relations';
+import { Columns, OrmSchemaExtensionTables, OrmSchemaRelations } from '../symbols';
+import type { ConvexTable } from '../table';
+import { normalizeFunctionSource, simpleStableHash } from './definitions';
+
+export const MIGRATION_SCHEMA_SNAPSHOT_VERSION = 1;
+
+export type MigrationSchemaSnapshotValue = string | number | boolean | null;
+
+export type MigrationColumnSnapshot = {
+  type: string;
+  notNull: boolean;
+  hasDefault: boolean;
+  default?: MigrationSchemaSnapshotValue;
+  values?: string[];
+  references?: string;
+  generated?: string;
+  encrypted?: EncryptionMode;
+};
+
+export type MigrationIndexSnapshot = {
+  name: string;
+  fields: string[];
+  unique: boolean;
+};
+
+export type MigrationRelationSnapshot = {
+  name: string;
+  type: 'one' | 'many';
+  table: string;
+  through?: string;
+};
+
+export type MigrationTableSnapshot = {
+  columns: Record<string, MigrationColumnSnapshot>;
+  indexes: MigrationIndexSnapshot[];
+  relations: MigrationRelationSnapshot[];
+};
+
+export type MigrationSchemaSnapshot = {
+  version: typeof MIGRATION_SCHEMA_SNAPSHOT_VERSION;
+  tables: Record<string, MigrationTableSnapshot>;
+};
+
+export type MigrationSchemaChange =
+  | {
+      kind: 'column_required';
+      table: string;
+      column: string;
+      default?: MigrationSchemaSnapshotValue;
+    }
+  | {
+      kind: 'column_renamed';
+      table: string;
+      from: string;
+      to: string;
+    }
+  | {
+      kind: 'enum_narrowed';
+      table: string;
+      column: string;
+      removed: string[];
+      values: string[];
+      default?: MigrationSchemaSnapshotValue;
+    }
+  | {
+      kind: 'index_swapped';
+      table: string;
+      from: MigrationIndexSnapshot;
+      to: MigrationIndexSnapshot;
+    }
+  | {
+      kind: 'generated_changed';
+      table: string;
+      column: string;
+    }
+  | {
+      kind: 'encryption_changed';
+      table: string;
+      column: string;
+    };
+
+type AnyColumns = Record<string, ColumnBuilder<any, any, any>>;
+
+/**
+ * Capture the migration-relevant shape of a schema as plain JSON.
+ *
+ * Accepts the `defineSchema` result or its relations config. Tables owned by
+ * schema extensions are skipped because kitcn manages their data itself.
+ */
+export function createMigrationSchemaSnapshot(
+  schema: object
+): MigrationSchemaSnapshot {
+  const relations = resolveRelationsConfig(schema);
+  const extensionTables = new Set<string>(
+    (schema as { [OrmSchemaExtensionTables]?: readonly string[] })[
+      OrmSchemaExtensionTables
+    ] ?? []
+  );
+
+  const entries = new Map<string, MigrationTableSnapshot>();
+  for (const table of collectTables(schema, relations)) {
+    const tableName = getTableName(table);
+    if (extensionTables.has(tableName) || entries.has(tableName)) {
+      continue;
+    }
+    const relationConfig = relations
+      ? Object.values(relations).find((config) => config.name === tableName)
+      : undefined;
+    entries.set(tableName, snapshotTable(table, relationConfig));
+  }
+
+  const tables: Record<string, MigrationTableSnapshot> = {};
+  for (const tableName of [...entries.keys()].sort()) {
+    tables[tableName] = entries.get(tableName)!;
+  }
+
+  return {
+    version: MIGRATION_SCHEMA_SNAPSHOT_VERSION,
+    tables,
+  };
+}
+
+export function computeMigrationSchemaChecksum(
+  snapshot: MigrationSchemaSnapshot
+): string {
+  return simpleStableHash(JSON.stringify(snapshot));
+}
+
+/**
+ * Diff two snapshots into the changes that need a data migration.
+ *
+ * Backward-compatible changes (new optional columns, new tables, new indexes)
+ * are not reported. New or changed generatedAlwaysAs() expressions are, since
+ * existing rows hold values computed by the old expression, and so are newly
+ * encrypted() columns or encryption mode switches, since existing rows hold
+ * plaintext or ciphertext sealed the old way. A column removed
+ * and another added with the same type in the same table is treated as a
+ * rename.
+ */
+export function diffMigrationSchemaSnapshots(
+  previous: MigrationSchemaSnapshot,
+  next: MigrationSchemaSnapshot
+): MigrationSchemaChange[] {
+  const changes: MigrationSchemaChange[] = [];
+
+  for (const [tableName, nextTable] of Object.entries(next.tables)) {
+    const previousTable = previous.tables[tableName];
+    if (!previousTable) {
+      continue;
+    }
+
+    const removedColumns = Object.keys(previousTable.columns).filter(
+      (column) => !nextTable.columns[column]
+    );
+    const addedColumns = Object.keys(nextTable.columns).filter(
+      (column) => !previousTable.columns[column]
+    );
+    const renamedTo = new Set<string>();
+    for (const from of removedColumns) {
+      const candidates = addedColumns.filter(
+        (column) =>
+          !renamedTo.has(column) &&
+          nextTable.columns[column].type === previousTable.columns[from].type
+      );
+      if (candidates.length !== 1) {
+        continue;
+      }
+      renamedTo.add(candidates[0]);
+      changes.push({
+        kind: 'column_renamed',
+        table: tableName,
+        from,
+        to: candidates[0],
+      });
+    }
+
+    for (const [columnName, column] of Object.entries(nextTable.columns)) {
+      const previousColumn =
+        previousTable.columns[columnName] ??
+        findRenamedColumn(changes, tableName, columnName, previousTable);
+
+      if (column.notNull && !column.generated && !previousColumn?.notNull) {
+        changes.push({
+          kind: 'column_required',
+          table: tableName,
+          column: columnName,
+          ...('default' in column ? { default: column.default } : {}),
+        });
+      }
+
+      if (column.generated && column.generated !== previousColumn?.generated) {
+        changes.push({
+          kind: 'generated_changed',
+          table: tableName,
+          column: columnName,
+        });
+      }
+
+      if (
+        column.encrypted &&
+        previousColumn &&
+        column.encrypted !== previousColumn.encrypted
+      ) {
+        changes.push({
+          kind: 'encryption_changed',
+          table: tableName,
+          column: columnName,
+        });
+      }
+
+      if (previousColumn?.values && column.values) {
+        const removed = previousColumn.values.filter(
+          (value) => !column.values!.includes(value)
+        );
+        if (removed.length > 0) {
+          changes.push({
+            kind: 'enum_narrowed',
+            table: tableName,
+            column: columnName,
+            removed,
+            values: column.values,
+            ...('default' in column ? { default: column.default } : {}),
+          });
+        }
+      }
+    }
+
+    const nextIndexes = new Map(
+      nextTable.indexes.map((index) => [index.name, index])
+    );
+    const previousIndexes = new Map(
+      previousTable.indexes.map((index) => [index.name, index])
+    );
+    const droppedIndexes: MigrationIndexSnapshot[] = [];
+    for (const index of previousTable.indexes) {
+      const nextIndex = nextIndexes.get(index.name);
+      if (!nextIndex) {
+        droppedIndexes.push(index);
+        continue;
+      }
+      if (!sameIndex(index, nextIndex)) {
+        changes.push({
+          kind: 'index_swapped',
+          table: tableName,
+          from: index,
+          to: nextIndex,
+        });
+      }
+    }
+    const createdIndexes = nextTable.indexes.filter(
+      (index) => !previousIndexes.has(index.name)
+    );
+    for (const [position, from] of droppedIndexes.entries()) {
+      const to = createdIndexes[position];
+      if (!to) {
+        break;
+      }
+      changes.push({
+        kind: 'index_swapped',
+        table: tableName,
+        from,
+        to,
+      });
+    }
+  }
+
+  return changes;
+}
+
+function findRenamedColumn(
+  changes: MigrationSchemaChange[],
+  tableName: string,
+  columnName: string,
+  previousTable: MigrationTableSnapshot
+): MigrationColumnSnapshot | undefined {
+  const rename = changes.find(
+    (change) =>
+      change.kind === 'column_renamed' &&
+      change.table === tableName &&
+      change.to === columnName
+  );
+  return rename?.kind === 'column_renamed'
+    ? previousTable.columns[rename.from]
+    : undefined;
+}
+
+function sameIndex(a: MigrationIndexSnapshot, b: MigrationIndexSnapshot) {
+  return (
+    a.unique === b.unique &&
+    a.fields.length === b.fields.length &&
+    a.fields.every((field, index) => b.fields[index] === field)
+  );
+}
+
+function resolveRelationsConfig(
+  schema: object
+): Record<string, TableRelationalConfig> | undefined {
+  const attached = (schema as { [OrmSchemaRelations]?: unknown })[
+    OrmSchemaRelations
+  ];
+  if (attached && typeof attached === 'object') {
+    return attached as Record<string, TableRelationalConfig>;
+  }
+  const values = Object.values(schema);
+  if (
+    values.length > 0 &&
+    values.every(
+      (value) =>
+        value &&
+        typeof value === 'object' &&
+        'table' in value &&
+        'relations' in value
+    )
+  ) {
+    return schema as Record<string, TableRelationalConfig>;
+  }
+  return;
+}
+
+function collectTables(
+  schema: object,
+  relations: Record<string, TableRelationalConfig> | undefined
+): ConvexTable<any>[] {
+  const tables: ConvexTable<any>[] = [];
+  const candidates = [
+    ...(relations
+      ? Object.values(relations).map((config) => config.table)
+      : []),
+    ...Object.values(
+      ((schema as { tables?: unknown }).tables ?? {}) as Record<
+        string,
+        unknown
+      >
+    ),
+  ];
+  for (const candidate of candidates) {
+    if (
+      candidate &&
+      typeof candidate === 'object' &&
+      (candidate as any)[Columns]
+    ) {
+      tables.push(candidate as ConvexTable<any>);
+    }
+  }
+  return tables;
+}
+
+function snapshotTable(
+  table: ConvexTable<any>,
+  relationConfig: TableRelationalConfig | undefined
+): MigrationTableSnapshot {
+  const columns = ((table as any)[Columns] ?? {}) as AnyColumns;
+  const columnSnapshots: Record<string, MigrationColumnSnapshot> = {};
+  for (const columnName of Object.keys(columns).sort()) {
+    columnSnapshots[columnName] = snapshotColumn(columns[columnName]);
+  }
+
+  const uniqueNames = new Set(
+    getUniqueIndexes(table).map((index) => index.name)
+  );
+  const indexes = getIndexes(table)
+    .map((index) => ({
+      name: index.name,
+      fields: [...index.fields],
+      unique: uniqueNames.has(index.name),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const relations = Object.entries(relationConfig?.relations ?? {})
+    .map(([name, relation]) => {
+      const throughTable = relation.throughTable
+        ? getTableName(relation.throughTable as ConvexTable<any>)
+        : undefined;
+      return {
+        name,
+        type: relation.relationType,
+        table: relation.targetTableName,
+        ...(throughTable ? { through: throughTable } : {}),
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    columns: columnSnapshots,
+    indexes,
+    relations,
+  };
+}
+
+function snapshotColumn(
+  builder: ColumnBuilder<any, any, any>
+): MigrationColumnSnapshot {
+  const config = (builder as any).config as Record<string, unknown>;
+  const snapshot: MigrationColumnSnapshot = {
+    type: String(config.columnType),
+    notNull: config.notNull === true,
+    hasDefault:
+      config.hasDefault === true ||
+      config.defaultFn !== undefined ||
+      config.onUpdateFn !== undefined,
+  };
+  if (isSnapshotValue(config.default)) {
+    snapshot.default = config.default;
+  }
+  if (Array.isArray(config.values)) {
+    snapshot.values = config.values.map(String);
+  }
+  if (typeof config.referenceTable === 'string') {
+    snapshot.references = config.referenceTable;
+  }
+  if (typeof config.generated === 'function') {
+    snapshot.generated = simpleStableHash(
+      normalizeFunctionSource(config.generated)
+    );
+  }
+  if (config.encrypted) {
+    snapshot.encrypted = config.encrypted as EncryptionMode;
+  }
+  return snapshot;
+}
+
+function isSnapshotValue(
+  value: unknown
+): value is MigrationSchemaSnapshotValue {
+  return (
+    value === null ||
+    typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    (typeof value === 'number' && Number.isFinite(value))
+  );
+}
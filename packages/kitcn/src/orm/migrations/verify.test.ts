@@ -0,0 +1,131 @@
+import { describe, expect, test } from 'vitest';
+import { id, integer, text, textEnum } from '../builders';
+import { check } from '../constraints';
+import { gt } from '../filter-expression';
+import { convexTable } from '../table';
+import { mergeMigrationVerifyViolations, verifyMigrationDocs } from './verify';
+
+const posts = convexTable(
+  'posts',
+  {
+    title: text().notNull(),
+    status: textEnum(['draft', 'published']),
+    likes: integer(),
+    authorId: id('users'),
+  },
+  (t) => [check('likes_positive', gt(t.likes, 0))]
+);
+
+const createDb = (users: Record<string, Record<string, unknown>>) =>
+  ({
+    normalizeId: (_table: string, value: string) =>
+      value.startsWith('u') ? value : null,
+    get: async (value: string) => users[value] ?? null,
+  }) as any;
+
+describe('orm/migrations verify', () => {
+  test('verifyMigrationDocs groups violations by rule with sample ids', async () => {
+    const violations = await verifyMigrationDocs(
+      createDb({ u1: { _id: 'u1' } }),
+      posts,
+      [
+        {
+          _id: 'p1',
+          title: 'A',
+          status: 'draft',
+          likes: 1,
+          authorId: 'u1',
+        },
+        {
+          _id: 'p2',
+          title: null,
+          status: 'archived',
+          likes: 0,
+          authorId: 'u9',
+        },
+        { _id: 'p3', authorId: 'not-an-id' },
+      ],
+      1
+    );
+
+    expect(violations).toEqual([
+      {
+        rule: 'not_null',
+        name: 'title',
+        columns: ['title'],
+        count: 2,
+        sampleIds: ['p2'],
+      },
+      {
+        rule: 'type',
+        name: 'status',
+        columns: ['status'],
+        count: 1,
+        sampleIds: ['p2'],
+      },
+      {
+        rule: 'check',
+        name: 'likes_positive',
+        columns: [],
+        count: 1,
+        sampleIds: ['p2'],
+      },
+      {
+        rule: 'foreign_key',
+        name: 'authorId -> users',
+        columns: ['authorId'],
+        foreignTable: 'users',
+        count: 2,
+        sampleIds: ['p2'],
+      },
+    ]);
+  });
+
+  test('mergeMigrationVerifyViolations sums counts and caps samples', () => {
+    const merged = mergeMigrationVerifyViolations(
+      [
+        {
+          rule: 'not_null',
+          name: 'title',
+          columns: ['title'],
+          count: 2,
+          sampleIds: ['p1', 'p2'],
+        },
+      ],
+      [
+        {
+          rule: 'not_null',
+          name: 'title',
+          columns: ['title'],
+          count: 3,
+          sampleIds: ['p3', 'p4'],
+        },
+        {
+          rule: 'type',
+          name: 'status',
+          columns: ['status'],
+          count: 1,
+          sampleIds: ['p5'],
+        },
+      ],
+      3
+    );
+
+    expect(merged).toEqual([
+      {
+        rule: 'not_null',
+        name: 'title',
+        columns: ['title'],
+        count: 5,
+        sampleIds: ['p1', 'p2', 'p3'],
+      },
+      {
+        rule: 'type',
+        name: 'status',
+        columns: ['status'],
+        count: 1,
+        sampleIds: ['p5'],
+      },
+    ]);
+  });
+});
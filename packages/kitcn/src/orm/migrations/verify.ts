@@ -0,0 +1,305 @@
+import type { GenericDatabaseWriter } from 'convex/server';
+import { validate } from '../../internal/upstream/validators';
+import { findIndexForColumns, getIndexes } from '../index-utils';
+import {
+  evaluateCheckConstraintTriState,
+  getChecks,
+  getColumnName,
+  getForeignKeys,
+  getTableColumns,
+  getTableName,
+} from '../mutation-utils';
+import type { TablesRelationalConfig } from '../relations';
+import type { ConvexTable } from '../table';
+
+const DEFAULT_BATCH_SIZE = 128;
+const DEFAULT_SAMPLE_SIZE = 5;
+
+export type MigrationVerifyRule =
+  | 'not_null'
+  | 'type'
+  | 'check'
+  | 'foreign_key';
+
+export type MigrationVerifyViolation = {
+  rule: MigrationVerifyRule;
+  /** Column for `not_null` / `type`, constraint name otherwise. */
+  name: string;
+  /** Columns the rule reads. Empty for `check`. */
+  columns: string[];
+  /** Referenced table, for `foreign_key`. */
+  foreignTable?: string;
+  count: number;
+  sampleIds: string[];
+};
+
+export type MigrationVerifyChunkArgs = {
+  /** Tables to verify, in order. Defaults to every schema table. */
+  tables?: string[];
+  /** Table this page reads. Defaults to the first of `tables`. */
+  table?: string;
+  cursor?: string | null;
+  batchSize?: number;
+  /** Sample ids kept per violation. */
+  sampleSize?: number;
+};
+
+export type MigrationVerifyChunkResult = {
+  table: string | null;
+  scanned: number;
+  violations: MigrationVerifyViolation[];
+  cursor: string | null;
+  isDone: boolean;
+  /** Table the next page should read, or null when every table is done. */
+  nextTable: string | null;
+};
+
+type VerifyCtx = {
+  db: GenericDatabaseWriter<any>;
+};
+
+export function createMigrationVerifyHandler<
+  TSchema extends TablesRelationalConfig,
+>(
+  schema: TSchema
+): (
+  ctx: VerifyCtx,
+  args?: MigrationVerifyChunkArgs
+) => Promise<MigrationVerifyChunkResult> {
+  const tablesByName = new Map(
+    Object.values(schema).map((tableConfig) => [
+      tableConfig.name,
+      tableConfig.table as ConvexTable<any>,
+    ])
+  );
+
+  return async (ctx, args = {}) => {
+    const tables = args.tables?.length
+      ? args.tables
+      : [...tablesByName.keys()];
+    for (const tableName of [...tables, ...(args.table ? [args.table] : [])]) {
+      if (!tablesByName.has(tableName)) {
+        throw new Error(
+          `Migration verify references unknown table '${tableName}'.`
+        );
+      }
+    }
+    const batchSize = parsePositiveInteger(args.batchSize, 'batchSize');
+    const sampleSize = parsePositiveInteger(args.sampleSize, 'sampleSize');
+
+    const tableName = args.table ?? tables[0];
+    if (!tableName) {
+      return {
+        table: null,
+        scanned: 0,
+        violations: [],
+        cursor: null,
+        isDone: true,
+        nextTable: null,
+      };
+    }
+
+    const page = await (ctx.db.query(tableName as any) as any).paginate({
+      cursor: args.cursor ?? null,
+      numItems: batchSize ?? DEFAULT_BATCH_SIZE,
+    });
+    const docs = Array.isArray(page?.page)
+      ? (page.page as Record<string, unknown>[])
+      : [];
+    const violations = await verifyMigrationDocs(
+      ctx.db,
+      tablesByName.get(tableName)!,
+      docs,
+      sampleSize ?? DEFAULT_SAMPLE_SIZE
+    );
+    const isDone = page?.isDone === true;
+    const tableIndex = tables.indexOf(tableName);
+
+    return {
+      table: tableName,
+      scanned: docs.length,
+      violations,
+      cursor: isDone ? null : (page?.continueCursor ?? null),
+      isDone,
+      nextTable: isDone ? (tables[tableIndex + 1] ?? null) : tableName,
+    };
+  };
+}
+
+/**
+ * Check documents against the table's current column validators, notNull,
+ * check() constraints and foreign keys.
+ */
+export async function verifyMigrationDocs(
+  db: GenericDatabaseWriter<any>,
+  table: ConvexTable<any>,
+  docs: Record<string, unknown>[],
+  sampleSize = DEFAULT_SAMPLE_SIZE
+): Promise<MigrationVerifyViolation[]> {
+  const violations = new Map<string, MigrationVerifyViolation>();
+  const report = (
+    doc: Record<string, unknown>,
+    violation: Omit<MigrationVerifyViolation, 'count' | 'sampleIds'>
+  ) => {
+    const key = `${violation.rule}:${violation.name}`;
+    const entry = violations.get(key) ?? {
+      ...violation,
+      count: 0,
+      sampleIds: [],
+    };
+    entry.count += 1;
+    if (entry.sampleIds.length < sampleSize) {
+      entry.sampleIds.push(String(doc._id));
+    }
+    violations.set(key, entry);
+  };
+
+  // System fields (`_id`, `_creationTime`) are Convex's to validate.
+  const columns = Object.values(getTableColumns(table))
+    .map((builder) => ({
+      name: getColumnName(builder),
+      notNull: (builder as any).config?.notNull === true,
+      validator: builder.build(),
+    }))
+    .filter((column) => !column.name.startsWith('_'));
+  const checks = getChecks(table);
+  const foreignKeys = getForeignKeys(table);
+  const foreignRows = new Map<string, Promise<boolean>>();
+
+  for (const doc of docs) {
+    for (const column of columns) {
+      const value = doc[column.name];
+      if (column.notNull && (value === undefined || value === null)) {
+        report(doc, {
+          rule: 'not_null',
+          name: column.name,
+          columns: [column.name],
+        });
+        continue;
+      }
+      if (!validate(column.validator, value)) {
+        report(doc, {
+          rule: 'type',
+          name: column.name,
+          columns: [column.name],
+        });
+      }
+    }
+
+    for (const check of checks) {
+      if (evaluateCheckConstraintTriState(doc, check.expression) === false) {
+        report(doc, { rule: 'check', name: check.name, columns: [] });
+      }
+    }
+
+    for (const foreignKey of foreignKeys) {
+      const values = foreignKey.columns.map((column) => doc[column]);
+      if (values.some((value) => value === undefined || value === null)) {
+        continue;
+      }
+      const key = `${foreignKey.foreignTableName}:${foreignKey.foreignColumns.join(',')}:${JSON.stringify(values)}`;
+      let exists = foreignRows.get(key);
+      if (!exists) {
+        exists = hasForeignRow(db, table, foreignKey, values);
+        foreignRows.set(key, exists);
+      }
+      if (!(await exists)) {
+        report(doc, {
+          rule: 'foreign_key',
+          name:
+            foreignKey.name ??
+            `${foreignKey.columns.join(', ')} -> ${foreignKey.foreignTableName}`,
+          columns: foreignKey.columns,
+          foreignTable: foreignKey.foreignTableName,
+        });
+      }
+    }
+  }
+
+  return [...violations.values()];
+}
+
+/** Fold one chunk's violations into a running per-table list. */
+export function mergeMigrationVerifyViolations(
+  target: MigrationVerifyViolation[],
+  incoming: MigrationVerifyViolation[],
+  sampleSize = DEFAULT_SAMPLE_SIZE
+): MigrationVerifyViolation[] {
+  for (const violation of incoming) {
+    const existing = target.find(
+      (entry) => entry.rule === violation.rule && entry.name === violation.name
+    );
+    if (!existing) {
+      target.push({
+        ...violation,
+        sampleIds: violation.sampleIds.slice(0, sampleSize),
+      });
+      continue;
+    }
+    existing.count += violation.count;
+    existing.sampleIds = [...existing.sampleIds, ...violation.sampleIds].slice(
+      0,
+      sampleSize
+    );
+  }
+  return target;
+}
+
+async function hasForeignRow(
+  db: GenericDatabaseWriter<any>,
+  table: ConvexTable<any>,
+  foreignKey: ReturnType<typeof getForeignKeys>[number],
+  values: unknown[]
+): Promise<boolean> {
+  if (
+    foreignKey.foreignColumns.length === 1 &&
+    foreignKey.foreignColumns[0] === '_id'
+  ) {
+    const id = db.normalizeId(
+      foreignKey.foreignTableName as any,
+      String(values[0])
+    );
+    return id ? (await db.get(id)) !== null : false;
+  }
+
+  const indexName = foreignKey.foreignTable
+    ? findIndexForColumns(
+        getIndexes(foreignKey.foreignTable),
+        foreignKey.foreignColumns
+      )
+    : null;
+  if (!indexName) {
+    throw new Error(
+      `Foreign key on '${getTableName(table)}' requires index on '${foreignKey.foreignTableName}(${foreignKey.foreignColumns.join(
+        ', '
+      )})'.`
+    );
+  }
+
+  const row = await db
+    .query(foreignKey.foreignTableName)
+    .withIndex(indexName, (q: any) => {
+      let builder = q.eq(foreignKey.foreignColumns[0], values[0]);
+      for (let i = 1; i < values.length; i++) {
+        builder = builder.eq(foreignKey.foreignColumns[i], values[i]);
+      }
+      return builder;
+    })
+    .first();
+  return row !== null;
+}
+
+function parsePositiveInteger(
+  value: unknown,
+  fieldName: string
+): number | undefined {
+  if (value === undefined || value === null) {
+    return;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new Error(
+      `Migration verify ${fieldName} must be a positive integer.`
+    );
+  }
+  return value;
+}
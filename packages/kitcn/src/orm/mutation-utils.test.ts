@@ -14,8 +14,10 @@ import {
   estimateMeasuredMutationRowBytes,
   evaluateCheckConstraintTriState,
   evaluateFilter,
+  extractVersionCondition,
   getMutationCollectionLimits,
   getSelectionColumnName,
+  getVersionColumnName,
   hydrateDateFieldsForRead,
   normalizeDateFieldsForWrite,
   selectReturningRow,
@@ -254,6 +256,35 @@ describe('mutation-utils', () => {
     ]);
   });
 
+  test('extractVersionCondition splits version eq out of top-level and()', () => {
+    const versioned = convexTable('versioned', {
+      name: text().notNull(),
+      version: integer().$version(),
+    });
+    expect(getVersionColumnName(versioned)).toBe('version');
+    expect(getVersionColumnName(users)).toBeUndefined();
+
+    const split = extractVersionCondition(
+      and(eq(versioned.name, 'a'), eq(versioned.version, 2)),
+      'version'
+    );
+    expect(split?.expectedVersion).toBe(2);
+    expect(split?.where?.operator).toBe('eq');
+    expect(evaluateFilter({ name: 'a' } as any, split!.where as any)).toBe(
+      true
+    );
+
+    expect(
+      extractVersionCondition(
+        or(eq(versioned.name, 'a'), eq(versioned.version, 2)),
+        'version'
+      )
+    ).toBeNull();
+    expect(
+      extractVersionCondition(gt(versioned.version, 2), 'version')
+    ).toBeNull();
+  });
+
   test('takeRowsWithinByteBudget enforces limits and detects truncation', () => {
     expect(() => takeRowsWithinByteBudget([], 0)).toThrow(/positive integer/i);
 
@@ -8,6 +8,8 @@ import type {
   ColumnBuilder,
   ForeignKeyAction,
 } from './builders/column-builder';
+import { formatScaledDecimal, toScaledDecimal } from './builders/decimal';
+import type { OrmKeyring } from './encryption';
 import type { EdgeMetadata } from './extractRelationsConfig';
 import type {
   BinaryExpression,
@@ -16,7 +18,14 @@ import type {
   LogicalExpression,
   UnaryExpression,
 } from './filter-expression';
-import { fieldRef, isFieldReference } from './filter-expression';
+import { and, fieldRef, isFieldReference } from './filter-expression';
+import {
+  assertGeoPoint,
+  encodeGeohash,
+  GEOHASH_FIELD,
+  isGeoPoint,
+  matchesGeoFilter,
+} from './geo';
 import { findIndexForColumns, getIndexes } from './index-utils';
 import type { TablesRelationalConfig } from './relations';
 import type { RlsContext } from './rls/types';
@@ -34,6 +43,7 @@ import {
   TablePolymorphic,
 } from './symbols';
 import type { ConvexTable } from './table';
+import type { OrmTenancy } from './tenancy';
 import {
   CREATED_AT_MIGRATION_MESSAGE,
   hasUserCreatedAtColumn,
@@ -79,6 +89,8 @@ export type OrmContextValue = {
   strict?: boolean;
   defaults?: OrmRuntimeDefaults;
   resolvedDefaults?: ResolvedOrmRuntimeDefaults;
+  encryption?: OrmKeyring;
+  tenancy?: OrmTenancy;
 };
 
 export type MutationRunMode = 'sync' | 'async';
@@ -103,6 +115,8 @@ const INTERNAL_ID_FIELD = '_id';
 const PUBLIC_ID_FIELD = 'id';
 const DATE_COLUMN_TYPE = 'ConvexDate';
 const TIMESTAMP_COLUMN_TYPE = 'ConvexTimestamp';
+const DECIMAL_COLUMN_TYPE = 'ConvexDecimal';
+const POINT_COLUMN_TYPE = 'ConvexPoint';
 
 type SerializedFieldReference = {
   fieldName: string;
@@ -140,11 +154,27 @@ type TemporalColumnType =
   | typeof TIMESTAMP_COLUMN_TYPE;
 type TemporalMode = 'date' | 'string';
 
-export type TemporalColumnDescriptor = {
-  name: string;
-  columnType: TemporalColumnType;
-  mode: TemporalMode;
-};
+/**
+ * Columns whose stored value differs from their public value. Decimal and
+ * point columns ride the same write/read/filter conversion as date() and
+ * timestamp().
+ */
+export type TemporalColumnDescriptor =
+  | {
+      name: string;
+      columnType: TemporalColumnType;
+      mode: TemporalMode;
+    }
+  | {
+      name: string;
+      columnType: typeof DECIMAL_COLUMN_TYPE;
+      mode: 'string' | 'number';
+      scale: number;
+    }
+  | {
+      name: string;
+      columnType: typeof POINT_COLUMN_TYPE;
+    };
 
 const temporalColumnDescriptorCache = new WeakMap<
   object,
@@ -188,6 +218,17 @@ const getTemporalDescriptorFromColumn = (
 ): TemporalColumnDescriptor | undefined => {
   const config = (column as any)?.config;
   const columnType = config?.columnType;
+  if (columnType === DECIMAL_COLUMN_TYPE) {
+    return {
+      name,
+      columnType,
+      mode: config?.mode === 'number' ? 'number' : 'string',
+      scale: config?.scale ?? 0,
+    };
+  }
+  if (columnType === POINT_COLUMN_TYPE) {
+    return { name, columnType };
+  }
   if (columnType !== DATE_COLUMN_TYPE && columnType !== TIMESTAMP_COLUMN_TYPE) {
     return;
   }
@@ -254,6 +295,21 @@ const normalizeTemporalWriteValue = (
   descriptor: TemporalColumnDescriptor,
   value: unknown
 ): unknown => {
+  if (descriptor.columnType === DECIMAL_COLUMN_TYPE) {
+    return toScaledDecimal(value, descriptor.scale);
+  }
+  if (descriptor.columnType === POINT_COLUMN_TYPE) {
+    // Store the geohash geoIndex() ranges over next to the coordinates.
+    if (!isGeoPoint(value)) {
+      return value;
+    }
+    const point = assertGeoPoint(value, `Column '${descriptor.name}'`);
+    return {
+      lat: point.lat,
+      lng: point.lng,
+      [GEOHASH_FIELD]: encodeGeohash(point),
+    };
+  }
   if (descriptor.columnType === DATE_COLUMN_TYPE) {
     if (value instanceof Date) {
       return toDateOnlyString(value);
@@ -268,6 +324,16 @@ const hydrateTemporalReadValue = (
   descriptor: TemporalColumnDescriptor,
   value: unknown
 ): unknown => {
+  if (descriptor.columnType === DECIMAL_COLUMN_TYPE) {
+    if (typeof value !== 'bigint') {
+      return value;
+    }
+    const formatted = formatScaledDecimal(value, descriptor.scale);
+    return descriptor.mode === 'number' ? Number(formatted) : formatted;
+  }
+  if (descriptor.columnType === POINT_COLUMN_TYPE) {
+    return isGeoPoint(value) ? { lat: value.lat, lng: value.lng } : value;
+  }
   if (descriptor.columnType === DATE_COLUMN_TYPE) {
     if (descriptor.mode === 'date' && typeof value === 'string') {
       return toDateOnlyDate(value);
@@ -293,6 +359,30 @@ export const normalizeTemporalComparableValue = (
   return normalizeTemporalWriteValue(descriptor, value);
 };
 
+/**
+ * Public value of an aggregate _sum/_avg. Aggregate buckets sum bigint
+ * columns (decimal() included) as bigint, so decimal sums stay exact and read
+ * like a column value; decimal averages are rounded back to the column scale.
+ * Other columns return numbers.
+ */
+export const hydrateAggregateNumericValue = (
+  table: ConvexTable<any>,
+  fieldName: string,
+  value: number | bigint | null
+): unknown => {
+  if (value === null) {
+    return value;
+  }
+  const descriptor = getTemporalColumnDescriptor(table, fieldName);
+  if (descriptor?.columnType !== DECIMAL_COLUMN_TYPE) {
+    return typeof value === 'bigint' ? Number(value) : value;
+  }
+  return hydrateTemporalReadValue(
+    descriptor,
+    typeof value === 'bigint' ? value : BigInt(Math.round(value))
+  );
+};
+
 export const normalizePublicSystemFields = <T>(
   value: T,
   options?: {
@@ -1093,6 +1183,115 @@ export function getTableColumns(
   >;
 }
 
+export function getVersionColumnName(
+  table: ConvexTable<any>
+): string | undefined {
+  const versionColumns = Object.entries(getTableColumns(table))
+    .filter(([, builder]) => (builder as any).config?.version === true)
+    .map(([columnName]) => columnName);
+  if (versionColumns.length > 1) {
+    throw new Error(
+      `Table '${getTableName(table)}' has multiple $version() columns (${versionColumns.join(', ')}). Use one.`
+    );
+  }
+  return versionColumns[0];
+}
+
+export function getGeneratedColumns(
+  table: ConvexTable<any>
+): [string, (row: Record<string, any>) => unknown][] {
+  const generated: [string, (row: Record<string, any>) => unknown][] = [];
+  for (const [columnName, builder] of Object.entries(getTableColumns(table))) {
+    const fn = (builder as any).config?.generated;
+    if (typeof fn === 'function') {
+      generated.push([columnName, fn]);
+    }
+  }
+  return generated;
+}
+
+export function assertNoGeneratedColumnWrites(
+  table: ConvexTable<any>,
+  value: Record<string, unknown>
+): void {
+  for (const [columnName] of getGeneratedColumns(table)) {
+    if (value[columnName] !== undefined) {
+      throw new Error(
+        `Cannot set generated column '${columnName}' on '${getTableName(table)}'. It is computed by generatedAlwaysAs().`
+      );
+    }
+  }
+}
+
+/**
+ * Evaluate generatedAlwaysAs() columns against a stored row.
+ * Expressions see the row as queries return it and run in declaration
+ * order, so a generated column may read the ones declared before it.
+ */
+export function computeGeneratedColumns(
+  table: ConvexTable<any>,
+  row: Record<string, unknown>
+): Record<string, unknown> {
+  const generated = getGeneratedColumns(table);
+  if (generated.length === 0) {
+    return {};
+  }
+
+  let current = hydrateDateFieldsForRead(table, row);
+  const values: Record<string, unknown> = {};
+  for (const [columnName, fn] of generated) {
+    values[columnName] = fn(current);
+    current = { ...current, [columnName]: values[columnName] };
+  }
+  return normalizeDateFieldsForWrite(table, values);
+}
+
+/**
+ * Split `eq(version, expected)` out of an update where() clause.
+ * Only the top-level condition or a direct `and` operand counts; version
+ * checks nested under `or`/`not` stay plain filters.
+ */
+export function extractVersionCondition(
+  expression: FilterExpression<boolean> | undefined,
+  columnName: string
+): {
+  expectedVersion: number;
+  where: FilterExpression<boolean> | undefined;
+} | null {
+  if (!expression) {
+    return null;
+  }
+  const isVersionEq = (candidate: FilterExpression<boolean>) => {
+    if (candidate.type !== 'binary' || candidate.operator !== 'eq') {
+      return false;
+    }
+    const [field, value] = candidate.operands;
+    return (
+      isFieldReference(field) &&
+      field.fieldName === columnName &&
+      typeof value === 'number'
+    );
+  };
+  if (isVersionEq(expression)) {
+    return {
+      expectedVersion: expression.operands[1] as number,
+      where: undefined,
+    };
+  }
+  if (expression.type !== 'logical' || expression.operator !== 'and') {
+    return null;
+  }
+  const operands = expression.operands as FilterExpression<boolean>[];
+  const versionIndex = operands.findIndex(isVersionEq);
+  if (versionIndex === -1) {
+    return null;
+  }
+  return {
+    expectedVersion: operands[versionIndex].operands[1] as number,
+    where: and(...operands.filter((_, index) => index !== versionIndex)),
+  };
+}
+
 export function getTablePolymorphicConfigs(
   table: ConvexTable<any>
 ): readonly TablePolymorphicConfigRuntime[] {
@@ -1272,11 +1471,41 @@ export function applyDefaults<TValue extends Record<string, unknown>>(
   return result;
 }
 
+/**
+ * Index equality probes for stored values. Deterministic encrypted() values
+ * expand to their ciphertext under every key in the ring, so rows sealed
+ * before a key rotation still match.
+ */
+export async function getEqualityProbes(
+  table: ConvexTable<any>,
+  entries: [string, unknown][],
+  keyring: OrmKeyring | undefined
+): Promise<[string, unknown][][]> {
+  const columns = getTableColumns(table);
+  let probes: [string, unknown][][] = [[]];
+  for (const [field, value] of entries) {
+    const values =
+      keyring &&
+      typeof value === 'string' &&
+      (columns[field] as any)?.config?.encrypted === 'deterministic'
+        ? await keyring.encryptForLookup(await keyring.decrypt(value))
+        : [value];
+    probes = probes.flatMap((probe) =>
+      values.map((item) => [...probe, [field, item]] as [string, unknown][])
+    );
+  }
+  return probes;
+}
+
 export async function enforceUniqueIndexes(
   db: GenericDatabaseWriter<any>,
   table: ConvexTable<any>,
   candidate: Record<string, unknown>,
-  options?: { currentId?: unknown; changedFields?: Set<string> }
+  options?: {
+    currentId?: unknown;
+    changedFields?: Set<string>;
+    encryption?: OrmKeyring;
+  }
 ): Promise<void> {
   const uniqueIndexes = getUniqueIndexes(table);
   if (uniqueIndexes.length === 0) {
@@ -1294,7 +1523,9 @@ export async function enforceUniqueIndexes(
       continue;
     }
 
-    const entries = index.fields.map((field) => [field, candidate[field]]);
+    const entries = index.fields.map(
+      (field) => [field, candidate[field]] as [string, unknown]
+    );
     const hasNullish = entries.some(
       ([, value]) => value === undefined || value === null
     );
@@ -1302,25 +1533,31 @@ export async function enforceUniqueIndexes(
       continue;
     }
 
-    const existing = await db
-      .query(tableName)
-      .withIndex(index.name, (q: any) => {
-        let builder = q.eq(entries[0][0], entries[0][1]);
-        for (let i = 1; i < entries.length; i++) {
-          builder = builder.eq(entries[i][0], entries[i][1]);
-        }
-        return builder;
-      })
-      .unique();
-
-    if (
-      existing !== null &&
-      (options?.currentId === undefined ||
-        (existing as any)._id !== options.currentId)
-    ) {
-      throw new Error(
-        `Unique index '${index.name}' violation on '${tableName}'.`
-      );
+    for (const probe of await getEqualityProbes(
+      table,
+      entries,
+      options?.encryption
+    )) {
+      const existing = await db
+        .query(tableName)
+        .withIndex(index.name, (q: any) => {
+          let builder = q.eq(probe[0][0], probe[0][1]);
+          for (let i = 1; i < probe.length; i++) {
+            builder = builder.eq(probe[i][0], probe[i][1]);
+          }
+          return builder;
+        })
+        .unique();
+
+      if (
+        existing !== null &&
+        (options?.currentId === undefined ||
+          (existing as any)._id !== options.currentId)
+      ) {
+        throw new Error(
+          `Unique index '${index.name}' violation on '${tableName}'.`
+        );
+      }
     }
   }
 }
@@ -1582,7 +1819,8 @@ async function hasReferencingRow(
 export async function softDeleteRow(
   db: GenericDatabaseWriter<any>,
   table: ConvexTable<any>,
-  row: Record<string, unknown>
+  row: Record<string, unknown>,
+  deletionTime = Date.now()
 ): Promise<number> {
   const tableName = getTableName(table);
   const columns = getTableColumns(table);
@@ -1591,11 +1829,23 @@ export async function softDeleteRow(
       `Soft delete requires 'deletionTime' field on '${tableName}'.`
     );
   }
-  const deletionTime = Date.now();
   await db.patch(tableName, row._id as any, { deletionTime });
   return deletionTime;
 }
 
+export async function restoreRow(
+  db: GenericDatabaseWriter<any>,
+  table: ConvexTable<any>,
+  row: Record<string, unknown>
+): Promise<void> {
+  const tableName = getTableName(table);
+  const columns = getTableColumns(table);
+  if (!('deletionTime' in columns)) {
+    throw new Error(`Restore requires 'deletionTime' field on '${tableName}'.`);
+  }
+  await db.patch(tableName, row._id as any, { deletionTime: undefined });
+}
+
 export async function hardDeleteRow(
   db: GenericDatabaseWriter<any>,
   _tableName: string,
@@ -1624,6 +1874,7 @@ export async function applyIncomingForeignKeyActionsOnDelete(
     scheduledMutationBatch?: SchedulableFunctionReference;
     scheduleState?: MutationScheduleState;
     delayMs?: number;
+    deletionTime?: number;
   }
 ): Promise<void> {
   const tableName = getTableName(table);
@@ -1713,6 +1964,7 @@ export async function applyIncomingForeignKeyActionsOnDelete(
             batchSize: asyncBatchSize,
             maxBytesPerBatch: options.maxBytesPerBatch,
             delayMs: options.delayMs ?? 0,
+            deletionTime: options.deletionTime,
           }
         );
       }
@@ -1778,6 +2030,15 @@ export async function applyIncomingForeignKeyActionsOnDelete(
           continue;
         }
         options.visited.add(key);
+        // Rows soft-deleted on their own keep their original deletionTime so
+        // restoring this parent does not bring them back.
+        if (
+          options.cascadeMode === 'soft' &&
+          referencingRow.deletionTime !== undefined &&
+          referencingRow.deletionTime !== null
+        ) {
+          continue;
+        }
         await applyIncomingForeignKeyActionsOnDelete(
           db,
           foreignKey.sourceTable,
@@ -1785,7 +2046,12 @@ export async function applyIncomingForeignKeyActionsOnDelete(
           options
         );
         if (options.cascadeMode === 'soft') {
-          await softDeleteRow(db, foreignKey.sourceTable, referencingRow);
+          await softDeleteRow(
+            db,
+            foreignKey.sourceTable,
+            referencingRow,
+            options.deletionTime
+          );
         } else {
           await hardDeleteRow(db, foreignKey.sourceTableName, referencingRow);
         }
@@ -1794,6 +2060,74 @@ export async function applyIncomingForeignKeyActionsOnDelete(
   }
 }
 
+/**
+ * Reverse a soft cascade: restore `onDelete: 'cascade'` children that were
+ * soft-deleted together with `row` (same deletionTime).
+ */
+export async function applyIncomingForeignKeyActionsOnRestore(
+  db: GenericDatabaseWriter<any>,
+  table: ConvexTable<any>,
+  row: Record<string, unknown>,
+  options: {
+    graph: ForeignKeyGraph;
+    deletionTime: number;
+    visited: Set<string>;
+    batchSize: number;
+    maxRows: number;
+  }
+): Promise<void> {
+  const tableName = getTableName(table);
+  const incoming = options.graph.incomingByTable.get(tableName) ?? [];
+
+  for (const foreignKey of incoming) {
+    if (foreignKey.onDelete !== 'cascade') {
+      continue;
+    }
+    if (!('deletionTime' in getTableColumns(foreignKey.sourceTable))) {
+      continue;
+    }
+    const targetValues = foreignKey.targetColumns.map((column) => row[column]);
+    if (targetValues.some((value) => value === undefined || value === null)) {
+      continue;
+    }
+    // Soft cascades only run through indexed foreign keys, so an unindexed
+    // edge has nothing to restore.
+    const indexName = getIndexForForeignKey(foreignKey);
+    if (!indexName) {
+      continue;
+    }
+
+    const referencingRows = await collectReferencingRows(
+      db,
+      foreignKey,
+      targetValues,
+      indexName,
+      {
+        operation: 'update',
+        batchSize: options.batchSize,
+        maxRows: options.maxRows,
+      }
+    );
+    for (const referencingRow of referencingRows) {
+      if (referencingRow.deletionTime !== options.deletionTime) {
+        continue;
+      }
+      const key = `${foreignKey.sourceTableName}:${referencingRow._id}`;
+      if (options.visited.has(key)) {
+        continue;
+      }
+      options.visited.add(key);
+      await applyIncomingForeignKeyActionsOnRestore(
+        db,
+        foreignKey.sourceTable,
+        referencingRow,
+        options
+      );
+      await restoreRow(db, foreignKey.sourceTable, referencingRow);
+    }
+  }
+}
+
 export async function applyIncomingForeignKeyActionsOnUpdate(
   db: GenericDatabaseWriter<any>,
   table: ConvexTable<any>,
@@ -2194,6 +2528,9 @@ export function evaluateFilter(
         const arr = value as any[];
         return (fieldValue as any[]).some((item) => arr.includes(item));
       }
+      case 'near':
+      case 'within':
+        return matchesGeoFilter(filter.operator, fieldValue, value);
       default:
         throw new Error(`Unsupported post-fetch operator: ${filter.operator}`);
     }
@@ -2380,6 +2717,9 @@ export function evaluateCheckConstraintTriState(
         if (!Array.isArray(arr)) return false;
         return (fieldValue as any[]).some((item) => arr.includes(item));
       }
+      case 'near':
+      case 'within':
+        return matchesGeoFilter(filter.operator, fieldValue, compareValue);
       default:
         throw new Error(`Unsupported operator: ${filter.operator}`);
     }
@@ -2511,6 +2851,8 @@ export function toConvexFilter(
         case 'arrayContains':
         case 'arrayContained':
         case 'arrayOverlaps':
+        case 'near':
+        case 'within':
           return () => true;
         default:
           throw new Error(`Unsupported binary operator: ${expr.operator}`);
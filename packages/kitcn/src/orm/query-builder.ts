@@ -11,7 +11,13 @@
 
 import type { GenericDatabaseReader } from 'convex/server';
 import type { KnownKeysOnly } from '../internal/types';
+import type { OrmQueryExplainOptions, OrmQueryPlan } from './explain';
 import type { EdgeMetadata } from './extractRelationsConfig';
+import {
+  type OrmHistoryEntry,
+  queryRecordAsOf,
+  queryRecordHistory,
+} from './history';
 import { GelRankQuery, GelRelationalQuery } from './query';
 import { QueryPromise } from './query-promise';
 import type { RlsContext } from './rls/types';
@@ -34,6 +40,7 @@ import type {
   FindManyUnionSource,
   GroupByConfig,
   GroupByResult,
+  HybridSearchQueryConfig,
   KeyPageResult,
   PaginatedResult,
   PredicateWhereIndexConfig,
@@ -67,6 +74,7 @@ type DisallowWithIndexSearchOrVector<THasIndex extends boolean> =
     ? {
         search?: never;
         vectorSearch?: never;
+        hybridSearch?: never;
       }
     : unknown;
 
@@ -93,6 +101,7 @@ type SearchPaginatedConfig<
 > & {
   search: SearchQueryConfig<TTableConfig>;
   vectorSearch?: never;
+  hybridSearch?: never;
   where?: SearchWhereFilter<TTableConfig> | undefined;
   orderBy?: never;
   pipeline?: never;
@@ -109,6 +118,7 @@ type SearchNonPaginatedConfig<
 > & {
   search: SearchQueryConfig<TTableConfig>;
   vectorSearch?: never;
+  hybridSearch?: never;
   where?: SearchWhereFilter<TTableConfig> | undefined;
   orderBy?: never;
   pipeline?: never;
@@ -132,6 +142,7 @@ type SearchFindFirstConfig<
 > & {
   search: SearchQueryConfig<TTableConfig>;
   vectorSearch?: never;
+  hybridSearch?: never;
   where?: SearchWhereFilter<TTableConfig> | undefined;
   orderBy?: never;
   pipeline?: never;
@@ -155,6 +166,39 @@ type VectorNonPaginatedConfig<
 > & {
   vectorSearch: VectorQueryConfig<TTableConfig>;
   search?: never;
+  hybridSearch?: never;
+  where?: never;
+  orderBy?: never;
+  offset?: never;
+  limit?: never;
+  cursor?: never;
+  maxScan?: never;
+  allowFullScan?: never;
+  pipeline?: never;
+  pageByKey?: never;
+  endCursor?: never;
+};
+
+type HybridNonPaginatedConfig<
+  TSchema extends TablesRelationalConfig,
+  TTableConfig extends TableRelationalConfig,
+> = Omit<
+  DBQueryConfig<'many', true, TSchema, TTableConfig>,
+  | 'hybridSearch'
+  | 'vectorSearch'
+  | 'search'
+  | 'where'
+  | 'orderBy'
+  | 'offset'
+  | 'limit'
+  | 'cursor'
+  | 'maxScan'
+  | 'allowFullScan'
+  | 'pipeline'
+> & {
+  hybridSearch: HybridSearchQueryConfig<TTableConfig>;
+  search?: never;
+  vectorSearch?: never;
   where?: never;
   orderBy?: never;
   offset?: never;
@@ -253,6 +297,7 @@ type CursorPaginatedConfigNoSearch<
 > = Omit<CursorPaginatedConfig<TSchema, TTableConfig>, 'search'> & {
   search?: undefined;
   vectorSearch?: undefined;
+  hybridSearch?: undefined;
 };
 
 type NonCursorConfigNoSearch<
@@ -261,6 +306,7 @@ type NonCursorConfigNoSearch<
 > = Omit<NonCursorConfig<TSchema, TTableConfig>, 'search'> & {
   search?: undefined;
   vectorSearch?: undefined;
+  hybridSearch?: undefined;
 };
 
 type FindFirstConfigNoSearch<
@@ -279,6 +325,7 @@ type FindFirstConfigNoSearch<
 > & {
   search?: undefined;
   vectorSearch?: undefined;
+  hybridSearch?: undefined;
   endCursor?: never;
   pipeline?: never;
   pageByKey?: never;
@@ -299,6 +346,7 @@ type SelectPipelineBaseConfig<
   | 'columns'
   | 'search'
   | 'vectorSearch'
+  | 'hybridSearch'
   | 'offset'
 > & {
   cursor?: never;
@@ -311,6 +359,7 @@ type SelectPipelineBaseConfig<
   columns?: never;
   search?: never;
   vectorSearch?: never;
+  hybridSearch?: never;
   offset?: never;
 };
 
@@ -700,6 +749,38 @@ export class RelationalQueryBuilder<
     );
   }
 
+  /**
+   * Every recorded change for one row, oldest first.
+   * Requires `history()` on the table.
+   */
+  history(
+    id: string,
+    options?: { limit?: number }
+  ): Promise<OrmHistoryEntry<BuildQueryResult<TSchema, TTableConfig, true>>[]> {
+    return queryRecordHistory(
+      this.db,
+      this.tableConfig,
+      id,
+      options
+    ) as Promise<any>;
+  }
+
+  /**
+   * The row as it was at `timestamp`, or null when it did not exist yet or
+   * was already deleted. Requires `history()` on the table.
+   */
+  asOf(
+    id: string,
+    timestamp: number | Date
+  ): Promise<BuildQueryResult<TSchema, TTableConfig, true> | null> {
+    return queryRecordAsOf(
+      this.db,
+      this.tableConfig,
+      id,
+      timestamp
+    ) as Promise<any>;
+  }
+
   count(): GelRelationalQuery<TSchema, TTableConfig, number>;
   count<TConfig extends CountConfig<TSchema, TTableConfig>>(
     config: KnownKeysOnly<TConfig, CountConfig<TSchema, TTableConfig>>
@@ -823,6 +904,17 @@ export class RelationalQueryBuilder<
     TTableConfig,
     BuildQueryResult<TSchema, TTableConfig, TConfig>[]
   >;
+  findMany<TConfig extends HybridNonPaginatedConfig<TSchema, TTableConfig>>(
+    config: KnownKeysOnlyStrict<
+      TConfig,
+      HybridNonPaginatedConfig<TSchema, TTableConfig>
+    > &
+      DisallowWithIndexSearchOrVector<THasIndex>
+  ): GelRelationalQuery<
+    TSchema,
+    TTableConfig,
+    BuildQueryResult<TSchema, TTableConfig, TConfig>[]
+  >;
   findMany<
     TConfig extends CursorPaginatedConfigNoSearch<TSchema, TTableConfig>,
   >(
@@ -977,4 +1069,25 @@ export class RelationalQueryBuilder<
       'firstOrThrow'
     );
   }
+
+  /**
+   * Query plan for `findMany(config)` without reading rows; pass
+   * `{ analyze: true }` to run it and include row counts.
+   *
+   * @example
+   * const plan = await ctx.db.query.posts.explain(
+   *   { where: { authorId }, with: { comments: true }, limit: 20 },
+   *   { analyze: true }
+   * );
+   * console.log(formatQueryPlan(plan));
+   */
+  explain(
+    config?: DBQueryConfig<'many', true, TSchema, TTableConfig>,
+    options?: OrmQueryExplainOptions
+  ): Promise<OrmQueryPlan> {
+    return this.createQuery<unknown>(
+      config ?? ({} as DBQueryConfig<'many', true, TSchema, TTableConfig>),
+      'many'
+    ).explain(options);
+  }
 }
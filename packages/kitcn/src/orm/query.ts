@@ -28,12 +28,14 @@ import {
   compileAggregateQueryPlan,
   compileCountFieldQueryPlan,
   compileCountQueryPlan,
+  compileTimeSeriesQueryPlan,
   createAggregateError,
   createCountError,
   ensureAggregateAllowedForRls,
   ensureAggregateIndexReady,
   ensureCountAllowedForRls,
   ensureCountIndexReady,
+  getAggregateIndexDefinitions,
   isAggregatePlanZero,
   isIndexCountZero,
   readAverageFromBuckets,
@@ -41,9 +43,30 @@ import {
   readCountFromBuckets,
   readExtremaFromBuckets,
   readSumFromBuckets,
+  readTimeSeriesFromBuckets,
 } from './aggregate-index/runtime';
+import {
+  type AggregateBucketUnit,
+  isAggregateBucketUnit,
+} from './aggregate-index/time-bucket';
 import { type ColumnBuilder, entityKind } from './builders/column-builder';
+import {
+  applySealedFilterValues,
+  decryptColumnsForRead,
+  getEncryptedColumns,
+  getEncryptedFilterValues,
+} from './encryption';
 import { OrmNotFoundError } from './errors';
+import {
+  formatFilterExpression,
+  type OrmQueryExplainOptions,
+  type OrmQueryExplainStats,
+  type OrmQueryPlan,
+  type OrmQueryPlanBound,
+  type OrmQueryPlanOrder,
+  type OrmQueryPlanRelation,
+  relationStatsKey,
+} from './explain';
 import type { EdgeMetadata } from './extractRelationsConfig';
 import type {
   BinaryExpression,
@@ -73,6 +96,7 @@ import {
   lt,
   lte,
   ne,
+  near,
   not,
   notBetween,
   notIlike,
@@ -80,8 +104,18 @@ import {
   notLike,
   or,
   startsWith,
+  within,
 } from './filter-expression';
 import {
+  assertGeoPoint,
+  distanceMeters,
+  type GeoPoint,
+  isGeoPoint,
+  matchesGeoFilter,
+} from './geo';
+import { fuseHybridRankings, type HybridSearchFusion } from './hybrid-search';
+import {
+  findIndexForColumns,
   findRelationIndex,
   findSearchIndexByName,
   findVectorIndexByName,
@@ -89,6 +123,8 @@ import {
 } from './index-utils';
 import {
   getOrmContext,
+  getTableDeleteConfig,
+  hydrateAggregateNumericValue,
   hydrateDateFieldsForRead,
   normalizeTemporalComparableValue,
 } from './mutation-utils';
@@ -96,7 +132,7 @@ import { asc, desc } from './order-by';
 import { getPage } from './pagination';
 import { QueryPromise } from './query-promise';
 import type { RelationsFieldFilter, RelationsFilter } from './relations';
-import { filterSelectRows } from './rls/evaluator';
+import { filterSelectRows, maskSelectColumns } from './rls/evaluator';
 import type { RlsContext } from './rls/types';
 import {
   EmptyStream,
@@ -110,6 +146,11 @@ import {
   OrmSchemaDefinition,
   type TablePolymorphicConfigRuntime,
 } from './symbols';
+import {
+  filterTenantRows,
+  resolveTenantScope,
+  type TenantScope,
+} from './tenancy';
 import {
   CREATED_AT_MIGRATION_MESSAGE,
   INTERNAL_CREATION_TIME_FIELD,
@@ -319,6 +360,11 @@ export class GelRelationalQuery<
     string,
     Promise<void>
   >();
+  /** Ciphertext for deterministic encrypted() values in the root where. */
+  private _sealedWhereValues = new Map<string, Map<unknown, string[]>>();
+  private _tenantWhereApplied = false;
+  /** Set while explain({ analyze }) runs execute(). */
+  private _explainStats?: OrmQueryExplainStats;
 
   constructor(
     private schema: TSchema,
@@ -494,13 +540,247 @@ export class GelRelationalQuery<
     tableConfig?: TableRelationalConfig
   ): Promise<any[]> {
     if (!rows.length || !tableConfig) return rows;
-    return await filterSelectRows({
-      table: tableConfig.table as any,
+    const ormContext = getOrmContext(this.db);
+    // Rows from other tenants never leave the query, including relations.
+    const tenantRows = filterTenantRows(
       rows,
+      await resolveTenantScope(tableConfig.table as any, ormContext, this.rls)
+    );
+    // Policies see plaintext, so encrypted() columns are opened first.
+    const opened = await decryptColumnsForRead(
+      tableConfig.table as any,
+      tenantRows,
+      ormContext?.encryption
+    );
+    return await maskSelectColumns({
+      table: tableConfig.table as any,
+      rows: await filterSelectRows({
+        table: tableConfig.table as any,
+        rows: opened,
+        rls: this.rls,
+      }),
       rls: this.rls,
     });
   }
 
+  /**
+   * Tenancy rides in the root where, so the planner picks tenant-prefixed
+   * indexes and counts/aggregates read tenant-scoped aggregate indexes. Id
+   * lookups and vector results keep their own paths; _applyRlsSelectFilter
+   * drops other tenants' rows from those.
+   */
+  private async _applyTenantWhere(): Promise<void> {
+    if (this._tenantWhereApplied) return;
+    this._tenantWhereApplied = true;
+    const scope = await resolveTenantScope(
+      this.tableConfig.table as any,
+      getOrmContext(this.db),
+      this.rls
+    );
+    const config = this.config as any;
+    if (
+      !scope ||
+      config.vectorSearch !== undefined ||
+      config.hybridSearch !== undefined
+    ) {
+      return;
+    }
+    if (
+      (this.mode === 'many' ||
+        this.mode === 'first' ||
+        this.mode === 'firstOrThrow') &&
+      this._extractIdOnlyWhere(config.where)
+    ) {
+      return;
+    }
+    this.config = {
+      ...config,
+      where: this._withTenantWhere(config.where, scope),
+    };
+  }
+
+  private _withTenantWhere(where: unknown, scope: TenantScope): unknown {
+    const tenantWhere = { [scope.column]: scope.tenant };
+    if (typeof where === 'function') {
+      return (...args: unknown[]) => {
+        const result = where(...args);
+        if (this._isPredicateWhereClause(result)) {
+          return {
+            ...result,
+            predicate: async (row: any) =>
+              row[scope.column] === scope.tenant &&
+              (await result.predicate(row)),
+          };
+        }
+        if (result === undefined || this._isFilterExpressionNode(result)) {
+          return and(result, scope.filter);
+        }
+        return result;
+      };
+    }
+    if (!this._isRecord(where) || this._isEmptyWhere(where)) {
+      return tenantWhere;
+    }
+    if (!(scope.column in where)) {
+      return { ...where, ...tenantWhere };
+    }
+    if (where[scope.column] === scope.tenant) {
+      return where;
+    }
+    return { AND: [where, tenantWhere] };
+  }
+
+  /**
+   * Encrypted columns only match on ciphertext, so equality values for
+   * deterministic ones are sealed up front under every key in the ring;
+   * _buildFieldFilterExpression matches any of them when compiling the root
+   * where, so rows sealed before a key rotation still match. Callback
+   * filters get the same swap in _resolveWhereCallbackExpression. Other
+   * filters on encrypted columns are rejected.
+   */
+  private async _sealEncryptedWhereValues(where: unknown): Promise<void> {
+    const encrypted = new Map(getEncryptedColumns(this.tableConfig.table));
+    if (encrypted.size === 0) return;
+    const tableName = this.tableConfig.name;
+    const keyring = getOrmContext(this.db)?.encryption;
+
+    const seal = async (fieldName: string, value: unknown) => {
+      if (typeof value !== 'string') return;
+      if (!keyring) {
+        throw new Error(
+          `Table '${tableName}' has encrypted() columns. Pass { encryption: { keys } } to createOrm().`
+        );
+      }
+      let sealed = this._sealedWhereValues.get(fieldName);
+      if (!sealed) {
+        sealed = new Map();
+        this._sealedWhereValues.set(fieldName, sealed);
+      }
+      if (!sealed.has(value)) {
+        sealed.set(value, await keyring.encryptForLookup(value));
+      }
+    };
+
+    const visit = async (filter: Record<string, unknown>): Promise<void> => {
+      for (const [key, value] of Object.entries(filter)) {
+        if (value === undefined) continue;
+        if (key === 'AND' || key === 'OR') {
+          if (Array.isArray(value)) {
+            for (const sub of value) {
+              if (this._isRecord(sub)) await visit(sub);
+            }
+          }
+          continue;
+        }
+        if (key === 'NOT') {
+          if (this._isRecord(value)) await visit(value);
+          continue;
+        }
+        const mode = encrypted.get(key);
+        if (!mode) continue;
+        if (mode === 'randomized') {
+          throw new Error(
+            `Cannot filter on encrypted column '${key}' of '${tableName}'. Use encrypted({ mode: 'deterministic' }) to allow equality filters.`
+          );
+        }
+        if (!this._isRecord(value)) {
+          await seal(key, value);
+          continue;
+        }
+        for (const [op, operand] of Object.entries(value)) {
+          if (operand === undefined) continue;
+          if (op === 'eq' || op === 'ne') {
+            await seal(key, operand);
+          } else if (op === 'in' || op === 'notIn') {
+            for (const item of Array.isArray(operand) ? operand : []) {
+              await seal(key, item);
+            }
+          } else if (op !== 'isNull' && op !== 'isNotNull') {
+            throw new Error(
+              `Encrypted column '${key}' of '${tableName}' only supports eq, ne, in, notIn, isNull, and isNotNull filters.`
+            );
+          }
+        }
+      }
+    };
+
+    if (typeof where === 'function') {
+      const expression = this._resolveWhereCallbackExpression(
+        where as (...args: any[]) => unknown,
+        this.tableConfig,
+        { context: 'root' }
+      );
+      if (this._isFilterExpressionNode(expression)) {
+        for (const [columnName, values] of getEncryptedFilterValues(
+          this.tableConfig.table,
+          expression
+        )) {
+          for (const value of values) {
+            await seal(columnName, value);
+          }
+        }
+      }
+      return;
+    }
+    if (this._isRecord(where)) {
+      await visit(where);
+    }
+  }
+
+  /**
+   * Soft-delete scope for `deletion('soft')` tables: live rows by default,
+   * every row with `withDeleted`, soft-deleted rows only with `onlyDeleted`.
+   */
+  private _getSoftDeleteScope(
+    tableConfig: TableRelationalConfig,
+    config: unknown
+  ): 'live' | 'deleted' | undefined {
+    if (getTableDeleteConfig(tableConfig.table as any)?.mode !== 'soft') {
+      return;
+    }
+    if (!(tableConfig.table as any)[Columns]?.deletionTime) {
+      return;
+    }
+    const options = (config && typeof config === 'object' ? config : {}) as {
+      withDeleted?: boolean;
+      onlyDeleted?: boolean;
+    };
+    if (options.withDeleted && options.onlyDeleted) {
+      throw new Error('withDeleted cannot be combined with onlyDeleted.');
+    }
+    if (options.withDeleted) {
+      return;
+    }
+    return options.onlyDeleted ? 'deleted' : 'live';
+  }
+
+  private _getSoftDeleteFilter(
+    tableConfig: TableRelationalConfig,
+    config: unknown
+  ): FilterExpression<boolean> | undefined {
+    const scope = this._getSoftDeleteScope(tableConfig, config);
+    if (!scope) {
+      return;
+    }
+    const deletionTime = column(
+      (tableConfig.table as any)[Columns].deletionTime,
+      'deletionTime'
+    );
+    return scope === 'deleted' ? isNotNull(deletionTime) : isNull(deletionTime);
+  }
+
+  private _applySoftDeleteFilter(
+    rows: any[],
+    tableConfig: TableRelationalConfig,
+    config: unknown
+  ): any[] {
+    const filter = this._getSoftDeleteFilter(tableConfig, config);
+    if (!filter || !rows.length) {
+      return rows;
+    }
+    return rows.filter((row) => this._evaluatePostFetchFilter(row, filter));
+  }
+
   private _isColumnBuilder(
     value: unknown
   ): value is ColumnBuilder<any, any, any> {
@@ -543,10 +823,20 @@ export class GelRelationalQuery<
   private _orderBySpecs(
     orderBy:
       | ValueOrArray<OrderByValue>
-      | Record<string, 'asc' | 'desc' | undefined>
+      | Record<
+          string,
+          | 'asc'
+          | 'desc'
+          | { distanceFrom: GeoPoint; direction?: 'asc' | 'desc' }
+          | undefined
+        >
       | undefined,
     tableConfig: TableRelationalConfig = this.tableConfig
-  ): { field: string; direction: 'asc' | 'desc' }[] {
+  ): {
+    field: string;
+    direction: 'asc' | 'desc';
+    distanceFrom?: GeoPoint;
+  }[] {
     if (
       orderBy &&
       typeof orderBy === 'object' &&
@@ -554,23 +844,29 @@ export class GelRelationalQuery<
       !this._isOrderByClause(orderBy) &&
       !this._isColumnBuilder(orderBy)
     ) {
-      return Object.entries(orderBy)
-        .map(([field, direction]) => ({
-          field: this._normalizePublicFieldName(field, tableConfig),
-          direction,
-        }))
-        .filter(
-          (
-            entry
-          ): entry is {
-            field: string;
-            direction: 'asc' | 'desc';
-          } => entry.direction === 'asc' || entry.direction === 'desc'
-        )
-        .map((entry) => ({
-          field: entry.field,
-          direction: entry.direction,
-        }));
+      return Object.entries(orderBy).flatMap(([field, value]) => {
+        const name = this._normalizePublicFieldName(field, tableConfig);
+        // point() columns order by distance: { distanceFrom, direction? }
+        if (value && typeof value === 'object' && 'distanceFrom' in value) {
+          const { distanceFrom, direction = 'asc' } = value as {
+            distanceFrom: GeoPoint;
+            direction?: 'asc' | 'desc';
+          };
+          return [
+            {
+              field: name,
+              direction,
+              distanceFrom: assertGeoPoint(
+                distanceFrom,
+                `orderBy.${field}.distanceFrom`
+              ),
+            },
+          ];
+        }
+        return value === 'asc' || value === 'desc'
+          ? [{ field: name, direction: value }]
+          : [];
+      });
     }
 
     return this._normalizeOrderBy(
@@ -608,11 +904,15 @@ export class GelRelationalQuery<
   private _compareByOrderSpecs(
     a: any,
     b: any,
-    orders: { field: string; direction: 'asc' | 'desc' }[]
+    orders: {
+      field: string;
+      direction: 'asc' | 'desc';
+      distanceFrom?: GeoPoint;
+    }[]
   ): number {
     for (const order of orders) {
-      const aVal = a[order.field];
-      const bVal = b[order.field];
+      const aVal = this._orderValue(a[order.field], order.distanceFrom);
+      const bVal = this._orderValue(b[order.field], order.distanceFrom);
 
       if (aVal === null || aVal === undefined) {
         if (bVal === null || bVal === undefined) continue;
@@ -632,6 +932,13 @@ export class GelRelationalQuery<
     return 0;
   }
 
+  private _orderValue(value: unknown, distanceFrom?: GeoPoint): any {
+    if (!distanceFrom) {
+      return value;
+    }
+    return isGeoPoint(value) ? distanceMeters(value, distanceFrom) : null;
+  }
+
   private _getTableConfigByDbName(
     dbName: string
   ): TableRelationalConfig | undefined {
@@ -752,6 +1059,9 @@ export class GelRelationalQuery<
           const arr = normalizedValue as any[];
           return arr.some((item) => fieldValue.includes(item));
         }
+        case 'near':
+        case 'within':
+          return matchesGeoFilter(filter.operator, fieldValue, value);
         default:
           throw new Error(
             `Unsupported post-fetch operator: ${filter.operator}`
@@ -933,6 +1243,10 @@ export class GelRelationalQuery<
           results.push(value.some((item) => fieldValue.includes(item)));
           continue;
         }
+        case 'near':
+        case 'within':
+          results.push(matchesGeoFilter(op, fieldValue, value));
+          continue;
         case 'like': {
           if (typeof fieldValue !== 'string' || typeof value !== 'string') {
             results.push(false);
@@ -1289,10 +1603,30 @@ export class GelRelationalQuery<
       fieldName,
       tableConfig
     );
+    const sealed =
+      tableConfig === this.tableConfig
+        ? this._sealedWhereValues.get(fieldName)
+        : undefined;
     const normalizeValue = (value: unknown): unknown =>
-      this._normalizeComparableValue(normalizedFieldName, value, tableConfig);
+      sealed
+        ? Array.isArray(value)
+          ? value.flatMap((item) => sealed.get(item) ?? [item])
+          : value
+        : this._normalizeComparableValue(
+            normalizedFieldName,
+            value,
+            tableConfig
+          );
 
     const columnRef = column(columnBuilder, normalizedFieldName);
+    // A sealed value matches its ciphertext under any key: with more than
+    // one key in the ring, eq/ne become inArray/notInArray.
+    const equals = (value: unknown) => {
+      const ciphertexts = sealed?.get(value);
+      return ciphertexts && ciphertexts.length > 1
+        ? inArray(columnRef, ciphertexts as any)
+        : eq(columnRef, ciphertexts?.[0] ?? normalizeValue(value));
+    };
 
     if (
       filter instanceof Date ||
@@ -1300,7 +1634,7 @@ export class GelRelationalQuery<
       typeof filter !== 'object' ||
       Array.isArray(filter)
     ) {
-      return eq(columnRef, normalizeValue(filter));
+      return equals(filter);
     }
 
     const entries = Object.entries(filter as Record<string, any>);
@@ -1370,6 +1704,12 @@ export class GelRelationalQuery<
         case 'arrayOverlaps':
           parts.push(arrayOverlaps(columnRef, value));
           continue;
+        case 'near':
+          parts.push(near(columnRef, value));
+          continue;
+        case 'within':
+          parts.push(within(columnRef, value));
+          continue;
         case 'like':
           parts.push(like(columnRef, value));
           continue;
@@ -1392,11 +1732,17 @@ export class GelRelationalQuery<
           parts.push(contains(columnRef, value));
           continue;
         case 'eq':
-          parts.push(eq(columnRef, normalizeValue(value)));
+          parts.push(equals(value));
           continue;
-        case 'ne':
-          parts.push(ne(columnRef, normalizeValue(value)));
+        case 'ne': {
+          const ciphertexts = sealed?.get(value);
+          parts.push(
+            ciphertexts && ciphertexts.length > 1
+              ? notInArray(columnRef, ciphertexts as any)
+              : ne(columnRef, ciphertexts?.[0] ?? normalizeValue(value))
+          );
           continue;
+        }
         case 'gt':
           parts.push(gt(columnRef, normalizeValue(value)));
           continue;
@@ -2129,6 +2475,8 @@ export class GelRelationalQuery<
       arrayContains,
       arrayContained,
       arrayOverlaps,
+      near,
+      within,
       isNull,
       isNotNull,
       like,
@@ -2160,7 +2508,9 @@ export class GelRelationalQuery<
     }
 
     if (this._isFilterExpressionNode(maybeExpression)) {
-      return maybeExpression;
+      return context === 'root' && this._sealedWhereValues.size > 0
+        ? applySealedFilterValues(maybeExpression, this._sealedWhereValues)
+        : maybeExpression;
     }
 
     if (this._isPredicateWhereClause(maybeExpression)) {
@@ -2180,8 +2530,14 @@ export class GelRelationalQuery<
   private _buildBasePipelineStream(
     queryConfig: {
       index?: { name: string; filters: FilterExpression<boolean>[] };
+      probeFilters?: FilterExpression<boolean>[][];
+      geoIndexField?: string;
       postFilters: FilterExpression<boolean>[];
-      order?: { direction: 'asc' | 'desc'; field: string }[];
+      order?: {
+        direction: 'asc' | 'desc';
+        field: string;
+        distanceFrom?: GeoPoint;
+      }[];
     },
     wherePredicate: ((row: any) => boolean | Promise<boolean>) | undefined,
     configuredIndex?: PredicateWhereIndexConfig<TTableConfig>
@@ -2195,7 +2551,16 @@ export class GelRelationalQuery<
     const primaryOrder = queryConfig.order?.[0];
     const primaryOrderDirection = primaryOrder?.direction ?? 'asc';
 
-    if (queryConfig.index) {
+    if (queryConfig.index && queryConfig.geoIndexField) {
+      streamQuery = this._buildGeoProbeStream(
+        {
+          index: queryConfig.index,
+          probeFilters: queryConfig.probeFilters ?? [],
+          geoIndexField: queryConfig.geoIndexField,
+        },
+        primaryOrderDirection
+      );
+    } else if (queryConfig.index) {
       streamQuery = streamQuery.withIndex(
         queryConfig.index.name as any,
         (q: any) => {
@@ -2223,7 +2588,11 @@ export class GelRelationalQuery<
       }
     }
 
-    streamQuery = streamQuery.order(primaryOrderDirection);
+    streamQuery = this._countScannedStream(
+      queryConfig.geoIndexField
+        ? streamQuery
+        : streamQuery.order(primaryOrderDirection)
+    );
 
     if (queryConfig.postFilters.length > 0 || wherePredicate) {
       streamQuery = streamQuery.filterWith(async (row: any) => {
@@ -2242,6 +2611,37 @@ export class GelRelationalQuery<
     return streamQuery;
   }
 
+  /**
+   * near/within over a geoIndex(): one index range per covering geohash cell,
+   * merged in geohash order so cursors stay stable across probes.
+   */
+  private _buildGeoProbeStream(
+    queryConfig: {
+      index: { name: string };
+      probeFilters: FilterExpression<boolean>[][];
+      geoIndexField: string;
+    },
+    direction: 'asc' | 'desc'
+  ): QueryStream<any> {
+    const schemaDefinition = this._getSchemaDefinitionOrThrow();
+    const streams = queryConfig.probeFilters.map((probeFilters) =>
+      stream(this.db as GenericDatabaseReader<any>, schemaDefinition)
+        .query(this.tableConfig.name as any)
+        .withIndex(queryConfig.index.name as any, (q: any) => {
+          let indexQuery = q;
+          for (const filter of probeFilters) {
+            indexQuery = this._applyFilterToQuery(indexQuery, filter);
+          }
+          return indexQuery;
+        })
+        .order(direction)
+    );
+    if (streams.length === 1) {
+      return streams[0]!;
+    }
+    return mergedStream(streams, [queryConfig.geoIndexField]);
+  }
+
   private _buildUnionSourceStream(
     source: FindManyUnionSource<TTableConfig>,
     fallbackOrder: 'asc' | 'desc'
@@ -2267,7 +2667,7 @@ export class GelRelationalQuery<
       );
     }
 
-    sourceStream = sourceStream.order(fallbackOrder);
+    sourceStream = this._countScannedStream(sourceStream.order(fallbackOrder));
 
     const sourcePredicate = this._buildTableFilterPredicate(
       source.where,
@@ -2277,6 +2677,16 @@ export class GelRelationalQuery<
       sourceStream = sourceStream.filterWith(sourcePredicate);
     }
 
+    const softDeleteFilter = this._getSoftDeleteFilter(
+      this.tableConfig,
+      this.config
+    );
+    if (softDeleteFilter) {
+      sourceStream = sourceStream.filterWith(async (row: any) =>
+        this._evaluatePostFetchFilter(row, softDeleteFilter)
+      );
+    }
+
     return sourceStream;
   }
 
@@ -2291,11 +2701,6 @@ export class GelRelationalQuery<
         `Pipeline flatMap relation '${relationName}' not found on table '${this.tableConfig.name}'.`
       );
     }
-    if (edge.through) {
-      throw new Error(
-        `Pipeline flatMap does not yet support through() relations for '${relationName}'.`
-      );
-    }
 
     const sourceFields =
       edge.cardinality === 'one'
@@ -2335,11 +2740,41 @@ export class GelRelationalQuery<
         ) as string | null);
     const outerOrder = sourceStream.getOrder();
     const schemaDefinition = this._getSchemaDefinitionOrThrow();
-    const innerIndexFields = getIndexFields(
+    const targetIndexFields = getIndexFields(
       edge.targetTable as any,
       ((indexName ?? 'by_creation_time') as any) ?? 'by_creation_time',
       schemaDefinition as any
     );
+
+    // through() relations hop parent -> junction rows -> targets, so the
+    // inner stream is keyed by the junction index first, then the target's.
+    const through = edge.through;
+    let throughTableConfig: TableRelationalConfig | undefined;
+    let throughIndexName: string | null = null;
+    let throughIndexFields: string[] = [];
+    if (through) {
+      throughTableConfig = this._getTableConfigByDbName(through.table);
+      if (!throughTableConfig) {
+        throw new Error(
+          `Pipeline flatMap through table '${through.table}' not found.`
+        );
+      }
+      throughIndexName = findRelationIndex(
+        throughTableConfig.table as any,
+        through.sourceFields,
+        `${this.tableConfig.name}.${relationName}`,
+        through.table,
+        strict,
+        this.allowFullScan
+      ) as string | null;
+      throughIndexFields = getIndexFields(
+        through.table as any,
+        (throughIndexName ?? 'by_creation_time') as any,
+        schemaDefinition as any
+      );
+    }
+    const innerIndexFields = [...throughIndexFields, ...targetIndexFields];
+
     const stageWherePredicate = this._buildTableFilterPredicate(
       stage.where,
       targetTableConfig
@@ -2351,23 +2786,73 @@ export class GelRelationalQuery<
       context: `pipeline.flatMap(${relationName})`,
     });
 
+    const queryByFields = (
+      table: string,
+      index: string | null,
+      fields: string[],
+      values: unknown[]
+    ) => {
+      let query: any = stream(
+        this.db as GenericDatabaseReader<any>,
+        schemaDefinition
+      ).query(table as any);
+      if (index) {
+        query = query.withIndex(index as any, (q: any) =>
+          this._applyEqBounds(q, fields, values)
+        );
+      } else {
+        query = query.filterWith(async (row: any) =>
+          fields.every((field, i) => row[field] === values[i])
+        );
+      }
+      return query.order(outerOrder);
+    };
+
     return sourceStream.flatMap(async (parent: any) => {
       const values = sourceFields.map((field) => parent[field]);
       if (values.some((value) => value === null || value === undefined)) {
         return new EmptyStream<any>(outerOrder, innerIndexFields);
       }
 
-      let inner: any = stream(
-        this.db as GenericDatabaseReader<any>,
-        schemaDefinition
-      ).query(edge.targetTable as any);
-
-      if (indexName) {
-        inner = inner.withIndex(indexName as any, (q: any) =>
-          this._applyEqBounds(q, targetFields, values)
+      let inner: any;
+      if (through) {
+        inner = queryByFields(
+          through.table,
+          throughIndexName,
+          through.sourceFields,
+          values
+        )
+          .filterWith(
+            async (row: any) =>
+              this._applySoftDeleteFilter([row], throughTableConfig!, undefined)
+                .length > 0
+          )
+          .flatMap(async (junctionRow: any) => {
+            const targetValues = through.targetFields.map(
+              (field) => junctionRow[field]
+            );
+            if (
+              targetValues.some(
+                (value) => value === null || value === undefined
+              )
+            ) {
+              return new EmptyStream<any>(outerOrder, targetIndexFields);
+            }
+            return queryByFields(
+              edge.targetTable,
+              indexName,
+              targetFields,
+              targetValues
+            );
+          }, targetIndexFields);
+      } else {
+        inner = queryByFields(
+          edge.targetTable,
+          indexName,
+          targetFields,
+          values
         );
       }
-      inner = inner.order(outerOrder);
 
       if (stageWherePredicate) {
         inner = inner.filterWith(stageWherePredicate);
@@ -2473,6 +2958,40 @@ export class GelRelationalQuery<
     );
   }
 
+  private _getCountSoftDeleteScope(
+    config: unknown
+  ): 'live' | 'deleted' | undefined {
+    const scope = this._getSoftDeleteScope(this.tableConfig, config);
+    if (!scope) {
+      return;
+    }
+    // Bucket reads can only see deletionTime through an aggregateIndex.
+    // Without one, default counts include soft-deleted rows.
+    const indexed = getAggregateIndexDefinitions(this.tableConfig).some(
+      (definition) =>
+        !definition.bucket && definition.fields.includes('deletionTime')
+    );
+    if (indexed) {
+      return scope;
+    }
+    if (scope === 'deleted') {
+      throw createCountError(
+        COUNT_ERROR.NOT_INDEXED,
+        `count({ onlyDeleted }) on '${this.tableConfig.name}' needs an aggregateIndex that includes deletionTime. Add one and run aggregateBackfill.`
+      );
+    }
+    return;
+  }
+
+  private _withLiveRowsWhere(where: unknown): Record<string, unknown> {
+    // Aggregate buckets key missing fields apart from null; live rows can
+    // carry either, so match both.
+    return {
+      ...(where as Record<string, unknown>),
+      deletionTime: { in: [null, undefined] },
+    };
+  }
+
   private _coerceAggregateReturnValue(
     fieldName: string,
     value: unknown
@@ -2914,15 +3433,34 @@ export class GelRelationalQuery<
     const normalizedWhere = this._isEmptyWhere(windowConfig.where)
       ? {}
       : windowConfig.where;
+    const softDeleteScope = this._getCountSoftDeleteScope(config);
+    const liveWhere = softDeleteScope
+      ? this._withLiveRowsWhere(normalizedWhere)
+      : normalizedWhere;
+    // onlyDeleted counts are derived: all matching rows minus live rows.
+    const countScoped = async (
+      read: (where: unknown) => Promise<number>
+    ): Promise<number> => {
+      const live = await read(liveWhere);
+      if (softDeleteScope !== 'deleted') {
+        return live;
+      }
+      return (await read(normalizedWhere)) - live;
+    };
+
     const select = this._coerceCountSelect(config.select);
     if (!select) {
-      const total = await this._executeCountScalar(normalizedWhere);
+      const total = await countScoped((where) =>
+        this._executeCountScalar(where)
+      );
       return this._applyCountWindowBounds(total, windowConfig);
     }
 
     const result: Record<string, number> = {};
     if (select.all) {
-      const total = await this._executeCountScalar(normalizedWhere);
+      const total = await countScoped((where) =>
+        this._executeCountScalar(where)
+      );
       result._all = this._applyCountWindowBounds(total, windowConfig);
     }
 
@@ -2935,16 +3473,18 @@ export class GelRelationalQuery<
 
     const fieldEntries = await Promise.all(
       select.fields.map(async (field) => {
-        const plan = compileCountFieldQueryPlan(
-          this.tableConfig,
-          normalizedWhere,
-          field
-        );
-        if (isAggregatePlanZero(plan)) {
-          return [field, 0] as const;
-        }
-        await this._ensureCountIndexReadyOnce(plan.tableName, plan.indexName);
-        const value = await readCountFieldFromBuckets(this.db as any, plan);
+        const value = await countScoped(async (where) => {
+          const plan = compileCountFieldQueryPlan(
+            this.tableConfig,
+            where,
+            field
+          );
+          if (isAggregatePlanZero(plan)) {
+            return 0;
+          }
+          await this._ensureCountIndexReadyOnce(plan.tableName, plan.indexName);
+          return await readCountFieldFromBuckets(this.db as any, plan);
+        });
         return [field, value] as const;
       })
     );
@@ -3074,6 +3614,8 @@ export class GelRelationalQuery<
       'skip',
       'take',
       'cursor',
+      'withDeleted',
+      'onlyDeleted',
       '_count',
       '_sum',
       '_avg',
@@ -3093,8 +3635,19 @@ export class GelRelationalQuery<
 
     const window = this._coerceAggregateWindowConfig(config);
 
+    const softDeleteScope = this._getSoftDeleteScope(this.tableConfig, config);
+    if (softDeleteScope === 'deleted') {
+      throw createAggregateError(
+        AGGREGATE_ERROR.ARGS_UNSUPPORTED,
+        'aggregate({ onlyDeleted }) is not supported in v1. Use count({ onlyDeleted: true }).'
+      );
+    }
+    const where = this._isEmptyWhere(window.where) ? {} : window.where;
+
     const normalized = {
-      where: this._isEmptyWhere(window.where) ? {} : window.where,
+      where: this._getCountSoftDeleteScope(config)
+        ? this._withLiveRowsWhere(where)
+        : where,
       window,
       count: this._coerceAggregateCountSelection(config._count),
       sumFields:
@@ -3265,7 +3818,14 @@ export class GelRelationalQuery<
                 plan,
                 bucketReadCache
               );
-              return [field, value] as const;
+              return [
+                field,
+                hydrateAggregateNumericValue(
+                  this.tableConfig.table as any,
+                  field,
+                  value
+                ),
+              ] as const;
             })
           );
           result._sum = Object.fromEntries(sumEntries);
@@ -3295,7 +3855,14 @@ export class GelRelationalQuery<
                 plan,
                 bucketReadCache
               );
-              return [field, value] as const;
+              return [
+                field,
+                hydrateAggregateNumericValue(
+                  this.tableConfig.table as any,
+                  field,
+                  value
+                ),
+              ] as const;
             })
           );
           result._avg = Object.fromEntries(avgEntries);
@@ -3730,14 +4297,31 @@ export class GelRelationalQuery<
     return 0;
   }
 
+  /** decimal() _sum/_avg results are strings; order them numerically. */
+  private _toGroupByOrderValue(path: string[], value: unknown): unknown {
+    if (
+      (path[0] === '_sum' || path[0] === '_avg') &&
+      typeof value === 'string'
+    ) {
+      return Number(value);
+    }
+    return value;
+  }
+
   private _compareGroupByRows(
     left: Record<string, unknown>,
     right: Record<string, unknown>,
     specs: GroupByOrderSpec[]
   ): number {
     for (const spec of specs) {
-      const leftValue = this._readGroupByPathValue(left, spec.path).value;
-      const rightValue = this._readGroupByPathValue(right, spec.path).value;
+      const leftValue = this._toGroupByOrderValue(
+        spec.path,
+        this._readGroupByPathValue(left, spec.path).value
+      );
+      const rightValue = this._toGroupByOrderValue(
+        spec.path,
+        this._readGroupByPathValue(right, spec.path).value
+      );
       const compared = this._compareGroupByValues(
         leftValue,
         rightValue,
@@ -4464,6 +5048,7 @@ export class GelRelationalQuery<
       'take',
       'cursor',
       'having',
+      'withDeleted',
     ]);
     for (const [key, value] of Object.entries(
       config as Record<string, unknown>
@@ -4486,6 +5071,7 @@ export class GelRelationalQuery<
     const by = this._coerceGroupByByFields(config.by);
     const aggregate = this._coerceAggregateConfig({
       where: config.where,
+      withDeleted: config.withDeleted,
       _count: config._count,
       _sum: config._sum,
       _avg: config._avg,
@@ -4594,9 +5180,173 @@ export class GelRelationalQuery<
     return config;
   }
 
-  private async _executeGroupBy(
-    config: any
+  private _isTimeSeriesGroupBy(config: any): boolean {
+    return (
+      !!config &&
+      typeof config === 'object' &&
+      !!config.by &&
+      typeof config.by === 'object' &&
+      !Array.isArray(config.by)
+    );
+  }
+
+  /**
+   * groupBy({ by: { field: unit } }): one row per calendar bucket between the
+   * where bounds, read from a bucketed aggregateIndex. Gaps are zero-filled.
+   */
+  private async _executeTimeSeriesGroupBy(
+    config: Record<string, any>
   ): Promise<Record<string, unknown>[]> {
+    const byEntries = Object.entries(
+      config.by as Record<string, unknown>
+    ).filter(([, unit]) => unit !== undefined);
+    if (byEntries.length !== 1 || !isAggregateBucketUnit(byEntries[0]![1])) {
+      throw createAggregateError(
+        AGGREGATE_ERROR.ARGS_UNSUPPORTED,
+        "groupBy({ by: { field: unit } }) requires exactly one time field with 'hour', 'day', 'week', or 'month'."
+      );
+    }
+    const [rawField, unit] = byEntries[0] as [string, AggregateBucketUnit];
+    const label = `groupBy({ by: { ${rawField}: '${unit}' } })`;
+
+    for (const key of ['_min', '_max', 'skip', 'take', 'cursor', 'having']) {
+      if (config[key] !== undefined) {
+        throw createAggregateError(
+          AGGREGATE_ERROR.ARGS_UNSUPPORTED,
+          `${label} does not support '${key}' in v1.`
+        );
+      }
+    }
+
+    let direction: 'asc' | 'desc' = 'asc';
+    if (config.orderBy !== undefined) {
+      const orderEntries =
+        config.orderBy && typeof config.orderBy === 'object'
+          ? Object.entries(config.orderBy)
+          : [];
+      if (
+        orderEntries.length !== 1 ||
+        orderEntries[0]![0] !== rawField ||
+        !this._isGroupByOrderDirection(orderEntries[0]![1])
+      ) {
+        throw createAggregateError(
+          AGGREGATE_ERROR.ARGS_UNSUPPORTED,
+          `${label} only supports orderBy: { ${rawField}: 'asc' | 'desc' }.`
+        );
+      }
+      direction = orderEntries[0]![1] as 'asc' | 'desc';
+    }
+
+    const aggregate = this._coerceAggregateConfig({
+      where: config.where,
+      withDeleted: config.withDeleted,
+      _count: config._count,
+      _sum: config._sum,
+      _avg: config._avg,
+    });
+    ensureAggregateAllowedForRls(
+      this.tableConfig,
+      this.rls?.mode as any,
+      'groupBy()'
+    );
+
+    const countFields =
+      aggregate.count && aggregate.count !== true ? aggregate.count.fields : [];
+    const timeSeries = compileTimeSeriesQueryPlan(
+      this.tableConfig,
+      aggregate.where,
+      {
+        field: rawField,
+        unit,
+        metrics: [
+          ...(aggregate.count ? [{ kind: 'count' as const }] : []),
+          ...countFields.map((field) => ({
+            kind: 'countField' as const,
+            field,
+          })),
+          ...aggregate.sumFields.map((field) => ({
+            kind: 'sum' as const,
+            field,
+          })),
+          ...aggregate.avgFields.map((field) => ({
+            kind: 'avg' as const,
+            field,
+          })),
+        ],
+      }
+    );
+    await this._ensureAggregateIndexReadyOnce(
+      timeSeries.plan.tableName,
+      timeSeries.plan.indexName
+    );
+    const totalsByStart = await readTimeSeriesFromBuckets(
+      this.db as any,
+      timeSeries
+    );
+
+    const bucketField = timeSeries.bucket.field;
+    const table = this.tableConfig.table as any;
+    const rows = timeSeries.series.map((start) => {
+      const totals = totalsByStart.get(start);
+      const row: Record<string, unknown> = {
+        [rawField]:
+          bucketField === INTERNAL_CREATION_TIME_FIELD
+            ? start
+            : this._coerceAggregateReturnValue(bucketField, start),
+      };
+      if (aggregate.count === true) {
+        row._count = totals?.count ?? 0;
+      } else if (aggregate.count) {
+        const countResult: Record<string, number> = {};
+        if (aggregate.count.all) {
+          countResult._all = totals?.count ?? 0;
+        }
+        for (const field of countFields) {
+          countResult[field] = totals?.nonNullCountValues[field] ?? 0;
+        }
+        row._count = countResult;
+      }
+      if (aggregate.sumFields.length > 0) {
+        row._sum = Object.fromEntries(
+          aggregate.sumFields.map((field) => [
+            field,
+            hydrateAggregateNumericValue(
+              table,
+              field,
+              totals?.sumValues[field] ?? 0
+            ),
+          ])
+        );
+      }
+      if (aggregate.avgFields.length > 0) {
+        row._avg = Object.fromEntries(
+          aggregate.avgFields.map((field) => {
+            const nonNull = totals?.nonNullCountValues[field] ?? 0;
+            return [
+              field,
+              hydrateAggregateNumericValue(
+                table,
+                field,
+                nonNull > 0
+                  ? Number(totals!.sumValues[field] ?? 0) / nonNull
+                  : null
+              ),
+            ];
+          })
+        );
+      }
+      return row;
+    });
+
+    return direction === 'desc' ? rows.reverse() : rows;
+  }
+
+  private async _executeGroupBy(
+    config: any
+  ): Promise<Record<string, unknown>[]> {
+    if (this._isTimeSeriesGroupBy(config)) {
+      return await this._executeTimeSeriesGroupBy(config);
+    }
     const normalized = this._coerceGroupByConfig(config);
     ensureAggregateAllowedForRls(
       this.tableConfig,
@@ -4658,8 +5408,14 @@ export class GelRelationalQuery<
       rows = rows.filter((row) => {
         for (let index = 0; index < normalized.orderSpecs.length; index += 1) {
           const spec = normalized.orderSpecs[index]!;
-          const rowValue = this._readGroupByPathValue(row, spec.path).value;
-          const cursorValue = groupByCursorValues[index];
+          const rowValue = this._toGroupByOrderValue(
+            spec.path,
+            this._readGroupByPathValue(row, spec.path).value
+          );
+          const cursorValue = this._toGroupByOrderValue(
+            spec.path,
+            groupByCursorValues[index]
+          );
           const compared = this._compareGroupByValues(
             rowValue,
             cursorValue,
@@ -4683,12 +5439,700 @@ export class GelRelationalQuery<
     return rows;
   }
 
+  private async _executeHybridSearch(config: any): Promise<TResult> {
+    const hybridConfig = config.hybridSearch as {
+      search: {
+        index: string;
+        query: string;
+        filters?: Record<string, unknown>;
+      };
+      vector: {
+        index: string;
+        vector: number[];
+        limit: number;
+        filter?: ((q: any) => unknown) | undefined;
+      };
+      fusion?: HybridSearchFusion;
+      limit: number;
+    };
+    for (const key of [
+      'search',
+      'vectorSearch',
+      'where',
+      'orderBy',
+      'cursor',
+      'maxScan',
+      'offset',
+      'limit',
+      'pipeline',
+      'pageByKey',
+    ]) {
+      if (config[key] !== undefined) {
+        throw new Error(`hybridSearch cannot be combined with ${key}.`);
+      }
+    }
+    if (this.configuredIndex !== undefined) {
+      throw new Error('hybridSearch cannot be combined with withIndex().');
+    }
+    if (!hybridConfig?.search || !hybridConfig.vector) {
+      throw new Error('hybridSearch requires both search and vector.');
+    }
+    if (
+      !Number.isInteger(hybridConfig.limit) ||
+      hybridConfig.limit < 1 ||
+      hybridConfig.limit > 256
+    ) {
+      throw new Error(
+        'hybridSearch.limit must be an integer between 1 and 256.'
+      );
+    }
+    const candidateLimit = hybridConfig.vector.limit;
+    if (!Array.isArray(hybridConfig.vector.vector)) {
+      throw new Error(
+        'hybridSearch.vector.vector must be an array of numbers.'
+      );
+    }
+    if (
+      !Number.isInteger(candidateLimit) ||
+      candidateLimit < 1 ||
+      candidateLimit > 256
+    ) {
+      throw new Error(
+        'hybridSearch.vector.limit must be an integer between 1 and 256.'
+      );
+    }
+    if (!this.vectorSearchProvider) {
+      throw new Error(
+        'hybridSearch is not configured. Pass { vectorSearch: ctx.vectorSearch } to orm.db(ctx, ...).'
+      );
+    }
+
+    const searchIndex = findSearchIndexByName(
+      this.tableConfig.table as any,
+      hybridConfig.search.index
+    );
+    if (!searchIndex) {
+      throw new Error(
+        `Search index '${hybridConfig.search.index}' was not found on table '${this.tableConfig.name}'.`
+      );
+    }
+    if (
+      !findVectorIndexByName(
+        this.tableConfig.table as any,
+        hybridConfig.vector.index
+      )
+    ) {
+      throw new Error(
+        `Vector index '${hybridConfig.vector.index}' was not found on table '${this.tableConfig.name}'.`
+      );
+    }
+
+    const searchFilters = this._mergeSearchFiltersWithWhereEq(
+      hybridConfig.search.filters,
+      undefined,
+      this.tableConfig,
+      new Set(searchIndex.filterFields)
+    );
+    const searchRows: any[] = await this.db
+      .query(this.tableConfig.name as any)
+      .withSearchIndex(hybridConfig.search.index as any, (q: any) => {
+        let builder = q.search(
+          searchIndex.searchField as any,
+          hybridConfig.search.query
+        );
+        for (const [field, value] of Object.entries(searchFilters)) {
+          builder = builder.eq(field as any, value);
+        }
+        return builder;
+      })
+      .take(candidateLimit);
+    this._countScanned(searchRows);
+    const vectorHits = await this.vectorSearchProvider(
+      this.tableConfig.name as string,
+      hybridConfig.vector.index,
+      {
+        vector: hybridConfig.vector.vector,
+        limit: candidateLimit,
+        filter: hybridConfig.vector.filter,
+      }
+    );
+
+    this._countScanned(vectorHits);
+
+    const fused = fuseHybridRankings(
+      {
+        search: searchRows.map((row) => String(row._id)),
+        vector: vectorHits.map((hit) => String(hit._id)),
+      },
+      hybridConfig.fusion
+    );
+    const searchRowsById = new Map(
+      searchRows.map((row) => [String(row._id), row])
+    );
+    const fetched = await this._mapWithConcurrency(fused, async (hit) => {
+      const row =
+        searchRowsById.get(hit.id) ?? (await this.db.get(hit.id as any));
+      return row ? { ...row, _score: hit.score, _ranks: hit.ranks } : null;
+    });
+
+    let rows = fetched.filter((row): row is any => !!row);
+    rows = this._applySoftDeleteFilter(rows, this.tableConfig, config);
+    rows = await this._applyRlsSelectFilter(rows, this.tableConfig);
+    rows = rows.slice(0, hybridConfig.limit);
+
+    const selectedRows = await this._finalizeRows(rows);
+    return this._returnSelectedRows(selectedRows);
+  }
+
+  /**
+   * Describe how execute() reads this query: strategy, index range,
+   * post-filters, in-memory sorts, and relation loading. `analyze: true` also
+   * runs the query and reports scanned vs returned rows and relation fan-out.
+   */
+  async explain(options: OrmQueryExplainOptions = {}): Promise<OrmQueryPlan> {
+    if (
+      this.mode !== 'many' &&
+      this.mode !== 'first' &&
+      this.mode !== 'firstOrThrow'
+    ) {
+      throw new Error(
+        'explain() supports findMany(), findFirst(), and findFirstOrThrow().'
+      );
+    }
+    await this._applyTenantWhere();
+    await this._sealEncryptedWhereValues((this.config as any).where);
+    const plan = this._buildQueryPlan();
+    if (!options.analyze) {
+      return plan;
+    }
+
+    const stats: OrmQueryExplainStats = { scanned: 0, relations: new Map() };
+    this._explainStats = stats;
+    let result: unknown;
+    try {
+      result = await this.execute();
+    } finally {
+      this._explainStats = undefined;
+    }
+
+    let returned = result ? 1 : 0;
+    if (Array.isArray(result)) {
+      returned = result.length;
+    } else if (this.mode === 'many' && this._isRecord(result)) {
+      returned = Array.isArray(result.page) ? result.page.length : 0;
+    }
+    const attachFanOut = (
+      relations: OrmQueryPlanRelation[],
+      tableName: string,
+      depth: number
+    ) => {
+      for (const relation of relations) {
+        relation.fanOut = stats.relations.get(
+          relationStatsKey(depth, tableName, relation.name)
+        ) ?? { parents: 0, rows: 0 };
+        attachFanOut(relation.relations, relation.table, depth + 1);
+      }
+    };
+    attachFanOut(plan.relations, this.tableConfig.name, 0);
+
+    return { ...plan, rows: { scanned: stats.scanned, returned } };
+  }
+
+  /** Mirrors the branch order of execute() without reading any rows. */
+  private _buildQueryPlan(): OrmQueryPlan {
+    const config = this.config as any;
+    const configuredIndex = this.configuredIndex;
+    const isCursorPaginated = config.cursor !== undefined;
+    const defaultLimit =
+      getOrmContext(this.db)?.resolvedDefaults?.defaultLimit ??
+      this.tableConfig.defaults?.defaultLimit;
+    const plan: OrmQueryPlan = {
+      table: this.tableConfig.name,
+      mode: this.mode as OrmQueryPlan['mode'],
+      strategy: 'fullScan',
+      index: null,
+      range: [],
+      probes: [],
+      postFilters: [],
+      order: [],
+      fullScan: false,
+      union: null,
+      limit: config.limit ?? (isCursorPaginated ? null : defaultLimit) ?? null,
+      relations: this._buildRelationPlans(config.with, this.edgeMetadata),
+    };
+
+    if (config.hybridSearch !== undefined) {
+      const hybrid = config.hybridSearch;
+      return {
+        ...plan,
+        strategy: 'hybridSearch',
+        index: hybrid.search?.index ?? null,
+        union: {
+          sources: [hybrid.search?.index, hybrid.vector?.index].filter(Boolean),
+          interleaveBy: ['_score'],
+        },
+        limit: hybrid.limit ?? null,
+      };
+    }
+    if (config.vectorSearch !== undefined) {
+      return {
+        ...plan,
+        strategy: 'vectorSearch',
+        index: config.vectorSearch.index,
+        limit: config.vectorSearch.limit ?? null,
+      };
+    }
+
+    let wherePredicate = false;
+    let whereExpressionFromCallback: FilterExpression<boolean> | undefined;
+    let whereFilter: RelationsFilter<any, any> | undefined;
+    if (typeof config.where === 'function') {
+      const callbackExpression = this._resolveWhereCallbackExpression(
+        config.where,
+        this.tableConfig,
+        { context: 'root' }
+      );
+      if (this._isPredicateWhereClause(callbackExpression)) {
+        wherePredicate = true;
+      } else {
+        whereExpressionFromCallback = callbackExpression;
+      }
+    } else {
+      whereFilter = config.where;
+    }
+    const relationFilters = this._isRecord(whereFilter)
+      ? Object.keys(whereFilter)
+          .filter((key) =>
+            this.edgeMetadata.some((edge) => edge.edgeName === key)
+          )
+          .map((key) => `relation(${key})`)
+      : [];
+    const softDeleteFilter = this._getSoftDeleteFilter(
+      this.tableConfig,
+      config
+    );
+    const wherePostFilters = () => {
+      const expression = this._isRecord(whereFilter)
+        ? this._buildFilterExpression(whereFilter, this.tableConfig)
+        : undefined;
+      return [
+        ...(expression ? [formatFilterExpression(expression)] : []),
+        ...(softDeleteFilter ? [formatFilterExpression(softDeleteFilter)] : []),
+        ...relationFilters,
+      ];
+    };
+
+    if (config.search !== undefined) {
+      const searchIndex = findSearchIndexByName(
+        this.tableConfig.table as any,
+        config.search.index
+      );
+      const filters = searchIndex
+        ? this._mergeSearchFiltersWithWhereEq(
+            config.search.filters,
+            whereFilter,
+            this.tableConfig,
+            new Set(searchIndex.filterFields)
+          )
+        : (config.search.filters ?? {});
+      return {
+        ...plan,
+        strategy: 'search',
+        index: config.search.index,
+        range: Object.entries(filters).map(([field, value]) => ({
+          field,
+          op: 'eq' as const,
+          value,
+        })),
+        postFilters: wherePostFilters(),
+      };
+    }
+
+    const idLookup = this._extractIdOnlyWhere(whereFilter);
+    if (idLookup && !isCursorPaginated && configuredIndex === undefined) {
+      const ids = idLookup.kind === 'in' ? idLookup.ids : [idLookup.id];
+      const bounds = ids.map((value) => [
+        { field: PUBLIC_ID_FIELD, op: 'eq' as const, value },
+      ]);
+      return {
+        ...plan,
+        strategy: 'idLookup',
+        range: bounds.length === 1 ? bounds[0]! : [],
+        probes: bounds.length === 1 ? [] : bounds,
+        postFilters: softDeleteFilter
+          ? [formatFilterExpression(softDeleteFilter)]
+          : [],
+        order: this._orderBySpecs(config.orderBy).map((order) => ({
+          ...order,
+          source: 'sort' as const,
+        })),
+      };
+    }
+
+    if (config.pageByKey) {
+      return {
+        ...plan,
+        strategy: 'pageByKey',
+        index: config.pageByKey.index ?? 'by_creation_time',
+        postFilters: wherePostFilters(),
+        limit: config.pageByKey.targetMaxRows ?? null,
+      };
+    }
+
+    const queryConfig = this._toConvexQuery(whereExpressionFromCallback);
+    const postFilters = [
+      ...queryConfig.postFilters.map((filter) =>
+        formatFilterExpression(filter)
+      ),
+      ...(wherePredicate ? ['predicate(...)'] : []),
+      ...relationFilters,
+    ];
+    const orders = queryConfig.order ?? [];
+    const withOrder = (primarySource: 'index' | 'sort'): OrmQueryPlanOrder[] =>
+      orders.map((order, index) => ({
+        ...order,
+        source: index === 0 ? primarySource : 'sort',
+      }));
+    const primaryOrder = orders[0];
+    const configuredRange = this._planIndexRange(configuredIndex?.range);
+
+    if (config.pipeline || config.endCursor !== undefined) {
+      const unionSources = config.pipeline?.union ?? [];
+      if (unionSources.length > 0) {
+        return {
+          ...plan,
+          strategy: 'stream',
+          index: configuredIndex?.name ?? null,
+          range: configuredRange,
+          fullScan: configuredRange.length === 0,
+          union:
+            unionSources.length > 1
+              ? {
+                  sources: unionSources.map(
+                    (_source: unknown, index: number) => `union[${index}]`
+                  ),
+                  interleaveBy: config.pipeline.interleaveBy ?? [],
+                }
+              : null,
+          postFilters: unionSources
+            .map((source: FindManyUnionSource<TTableConfig>) =>
+              this._isRecord(source.where)
+                ? this._buildFilterExpression(
+                    source.where as RelationsFilter<any, any>,
+                    this.tableConfig
+                  )
+                : undefined
+            )
+            .filter(Boolean)
+            .map((expression: FilterExpression<boolean>) =>
+              formatFilterExpression(expression)
+            ),
+          order: withOrder('index'),
+        };
+      }
+      const orderIndex =
+        primaryOrder && primaryOrder.field !== '_creationTime'
+          ? getIndexes(this.tableConfig.table).find(
+              (idx) => idx.fields[0] === primaryOrder.field
+            )
+          : undefined;
+      const range = queryConfig.index
+        ? this._planBounds(queryConfig.index.filters)
+        : configuredRange;
+      return {
+        ...plan,
+        strategy: 'stream',
+        index:
+          queryConfig.index?.name ??
+          configuredIndex?.name ??
+          orderIndex?.name ??
+          null,
+        range,
+        fullScan: range.length === 0,
+        postFilters,
+        order: withOrder('index'),
+      };
+    }
+
+    if (wherePredicate) {
+      return {
+        ...plan,
+        strategy: 'withIndex',
+        index: configuredIndex?.name ?? null,
+        range: configuredRange,
+        fullScan: configuredRange.length === 0,
+        postFilters,
+        order: withOrder(
+          primaryOrder?.field === '_creationTime' ? 'index' : 'sort'
+        ),
+      };
+    }
+
+    if (queryConfig.strategy === 'multiProbe' && queryConfig.index) {
+      if (isCursorPaginated) {
+        return {
+          ...plan,
+          strategy: 'stream',
+          fullScan: true,
+          postFilters,
+          order: withOrder('index'),
+        };
+      }
+      return {
+        ...plan,
+        strategy: 'multiProbe',
+        index: queryConfig.index.name,
+        probes: queryConfig.probeFilters.map((filters) =>
+          this._planBounds(filters)
+        ),
+        postFilters,
+        order: withOrder('sort'),
+      };
+    }
+
+    if (queryConfig.index) {
+      const indexFields = queryConfig.index.filters.map(
+        (filter: any) => filter.operands[0].fieldName
+      );
+      return {
+        ...plan,
+        strategy: 'index',
+        index: queryConfig.index.name,
+        range: this._planBounds(queryConfig.index.filters),
+        postFilters,
+        order: withOrder(
+          primaryOrder &&
+            (indexFields.includes(primaryOrder.field) ||
+              primaryOrder.field === '_creationTime')
+            ? 'index'
+            : 'sort'
+        ),
+      };
+    }
+
+    if (configuredIndex?.name) {
+      return {
+        ...plan,
+        strategy: 'withIndex',
+        index: configuredIndex.name,
+        range: configuredRange,
+        fullScan: configuredRange.length === 0,
+        postFilters,
+        order: withOrder(
+          primaryOrder?.field === '_creationTime' ? 'index' : 'sort'
+        ),
+      };
+    }
+
+    const scanFallback =
+      isCursorPaginated &&
+      config.maxScan !== undefined &&
+      queryConfig.postFilters.some(
+        (filter) => filter !== queryConfig.softDeleteFilter
+      );
+    if (primaryOrder && primaryOrder.field !== '_creationTime') {
+      const orderIndex =
+        getIndexes(this.tableConfig.table).find((idx) =>
+          idx.fields.includes(primaryOrder.field)
+        ) ??
+        this.edgeMetadata.find((idx) =>
+          idx.indexFields.includes(primaryOrder.field)
+        );
+      if (orderIndex && !scanFallback) {
+        return {
+          ...plan,
+          strategy: 'orderIndex',
+          index:
+            'indexName' in orderIndex ? orderIndex.indexName : orderIndex.name,
+          fullScan: true,
+          postFilters,
+          order: withOrder('index'),
+        };
+      }
+    }
+
+    return {
+      ...plan,
+      strategy: scanFallback ? 'stream' : 'fullScan',
+      fullScan: true,
+      postFilters,
+      order: withOrder(
+        !primaryOrder || primaryOrder.field === '_creationTime'
+          ? 'index'
+          : 'sort'
+      ),
+    };
+  }
+
+  private _planBounds(
+    filters: FilterExpression<boolean>[]
+  ): OrmQueryPlanBound[] {
+    return filters.map((filter) => {
+      const [field, value] = (filter as BinaryExpression).operands;
+      return {
+        field: this._toPublicFilterFieldName(field.fieldName),
+        op: filter.operator as OrmQueryPlanBound['op'],
+        value,
+      };
+    });
+  }
+
+  /** Replays a withIndex() range callback against a recording builder. */
+  private _planIndexRange(range: unknown): OrmQueryPlanBound[] {
+    const bounds: OrmQueryPlanBound[] = [];
+    if (typeof range !== 'function') {
+      return bounds;
+    }
+    const recorder: Record<string, unknown> = {};
+    for (const op of ['eq', 'gt', 'gte', 'lt', 'lte'] as const) {
+      recorder[op] = (field: string, value: unknown) => {
+        bounds.push({ field: this._toPublicFilterFieldName(field), op, value });
+        return recorder;
+      };
+    }
+    range(recorder);
+    return bounds;
+  }
+
+  private _buildRelationPlans(
+    withConfig: unknown,
+    edges: EdgeMetadata[],
+    depth = 0
+  ): OrmQueryPlanRelation[] {
+    if (!this._isRecord(withConfig) || depth >= 3) {
+      return [];
+    }
+    const lookupFor = (
+      table: TableRelationalConfig['table'],
+      fields: string[]
+    ): Pick<OrmQueryPlanRelation, 'lookup' | 'index'> => {
+      if (fields.length === 1 && fields[0] === '_id') {
+        return { lookup: 'get', index: null };
+      }
+      const index = findIndexForColumns(getIndexes(table as any), fields);
+      return { lookup: index ? 'index' : 'scan', index };
+    };
+
+    const plans: OrmQueryPlanRelation[] = [];
+    for (const [relationName, relationConfig] of Object.entries(withConfig)) {
+      const edge = edges.find((e) => e.edgeName === relationName);
+      const targetTableConfig = edge
+        ? this._getTableConfigByDbName(edge.targetTable)
+        : undefined;
+      if (relationName === '_count' || !edge || !targetTableConfig) {
+        continue;
+      }
+      const targetFields =
+        edge.targetFields.length > 0
+          ? edge.targetFields
+          : edge.cardinality === 'one'
+            ? ['_id']
+            : [edge.fieldName];
+      const throughTableConfig = edge.through
+        ? this._getTableConfigByDbName(edge.through.table)
+        : undefined;
+      plans.push({
+        name: relationName,
+        table: targetTableConfig.name,
+        cardinality: edge.cardinality,
+        ...lookupFor(targetTableConfig.table, targetFields),
+        ...(edge.through && throughTableConfig
+          ? {
+              through: {
+                table: throughTableConfig.name,
+                index: lookupFor(
+                  throughTableConfig.table,
+                  edge.through.sourceFields
+                ).index,
+              },
+            }
+          : {}),
+        relations: this._buildRelationPlans(
+          (relationConfig as { with?: unknown } | undefined)?.with,
+          this._getTargetTableEdges(edge.targetTable),
+          depth + 1
+        ),
+      });
+    }
+    return plans;
+  }
+
+  /** explain({ analyze }): count root rows read from the database. */
+  private _countScanned<T>(rows: T[]): T[] {
+    if (this._explainStats) {
+      this._explainStats.scanned += rows.length;
+    }
+    return rows;
+  }
+
+  /** explain({ analyze }): count every row a stream reads, before filters. */
+  private _countScannedStream(streamQuery: any): any {
+    const stats = this._explainStats;
+    if (!stats) {
+      return streamQuery;
+    }
+    return streamQuery.filterWith(async () => {
+      stats.scanned += 1;
+      return true;
+    });
+  }
+
+  /**
+   * explain({ analyze }) replacement for query.filter(postFilters).take(n):
+   * the same rows, but post-filters run here so skipped rows are counted.
+   */
+  private async _takeScanned(
+    query: any,
+    postFilters: FilterExpression<boolean>[],
+    count: number | undefined
+  ): Promise<any[]> {
+    const rows: any[] = [];
+    for await (const row of query) {
+      this._explainStats!.scanned += 1;
+      if (
+        postFilters.every((filter) =>
+          this._evaluatePostFetchFilter(row, filter)
+        )
+      ) {
+        rows.push(row);
+        if (count !== undefined && rows.length >= count) {
+          break;
+        }
+      }
+    }
+    return rows;
+  }
+
+  private _recordRelationFanOut(
+    rows: any[],
+    relationName: string,
+    depth: number,
+    tableConfig: TableRelationalConfig
+  ): void {
+    if (!this._explainStats) {
+      return;
+    }
+    const key = relationStatsKey(depth, tableConfig.name, relationName);
+    const entry = this._explainStats.relations.get(key) ?? {
+      parents: 0,
+      rows: 0,
+    };
+    entry.parents += rows.length;
+    for (const row of rows) {
+      const value = row[relationName];
+      entry.rows += Array.isArray(value) ? value.length : value ? 1 : 0;
+    }
+    this._explainStats.relations.set(key, entry);
+  }
+
   /**
    * Execute the query and return results
    * Phase 4 implementation with WhereClauseCompiler integration
    */
   async execute(): Promise<TResult> {
+    await this._applyTenantWhere();
     const config = this.config as any;
+    await this._sealEncryptedWhereValues(config.where);
     if (this.mode === 'count') {
       return (await this._executeCount(config)) as TResult;
     }
@@ -4704,6 +6148,10 @@ export class GelRelationalQuery<
       );
     }
 
+    if (config.hybridSearch !== undefined) {
+      return this._executeHybridSearch(config);
+    }
+
     const cursor = config.cursor as string | null | undefined;
     const isCursorPaginated = cursor !== undefined;
     const endCursor = config.endCursor as string | null | undefined;
@@ -4890,7 +6338,8 @@ export class GelRelationalQuery<
         return this.db.get(id as any);
       });
 
-      let rows = fetched.filter((row): row is any => !!row);
+      let rows = this._countScanned(fetched.filter((row): row is any => !!row));
+      rows = this._applySoftDeleteFilter(rows, this.tableConfig, config);
       rows = await this._applyRlsSelectFilter(rows, this.tableConfig);
 
       if (orderSpecs.length > 0 && rows.length > 1) {
@@ -4936,7 +6385,14 @@ export class GelRelationalQuery<
         } as any
       );
 
-      let rows = await this._applyRlsSelectFilter(page.page, this.tableConfig);
+      let rows = await this._applyRlsSelectFilter(
+        this._applySoftDeleteFilter(
+          this._countScanned(page.page),
+          this.tableConfig,
+          config
+        ),
+        this.tableConfig
+      );
 
       if (whereFilter) {
         rows = await this._applyRelationsFilterToRows(
@@ -5128,13 +6584,14 @@ export class GelRelationalQuery<
         ? new Map(hits.map((hit) => [String((hit as any)._id), hit._score]))
         : undefined;
 
-      let rows = fetched.filter((row): row is any => !!row);
+      let rows = this._countScanned(fetched.filter((row): row is any => !!row));
       if (scoreById) {
         rows = rows.map((row) => {
           const score = scoreById.get(String(row._id));
           return score === undefined ? row : { ...row, _score: score };
         });
       }
+      rows = this._applySoftDeleteFilter(rows, this.tableConfig, config);
       rows = await this._applyRlsSelectFilter(rows, this.tableConfig);
 
       const selectedRows = await this._finalizeRows(rows);
@@ -5195,7 +6652,7 @@ export class GelRelationalQuery<
         new Set(searchIndex.filterFields)
       );
 
-      const searchQuery: any = query.withSearchIndex(
+      let searchQuery: any = query.withSearchIndex(
         searchConfig.index as any,
         (q: any) => {
           let builder = q.search(
@@ -5209,13 +6666,23 @@ export class GelRelationalQuery<
         }
       );
 
+      const softDeleteFilter = this._getSoftDeleteFilter(
+        this.tableConfig,
+        config
+      );
+      if (softDeleteFilter) {
+        searchQuery = searchQuery.filter(
+          this._toConvexExpression(softDeleteFilter)
+        );
+      }
+
       if (isCursorPaginated) {
         const paginationResult = await searchQuery.paginate({
           cursor: cursor ?? null,
           numItems: config.limit,
         } as any);
 
-        let pageRows = paginationResult.page;
+        let pageRows = this._countScanned(paginationResult.page);
         pageRows = await this._applyRlsSelectFilter(pageRows, this.tableConfig);
 
         if (whereFilter) {
@@ -5244,10 +6711,11 @@ export class GelRelationalQuery<
         throw new Error('Only numeric offset is supported in kitcn ORM.');
       }
       const limit = this._resolveNonPaginatedLimit(config);
-      let rows =
+      let rows = this._countScanned(
         limit === undefined
           ? await searchQuery.collect()
-          : await searchQuery.take(offset > 0 ? offset + limit : limit);
+          : await searchQuery.take(offset > 0 ? offset + limit : limit)
+      );
 
       if (offset > 0) {
         rows = rows.slice(offset);
@@ -5405,6 +6873,7 @@ export class GelRelationalQuery<
         streamQuery = streamQuery.order('desc');
       }
 
+      streamQuery = this._countScannedStream(streamQuery);
       streamQuery = streamQuery.filterWith(async (row: any) => {
         for (const filter of queryConfig.postFilters) {
           if (!this._evaluatePostFetchFilter(row, filter)) {
@@ -5514,7 +6983,9 @@ export class GelRelationalQuery<
               return indexQuery;
             });
 
-          if (queryConfig.postFilters.length > 0) {
+          // Post-filters run again below; explain({ analyze }) skips the
+          // database filter so every probed row is counted.
+          if (queryConfig.postFilters.length > 0 && !this._explainStats) {
             probeQuery = probeQuery.filter((q: any) => {
               let result: any | null = null;
               for (const filter of queryConfig.postFilters) {
@@ -5526,7 +6997,7 @@ export class GelRelationalQuery<
             });
           }
 
-          return await probeQuery.collect();
+          return this._countScanned(await probeQuery.collect());
         })
       );
 
@@ -5582,6 +7053,74 @@ export class GelRelationalQuery<
 
     // M6.5 Phase 4: Handle cursor pagination separately
     if (isCursorPaginated) {
+      if (
+        queryConfig.strategy === 'multiProbe' &&
+        queryConfig.index &&
+        queryConfig.geoIndexField
+      ) {
+        // Geohash cells are disjoint index ranges, so the merged stream pages
+        // without a full-table fallback or maxScan.
+        if (queryConfig.order && primaryOrder) {
+          console.warn(
+            'Pagination: near/within queries page in geohash order; orderBy is applied per page.'
+          );
+        }
+        let streamQuery: any = this._countScannedStream(
+          this._buildGeoProbeStream(
+            {
+              index: queryConfig.index,
+              probeFilters: queryConfig.probeFilters,
+              geoIndexField: queryConfig.geoIndexField,
+            },
+            'asc'
+          )
+        );
+        streamQuery = streamQuery.filterWith(async (row: any) =>
+          queryConfig.postFilters.every((filter) =>
+            this._evaluatePostFetchFilter(row, filter)
+          )
+        );
+
+        const paginationResult = await streamQuery.paginate({
+          cursor: cursor ?? null,
+          limit: config.limit,
+          maxScan,
+        });
+
+        let pageRows = await this._applyRlsSelectFilter(
+          paginationResult.page,
+          this.tableConfig
+        );
+
+        if (whereFilter) {
+          pageRows = await this._applyRelationsFilterToRows(
+            pageRows,
+            this.tableConfig,
+            whereFilter,
+            this.edgeMetadata,
+            0,
+            3,
+            this.config.with as Record<string, unknown> | undefined
+          );
+        }
+
+        if (usePostFetchSort && postFetchOrders.length > 0) {
+          pageRows = pageRows.sort((a: any, b: any) =>
+            this._compareByOrderSpecs(a, b, postFetchOrders)
+          );
+        }
+
+        const selectedPage = await this._finalizeRows(pageRows);
+
+        return {
+          page: selectedPage,
+          continueCursor: paginationResult.continueCursor,
+          isDone: paginationResult.isDone,
+          pageStatus: (paginationResult as any).pageStatus,
+          splitCursor: (paginationResult as any).splitCursor,
+        } as TResult;
+      }
+
       if (queryConfig.strategy === 'multiProbe') {
         if (maxScan === undefined) {
           if (strict) {
@@ -5627,6 +7166,7 @@ export class GelRelationalQuery<
           } else {
             streamQuery = streamQuery.order('desc');
           }
+          streamQuery = this._countScannedStream(streamQuery);
 
           if (queryConfig.postFilters.length > 0) {
             streamQuery = streamQuery.filterWith(async (row: any) =>
@@ -5673,7 +7213,12 @@ export class GelRelationalQuery<
         }
       }
 
-      if (!queryConfig.index && queryConfig.postFilters.length > 0) {
+      if (
+        !queryConfig.index &&
+        queryConfig.postFilters.some(
+          (filter) => filter !== queryConfig.softDeleteFilter
+        )
+      ) {
         if (maxScan === undefined) {
           if (strict) {
             throw new Error(
@@ -5715,6 +7260,7 @@ export class GelRelationalQuery<
           } else {
             streamQuery = streamQuery.order('desc');
           }
+          streamQuery = this._countScannedStream(streamQuery);
 
           streamQuery = streamQuery.filterWith(async (row: any) =>
             queryConfig.postFilters.every((filter) =>
@@ -5811,7 +7357,7 @@ export class GelRelationalQuery<
         numItems: config.limit,
       });
 
-      let pageRows = paginationResult.page;
+      let pageRows = this._countScanned(paginationResult.page);
 
       pageRows = await this._applyRlsSelectFilter(pageRows, this.tableConfig);
 
@@ -5836,8 +7382,8 @@ export class GelRelationalQuery<
       } as TResult;
     }
 
-    // Apply post-filters
-    if (queryConfig.postFilters.length > 0) {
+    // Apply post-filters (explain({ analyze }) applies them in _takeScanned)
+    if (queryConfig.postFilters.length > 0 && !this._explainStats) {
       query = query.filter((q: any) => {
         // Combine all post-filters with AND logic
         let result: any | null = null;
@@ -5860,10 +7406,17 @@ export class GelRelationalQuery<
     const limit = this._resolveNonPaginatedLimit(config);
     const paginateAfterPostFetchSort =
       usePostFetchSort && postFetchOrders.length > 0;
-    let rows =
+    const takeCount =
       limit === undefined || paginateAfterPostFetchSort
+        ? undefined
+        : offset > 0
+          ? offset + limit
+          : limit;
+    let rows = this._explainStats
+      ? await this._takeScanned(query, queryConfig.postFilters, takeCount)
+      : takeCount === undefined
         ? await query.collect()
-        : await query.take(offset > 0 ? offset + limit : limit);
+        : await query.take(takeCount);
 
     // Apply offset slicing if needed
     if (!paginateAfterPostFetchSort && offset > 0) {
@@ -5924,8 +7477,14 @@ export class GelRelationalQuery<
     strategy: IndexStrategy;
     index?: { name: string; filters: FilterExpression<boolean>[] };
     probeFilters: FilterExpression<boolean>[][];
+    geoIndexField?: string;
     postFilters: FilterExpression<boolean>[];
-    order?: { direction: 'asc' | 'desc'; field: string }[];
+    softDeleteFilter?: FilterExpression<boolean>;
+    order?: {
+      direction: 'asc' | 'desc';
+      field: string;
+      distanceFrom?: GeoPoint;
+    }[];
   } {
     const config = this.config as any;
 
@@ -5963,14 +7522,34 @@ export class GelRelationalQuery<
       strategy: IndexStrategy;
       index?: { name: string; filters: FilterExpression<boolean>[] };
       probeFilters: FilterExpression<boolean>[][];
+      geoIndexField?: string;
       postFilters: FilterExpression<boolean>[];
-      order?: { direction: 'asc' | 'desc'; field: string }[];
+      softDeleteFilter?: FilterExpression<boolean>;
+      order?: {
+        direction: 'asc' | 'desc';
+        field: string;
+        distanceFrom?: GeoPoint;
+      }[];
     } = {
       table: this.tableConfig.table.tableName,
       strategy: compiled.strategy,
       probeFilters: compiled.probeFilters,
       postFilters: compiled.postFilters,
     };
+    if (compiled.geoIndexField) {
+      result.geoIndexField = compiled.geoIndexField;
+    }
+
+    // Soft-delete scope never drives index selection; it rides along as a
+    // post-filter so limits and pagination only see in-scope rows.
+    const softDeleteFilter = this._getSoftDeleteFilter(
+      this.tableConfig,
+      config
+    );
+    if (softDeleteFilter) {
+      result.postFilters = [...result.postFilters, softDeleteFilter];
+      result.softDeleteFilter = softDeleteFilter;
+    }
 
     // Add index if selected
     if (
@@ -6181,6 +7760,8 @@ export class GelRelationalQuery<
           case 'arrayContains':
           case 'arrayContained':
           case 'arrayOverlaps':
+          case 'near':
+          case 'within':
             // String operators require post-fetch filtering
             // They can't work in Convex filter context (no JavaScript string methods on field expressions)
             // These are handled in _evaluatePostFetchFilter after rows are fetched
@@ -6457,6 +8038,7 @@ export class GelRelationalQuery<
         tableConfig
       );
     }
+    this._recordRelationFanOut(rows, relationName, depth, tableConfig);
   }
 
   private _createRelationCountError(
@@ -6970,6 +8552,11 @@ export class GelRelationalQuery<
       (value): value is any => !!value
     );
 
+    targets = this._applySoftDeleteFilter(
+      targets,
+      targetTableConfig,
+      relationConfig
+    );
     targets = await this._applyRlsSelectFilter(targets, targetTableConfig);
 
     if (relationDefinition?.where) {
@@ -7217,7 +8804,11 @@ export class GelRelationalQuery<
             values,
             throughIndexName
           );
-          const throughRows = await query.collect();
+          const throughRows = this._applySoftDeleteFilter(
+            await query.collect(),
+            throughTableConfig,
+            undefined
+          );
           return { key, rows: throughRows };
         }
       );
@@ -7319,6 +8910,11 @@ export class GelRelationalQuery<
       targets = targetGroups.flat();
     }
 
+    targets = this._applySoftDeleteFilter(
+      targets,
+      targetTableConfig,
+      relationConfig
+    );
     targets = await this._applyRlsSelectFilter(targets, targetTableConfig);
 
     if (relationDefinition?.where) {
@@ -28,6 +28,7 @@ import {
 
 export { OrmSchemaDefinition } from './symbols';
 
+import type { GeoNearFilter, GeoWithinFilter } from './geo';
 import type { ConvexTable } from './table';
 
 // ============================================================================
@@ -600,12 +601,52 @@ export interface RelationsFilterCommons<
     | undefined;
 }
 
+/**
+ * Filter accepted by deterministic encrypted() columns: plaintext equality
+ * only, sealed to ciphertext before the query runs.
+ */
+export type EncryptedFieldFilter<T> =
+  | T
+  | {
+      eq?: T | undefined;
+      ne?: T | undefined;
+      in?: T[] | undefined;
+      notIn?: T[] | undefined;
+      isNull?: true | undefined;
+      isNotNull?: true | undefined;
+    };
+
+type EncryptedColumnFilter<TMode, Data> = 0 extends 1 & TMode
+  ? RelationsFieldFilter<Data>
+  : TMode extends 'deterministic'
+    ? EncryptedFieldFilter<Data>
+    : TMode extends 'randomized'
+      ? never
+      : RelationsFieldFilter<Data>;
+
+/**
+ * Filter accepted by point() columns: proximity and bounding-box operators,
+ * resolved against a geoIndex() when one exists.
+ */
+export type GeoFieldFilter = {
+  near?: GeoNearFilter | undefined;
+  within?: GeoWithinFilter | undefined;
+  isNull?: true | undefined;
+  isNotNull?: true | undefined;
+};
+
+type ColumnFieldFilter<TColumn> = TColumn extends {
+  _: { columnType: 'ConvexPoint' };
+}
+  ? GeoFieldFilter
+  : TColumn extends { _: { data: infer Data } }
+    ? TColumn extends { _: { encrypted: infer TMode } }
+      ? EncryptedColumnFilter<TMode, Data>
+      : RelationsFieldFilter<Data>
+    : RelationsFieldFilter<unknown>;
+
 export type RelationsFilterColumns<TColumns extends Record<string, unknown>> = {
-  [K in keyof TColumns]?:
-    | (TColumns[K] extends { _: { data: infer Data } }
-        ? RelationsFieldFilter<Data>
-        : RelationsFieldFilter<unknown>)
-    | undefined;
+  [K in keyof TColumns]?: ColumnFieldFilter<TColumns[K]> | undefined;
 };
 
 export type FindTargetTableInRelationalConfig<
@@ -654,11 +695,7 @@ export interface TableFilterCommons<
 }
 
 export type TableFilterColumns<TColumns extends Record<string, unknown>> = {
-  [K in keyof TColumns]?:
-    | (TColumns[K] extends { _: { data: infer Data } }
-        ? RelationsFieldFilter<Data>
-        : RelationsFieldFilter<unknown>)
-    | undefined;
+  [K in keyof TColumns]?: ColumnFieldFilter<TColumns[K]> | undefined;
 };
 
 export type TableFilter<
@@ -0,0 +1,320 @@
+import type { GenericDatabaseWriter } from 'convex/server';
+import { decryptColumnsForRead, sealEncryptedFilter } from './encryption';
+import type { FilterExpression } from './filter-expression';
+import { and, isFieldReference } from './filter-expression';
+import { getIndexes } from './index-utils';
+import {
+  applyIncomingForeignKeyActionsOnRestore,
+  collectMutationRowsBounded,
+  collectPrimaryIdLookupRows,
+  extractPrimaryIdLookup,
+  getMutationCollectionLimits,
+  getOrmContext,
+  getTableColumns,
+  getTableName,
+  hydrateDateFieldsForRead,
+  restoreRow,
+  selectReturningRowWithHydration,
+  splitReturningSelection,
+  toConvexFilter,
+} from './mutation-utils';
+import { QueryPromise } from './query-promise';
+import { canUpdateRow, maskSelectColumns } from './rls/evaluator';
+import type { ConvexTable } from './table';
+import { filterTenantRows, resolveTenantScope } from './tenancy';
+import type {
+  MutationExecuteResult,
+  MutationResult,
+  MutationReturning,
+  ReturningSelection,
+} from './types';
+import { WhereClauseCompiler } from './where-clause-compiler';
+
+const applyIndexFilter = (query: any, filter: FilterExpression<boolean>) => {
+  if (filter.type !== 'binary') {
+    return query;
+  }
+  const [field, value] = filter.operands;
+  if (!isFieldReference(field)) {
+    return query;
+  }
+  switch (filter.operator) {
+    case 'eq':
+      return query.eq(field.fieldName, value);
+    case 'gt':
+      return query.gt(field.fieldName, value);
+    case 'gte':
+      return query.gte(field.fieldName, value);
+    case 'lt':
+      return query.lt(field.fieldName, value);
+    case 'lte':
+      return query.lte(field.fieldName, value);
+    default:
+      return query;
+  }
+};
+
+export type ConvexRestoreWithout<
+  T extends ConvexRestoreBuilder<any, any, any>,
+  K extends string,
+> = Omit<T, K>;
+
+type ConvexRestoreExecutableThis<
+  TTable extends ConvexTable<any>,
+  TReturning extends MutationReturning,
+> = {
+  _: {
+    table: TTable;
+    returning: TReturning;
+    result: MutationExecuteResult<TTable, TReturning, 'single'>;
+    hasWhereOrAllowFullScan: true;
+  };
+};
+
+/**
+ * Clears `deletionTime` on soft-deleted rows, then restores the
+ * `onDelete: 'cascade'` children that were soft-deleted with them.
+ */
+export class ConvexRestoreBuilder<
+  TTable extends ConvexTable<any>,
+  TReturning extends MutationReturning = undefined,
+  THasWhereOrAllowFullScan extends boolean = false,
+> extends QueryPromise<MutationExecuteResult<TTable, TReturning, 'single'>> {
+  declare readonly _: {
+    readonly table: TTable;
+    readonly returning: TReturning;
+    readonly result: MutationExecuteResult<TTable, TReturning, 'single'>;
+    readonly hasWhereOrAllowFullScan: THasWhereOrAllowFullScan;
+  };
+
+  private whereExpression?: FilterExpression<boolean>;
+  private returningFields?: TReturning;
+  private allowFullScanFlag = false;
+
+  constructor(
+    private db: GenericDatabaseWriter<any>,
+    private table: TTable
+  ) {
+    super();
+  }
+
+  where(
+    expression: FilterExpression<boolean>
+  ): ConvexRestoreBuilder<TTable, TReturning, true> {
+    this.whereExpression = expression;
+    return this as any;
+  }
+
+  returning(): ConvexRestoreWithout<
+    ConvexRestoreBuilder<TTable, true, THasWhereOrAllowFullScan>,
+    'returning'
+  >;
+  returning<TSelection extends ReturningSelection<TTable>>(
+    fields: TSelection
+  ): ConvexRestoreWithout<
+    ConvexRestoreBuilder<TTable, TSelection, THasWhereOrAllowFullScan>,
+    'returning'
+  >;
+  returning(
+    fields?: ReturningSelection<TTable>
+  ): ConvexRestoreWithout<
+    ConvexRestoreBuilder<TTable, MutationReturning, THasWhereOrAllowFullScan>,
+    'returning'
+  > {
+    this.returningFields = (fields ?? true) as TReturning;
+    return this as any;
+  }
+
+  allowFullScan(): ConvexRestoreBuilder<TTable, TReturning, true> {
+    this.allowFullScanFlag = true;
+    return this as any;
+  }
+
+  execute(
+    this: ConvexRestoreExecutableThis<TTable, TReturning>
+  ): Promise<MutationExecuteResult<TTable, TReturning, 'single'>>;
+  async execute(): Promise<
+    MutationExecuteResult<TTable, TReturning, 'single'>
+  > {
+    const tableName = getTableName(this.table);
+    if (!('deletionTime' in getTableColumns(this.table))) {
+      throw new Error(
+        `Restore requires 'deletionTime' field on '${tableName}'.`
+      );
+    }
+    const ormContext = getOrmContext(this.db);
+    const foreignKeyGraph = ormContext?.foreignKeyGraph;
+    if (!foreignKeyGraph) {
+      throw new Error(
+        'Foreign key actions require orm.db(ctx) configured from createOrm({ schema, ... }).'
+      );
+    }
+    const strict = ormContext?.strict ?? true;
+    const allowFullScan = this.allowFullScanFlag;
+    const { batchSize, maxRows } = getMutationCollectionLimits(ormContext);
+    // Deterministic encrypted() columns match on ciphertext.
+    const sealedWhere = await sealEncryptedFilter(
+      this.table,
+      this.whereExpression,
+      ormContext?.encryption
+    );
+
+    if (!sealedWhere) {
+      if (!allowFullScan) {
+        throw new Error(
+          'restore without where() requires allowFullScan: true.'
+        );
+      }
+      if (strict) {
+        console.warn(
+          'restore without where() is running with allowFullScan: true.'
+        );
+      }
+    }
+
+    const tenantScope = await resolveTenantScope(this.table, ormContext);
+    const scopedWhere = and(sealedWhere, tenantScope?.filter);
+
+    let rows: Record<string, unknown>[];
+    const primaryIdLookup = extractPrimaryIdLookup(sealedWhere);
+    if (primaryIdLookup) {
+      rows = (
+        await collectPrimaryIdLookupRows(this.db, tableName, primaryIdLookup, {
+          operation: 'update',
+          pagination: undefined,
+          batchSize,
+          maxRows,
+        })
+      ).rows;
+    } else if (scopedWhere) {
+      const compiled = new WhereClauseCompiler(
+        tableName,
+        getIndexes(this.table).map((index) => ({
+          indexName: index.name,
+          indexFields: index.fields,
+        }))
+      ).compile(scopedWhere);
+      const hasIndex =
+        !!compiled.selectedIndex && compiled.indexFilters.length > 0;
+
+      if (!hasIndex && !allowFullScan) {
+        throw new Error(
+          'restore requires allowFullScan: true when no index is available.'
+        );
+      }
+      if (!hasIndex && strict) {
+        console.warn(
+          'restore with filter is running with allowFullScan: true.'
+        );
+      }
+
+      const filterFn = toConvexFilter(scopedWhere);
+      rows = await collectMutationRowsBounded(
+        () => {
+          let currentQuery: any = this.db.query(tableName);
+          if (hasIndex) {
+            currentQuery = currentQuery.withIndex(
+              compiled.selectedIndex!.indexName,
+              (q: any) => {
+                let builder = q;
+                for (const filter of compiled.indexFilters) {
+                  builder = applyIndexFilter(builder, filter);
+                }
+                return builder;
+              }
+            );
+          }
+          return currentQuery.filter((q: any) => filterFn(q));
+        },
+        {
+          operation: 'update',
+          tableName,
+          batchSize,
+          maxRows,
+        }
+      );
+    } else {
+      rows = await collectMutationRowsBounded(() => this.db.query(tableName), {
+        operation: 'update',
+        tableName,
+        batchSize,
+        maxRows,
+      });
+    }
+
+    rows = filterTenantRows(rows, tenantScope);
+
+    const returningSelection =
+      this.returningFields && this.returningFields !== true
+        ? splitReturningSelection(
+            this.returningFields as Record<string, unknown>
+          )
+        : undefined;
+    if (returningSelection?.countSelection) {
+      throw new Error('restore().returning({ _count }) is not supported.');
+    }
+    const results: Record<string, unknown>[] = [];
+    const visited = new Set<string>();
+
+    for (const row of rows) {
+      const deletionTime = row.deletionTime;
+      if (typeof deletionTime !== 'number') {
+        continue;
+      }
+      const restoredRow = { ...row, deletionTime: undefined };
+      if (
+        !(await canUpdateRow({
+          table: this.table,
+          existingRow: row,
+          updatedRow: restoredRow,
+          rls: ormContext?.rls,
+        }))
+      ) {
+        continue;
+      }
+
+      visited.add(`${tableName}:${row._id}`);
+      await applyIncomingForeignKeyActionsOnRestore(this.db, this.table, row, {
+        graph: foreignKeyGraph,
+        deletionTime,
+        visited,
+        batchSize,
+        maxRows,
+      });
+      await restoreRow(this.db, this.table, row);
+
+      if (!this.returningFields) {
+        continue;
+      }
+      const [returnedRow] = await maskSelectColumns({
+        table: this.table,
+        rows: await decryptColumnsForRead(
+          this.table,
+          [restoredRow as Record<string, unknown>],
+          ormContext?.encryption
+        ),
+        rls: ormContext?.rls,
+      });
+      if (this.returningFields === true) {
+        results.push(hydrateDateFieldsForRead(this.table, returnedRow));
+      } else if (returningSelection) {
+        results.push(
+          selectReturningRowWithHydration(
+            this.table,
+            returnedRow,
+            returningSelection.columnSelection ?? {}
+          )
+        );
+      }
+    }
+
+    if (!this.returningFields) {
+      return undefined as MutationExecuteResult<TTable, TReturning, 'single'>;
+    }
+
+    return results as MutationResult<
+      TTable,
+      TReturning
+    > as MutationExecuteResult<TTable, TReturning, 'single'>;
+  }
+}
@@ -1,8 +1,8 @@
 import type { FilterExpression } from '../filter-expression';
 import { evaluateFilter } from '../mutation-utils';
-import { EnableRLS, RlsPolicies } from '../symbols';
+import { ColumnPolicies, EnableRLS, RlsPolicies } from '../symbols';
 import type { ConvexTable } from '../table';
-import type { RlsPolicy, RlsPolicyToOption } from './policies';
+import type { ColumnPolicy, RlsPolicy, RlsPolicyToOption } from './policies';
 import { isRlsRole } from './roles';
 import type { RlsContext } from './types';
 
@@ -60,7 +60,7 @@ function flattenRoles(
   return hasPublic ? 'public' : roles;
 }
 
-function roleMatches(policy: RlsPolicy, rls?: RlsContext): boolean {
+function roleMatches(policy: Pick<RlsPolicy, 'to'>, rls?: RlsContext): boolean {
   const resolver = rls?.roleResolver;
   if (!resolver) return true;
 
@@ -240,3 +240,129 @@ export async function filterSelectRows(options: {
   }
   return rows;
 }
+
+export type ColumnPolicyOperation = 'select' | 'insert' | 'update';
+
+export function getColumnPolicies(table: ConvexTable<any>): ColumnPolicy[] {
+  return ((table as any)[ColumnPolicies] ?? []) as ColumnPolicy[];
+}
+
+async function columnPolicyPasses(
+  policy: ColumnPolicy,
+  row: Record<string, unknown>,
+  table: ConvexTable<any>,
+  rls?: RlsContext
+): Promise<boolean> {
+  if (!roleMatches(policy, rls)) return false;
+  const candidate =
+    typeof policy.using === 'function'
+      ? await policy.using(rls?.ctx ?? {}, table as any)
+      : policy.using;
+  if (candidate === undefined || typeof candidate === 'boolean') {
+    return candidate !== false;
+  }
+  return evaluateFilter(row, candidate);
+}
+
+/**
+ * Columns the request may not read or write on `row`. A column is denied
+ * when policies for the operation cover it and none of them pass
+ * (permissive across policies, like rlsPolicy()).
+ */
+export async function resolveDeniedColumns(options: {
+  table: ConvexTable<any>;
+  operation: ColumnPolicyOperation;
+  row: Record<string, unknown>;
+  rls?: RlsContext;
+}): Promise<Map<string, ColumnPolicy>> {
+  const denied = new Map<string, ColumnPolicy>();
+  if (options.rls?.mode === 'skip') return denied;
+
+  const policies = getColumnPolicies(options.table).filter((policy) => {
+    const target = policy.for ?? 'all';
+    return target === 'all' || target === options.operation;
+  });
+  if (policies.length === 0) return denied;
+
+  const allowed = new Set<string>();
+  for (const policy of policies) {
+    const pending = policy._columnNames.filter(
+      (column) => !allowed.has(column)
+    );
+    if (pending.length === 0) continue;
+    if (
+      await columnPolicyPasses(policy, options.row, options.table, options.rls)
+    ) {
+      for (const column of pending) {
+        allowed.add(column);
+        denied.delete(column);
+      }
+      continue;
+    }
+    for (const column of pending) {
+      if (!denied.has(column)) denied.set(column, policy);
+    }
+  }
+  return denied;
+}
+
+/** Strip (or null) columns the request may not read. */
+export async function maskSelectColumns<
+  TRow extends Record<string, unknown>,
+>(options: {
+  table: ConvexTable<any>;
+  rows: TRow[];
+  rls?: RlsContext;
+}): Promise<TRow[]> {
+  if (getColumnPolicies(options.table).length === 0) return options.rows;
+  if (options.rls?.mode === 'skip') return options.rows;
+
+  const rows: TRow[] = [];
+  for (const row of options.rows) {
+    const denied = await resolveDeniedColumns({
+      table: options.table,
+      operation: 'select',
+      row,
+      rls: options.rls,
+    });
+    if (denied.size === 0) {
+      rows.push(row);
+      continue;
+    }
+    const masked: Record<string, unknown> = { ...row };
+    for (const [column, policy] of denied) {
+      if ((policy.mask ?? 'strip') === 'null') {
+        masked[column] = null;
+      } else {
+        delete masked[column];
+      }
+    }
+    rows.push(masked as TRow);
+  }
+  return rows;
+}
+
+/**
+ * Throw when `columns` includes a column the request may not write.
+ * Insert checks the new row, update checks the existing row.
+ */
+export async function assertColumnWritesAllowed(options: {
+  table: ConvexTable<any>;
+  operation: 'insert' | 'update';
+  row: Record<string, unknown>;
+  columns: Iterable<string>;
+  rls?: RlsContext;
+}): Promise<void> {
+  if (getColumnPolicies(options.table).length === 0) return;
+  if (options.rls?.mode === 'skip') return;
+
+  const denied = await resolveDeniedColumns(options);
+  for (const column of options.columns) {
+    const policy = denied.get(column);
+    if (policy) {
+      throw new Error(
+        `Column policy '${policy.name}' denies ${options.operation} of "${column}" on table "${options.table.tableName}"`
+      );
+    }
+  }
+}
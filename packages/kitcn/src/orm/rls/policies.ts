@@ -1,4 +1,4 @@
-import { entityKind } from '../builders/column-builder';
+import { type ColumnBuilderBase, entityKind } from '../builders/column-builder';
 import type { FilterExpression } from '../filter-expression';
 import type { ConvexTable, ConvexTableWithColumns } from '../table';
 import type { RlsRole } from './roles';
@@ -77,3 +77,71 @@ export function isRlsPolicy(value: unknown): value is RlsPolicy {
     (value as { [entityKind]?: string })[entityKind] === 'RlsPolicy'
   );
 }
+
+type ColumnPolicyExpression<TCtx, TTable> =
+  | FilterExpression<boolean>
+  | ((
+      ctx: TCtx,
+      table: TTable
+    ) =>
+      | FilterExpression<boolean>
+      | boolean
+      | Promise<FilterExpression<boolean> | boolean>);
+
+export interface ColumnPolicyConfig<
+  TCtx = any,
+  TTable = ConvexTableWithColumns<any>,
+> {
+  columns: ColumnBuilderBase[];
+  for?: 'all' | 'select' | 'insert' | 'update';
+  /** How denied columns are hidden from reads. Defaults to 'strip'. */
+  mask?: 'strip' | 'null';
+  to?: RlsPolicyToOption;
+  /** Row condition (or boolean) that grants access to the columns. */
+  using?: ColumnPolicyExpression<TCtx, TTable>;
+}
+
+export class ColumnPolicy<TCtx = any, TTable = ConvexTableWithColumns<any>>
+  implements ColumnPolicyConfig<TCtx, TTable>
+{
+  static readonly [entityKind]: string = 'ColumnPolicy';
+  readonly [entityKind]: string = 'ColumnPolicy';
+
+  readonly columns: ColumnPolicyConfig<TCtx, TTable>['columns'];
+  readonly for: ColumnPolicyConfig<TCtx, TTable>['for'];
+  readonly to: ColumnPolicyConfig<TCtx, TTable>['to'];
+  readonly using: ColumnPolicyConfig<TCtx, TTable>['using'];
+  readonly mask: ColumnPolicyConfig<TCtx, TTable>['mask'];
+
+  /** @internal Resolved by convexTable(). */
+  _columnNames: string[] = [];
+
+  constructor(
+    readonly name: string,
+    config: ColumnPolicyConfig<TCtx, TTable>
+  ) {
+    this.columns = config.columns;
+    this.for = config.for;
+    this.to = config.to;
+    this.using = config.using;
+    this.mask = config.mask;
+  }
+}
+
+export function columnPolicy<TCtx = any, TTable = ConvexTableWithColumns<any>>(
+  name: string,
+  config: ColumnPolicyConfig<TCtx, TTable>
+) {
+  if (!Array.isArray(config?.columns) || config.columns.length === 0) {
+    throw new Error(`columnPolicy '${name}' requires at least one column.`);
+  }
+  return new ColumnPolicy<TCtx, TTable>(name, config);
+}
+
+export function isColumnPolicy(value: unknown): value is ColumnPolicy {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    (value as { [entityKind]?: string })[entityKind] === 'ColumnPolicy'
+  );
+}
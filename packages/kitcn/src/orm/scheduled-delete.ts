@@ -5,6 +5,7 @@ import type {
 } from 'convex/server';
 import type { GenericId } from 'convex/values';
 import { createDatabase } from './database';
+import type { OrmEncryptionOptions } from './encryption';
 import type { EdgeMetadata } from './extractRelationsConfig';
 import { eq } from './filter-expression';
 import type { CascadeMode } from './mutation-utils';
@@ -21,7 +22,8 @@ export type ScheduledDeleteArgs = {
 export function scheduledDeleteFactory<TSchema extends TablesRelationalConfig>(
   schema: TSchema,
   edgeMetadata: EdgeMetadata[],
-  scheduledMutationBatch: SchedulableFunctionReference
+  scheduledMutationBatch: SchedulableFunctionReference,
+  options: { encryption?: OrmEncryptionOptions } = {}
 ) {
   const tableByName = new Map<string, ConvexTableWithColumns<any>>();
   for (const tableConfig of Object.values(schema)) {
@@ -55,6 +57,7 @@ export function scheduledDeleteFactory<TSchema extends TablesRelationalConfig>(
     const db = createDatabase(ctx.db, schema, edgeMetadata, {
       scheduler: ctx.scheduler,
       scheduledMutationBatch,
+      encryption: options.encryption,
     });
     await db
       .delete(table)
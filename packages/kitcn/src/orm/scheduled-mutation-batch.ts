@@ -4,6 +4,7 @@ import type {
   Scheduler,
 } from 'convex/server';
 import { createDatabase } from './database';
+import { decryptColumnsForRead, type OrmEncryptionOptions } from './encryption';
 import type { EdgeMetadata } from './extractRelationsConfig';
 import {
   applyIncomingForeignKeyActionsOnDelete,
@@ -54,6 +55,7 @@ export type ScheduledMutationBatchArgs = {
   batchSize: number;
   maxBytesPerBatch?: number;
   delayMs: number;
+  deletionTime?: number;
 };
 
 const isRecord = (value: unknown): value is Record<string, unknown> =>
@@ -64,7 +66,8 @@ export function scheduledMutationBatchFactory<
 >(
   schema: TSchema,
   edgeMetadata: EdgeMetadata[],
-  scheduledMutationBatch: SchedulableFunctionReference
+  scheduledMutationBatch: SchedulableFunctionReference,
+  options: { encryption?: OrmEncryptionOptions } = {}
 ) {
   const tableByName = new Map<string, ConvexTableWithColumns<any>>();
   for (const tableConfig of Object.values(schema)) {
@@ -109,6 +112,7 @@ export function scheduledMutationBatchFactory<
     const db = createDatabase(ctx.db, schema, edgeMetadata, {
       scheduler: ctx.scheduler,
       scheduledMutationBatch,
+      encryption: options.encryption,
     });
     const ormContext = getOrmContext(db as any);
     const foreignKeyGraph = ormContext?.foreignKeyGraph;
@@ -123,9 +127,14 @@ export function scheduledMutationBatchFactory<
           'scheduledMutationBatch: update operation requires update values.'
         );
       }
-      let builder: any = db
-        .update(table)
-        .set(decodeUndefinedDeep(args.update) as Record<string, unknown>);
+      // Encrypted columns travel sealed through the scheduler; open them so
+      // set() validates and seals plaintext like the first batch did.
+      const [update] = await decryptColumnsForRead(
+        table,
+        [decodeUndefinedDeep(args.update) as Record<string, unknown>],
+        ormContext?.encryption
+      );
+      let builder: any = db.update(table).set(update);
       if (args.mode === 'async') {
         builder.executionModeOverride = 'async';
       }
@@ -268,6 +277,13 @@ export function scheduledMutationBatchFactory<
           );
         }
         for (const row of rows) {
+          if (
+            (args.cascadeMode ?? 'hard') === 'soft' &&
+            row.deletionTime !== undefined &&
+            row.deletionTime !== null
+          ) {
+            continue;
+          }
           const visited = new Set<string>([
             `${args.table}:${(row as any)._id}`,
           ]);
@@ -287,9 +303,10 @@ export function scheduledMutationBatchFactory<
             scheduledMutationBatch,
             scheduleState,
             delayMs: args.delayMs,
+            deletionTime: args.deletionTime,
           });
           if ((args.cascadeMode ?? 'hard') === 'soft') {
-            await softDeleteRow(ctx.db, table, row);
+            await softDeleteRow(ctx.db, table, row, args.deletionTime);
           } else {
             await hardDeleteRow(ctx.db, args.table, row);
           }
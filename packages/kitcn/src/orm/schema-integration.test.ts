@@ -75,6 +75,18 @@ test.each([
   ).toThrow(/reserved/i);
 });
 
+test.each([
+  'tableName',
+  'validator',
+  'getIndexes',
+])('convexTable rejects column shadowing a table property: %s', (columnName) => {
+  expect(() =>
+    convexTable('users', {
+      [columnName]: text().notNull(),
+    } as Record<string, ReturnType<typeof text>>)
+  ).toThrow(`Column name '${columnName}' on 'users' shadows a table property.`);
+});
+
 test('convexTable allows createdAt as user column', () => {
   const users = convexTable('users_with_created_at', {
     name: text().notNull(),
@@ -229,6 +241,16 @@ test('defineSchema auto-injects internal migration storage tables', () => {
   expect(schema.tables).toHaveProperty('migration_run');
 });
 
+test('defineSchema auto-injects the deferred trigger queue table', () => {
+  const users = convexTable('trigger_queue_schema_users', {
+    name: text().notNull(),
+  });
+
+  const schema = defineSchema({ users });
+
+  expect(schema.tables).toHaveProperty('trigger_queue');
+});
+
 test('defineSchema does not inject ratelimit storage tables by default', () => {
   const users = convexTable('ratelimit_schema_users', {
     name: text().notNull(),
@@ -514,3 +536,40 @@ test('defineSchema composes extension triggers with app triggers', () => {
   expect(triggers?.users?.change).toBeFunction();
   expect(triggers?.users?.create?.after).toBeFunction();
 });
+
+test('defineSchema merges named trigger handlers across extensions', () => {
+  const users = convexTable('schema_extension_handler_users', {
+    name: text().notNull(),
+  });
+
+  const triggerExtension = defineSchemaExtension('handler-extension', { users })
+    .relations((r) => ({
+      users: {},
+    }))
+    .triggers({
+      users: {
+        handlers: { audit: { change: async () => {} } },
+      },
+    });
+
+  const schema = defineSchema({})
+    .extend(triggerExtension)
+    .triggers({
+      users: {
+        handlers: { notify: { columns: ['name'], change: async () => {} } },
+      },
+    });
+
+  const triggers = getSchemaTriggers(schema);
+  expect(triggers?.users?.handlers?.audit?.change).toBeFunction();
+  expect(triggers?.users?.handlers?.notify?.columns).toEqual(['name']);
+  expect(() =>
+    defineSchema({})
+      .extend(triggerExtension)
+      .triggers({
+        users: {
+          handlers: { audit: { change: async () => {} } },
+        },
+      })
+  ).toThrow(/trigger 'users\.handlers\.audit' is defined more than once/i);
+});
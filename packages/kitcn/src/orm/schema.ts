@@ -5,6 +5,7 @@ import type {
 } from 'convex/server';
 import { defineSchema as defineConvexSchema } from 'convex/server';
 import { aggregateExtension } from './aggregate-index/schema';
+import { triggerQueueExtension } from './deferred-triggers';
 import type {
   AnySchemaExtension,
   SchemaExtension,
@@ -14,6 +15,7 @@ import type {
 export type { SchemaExtension } from './extensions';
 export { defineSchemaExtension } from './extensions';
 
+import { historyExtension } from './history';
 import { migrationExtension } from './migrations/schema';
 import type {
   AnyRelationsBuilderConfig,
@@ -269,6 +271,7 @@ const MUTATION_EXECUTION_MODES = ['sync', 'async'] as const;
 const BUILTIN_SCHEMA_EXTENSIONS = [
   aggregateExtension(),
   migrationExtension(),
+  triggerQueueExtension(),
 ] as const;
 
 const normalizeDefaults = (
@@ -313,10 +316,13 @@ const normalizeDefaults = (
 };
 
 function resolveSchemaExtensions<TExtensions extends ExtensionList>(
+  schema: Record<string, unknown>,
   extensions: TExtensions | undefined
 ): ResolvedSchemaExtensions<TExtensions> {
+  const history = historyExtension(schema);
   const resolved = [
     ...BUILTIN_SCHEMA_EXTENSIONS,
+    ...(history ? [history] : []),
     ...(extensions ?? []),
   ] as unknown as ResolvedSchemaExtensions<TExtensions>;
   const seen = new Set<string>();
@@ -450,7 +456,8 @@ function mergeTriggerConfigs(
         if (
           (hookKey === 'create' ||
             hookKey === 'update' ||
-            hookKey === 'delete') &&
+            hookKey === 'delete' ||
+            hookKey === 'handlers') &&
           hookValue &&
           typeof hookValue === 'object' &&
           !Array.isArray(hookValue)
@@ -538,7 +545,10 @@ function materializeBaseSchema<
 ): SchemaResult<TSchema, StrictTableNameTypes, TExtensions, TRelationsConfig> {
   const strict = state.options?.strict ?? true;
   const defaults = normalizeDefaults(state.options?.defaults);
-  const extensions = resolveSchemaExtensions(state.extensions);
+  const extensions = resolveSchemaExtensions(
+    state.schema as unknown as Record<string, unknown>,
+    state.extensions
+  );
   const {
     schema: schemaWithExtensions,
     extensionTableNames,
@@ -613,7 +623,10 @@ function finalizeSchemaMetadata(schema: unknown): void {
   const schemaObject = schema as Record<string | symbol, unknown>;
   const resolvedExtensions =
     (schemaObject[OrmSchemaExtensions] as ExtensionList | undefined) ??
-    resolveSchemaExtensions(composerState.extensions);
+    resolveSchemaExtensions(
+      composerState.schema as unknown as Record<string, unknown>,
+      composerState.extensions
+    );
   const extensionTableNames =
     (schemaObject[OrmSchemaExtensionTables] as readonly string[] | undefined) ??
     Object.freeze([] as string[]);
@@ -0,0 +1,72 @@
+import { v } from 'convex/values';
+import { boolean } from './builders/boolean';
+import { custom } from './builders/custom';
+import { date } from './builders/date';
+import { text } from './builders/text';
+import { textEnum } from './builders/text-enum';
+import { timestamp } from './builders/timestamp';
+import { defineRelations } from './relations';
+import {
+  createSeedRandom,
+  defineSeed,
+  getSeedSteps,
+  seedColumnValue,
+} from './seed';
+import { convexTable } from './table';
+
+describe('seedColumnValue', () => {
+  test('is deterministic per seed number and key', () => {
+    const value = (seed: number) =>
+      seedColumnValue(
+        text().notNull(),
+        'users.name',
+        createSeedRandom(seed, '0:0.name')
+      );
+
+    expect(value(1)).toBe(value(1));
+    expect(value(1)).not.toBe(value(2));
+  });
+
+  test('derives values from the column builder', () => {
+    const random = createSeedRandom(1, 'row');
+
+    expect(['a', 'b']).toContain(
+      seedColumnValue(textEnum(['a', 'b']), 't.status', random)
+    );
+    expect(typeof seedColumnValue(boolean(), 't.flag', random)).toBe('boolean');
+    expect(seedColumnValue(timestamp(), 't.at', random)).toBeInstanceOf(Date);
+    expect(
+      seedColumnValue(timestamp({ mode: 'string' }), 't.at', random)
+    ).toMatch(/^2024-/);
+    expect(seedColumnValue(date(), 't.day', random)).toMatch(
+      /^\d{4}-\d{2}-\d{2}$/
+    );
+    expect(() =>
+      seedColumnValue(custom(v.array(v.id('users'))), 't.ids', random)
+    ).toThrow(
+      "Cannot derive a seed value for 't.ids[]' (id). Pass an override."
+    );
+  });
+});
+
+describe('getSeedSteps', () => {
+  test('resolves factory calls against the schema', () => {
+    const users = convexTable('seed_unit_users', { name: text() });
+    const relations = defineRelations({ users });
+    const seed = defineSeed({ users }, ({ factory }) => [
+      factory.users(),
+      factory.users(3, { name: 'Ada' }),
+    ]);
+
+    expect(getSeedSteps(seed, relations)).toEqual([
+      { table: 'users', count: 1, overrides: {} },
+      { table: 'users', count: 3, overrides: { name: 'Ada' } },
+    ]);
+    expect(() =>
+      getSeedSteps(
+        defineSeed({ users }, ({ factory }) => [factory.users(-1)]),
+        relations
+      )
+    ).toThrow('factory.users() count must be a non-negative integer.');
+  });
+});
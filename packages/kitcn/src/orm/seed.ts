@@ -0,0 +1,545 @@
+/**
+ * Seeds - defineSeed(schema, ({ factory }) => [...]) and `kitcn seed`
+ *
+ * A seed is a list of factory steps. Each step inserts `count` rows whose
+ * values are derived from the column builders and a pseudo-random stream
+ * keyed by (seed number, step, row, column), so the same seed number always
+ * writes the same data. Required references (id() columns, foreignKey()s and
+ * defineRelations one-relations) create their parent rows through the
+ * target table's factory.
+ */
+
+import type {
+  GenericDatabaseWriter,
+  SchedulableFunctionReference,
+} from 'convex/server';
+import type { ColumnBuilder } from './builders/column-builder';
+import { generateUlid } from './builders/ulid';
+import type { OrmWriter } from './database';
+import { extractRelationsConfig } from './extractRelationsConfig';
+import { getForeignKeys, getTableColumns } from './mutation-utils';
+import type {
+  ExtractTablesFromSchema,
+  TablesRelationalConfig,
+} from './relations';
+import type { ConvexTable } from './table';
+import type { InferInsertModel } from './types';
+
+export const DEFAULT_SEED = 1;
+const SEED_CHUNK_SIZE = 100;
+const EMAIL_COLUMN_RE = /email/i;
+const URL_COLUMN_RE = /url$/i;
+const SEED_EPOCH_MS = Date.UTC(2024, 0, 1);
+const SEED_RANGE_MS = 365 * 24 * 60 * 60 * 1000;
+const SEED_WORDS = [
+  'amber',
+  'brisk',
+  'cedar',
+  'delta',
+  'ember',
+  'fable',
+  'glade',
+  'harbor',
+  'ivory',
+  'juniper',
+  'kernel',
+  'lumen',
+  'meadow',
+  'nova',
+  'orbit',
+  'pixel',
+  'quartz',
+  'river',
+  'summit',
+  'timber',
+  'umber',
+  'vertex',
+  'willow',
+  'zephyr',
+] as const;
+
+export type SeedFieldContext = {
+  /** Row index within the step (parents use the index of the row they serve). */
+  index: number;
+  /** Deterministic value in [0, 1) for this row and column. */
+  random: () => number;
+};
+
+type SeedTables<TSchema extends object> = {
+  [K in keyof ExtractTablesFromSchema<TSchema> as ExtractTablesFromSchema<TSchema>[K] extends ConvexTable<any>
+    ? K
+    : never]: ExtractTablesFromSchema<TSchema>[K];
+};
+
+export type SeedOverrides<TTable extends ConvexTable<any>> = {
+  [K in keyof InferInsertModel<TTable>]?:
+    | InferInsertModel<TTable>[K]
+    | ((ctx: SeedFieldContext) => InferInsertModel<TTable>[K]);
+};
+
+export type SeedStep = {
+  readonly table: string;
+  readonly count: number;
+  readonly overrides: Record<string, unknown>;
+};
+
+export type SeedFactory<TSchema extends object> = {
+  [K in keyof SeedTables<TSchema>]: (
+    count?: number,
+    overrides?: SeedTables<TSchema>[K] extends ConvexTable<any>
+      ? SeedOverrides<SeedTables<TSchema>[K]>
+      : never
+  ) => SeedStep;
+};
+
+export type SeedDefinition<TSchema extends object = object> = {
+  readonly schema: TSchema;
+  readonly steps: (ctx: {
+    factory: SeedFactory<TSchema>;
+  }) => readonly SeedStep[];
+};
+
+export type SeedRunArgs = {
+  seed?: number;
+};
+
+export type SeedRunChunkArgs = {
+  seed: number;
+  step: number;
+  offset: number;
+  count: number;
+};
+
+type SeedReference = { table: string; column: string };
+
+type RuntimeCtx = {
+  db: GenericDatabaseWriter<any>;
+};
+
+type CreateSeedHandlersParams<TSchema extends TablesRelationalConfig> = {
+  schema: TSchema;
+  seed: SeedDefinition<any> | undefined;
+  getOrm: (ctx: RuntimeCtx) => OrmWriter<TSchema>;
+  getChunkRef: () => SchedulableFunctionReference | undefined;
+};
+
+/**
+ * Define the rows `kitcn seed` writes.
+ *
+ * @example
+ * export const seed = defineSeed(schema, ({ factory }) => [
+ *   factory.users(5, { role: 'admin' }),
+ *   factory.posts(50, { title: ({ index }) => `Post ${index + 1}` }),
+ * ]);
+ */
+export function defineSeed<TSchema extends object>(
+  schema: TSchema,
+  steps: (ctx: { factory: SeedFactory<TSchema> }) => readonly SeedStep[]
+): SeedDefinition<TSchema> {
+  if (typeof steps !== 'function') {
+    throw new Error('defineSeed() expects a function returning factory steps.');
+  }
+  return { schema, steps };
+}
+
+/** FNV-1a, used to key the per-column random streams. */
+const hashSeedKey = (key: string) => {
+  let hash = 0x81_1c_9d_c5;
+  for (let i = 0; i < key.length; i += 1) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01_00_01_93);
+  }
+  return hash >>> 0;
+};
+
+/** mulberry32 */
+export function createSeedRandom(seed: number, key: string): () => number {
+  let state = hashSeedKey(`${seed}:${key}`);
+  return () => {
+    state = (state + 0x6d_2b_79_f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t ^= t + Math.imul(t ^ (t >>> 7), 61 | t);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+}
+
+const pick = <T>(values: readonly T[], random: () => number): T =>
+  values[Math.floor(random() * values.length)]!;
+
+const randomSuffix = (random: () => number) =>
+  Math.floor(random() * 36 ** 6)
+    .toString(36)
+    .padStart(6, '0');
+
+const randomWords = (random: () => number) =>
+  Array.from({ length: 2 + Math.floor(random() * 2) }, () =>
+    pick(SEED_WORDS, random)
+  ).join(' ');
+
+const randomText = (
+  columnName: string,
+  unique: boolean,
+  random: () => number
+) => {
+  if (EMAIL_COLUMN_RE.test(columnName)) {
+    return `${pick(SEED_WORDS, random)}.${randomSuffix(random)}@example.com`;
+  }
+  if (URL_COLUMN_RE.test(columnName)) {
+    return `https://example.com/${pick(SEED_WORDS, random)}-${randomSuffix(random)}`;
+  }
+  const words = randomWords(random);
+  return unique ? `${words} ${randomSuffix(random)}` : words;
+};
+
+const randomTime = (random: () => number) =>
+  SEED_EPOCH_MS + Math.floor(random() * SEED_RANGE_MS);
+
+const randomHex = (length: number, random: () => number) =>
+  Array.from({ length }, () => Math.floor(random() * 16).toString(16)).join('');
+
+/** v4-shaped UUID drawn from the seeded random, so reruns match. */
+const randomUuid = (random: () => number) => {
+  const hex = randomHex(30, random);
+  const variant = (8 + Math.floor(random() * 4)).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(12, 15)}-${variant}${hex.slice(15, 18)}-${hex.slice(18)}`;
+};
+
+const randomUlid = (random: () => number) =>
+  generateUlid(randomTime(random), random);
+
+/** Value for a Convex validator (custom(), arrayOf(), objectOf(), json()). */
+function seedValidatorValue(
+  validator: any,
+  path: string,
+  random: () => number
+): unknown {
+  switch (validator?.kind) {
+    case 'string':
+      return randomWords(random);
+    case 'float64':
+      return Math.round(random() * 100_000) / 100;
+    case 'int64':
+      return BigInt(Math.floor(random() * 1000));
+    case 'boolean':
+      return random() < 0.5;
+    case 'null':
+      return null;
+    case 'literal':
+      return validator.value;
+    case 'bytes':
+      return Uint8Array.from({ length: 16 }, () => Math.floor(random() * 256))
+        .buffer;
+    case 'array':
+      return Array.from({ length: 1 + Math.floor(random() * 3) }, () =>
+        seedValidatorValue(validator.element, `${path}[]`, random)
+      );
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(validator.fields as Record<string, unknown>).map(
+          ([key, field]) => [
+            key,
+            seedValidatorValue(field, `${path}.${key}`, random),
+          ]
+        )
+      );
+    case 'record':
+      return {};
+    case 'union': {
+      const members = (validator.members as any[]).filter(
+        (member) => member.kind !== 'null'
+      );
+      return members.length > 0
+        ? seedValidatorValue(pick(members, random), path, random)
+        : null;
+    }
+    case 'any':
+      return pick(SEED_WORDS, random);
+    default:
+      throw new Error(
+        `Cannot derive a seed value for '${path}' (${validator?.kind ?? 'unknown'}). Pass an override.`
+      );
+  }
+}
+
+/** Value for a non-reference column, derived from its builder. */
+export function seedColumnValue(
+  builder: ColumnBuilder<any, any, any>,
+  path: string,
+  random: () => number
+): unknown {
+  const config = (builder as any).config as Record<string, any>;
+  const columnName = path.slice(path.lastIndexOf('.') + 1);
+  switch (config.columnType) {
+    case 'ConvexText':
+      if (config.format === 'uuid') {
+        return randomUuid(random);
+      }
+      if (config.format === 'ulid') {
+        return randomUlid(random);
+      }
+      return Array.isArray(config.values)
+        ? pick(config.values as string[], random)
+        : randomText(columnName, config.isUnique === true, random);
+    case 'ConvexNumber':
+      return Math.floor(random() * 1000);
+    case 'ConvexBigInt':
+      return BigInt(Math.floor(random() * 1000));
+    case 'ConvexDecimal': {
+      const value = Math.floor(random() * 100_000) / 100;
+      return config.mode === 'number'
+        ? value
+        : value.toFixed(Math.min(config.scale as number, 2));
+    }
+    case 'ConvexBoolean':
+      return random() < 0.5;
+    case 'ConvexPoint':
+      return { lat: random() * 180 - 90, lng: random() * 360 - 180 };
+    case 'ConvexTimestamp': {
+      const time = randomTime(random);
+      return config.mode === 'string'
+        ? new Date(time).toISOString()
+        : new Date(time);
+    }
+    case 'ConvexDate': {
+      const day = new Date(randomTime(random)).toISOString().slice(0, 10);
+      return config.mode === 'date' ? new Date(day) : day;
+    }
+    case 'ConvexBytes':
+      return seedValidatorValue({ kind: 'bytes' }, path, random);
+    case 'ConvexVector':
+      return Array.from(
+        { length: config.dimensions as number },
+        () => random() * 2 - 1
+      );
+    case 'ConvexCustom':
+      return seedValidatorValue(config.validator, path, random);
+    default:
+      throw new Error(
+        `Cannot derive a seed value for '${path}'. Pass an override.`
+      );
+  }
+}
+
+/**
+ * Single-column references per table key, from foreignKey()/id() first and
+ * defineRelations one-relations second.
+ */
+function getSeedReferences(
+  schema: TablesRelationalConfig
+): Map<string, Map<string, SeedReference>> {
+  const keyByName = new Map(
+    Object.entries(schema).map(([key, tableConfig]) => [tableConfig.name, key])
+  );
+  const references = new Map<string, Map<string, SeedReference>>();
+  const add = (tableKey: string, column: string, reference: SeedReference) => {
+    const bucket = references.get(tableKey) ?? new Map();
+    if (!bucket.has(column)) {
+      bucket.set(column, reference);
+    }
+    references.set(tableKey, bucket);
+  };
+
+  for (const [tableKey, tableConfig] of Object.entries(schema)) {
+    for (const foreignKey of getForeignKeys(tableConfig.table as any)) {
+      const target = keyByName.get(foreignKey.foreignTableName);
+      if (foreignKey.columns.length !== 1 || !target) {
+        continue;
+      }
+      add(tableKey, foreignKey.columns[0]!, {
+        table: target,
+        column: foreignKey.foreignColumns[0]!,
+      });
+    }
+  }
+  for (const edge of extractRelationsConfig(schema)) {
+    if (
+      edge.cardinality !== 'one' ||
+      edge.through ||
+      edge.sourceFields.length !== 1 ||
+      edge.sourceFields[0] === '_id' ||
+      edge.sourceFields[0] === 'id'
+    ) {
+      continue;
+    }
+    add(edge.sourceTable, edge.sourceFields[0]!, {
+      table: edge.targetTable,
+      column: edge.targetFields[0]!,
+    });
+  }
+  return references;
+}
+
+/** Resolve a seed definition's factory steps against the ORM schema. */
+export function getSeedSteps(
+  seed: SeedDefinition<any>,
+  schema: TablesRelationalConfig
+): SeedStep[] {
+  const factory = Object.fromEntries(
+    Object.keys(schema).map((tableKey) => [
+      tableKey,
+      (count = 1, overrides: Record<string, unknown> = {}): SeedStep => {
+        if (!Number.isInteger(count) || count < 0) {
+          throw new Error(
+            `factory.${tableKey}() count must be a non-negative integer.`
+          );
+        }
+        return { table: tableKey, count, overrides };
+      },
+    ])
+  );
+  const steps = seed.steps({ factory: factory as SeedFactory<any> });
+  if (!Array.isArray(steps)) {
+    throw new Error(
+      'defineSeed() steps must return an array of factory steps.'
+    );
+  }
+  return [...steps];
+}
+
+export function createSeedHandlers<TSchema extends TablesRelationalConfig>(
+  params: CreateSeedHandlersParams<TSchema>
+): {
+  run: (
+    ctx: { runMutation: (ref: any, args: any) => Promise<any> },
+    args?: SeedRunArgs
+  ) => Promise<Record<string, unknown>>;
+  chunk: (
+    ctx: RuntimeCtx,
+    args: SeedRunChunkArgs
+  ) => Promise<Record<string, unknown>>;
+} {
+  const { schema, seed, getOrm, getChunkRef } = params;
+  const references = getSeedReferences(schema);
+
+  const requireSeed = () => {
+    if (!seed) {
+      throw new Error(
+        'No seed configured. Export `seed = defineSeed(schema, ...)` from convex/seed.ts and run `kitcn codegen`.'
+      );
+    }
+    return getSeedSteps(seed, schema);
+  };
+
+  const insertRow = async (
+    orm: OrmWriter<TSchema>,
+    tableKey: string,
+    overrides: Record<string, unknown>,
+    rowKey: string,
+    index: number,
+    seedNumber: number,
+    chain: string[]
+  ): Promise<{ row: Record<string, unknown>; inserted: number }> => {
+    const tableConfig = schema[tableKey];
+    if (!tableConfig) {
+      throw new Error(`Seed references unknown table '${tableKey}'.`);
+    }
+    const tableReferences = references.get(tableKey);
+    const values: Record<string, unknown> = {};
+    let inserted = 1;
+
+    for (const [columnName, builder] of Object.entries(
+      getTableColumns(tableConfig.table as any)
+    )) {
+      const path = `${tableConfig.name}.${columnName}`;
+      const random = createSeedRandom(seedNumber, `${rowKey}.${columnName}`);
+      if (columnName in overrides) {
+        const override = overrides[columnName];
+        values[columnName] =
+          typeof override === 'function'
+            ? override({ index, random })
+            : override;
+        continue;
+      }
+      const config = (builder as any).config as Record<string, any>;
+      if (
+        config.generated ||
+        config.version ||
+        config.hasDefault ||
+        config.defaultFn
+      ) {
+        continue;
+      }
+      const reference = tableReferences?.get(columnName);
+      if (reference) {
+        if (!config.notNull) {
+          continue;
+        }
+        if (chain.includes(reference.table)) {
+          throw new Error(
+            `Cannot seed '${path}': '${reference.table}' is already being created for this row. Pass an override.`
+          );
+        }
+        const parent = await insertRow(
+          orm,
+          reference.table,
+          {},
+          `${rowKey}>${columnName}`,
+          index,
+          seedNumber,
+          [...chain, tableKey]
+        );
+        inserted += parent.inserted;
+        values[columnName] =
+          parent.row[reference.column === '_id' ? 'id' : reference.column];
+        continue;
+      }
+      values[columnName] = seedColumnValue(builder, path, random);
+    }
+
+    const [row] = await (orm.skipRules as any)
+      .insert(tableConfig.table)
+      .values(values)
+      .returning();
+    return { row, inserted };
+  };
+
+  return {
+    run: async (ctx, args = {}) => {
+      const steps = requireSeed();
+      const seedNumber = args.seed ?? DEFAULT_SEED;
+      const chunkRef = getChunkRef();
+      if (!chunkRef) {
+        throw new Error('seedRunChunk is not registered.');
+      }
+      let inserted = 0;
+      for (const [step, { count }] of steps.entries()) {
+        for (let offset = 0; offset < count; offset += SEED_CHUNK_SIZE) {
+          const chunk = (await ctx.runMutation(chunkRef, {
+            seed: seedNumber,
+            step,
+            offset,
+            count: Math.min(SEED_CHUNK_SIZE, count - offset),
+          })) as { inserted: number };
+          inserted += chunk.inserted;
+        }
+      }
+      return {
+        status: 'ok' as const,
+        seed: seedNumber,
+        steps: steps.length,
+        inserted,
+      };
+    },
+    chunk: async (ctx, args) => {
+      const step = requireSeed()[args.step];
+      if (!step) {
+        throw new Error(`Seed step ${args.step} does not exist.`);
+      }
+      const orm = getOrm(ctx);
+      let inserted = 0;
+      for (let index = args.offset; index < args.offset + args.count; index++) {
+        const result = await insertRow(
+          orm,
+          step.table,
+          step.overrides,
+          `${args.step}:${index}`,
+          index,
+          args.seed,
+          []
+        );
+        inserted += result.inserted;
+      }
+      return { inserted };
+    },
+  };
+}
@@ -0,0 +1,133 @@
+import { describe, expect, test } from 'vitest';
+import { convexTest } from '../../../../convex/setup.testing';
+import { arrayOf, objectOf } from './builders/custom';
+import { id } from './builders/id';
+import { integer } from './builders/number';
+import { text } from './builders/text';
+import { textEnum } from './builders/text-enum';
+import { timestamp } from './builders/timestamp';
+import { createOrm } from './create-orm';
+import { defineRelations } from './relations';
+import { defineSchema } from './schema';
+import { createSeedHandlers, defineSeed } from './seed';
+import { convexTable } from './table';
+
+const SEED_EMAIL_RE = /^[a-z]+\.[0-9a-z]{6}@example\.com$/;
+
+const users = convexTable('seed_users', {
+  name: text().notNull(),
+  email: text().notNull().unique(),
+  role: textEnum(['admin', 'member']).notNull(),
+});
+const posts = convexTable('seed_posts', {
+  title: text().notNull(),
+  authorId: id('seed_users').notNull(),
+  tags: arrayOf(text().notNull()).notNull(),
+  meta: objectOf({ views: integer().notNull() }).notNull(),
+  publishedAt: timestamp(),
+  status: text().notNull().default('draft'),
+});
+const comments = convexTable('seed_comments', {
+  body: text().notNull(),
+  postTitle: text().notNull(),
+});
+
+const tables = {
+  seed_users: users,
+  seed_posts: posts,
+  seed_comments: comments,
+};
+const schema = defineSchema(tables);
+const relations = defineRelations(tables, (r) => ({
+  seed_comments: {
+    post: r.one.seed_posts({
+      from: r.seed_comments.postTitle,
+      to: r.seed_posts.title,
+    }),
+  },
+}));
+
+const seed = defineSeed(schema, ({ factory }) => [
+  factory.seed_users(2, { role: 'admin' }),
+  factory.seed_posts(3, { title: ({ index }) => `Post ${index}` }),
+  factory.seed_comments(1),
+]);
+
+const runSeed = async (seedNumber?: number) => {
+  const ormClient = createOrm({ schema: relations });
+  const handlers = createSeedHandlers({
+    schema: relations,
+    seed,
+    getOrm: (ctx) => ormClient.db(ctx as any) as any,
+    getChunkRef: () => ({}) as any,
+  });
+  const t = convexTest(schema);
+  return t.run(async (ctx) => {
+    const result = await handlers.run(
+      {
+        runMutation: (_ref, args) =>
+          handlers.chunk({ db: ctx.db as any }, args),
+      },
+      seedNumber === undefined ? {} : { seed: seedNumber }
+    );
+    return {
+      result,
+      users: await ctx.db.query('seed_users').collect(),
+      posts: await ctx.db.query('seed_posts').collect(),
+      comments: await ctx.db.query('seed_comments').collect(),
+    };
+  });
+};
+
+describe('orm/seed', () => {
+  test('derives rows from column builders and creates referenced rows', async () => {
+    const { result, users, posts, comments } = await runSeed();
+
+    // 2 users, 3 posts + 3 authors, 1 comment + its post + that post's author.
+    expect(result).toEqual({ status: 'ok', seed: 1, steps: 3, inserted: 11 });
+    expect(users).toHaveLength(6);
+    expect(users.slice(0, 2).map((user: any) => user.role)).toEqual([
+      'admin',
+      'admin',
+    ]);
+    expect(new Set(users.map((user: any) => user.email)).size).toBe(6);
+    expect(users[0]!.email).toMatch(SEED_EMAIL_RE);
+
+    const [post] = posts as any[];
+    expect(post.title).toBe('Post 0');
+    expect(users.map((user) => user._id)).toContain(post.authorId);
+    expect(post.tags.length).toBeGreaterThan(0);
+    expect(typeof post.meta.views).toBe('number');
+    expect(typeof post.publishedAt).toBe('number');
+    expect(post.status).toBe('draft');
+
+    expect(posts).toHaveLength(4);
+    expect(posts.map((row: any) => row.title)).toContain(
+      (comments[0] as any).postTitle
+    );
+  });
+
+  test('the same seed number writes the same values', async () => {
+    const first = await runSeed(42);
+    const second = await runSeed(42);
+    const other = await runSeed(7);
+
+    const pickValues = (run: typeof first) =>
+      run.users.map((user: any) => [user.name, user.email]);
+    expect(pickValues(second)).toEqual(pickValues(first));
+    expect(pickValues(other)).not.toEqual(pickValues(first));
+  });
+
+  test('run rejects a missing seed definition', async () => {
+    const handlers = createSeedHandlers({
+      schema: relations,
+      seed: undefined,
+      getOrm: () => undefined as any,
+      getChunkRef: () => undefined,
+    });
+
+    await expect(
+      handlers.run({ runMutation: async () => ({}) })
+    ).rejects.toThrow('No seed configured.');
+  });
+});
@@ -25,6 +25,17 @@ export type OrmTableDeleteConfig = {
   delayMs?: number;
 };
 
+export type OrmTableHistoryConfig = {
+  retainMs?: number;
+  actor?: (ctx: any) => string | null | undefined;
+};
+
+export type OrmTenancyMode = 'scoped' | 'shared';
+
+export type OrmTableTenancyConfig = {
+  mode: OrmTenancyMode;
+};
+
 export type OrmRuntimeOptions = {
   strict?: boolean;
   defaults?: OrmRuntimeDefaults;
@@ -49,7 +60,12 @@ export const Relations = Symbol.for('kitcn:Relations');
 export const OrmContext = Symbol.for('kitcn:OrmContext');
 export const RlsPolicies = Symbol.for('kitcn:RlsPolicies');
 export const EnableRLS = Symbol.for('kitcn:EnableRLS');
+export const ColumnPolicies = Symbol.for('kitcn:ColumnPolicies');
 export const TableDeleteConfig = Symbol.for('kitcn:TableDeleteConfig');
+export const TableHistoryConfig = Symbol.for('kitcn:TableHistoryConfig');
+export const TableViewConfig = Symbol.for('kitcn:TableViewConfig');
+export const TableCdcConfig = Symbol.for('kitcn:TableCdcConfig');
+export const TableTenancyConfig = Symbol.for('kitcn:TableTenancyConfig');
 export const TablePolymorphic = Symbol.for('kitcn:TablePolymorphic');
 export const OrmSchemaOptions = Symbol.for('kitcn:OrmSchemaOptions');
 export const OrmSchemaDefinition = Symbol.for('kitcn:OrmSchemaDefinition');
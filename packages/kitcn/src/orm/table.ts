@@ -6,6 +6,13 @@ import type {
 } from 'convex/server';
 import type { Validator } from 'convex/values';
 import { v } from 'convex/values';
+import { type Duration, toMs } from '../ratelimit/duration';
+import {
+  AGGREGATE_BUCKET_UNITS,
+  type AggregateBucketDefinition,
+  assertBucketTimeZone,
+  isAggregateBucketUnit,
+} from './aggregate-index/time-bucket';
 import type {
   $Type,
   ColumnBuilder,
@@ -30,9 +37,12 @@ import type {
   ConvexUniqueConstraintBuilderOn,
 } from './constraints';
 import type { FilterExpression } from './filter-expression';
+import { geoIndexField } from './geo';
 import type {
   ConvexAggregateIndexBuilder,
   ConvexAggregateIndexBuilderOn,
+  ConvexGeoIndexBuilder,
+  ConvexGeoIndexBuilderOn,
   ConvexIndexBuilder,
   ConvexIndexBuilderOn,
   ConvexIndexColumn,
@@ -43,19 +53,25 @@ import type {
   ConvexVectorIndexBuilder,
   ConvexVectorIndexBuilderOn,
 } from './indexes';
-import type { RlsPolicy } from './rls/policies';
-import { isRlsPolicy } from './rls/policies';
+import type { ColumnPolicy, RlsPolicy } from './rls/policies';
+import { isColumnPolicy, isRlsPolicy } from './rls/policies';
 import {
   Brand,
+  ColumnPolicies,
   Columns,
   EnableRLS,
   type OrmDeleteMode,
   type OrmTableDeleteConfig,
+  type OrmTableHistoryConfig,
+  type OrmTableTenancyConfig,
+  type OrmTenancyMode,
   RlsPolicies,
   TableDeleteConfig,
+  TableHistoryConfig,
   TableName,
   TablePolymorphic,
   type TablePolymorphicConfigRuntime,
+  TableTenancyConfig,
 } from './symbols';
 
 /**
@@ -295,7 +311,8 @@ export function discriminator(
 
 export type ConvexTableExtraConfigValue =
   | ConvexIndexBuilder
-  | ConvexAggregateIndexBuilder
+  | ConvexGeoIndexBuilder
+  | ConvexAggregateIndexBuilder<string, ConvexIndexColumn[], ConvexIndexColumn>
   | ConvexRankIndexBuilder
   | ConvexSearchIndexBuilder
   | ConvexVectorIndexBuilder
@@ -303,7 +320,10 @@ export type ConvexTableExtraConfigValue =
   | ConvexCheckBuilder
   | ConvexUniqueConstraintBuilder
   | ConvexDeletionBuilder
-  | RlsPolicy;
+  | ConvexHistoryBuilder
+  | ConvexTenancyBuilder
+  | RlsPolicy
+  | ColumnPolicy;
 export type ConvexTableExtraConfig = Record<
   string,
   ConvexTableExtraConfigValue
@@ -353,7 +373,15 @@ type InferDbIndexRecordFromExtraValue<TValue> =
     boolean
   >
     ? Record<TName, IndexFieldTupleFromColumns<TColumns>>
-    : {};
+    : TValue extends ConvexGeoIndexBuilder<
+          infer TName extends string,
+          infer TPointField extends ConvexIndexColumn
+        >
+      ? Record<
+          TName,
+          [`${ColumnNameFromBuilder<TPointField>}.geohash`, '_creationTime']
+        >
+      : {};
 
 type SearchFilterFieldsUnionFromColumns<
   TColumns extends readonly ConvexIndexColumn[],
@@ -398,12 +426,25 @@ type InferVectorIndexRecordFromExtraValue<TValue> =
       >
     : {};
 
+/** Type-level shape of one aggregateIndex: its `.on()` fields and bucket field. */
+export type AggregateIndexFieldSet = {
+  fields: string;
+  bucket: string;
+};
+
 type InferAggregateIndexRecordFromExtraValue<TValue> =
   TValue extends ConvexAggregateIndexBuilder<
     infer TName extends string,
-    infer TColumns extends readonly ConvexIndexColumn[]
+    infer TColumns extends readonly ConvexIndexColumn[],
+    infer TBucketColumn extends ConvexIndexColumn
   >
-    ? Record<TName, AggregateFieldUnionFromColumns<TColumns>>
+    ? Record<
+        TName,
+        {
+          fields: AggregateFieldUnionFromColumns<TColumns>;
+          bucket: ColumnNameFromBuilder<TBucketColumn>;
+        }
+      >
     : {};
 
 type InferredDbIndexesFromExtraConfig<TExtraConfig> = UnionToIntersection<
@@ -466,7 +507,9 @@ type NormalizeVectorIndexMap<TIndexMap> = {
 type NormalizeAggregateIndexMap<TIndexMap> = {
   [K in keyof TIndexMap as K extends string
     ? K
-    : never]: TIndexMap[K] extends string ? TIndexMap[K] : never;
+    : never]: TIndexMap[K] extends AggregateIndexFieldSet
+    ? TIndexMap[K]
+    : never;
 };
 
 type InferDbIndexesFromExtraConfig<TExtraConfig> = SimplifyObject<
@@ -508,6 +551,11 @@ export type ConvexDeletionConfig = {
   delayMs?: number;
 };
 
+export type ConvexHistoryConfig = {
+  retain?: Duration;
+  actor?: (ctx: any) => string | null | undefined;
+};
+
 export type OrmLifecycleOperation = 'insert' | 'update' | 'delete';
 
 type OrmLifecycleChangeId<TDoc> = TDoc extends { _id: infer TId }
@@ -566,6 +614,47 @@ export function deletion(
   });
 }
 
+export class ConvexHistoryBuilder {
+  static readonly [entityKind] = 'ConvexHistoryBuilder';
+  readonly [entityKind] = 'ConvexHistoryBuilder';
+
+  constructor(readonly config: OrmTableHistoryConfig) {}
+}
+
+/**
+ * Record every insert, update and delete into a companion `<table>_history`
+ * table. `retain` bounds how long entries live once the prune worker runs;
+ * `actor` resolves who made the change from the request context.
+ */
+export function history(options?: ConvexHistoryConfig): ConvexHistoryBuilder {
+  if (options?.actor !== undefined && typeof options.actor !== 'function') {
+    throw new Error('history() actor must be a function.');
+  }
+  return new ConvexHistoryBuilder({
+    retainMs: options?.retain === undefined ? undefined : toMs(options.retain),
+    actor: options?.actor,
+  });
+}
+
+export class ConvexTenancyBuilder {
+  static readonly [entityKind] = 'ConvexTenancyBuilder';
+  readonly [entityKind] = 'ConvexTenancyBuilder';
+
+  constructor(readonly config: OrmTableTenancyConfig) {}
+}
+
+/**
+ * Per-table tenancy for createOrm({ tenancy }). Tables with the tenant column
+ * are scoped by default; 'shared' opts one out, 'scoped' makes createOrm()
+ * throw if the table lacks the column.
+ */
+export function tenancy(mode: OrmTenancyMode): ConvexTenancyBuilder {
+  if (mode !== 'scoped' && mode !== 'shared') {
+    throw new Error("tenancy() mode must be 'scoped' or 'shared'.");
+  }
+  return new ConvexTenancyBuilder({ mode });
+}
+
 function isConvexIndexBuilder(value: unknown): value is ConvexIndexBuilder {
   return (
     typeof value === 'object' &&
@@ -582,6 +671,27 @@ function isConvexIndexBuilderOn(value: unknown): value is ConvexIndexBuilderOn {
   );
 }
 
+function isConvexGeoIndexBuilder(
+  value: unknown
+): value is ConvexGeoIndexBuilder {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { [entityKind]?: string })[entityKind] === 'ConvexGeoIndexBuilder'
+  );
+}
+
+function isConvexGeoIndexBuilderOn(
+  value: unknown
+): value is ConvexGeoIndexBuilderOn {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { [entityKind]?: string })[entityKind] ===
+      'ConvexGeoIndexBuilderOn'
+  );
+}
+
 function isConvexAggregateIndexBuilder(
   value: unknown
 ): value is ConvexAggregateIndexBuilder {
@@ -721,6 +831,22 @@ function isConvexDeletionBuilder(
   );
 }
 
+function isConvexHistoryBuilder(value: unknown): value is ConvexHistoryBuilder {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { [entityKind]?: string })[entityKind] === 'ConvexHistoryBuilder'
+  );
+}
+
+function isConvexTenancyBuilder(value: unknown): value is ConvexTenancyBuilder {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { [entityKind]?: string })[entityKind] === 'ConvexTenancyBuilder'
+  );
+}
+
 function isConvexLifecycleBuilder(value: unknown): boolean {
   return (
     typeof value === 'object' &&
@@ -795,10 +921,36 @@ function assertNoReservedCreatedAtIndexFields(
   }
 }
 
+/**
+ * Randomized encrypted() columns hold unique ciphertext per write, so an
+ * index over them can never match a lookup.
+ */
+function assertIndexableColumns(
+  columns: readonly ColumnBuilderBase[],
+  context: string
+): void {
+  for (const column of columns) {
+    if ((column as any).config?.encrypted === 'randomized') {
+      throw new Error(
+        `${context} cannot use randomized encrypted column '${getColumnName(
+          column
+        )}'. Use encrypted({ mode: 'deterministic' }) to index it.`
+      );
+    }
+  }
+}
+
 function assertSearchFieldType(
   column: ColumnBuilderBase,
   indexName: string
 ): void {
+  if ((column as any).config?.encrypted) {
+    throw new Error(
+      `Search index '${indexName}' cannot use encrypted column '${getColumnName(
+        column
+      )}'.`
+    );
+  }
   const columnType = getColumnType(column) ?? 'unknown';
   if (columnType !== 'ConvexText') {
     throw new Error(
@@ -823,14 +975,51 @@ function assertVectorFieldType(
   }
 }
 
+function assertGeoFieldType(
+  column: ColumnBuilderBase,
+  indexName: string
+): void {
+  const columnType = getColumnType(column) ?? 'unknown';
+  if (columnType !== 'ConvexPoint') {
+    throw new Error(
+      `Geo index '${indexName}' requires a point() column. Field '${getColumnName(
+        column
+      )}' is type '${columnType}'.`
+    );
+  }
+}
+
 function assertAggregateSumFieldType(
   column: ColumnBuilderBase,
   indexName: string
 ): void {
   const columnType = getColumnType(column) ?? 'unknown';
-  if (!['ConvexNumber', 'ConvexTimestamp'].includes(columnType)) {
+  if (
+    !['ConvexNumber', 'ConvexTimestamp', 'ConvexDecimal'].includes(columnType)
+  ) {
+    throw new Error(
+      `aggregateIndex '${indexName}' sum() supports integer()/timestamp()/decimal() columns only. Field '${getColumnName(
+        column
+      )}' is type '${columnType}'.`
+    );
+  }
+}
+
+function assertAggregateBucketFieldType(
+  column: ColumnBuilderBase,
+  indexName: string
+): void {
+  const columnType = getColumnType(column) ?? 'unknown';
+  if (
+    ![
+      'ConvexNumber',
+      'ConvexTimestamp',
+      'ConvexSystemCreatedAt',
+      'ConvexSystemCreationTime',
+    ].includes(columnType)
+  ) {
     throw new Error(
-      `aggregateIndex '${indexName}' sum() supports integer()/timestamp() columns only. Field '${getColumnName(
+      `aggregateIndex '${indexName}' bucket() supports timestamp()/integer()/createdAt columns only. Field '${getColumnName(
         column
       )}' is type '${columnType}'.`
     );
@@ -842,9 +1031,11 @@ function assertAggregateAvgFieldType(
   indexName: string
 ): void {
   const columnType = getColumnType(column) ?? 'unknown';
-  if (!['ConvexNumber', 'ConvexTimestamp'].includes(columnType)) {
+  if (
+    !['ConvexNumber', 'ConvexTimestamp', 'ConvexDecimal'].includes(columnType)
+  ) {
     throw new Error(
-      `aggregateIndex '${indexName}' avg() supports integer()/timestamp() columns only. Field '${getColumnName(
+      `aggregateIndex '${indexName}' avg() supports integer()/timestamp()/decimal() columns only. Field '${getColumnName(
         column
       )}' is type '${columnType}'.`
     );
@@ -1120,6 +1311,12 @@ function applyExtraConfig<T extends TableConfig>(
       );
     }
 
+    if (isConvexGeoIndexBuilderOn(entry)) {
+      throw new Error(
+        `Invalid geo index definition on '${table.tableName}'. Did you forget to call .on(...)?`
+      );
+    }
+
     if (isConvexAggregateIndexBuilderOn(entry)) {
       throw new Error(
         `Invalid aggregate index definition on '${table.tableName}'. Did you forget to call .on(...) or .all()?`
@@ -1157,6 +1354,21 @@ function applyExtraConfig<T extends TableConfig>(
       continue;
     }
 
+    if (isColumnPolicy(entry)) {
+      entry._columnNames = entry.columns.map((column) =>
+        assertColumnInTable(
+          column,
+          table.tableName,
+          `Column policy '${entry.name}'`
+        )
+      );
+      const policies =
+        ((table as any)[ColumnPolicies] as ColumnPolicy[] | undefined) ?? [];
+      policies.push(entry);
+      (table as any)[ColumnPolicies] = policies;
+      continue;
+    }
+
     if (isConvexDeletionBuilder(entry)) {
       if ((table as any)[TableDeleteConfig]) {
         throw new Error(
@@ -1170,6 +1382,31 @@ function applyExtraConfig<T extends TableConfig>(
       continue;
     }
 
+    if (isConvexHistoryBuilder(entry)) {
+      if ((table as any)[TableHistoryConfig]) {
+        throw new Error(
+          `Only one history(...) config can be defined for '${table.tableName}'.`
+        );
+      }
+      (table as any)[TableHistoryConfig] = {
+        retainMs: entry.config.retainMs,
+        actor: entry.config.actor,
+      } satisfies OrmTableHistoryConfig;
+      continue;
+    }
+
+    if (isConvexTenancyBuilder(entry)) {
+      if ((table as any)[TableTenancyConfig]) {
+        throw new Error(
+          `Only one tenancy(...) config can be defined for '${table.tableName}'.`
+        );
+      }
+      (table as any)[TableTenancyConfig] = {
+        mode: entry.config.mode,
+      } satisfies OrmTableTenancyConfig;
+      continue;
+    }
+
     if (isConvexLifecycleBuilder(entry)) {
       throw new Error(
         `Lifecycle hooks are no longer supported inside convexTable('${table.tableName}', ..., extraConfig). Export schema triggers with defineTriggers(relations, { ... }) from schema.ts.`
@@ -1193,6 +1430,7 @@ function applyExtraConfig<T extends TableConfig>(
         assertColumnInTable(column, table.tableName, `Index '${name}'`)
       );
       assertNoReservedCreatedAtIndexFields(fields, `Index '${name}'`);
+      assertIndexableColumns(columns, `Index '${name}'`);
 
       table.addIndex(name, fields);
       if (unique) {
@@ -1201,6 +1439,18 @@ function applyExtraConfig<T extends TableConfig>(
       continue;
     }
 
+    if (isConvexGeoIndexBuilder(entry)) {
+      const { name, pointField } = entry.config;
+      const field = assertColumnInTable(
+        pointField,
+        table.tableName,
+        `Geo index '${name}'`
+      );
+      assertGeoFieldType(pointField, name);
+      table.addIndex(name, [geoIndexField(field)]);
+      continue;
+    }
+
     if (isConvexAggregateIndexBuilder(entry)) {
       const {
         name,
@@ -1210,6 +1460,7 @@ function applyExtraConfig<T extends TableConfig>(
         avgFields,
         minFields,
         maxFields,
+        bucket,
       } = entry.config;
       const fields = columns.map((column) =>
         assertColumnInTable(
@@ -1220,6 +1471,32 @@ function applyExtraConfig<T extends TableConfig>(
       );
       assertNoReservedCreatedAtIndexFields(fields, `Aggregate index '${name}'`);
 
+      let resolvedBucket: AggregateBucketDefinition | undefined;
+      if (bucket) {
+        const field = assertColumnInTable(
+          bucket.column,
+          table.tableName,
+          `Aggregate index '${name}' bucket`
+        );
+        assertNoReservedCreatedAtIndexFields(
+          [field],
+          `Aggregate index '${name}' bucket`
+        );
+        assertAggregateBucketFieldType(bucket.column, name);
+        if (!isAggregateBucketUnit(bucket.unit)) {
+          throw new Error(
+            `aggregateIndex '${name}' bucket() unit must be one of ${AGGREGATE_BUCKET_UNITS.join(', ')}. Got '${String(bucket.unit)}'.`
+          );
+        }
+        if (fields.includes(field)) {
+          throw new Error(
+            `aggregateIndex '${name}' bucket() field '${field}' cannot also be an on() field.`
+          );
+        }
+        assertBucketTimeZone(bucket.tz);
+        resolvedBucket = { field, unit: bucket.unit, tz: bucket.tz };
+      }
+
       const resolvedCountFields = dedupeFieldNames(
         countFields.map((column) =>
           assertColumnInTable(
@@ -1301,6 +1578,7 @@ function applyExtraConfig<T extends TableConfig>(
         avgFields: resolvedAvgFields,
         minFields: resolvedMinFields,
         maxFields: resolvedMaxFields,
+        ...(resolvedBucket ? { bucket: resolvedBucket } : {}),
       });
       continue;
     }
@@ -1368,6 +1646,7 @@ function applyExtraConfig<T extends TableConfig>(
         assertColumnInTable(column, table.tableName, 'Unique constraint')
       );
       assertNoReservedCreatedAtIndexFields(fields, 'Unique constraint');
+      assertIndexableColumns(columns, 'Unique constraint');
       const indexName = getUniqueIndexName(table.tableName, fields, name);
       table.addIndex(indexName, fields);
       table.addUniqueIndex(indexName, fields, nullsNotDistinct);
@@ -1543,6 +1822,7 @@ class ConvexTableImpl<T extends TableConfig> {
     avgFields: string[];
     minFields: string[];
     maxFields: string[];
+    bucket?: AggregateBucketDefinition;
   }[] = [];
   private rankIndexes: {
     name: string;
@@ -1572,7 +1852,10 @@ class ConvexTableImpl<T extends TableConfig> {
   [Brand] = 'ConvexTable' as const;
   [EnableRLS] = false;
   [RlsPolicies]: RlsPolicy[] = [];
+  [ColumnPolicies]: ColumnPolicy[] = [];
   [TableDeleteConfig]?: OrmTableDeleteConfig;
+  [TableHistoryConfig]?: OrmTableHistoryConfig;
+  [TableTenancyConfig]?: OrmTableTenancyConfig;
   [TablePolymorphic]?: readonly TablePolymorphicConfigRuntime[];
 
   /**
@@ -1593,6 +1876,13 @@ class ConvexTableImpl<T extends TableConfig> {
           `Column name '${columnName}' is reserved. System fields are managed by Convex ORM.`
         );
       }
+      // Columns are copied onto the table object, so they must not replace
+      // its own fields and methods.
+      if (columnName === 'tableName' || columnName in this) {
+        throw new Error(
+          `Column name '${columnName}' on '${name}' shadows a table property. Rename the column.`
+        );
+      }
     }
 
     this[TableName] = name;
@@ -1639,6 +1929,10 @@ class ConvexTableImpl<T extends TableConfig> {
         | undefined;
 
       if (config?.isUnique) {
+        assertIndexableColumns(
+          [builder as ColumnBuilderBase],
+          `Unique column '${columnName}'`
+        );
         const indexName = getUniqueIndexName(
           name,
           [columnName],
@@ -1707,6 +2001,7 @@ class ConvexTableImpl<T extends TableConfig> {
       avgFields: string[];
       minFields: string[];
       maxFields: string[];
+      bucket?: AggregateBucketDefinition;
     }
   ): void {
     if (
@@ -1725,6 +2020,7 @@ class ConvexTableImpl<T extends TableConfig> {
       avgFields: config.avgFields,
       minFields: config.minFields,
       maxFields: config.maxFields,
+      ...(config.bucket ? { bucket: config.bucket } : {}),
     });
   }
 
@@ -1763,6 +2059,7 @@ class ConvexTableImpl<T extends TableConfig> {
     avgFields: string[];
     minFields: string[];
     maxFields: string[];
+    bucket?: AggregateBucketDefinition;
   }[] {
     return [...this.aggregateIndexes];
   }
@@ -2056,7 +2353,7 @@ export interface ConvexTable<
   Indexes extends GenericTableIndexes = {},
   SearchIndexes extends GenericTableSearchIndexes = {},
   VectorIndexes extends GenericTableVectorIndexes = {},
-  AggregateIndexes extends Record<string, string> = {},
+  AggregateIndexes extends Record<string, AggregateIndexFieldSet> = {},
 > extends TableDefinition<
     Validator<any, any, any>,
     Indexes,
@@ -2097,7 +2394,10 @@ export interface ConvexTable<
   [Brand]: 'ConvexTable';
   [RlsPolicies]: RlsPolicy[];
   [EnableRLS]: boolean;
+  [ColumnPolicies]: ColumnPolicy[];
   [TableDeleteConfig]?: OrmTableDeleteConfig;
+  [TableHistoryConfig]?: OrmTableHistoryConfig;
+  [TableTenancyConfig]?: OrmTableTenancyConfig;
   [TablePolymorphic]?: readonly TablePolymorphicConfigRuntime[];
 }
 
@@ -2112,7 +2412,7 @@ export type ConvexTableWithColumns<
   Indexes extends GenericTableIndexes = {},
   SearchIndexes extends GenericTableSearchIndexes = {},
   VectorIndexes extends GenericTableVectorIndexes = {},
-  AggregateIndexes extends Record<string, string> = {},
+  AggregateIndexes extends Record<string, AggregateIndexFieldSet> = {},
 > = ConvexTable<T, Indexes, SearchIndexes, VectorIndexes, AggregateIndexes> & {
   [Key in keyof T['columns']]: T['columns'][Key];
 } & SystemFields<T['name']> &
@@ -0,0 +1,86 @@
+import { text } from './builders/text';
+import { convexTable, tenancy } from './table';
+import {
+  applyTenantToWrite,
+  assertTenancyColumns,
+  createOrmTenancy,
+  getTenantColumn,
+  resolveTenantScope,
+} from './tenancy';
+
+const projects = convexTable('tenancy_unit_projects', {
+  name: text(),
+  organizationId: text(),
+});
+const plans = convexTable(
+  'tenancy_unit_plans',
+  { name: text(), organizationId: text() },
+  () => [tenancy('shared')]
+);
+const orgs = convexTable('tenancy_unit_orgs', { name: text() });
+
+const createTenancy = (tenant: unknown) =>
+  createOrmTenancy(
+    { column: 'organizationId', resolve: (ctx) => ctx.tenant },
+    () => ({ tenant })
+  );
+
+describe('tenancy', () => {
+  test('scopes tables with the tenant column unless shared or skipped', () => {
+    const runtime = createTenancy('org_a');
+
+    expect(getTenantColumn(projects, runtime, undefined)).toBe(
+      'organizationId'
+    );
+    expect(getTenantColumn(plans, runtime, undefined)).toBeUndefined();
+    expect(getTenantColumn(orgs, runtime, undefined)).toBeUndefined();
+    expect(
+      getTenantColumn(projects, runtime, { mode: 'skip' })
+    ).toBeUndefined();
+  });
+
+  test('resolveTenantScope fails closed', async () => {
+    await expect(
+      resolveTenantScope(projects, { tenancy: createTenancy(undefined) })
+    ).rejects.toThrow("No tenant resolved for 'tenancy_unit_projects'.");
+    expect(
+      await resolveTenantScope(orgs, { tenancy: createTenancy(undefined) })
+    ).toBeUndefined();
+  });
+
+  test('applyTenantToWrite stamps and guards the tenant column', async () => {
+    const scope = await resolveTenantScope(projects, {
+      tenancy: createTenancy('org_a'),
+    });
+
+    expect(
+      applyTenantToWrite(projects, scope, { name: 'x' }, { stamp: true })
+    ).toEqual({ name: 'x', organizationId: 'org_a' });
+    expect(
+      applyTenantToWrite(projects, scope, { name: 'x' }, { stamp: false })
+    ).toEqual({ name: 'x' });
+    expect(() =>
+      applyTenantToWrite(
+        projects,
+        scope,
+        { organizationId: 'org_b' },
+        { stamp: true }
+      )
+    ).toThrow(
+      "Cannot write organizationId 'org_b' to 'tenancy_unit_projects' outside the current tenant."
+    );
+  });
+
+  test('assertTenancyColumns rejects scoped tables without the column', () => {
+    const scoped = convexTable('tenancy_unit_scoped', { name: text() }, () => [
+      tenancy('scoped'),
+    ]);
+
+    expect(() =>
+      assertTenancyColumns([projects, orgs], 'organizationId')
+    ).not.toThrow();
+    expect(() => assertTenancyColumns([scoped], 'organizationId')).toThrow(
+      "Table 'tenancy_unit_scoped' uses tenancy('scoped') but has no 'organizationId' column."
+    );
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Multi-tenancy - createOrm({ tenancy: { column, resolve } })
+ *
+ * Every table that has the tenant column is scoped unless it opts out with
+ * tenancy('shared'). Reads and mutations get an `eq(column, tenant)` filter
+ * before planning, so tenant-prefixed indexes and aggregate indexes serve
+ * them; inserts are stamped with the tenant. When no tenant resolves, scoped
+ * operations throw instead of running unscoped. skipRules bypasses tenancy
+ * like it bypasses RLS.
+ */
+
+import { column, eq, type FilterExpression } from './filter-expression';
+import type { OrmContextValue } from './mutation-utils';
+import { getTableColumns, getTableName } from './mutation-utils';
+import type { RlsContext } from './rls/types';
+import type { OrmTableTenancyConfig } from './symbols';
+import { TableTenancyConfig } from './symbols';
+import type { ConvexTable } from './table';
+
+export type OrmTenancyOptions = {
+  /** Column holding the tenant id on scoped tables, e.g. 'organizationId'. */
+  column: string;
+  /**
+   * Current tenant for the request context (`rls.ctx`, or the ctx passed to
+   * orm.with()). Return null or undefined when there is none.
+   */
+  resolve: (ctx: any) => unknown | Promise<unknown>;
+};
+
+/** Runtime tenancy bound to one orm.db(ctx) call. */
+export type OrmTenancy = {
+  column: string;
+  resolve: () => Promise<unknown>;
+};
+
+export type TenantScope = {
+  column: string;
+  tenant: unknown;
+  filter: FilterExpression<boolean>;
+};
+
+export const getTableTenancyConfig = (
+  table: ConvexTable<any>
+): OrmTableTenancyConfig | undefined =>
+  (table as { [TableTenancyConfig]?: OrmTableTenancyConfig })[
+    TableTenancyConfig
+  ];
+
+export function createOrmTenancy(
+  options: OrmTenancyOptions,
+  getCtx: () => unknown
+): OrmTenancy {
+  if (typeof options.column !== 'string' || options.column.length === 0) {
+    throw new Error('tenancy.column must be a non-empty string.');
+  }
+  if (typeof options.resolve !== 'function') {
+    throw new Error('tenancy.resolve must be a function.');
+  }
+  return {
+    column: options.column,
+    resolve: async () => await options.resolve(getCtx()),
+  };
+}
+
+/**
+ * Throws when a table declares tenancy('scoped') but has no tenant column,
+ * so a typo cannot silently leave it unscoped.
+ */
+export function assertTenancyColumns(
+  tables: Iterable<ConvexTable<any>>,
+  column: string
+): void {
+  for (const table of tables) {
+    if (
+      getTableTenancyConfig(table)?.mode === 'scoped' &&
+      !getTableColumns(table)[column]
+    ) {
+      throw new Error(
+        `Table '${getTableName(table)}' uses tenancy('scoped') but has no '${column}' column.`
+      );
+    }
+  }
+}
+
+/** Tenant column for a table, or undefined when it is not scoped. */
+export function getTenantColumn(
+  table: ConvexTable<any>,
+  tenancy: OrmTenancy | undefined,
+  rls: RlsContext | undefined
+): string | undefined {
+  if (!tenancy || rls?.mode === 'skip') {
+    return;
+  }
+  if (getTableTenancyConfig(table)?.mode === 'shared') {
+    return;
+  }
+  return getTableColumns(table)[tenancy.column] ? tenancy.column : undefined;
+}
+
+/**
+ * Resolve the tenant scope for a table. Fails closed: a scoped table with no
+ * resolved tenant throws.
+ */
+export async function resolveTenantScope(
+  table: ConvexTable<any>,
+  ormContext: Pick<OrmContextValue, 'tenancy' | 'rls'> | undefined,
+  rls: RlsContext | undefined = ormContext?.rls
+): Promise<TenantScope | undefined> {
+  const tenancy = ormContext?.tenancy;
+  const columnName = getTenantColumn(table, tenancy, rls);
+  if (!columnName) {
+    return;
+  }
+  const tenant = await tenancy!.resolve();
+  if (tenant === null || tenant === undefined || tenant === '') {
+    throw new Error(
+      `No tenant resolved for '${getTableName(table)}'. tenancy.resolve(ctx) must return the current tenant; use skipRules for cross-tenant access.`
+    );
+  }
+  const builder = getTableColumns(table)[columnName] as any;
+  return {
+    column: columnName,
+    tenant,
+    filter: eq(column(builder, columnName), tenant as never),
+  };
+}
+
+/** Stamp the tenant on a write; rejects values that point at another tenant. */
+export function applyTenantToWrite<T extends Record<string, unknown>>(
+  table: ConvexTable<any>,
+  scope: TenantScope | undefined,
+  values: T,
+  { stamp }: { stamp: boolean }
+): T {
+  if (!scope) {
+    return values;
+  }
+  const current = values[scope.column];
+  if (current !== undefined && current !== scope.tenant) {
+    throw new Error(
+      `Cannot write ${scope.column} '${String(current)}' to '${getTableName(table)}' outside the current tenant.`
+    );
+  }
+  if (!stamp || current !== undefined) {
+    return values;
+  }
+  return { ...values, [scope.column]: scope.tenant };
+}
+
+/** Drops rows that belong to another tenant. */
+export function filterTenantRows<T extends Record<string, unknown>>(
+  rows: T[],
+  scope: TenantScope | undefined
+): T[] {
+  if (!scope) {
+    return rows;
+  }
+  return rows.filter((row) => row[scope.column] === scope.tenant);
+}
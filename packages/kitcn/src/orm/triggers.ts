@@ -1,4 +1,5 @@
-import type { GenericDatabaseWriter } from 'convex/server';
+import type { GenericDatabaseWriter, Scheduler } from 'convex/server';
+import { compareValues, type Value } from 'convex/values';
 import type { OrmWriter } from './database';
 import type {
   TableRelationalConfig,
@@ -10,7 +11,8 @@ import type { InferInsertModel, InferSelectModel } from './types';
 type MaybePromise<T> = T | Promise<T>;
 type AnyRecord = Record<string, unknown>;
 type OperationHook = 'create' | 'update' | 'delete';
-type TableTriggerKey = OperationHook | 'change';
+type TableTriggerKey = OperationHook | 'change' | 'deferred';
+type TriggerFilterKey = 'columns' | 'when' | 'priority';
 
 type KnownKeys<T> = {
   [K in keyof T]-?: string extends K
@@ -58,6 +60,18 @@ export type OrmTriggerContext<
   orm: OrmWriter<TSchema>;
 };
 
+/** Context of a deferred trigger, which runs in its own internal mutation. */
+export type OrmDeferredTriggerContext<TSchema extends TablesRelationalConfig> =
+  {
+    db: GenericDatabaseWriter<any>;
+    orm: OrmWriter<TSchema>;
+    scheduler: Scheduler;
+    /** Queue entry id; stable across retries of the same change. */
+    changeId: string;
+    /** 1 on the first run. */
+    attempt: number;
+  };
+
 type TriggerChangeId<TDoc> = TDoc extends { _id: infer TId }
   ? TId
   : TDoc extends { id: infer TId }
@@ -94,12 +108,40 @@ type OrmChangeHook<TDoc extends AnyRecord, TCtx extends object> =
       (change: OrmTriggerChange<TDoc>, ctx: TCtx): MaybePromise<void>;
     };
 
-export type OrmTableTriggers<
+type OrmDeferredHandler<TDoc extends AnyRecord, TCtx extends object> = (
+  change: OrmTriggerChange<TDoc>,
+  ctx: TCtx
+) => MaybePromise<void>;
+
+export type OrmDeferredTriggerConfig<
+  TDoc extends AnyRecord,
+  TCtx extends object,
+> = {
+  handler: OrmDeferredHandler<TDoc, TCtx>;
+  /** Runs before the change is dead-lettered. Default 5. */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled on each later one. Default 1s. */
+  backoffMs?: number;
+  /** Upper bound for the retry delay. Default 5 minutes. */
+  maxBackoffMs?: number;
+};
+
+export type OrmTableTriggerHandler<
   TDoc extends AnyRecord,
   TInsert extends AnyRecord,
   TUpdate extends AnyRecord,
   TCtx extends object,
+  TDeferredCtx extends object = TCtx,
 > = {
+  /**
+   * Run `after`, `change` and `deferred` hooks for updates only when one of
+   * these columns changed. Inserts and deletes always match.
+   */
+  columns?: readonly Extract<keyof TDoc, string>[];
+  /** Run `after`, `change` and `deferred` hooks only when this returns true. */
+  when?: (change: OrmTriggerChange<TDoc>) => boolean;
+  /** Higher runs first. Default 0; ties run in declaration order. */
+  priority?: number;
   create?: {
     before?: OrmBeforeHook<TInsert, TCtx>;
     after?: OrmAfterHook<TDoc, TCtx>;
@@ -113,6 +155,24 @@ export type OrmTableTriggers<
     after?: OrmAfterHook<TDoc, TCtx>;
   };
   change?: OrmChangeHook<TDoc, TCtx>;
+  /** Runs after commit, with retries. See OrmDeferredTriggerConfig. */
+  deferred?:
+    | OrmDeferredHandler<TDoc, TDeferredCtx>
+    | OrmDeferredTriggerConfig<TDoc, TDeferredCtx>;
+};
+
+export type OrmTableTriggers<
+  TDoc extends AnyRecord,
+  TInsert extends AnyRecord,
+  TUpdate extends AnyRecord,
+  TCtx extends object,
+  TDeferredCtx extends object = TCtx,
+> = OrmTableTriggerHandler<TDoc, TInsert, TUpdate, TCtx, TDeferredCtx> & {
+  /** Named handlers, each with its own filters and priority. */
+  handlers?: Record<
+    string,
+    OrmTableTriggerHandler<TDoc, TInsert, TUpdate, TCtx, TDeferredCtx>
+  >;
 };
 
 export type OrmTriggers<
@@ -123,7 +183,8 @@ export type OrmTriggers<
     TriggerDoc<TSchema, TTableName>,
     TriggerInsertData<TSchema, TTableName>,
     TriggerUpdateData<TSchema, TTableName>,
-    OrmTriggerContext<TSchema, TExtraCtx>
+    OrmTriggerContext<TSchema, TExtraCtx>,
+    OrmDeferredTriggerContext<TSchema>
   >;
 };
 
@@ -132,11 +193,32 @@ type RuntimeBeforeHook = (
   ctx: AnyRecord
 ) => MaybePromise<OrmBeforeResult<AnyRecord>>;
 type RuntimeAfterHook = (doc: AnyRecord, ctx: AnyRecord) => MaybePromise<void>;
+type RuntimeChangeMatcher = (change: OrmTriggerChange<AnyRecord>) => boolean;
 type RuntimeChangeHook = (
   change: OrmTriggerChange<AnyRecord>,
   ctx: AnyRecord
 ) => MaybePromise<void>;
 
+export type NormalizedOrmDeferredTrigger = {
+  handler: RuntimeChangeHook;
+  maxAttempts: number;
+  backoffMs: number;
+  maxBackoffMs: number;
+  /** Set when the handler declares `columns` or `when`. */
+  matches?: RuntimeChangeMatcher;
+};
+
+const DEFAULT_DEFERRED_MAX_ATTEMPTS = 5;
+const DEFAULT_DEFERRED_BACKOFF_MS = 1000;
+const DEFAULT_DEFERRED_MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+// `change` lets filtered handlers match without reloading the old doc.
+type NormalizedAfterHook<TCtx> = (
+  doc: AnyRecord,
+  ctx: TCtx,
+  change: OrmTriggerChange<AnyRecord>
+) => MaybePromise<void>;
+
 export type NormalizedOrmTableTriggers<
   TCtx extends Record<string, unknown> = AnyRecord,
 > = {
@@ -145,26 +227,27 @@ export type NormalizedOrmTableTriggers<
       data: AnyRecord,
       ctx: TCtx
     ) => MaybePromise<OrmBeforeResult<AnyRecord>>;
-    after?: (doc: AnyRecord, ctx: TCtx) => MaybePromise<void>;
+    after?: NormalizedAfterHook<TCtx>;
   };
   update?: {
     before?: (
       data: AnyRecord,
       ctx: TCtx
     ) => MaybePromise<OrmBeforeResult<AnyRecord>>;
-    after?: (doc: AnyRecord, ctx: TCtx) => MaybePromise<void>;
+    after?: NormalizedAfterHook<TCtx>;
   };
   delete?: {
     before?: (
       doc: AnyRecord,
       ctx: TCtx
     ) => MaybePromise<OrmBeforeResult<AnyRecord>>;
-    after?: (doc: AnyRecord, ctx: TCtx) => MaybePromise<void>;
+    after?: NormalizedAfterHook<TCtx>;
   };
   change?: (
     change: OrmTriggerChange<AnyRecord>,
     ctx: TCtx
   ) => MaybePromise<void>;
+  deferred?: NormalizedOrmDeferredTrigger;
 };
 
 const TABLE_TRIGGER_KEYS = new Set<TableTriggerKey>([
@@ -172,17 +255,25 @@ const TABLE_TRIGGER_KEYS = new Set<TableTriggerKey>([
   'update',
   'delete',
   'change',
+  'deferred',
+]);
+const TRIGGER_FILTER_KEYS = new Set<TriggerFilterKey>([
+  'columns',
+  'when',
+  'priority',
 ]);
+const HANDLER_ALLOWED_KEYS =
+  'create, update, delete, change, deferred, columns, when, priority';
+const TABLE_ALLOWED_KEYS = `${HANDLER_ALLOWED_KEYS}, handlers`;
 
-const assertRecord = (
+function assertRecord(
   value: unknown,
   message: string
-): value is Record<string, unknown> => {
+): asserts value is Record<string, unknown> {
   if (typeof value !== 'object' || value === null || Array.isArray(value)) {
     throw new Error(message);
   }
-  return true;
-};
+}
 
 const isFunction = (value: unknown): value is (...args: any[]) => unknown =>
   typeof value === 'function';
@@ -225,8 +316,329 @@ const parseOperationHook = (
   };
 };
 
+const parseDeferredOption = (
+  tableName: string,
+  key: 'maxAttempts' | 'backoffMs' | 'maxBackoffMs',
+  value: unknown,
+  fallback: number,
+  min: number
+): number => {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+    throw new Error(
+      `Invalid 'deferred.${key}' for '${tableName}'. Expected an integer >= ${min}.`
+    );
+  }
+  return value;
+};
+
+const parseDeferredHook = (
+  tableName: string,
+  value: unknown
+): NormalizedOrmDeferredTrigger | undefined => {
+  if (value === undefined) {
+    return;
+  }
+  const config = isFunction(value) ? { handler: value } : value;
+  assertRecord(
+    config,
+    `Invalid 'deferred' trigger for '${tableName}'. Expected a function or { handler, maxAttempts?, backoffMs?, maxBackoffMs? }.`
+  );
+  const { handler, maxAttempts, backoffMs, maxBackoffMs } = config as {
+    handler?: unknown;
+    maxAttempts?: unknown;
+    backoffMs?: unknown;
+    maxBackoffMs?: unknown;
+  };
+  if (!isFunction(handler)) {
+    throw new Error(
+      `Invalid 'deferred.handler' for '${tableName}'. Expected a function with signature (change, ctx).`
+    );
+  }
+
+  return {
+    handler: handler as RuntimeChangeHook,
+    maxAttempts: parseDeferredOption(
+      tableName,
+      'maxAttempts',
+      maxAttempts,
+      DEFAULT_DEFERRED_MAX_ATTEMPTS,
+      1
+    ),
+    backoffMs: parseDeferredOption(
+      tableName,
+      'backoffMs',
+      backoffMs,
+      DEFAULT_DEFERRED_BACKOFF_MS,
+      0
+    ),
+    maxBackoffMs: parseDeferredOption(
+      tableName,
+      'maxBackoffMs',
+      maxBackoffMs,
+      DEFAULT_DEFERRED_MAX_BACKOFF_MS,
+      0
+    ),
+  };
+};
+
 const hasAnyHooks = (hooks: NormalizedOrmTableTriggers): boolean =>
-  !!hooks.create || !!hooks.update || !!hooks.delete || !!hooks.change;
+  !!hooks.create ||
+  !!hooks.update ||
+  !!hooks.delete ||
+  !!hooks.change ||
+  !!hooks.deferred;
+
+type ParsedTriggerHandler = {
+  label: string;
+  priority: number;
+  matches?: RuntimeChangeMatcher;
+  hooks: NormalizedOrmTableTriggers;
+};
+
+const columnChanged = (
+  change: OrmTriggerChange<AnyRecord>,
+  column: string
+): boolean => {
+  const oldValue = change.oldDoc?.[column];
+  const newValue = change.newDoc?.[column];
+  if (oldValue === undefined || newValue === undefined) {
+    return oldValue !== newValue;
+  }
+  return compareValues(oldValue as Value, newValue as Value) !== 0;
+};
+
+const parseTriggerMatcher = (
+  label: string,
+  columns: unknown,
+  when: unknown
+): RuntimeChangeMatcher | undefined => {
+  if (
+    columns !== undefined &&
+    (!Array.isArray(columns) ||
+      columns.length === 0 ||
+      !columns.every((column) => typeof column === 'string'))
+  ) {
+    throw new Error(
+      `Invalid 'columns' for '${label}'. Expected a non-empty array of column names.`
+    );
+  }
+  if (when !== undefined && !isFunction(when)) {
+    throw new Error(
+      `Invalid 'when' for '${label}'. Expected a function with signature (change).`
+    );
+  }
+  if (columns === undefined && when === undefined) {
+    return;
+  }
+
+  const watched = columns as string[] | undefined;
+  return (change) => {
+    // Column checks only read the docs the lifecycle already loaded.
+    if (
+      watched &&
+      change.operation === 'update' &&
+      !watched.some((column) => columnChanged(change, column))
+    ) {
+      return false;
+    }
+    return when ? Boolean(when(change)) : true;
+  };
+};
+
+const parseTriggerHandler = (
+  label: string,
+  value: unknown,
+  allowedKeys: string
+): ParsedTriggerHandler => {
+  assertRecord(
+    value,
+    `Invalid triggers entry for '${label}'. Expected an object with create/update/delete/change/deferred keys.`
+  );
+
+  for (const key of Object.keys(value)) {
+    if (
+      !TABLE_TRIGGER_KEYS.has(key as TableTriggerKey) &&
+      !TRIGGER_FILTER_KEYS.has(key as TriggerFilterKey)
+    ) {
+      throw new Error(
+        `Invalid trigger key '${key}' for '${label}'. Allowed keys: ${allowedKeys}.`
+      );
+    }
+  }
+
+  const { columns, when, priority } = value as {
+    columns?: unknown;
+    when?: unknown;
+    priority?: unknown;
+  };
+  if (
+    priority !== undefined &&
+    (typeof priority !== 'number' || !Number.isFinite(priority))
+  ) {
+    throw new Error(
+      `Invalid 'priority' for '${label}'. Expected a finite number.`
+    );
+  }
+  const matches = parseTriggerMatcher(label, columns, when);
+
+  const hooks: NormalizedOrmTableTriggers<Record<string, unknown>> = {
+    create: parseOperationHook(
+      label,
+      'create',
+      (value as { create?: unknown }).create
+    ),
+    update: parseOperationHook(
+      label,
+      'update',
+      (value as { update?: unknown }).update
+    ),
+    delete: parseOperationHook(
+      label,
+      'delete',
+      (value as { delete?: unknown }).delete
+    ),
+  };
+
+  if (
+    matches &&
+    (hooks.create?.before || hooks.update?.before || hooks.delete?.before)
+  ) {
+    throw new Error(
+      `Invalid triggers entry for '${label}'. 'columns' and 'when' do not apply to before hooks; move them to a handler without filters.`
+    );
+  }
+
+  const change = (value as { change?: unknown }).change;
+  if (change !== undefined && !isFunction(change)) {
+    throw new Error(
+      `Invalid 'change' hook for '${label}'. Expected a function with signature (change, ctx).`
+    );
+  }
+  if (change !== undefined) {
+    hooks.change = change as RuntimeChangeHook;
+  }
+  hooks.deferred = parseDeferredHook(
+    label,
+    (value as { deferred?: unknown }).deferred
+  );
+  if (hooks.deferred && matches) {
+    hooks.deferred.matches = matches;
+  }
+
+  return {
+    label,
+    priority: (priority as number | undefined) ?? 0,
+    matches,
+    hooks,
+  };
+};
+
+const composeBeforeHooks = (
+  hooks: RuntimeBeforeHook[]
+): RuntimeBeforeHook | undefined => {
+  if (hooks.length <= 1) {
+    return hooks[0];
+  }
+
+  return async (data, ctx) => {
+    let merged: AnyRecord | undefined;
+    for (const hook of hooks) {
+      const result = await hook(merged ?? data, ctx);
+      if (result === false) {
+        return false;
+      }
+      if (typeof result === 'object' && result !== null && 'data' in result) {
+        merged = { ...(merged ?? data), ...(result.data as AnyRecord) };
+      }
+    }
+    return merged ? { data: merged } : undefined;
+  };
+};
+
+const composeAfterHooks = (
+  entries: { hook: RuntimeAfterHook; matches?: RuntimeChangeMatcher }[]
+): NormalizedAfterHook<AnyRecord> | undefined => {
+  if (entries.length === 0) {
+    return;
+  }
+
+  return async (doc, ctx, change) => {
+    for (const { hook, matches } of entries) {
+      if (!matches || matches(change)) {
+        await hook(doc, ctx);
+      }
+    }
+  };
+};
+
+const composeChangeHooks = (
+  entries: { hook: RuntimeChangeHook; matches?: RuntimeChangeMatcher }[]
+): RuntimeChangeHook | undefined => {
+  if (entries.length === 0) {
+    return;
+  }
+  if (entries.length === 1 && !entries[0].matches) {
+    return entries[0].hook;
+  }
+
+  return async (change, ctx) => {
+    for (const { hook, matches } of entries) {
+      if (!matches || matches(change)) {
+        await hook(change, ctx);
+      }
+    }
+  };
+};
+
+const composeOperationHooks = (
+  handlers: ParsedTriggerHandler[],
+  key: OperationHook
+): NormalizedOrmTableTriggers[OperationHook] => {
+  const before = composeBeforeHooks(
+    handlers.flatMap(({ hooks }) => hooks[key]?.before ?? [])
+  );
+  const after = composeAfterHooks(
+    handlers.flatMap(({ hooks, matches }) => {
+      const hook = hooks[key]?.after as RuntimeAfterHook | undefined;
+      return hook ? [{ hook, matches }] : [];
+    })
+  );
+  if (!before && !after) {
+    return;
+  }
+  return { before, after };
+};
+
+/** Merges a table's handlers into one set of hooks, in priority order. */
+const composeTriggerHandlers = (
+  tableName: string,
+  handlers: ParsedTriggerHandler[]
+): NormalizedOrmTableTriggers<Record<string, unknown>> => {
+  const ordered = [...handlers].sort(
+    (left, right) => right.priority - left.priority
+  );
+  const deferred = ordered.filter(({ hooks }) => hooks.deferred);
+  if (deferred.length > 1) {
+    throw new Error(
+      `Invalid triggers for '${tableName}'. Only one deferred trigger is allowed per table, found ${deferred.map(({ label }) => `'${label}'`).join(', ')}.`
+    );
+  }
+
+  return {
+    create: composeOperationHooks(ordered, 'create'),
+    update: composeOperationHooks(ordered, 'update'),
+    delete: composeOperationHooks(ordered, 'delete'),
+    change: composeChangeHooks(
+      ordered.flatMap(({ hooks, matches }) =>
+        hooks.change ? [{ hook: hooks.change, matches }] : []
+      )
+    ),
+    deferred: deferred[0]?.hooks.deferred,
+  };
+};
 
 export class TriggerCancelledError extends Error {
   readonly tableName: string;
@@ -280,7 +692,7 @@ export function normalizeOrmTriggers<
 
     if (Array.isArray(tableHooks)) {
       throw new Error(
-        `Invalid triggers entry for '${tableName}'. Array-based trigger definitions were removed. Use { create, update, delete, change } shape.`
+        `Invalid triggers entry for '${tableName}'. Array-based trigger definitions were removed. Use { create, update, delete, change } shape, or named { handlers }.`
       );
     }
 
@@ -292,45 +704,32 @@ export function normalizeOrmTriggers<
 
     assertRecord(
       tableHooks,
-      `Invalid triggers entry for '${tableName}'. Expected an object with create/update/delete/change keys.`
+      `Invalid triggers entry for '${tableName}'. Expected an object with create/update/delete/change/deferred keys.`
     );
 
-    for (const key of Object.keys(tableHooks)) {
-      if (!TABLE_TRIGGER_KEYS.has(key as TableTriggerKey)) {
-        throw new Error(
-          `Invalid trigger key '${key}' for '${tableName}'. Allowed keys: create, update, delete, change.`
-        );
-      }
-    }
-
-    const normalized: NormalizedOrmTableTriggers<Record<string, unknown>> = {
-      create: parseOperationHook(
-        tableName,
-        'create',
-        (tableHooks as { create?: unknown }).create
-      ),
-      update: parseOperationHook(
-        tableName,
-        'update',
-        (tableHooks as { update?: unknown }).update
-      ),
-      delete: parseOperationHook(
-        tableName,
-        'delete',
-        (tableHooks as { delete?: unknown }).delete
-      ),
+    const { handlers: namedHandlers, ...topLevel } = tableHooks as {
+      handlers?: unknown;
     };
-
-    const change = (tableHooks as { change?: unknown }).change;
-    if (change !== undefined && !isFunction(change)) {
-      throw new Error(
-        `Invalid 'change' hook for '${tableName}'. Expected a function with signature (change, ctx).`
+    const handlers = [
+      parseTriggerHandler(tableName, topLevel, TABLE_ALLOWED_KEYS),
+    ];
+    if (namedHandlers !== undefined) {
+      assertRecord(
+        namedHandlers,
+        `Invalid 'handlers' for '${tableName}'. Expected an object of named handlers.`
       );
-    }
-    if (change !== undefined) {
-      normalized.change = change as RuntimeChangeHook;
+      for (const [name, handler] of Object.entries(namedHandlers)) {
+        handlers.push(
+          parseTriggerHandler(
+            `${tableName}.handlers.${name}`,
+            handler,
+            HANDLER_ALLOWED_KEYS
+          )
+        );
+      }
     }
 
+    const normalized = composeTriggerHandlers(tableName, handlers);
     if (!hasAnyHooks(normalized)) {
       continue;
     }
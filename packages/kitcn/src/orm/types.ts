@@ -8,19 +8,25 @@ import type {
 import type { GenericId, Value } from 'convex/values';
 import type {
   Assume,
+  DistributiveOmit,
   KnownKeysOnly,
   ReturnTypeOrValue,
   Simplify,
 } from '../internal/types';
+import type { AggregateBucketUnit } from './aggregate-index/time-bucket';
 import type {
   ColumnBuilder,
   ColumnBuilderBase,
+  EqualityFilterValue,
+  UnencryptedFilterValue,
 } from './builders/column-builder';
 import type {
   SystemFieldAliases,
   SystemFields,
 } from './builders/system-fields';
 import type { Column, FilterExpression } from './filter-expression';
+import type { GeoNearFilter, GeoPoint, GeoWithinFilter } from './geo';
+import type { HybridSearchFusion, HybridSearchRanks } from './hybrid-search';
 import type {
   One,
   Relation,
@@ -30,7 +36,7 @@ import type {
   TableRelationalConfig,
   TablesRelationalConfig,
 } from './relations';
-import type { ConvexTable } from './table';
+import type { AggregateIndexFieldSet, ConvexTable } from './table';
 import type { UnsetToken } from './unset-token';
 
 export type {
@@ -239,7 +245,9 @@ type InferInsertModelFromColumns<
   } & {
     [K in keyof TColumns & string as K extends TExcludeKeys
       ? never
-      : OptionalKeyOnly<K, TColumns[K]>]?:
+      : TColumns[K]['_'] extends { generated: true }
+        ? never
+        : OptionalKeyOnly<K, TColumns[K]>]?:
       | GetColumnData<TColumns[K], 'query'>
       | undefined;
   }
@@ -391,16 +399,27 @@ type AggregateIndexMap<
     any,
     any,
     any,
-    infer TAggregateIndexes extends Record<string, string>
+    infer TAggregateIndexes extends Record<string, AggregateIndexFieldSet>
   >
     ? TAggregateIndexes
-    : Record<string, string>;
+    : Record<string, AggregateIndexFieldSet>;
 
 type AggregateIndexedFieldName<
   TTableConfig extends TableRelationalConfig = TableRelationalConfig,
 > = Extract<
   {
-    [K in keyof AggregateIndexMap<TTableConfig>]: AggregateIndexMap<TTableConfig>[K];
+    [K in keyof AggregateIndexMap<TTableConfig>]:
+      | AggregateIndexMap<TTableConfig>[K]['fields']
+      | AggregateIndexMap<TTableConfig>[K]['bucket'];
+  }[keyof AggregateIndexMap<TTableConfig>],
+  string
+>;
+
+type AggregateBucketFieldName<
+  TTableConfig extends TableRelationalConfig = TableRelationalConfig,
+> = Extract<
+  {
+    [K in keyof AggregateIndexMap<TTableConfig>]: AggregateIndexMap<TTableConfig>[K]['bucket'];
   }[keyof AggregateIndexMap<TTableConfig>],
   string
 >;
@@ -586,6 +605,11 @@ export type DBQueryConfig<
    * Only available on tables that declare vector indexes.
    */
   vectorSearch?: VectorQueryConfig<TTableConfig> | undefined;
+  /**
+   * Hybrid text + vector search fused with reciprocal rank fusion.
+   * Only available on tables that declare both index kinds.
+   */
+  hybridSearch?: HybridSearchQueryConfig<TTableConfig> | undefined;
   /**
    * Stream-backed advanced query pipeline.
    */
@@ -613,6 +637,14 @@ export type DBQueryConfig<
      * Allow full scans when no index can be used.
      */
     allowFullScan?: boolean | undefined;
+    /**
+     * Include soft-deleted rows of `deletion('soft')` tables.
+     */
+    withDeleted?: boolean | undefined;
+    /**
+     * Return only soft-deleted rows of `deletion('soft')` tables.
+     */
+    onlyDeleted?: boolean | undefined;
   };
 
 export type CountConfig<
@@ -639,12 +671,26 @@ export type CountConfig<
           | undefined;
       })
     | undefined;
+  /** Include soft-deleted rows of `deletion('soft')` tables. */
+  withDeleted?: boolean | undefined;
+  /** Count only soft-deleted rows of `deletion('soft')` tables. */
+  onlyDeleted?: boolean | undefined;
 };
 
 type AggregateNumericFieldName<TTableConfig extends TableRelationalConfig> = {
   [K in AggregateScalarFieldName<TTableConfig>]: NonNullable<
     GetColumnData<TableColumns<TTableConfig>[K], 'query'>
   > extends number
+    ? K
+    : K extends AggregateDecimalFieldName<TTableConfig>
+      ? K
+      : never;
+}[AggregateScalarFieldName<TTableConfig>];
+
+type AggregateDecimalFieldName<TTableConfig extends TableRelationalConfig> = {
+  [K in AggregateScalarFieldName<TTableConfig>]: TableColumns<TTableConfig>[K] extends {
+    _: { columnType: 'ConvexDecimal' };
+  }
     ? K
     : never;
 }[AggregateScalarFieldName<TTableConfig>];
@@ -669,6 +715,8 @@ export type AggregateConfig<
           | undefined;
       }
     | undefined;
+  /** Include soft-deleted rows of `deletion('soft')` tables. */
+  withDeleted?: boolean | undefined;
   _count?:
     | true
     | ({
@@ -699,15 +747,30 @@ export type AggregateConfig<
     | undefined;
 };
 
+/**
+ * Time-series groupBy: one time field mapped to a bucket unit, served by an
+ * aggregateIndex(...).bucket(...) on that field.
+ */
+export type GroupByTimeBucketInput<
+  TTableConfig extends TableRelationalConfig = TableRelationalConfig,
+> = {
+  [K in AggregateBucketFieldName<TTableConfig>]: {
+    [P in K]: AggregateBucketUnit;
+  };
+}[AggregateBucketFieldName<TTableConfig>];
+
 export type GroupByByInput<
   TTableConfig extends TableRelationalConfig = TableRelationalConfig,
 > =
   | AggregateWhereFieldName<TTableConfig>
-  | readonly AggregateWhereFieldName<TTableConfig>[];
+  | readonly AggregateWhereFieldName<TTableConfig>[]
+  | GroupByTimeBucketInput<TTableConfig>;
 
 type GroupBySelectedFields<TBy> = TBy extends readonly (infer TField)[]
   ? Extract<TField, string>
-  : Extract<TBy, string>;
+  : TBy extends Record<string, unknown>
+    ? Extract<keyof TBy, string>
+    : Extract<TBy, string>;
 
 type GroupByByResult<
   TTableConfig extends TableRelationalConfig,
@@ -850,6 +913,8 @@ export type GroupByConfig<
   having?:
     | GroupByHaving<TTableConfig, GroupByByInput<TTableConfig>>
     | undefined;
+  /** Include soft-deleted rows of `deletion('soft')` tables. */
+  withDeleted?: boolean | undefined;
   _count?:
     | true
     | ({
@@ -906,8 +971,16 @@ type AggregateCountResult<
     ? CountSelectResult<TTableConfig, TCount>
     : never;
 
-type AggregateNumericNullableResult<TSelect> = Simplify<{
-  [K in SelectedTrueKeys<NonNullable<TSelect>>]: number | null;
+/** _sum/_avg values: numbers, or the column's value type for decimal(). */
+type AggregateNumericNullableResult<
+  TTableConfig extends TableRelationalConfig,
+  TSelect,
+> = Simplify<{
+  [K in SelectedTrueKeys<NonNullable<TSelect>>]:
+    | (K extends AggregateDecimalFieldName<TTableConfig>
+        ? NonNullable<AggregateFieldValue<TTableConfig, K>>
+        : number)
+    | null;
 }>;
 
 type AggregateComparableResult<
@@ -941,12 +1014,12 @@ export type AggregateResult<
     : {}) &
     (TConfig extends { _sum: infer TSum extends Record<string, unknown> }
       ? {
-          _sum: AggregateNumericNullableResult<TSum>;
+          _sum: AggregateNumericNullableResult<TTableConfig, TSum>;
         }
       : {}) &
     (TConfig extends { _avg: infer TAvg extends Record<string, unknown> }
       ? {
-          _avg: AggregateNumericNullableResult<TAvg>;
+          _avg: AggregateNumericNullableResult<TTableConfig, TAvg>;
         }
       : {}) &
     (TConfig extends { _min: infer TMin extends Record<string, unknown> }
@@ -973,12 +1046,12 @@ type GroupByRowResult<
       : {}) &
     (TConfig extends { _sum: infer TSum extends Record<string, unknown> }
       ? {
-          _sum: AggregateNumericNullableResult<TSum>;
+          _sum: AggregateNumericNullableResult<TTableConfig, TSum>;
         }
       : {}) &
     (TConfig extends { _avg: infer TAvg extends Record<string, unknown> }
       ? {
-          _avg: AggregateNumericNullableResult<TAvg>;
+          _avg: AggregateNumericNullableResult<TTableConfig, TAvg>;
         }
       : {}) &
     (TConfig extends { _min: infer TMin extends Record<string, unknown> }
@@ -1167,6 +1240,31 @@ export type VectorQueryConfig<
       };
     }[VectorIndexName<TTableConfig>];
 
+export type HybridSearchQueryConfig<
+  TTableConfig extends TableRelationalConfig = TableRelationalConfig,
+> = [SearchQueryConfig<TTableConfig>] extends [never]
+  ? never
+  : [VectorQueryConfig<TTableConfig>] extends [never]
+    ? never
+    : {
+        /** Text side. Retrieves up to `vector.limit` candidates. */
+        search: SearchQueryConfig<TTableConfig>;
+        /** Vector side. `vector.limit` is the candidate count per source. */
+        vector: DistributiveOmit<
+          VectorQueryConfig<TTableConfig>,
+          'includeScore'
+        >;
+        /** Defaults to 'rrf' (k = 60, equal weights). */
+        fusion?: HybridSearchFusion | undefined;
+        /** Number of fused rows to return. */
+        limit: number;
+      };
+
+export type HybridSearchResultFields = {
+  _score: number;
+  _ranks: HybridSearchRanks;
+};
+
 export type VectorSearchProvider = (
   tableName: string,
   indexName: string,
@@ -1346,6 +1444,19 @@ export type EnforceVectorSearchConstraints<
  * Operators use 'raw' mode for comparisons (no null union in comparison values)
  * Runtime wraps builders with column() helper for FilterExpression construction
  */
+/**
+ * Operand accepted by FilterOperators; never for encrypted() columns.
+ */
+type FilterOperand<TBuilder extends ColumnBuilder<any, any, any>> =
+  UnencryptedFilterValue<TBuilder, GetColumnData<TBuilder, 'raw'>>;
+
+/**
+ * Operand accepted by eq/ne/inArray/notInArray; plaintext for deterministic
+ * encrypted() columns.
+ */
+type EqualityOperand<TBuilder extends ColumnBuilder<any, any, any>> =
+  EqualityFilterValue<TBuilder, GetColumnData<TBuilder, 'raw'>>;
+
 export interface FilterOperators<
   TTableConfig extends TableRelationalConfig = TableRelationalConfig,
 > {
@@ -1355,58 +1466,58 @@ export interface FilterOperators<
 
   arrayContained<TBuilder extends ColumnBuilder<any, any, any>>(
     field: TBuilder,
-    values: readonly GetColumnData<TBuilder, 'raw'>[]
+    values: readonly FilterOperand<TBuilder>[]
   ): FilterExpression<boolean>;
 
   arrayContains<TBuilder extends ColumnBuilder<any, any, any>>(
     field: TBuilder,
-    values: readonly GetColumnData<TBuilder, 'raw'>[]
+    values: readonly FilterOperand<TBuilder>[]
   ): FilterExpression<boolean>;
 
   arrayOverlaps<TBuilder extends ColumnBuilder<any, any, any>>(
     field: TBuilder,
-    values: readonly GetColumnData<TBuilder, 'raw'>[]
+    values: readonly FilterOperand<TBuilder>[]
   ): FilterExpression<boolean>;
 
   between<TBuilder extends ColumnBuilder<any, any, any>>(
     field: TBuilder,
-    min: GetColumnData<TBuilder, 'raw'>,
-    max: GetColumnData<TBuilder, 'raw'>
+    min: FilterOperand<TBuilder>,
+    max: FilterOperand<TBuilder>
   ): FilterExpression<boolean>;
 
   contains<TBuilder extends ColumnBuilder<any, any, any>>(
     field: TBuilder,
-    substring: string
+    substring: UnencryptedFilterValue<TBuilder, string>
   ): FilterExpression<boolean>;
 
   endsWith<TBuilder extends ColumnBuilder<any, any, any>>(
     field: TBuilder,
-    suffix: string
+    suffix: UnencryptedFilterValue<TBuilder, string>
   ): FilterExpression<boolean>;
 
   eq<TBuilder extends ColumnBuilder<any, any, any>>(
     field: TBuilder,
-    value: GetColumnData<TBuilder, 'raw'>
+    value: EqualityOperand<TBuilder>
   ): FilterExpression<boolean>;
 
   gt<TBuilder extends ColumnBuilder<any, any, any>>(
     field: TBuilder,
-    value: GetColumnData<TBuilder, 'raw'>
+    value: FilterOperand<TBuilder>
   ): FilterExpression<boolean>;
 
   gte<TBuilder extends ColumnBuilder<any, any, any>>(
     field: TBuilder,
-    value: GetColumnData<TBuilder, 'raw'>
+    value: FilterOperand<TBuilder>
   ): FilterExpression<boolean>;
 
   ilike<TBuilder extends ColumnBuilder<any, any, any>>(
     field: TBuilder,
-    pattern: string
+    pattern: UnencryptedFilterValue<TBuilder, string>
   ): FilterExpression<boolean>;
 
   inArray<TBuilder extends ColumnBuilder<any, any, any>>(
     field: TBuilder,
-    values: readonly GetColumnData<TBuilder, 'raw'>[]
+    values: readonly EqualityOperand<TBuilder>[]
   ): FilterExpression<boolean>;
 
   isNotNull<TBuilder extends ColumnBuilder<any, any, any>>(
@@ -1420,45 +1531,50 @@ export interface FilterOperators<
   // M5 String Operators (Post-Fetch)
   like<TBuilder extends ColumnBuilder<any, any, any>>(
     field: TBuilder,
-    pattern: string
+    pattern: UnencryptedFilterValue<TBuilder, string>
   ): FilterExpression<boolean>;
 
   lt<TBuilder extends ColumnBuilder<any, any, any>>(
     field: TBuilder,
-    value: GetColumnData<TBuilder, 'raw'>
+    value: FilterOperand<TBuilder>
   ): FilterExpression<boolean>;
 
   lte<TBuilder extends ColumnBuilder<any, any, any>>(
     field: TBuilder,
-    value: GetColumnData<TBuilder, 'raw'>
+    value: FilterOperand<TBuilder>
   ): FilterExpression<boolean>;
 
   ne<TBuilder extends ColumnBuilder<any, any, any>>(
     field: TBuilder,
-    value: GetColumnData<TBuilder, 'raw'>
+    value: EqualityOperand<TBuilder>
+  ): FilterExpression<boolean>;
+
+  near<TBuilder extends ColumnBuilder<any, any, any>>(
+    field: TBuilder,
+    value: GeoNearFilter
   ): FilterExpression<boolean>;
 
   not(expression: FilterExpression<boolean>): FilterExpression<boolean>;
 
   notBetween<TBuilder extends ColumnBuilder<any, any, any>>(
     field: TBuilder,
-    min: GetColumnData<TBuilder, 'raw'>,
-    max: GetColumnData<TBuilder, 'raw'>
+    min: FilterOperand<TBuilder>,
+    max: FilterOperand<TBuilder>
   ): FilterExpression<boolean>;
 
   notIlike<TBuilder extends ColumnBuilder<any, any, any>>(
     field: TBuilder,
-    pattern: string
+    pattern: UnencryptedFilterValue<TBuilder, string>
   ): FilterExpression<boolean>;
 
   notInArray<TBuilder extends ColumnBuilder<any, any, any>>(
     field: TBuilder,
-    values: readonly GetColumnData<TBuilder, 'raw'>[]
+    values: readonly EqualityOperand<TBuilder>[]
   ): FilterExpression<boolean>;
 
   notLike<TBuilder extends ColumnBuilder<any, any, any>>(
     field: TBuilder,
-    pattern: string
+    pattern: UnencryptedFilterValue<TBuilder, string>
   ): FilterExpression<boolean>;
 
   or(
@@ -1473,7 +1589,12 @@ export interface FilterOperators<
 
   startsWith<TBuilder extends ColumnBuilder<any, any, any>>(
     field: TBuilder,
-    prefix: string
+    prefix: UnencryptedFilterValue<TBuilder, string>
+  ): FilterExpression<boolean>;
+
+  within<TBuilder extends ColumnBuilder<any, any, any>>(
+    field: TBuilder,
+    value: GeoWithinFilter
   ): FilterExpression<boolean>;
 }
 
@@ -1513,10 +1634,17 @@ export type DBQueryConfigOrderByCallback<TTable extends ConvexTable<any>> = (
   operators: OrderDirection
 ) => ValueOrArray<OrderByValue> | undefined;
 
+/** point() columns also order by distance from a reference point. */
 export type DBQueryConfigOrderByObject<
   TColumns extends Record<string, unknown>,
 > = {
-  [K in keyof TColumns]?: 'asc' | 'desc' | undefined;
+  [K in keyof TColumns]?:
+    | 'asc'
+    | 'desc'
+    | (TColumns[K] extends { _: { columnType: 'ConvexPoint' } }
+        ? { distanceFrom: GeoPoint; direction?: 'asc' | 'desc' | undefined }
+        : never)
+    | undefined;
 };
 
 export type DBQueryConfigOrderBy<TTableConfig extends TableRelationalConfig> =
@@ -1726,6 +1854,11 @@ export type BuildQueryResult<
               ? [TVectorSearch] extends [undefined]
                 ? {}
                 : { _score?: number }
+              : {}) &
+            (TFullSelection extends { hybridSearch: infer THybridSearch }
+              ? [THybridSearch] extends [undefined]
+                ? {}
+                : HybridSearchResultFields
               : {})
         >
       : never;
@@ -2033,7 +2166,8 @@ type UpdateSetValue<TColumn extends ColumnBuilderBase> =
   | undefined;
 
 export type UpdateSet<TTable extends ConvexTable<any>> = Simplify<{
-  [K in keyof TTable['_']['columns'] & string]?: UpdateSetValue<
-    TTable['_']['columns'][K]
-  >;
+  [K in keyof TTable['_']['columns'] &
+    string as TTable['_']['columns'][K]['_'] extends { generated: true }
+    ? never
+    : K]?: UpdateSetValue<TTable['_']['columns'][K]>;
 }>;
@@ -1,12 +1,20 @@
 import type { GenericDatabaseWriter } from 'convex/server';
+import {
+  decryptColumnsForRead,
+  encryptColumnsForWrite,
+  sealEncryptedFilter,
+} from './encryption';
+import { OrmConcurrentModificationError } from './errors';
 import type { FilterExpression } from './filter-expression';
-import { isFieldReference } from './filter-expression';
+import { and, isFieldReference } from './filter-expression';
 import { getIndexes } from './index-utils';
 import {
   applyIncomingForeignKeyActionsOnUpdate,
+  assertNoGeneratedColumnWrites,
   canUsePrimaryIdLookupCursor,
   collectMutationRowsBounded,
   collectPrimaryIdLookupRows,
+  computeGeneratedColumns,
   encodeUndefinedDeep,
   enforceCheckConstraints,
   enforceForeignKeys,
@@ -14,12 +22,14 @@ import {
   enforceUniqueIndexes,
   evaluateFilter,
   extractPrimaryIdLookup,
+  extractVersionCondition,
   getMutationAsyncDelayMs,
   getMutationCollectionLimits,
   getMutationExecutionMode,
   getOrmContext,
   getTableColumns,
   getTableName,
+  getVersionColumnName,
   hydrateDateFieldsForRead,
   normalizeDateFieldsForWrite,
   selectReturningRowWithHydration,
@@ -29,8 +39,13 @@ import {
 } from './mutation-utils';
 import { GelRelationalQuery } from './query';
 import { QueryPromise } from './query-promise';
-import { evaluateUpdateDecision } from './rls/evaluator';
+import {
+  assertColumnWritesAllowed,
+  evaluateUpdateDecision,
+  maskSelectColumns,
+} from './rls/evaluator';
 import type { ConvexTable } from './table';
+import { applyTenantToWrite, resolveTenantScope } from './tenancy';
 import type {
   MutationExecuteConfig,
   MutationExecuteResult,
@@ -345,6 +360,16 @@ export class ConvexUpdateBuilder<
       this.table,
       this.setValues as any
     ) as UpdateSet<TTable>;
+    const tenantScope = await resolveTenantScope(this.table, ormContext);
+    // Deterministic encrypted() columns match on ciphertext.
+    const sealedWhere = await sealEncryptedFilter(
+      this.table,
+      this.whereExpression,
+      ormContext?.encryption
+    );
+    applyTenantToWrite(this.table, tenantScope, normalizedSetValues as any, {
+      stamp: false,
+    });
 
     if (!isPaginated && resolvedMode === 'async') {
       if (!ormContext?.scheduler || !ormContext.scheduledMutationBatch) {
@@ -390,9 +415,19 @@ export class ConvexUpdateBuilder<
               mode: 'async',
               operation: 'update',
               table: getTableName(this.table),
-              where: serializeFilterExpression(this.whereExpression),
+              where: serializeFilterExpression(
+                and(sealedWhere, tenantScope?.filter)
+              ),
               allowFullScan: this.allowFullScanFlag,
-              update: encodeUndefinedDeep(normalizedSetValues ?? {}),
+              // Seal encrypted() values so plaintext never lands in the
+              // scheduler's stored arguments.
+              update: encodeUndefinedDeep(
+                await encryptColumnsForWrite(
+                  this.table,
+                  (normalizedSetValues ?? {}) as Record<string, unknown>,
+                  ormContext.encryption
+                )
+              ),
               cursor: firstBatch.continueCursor,
               batchSize: asyncBatchSize,
               maxBytesPerBatch,
@@ -411,7 +446,33 @@ export class ConvexUpdateBuilder<
       }
     }
 
-    if (!this.whereExpression) {
+    const tableName = getTableName(this.table);
+    const versionColumn = getVersionColumnName(this.table);
+    if (versionColumn && versionColumn in (normalizedSetValues as any)) {
+      throw new Error(
+        `Cannot set version column '${versionColumn}' on '${tableName}'. update() increments it.`
+      );
+    }
+    assertNoGeneratedColumnWrites(this.table, normalizedSetValues as any);
+    // and(<row filter>, eq(t.version, v)) checks every matched row: rows on
+    // another version throw instead of quietly dropping out of the update.
+    const versionCondition = versionColumn
+      ? extractVersionCondition(sealedWhere, versionColumn)
+      : null;
+    if (versionCondition && !versionCondition.where) {
+      throw new Error(
+        `Version check on '${tableName}' needs a row filter next to eq(${versionColumn}, ...), e.g. and(eq(t.id, id), eq(t.${versionColumn}, version)).`
+      );
+    }
+    const whereExpression = versionCondition
+      ? versionCondition.where
+      : sealedWhere;
+    // Later async batches only see rows the first batch did not check, so
+    // they skip stale rows instead of throwing from a scheduled function.
+    const enforceVersion =
+      !!versionCondition && (pagination?.cursor ?? null) === null;
+
+    if (!whereExpression) {
       if (!allowFullScan) {
         throw new Error(
           'update/delete without where() requires allowFullScan: true.'
@@ -424,6 +485,9 @@ export class ConvexUpdateBuilder<
       }
     }
 
+    // Id lookups stay on db.get(); other shapes plan with the tenant filter.
+    const scopedWhere = and(whereExpression, tenantScope?.filter);
+
     const onUpdateSet: Record<string, unknown> = {};
     for (const [columnName, builder] of Object.entries(
       getTableColumns(this.table)
@@ -446,13 +510,11 @@ export class ConvexUpdateBuilder<
       effectiveSet as any
     ) as UpdateSet<TTable>;
 
-    const tableName = getTableName(this.table);
-
     let rows: Record<string, unknown>[];
     let continueCursor: string | null = null;
     let isDone = true;
     const primaryIdLookup = canUsePrimaryIdLookupCursor(pagination?.cursor)
-      ? extractPrimaryIdLookup(this.whereExpression)
+      ? extractPrimaryIdLookup(whereExpression)
       : null;
     if (primaryIdLookup) {
       const primaryIdRows = await collectPrimaryIdLookupRows(
@@ -469,7 +531,7 @@ export class ConvexUpdateBuilder<
       continueCursor = primaryIdRows.continueCursor;
       isDone = primaryIdRows.isDone;
       rows = primaryIdRows.rows;
-    } else if (this.whereExpression) {
+    } else if (scopedWhere) {
       const compiler = new WhereClauseCompiler(
         tableName,
         getIndexes(this.table).map((index) => ({
@@ -477,7 +539,7 @@ export class ConvexUpdateBuilder<
           indexFields: index.fields,
         }))
       );
-      const compiled = compiler.compile(this.whereExpression);
+      const compiled = compiler.compile(scopedWhere);
       const hasIndex =
         !!compiled.selectedIndex &&
         (compiled.indexFilters.length > 0 || compiled.probeFilters.length > 0);
@@ -494,7 +556,7 @@ export class ConvexUpdateBuilder<
         );
       }
 
-      const filterFn = toConvexFilter(this.whereExpression);
+      const filterFn = toConvexFilter(scopedWhere);
       if (isPaginated) {
         if (hasIndex && compiled.probeFilters.length > 0) {
           throw new Error(
@@ -608,12 +670,24 @@ export class ConvexUpdateBuilder<
       });
     }
 
-    if (this.whereExpression) {
+    if (scopedWhere) {
       rows = rows.filter((row) =>
-        evaluateFilter(row as any, this.whereExpression as any)
+        evaluateFilter(row as any, scopedWhere as any)
+      );
+    }
+    if (versionCondition && !enforceVersion) {
+      rows = rows.filter(
+        (row) => row[versionColumn!] === versionCondition.expectedVersion
       );
     }
 
+    const storedRows = rows;
+    rows = await decryptColumnsForRead(
+      this.table,
+      rows,
+      ormContext?.encryption
+    );
+
     const rls = ormContext?.rls;
     const foreignKeyGraph = ormContext?.foreignKeyGraph;
     if (!foreignKeyGraph) {
@@ -623,15 +697,34 @@ export class ConvexUpdateBuilder<
     }
 
     const updates = await Promise.all(
-      rows.map(async (row) => {
-        const updatedRow = { ...(row as any), ...(writeSet as any) };
+      rows.map(async (row, index) => {
+        const versionedWriteSet = versionColumn
+          ? {
+              ...(writeSet as any),
+              [versionColumn]: ((row[versionColumn] as number) ?? 0) + 1,
+            }
+          : (writeSet as any);
+        const rowWriteSet = {
+          ...versionedWriteSet,
+          ...computeGeneratedColumns(this.table, {
+            ...(row as any),
+            ...versionedWriteSet,
+          }),
+        };
+        const updatedRow = { ...(row as any), ...rowWriteSet };
         const decision = await evaluateUpdateDecision({
           table: this.table,
           existingRow: row as Record<string, unknown>,
           updatedRow,
           rls,
         });
-        return { row, updatedRow, decision };
+        return {
+          row,
+          storedRow: storedRows[index],
+          rowWriteSet,
+          updatedRow,
+          decision,
+        };
       })
     );
 
@@ -643,6 +736,33 @@ export class ConvexUpdateBuilder<
         `RLS policy violation for update on table "${tableName}"`
       );
     }
+    for (const { row, decision } of updates) {
+      if (decision.allowed) {
+        await assertColumnWritesAllowed({
+          table: this.table,
+          operation: 'update',
+          row: row as Record<string, unknown>,
+          columns: Object.keys(normalizedSetValues as any),
+          rls,
+        });
+      }
+    }
+
+    if (enforceVersion) {
+      const { expectedVersion } = versionCondition!;
+      for (const { row, decision } of updates) {
+        const actualVersion = row[versionColumn!];
+        if (decision.allowed && actualVersion !== expectedVersion) {
+          throw new OrmConcurrentModificationError(
+            `Row '${String(row._id)}' on '${tableName}' was modified concurrently (expected ${versionColumn} ${expectedVersion}, found ${String(actualVersion)}).`,
+            tableName,
+            String(row._id),
+            expectedVersion,
+            typeof actualVersion === 'number' ? actualVersion : undefined
+          );
+        }
+      }
+    }
 
     const results: Record<string, unknown>[] = [];
     let numAffected = 0;
@@ -652,16 +772,22 @@ export class ConvexUpdateBuilder<
     };
     const fkBatchSize = isPaginated ? pagination.limit : batchSize;
 
-    for (const { row, updatedRow, decision } of updates) {
+    for (const {
+      row,
+      storedRow,
+      rowWriteSet,
+      updatedRow,
+      decision,
+    } of updates) {
       if (!decision.allowed) {
         continue;
       }
       enforcePolymorphicWrite(this.table, updatedRow, {
-        changedFields: new Set(Object.keys(writeSet as any)),
+        changedFields: new Set(Object.keys(rowWriteSet)),
       });
       enforceCheckConstraints(this.table, updatedRow);
       await enforceForeignKeys(this.db, this.table, updatedRow, {
-        changedFields: new Set(Object.keys(writeSet as any)),
+        changedFields: new Set(Object.keys(rowWriteSet)),
       });
 
       await applyIncomingForeignKeyActionsOnUpdate(
@@ -684,21 +810,41 @@ export class ConvexUpdateBuilder<
           delayMs,
         }
       );
-      await enforceUniqueIndexes(this.db, this.table, updatedRow, {
-        currentId: (row as any)._id,
-        changedFields: new Set(Object.keys(writeSet as any)),
-      });
-      await this.db.patch(tableName, (row as any)._id, writeSet as any);
+      const storedWriteSet = await encryptColumnsForWrite(
+        this.table,
+        rowWriteSet,
+        ormContext?.encryption
+      );
+      await enforceUniqueIndexes(
+        this.db,
+        this.table,
+        { ...storedRow, ...storedWriteSet },
+        {
+          currentId: (row as any)._id,
+          changedFields: new Set(Object.keys(rowWriteSet)),
+          encryption: ormContext?.encryption,
+        }
+      );
+      await this.db.patch(tableName, (row as any)._id, storedWriteSet);
       numAffected++;
 
       if (!this.returningFields) {
         continue;
       }
 
-      const updated = await this.db.get((row as any)._id);
-      if (!updated) {
+      const updatedDoc = await this.db.get((row as any)._id);
+      if (!updatedDoc) {
         continue;
       }
+      const [updated] = await maskSelectColumns({
+        table: this.table,
+        rows: await decryptColumnsForRead(
+          this.table,
+          [updatedDoc as Record<string, unknown>],
+          ormContext?.encryption
+        ),
+        rls,
+      });
 
       if (this.returningFields === true) {
         results.push(hydrateDateFieldsForRead(this.table, updated as any));
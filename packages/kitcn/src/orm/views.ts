@@ -0,0 +1,560 @@
+/**
+ * Materialized views - `defineView()`
+ *
+ * A view is a real table with one row per source row. Rows are rebuilt from
+ * `select(row)`, where `row` is the source row loaded with `with`, whenever
+ * the source row or one of the related rows it loads changes. Rows where
+ * `select` returns null are removed. `kitcn view rebuild` recomputes every
+ * row through the `viewRebuild` action.
+ */
+
+import type {
+  GenericDatabaseWriter,
+  SchedulableFunctionReference,
+} from 'convex/server';
+import { text } from './builders';
+import type { OrmWriter } from './database';
+import { eq } from './filter-expression';
+import { findRelationIndexOrThrow } from './index-utils';
+import { index } from './indexes';
+import {
+  ensureNonNullValues,
+  getColumnName,
+  getTableName,
+} from './mutation-utils';
+import type {
+  Relation,
+  TableRelationalConfig,
+  TablesRelationalConfig,
+} from './relations';
+import { TableViewConfig } from './symbols';
+import {
+  type ConvexTable,
+  type ConvexTableExtraConfigValue,
+  type ConvexTableWithColumns,
+  convexTable,
+} from './table';
+import type { OrmTriggerChange } from './triggers';
+import type { InferInsertModel, InferSelectModel } from './types';
+
+export const VIEW_SOURCE_INDEX = 'by_source';
+const DEFAULT_VIEW_REBUILD_BATCH_SIZE = 100;
+
+type AnyRecord = Record<string, unknown>;
+
+const createViewSourceColumns = () => ({
+  sourceId: text().notNull(),
+});
+
+type ViewSourceColumns = ReturnType<typeof createViewSourceColumns>;
+
+type ViewTableFn<
+  TName extends string,
+  TColumns,
+  TExtraConfig extends ConvexTableExtraConfigValue[] | undefined,
+> = typeof convexTable<TName, ViewSourceColumns & TColumns, TExtraConfig>;
+
+export type ConvexViewTable<
+  TName extends string,
+  TColumns,
+  TExtraConfig extends ConvexTableExtraConfigValue[] | undefined = undefined,
+> = ReturnType<ViewTableFn<TName, TColumns, TExtraConfig>>;
+
+/** Relation options a view can load. Nested `with` is not tracked. */
+export type ViewRelationConfig = {
+  columns?: Record<string, boolean>;
+  where?: unknown;
+  orderBy?: unknown;
+  limit?: number;
+};
+
+export type ViewConfig<
+  TName extends string,
+  TFrom extends ConvexTable<any>,
+  TColumns,
+> = {
+  /** Source table. The view holds one row per source row. */
+  from: TFrom;
+  /** View columns, besides the `sourceId` column kitcn adds. */
+  columns: TColumns;
+  /** Direct relations of `from` to load into `row`. */
+  with?: Record<string, true | ViewRelationConfig>;
+  /** Maps a loaded source row to a view row, or null to leave it out. */
+  select: (
+    row: InferSelectModel<TFrom> & Record<string, any>
+  ) => Omit<
+    InferInsertModel<ConvexViewTable<TName, TColumns>>,
+    'sourceId'
+  > | null;
+};
+
+type OrmTableViewConfig = {
+  from: ConvexTable<any>;
+  with?: Record<string, true | ViewRelationConfig>;
+  select: (row: AnyRecord) => AnyRecord | null;
+  columns: string[];
+};
+
+/**
+ * Define a table kept in sync with `from` and the relations it loads.
+ *
+ * @example
+ * export const feedItems = defineView('feedItems', {
+ *   from: posts,
+ *   columns: {
+ *     title: text().notNull(),
+ *     authorName: text(),
+ *     likeCount: integer().notNull(),
+ *   },
+ *   with: { author: true, likes: true },
+ *   select: (post) => ({
+ *     title: post.title,
+ *     authorName: post.author?.name ?? null,
+ *     likeCount: post.likes.length,
+ *   }),
+ * });
+ */
+export function defineView<
+  TName extends string,
+  TFrom extends ConvexTable<any>,
+  TColumns,
+  TExtraConfig extends ConvexTableExtraConfigValue[] | undefined = undefined,
+>(
+  name: TName,
+  config: ViewConfig<TName, TFrom, TColumns>,
+  extraConfig?: NonNullable<
+    Parameters<ViewTableFn<TName, TColumns, TExtraConfig>>[2]
+  >
+): ConvexViewTable<TName, TColumns, TExtraConfig> {
+  if ('sourceId' in (config.columns as object)) {
+    throw new Error(
+      `View '${name}' cannot declare a 'sourceId' column; kitcn adds it.`
+    );
+  }
+  const table = convexTable(
+    name,
+    { ...createViewSourceColumns(), ...(config.columns as object) },
+    (t: any): ConvexTableExtraConfigValue[] => {
+      const extra = extraConfig?.(t);
+      return [
+        index(VIEW_SOURCE_INDEX).on(t.sourceId),
+        ...(Array.isArray(extra) ? extra : Object.values(extra ?? {})),
+      ];
+    }
+  );
+  (table as any)[TableViewConfig] = {
+    from: config.from,
+    with: config.with,
+    select: config.select as OrmTableViewConfig['select'],
+    columns: Object.keys(config.columns as object),
+  } satisfies OrmTableViewConfig;
+  return table as any;
+}
+
+export const getTableViewConfig = (
+  table: ConvexTable<any>
+): OrmTableViewConfig | undefined =>
+  (table as { [TableViewConfig]?: OrmTableViewConfig })[TableViewConfig];
+
+type ViewDependency = {
+  /** Related table, by database name. */
+  tableName: string;
+  /** Columns on the related table that point at the source row. */
+  targetFields: string[];
+  /** Columns on the source table they match. */
+  sourceFields: string[];
+  /** Source index for `sourceFields`; null when they are `_id`. */
+  sourceIndex: string | null;
+};
+
+type ResolvedView = {
+  name: string;
+  table: ConvexTableWithColumns<any>;
+  config: OrmTableViewConfig;
+  sourceKey: string;
+  sourceName: string;
+  dependencies: ViewDependency[];
+};
+
+const resolveViewDependency = (
+  viewName: string,
+  schema: TablesRelationalConfig,
+  sourceConfig: TableRelationalConfig,
+  relationName: string,
+  relationConfig: unknown
+): ViewDependency => {
+  const label = `${sourceConfig.name}.${relationName}`;
+  const relation = sourceConfig.relations[relationName] as
+    | Relation<string>
+    | undefined;
+  if (!relation) {
+    throw new Error(
+      `View '${viewName}' references unknown relation '${label}'.`
+    );
+  }
+  if (relation.through) {
+    throw new Error(
+      `View '${viewName}' cannot track many-to-many relation '${label}'. Load the junction table relation instead.`
+    );
+  }
+  if (
+    relationConfig &&
+    typeof relationConfig === 'object' &&
+    'with' in relationConfig
+  ) {
+    throw new Error(
+      `View '${viewName}' only tracks direct relations. Remove the nested with from '${label}'.`
+    );
+  }
+  const sourceFields = (relation.sourceColumns ?? []).map(getColumnName);
+  const targetFields = (relation.targetColumns ?? []).map(getColumnName);
+  if (sourceFields.length === 0 || targetFields.length === 0) {
+    throw new Error(
+      `View '${viewName}' cannot resolve the columns of relation '${label}'.`
+    );
+  }
+  const targetConfig = schema[relation.targetTableName];
+  const isSourceId = sourceFields.length === 1 && sourceFields[0] === '_id';
+  return {
+    tableName: targetConfig?.name ?? relation.targetTableName,
+    targetFields,
+    sourceFields,
+    sourceIndex: isSourceId
+      ? null
+      : findRelationIndexOrThrow(
+          sourceConfig.table as ConvexTable<any>,
+          sourceFields,
+          `view ${viewName} (${label})`,
+          sourceConfig.name
+        ),
+  };
+};
+
+/** Every defineView() table in the schema, with its source resolved. */
+export function getSchemaViews(schema: TablesRelationalConfig): ResolvedView[] {
+  const views: ResolvedView[] = [];
+  for (const tableConfig of Object.values(schema)) {
+    if (!tableConfig?.table || !tableConfig.name) {
+      continue;
+    }
+    const table = tableConfig.table as ConvexTableWithColumns<any>;
+    const config = getTableViewConfig(table);
+    if (!config) {
+      continue;
+    }
+    const fromName = getTableName(config.from);
+    const sourceEntry = Object.entries(schema).find(
+      ([, candidate]) => candidate?.name === fromName
+    );
+    if (!sourceEntry) {
+      throw new Error(
+        `View '${tableConfig.name}' reads from '${fromName}', which is not in the schema.`
+      );
+    }
+    const [sourceKey, sourceConfig] = sourceEntry;
+    views.push({
+      name: tableConfig.name,
+      table,
+      config,
+      sourceKey,
+      sourceName: sourceConfig.name,
+      dependencies: Object.entries(config.with ?? {}).map(
+        ([relationName, relationConfig]) =>
+          resolveViewDependency(
+            tableConfig.name,
+            schema,
+            sourceConfig,
+            relationName,
+            relationConfig
+          )
+      ),
+    });
+  }
+  return views;
+}
+
+const readFieldValues = (
+  doc: AnyRecord | null,
+  fields: string[]
+): unknown[] | null => {
+  if (!doc) {
+    return null;
+  }
+  const values = fields.map((field) => doc[field]);
+  return values.some((value) => value === undefined || value === null)
+    ? null
+    : values;
+};
+
+/** Source row ids whose view row may change with this related-row change. */
+const collectDependentSourceIds = async (
+  db: GenericDatabaseWriter<any>,
+  view: ResolvedView,
+  dependency: ViewDependency,
+  change: OrmTriggerChange<AnyRecord>
+): Promise<string[]> => {
+  const keys = new Map<string, unknown[]>();
+  for (const doc of [change.oldDoc, change.newDoc]) {
+    const values = readFieldValues(doc, dependency.targetFields);
+    if (values) {
+      keys.set(JSON.stringify(values), values);
+    }
+  }
+
+  const ids: string[] = [];
+  for (const values of keys.values()) {
+    if (!dependency.sourceIndex) {
+      ids.push(String(values[0]));
+      continue;
+    }
+    const rows = await db
+      .query(view.sourceName as any)
+      .withIndex(dependency.sourceIndex as any, (q: any) =>
+        dependency.sourceFields.reduce(
+          (range, field, i) => range.eq(field, values[i]),
+          q
+        )
+      )
+      .collect();
+    for (const row of rows) {
+      ids.push(String(row._id));
+    }
+  }
+  return ids;
+};
+
+/**
+ * Recompute the view row of one source row. Returns what was written.
+ */
+async function refreshViewRow(
+  ctx: { db: GenericDatabaseWriter<any>; orm: OrmWriter<any> },
+  view: ResolvedView,
+  sourceId: string
+): Promise<'upserted' | 'deleted' | 'unchanged'> {
+  const orm = ctx.orm.skipRules as any;
+  const row = await orm.query[view.sourceKey].findFirst({
+    where: { id: sourceId },
+    with: view.config.with,
+    allowFullScan: true,
+  });
+  const selected = row ? view.config.select(row) : null;
+  const existing = await ctx.db
+    .query(view.name as any)
+    .withIndex(VIEW_SOURCE_INDEX as any, (q: any) => q.eq('sourceId', sourceId))
+    .first();
+
+  if (!selected) {
+    if (!existing) {
+      return 'unchanged';
+    }
+    await orm.delete(view.table).where(eq(view.table.id, existing._id));
+    return 'deleted';
+  }
+  // Columns select() no longer returns are cleared, not left stale.
+  const values: AnyRecord = {};
+  for (const column of view.config.columns) {
+    values[column] = selected[column] ?? null;
+  }
+  ensureNonNullValues(
+    view.table,
+    values,
+    `View '${view.name}' select() for source row '${sourceId}'`
+  );
+  if (!existing) {
+    await orm.insert(view.table).values({ ...selected, sourceId });
+    return 'upserted';
+  }
+  await orm
+    .update(view.table)
+    .set(values)
+    .where(eq(view.table.id, existing._id));
+  return 'upserted';
+}
+
+export type ViewChangeHook = (
+  change: OrmTriggerChange<AnyRecord>,
+  ctx: AnyRecord
+) => Promise<void>;
+
+/**
+ * Change hooks that keep views in sync, keyed by the database name of every
+ * table a view reads: its source table and the tables of its relations.
+ */
+export function createViewChangeHooks(
+  schema: TablesRelationalConfig
+): Map<string, ViewChangeHook[]> {
+  const hooks = new Map<string, ViewChangeHook[]>();
+  const addHook = (tableName: string, hook: ViewChangeHook) => {
+    hooks.set(tableName, [...(hooks.get(tableName) ?? []), hook]);
+  };
+
+  for (const view of getSchemaViews(schema)) {
+    const refresh = async (ctx: AnyRecord, sourceIds: string[]) => {
+      const orm = ctx.orm as OrmWriter<any> | undefined;
+      if (!orm) {
+        throw new Error(
+          `View '${view.name}' is maintained by ctx.orm; write '${view.sourceName}' through orm.with(ctx) or orm.db(ctx).`
+        );
+      }
+      const db = ctx.db as GenericDatabaseWriter<any>;
+      for (const sourceId of new Set(sourceIds)) {
+        await refreshViewRow({ db, orm }, view, sourceId);
+      }
+    };
+
+    addHook(view.sourceName, (change, ctx) =>
+      refresh(ctx, [String(change.id)])
+    );
+    for (const dependency of view.dependencies) {
+      addHook(dependency.tableName, async (change, ctx) =>
+        refresh(
+          ctx,
+          await collectDependentSourceIds(
+            ctx.db as GenericDatabaseWriter<any>,
+            view,
+            dependency,
+            change
+          )
+        )
+      );
+    }
+  }
+  return hooks;
+}
+
+export type ViewRebuildArgs = {
+  view?: string;
+  batchSize?: number;
+};
+
+export type ViewRebuildChunkArgs = {
+  view: string;
+  phase: 'refresh' | 'prune';
+  cursor: string | null;
+  batchSize: number;
+};
+
+type ViewRebuildChunkResult = {
+  cursor: string | null;
+  isDone: boolean;
+  refreshed: number;
+  deleted: number;
+};
+
+type CreateViewHandlersParams<TSchema extends TablesRelationalConfig> = {
+  schema: TSchema;
+  getOrm: (ctx: { db: GenericDatabaseWriter<any> }) => OrmWriter<TSchema>;
+  getChunkRef: () => SchedulableFunctionReference | undefined;
+};
+
+export function createViewHandlers<TSchema extends TablesRelationalConfig>(
+  params: CreateViewHandlersParams<TSchema>
+): {
+  run: (
+    ctx: { runMutation: (ref: any, args: any) => Promise<any> },
+    args?: ViewRebuildArgs
+  ) => Promise<Record<string, unknown>>;
+  chunk: (
+    ctx: { db: GenericDatabaseWriter<any> },
+    args: ViewRebuildChunkArgs
+  ) => Promise<ViewRebuildChunkResult>;
+} {
+  const { schema, getOrm, getChunkRef } = params;
+  const views = getSchemaViews(schema);
+
+  const requireView = (name: string) => {
+    const view = views.find((candidate) => candidate.name === name);
+    if (!view) {
+      throw new Error(
+        views.length === 0
+          ? `Unknown view '${name}'. The schema defines no views.`
+          : `Unknown view '${name}'. Views: ${views.map((entry) => entry.name).join(', ')}.`
+      );
+    }
+    return view;
+  };
+
+  return {
+    run: async (ctx, args = {}) => {
+      const batchSize = args.batchSize ?? DEFAULT_VIEW_REBUILD_BATCH_SIZE;
+      if (!Number.isInteger(batchSize) || batchSize < 1) {
+        throw new Error('viewRebuild batchSize must be a positive integer.');
+      }
+      const targets = args.view ? [requireView(args.view)] : views;
+      const chunkRef = getChunkRef();
+      if (!chunkRef) {
+        throw new Error('viewRebuildChunk is not registered.');
+      }
+
+      let refreshed = 0;
+      let deleted = 0;
+      for (const view of targets) {
+        // Refresh every source row first, then drop orphaned view rows.
+        for (const phase of ['refresh', 'prune'] as const) {
+          let cursor: string | null = null;
+          while (true) {
+            const chunk = (await ctx.runMutation(chunkRef, {
+              view: view.name,
+              phase,
+              cursor,
+              batchSize,
+            })) as ViewRebuildChunkResult;
+            refreshed += chunk.refreshed;
+            deleted += chunk.deleted;
+            if (chunk.isDone) {
+              break;
+            }
+            cursor = chunk.cursor;
+          }
+        }
+      }
+      return {
+        status: 'ok' as const,
+        views: targets.map((view) => view.name),
+        refreshed,
+        deleted,
+      };
+    },
+    chunk: async (ctx, args) => {
+      const view = requireView(args.view);
+      const orm = getOrm(ctx);
+      const page = await ctx.db
+        .query((args.phase === 'refresh' ? view.sourceName : view.name) as any)
+        .paginate({ cursor: args.cursor, numItems: args.batchSize });
+
+      let refreshed = 0;
+      let deleted = 0;
+      for (const doc of page.page as AnyRecord[]) {
+        if (args.phase === 'refresh') {
+          const result = await refreshViewRow(
+            { db: ctx.db, orm },
+            view,
+            String(doc._id)
+          );
+          if (result === 'deleted') {
+            deleted += 1;
+          } else if (result === 'upserted') {
+            refreshed += 1;
+          }
+          continue;
+        }
+        const sourceId = ctx.db.normalizeId(
+          view.sourceName as any,
+          String(doc.sourceId)
+        );
+        if (!sourceId || !(await ctx.db.get(sourceId))) {
+          await (orm.skipRules as any)
+            .delete(view.table)
+            .where(eq(view.table.id, String(doc._id)));
+          deleted += 1;
+        }
+      }
+      return {
+        cursor: page.isDone ? null : page.continueCursor,
+        isDone: page.isDone,
+        refreshed,
+        deleted,
+      };
+    },
+  };
+}
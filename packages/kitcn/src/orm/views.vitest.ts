@@ -0,0 +1,235 @@
+import { describe, expect, test } from 'vitest';
+import { convexTest } from '../../../../convex/setup.testing';
+import { boolean } from './builders/boolean';
+import { id } from './builders/id';
+import { integer } from './builders/number';
+import { text } from './builders/text';
+import { createOrm } from './create-orm';
+import { eq } from './filter-expression';
+import { index } from './indexes';
+import { defineRelations } from './relations';
+import { defineSchema } from './schema';
+import { convexTable } from './table';
+import { createViewHandlers, defineView } from './views';
+
+const users = convexTable('view_users', {
+  name: text().notNull(),
+});
+const posts = convexTable(
+  'view_posts',
+  {
+    title: text().notNull(),
+    published: boolean().notNull(),
+    authorId: id('view_users').notNull(),
+  },
+  (t) => [index('by_author').on(t.authorId)]
+);
+const likes = convexTable(
+  'view_likes',
+  {
+    postId: id('view_posts').notNull(),
+  },
+  (t) => [index('by_post').on(t.postId)]
+);
+const feedItems = defineView('view_feed', {
+  from: posts,
+  columns: {
+    title: text().notNull(),
+    authorName: text(),
+    likeCount: integer().notNull(),
+  },
+  with: { author: true, likes: true },
+  select: (post) =>
+    post.published
+      ? {
+          title: post.title,
+          authorName: post.author?.name ?? null,
+          likeCount: post.likes.length,
+        }
+      : null,
+});
+
+const tables = {
+  view_users: users,
+  view_posts: posts,
+  view_likes: likes,
+  view_feed: feedItems,
+};
+const schema = defineSchema(tables);
+const relations = defineRelations(tables, (r) => ({
+  view_posts: {
+    author: r.one.view_users({
+      from: r.view_posts.authorId,
+      to: r.view_users.id,
+    }),
+    likes: r.many.view_likes({
+      from: r.view_posts.id,
+      to: r.view_likes.postId,
+    }),
+  },
+}));
+
+const readFeed = async (ctx: { db: any }) =>
+  (await ctx.db.query('view_feed').collect()).map((row: any) => ({
+    title: row.title,
+    authorName: row.authorName,
+    likeCount: row.likeCount,
+  }));
+
+describe('orm/views', () => {
+  test('keeps view rows in sync with source and related rows', async () => {
+    const ormClient = createOrm({ schema: relations });
+    const t = convexTest(schema);
+
+    await t.run(async (baseCtx) => {
+      const ctx = ormClient.with(baseCtx as any) as any;
+      const [ada] = await ctx.orm
+        .insert(users)
+        .values({ name: 'Ada' })
+        .returning();
+      const [post] = await ctx.orm
+        .insert(posts)
+        .values({ title: 'Hello', published: true, authorId: ada.id })
+        .returning();
+      expect(await readFeed(ctx)).toEqual([
+        { title: 'Hello', authorName: 'Ada', likeCount: 0 },
+      ]);
+
+      const [like] = await ctx.orm
+        .insert(likes)
+        .values([{ postId: post.id }, { postId: post.id }])
+        .returning();
+      await ctx.orm
+        .update(users)
+        .set({ name: 'Ada L.' })
+        .where(eq(users.id, ada.id));
+      await ctx.orm.delete(likes).where(eq(likes.id, like.id));
+      expect(await readFeed(ctx)).toEqual([
+        { title: 'Hello', authorName: 'Ada L.', likeCount: 1 },
+      ]);
+
+      const rows = await ctx.orm.query.view_feed.findMany({ limit: 10 });
+      expect(rows).toMatchObject([{ sourceId: post.id, title: 'Hello' }]);
+
+      await ctx.orm
+        .update(posts)
+        .set({ published: false })
+        .where(eq(posts.id, post.id));
+      expect(await readFeed(ctx)).toEqual([]);
+    });
+  });
+
+  test('rebuild refreshes stale rows and drops orphans', async () => {
+    const ormClient = createOrm({ schema: relations });
+    const handlers = createViewHandlers({
+      schema: relations,
+      getOrm: (ctx) => ormClient.db(ctx as any) as any,
+      getChunkRef: () => ({}) as any,
+    });
+    const t = convexTest(schema);
+
+    await t.run(async (ctx) => {
+      const userId = await ctx.db.insert('view_users', { name: 'Grace' });
+      await ctx.db.insert('view_posts', {
+        title: 'Raw',
+        published: true,
+        authorId: userId,
+      });
+      await ctx.db.insert('view_feed', {
+        sourceId: 'deleted-post',
+        title: 'Gone',
+        likeCount: 0,
+      } as any);
+
+      const result = await handlers.run(
+        {
+          runMutation: (_ref, args) =>
+            handlers.chunk({ db: ctx.db as any }, args),
+        },
+        { view: 'view_feed', batchSize: 1 }
+      );
+      expect(result).toEqual({
+        status: 'ok',
+        views: ['view_feed'],
+        refreshed: 1,
+        deleted: 1,
+      });
+      expect(await readFeed(ctx)).toEqual([
+        { title: 'Raw', authorName: 'Grace', likeCount: 0 },
+      ]);
+
+      await expect(
+        handlers.run({ runMutation: async () => ({}) }, { view: 'missing' })
+      ).rejects.toThrow("Unknown view 'missing'. Views: view_feed.");
+    });
+  });
+
+  test('rejects select() results missing non-null columns', async () => {
+    const strict = defineView('view_strict', {
+      from: posts,
+      columns: { title: text().notNull() },
+      select: (post) => (post.published ? { title: post.title } : ({} as any)),
+    });
+    const strictTables = {
+      view_users: users,
+      view_posts: posts,
+      view_strict: strict,
+    };
+    const ormClient = createOrm({
+      schema: defineRelations(strictTables, () => ({})),
+    });
+    const t = convexTest(defineSchema(strictTables));
+
+    await t.run(async (baseCtx) => {
+      const ctx = ormClient.with(baseCtx as any) as any;
+      const [ada] = await ctx.orm
+        .insert(users)
+        .values({ name: 'Ada' })
+        .returning();
+      const [post] = await ctx.orm
+        .insert(posts)
+        .values({ title: 'Hello', published: true, authorId: ada.id })
+        .returning();
+
+      await expect(
+        ctx.orm
+          .update(posts)
+          .set({ published: false })
+          .where(eq(posts.id, post.id))
+      ).rejects.toThrow(
+        `View 'view_strict' select() for source row '${post.id}': column 'title' cannot be null in 'view_strict'.`
+      );
+    });
+  });
+
+  test('rejects relations it cannot track', () => {
+    const bad = defineView('view_bad', {
+      from: posts,
+      columns: { title: text().notNull() },
+      with: { author: { with: { posts: true } } as any },
+      select: (post) => ({ title: post.title }),
+    });
+    const badRelations = defineRelations(
+      { view_users: users, view_posts: posts, view_bad: bad },
+      (r) => ({
+        view_posts: {
+          author: r.one.view_users({
+            from: r.view_posts.authorId,
+            to: r.view_users.id,
+          }),
+        },
+      })
+    );
+
+    expect(() => createOrm({ schema: badRelations })).toThrow(
+      "View 'view_bad' only tracks direct relations. Remove the nested with from 'view_posts.author'."
+    );
+    expect(() =>
+      defineView('view_dupe', {
+        from: posts,
+        columns: { sourceId: text() },
+        select: () => ({}) as any,
+      })
+    ).toThrow("View 'view_dupe' cannot declare a 'sourceId' column");
+  });
+});
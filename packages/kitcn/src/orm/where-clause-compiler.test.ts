@@ -9,10 +9,12 @@ import {
   isNull,
   like,
   ne,
+  near,
   notBetween,
   notInArray,
   or,
   startsWith,
+  within,
 } from './filter-expression';
 import { GelRelationalQuery } from './query';
 import { OrmContext } from './symbols';
@@ -242,6 +244,47 @@ describe('WhereClauseCompiler advanced index planning', () => {
     ).toEqual(['city', 'status']);
     expect(result.postFilters).toHaveLength(0);
   });
+
+  test('plans near on a geo index as geohash cell probes', () => {
+    const compiler = new WhereClauseCompiler('shops', [
+      { indexName: 'by_location', indexFields: ['location.geohash'] },
+    ]);
+
+    const expression = near(fieldRef('location') as any, {
+      point: { lat: 52.52, lng: 13.405 },
+      radiusMeters: 500,
+    });
+    const result = compiler.compile(expression) as any;
+
+    expect(result.strategy).toBe('multiProbe');
+    expect(result.selectedIndex?.indexName).toBe('by_location');
+    expect(result.geoIndexField).toBe('location.geohash');
+    expect(result.probeFilters.length).toBeGreaterThanOrEqual(1);
+    expect(result.probeFilters.length).toBeLessThanOrEqual(16);
+    expect(
+      result.probeFilters[0].map((filter: any) => filter.operator)
+    ).toEqual(['gte', 'lt']);
+    expect(result.postFilters).toEqual([expression]);
+  });
+
+  test('keeps within post-filtered when the point has no geo index', () => {
+    const compiler = new WhereClauseCompiler('shops', [
+      { indexName: 'by_name', indexFields: ['name'] },
+    ]);
+
+    const result = compiler.compile(
+      and(
+        eq(fieldRef<string>('name') as any, 'Cafe'),
+        within(fieldRef('location') as any, {
+          bbox: { minLat: 52, minLng: 13, maxLat: 53, maxLng: 14 },
+        })
+      )!
+    ) as any;
+
+    expect(result.strategy).toBe('singleIndex');
+    expect(result.selectedIndex?.indexName).toBe('by_name');
+    expect(result.postFilters).toHaveLength(1);
+  });
 });
 
 describe('timestamp mode key normalization', () => {
@@ -23,6 +23,7 @@ import {
   isFieldReference,
   lt,
 } from './filter-expression';
+import { geoFilterCoverCells, geoIndexField } from './geo';
 
 // ============================================================================
 // Compilation Result
@@ -33,6 +34,8 @@ import {
  * Contains index selection and filter expressions
  */
 export interface WhereClauseResult {
+  /** Index field the probes range over for geo (near/within) plans */
+  geoIndexField?: string;
   /** Filters that can use the index (eq/range on indexed fields) */
   indexFilters: FilterExpression<boolean>[];
   /** Filters applied after index scan (gt, lt, and, or, not) */
@@ -134,6 +137,11 @@ export class WhereClauseCompiler {
   private tryCompileSpecialCase(
     expression: FilterExpression<boolean>
   ): WhereClauseResult | null {
+    const geo = this.tryCompileGeo(expression);
+    if (geo) {
+      return geo;
+    }
+
     if (expression.type === 'binary') {
       const binaryExpression = expression as BinaryExpression;
       return (
@@ -177,6 +185,56 @@ export class WhereClauseCompiler {
     return hasRangeFilter ? 'rangeIndex' : 'singleIndex';
   }
 
+  /**
+   * near/within on a point() column with a geoIndex(): one index range per
+   * covering geohash cell. The whole expression stays a post-filter, so
+   * exact distance/bounds and any sibling `and` filters still apply.
+   */
+  private tryCompileGeo(
+    expression: FilterExpression<boolean>
+  ): WhereClauseResult | null {
+    const isGeo = (candidate: FilterExpression<boolean>) =>
+      candidate.type === 'binary' &&
+      (candidate.operator === 'near' || candidate.operator === 'within');
+    const geoExpression = isGeo(expression)
+      ? expression
+      : expression.type === 'logical' && expression.operator === 'and'
+        ? (expression as LogicalExpression).operands.find(isGeo)
+        : undefined;
+    if (!geoExpression) {
+      return null;
+    }
+
+    const { operator, operands } = geoExpression as BinaryExpression;
+    const [field, value] = operands;
+    if (!isFieldReference(field)) {
+      return null;
+    }
+    const indexField = geoIndexField(field.fieldName);
+    const selectedIndex = this.findLeadingIndex(indexField);
+    if (!selectedIndex) {
+      return null;
+    }
+
+    const ref = fieldRef(indexField) as any;
+    return {
+      strategy: 'multiProbe',
+      selectedIndex,
+      geoIndexField: indexField,
+      indexFilters: [],
+      probeFilters: geoFilterCoverCells(
+        operator as 'near' | 'within',
+        value
+      ).map((cell) => {
+        const upperBound = this.getPrefixUpperBound(cell);
+        return upperBound
+          ? [gte(ref, cell as any), lt(ref, upperBound as any)]
+          : [gte(ref, cell as any)];
+      }),
+      postFilters: [expression],
+    };
+  }
+
   private tryCompileInArray(
     expression: BinaryExpression
   ): WhereClauseResult | null {
@@ -0,0 +1,168 @@
+import { v } from 'convex/values';
+import { z } from 'zod';
+import {
+  arrayOf,
+  boolean,
+  check,
+  convexTable,
+  createInsertSchema,
+  createSelectSchema,
+  createUpdateSchema,
+  custom,
+  gt,
+  id,
+  integer,
+  text,
+  textEnum,
+  timestamp,
+} from './index';
+
+const posts = convexTable(
+  'zod_posts',
+  {
+    title: text().notNull(),
+    status: textEnum(['draft', 'published']).notNull().default('draft'),
+    views: integer(),
+    published: boolean().notNull(),
+    authorId: id('users').notNull(),
+    tags: arrayOf(text().notNull()).notNull(),
+    meta: custom(v.object({ source: v.string() })),
+    publishedAt: timestamp(),
+  },
+  (t) => [check('views_positive', gt(t.views, 0))]
+);
+
+describe('createSelectSchema', () => {
+  test('includes system fields and nullable columns', () => {
+    const schema = createSelectSchema(posts);
+    const row = {
+      id: 'post_1',
+      createdAt: 1,
+      title: 'Hello',
+      status: 'draft',
+      views: null,
+      published: false,
+      authorId: 'user_1',
+      tags: ['a'],
+      meta: null,
+      publishedAt: new Date(0),
+    };
+
+    expect(schema.parse(row)).toEqual(row);
+    expect(schema.safeParse({ ...row, title: null }).success).toBe(false);
+    expect(schema.safeParse({ ...row, status: 'archived' }).success).toBe(
+      false
+    );
+  });
+
+  test('uses the user createdAt column when declared', () => {
+    const events = convexTable('zod_events', {
+      createdAt: timestamp().notNull().defaultNow(),
+    });
+    const schema = createSelectSchema(events);
+
+    expect(
+      schema.safeParse({ id: 'event_1', createdAt: new Date() }).success
+    ).toBe(true);
+    expect(schema.safeParse({ id: 'event_1', createdAt: 1 }).success).toBe(
+      false
+    );
+  });
+});
+
+describe('createInsertSchema', () => {
+  test('requires notNull columns without defaults', () => {
+    const schema = createInsertSchema(posts);
+
+    expect(
+      schema.safeParse({
+        title: 'Hello',
+        published: true,
+        authorId: 'user_1',
+        tags: [],
+      }).success
+    ).toBe(true);
+    expect(
+      schema.safeParse({ published: true, authorId: 'user_1', tags: [] })
+        .success
+    ).toBe(false);
+  });
+
+  test('validates check constraints', () => {
+    const schema = createInsertSchema(posts);
+    const result = schema.safeParse({
+      title: 'Hello',
+      published: true,
+      authorId: 'user_1',
+      tags: [],
+      views: 0,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]).toMatchObject({
+      message: "Check constraint 'views_positive' violation on 'zod_posts'.",
+      path: ['views'],
+    });
+  });
+
+  test('applies per-column refinements', () => {
+    const schema = createInsertSchema(posts, {
+      title: (title) => title.min(3),
+      meta: z.object({ source: z.literal('import') }).optional(),
+    });
+
+    const base = {
+      published: true,
+      authorId: 'user_1',
+      tags: [],
+    };
+    expect(schema.safeParse({ ...base, title: 'Hi' }).success).toBe(false);
+    expect(
+      schema.safeParse({ ...base, title: 'Hello', meta: { source: 'api' } })
+        .success
+    ).toBe(false);
+    expect(
+      schema.safeParse({ ...base, title: 'Hello', meta: { source: 'import' } })
+        .success
+    ).toBe(true);
+  });
+
+  test('rejects refinements for unknown columns', () => {
+    expect(() =>
+      createInsertSchema(posts, { missing: z.string() } as any)
+    ).toThrow("Cannot refine unknown column 'missing' on 'zod_posts'.");
+  });
+});
+
+describe('createUpdateSchema', () => {
+  test('makes every column optional', () => {
+    const schema = createUpdateSchema(posts);
+
+    expect(schema.safeParse({}).success).toBe(true);
+    expect(schema.safeParse({ views: null }).success).toBe(true);
+    expect(schema.safeParse({ title: null }).success).toBe(false);
+  });
+
+  test('only validates checks whose columns are present', () => {
+    const schema = createUpdateSchema(posts);
+
+    expect(schema.safeParse({ title: 'Next' }).success).toBe(true);
+    expect(schema.safeParse({ views: -1 }).success).toBe(false);
+  });
+});
+
+describe('$version() columns', () => {
+  const documents = convexTable('zod_documents', {
+    title: text().notNull(),
+    version: integer().$version(),
+  });
+
+  test('are selected but never written through insert or update', () => {
+    expect(createSelectSchema(documents).shape).toHaveProperty('version');
+    expect(createInsertSchema(documents).shape).not.toHaveProperty('version');
+    expect(createUpdateSchema(documents).shape).not.toHaveProperty('version');
+    expect(
+      createUpdateSchema(documents).parse({ title: 'Next', version: 3 })
+    ).toEqual({ title: 'Next' });
+  });
+});
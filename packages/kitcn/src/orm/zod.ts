@@ -0,0 +1,484 @@
+/**
+ * Zod schemas derived from convexTable definitions
+ *
+ * Mirrors drizzle-zod: createSelectSchema / createInsertSchema /
+ * createUpdateSchema turn column builders into z.object() schemas that can be
+ * passed straight to cRPC `.input()` / `.output()`.
+ *
+ * @example
+ * const insertPost = createInsertSchema(posts, {
+ *   title: (schema) => schema.min(1).max(200),
+ * });
+ *
+ * export const create = authMutation
+ *   .input(insertPost)
+ *   .mutation(({ ctx, input }) => ctx.orm.insert(posts).values(input));
+ */
+
+import { z } from 'zod';
+import type { Simplify } from '../internal/types';
+import { convexToZod, zid } from '../internal/upstream/server/zod4';
+import type { ColumnBuilderBase } from './builders/column-builder';
+import { type FilterExpression, isFieldReference } from './filter-expression';
+import {
+  applyDefaults,
+  evaluateCheckConstraintTriState,
+  getChecks,
+  getTableName,
+  normalizeDateFieldsForWrite,
+} from './mutation-utils';
+import { Columns } from './symbols';
+import type { ConvexTable } from './table';
+import type { GetColumnData } from './types';
+
+type AnyZodType = z.ZodType;
+type SchemaMode = 'select' | 'insert' | 'update';
+
+type TableColumns<TTable extends ConvexTable<any>> = TTable['_']['columns'];
+
+type ColumnZodTypeByKind<TColumnType, TData, TEnumValues> =
+  TColumnType extends 'ConvexText'
+    ? TEnumValues extends readonly (infer TValue extends string)[]
+      ? z.ZodEnum<{ [K in TValue]: K }>
+      : z.ZodString
+    : TColumnType extends 'ConvexNumber'
+      ? z.ZodNumber
+      : TColumnType extends 'ConvexBoolean'
+        ? z.ZodBoolean
+        : TColumnType extends 'ConvexBigInt'
+          ? z.ZodBigInt
+          : TColumnType extends 'ConvexDecimal'
+            ? TData extends number
+              ? z.ZodNumber
+              : z.ZodString
+            : TColumnType extends 'ConvexVector'
+              ? z.ZodArray<z.ZodNumber>
+              : TColumnType extends 'ConvexPoint'
+                ? z.ZodObject<{ lat: z.ZodNumber; lng: z.ZodNumber }>
+                : TColumnType extends 'ConvexDate'
+                  ? TData extends Date
+                    ? z.ZodDate
+                    : z.ZodISODate
+                  : TColumnType extends 'ConvexTimestamp'
+                    ? TData extends Date
+                      ? z.ZodDate
+                      : z.ZodISODateTime
+                    : z.ZodType<TData>;
+
+type ColumnZodType<TColumn extends ColumnBuilderBase> = TColumn['_'] extends {
+  $type: infer TType;
+}
+  ? unknown extends TType
+    ? z.ZodType<GetColumnData<TColumn, 'raw'>>
+    : z.ZodType<TType>
+  : ColumnZodTypeByKind<
+      TColumn['_']['columnType'],
+      TColumn['_']['data'],
+      TColumn['_']['enumValues']
+    >;
+
+/**
+ * Per-column refinements, drizzle-zod style.
+ *
+ * - A callback receives the derived base schema (before nullability and
+ *   optionality are applied) and returns a refined schema.
+ * - A schema value replaces the column schema as-is.
+ */
+export type CreateSchemaRefine<TTable extends ConvexTable<any>> = {
+  [K in keyof TableColumns<TTable>]?:
+    | AnyZodType
+    | ((schema: ColumnZodType<TableColumns<TTable>[K]>) => AnyZodType);
+};
+
+type RefinedBaseSchema<
+  TColumn extends ColumnBuilderBase,
+  TRefine,
+> = TRefine extends (schema: any) => infer TResult
+  ? TResult extends AnyZodType
+    ? TResult
+    : ColumnZodType<TColumn>
+  : ColumnZodType<TColumn>;
+
+type WrapColumnSchema<
+  TSchema extends AnyZodType,
+  TColumn extends ColumnBuilderBase,
+  TMode extends SchemaMode,
+> = TMode extends 'select'
+  ? TColumn['_']['notNull'] extends true
+    ? TSchema
+    : z.ZodNullable<TSchema>
+  : TMode extends 'insert'
+    ? TColumn['_']['notNull'] extends true
+      ? TColumn['_']['hasDefault'] extends true
+        ? z.ZodOptional<TSchema>
+        : TSchema
+      : z.ZodOptional<z.ZodNullable<TSchema>>
+    : TColumn['_']['notNull'] extends true
+      ? z.ZodOptional<TSchema>
+      : z.ZodOptional<z.ZodNullable<TSchema>>;
+
+type ColumnSchema<
+  TColumn extends ColumnBuilderBase,
+  TRefine,
+  TMode extends SchemaMode,
+> = TRefine extends AnyZodType
+  ? TRefine
+  : WrapColumnSchema<RefinedBaseSchema<TColumn, TRefine>, TColumn, TMode>;
+
+type ColumnsShape<
+  TColumns extends Record<string, ColumnBuilderBase>,
+  TRefine,
+  TMode extends SchemaMode,
+> = {
+  [K in keyof TColumns & string as TMode extends 'select'
+    ? K
+    : TColumns[K]['_'] extends { generated: true } | { version: true }
+      ? never
+      : K]: ColumnSchema<
+    TColumns[K],
+    K extends keyof TRefine ? TRefine[K] : undefined,
+    TMode
+  >;
+};
+
+type SystemSelectShape<TTable extends ConvexTable<any>> = {
+  id: z.ZodType<string>;
+} & ('createdAt' extends keyof TableColumns<TTable>
+  ? {}
+  : { createdAt: z.ZodNumber });
+
+export type SelectSchema<
+  TTable extends ConvexTable<any>,
+  TRefine = {},
+> = z.ZodObject<
+  Simplify<
+    SystemSelectShape<TTable> &
+      ColumnsShape<TableColumns<TTable>, TRefine, 'select'>
+  >,
+  z.core.$strip
+>;
+
+export type InsertSchema<
+  TTable extends ConvexTable<any>,
+  TRefine = {},
+> = z.ZodObject<
+  Simplify<ColumnsShape<TableColumns<TTable>, TRefine, 'insert'>>,
+  z.core.$strip
+>;
+
+export type UpdateSchema<
+  TTable extends ConvexTable<any>,
+  TRefine = {},
+> = z.ZodObject<
+  Simplify<ColumnsShape<TableColumns<TTable>, TRefine, 'update'>>,
+  z.core.$strip
+>;
+
+type RuntimeColumnConfig = {
+  columnType?: string;
+  notNull?: boolean;
+  hasDefault?: boolean;
+  defaultFn?: () => unknown;
+  onUpdateFn?: () => unknown;
+  generated?: (row: Record<string, unknown>) => unknown;
+  version?: boolean;
+  mode?: string;
+  format?: 'uuid' | 'ulid';
+  scale?: number;
+  values?: string[];
+  dimensions?: number;
+  referenceTable?: string;
+  validator?: Parameters<typeof convexToZod>[0];
+  discriminator?: { variants: Record<string, unknown> };
+};
+
+const getRuntimeColumnConfig = (column: unknown): RuntimeColumnConfig =>
+  ((column as { config?: RuntimeColumnConfig }).config ??
+    {}) as RuntimeColumnConfig;
+
+const toEnumSchema = (values: readonly string[]): AnyZodType =>
+  z.enum(values as [string, ...string[]]);
+
+function columnToZod(
+  tableName: string,
+  columnName: string,
+  column: unknown
+): AnyZodType {
+  const config = getRuntimeColumnConfig(column);
+
+  switch (config.columnType) {
+    case 'ConvexText': {
+      if (config.discriminator) {
+        return toEnumSchema(Object.keys(config.discriminator.variants));
+      }
+      if (Array.isArray(config.values) && config.values.length > 0) {
+        return toEnumSchema(config.values);
+      }
+      if (config.format === 'uuid') {
+        return z.uuid();
+      }
+      if (config.format === 'ulid') {
+        return z.ulid();
+      }
+      return z.string();
+    }
+    case 'ConvexNumber':
+      return z.number();
+    case 'ConvexBoolean':
+      return z.boolean();
+    case 'ConvexBigInt':
+      return z.bigint();
+    case 'ConvexDecimal': {
+      if (config.mode === 'number') {
+        return z.number();
+      }
+      const scale = config.scale ?? 0;
+      const fraction = scale > 0 ? `(\\.\\d{1,${scale}})?` : '';
+      return z
+        .string()
+        .regex(
+          new RegExp(`^[+-]?\\d+${fraction}$`),
+          `Expected a decimal with at most ${scale} fraction digits`
+        );
+    }
+    case 'ConvexPoint':
+      return z.object({
+        lat: z.number().min(-90).max(90),
+        lng: z.number().min(-180).max(180),
+      });
+    case 'ConvexBytes':
+      return z.instanceof(ArrayBuffer);
+    case 'ConvexId':
+      return zid(config.referenceTable as string);
+    case 'ConvexDate':
+      return config.mode === 'date' ? z.date() : z.iso.date();
+    case 'ConvexTimestamp':
+      return config.mode === 'string'
+        ? z.iso.datetime({ offset: true })
+        : z.date();
+    case 'ConvexVector': {
+      const schema = z.array(z.number());
+      return typeof config.dimensions === 'number'
+        ? schema.length(config.dimensions)
+        : schema;
+    }
+    case 'ConvexCustom': {
+      if (!config.validator) {
+        return z.any();
+      }
+      try {
+        return convexToZod(config.validator) as AnyZodType;
+      } catch (error) {
+        const reason = error instanceof Error ? ` ${error.message}` : '';
+        throw new Error(
+          `Cannot derive a Zod schema for '${tableName}.${columnName}'. Pass an explicit schema in the refine argument.${reason}`
+        );
+      }
+    }
+    default:
+      return z.any();
+  }
+}
+
+function wrapColumnSchema(
+  schema: AnyZodType,
+  config: RuntimeColumnConfig,
+  mode: SchemaMode
+): AnyZodType {
+  const notNull = config.notNull === true;
+  if (mode === 'select') {
+    return notNull ? schema : schema.nullable();
+  }
+  if (mode === 'insert' && notNull) {
+    const hasDefault =
+      config.hasDefault === true ||
+      typeof config.defaultFn === 'function' ||
+      typeof config.onUpdateFn === 'function';
+    return hasDefault ? schema.optional() : schema;
+  }
+  return notNull ? schema.optional() : schema.nullable().optional();
+}
+
+function collectExpressionFields(
+  expression: FilterExpression<boolean>,
+  fields: Set<string>
+): Set<string> {
+  for (const operand of expression.operands) {
+    if (isFieldReference(operand)) {
+      fields.add(operand.fieldName);
+      continue;
+    }
+    if (
+      operand &&
+      typeof operand === 'object' &&
+      'type' in operand &&
+      'operands' in operand
+    ) {
+      collectExpressionFields(operand as FilterExpression<boolean>, fields);
+    }
+  }
+  return fields;
+}
+
+function buildShape(
+  table: ConvexTable<any>,
+  mode: SchemaMode,
+  refine: Record<string, unknown> | undefined
+): Record<string, AnyZodType> {
+  const tableName = getTableName(table);
+  const columns = ((table as any)[Columns] ?? {}) as Record<string, unknown>;
+  const shape: Record<string, AnyZodType> = {};
+
+  if (mode === 'select') {
+    shape.id = zid(tableName);
+    if (!('createdAt' in columns)) {
+      shape.createdAt = z.number();
+    }
+  }
+
+  if (refine) {
+    for (const key of Object.keys(refine)) {
+      if (!(key in columns)) {
+        throw new Error(
+          `Cannot refine unknown column '${key}' on '${tableName}'.`
+        );
+      }
+    }
+  }
+
+  for (const [columnName, column] of Object.entries(columns)) {
+    const config = getRuntimeColumnConfig(column);
+    if (
+      mode !== 'select' &&
+      (typeof config.generated === 'function' || config.version === true)
+    ) {
+      continue;
+    }
+    const refinement = refine?.[columnName];
+
+    if (refinement instanceof z.ZodType) {
+      shape[columnName] = refinement;
+      continue;
+    }
+
+    const base = columnToZod(tableName, columnName, column);
+    const refined =
+      typeof refinement === 'function'
+        ? (refinement as (schema: AnyZodType) => AnyZodType)(base)
+        : base;
+    shape[columnName] = wrapColumnSchema(refined, config, mode);
+  }
+
+  return shape;
+}
+
+function withCheckConstraints<TSchema extends z.ZodObject<any>>(
+  table: ConvexTable<any>,
+  schema: TSchema,
+  mode: 'insert' | 'update'
+): TSchema {
+  const checks = getChecks(table);
+  if (checks.length === 0) {
+    return schema;
+  }
+
+  const checkFields = checks.map((check) => ({
+    check,
+    fields: collectExpressionFields(check.expression, new Set()),
+  }));
+
+  return schema.superRefine((value, ctx) => {
+    const candidate = normalizeDateFieldsForWrite(
+      table,
+      mode === 'insert'
+        ? applyDefaults(table, value as Record<string, unknown>)
+        : (value as Record<string, unknown>)
+    );
+
+    for (const { check, fields } of checkFields) {
+      // Partial updates only validate checks whose fields are all present.
+      if (
+        mode === 'update' &&
+        [...fields].some((field) => !(field in candidate))
+      ) {
+        continue;
+      }
+      if (
+        evaluateCheckConstraintTriState(candidate, check.expression) !== false
+      ) {
+        continue;
+      }
+      ctx.addIssue({
+        code: 'custom',
+        message: `Check constraint '${check.name}' violation on '${getTableName(table)}'.`,
+        path: fields.size === 1 ? [...fields] : [],
+      });
+    }
+  }) as TSchema;
+}
+
+/**
+ * Create a Zod schema for rows returned by the ORM (`findMany`, `returning()`).
+ * Includes `id` and `createdAt`; nullable columns accept `null`.
+ */
+export function createSelectSchema<TTable extends ConvexTable<any>>(
+  table: TTable
+): SelectSchema<TTable>;
+export function createSelectSchema<
+  TTable extends ConvexTable<any>,
+  TRefine extends CreateSchemaRefine<TTable>,
+>(table: TTable, refine: TRefine): SelectSchema<TTable, TRefine>;
+export function createSelectSchema(
+  table: ConvexTable<any>,
+  refine?: CreateSchemaRefine<ConvexTable<any>>
+) {
+  return z.object(
+    buildShape(table, 'select', refine as Record<string, unknown>)
+  );
+}
+
+/**
+ * Create a Zod schema for `insert(table).values(...)`.
+ * Columns are required when `.notNull()` without a default, and `check()`
+ * constraints are validated against the value with defaults applied.
+ */
+export function createInsertSchema<TTable extends ConvexTable<any>>(
+  table: TTable
+): InsertSchema<TTable>;
+export function createInsertSchema<
+  TTable extends ConvexTable<any>,
+  TRefine extends CreateSchemaRefine<TTable>,
+>(table: TTable, refine: TRefine): InsertSchema<TTable, TRefine>;
+export function createInsertSchema(
+  table: ConvexTable<any>,
+  refine?: CreateSchemaRefine<ConvexTable<any>>
+) {
+  return withCheckConstraints(
+    table,
+    z.object(buildShape(table, 'insert', refine as Record<string, unknown>)),
+    'insert'
+  );
+}
+
+/**
+ * Create a Zod schema for `update(table).set(...)`.
+ * Every column is optional; `check()` constraints run when all of their
+ * columns are present in the value.
+ */
+export function createUpdateSchema<TTable extends ConvexTable<any>>(
+  table: TTable
+): UpdateSchema<TTable>;
+export function createUpdateSchema<
+  TTable extends ConvexTable<any>,
+  TRefine extends CreateSchemaRefine<TTable>,
+>(table: TTable, refine: TRefine): UpdateSchema<TTable, TRefine>;
+export function createUpdateSchema(
+  table: ConvexTable<any>,
+  refine?: CreateSchemaRefine<ConvexTable<any>>
+) {
+  return withCheckConstraints(
+    table,
+    z.object(buildShape(table, 'update', refine as Record<string, unknown>)),
+    'update'
+  );
+}
@@ -0,0 +1,69 @@
+import { expectTypeOf, test } from 'vitest';
+import type { z } from 'zod';
+import { integer, text, textEnum, timestamp } from './index';
+import { convexTable } from './table';
+import type { InferInsertModel, InferSelectModel } from './types';
+import {
+  createInsertSchema,
+  createSelectSchema,
+  createUpdateSchema,
+} from './zod';
+
+const articles = convexTable('articles_zod_types_test', {
+  title: text().notNull(),
+  status: textEnum(['draft', 'published'] as const)
+    .notNull()
+    .default('draft'),
+  views: integer(),
+  publishedAt: timestamp(),
+});
+
+test('createSelectSchema infers the select model', () => {
+  const schema = createSelectSchema(articles);
+  expectTypeOf<z.infer<typeof schema>>().toEqualTypeOf<
+    InferSelectModel<typeof articles>
+  >();
+});
+
+test('createInsertSchema infers the insert model', () => {
+  const schema = createInsertSchema(articles);
+  type Insert = z.infer<typeof schema>;
+
+  expectTypeOf<Insert['title']>().toEqualTypeOf<string>();
+  expectTypeOf<Insert['status']>().toEqualTypeOf<
+    'draft' | 'published' | undefined
+  >();
+  expectTypeOf<Insert['views']>().toEqualTypeOf<number | null | undefined>();
+  expectTypeOf<Insert>().toMatchTypeOf<InferInsertModel<typeof articles>>();
+});
+
+test('createUpdateSchema makes every column optional', () => {
+  const schema = createUpdateSchema(articles);
+  type Update = z.infer<typeof schema>;
+
+  expectTypeOf<Update['title']>().toEqualTypeOf<string | undefined>();
+  expectTypeOf<Update['publishedAt']>().toEqualTypeOf<
+    Date | null | undefined
+  >();
+});
+
+test('insert and update schemas omit $version() columns', () => {
+  const documents = convexTable('documents_zod_types_test', {
+    title: text().notNull(),
+    version: integer().$version(),
+  });
+  const insertSchema = createInsertSchema(documents);
+  const updateSchema = createUpdateSchema(documents);
+  type Insert = z.infer<typeof insertSchema>;
+  type Update = z.infer<typeof updateSchema>;
+
+  expectTypeOf<keyof Insert>().toEqualTypeOf<'title'>();
+  expectTypeOf<keyof Update>().toEqualTypeOf<'title'>();
+});
+
+test('refinement callbacks keep the column type', () => {
+  const schema = createInsertSchema(articles, {
+    title: (title) => title.min(1),
+  });
+  expectTypeOf<z.infer<typeof schema>['title']>().toEqualTypeOf<string>();
+});
@@ -71,6 +71,9 @@ describe('package intent metadata', () => {
       expect(packageJson.exports?.['./ratelimit/react']).toBe(
         './dist/ratelimit/react/index.js'
       );
+      expect(packageJson.exports?.['./webhooks']).toBe(
+        './dist/webhooks/index.js'
+      );
       expect(packageJson.exports?.['./auth/start']).toBe(
         './dist/auth/start/index.js'
       );
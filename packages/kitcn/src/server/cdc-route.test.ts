@@ -0,0 +1,57 @@
+import { cdcFeedRoute } from './cdc-route';
+import { createHttpProcedureBuilder } from './http-builder';
+
+describe('server/cdc-route', () => {
+  const createRoute = () => {
+    const calls: Array<{ ref: unknown; args: unknown }> = [];
+    const http = createHttpProcedureBuilder({
+      base: (handler) => handler as any,
+      createContext: (ctx) => ctx,
+      meta: {},
+    });
+    const proc = cdcFeedRoute(http.get('/cdc'), 'cdc:feed' as any);
+    const ctx = {
+      runQuery: async (ref: unknown, args: unknown) => {
+        calls.push({ ref, args });
+        return { changes: [], cursor: '12', hasMore: false };
+      },
+    };
+    return { calls, ctx, proc };
+  };
+
+  test('forwards cursor, tables, and limit to the feed query', async () => {
+    const { calls, ctx, proc } = createRoute();
+
+    const resp = await (proc as any)(
+      ctx,
+      new Request(
+        'https://example.com/cdc?cursor=12&tables=posts&tables=users&limit=50'
+      )
+    );
+
+    expect(resp.status).toBe(200);
+    await expect(resp.json()).resolves.toEqual({
+      changes: [],
+      cursor: '12',
+      hasMore: false,
+    });
+    expect(calls).toEqual([
+      {
+        ref: 'cdc:feed',
+        args: { cursor: '12', tables: ['posts', 'users'], limit: 50 },
+      },
+    ]);
+  });
+
+  test('rejects a non-integer limit', async () => {
+    const { calls, ctx, proc } = createRoute();
+
+    const resp = await (proc as any)(
+      ctx,
+      new Request('https://example.com/cdc?limit=1.5')
+    );
+
+    expect(resp.status).toBe(400);
+    expect(calls).toEqual([]);
+  });
+});
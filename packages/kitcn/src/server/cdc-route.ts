@@ -0,0 +1,48 @@
+import type { FunctionReference, GenericActionCtx } from 'convex/server';
+import { z } from 'zod';
+import type { HttpProcedureBuilder } from './http-builder';
+import type { ProcedureMeta } from './http-types';
+import type { UnsetMarker } from './types';
+
+export const cdcFeedSearchParams = z.object({
+  cursor: z.string().optional(),
+  tables: z.array(z.string()).optional(),
+  limit: z.number().int().optional(),
+});
+
+export type CdcFeedSearchParams = z.infer<typeof cdcFeedSearchParams>;
+
+/**
+ * Serve a change-data-capture feed page from a GET route.
+ *
+ * `feed` is the query that wraps `cdcFeedFactory` from `kitcn/orm`; the
+ * route forwards `?cursor=`, `?tables=` (repeatable), and `?limit=` to it and
+ * returns the page as JSON. Auth and rate limiting come from `route`.
+ *
+ * @example
+ * export const router = c.router({
+ *   cdc: cdcFeedRoute(syncRoute.get('/api/cdc'), internal.cdc.feed),
+ * });
+ */
+export function cdcFeedRoute<
+  TInitialCtx,
+  TCtx extends Pick<GenericActionCtx<any>, 'runQuery'>,
+  TParams extends UnsetMarker | z.ZodTypeAny,
+  TMeta extends ProcedureMeta,
+>(
+  route: HttpProcedureBuilder<
+    TInitialCtx,
+    TCtx,
+    UnsetMarker,
+    UnsetMarker,
+    TParams,
+    UnsetMarker,
+    TMeta,
+    'GET'
+  >,
+  feed: FunctionReference<'query', 'public' | 'internal', CdcFeedSearchParams>
+) {
+  return route
+    .searchParams(cdcFeedSearchParams)
+    .query(async ({ ctx, searchParams }) => ctx.runQuery(feed, searchParams));
+}
@@ -83,6 +83,16 @@ describe('server/error', () => {
     expect(err?.message).toBe('User not found');
   });
 
+  test('toCRPCError maps OrmConcurrentModificationError-like errors to CONFLICT', () => {
+    const cause = new Error('Row was modified concurrently');
+    cause.name = 'OrmConcurrentModificationError';
+    const err = toCRPCError(cause);
+
+    expect(err).toBeInstanceOf(CRPCError);
+    expect(err?.code).toBe('CONFLICT');
+    expect(err?.message).toBe('Row was modified concurrently');
+  });
+
   test('toCRPCError maps APIError-like errors to CRPCError', () => {
     class FakeAPIError extends Error {
       status = 'UNAUTHORIZED';
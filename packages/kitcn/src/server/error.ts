@@ -142,6 +142,12 @@ function isOrmNotFoundErrorLike(cause: unknown): cause is Error {
   return cause instanceof Error && cause.name === 'OrmNotFoundError';
 }
 
+function isOrmConcurrentModificationErrorLike(cause: unknown): cause is Error {
+  return (
+    cause instanceof Error && cause.name === 'OrmConcurrentModificationError'
+  );
+}
+
 type APIErrorLike = Error & {
   status?: unknown;
   statusCode?: unknown;
@@ -228,6 +234,16 @@ export function toCRPCError(cause: unknown): CRPCError | null {
     return err;
   }
 
+  if (isOrmConcurrentModificationErrorLike(cause)) {
+    const err = new CRPCError({
+      code: 'CONFLICT',
+      message: cause.message,
+      cause,
+    });
+    if (cause.stack) err.stack = cause.stack;
+    return err;
+  }
+
   if (isApiErrorLike(cause)) {
     const status = cause.status;
     const statusCode = cause.statusCode;
@@ -5,6 +5,7 @@ export * from './api-entry';
 export * from './builder';
 export * from './caller';
 export * from './caller-factory';
+export * from './cdc-route';
 export * from './context-utils';
 export * from './env';
 export * from './error';
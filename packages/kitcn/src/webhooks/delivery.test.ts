@@ -0,0 +1,174 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  createWebhookSecret,
+  getWebhookRetryDelayMs,
+  sendWebhook,
+  signWebhook,
+  verifyWebhook,
+  type WebhookDeliveryTarget,
+} from './index';
+
+type StandIn = {
+  fetch: typeof fetch;
+  received: Request[];
+};
+
+const STAND_IN_URL = 'https://hooks.example.com/hooks';
+
+/** Stands in for fetch() so tests never touch the network. */
+function createStandIn(
+  respond: (req: Request) => Response | Promise<Response>
+): StandIn {
+  const received: Request[] = [];
+  const fetchStub = (async (url: string, init: RequestInit = {}) => {
+    const req = new Request(url, {
+      method: init.method,
+      headers: init.headers,
+      body: init.body,
+    });
+    received.push(req.clone());
+    return await new Promise<Response>((resolve, reject) => {
+      init.signal?.addEventListener('abort', () =>
+        reject(new Error('The operation was aborted.'))
+      );
+      Promise.resolve()
+        .then(() => respond(req))
+        .then(resolve, reject);
+    });
+  }) as unknown as typeof fetch;
+  return { fetch: fetchStub, received };
+}
+
+function createTarget(
+  url: string,
+  overrides: Partial<WebhookDeliveryTarget> = {}
+): WebhookDeliveryTarget {
+  return {
+    deliveryId: 'delivery_1',
+    endpointId: 'endpoint_1',
+    url,
+    secret: createWebhookSecret(),
+    eventId: 'msg_1',
+    eventType: 'invoice.paid',
+    payload: { invoiceId: 'inv_1', amount: 4200 },
+    emittedAt: Date.UTC(2026, 0, 1),
+    attempt: 1,
+    ...overrides,
+  };
+}
+
+describe('webhooks/signing', () => {
+  test('createWebhookSecret() returns distinct whsec_ secrets', () => {
+    const first = createWebhookSecret();
+    expect(first).toMatch(/^whsec_[A-Za-z0-9+/]+=*$/);
+    expect(createWebhookSecret()).not.toBe(first);
+  });
+
+  test('verifyWebhook() rejects a tampered body', async () => {
+    const secret = createWebhookSecret();
+    const headers = signWebhook({ secret, id: 'msg_1', body: '{"a":1}' });
+
+    await expect(
+      verifyWebhook(
+        new Request('http://localhost', {
+          method: 'POST',
+          headers,
+          body: '{"a":2}',
+        }),
+        secret
+      )
+    ).rejects.toThrow();
+  });
+
+  test('verifyWebhook() requires a secret', async () => {
+    await expect(
+      verifyWebhook(new Request('http://localhost', { method: 'POST' }), '')
+    ).rejects.toThrow('Webhook secret is not set');
+  });
+});
+
+describe('webhooks/delivery', () => {
+  test('sendWebhook() posts a body the receiver can verify', async () => {
+    const server = createStandIn(() => new Response('ok'));
+    const target = createTarget(STAND_IN_URL);
+
+    const result = await sendWebhook(target, {
+      timeoutMs: 1000,
+      fetch: server.fetch,
+    });
+
+    expect(result).toMatchObject({
+      ok: true,
+      statusCode: 200,
+      error: null,
+      responseBody: 'ok',
+    });
+    expect(server.received).toHaveLength(1);
+    const [req] = server.received;
+    expect(req.headers.get('svix-id')).toBe('msg_1');
+    await expect(verifyWebhook(req, target.secret)).resolves.toEqual({
+      type: 'invoice.paid',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      data: { invoiceId: 'inv_1', amount: 4200 },
+    });
+  });
+
+  test('sendWebhook() reports non-2xx responses without throwing', async () => {
+    const server = createStandIn(() => new Response('nope', { status: 503 }));
+
+    const result = await sendWebhook(createTarget(STAND_IN_URL), {
+      timeoutMs: 1000,
+      fetch: server.fetch,
+    });
+
+    expect(result).toMatchObject({
+      ok: false,
+      statusCode: 503,
+      error: 'Endpoint responded with status 503.',
+      responseBody: 'nope',
+    });
+  });
+
+  test('sendWebhook() times out slow endpoints', async () => {
+    const server = createStandIn(
+      () =>
+        new Promise((resolve) =>
+          setTimeout(() => resolve(new Response('late')), 500)
+        )
+    );
+
+    const result = await sendWebhook(createTarget(STAND_IN_URL), {
+      timeoutMs: 50,
+      fetch: server.fetch,
+    });
+
+    expect(result).toMatchObject({
+      ok: false,
+      statusCode: null,
+      error: 'Request timed out after 50ms.',
+    });
+  });
+
+  test('sendWebhook() reports connection errors', async () => {
+    const server = createStandIn(() => {
+      throw new TypeError('Unable to connect.');
+    });
+
+    const result = await sendWebhook(createTarget(STAND_IN_URL), {
+      timeoutMs: 1000,
+      fetch: server.fetch,
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.statusCode).toBeNull();
+    expect(result.error).toBe('Unable to connect.');
+  });
+
+  test('getWebhookRetryDelayMs() doubles up to the cap', () => {
+    const options = { initialBackoffMs: 1000, maxBackoffMs: 5000 };
+
+    expect(
+      [1, 2, 3, 4].map((attempt) => getWebhookRetryDelayMs(options, attempt))
+    ).toEqual([1000, 2000, 4000, 5000]);
+  });
+});
@@ -0,0 +1,120 @@
+import { signWebhook } from './signing';
+
+const MAX_RESPONSE_BODY_LENGTH = 1024;
+
+export type WebhookPayload = Record<string, unknown>;
+
+/** What the deliver action needs to send one attempt. */
+export type WebhookDeliveryTarget = {
+  deliveryId: string;
+  endpointId: string;
+  url: string;
+  secret: string;
+  eventId: string;
+  eventType: string;
+  payload: WebhookPayload;
+  /** When the event was emitted, in ms. */
+  emittedAt: number;
+  /** 1-based number of this attempt. */
+  attempt: number;
+};
+
+export type WebhookAttemptResult = {
+  ok: boolean;
+  statusCode: number | null;
+  error: string | null;
+  /** First 1024 characters of the response body. */
+  responseBody: string | null;
+  durationMs: number;
+};
+
+export type SendWebhookOptions = {
+  timeoutMs: number;
+  fetch?: typeof fetch;
+};
+
+export type WebhookRetryOptions = {
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+};
+
+/** Delay before retrying after failed attempt `attempt`, doubling each time. */
+export function getWebhookRetryDelayMs(
+  options: WebhookRetryOptions,
+  attempt: number
+): number {
+  return Math.min(
+    options.maxBackoffMs,
+    options.initialBackoffMs * 2 ** (attempt - 1)
+  );
+}
+
+/** JSON body sent to endpoints: `{ type, timestamp, data }`. */
+export function createWebhookBody(
+  target: Pick<WebhookDeliveryTarget, 'eventType' | 'payload' | 'emittedAt'>
+): string {
+  return JSON.stringify({
+    type: target.eventType,
+    timestamp: new Date(target.emittedAt).toISOString(),
+    data: target.payload,
+  });
+}
+
+/**
+ * POSTs one signed attempt. Never throws: network errors, timeouts, and
+ * non-2xx responses come back as `ok: false`.
+ */
+export async function sendWebhook(
+  target: WebhookDeliveryTarget,
+  options: SendWebhookOptions
+): Promise<WebhookAttemptResult> {
+  const body = createWebhookBody(target);
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), options.timeoutMs);
+
+  try {
+    const response = await (options.fetch ?? fetch)(target.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'kitcn-webhooks',
+        ...signWebhook({
+          secret: target.secret,
+          id: target.eventId,
+          body,
+        }),
+      },
+      body,
+      signal: controller.signal,
+    });
+    const responseBody = (await response.text().catch(() => '')).slice(
+      0,
+      MAX_RESPONSE_BODY_LENGTH
+    );
+
+    return {
+      ok: response.ok,
+      statusCode: response.status,
+      error: response.ok
+        ? null
+        : `Endpoint responded with status ${response.status}.`,
+      responseBody: responseBody || null,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      statusCode: null,
+      error: controller.signal.aborted
+        ? `Request timed out after ${options.timeoutMs}ms.`
+        : error instanceof Error
+          ? error.message
+          : String(error),
+      responseBody: null,
+      durationMs: Date.now() - startedAt,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
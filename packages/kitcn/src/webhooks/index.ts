@@ -0,0 +1,37 @@
+/** biome-ignore-all lint/performance/noBarrelFile: package entry */
+
+export type {
+  SendWebhookOptions,
+  WebhookAttemptResult,
+  WebhookDeliveryTarget,
+  WebhookPayload,
+  WebhookRetryOptions,
+} from './delivery';
+export {
+  createWebhookBody,
+  getWebhookRetryDelayMs,
+  sendWebhook,
+} from './delivery';
+export type { WebhooksApi, WebhooksPluginOptions } from './plugin';
+export { WebhooksPlugin } from './plugin';
+export type { WebhookSignatureHeaders } from './signing';
+export { createWebhookSecret, signWebhook, verifyWebhook } from './signing';
+export type {
+  WebhookDeliverArgs,
+  WebhookDeliveryStatus,
+  WebhookEmitResult,
+  WebhookEndpointStatus,
+  WebhookRecordResult,
+  WebhookStoreOptions,
+} from './store';
+export {
+  emitWebhookEvent,
+  recordWebhookAttempt,
+  replayWebhookDelivery,
+  startWebhookDelivery,
+  WEBHOOK_ATTEMPT_TABLE,
+  WEBHOOK_DELIVERY_TABLE,
+  WEBHOOK_ENDPOINT_TABLE,
+  WEBHOOK_SUBSCRIPTION_TABLE,
+  WEBHOOK_WILDCARD_EVENT,
+} from './store';
@@ -0,0 +1,376 @@
+import { describe, expect, test } from 'bun:test';
+import { makeFunctionReference } from 'convex/server';
+import { initCRPC } from '../server';
+import {
+  recordWebhookAttempt,
+  replayWebhookDelivery,
+  startWebhookDelivery,
+  WEBHOOK_ATTEMPT_TABLE,
+  WEBHOOK_DELIVERY_TABLE,
+  WEBHOOK_ENDPOINT_TABLE,
+  WEBHOOK_SUBSCRIPTION_TABLE,
+  type WebhookAttemptResult,
+  WebhooksPlugin,
+} from './index';
+
+type TableRow = Record<string, unknown> & {
+  _id: string;
+  _creationTime: number;
+};
+
+type Scheduled = { delayMs: number; args: Record<string, unknown> };
+
+function createMockCtx() {
+  const tables = new Map<string, TableRow[]>();
+  const scheduled: Scheduled[] = [];
+
+  const getTable = (name: string) => {
+    const table = tables.get(name);
+    if (table) {
+      return table;
+    }
+    const created: TableRow[] = [];
+    tables.set(name, created);
+    return created;
+  };
+  const findRow = (id: string) => {
+    for (const table of tables.values()) {
+      const row = table.find((candidate) => candidate._id === id);
+      if (row) {
+        return row;
+      }
+    }
+    return null;
+  };
+
+  const db = {
+    normalizeId(tableName: string, id: string) {
+      return id.startsWith(`${tableName}_`) ? id : null;
+    },
+    async get(id: string) {
+      return findRow(id);
+    },
+    query(tableName: string) {
+      const table = getTable(tableName);
+      return {
+        withIndex(_name: string, cb: (q: any) => unknown) {
+          const filters: Array<{ field: string; value: unknown }> = [];
+          cb({
+            eq(field: string, value: unknown) {
+              filters.push({ field, value });
+              return this;
+            },
+          });
+          return {
+            async collect() {
+              return table.filter((row) =>
+                filters.every((filter) => row[filter.field] === filter.value)
+              );
+            },
+          };
+        },
+      };
+    },
+    async insert(tableName: string, value: Record<string, unknown>) {
+      const table = getTable(tableName);
+      const id = `${tableName}_${table.length + 1}`;
+      table.push({ _id: id, _creationTime: Date.now(), ...value });
+      return id;
+    },
+    async patch(id: string, value: Record<string, unknown>) {
+      const row = findRow(id);
+      if (!row) {
+        throw new Error(`Row not found: ${id}`);
+      }
+      Object.assign(row, value);
+    },
+  };
+
+  const scheduler = {
+    async runAfter(delayMs: number, _ref: unknown, args: any) {
+      scheduled.push({ delayMs, args });
+      return `scheduled_${scheduled.length}`;
+    },
+  };
+
+  return {
+    ctx: { db: db as any, scheduler: scheduler as any },
+    rows: (name: string) => getTable(name),
+    scheduled,
+  };
+}
+
+const deliver = makeFunctionReference<'action'>('plugins/webhooks:deliver');
+
+const options = {
+  deliver,
+  maxAttempts: 3,
+  initialBackoffMs: 1000,
+  maxBackoffMs: 60_000,
+  disableAfterFailures: 4,
+};
+
+const failed: WebhookAttemptResult = {
+  ok: false,
+  statusCode: 500,
+  error: 'Endpoint responded with status 500.',
+  responseBody: null,
+  durationMs: 12,
+};
+
+const succeeded: WebhookAttemptResult = {
+  ok: true,
+  statusCode: 204,
+  error: null,
+  responseBody: null,
+  durationMs: 8,
+};
+
+async function seedEndpoint(
+  mock: ReturnType<typeof createMockCtx>,
+  eventTypes: string[],
+  status: 'enabled' | 'disabled' = 'enabled'
+) {
+  const endpointId = await mock.ctx.db.insert(WEBHOOK_ENDPOINT_TABLE, {
+    url: 'http://localhost/hooks',
+    secret: 'whsec_dGVzdA==',
+    status,
+    failureCount: 0,
+  });
+  for (const eventType of eventTypes) {
+    await mock.ctx.db.insert(WEBHOOK_SUBSCRIPTION_TABLE, {
+      endpointId,
+      eventType,
+    });
+  }
+  return endpointId as string;
+}
+
+function createCaller(mock: ReturnType<typeof createMockCtx>) {
+  const plugin = WebhooksPlugin.configure({
+    deliver,
+    maxAttempts: 3,
+    initialBackoffMs: 1000,
+    disableAfterFailures: 4,
+  });
+  const c = initCRPC.context({ mutation: () => mock.ctx }).create();
+
+  return (type: string, payload: Record<string, unknown>) => {
+    const proc = c.mutation
+      .use(plugin.middleware())
+      .mutation(({ ctx }) => ctx.api.webhooks.emit(type, payload));
+    return (proc as any)._handler({}, {});
+  };
+}
+
+describe('WebhooksPlugin', () => {
+  test('configure() resolves defaults', async () => {
+    const mock = createMockCtx();
+    const c = initCRPC.context({ mutation: () => mock.ctx }).create();
+    const proc = c.mutation
+      .use(WebhooksPlugin.configure({ deliver }).middleware())
+      .mutation(({ ctx }) => {
+        const { emit: _emit, ...resolved } = ctx.api.webhooks;
+        return resolved;
+      });
+
+    await expect((proc as any)._handler({}, {})).resolves.toEqual({
+      deliver,
+      maxAttempts: 8,
+      initialBackoffMs: 30_000,
+      maxBackoffMs: 6 * 60 * 60 * 1000,
+      disableAfterFailures: 20,
+      timeoutMs: 10_000,
+    });
+  });
+
+  test('requires configure()', async () => {
+    const mock = createMockCtx();
+    const c = initCRPC.context({ mutation: () => mock.ctx }).create();
+    const proc = c.mutation
+      .use(WebhooksPlugin.middleware())
+      .mutation(({ ctx }) => ctx.api.webhooks.maxAttempts);
+
+    await expect((proc as any)._handler({}, {})).rejects.toThrow(
+      'WebhooksPlugin must be configured before use.'
+    );
+  });
+
+  test('emit() queues one delivery per enabled subscribed endpoint', async () => {
+    const mock = createMockCtx();
+    const invoices = await seedEndpoint(mock, ['invoice.paid']);
+    const everything = await seedEndpoint(mock, ['*', 'invoice.paid']);
+    await seedEndpoint(mock, ['invoice.paid'], 'disabled');
+    await seedEndpoint(mock, ['customer.created']);
+    const emit = createCaller(mock);
+
+    const result = await emit('invoice.paid', { invoiceId: 'inv_1' });
+
+    expect(result.eventId).toMatch(/^msg_[0-9a-f]{32}$/);
+    expect(mock.rows(WEBHOOK_DELIVERY_TABLE)).toMatchObject([
+      {
+        endpointId: invoices,
+        eventId: result.eventId,
+        eventType: 'invoice.paid',
+        payload: { invoiceId: 'inv_1' },
+        status: 'pending',
+        attempts: 0,
+      },
+      { endpointId: everything, status: 'pending' },
+    ]);
+    expect(mock.scheduled).toEqual(
+      result.deliveryIds.map((deliveryId: string) => ({
+        delayMs: 0,
+        args: { deliveryId },
+      }))
+    );
+  });
+});
+
+describe('webhooks/store', () => {
+  test('retries failed attempts with backoff, then marks the delivery failed', async () => {
+    const mock = createMockCtx();
+    await seedEndpoint(mock, ['invoice.paid']);
+    const {
+      deliveryIds: [deliveryId],
+    } = await createCaller(mock)('invoice.paid', {});
+
+    const results = [];
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      const target = await startWebhookDelivery(mock.ctx, deliveryId);
+      expect(target?.attempt).toBe(attempt);
+      results.push(
+        await recordWebhookAttempt(mock.ctx, options, {
+          deliveryId,
+          attempt,
+          result: failed,
+        })
+      );
+    }
+
+    expect(results).toEqual([
+      { status: 'retrying', retryInMs: 1000 },
+      { status: 'retrying', retryInMs: 2000 },
+      { status: 'failed' },
+    ]);
+    expect(mock.rows(WEBHOOK_DELIVERY_TABLE)[0]).toMatchObject({
+      status: 'failed',
+      attempts: 3,
+      lastStatusCode: 500,
+    });
+    expect(mock.rows(WEBHOOK_ATTEMPT_TABLE)).toHaveLength(3);
+    expect(await startWebhookDelivery(mock.ctx, deliveryId)).toBeNull();
+  });
+
+  test('ignores duplicate attempt results', async () => {
+    const mock = createMockCtx();
+    await seedEndpoint(mock, ['invoice.paid']);
+    const {
+      deliveryIds: [deliveryId],
+    } = await createCaller(mock)('invoice.paid', {});
+    const args = { deliveryId, attempt: 1, result: succeeded };
+
+    await expect(
+      recordWebhookAttempt(mock.ctx, options, args)
+    ).resolves.toEqual({ status: 'succeeded' });
+    await expect(
+      recordWebhookAttempt(mock.ctx, options, args)
+    ).resolves.toEqual({ status: 'skipped' });
+    expect(mock.rows(WEBHOOK_ATTEMPT_TABLE)).toHaveLength(1);
+  });
+
+  test('disables an endpoint after repeated failures and resets on success', async () => {
+    const mock = createMockCtx();
+    const endpointId = await seedEndpoint(mock, ['invoice.paid']);
+    const emit = createCaller(mock);
+
+    const first = await emit('invoice.paid', {});
+    await recordWebhookAttempt(mock.ctx, options, {
+      deliveryId: first.deliveryIds[0],
+      attempt: 1,
+      result: failed,
+    });
+    await recordWebhookAttempt(mock.ctx, options, {
+      deliveryId: first.deliveryIds[0],
+      attempt: 2,
+      result: succeeded,
+    });
+    expect(await mock.ctx.db.get(endpointId)).toMatchObject({
+      status: 'enabled',
+      failureCount: 0,
+    });
+
+    for (let i = 0; i < 2; i++) {
+      const { deliveryIds } = await emit('invoice.paid', {});
+      for (let attempt = 1; attempt <= 2; attempt++) {
+        await recordWebhookAttempt(mock.ctx, options, {
+          deliveryId: deliveryIds[0],
+          attempt,
+          result: failed,
+        });
+      }
+    }
+
+    expect(await mock.ctx.db.get(endpointId)).toMatchObject({
+      status: 'disabled',
+      failureCount: 4,
+      disabledReason: 'Disabled after 4 consecutive failed attempts.',
+    });
+    expect(
+      mock.rows(WEBHOOK_DELIVERY_TABLE).map((delivery) => delivery.status)
+    ).toEqual(['succeeded', 'pending', 'failed']);
+    expect(await emit('invoice.paid', {})).toMatchObject({ deliveryIds: [] });
+  });
+
+  test('replay restarts the attempt budget and keeps numbering', async () => {
+    const mock = createMockCtx();
+    const endpointId = await seedEndpoint(mock, ['invoice.paid']);
+    const {
+      deliveryIds: [deliveryId],
+    } = await createCaller(mock)('invoice.paid', {});
+    await recordWebhookAttempt(mock.ctx, options, {
+      deliveryId,
+      attempt: 1,
+      result: succeeded,
+    });
+    mock.scheduled.length = 0;
+
+    await replayWebhookDelivery(mock.ctx, options, deliveryId);
+
+    expect(await mock.ctx.db.get(deliveryId)).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      attemptsBeforeReplay: 1,
+    });
+    expect(mock.scheduled).toEqual([{ delayMs: 0, args: { deliveryId } }]);
+    await expect(
+      replayWebhookDelivery(mock.ctx, options, deliveryId)
+    ).rejects.toThrow(`Webhook delivery '${deliveryId}' is still pending.`);
+
+    const results = [];
+    for (let attempt = 2; attempt <= 4; attempt++) {
+      const target = await startWebhookDelivery(mock.ctx, deliveryId);
+      expect(target?.attempt).toBe(attempt);
+      results.push(
+        await recordWebhookAttempt(mock.ctx, options, {
+          deliveryId,
+          attempt,
+          result: failed,
+        })
+      );
+    }
+    expect(results).toEqual([
+      { status: 'retrying', retryInMs: 1000 },
+      { status: 'retrying', retryInMs: 2000 },
+      { status: 'failed' },
+    ]);
+    expect(mock.rows(WEBHOOK_ATTEMPT_TABLE).map((row) => row.attempt)).toEqual([
+      1, 2, 3, 4,
+    ]);
+
+    await mock.ctx.db.patch(endpointId, { status: 'disabled' });
+    await expect(
+      replayWebhookDelivery(mock.ctx, options, deliveryId)
+    ).rejects.toThrow('Webhook endpoint is disabled.');
+  });
+});
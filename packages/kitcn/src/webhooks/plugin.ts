@@ -0,0 +1,50 @@
+import type { SchedulableFunctionReference } from 'convex/server';
+import { definePlugin } from '../plugins';
+import { requireMutationCtx } from '../server/context-utils';
+import type { WebhookPayload } from './delivery';
+import { emitWebhookEvent, type WebhookEmitResult } from './store';
+
+export type WebhooksPluginOptions = {
+  /** Internal action that sends one delivery (`plugins/webhooks:deliver`). */
+  deliver: SchedulableFunctionReference;
+  /** Attempts per delivery before it is marked failed. Defaults to 8. */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles per attempt. Defaults to 30s. */
+  initialBackoffMs?: number;
+  /** Upper bound for the retry delay. Defaults to 6h. */
+  maxBackoffMs?: number;
+  /** Failed attempts in a row before an endpoint is disabled. Defaults to 20. */
+  disableAfterFailures?: number;
+  /** Per-request timeout. Defaults to 10s. */
+  timeoutMs?: number;
+};
+
+export type WebhooksApi = Required<WebhooksPluginOptions> & {
+  /** Queues `type` for every endpoint subscribed to it. Mutation ctx only. */
+  emit: (type: string, payload: WebhookPayload) => Promise<WebhookEmitResult>;
+};
+
+export const WebhooksPlugin = definePlugin<
+  'webhooks',
+  WebhooksPluginOptions,
+  WebhooksApi
+>('webhooks', ({ ctx, options }) => {
+  if (!options) {
+    throw new Error('WebhooksPlugin must be configured before use.');
+  }
+
+  const resolved = {
+    deliver: options.deliver,
+    maxAttempts: options.maxAttempts ?? 8,
+    initialBackoffMs: options.initialBackoffMs ?? 30_000,
+    maxBackoffMs: options.maxBackoffMs ?? 6 * 60 * 60 * 1000,
+    disableAfterFailures: options.disableAfterFailures ?? 20,
+    timeoutMs: options.timeoutMs ?? 10_000,
+  } satisfies Required<WebhooksPluginOptions>;
+
+  return {
+    ...resolved,
+    emit: (type, payload) =>
+      emitWebhookEvent(requireMutationCtx(ctx as any), resolved, type, payload),
+  };
+});
@@ -0,0 +1,67 @@
+import { Webhook } from 'svix';
+
+const SECRET_PREFIX = 'whsec_';
+const SECRET_BYTES = 24;
+
+export type WebhookSignatureHeaders = {
+  'svix-id': string;
+  'svix-timestamp': string;
+  'svix-signature': string;
+};
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/** New endpoint signing secret in the `whsec_<base64>` format svix expects. */
+export function createWebhookSecret(): string {
+  const bytes = new Uint8Array(SECRET_BYTES);
+  crypto.getRandomValues(bytes);
+  return `${SECRET_PREFIX}${toBase64(bytes)}`;
+}
+
+/**
+ * Signs `body` with the svix scheme: an HMAC-SHA256 of
+ * `<id>.<timestamp>.<body>`, so receivers can verify it with any svix or
+ * Standard Webhooks library.
+ */
+export function signWebhook(args: {
+  secret: string;
+  id: string;
+  body: string;
+  timestamp?: Date;
+}): WebhookSignatureHeaders {
+  const timestamp = args.timestamp ?? new Date();
+  return {
+    'svix-id': args.id,
+    'svix-timestamp': String(Math.floor(timestamp.getTime() / 1000)),
+    'svix-signature': new Webhook(args.secret).sign(
+      args.id,
+      timestamp,
+      args.body
+    ),
+  };
+}
+
+/**
+ * Verifies a signed webhook request and returns its parsed body. Throws when
+ * the signature does not match or the timestamp is outside svix's tolerance.
+ */
+export async function verifyWebhook<TBody = unknown>(
+  req: Request,
+  secret: string
+): Promise<TBody> {
+  if (!secret) {
+    throw new Error('Webhook secret is not set');
+  }
+
+  return new Webhook(secret).verify(await req.text(), {
+    'svix-id': req.headers.get('svix-id') ?? '',
+    'svix-timestamp': req.headers.get('svix-timestamp') ?? '',
+    'svix-signature': req.headers.get('svix-signature') ?? '',
+  }) as TBody;
+}
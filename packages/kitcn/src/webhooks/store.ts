@@ -0,0 +1,339 @@
+import type {
+  GenericDatabaseWriter,
+  SchedulableFunctionReference,
+  Scheduler,
+} from 'convex/server';
+import {
+  getWebhookRetryDelayMs,
+  type WebhookAttemptResult,
+  type WebhookDeliveryTarget,
+  type WebhookPayload,
+} from './delivery';
+
+export const WEBHOOK_ENDPOINT_TABLE = 'webhookEndpoint';
+export const WEBHOOK_SUBSCRIPTION_TABLE = 'webhookSubscription';
+export const WEBHOOK_DELIVERY_TABLE = 'webhookDelivery';
+export const WEBHOOK_ATTEMPT_TABLE = 'webhookDeliveryAttempt';
+/** Subscription event type that matches every event. */
+export const WEBHOOK_WILDCARD_EVENT = '*';
+
+const missingTableGuidance =
+  'Webhook tables are missing. Scaffold and register `convex/lib/plugins/webhooks/schema.ts`, or run `kitcn add webhooks`.';
+
+export type WebhookEndpointStatus = 'enabled' | 'disabled';
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export type WebhookDeliverArgs = {
+  deliveryId: string;
+};
+
+/** Resolved `WebhooksPlugin` options the store functions read. */
+export type WebhookStoreOptions = {
+  deliver: SchedulableFunctionReference;
+  maxAttempts: number;
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+  disableAfterFailures: number;
+};
+
+export type WebhookEmitResult = {
+  eventId: string;
+  deliveryIds: string[];
+};
+
+export type WebhookRecordResult =
+  | { status: 'succeeded' | 'failed' | 'skipped' }
+  | { status: 'retrying'; retryInMs: number };
+
+type WebhookCtx = {
+  db: GenericDatabaseWriter<any>;
+  scheduler: Scheduler;
+};
+
+type EndpointRow = {
+  _id: string;
+  url: string;
+  secret: string;
+  status: WebhookEndpointStatus;
+  failureCount: number;
+};
+
+type DeliveryRow = {
+  _id: string;
+  _creationTime: number;
+  endpointId: string;
+  eventId: string;
+  eventType: string;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  attemptsBeforeReplay?: number | null;
+};
+
+async function withSetupGuidance<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (
+      message.includes(WEBHOOK_ENDPOINT_TABLE) ||
+      message.includes(WEBHOOK_SUBSCRIPTION_TABLE) ||
+      message.includes(WEBHOOK_DELIVERY_TABLE)
+    ) {
+      throw new Error(`${missingTableGuidance} (${message})`);
+    }
+    throw error;
+  }
+}
+
+const getRow = async <T>(
+  db: GenericDatabaseWriter<any>,
+  table: string,
+  id: string
+): Promise<T | null> => {
+  const normalized = db.normalizeId(table as any, id);
+  return normalized ? ((await db.get(normalized)) as T | null) : null;
+};
+
+const createEventId = () => `msg_${crypto.randomUUID().replaceAll('-', '')}`;
+
+/**
+ * Queues `type` for every enabled endpoint subscribed to it (or to `*`) and
+ * schedules the deliver action for each delivery.
+ */
+export function emitWebhookEvent(
+  ctx: WebhookCtx,
+  options: WebhookStoreOptions,
+  type: string,
+  payload: WebhookPayload
+): Promise<WebhookEmitResult> {
+  return withSetupGuidance(async () => {
+    const subscriptions: { endpointId: string }[] = [];
+    for (const eventType of new Set([type, WEBHOOK_WILDCARD_EVENT])) {
+      subscriptions.push(
+        ...(await ctx.db
+          .query(WEBHOOK_SUBSCRIPTION_TABLE as any)
+          .withIndex('by_event_type', (q: any) => q.eq('eventType', eventType))
+          .collect())
+      );
+    }
+
+    const eventId = createEventId();
+    const deliveryIds: string[] = [];
+    const endpointIds = new Set(
+      subscriptions.map((subscription) => subscription.endpointId)
+    );
+    for (const endpointId of endpointIds) {
+      const endpoint = await getRow<EndpointRow>(
+        ctx.db,
+        WEBHOOK_ENDPOINT_TABLE,
+        endpointId
+      );
+      if (endpoint?.status !== 'enabled') {
+        continue;
+      }
+
+      const deliveryId = await ctx.db.insert(
+        WEBHOOK_DELIVERY_TABLE as any,
+        {
+          endpointId,
+          eventId,
+          eventType: type,
+          payload,
+          status: 'pending',
+          attempts: 0,
+          nextAttemptAt: Date.now(),
+        } as any
+      );
+      await ctx.scheduler.runAfter(0, options.deliver, {
+        deliveryId: deliveryId as string,
+      });
+      deliveryIds.push(deliveryId as string);
+    }
+
+    return { eventId, deliveryIds };
+  });
+}
+
+/**
+ * Loads a pending delivery for its next attempt. Returns null when there is
+ * nothing to send; deliveries to a disabled endpoint are marked failed.
+ */
+export async function startWebhookDelivery(
+  ctx: Pick<WebhookCtx, 'db'>,
+  deliveryId: string
+): Promise<WebhookDeliveryTarget | null> {
+  const delivery = await getRow<DeliveryRow>(
+    ctx.db,
+    WEBHOOK_DELIVERY_TABLE,
+    deliveryId
+  );
+  if (delivery?.status !== 'pending') {
+    return null;
+  }
+
+  const endpoint = await getRow<EndpointRow>(
+    ctx.db,
+    WEBHOOK_ENDPOINT_TABLE,
+    delivery.endpointId
+  );
+  if (endpoint?.status !== 'enabled') {
+    await ctx.db.patch(delivery._id as any, {
+      status: 'failed',
+      lastError: 'Webhook endpoint is disabled.',
+    });
+    return null;
+  }
+
+  return {
+    deliveryId: delivery._id,
+    endpointId: endpoint._id,
+    url: endpoint.url,
+    secret: endpoint.secret,
+    eventId: delivery.eventId,
+    eventType: delivery.eventType,
+    payload: delivery.payload,
+    emittedAt: delivery._creationTime,
+    attempt: delivery.attempts + 1,
+  };
+}
+
+/**
+ * Logs an attempt and moves the delivery on: done on success, retried with
+ * backoff until `maxAttempts` since the last replay, failed after that.
+ * Consecutive failed attempts count against the endpoint, which is disabled
+ * once they reach `disableAfterFailures`.
+ */
+export async function recordWebhookAttempt(
+  ctx: WebhookCtx,
+  options: WebhookStoreOptions,
+  args: { deliveryId: string; attempt: number; result: WebhookAttemptResult }
+): Promise<WebhookRecordResult> {
+  const { attempt, result } = args;
+  const delivery = await getRow<DeliveryRow>(
+    ctx.db,
+    WEBHOOK_DELIVERY_TABLE,
+    args.deliveryId
+  );
+  if (delivery?.status !== 'pending' || delivery.attempts >= attempt) {
+    return { status: 'skipped' };
+  }
+
+  const now = Date.now();
+  await ctx.db.insert(
+    WEBHOOK_ATTEMPT_TABLE as any,
+    {
+      deliveryId: delivery._id,
+      endpointId: delivery.endpointId,
+      attempt,
+      statusCode: result.statusCode ?? undefined,
+      error: result.error ?? undefined,
+      responseBody: result.responseBody ?? undefined,
+      durationMs: result.durationMs,
+      attemptedAt: now,
+    } as any
+  );
+
+  const endpoint = await getRow<EndpointRow>(
+    ctx.db,
+    WEBHOOK_ENDPOINT_TABLE,
+    delivery.endpointId
+  );
+  const delivered = {
+    attempts: attempt,
+    lastStatusCode: result.statusCode ?? undefined,
+    lastError: result.error ?? undefined,
+  };
+
+  if (result.ok) {
+    await ctx.db.patch(delivery._id as any, {
+      ...delivered,
+      status: 'succeeded',
+      deliveredAt: now,
+    });
+    if (endpoint && endpoint.failureCount > 0) {
+      await ctx.db.patch(endpoint._id as any, { failureCount: 0 });
+    }
+    return { status: 'succeeded' };
+  }
+
+  // Attempt numbers keep counting across replays; the budget restarts.
+  const runAttempt = attempt - (delivery.attemptsBeforeReplay ?? 0);
+  let endpointDisabled = endpoint?.status !== 'enabled';
+  if (endpoint && !endpointDisabled) {
+    const failureCount = endpoint.failureCount + 1;
+    endpointDisabled = failureCount >= options.disableAfterFailures;
+    await ctx.db.patch(endpoint._id as any, {
+      failureCount,
+      ...(endpointDisabled
+        ? {
+            status: 'disabled',
+            disabledAt: now,
+            disabledReason: `Disabled after ${failureCount} consecutive failed attempts.`,
+          }
+        : {}),
+    });
+  }
+
+  if (endpointDisabled || runAttempt >= options.maxAttempts) {
+    await ctx.db.patch(delivery._id as any, {
+      ...delivered,
+      status: 'failed',
+    });
+    return { status: 'failed' };
+  }
+
+  const retryInMs = getWebhookRetryDelayMs(options, runAttempt);
+  await ctx.db.patch(delivery._id as any, {
+    ...delivered,
+    nextAttemptAt: now + retryInMs,
+  });
+  await ctx.scheduler.runAfter(retryInMs, options.deliver, {
+    deliveryId: delivery._id,
+  });
+  return { status: 'retrying', retryInMs };
+}
+
+/**
+ * Sends a finished (failed or succeeded) delivery again with a fresh attempt
+ * budget. Attempt numbers carry on from the previous run, and the event id is
+ * kept, so receivers that dedupe on `svix-id` treat it as the same message.
+ */
+export async function replayWebhookDelivery(
+  ctx: WebhookCtx,
+  options: Pick<WebhookStoreOptions, 'deliver'>,
+  deliveryId: string
+): Promise<void> {
+  const delivery = await getRow<DeliveryRow>(
+    ctx.db,
+    WEBHOOK_DELIVERY_TABLE,
+    deliveryId
+  );
+  if (!delivery) {
+    throw new Error(`Webhook delivery '${deliveryId}' not found.`);
+  }
+  if (delivery.status === 'pending') {
+    throw new Error(
+      `Webhook delivery '${deliveryId}' is still pending. Only failed or succeeded deliveries can be replayed.`
+    );
+  }
+  const endpoint = await getRow<EndpointRow>(
+    ctx.db,
+    WEBHOOK_ENDPOINT_TABLE,
+    delivery.endpointId
+  );
+  if (endpoint?.status !== 'enabled') {
+    throw new Error(
+      'Webhook endpoint is disabled. Enable it before replaying deliveries.'
+    );
+  }
+
+  await ctx.db.patch(delivery._id as any, {
+    status: 'pending',
+    attemptsBeforeReplay: delivery.attempts,
+    nextAttemptAt: Date.now(),
+  });
+  await ctx.scheduler.runAfter(0, options.deliver, {
+    deliveryId: delivery._id,
+  });
+}
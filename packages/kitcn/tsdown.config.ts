@@ -47,6 +47,7 @@ export default defineConfig([
       'rsc/index': 'src/rsc/index.ts',
       'server/index': 'src/server/index.ts',
       'orm/index': 'src/orm/index.ts',
+      'webhooks/index': 'src/webhooks/index.ts',
     },
     // Keep CI strict: only allow this known transitive Better Auth dep to inline.
     inlineOnly: ['kysely'],
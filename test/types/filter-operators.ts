@@ -187,6 +187,23 @@ declare const ops: FilterOperators;
   ops.inArray(cityId, ['not-an-id']);
 }
 
+// Encrypted columns: deterministic ones take plaintext in equality operators
+{
+  const email = text().notNull().encrypted({ mode: 'deterministic' });
+  ops.eq(email, 'ada@example.com');
+  ops.ne(email, 'ada@example.com');
+  ops.inArray(email, ['ada@example.com']);
+  ops.notInArray(email, ['ada@example.com']);
+  // @ts-expect-error - ciphertext has no order
+  ops.gt(email, 'a');
+  // @ts-expect-error - ciphertext has no substrings
+  ops.like(email, 'ada%');
+
+  const ssn = text().encrypted();
+  // @ts-expect-error - randomized columns can't be filtered
+  ops.eq(ssn, '123-45-6789');
+}
+
 // ============================================================================
 // ANY-PROTECTION TESTS
 // ============================================================================
@@ -72,6 +72,7 @@ const FIXTURE_PACKAGE_PATHS = {
   'kitcn/rsc': 'src/rsc/index.ts',
   'kitcn/server': 'src/server/index.ts',
   'kitcn/solid': 'src/solid/index.ts',
+  'kitcn/webhooks': 'src/webhooks/index.ts',
 } as const;
 
 const VOLATILE_FIXTURE_DEPENDENCY_SPECS = {